@@ -0,0 +1,2 @@
+ALTER TABLE "ai_chat_messages" ADD COLUMN "reasoning" text;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "payload" text;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "emails" ADD COLUMN "list_unsubscribe" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "list_unsubscribe_post" text;--> statement-breakpoint
+ALTER TABLE "unsubscribed_senders" ADD COLUMN "unsubscribe_method" text;--> statement-breakpoint
+ALTER TABLE "unsubscribed_senders" ADD COLUMN "unsubscribe_status" text;--> statement-breakpoint
+ALTER TABLE "unsubscribed_senders" ADD COLUMN "unsubscribe_target" text;--> statement-breakpoint
+ALTER TABLE "unsubscribed_senders" ADD COLUMN "http_status" integer;--> statement-breakpoint
+ALTER TABLE "unsubscribed_senders" ADD COLUMN "unsubscribe_error" text;--> statement-breakpoint
+ALTER TABLE "unsubscribed_senders" ADD COLUMN "attempted_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "unsubscribe_violations" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"sender_email" text NOT NULL,
+	"sender_name" text,
+	"first_message_id" text NOT NULL,
+	"first_email_at" bigint NOT NULL,
+	"last_email_at" bigint NOT NULL,
+	"email_count" integer DEFAULT 0 NOT NULL,
+	"escalation" text,
+	"escalation_filter_id" text,
+	"escalated_at" timestamp with time zone,
+	"detected_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "unsubscribe_violations" ADD CONSTRAINT "unsubscribe_violations_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "unsubscribe_violations_mail_account_idx" ON "unsubscribe_violations" USING btree ("mail_account_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "unsubscribe_violations_account_email_unique" ON "unsubscribe_violations" USING btree ("mail_account_id","sender_email");
\ No newline at end of file
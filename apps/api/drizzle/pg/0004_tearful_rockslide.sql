@@ -0,0 +1,40 @@
+CREATE TABLE "cleanup_rule_runs" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"rule_id" varchar(21) NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"job_id" varchar(21),
+	"dry_run" integer DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"matched_count" integer DEFAULT 0 NOT NULL,
+	"matched_size_bytes" bigint DEFAULT 0 NOT NULL,
+	"processed_count" integer DEFAULT 0 NOT NULL,
+	"preview" text,
+	"error" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "cleanup_rules" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"name" text NOT NULL,
+	"filters" text NOT NULL,
+	"older_than_days" integer,
+	"action" text NOT NULL,
+	"label_id" text,
+	"schedule" text NOT NULL,
+	"is_enabled" integer DEFAULT 1 NOT NULL,
+	"dry_run" integer DEFAULT 0 NOT NULL,
+	"last_run_at" timestamp with time zone,
+	"next_run_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cleanup_rule_runs" ADD CONSTRAINT "cleanup_rule_runs_rule_id_cleanup_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."cleanup_rules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cleanup_rule_runs" ADD CONSTRAINT "cleanup_rule_runs_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cleanup_rules" ADD CONSTRAINT "cleanup_rules_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "cleanup_rule_runs_rule_idx" ON "cleanup_rule_runs" USING btree ("rule_id","started_at");--> statement-breakpoint
+CREATE INDEX "cleanup_rule_runs_job_idx" ON "cleanup_rule_runs" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "cleanup_rules_account_idx" ON "cleanup_rules" USING btree ("mail_account_id");--> statement-breakpoint
+CREATE INDEX "cleanup_rules_enabled_next_run_idx" ON "cleanup_rules" USING btree ("mail_account_id","is_enabled","next_run_at");
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TABLE "deleted_emails" ADD COLUMN "to_emails" text;--> statement-breakpoint
+ALTER TABLE "deleted_emails" ADD COLUMN "cc_emails" text;--> statement-breakpoint
+ALTER TABLE "deleted_emails" ADD COLUMN "delivered_to" text;--> statement-breakpoint
+ALTER TABLE "deleted_emails" ADD COLUMN "reply_to" text;--> statement-breakpoint
+ALTER TABLE "deleted_emails" ADD COLUMN "list_id" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "to_emails" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "cc_emails" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "delivered_to" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "reply_to" text;--> statement-breakpoint
+ALTER TABLE "emails" ADD COLUMN "list_id" text;--> statement-breakpoint
+CREATE INDEX "emails_account_list_id_idx" ON "emails" USING btree ("mail_account_id","list_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "emails" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('simple'::regconfig, regexp_replace(coalesce("subject", ''), '[^[:alnum:]]+', ' ', 'g')), 'A') || setweight(to_tsvector('simple'::regconfig, regexp_replace(coalesce(coalesce("from_name", '') || ' ' || "from_email", ''), '[^[:alnum:]]+', ' ', 'g')), 'B') || setweight(to_tsvector('simple'::regconfig, regexp_replace(coalesce(jsonb_path_query_array("attachments"::jsonb, '$[*].filename')::text, ''), '[^[:alnum:]]+', ' ', 'g')), 'C') || setweight(to_tsvector('simple'::regconfig, regexp_replace(coalesce("snippet", ''), '[^[:alnum:]]+', ' ', 'g')), 'D')) STORED;--> statement-breakpoint
+CREATE INDEX "emails_search_idx" ON "emails" USING gin ("search_vector");
\ No newline at end of file
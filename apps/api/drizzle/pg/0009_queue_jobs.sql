@@ -0,0 +1,21 @@
+CREATE TABLE "queue_jobs" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"data" text NOT NULL,
+	"job_id" text,
+	"status" text DEFAULT 'waiting' NOT NULL,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"attempts_made" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 1 NOT NULL,
+	"backoff" text,
+	"run_at" bigint NOT NULL,
+	"locked_by" text,
+	"locked_until" bigint,
+	"last_error" text,
+	"finished_at" bigint,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "queue_jobs_claim_idx" ON "queue_jobs" USING btree ("status","priority","run_at");--> statement-breakpoint
+CREATE INDEX "queue_jobs_job_id_idx" ON "queue_jobs" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "queue_jobs_finished_at_idx" ON "queue_jobs" USING btree ("finished_at");
\ No newline at end of file
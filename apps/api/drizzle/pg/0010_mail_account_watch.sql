@@ -0,0 +1 @@
+ALTER TABLE "mail_accounts" ADD COLUMN "watch_expiration" bigint;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "email_backups" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"message_id" text NOT NULL,
+	"thread_id" text,
+	"format" text NOT NULL,
+	"file" text NOT NULL,
+	"offset" bigint,
+	"length" integer NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"sha256" text NOT NULL,
+	"from_email" text,
+	"subject" text,
+	"internal_date" bigint,
+	"backed_up_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "mail_accounts" ADD COLUMN "backup_format" text;--> statement-breakpoint
+ALTER TABLE "email_backups" ADD CONSTRAINT "email_backups_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "email_backups_account_message_unique" ON "email_backups" USING btree ("mail_account_id","message_id");--> statement-breakpoint
+CREATE INDEX "email_backups_account_date_idx" ON "email_backups" USING btree ("mail_account_id","internal_date");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "saved_attachments" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"original_message_id" text NOT NULL,
+	"message_id" text NOT NULL,
+	"attachment_index" integer NOT NULL,
+	"filename" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size_bytes" bigint NOT NULL,
+	"file" text NOT NULL,
+	"sha256" text NOT NULL,
+	"from_email" text,
+	"subject" text,
+	"internal_date" bigint,
+	"saved_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "saved_attachments" ADD CONSTRAINT "saved_attachments_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "saved_attachments_original_unique" ON "saved_attachments" USING btree ("mail_account_id","original_message_id","attachment_index");--> statement-breakpoint
+CREATE INDEX "saved_attachments_account_date_idx" ON "saved_attachments" USING btree ("mail_account_id","saved_at");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "mailbox_snapshots" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"date" text NOT NULL,
+	"total_emails" integer NOT NULL,
+	"total_size_bytes" bigint NOT NULL,
+	"unread_count" integer NOT NULL,
+	"trash_count" integer NOT NULL,
+	"trash_size_bytes" bigint NOT NULL,
+	"spam_count" integer NOT NULL,
+	"spam_size_bytes" bigint NOT NULL,
+	"categories" text NOT NULL,
+	"top_senders" text NOT NULL,
+	"reclaimed_bytes" bigint NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "reclaimed_bytes" bigint DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "mail_accounts" ADD COLUMN "storage_quota_bytes" bigint;--> statement-breakpoint
+ALTER TABLE "mailbox_snapshots" ADD CONSTRAINT "mailbox_snapshots_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "mailbox_snapshots_account_date_unique" ON "mailbox_snapshots" USING btree ("mail_account_id","date");
\ No newline at end of file
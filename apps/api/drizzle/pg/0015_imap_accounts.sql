@@ -0,0 +1,28 @@
+CREATE TABLE "imap_credentials" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"host" text NOT NULL,
+	"port" integer NOT NULL,
+	"security" text NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "imap_credentials_mail_account_id_unique" UNIQUE("mail_account_id")
+);
+--> statement-breakpoint
+CREATE TABLE "imap_messages" (
+	"id" varchar(21) PRIMARY KEY NOT NULL,
+	"mail_account_id" varchar(21) NOT NULL,
+	"message_id" text NOT NULL,
+	"mailbox" text NOT NULL,
+	"uid" bigint NOT NULL,
+	"flags" text NOT NULL,
+	"header_message_id" text
+);
+--> statement-breakpoint
+ALTER TABLE "imap_credentials" ADD CONSTRAINT "imap_credentials_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "imap_messages" ADD CONSTRAINT "imap_messages_mail_account_id_mail_accounts_id_fk" FOREIGN KEY ("mail_account_id") REFERENCES "public"."mail_accounts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "imap_messages_account_mailbox_uid_unique" ON "imap_messages" USING btree ("mail_account_id","mailbox","uid");--> statement-breakpoint
+CREATE INDEX "imap_messages_account_message_idx" ON "imap_messages" USING btree ("mail_account_id","message_id");--> statement-breakpoint
+CREATE INDEX "imap_messages_account_header_idx" ON "imap_messages" USING btree ("mail_account_id","header_message_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "mail_rules" ADD COLUMN "mirror_to_provider" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "mail_rules" ADD COLUMN "provider_snapshot" text;--> statement-breakpoint
+ALTER TABLE "mail_rules" ADD COLUMN "drift_detected_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "mail_rules" ADD COLUMN "applied_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "mail_rules" ADD COLUMN "last_applied_at" timestamp with time zone;
\ No newline at end of file
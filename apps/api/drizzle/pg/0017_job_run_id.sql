@@ -0,0 +1 @@
+ALTER TABLE "jobs" ADD COLUMN "run_id" varchar(21);
\ No newline at end of file
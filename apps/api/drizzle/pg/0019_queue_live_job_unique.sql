@@ -0,0 +1,7 @@
+-- Keep only the oldest live queue entry of each app job before enforcing uniqueness
+UPDATE "queue_jobs" SET "status" = 'failed', "locked_by" = NULL, "locked_until" = NULL, "last_error" = 'Duplicate queue entry', "finished_at" = (extract(epoch from now()) * 1000)::bigint
+WHERE "status" IN ('waiting', 'active') AND "job_id" IS NOT NULL AND EXISTS (
+	SELECT 1 FROM "queue_jobs" q WHERE q."type" = "queue_jobs"."type" AND q."job_id" = "queue_jobs"."job_id" AND q."status" IN ('waiting', 'active')
+	AND (q."created_at" < "queue_jobs"."created_at" OR (q."created_at" = "queue_jobs"."created_at" AND q."id" < "queue_jobs"."id"))
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "queue_jobs_live_job_unique" ON "queue_jobs" USING btree ("type","job_id") WHERE "queue_jobs"."status" IN ('waiting', 'active');
\ No newline at end of file
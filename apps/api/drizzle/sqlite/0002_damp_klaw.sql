@@ -0,0 +1 @@
+ALTER TABLE `jobs` ADD `payload` text;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE `emails` ADD `list_unsubscribe` text;--> statement-breakpoint
+ALTER TABLE `emails` ADD `list_unsubscribe_post` text;--> statement-breakpoint
+ALTER TABLE `unsubscribed_senders` ADD `unsubscribe_method` text;--> statement-breakpoint
+ALTER TABLE `unsubscribed_senders` ADD `unsubscribe_status` text;--> statement-breakpoint
+ALTER TABLE `unsubscribed_senders` ADD `unsubscribe_target` text;--> statement-breakpoint
+ALTER TABLE `unsubscribed_senders` ADD `http_status` integer;--> statement-breakpoint
+ALTER TABLE `unsubscribed_senders` ADD `unsubscribe_error` text;--> statement-breakpoint
+ALTER TABLE `unsubscribed_senders` ADD `attempted_at` text;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `unsubscribe_violations` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`sender_email` text NOT NULL,
+	`sender_name` text,
+	`first_message_id` text NOT NULL,
+	`first_email_at` integer NOT NULL,
+	`last_email_at` integer NOT NULL,
+	`email_count` integer DEFAULT 0 NOT NULL,
+	`escalation` text,
+	`escalation_filter_id` text,
+	`escalated_at` text,
+	`detected_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `unsubscribe_violations_mail_account_idx` ON `unsubscribe_violations` (`mail_account_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `unsubscribe_violations_account_email_unique` ON `unsubscribe_violations` (`mail_account_id`,`sender_email`);
\ No newline at end of file
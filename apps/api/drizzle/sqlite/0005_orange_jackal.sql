@@ -0,0 +1,40 @@
+CREATE TABLE `cleanup_rule_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`rule_id` text NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`job_id` text,
+	`dry_run` integer DEFAULT 0 NOT NULL,
+	`status` text DEFAULT 'running' NOT NULL,
+	`matched_count` integer DEFAULT 0 NOT NULL,
+	`matched_size_bytes` integer DEFAULT 0 NOT NULL,
+	`processed_count` integer DEFAULT 0 NOT NULL,
+	`preview` text,
+	`error` text,
+	`started_at` text DEFAULT (datetime('now')) NOT NULL,
+	`completed_at` text,
+	FOREIGN KEY (`rule_id`) REFERENCES `cleanup_rules`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `cleanup_rule_runs_rule_idx` ON `cleanup_rule_runs` (`rule_id`,`started_at`);--> statement-breakpoint
+CREATE INDEX `cleanup_rule_runs_job_idx` ON `cleanup_rule_runs` (`job_id`);--> statement-breakpoint
+CREATE TABLE `cleanup_rules` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`name` text NOT NULL,
+	`filters` text NOT NULL,
+	`older_than_days` integer,
+	`action` text NOT NULL,
+	`label_id` text,
+	`schedule` text NOT NULL,
+	`is_enabled` integer DEFAULT 1 NOT NULL,
+	`dry_run` integer DEFAULT 0 NOT NULL,
+	`last_run_at` text,
+	`next_run_at` text,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `cleanup_rules_account_idx` ON `cleanup_rules` (`mail_account_id`);--> statement-breakpoint
+CREATE INDEX `cleanup_rules_enabled_next_run_idx` ON `cleanup_rules` (`mail_account_id`,`is_enabled`,`next_run_at`);
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TABLE `deleted_emails` ADD `to_emails` text;--> statement-breakpoint
+ALTER TABLE `deleted_emails` ADD `cc_emails` text;--> statement-breakpoint
+ALTER TABLE `deleted_emails` ADD `delivered_to` text;--> statement-breakpoint
+ALTER TABLE `deleted_emails` ADD `reply_to` text;--> statement-breakpoint
+ALTER TABLE `deleted_emails` ADD `list_id` text;--> statement-breakpoint
+ALTER TABLE `emails` ADD `to_emails` text;--> statement-breakpoint
+ALTER TABLE `emails` ADD `cc_emails` text;--> statement-breakpoint
+ALTER TABLE `emails` ADD `delivered_to` text;--> statement-breakpoint
+ALTER TABLE `emails` ADD `reply_to` text;--> statement-breakpoint
+ALTER TABLE `emails` ADD `list_id` text;--> statement-breakpoint
+CREATE INDEX `emails_account_list_id_idx` ON `emails` (`mail_account_id`,`list_id`);
\ No newline at end of file
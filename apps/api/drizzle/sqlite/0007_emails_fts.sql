@@ -0,0 +1,47 @@
+-- Full-text search index over emails (subject, sender, attachment filenames, snippet).
+-- emails has no INTEGER PRIMARY KEY, so its rowids may change on VACUUM; emails_fts_map
+-- gives every (account, message) a stable rowid for the FTS5 table instead.
+-- Triggers keep the index in sync with every insert, update and delete (including cascades).
+CREATE TABLE `emails_fts_map` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`message_id` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `emails_fts_map_account_message_unique` ON `emails_fts_map` (`mail_account_id`,`message_id`);
+--> statement-breakpoint
+CREATE VIRTUAL TABLE `emails_fts` USING fts5(subject, sender, filename, snippet, tokenize = 'unicode61');
+--> statement-breakpoint
+CREATE TRIGGER `emails_fts_insert` AFTER INSERT ON `emails` BEGIN
+	INSERT OR IGNORE INTO `emails_fts_map` (`mail_account_id`, `message_id`) VALUES (NEW.`mail_account_id`, NEW.`message_id`);
+	INSERT INTO `emails_fts` (`rowid`, `subject`, `sender`, `filename`, `snippet`)
+	SELECT `id`, NEW.`subject`, coalesce(NEW.`from_name`, '') || ' ' || NEW.`from_email`,
+		(SELECT group_concat(json_extract(`value`, '$.filename'), ' ') FROM json_each(coalesce(NEW.`attachments`, '[]'))),
+		NEW.`snippet`
+	FROM `emails_fts_map` WHERE `mail_account_id` = NEW.`mail_account_id` AND `message_id` = NEW.`message_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `emails_fts_update` AFTER UPDATE OF `subject`, `snippet`, `from_name`, `from_email`, `attachments` ON `emails`
+WHEN OLD.`subject` IS NOT NEW.`subject` OR OLD.`snippet` IS NOT NEW.`snippet` OR OLD.`from_name` IS NOT NEW.`from_name`
+	OR OLD.`from_email` IS NOT NEW.`from_email` OR OLD.`attachments` IS NOT NEW.`attachments`
+BEGIN
+	UPDATE `emails_fts` SET
+		`subject` = NEW.`subject`,
+		`sender` = coalesce(NEW.`from_name`, '') || ' ' || NEW.`from_email`,
+		`filename` = (SELECT group_concat(json_extract(`value`, '$.filename'), ' ') FROM json_each(coalesce(NEW.`attachments`, '[]'))),
+		`snippet` = NEW.`snippet`
+	WHERE `rowid` = (SELECT `id` FROM `emails_fts_map` WHERE `mail_account_id` = NEW.`mail_account_id` AND `message_id` = NEW.`message_id`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `emails_fts_delete` AFTER DELETE ON `emails` BEGIN
+	DELETE FROM `emails_fts` WHERE `rowid` = (SELECT `id` FROM `emails_fts_map` WHERE `mail_account_id` = OLD.`mail_account_id` AND `message_id` = OLD.`message_id`);
+	DELETE FROM `emails_fts_map` WHERE `mail_account_id` = OLD.`mail_account_id` AND `message_id` = OLD.`message_id`;
+END;
+--> statement-breakpoint
+INSERT INTO `emails_fts_map` (`mail_account_id`, `message_id`) SELECT `mail_account_id`, `message_id` FROM `emails`;
+--> statement-breakpoint
+INSERT INTO `emails_fts` (`rowid`, `subject`, `sender`, `filename`, `snippet`)
+SELECT m.`id`, e.`subject`, coalesce(e.`from_name`, '') || ' ' || e.`from_email`,
+	(SELECT group_concat(json_extract(`value`, '$.filename'), ' ') FROM json_each(coalesce(e.`attachments`, '[]'))),
+	e.`snippet`
+FROM `emails` e JOIN `emails_fts_map` m ON m.`mail_account_id` = e.`mail_account_id` AND m.`message_id` = e.`message_id`;
@@ -0,0 +1,5 @@
+ALTER TABLE `users` ADD `is_admin` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `disabled_at` text;
+--> statement-breakpoint
+-- Existing instances: the earliest user becomes the admin
+UPDATE `users` SET `is_admin` = 1 WHERE `id` = (SELECT `id` FROM `users` ORDER BY `created_at` LIMIT 1);
@@ -0,0 +1,21 @@
+CREATE TABLE `queue_jobs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`data` text NOT NULL,
+	`job_id` text,
+	`status` text DEFAULT 'waiting' NOT NULL,
+	`priority` integer DEFAULT 0 NOT NULL,
+	`attempts_made` integer DEFAULT 0 NOT NULL,
+	`max_attempts` integer DEFAULT 1 NOT NULL,
+	`backoff` text,
+	`run_at` integer NOT NULL,
+	`locked_by` text,
+	`locked_until` integer,
+	`last_error` text,
+	`finished_at` integer,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `queue_jobs_claim_idx` ON `queue_jobs` (`status`,`priority`,`run_at`);--> statement-breakpoint
+CREATE INDEX `queue_jobs_job_id_idx` ON `queue_jobs` (`job_id`);--> statement-breakpoint
+CREATE INDEX `queue_jobs_finished_at_idx` ON `queue_jobs` (`finished_at`);
\ No newline at end of file
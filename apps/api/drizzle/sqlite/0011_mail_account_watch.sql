@@ -0,0 +1 @@
+ALTER TABLE `mail_accounts` ADD `watch_expiration` integer;
\ No newline at end of file
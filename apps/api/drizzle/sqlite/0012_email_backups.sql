@@ -0,0 +1,21 @@
+CREATE TABLE `email_backups` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`thread_id` text,
+	`format` text NOT NULL,
+	`file` text NOT NULL,
+	`offset` integer,
+	`length` integer NOT NULL,
+	`size_bytes` integer NOT NULL,
+	`sha256` text NOT NULL,
+	`from_email` text,
+	`subject` text,
+	`internal_date` integer,
+	`backed_up_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `email_backups_account_message_unique` ON `email_backups` (`mail_account_id`,`message_id`);--> statement-breakpoint
+CREATE INDEX `email_backups_account_date_idx` ON `email_backups` (`mail_account_id`,`internal_date`);--> statement-breakpoint
+ALTER TABLE `mail_accounts` ADD `backup_format` text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `saved_attachments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`original_message_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`attachment_index` integer NOT NULL,
+	`filename` text NOT NULL,
+	`mime_type` text NOT NULL,
+	`size_bytes` integer NOT NULL,
+	`file` text NOT NULL,
+	`sha256` text NOT NULL,
+	`from_email` text,
+	`subject` text,
+	`internal_date` integer,
+	`saved_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `saved_attachments_original_unique` ON `saved_attachments` (`mail_account_id`,`original_message_id`,`attachment_index`);--> statement-breakpoint
+CREATE INDEX `saved_attachments_account_date_idx` ON `saved_attachments` (`mail_account_id`,`saved_at`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `mailbox_snapshots` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`date` text NOT NULL,
+	`total_emails` integer NOT NULL,
+	`total_size_bytes` integer NOT NULL,
+	`unread_count` integer NOT NULL,
+	`trash_count` integer NOT NULL,
+	`trash_size_bytes` integer NOT NULL,
+	`spam_count` integer NOT NULL,
+	`spam_size_bytes` integer NOT NULL,
+	`categories` text NOT NULL,
+	`top_senders` text NOT NULL,
+	`reclaimed_bytes` integer NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mailbox_snapshots_account_date_unique` ON `mailbox_snapshots` (`mail_account_id`,`date`);--> statement-breakpoint
+ALTER TABLE `jobs` ADD `reclaimed_bytes` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `mail_accounts` ADD `storage_quota_bytes` integer;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `mail_accounts` ADD `delta_links` text;
\ No newline at end of file
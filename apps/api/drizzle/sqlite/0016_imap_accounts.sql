@@ -0,0 +1,28 @@
+CREATE TABLE `imap_credentials` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`host` text NOT NULL,
+	`port` integer NOT NULL,
+	`security` text NOT NULL,
+	`username` text NOT NULL,
+	`password` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `imap_credentials_mail_account_id_unique` ON `imap_credentials` (`mail_account_id`);--> statement-breakpoint
+CREATE TABLE `imap_messages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`mail_account_id` text NOT NULL,
+	`message_id` text NOT NULL,
+	`mailbox` text NOT NULL,
+	`uid` integer NOT NULL,
+	`flags` text NOT NULL,
+	`header_message_id` text,
+	FOREIGN KEY (`mail_account_id`) REFERENCES `mail_accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `imap_messages_account_mailbox_uid_unique` ON `imap_messages` (`mail_account_id`,`mailbox`,`uid`);--> statement-breakpoint
+CREATE INDEX `imap_messages_account_message_idx` ON `imap_messages` (`mail_account_id`,`message_id`);--> statement-breakpoint
+CREATE INDEX `imap_messages_account_header_idx` ON `imap_messages` (`mail_account_id`,`header_message_id`);
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `mail_rules` ADD `mirror_to_provider` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `mail_rules` ADD `provider_snapshot` text;--> statement-breakpoint
+ALTER TABLE `mail_rules` ADD `drift_detected_at` text;--> statement-breakpoint
+ALTER TABLE `mail_rules` ADD `applied_count` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `mail_rules` ADD `last_applied_at` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `deleted_emails` ADD `status` text DEFAULT 'purged' NOT NULL;
\ No newline at end of file
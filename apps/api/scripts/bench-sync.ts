@@ -0,0 +1,307 @@
+/**
+ * Sync benchmark against a mocked Gmail server
+ *
+ * Compares the old per-message `format=full` fetch with the batched
+ * `format=metadata` pipeline (fetchMessageBatch) on synthetic messages:
+ * round-trips, bytes downloaded and wall time.
+ *
+ * The mock applies a fixed latency per HTTP request and does not enforce
+ * quota, so wall times show transfer and round-trip cost only - real syncs
+ * are still capped at ~47 msg/sec by the throttle.
+ *
+ * Usage: bun run bench:sync [--messages 2000] [--latency 80] [--body-kb 40]
+ */
+
+import { parseArgs } from 'util'
+
+const { values: args } = parseArgs({
+  options: {
+    messages: { type: 'string', default: '2000' },
+    latency: { type: 'string', default: '80' }, // ms per HTTP request
+    'body-kb': { type: 'string', default: '40' }, // text body size per message
+    concurrency: { type: 'string', default: '20' }, // parallel requests in the legacy path
+  },
+})
+
+const MESSAGE_COUNT = parseInt(args.messages, 10)
+const LATENCY_MS = parseInt(args.latency, 10)
+const BODY_BYTES = parseInt(args['body-kb'], 10) * 1024
+const LEGACY_CONCURRENCY = parseInt(args.concurrency, 10)
+
+// Every 5th message has a PDF attachment, every 3rd comes from a mailing list
+const ATTACHMENT_EVERY = 5
+const LIST_EVERY = 3
+
+// ============================================================================
+// Synthetic mailbox
+// ============================================================================
+
+type Header = { name: string; value: string }
+type Part = {
+  mimeType: string
+  filename: string
+  headers: Header[]
+  body: { size: number; data?: string; attachmentId?: string }
+  parts?: Part[]
+}
+
+const ids = Array.from({ length: MESSAGE_COUNT }, (_, n) => `msg${n.toString(16).padStart(8, '0')}`)
+const indexById = new Map(ids.map((id, n) => [id, n]))
+const textData = Buffer.from('x'.repeat(Math.floor(BODY_BYTES / 2))).toString('base64url')
+
+function messageHeaders(n: number): Header[] {
+  const headers: Header[] = [
+    { name: 'Delivered-To', value: 'me@example.com' },
+    { name: 'From', value: `"Sender ${n % 50}" <sender${n % 50}@example${n % 7}.com>` },
+    { name: 'To', value: 'Me <me@example.com>' },
+    { name: 'Subject', value: `Synthetic message ${n}` },
+    { name: 'Date', value: new Date(1_700_000_000_000 - n * 60_000).toUTCString() },
+    {
+      name: 'Content-Type',
+      value:
+        n % ATTACHMENT_EVERY === 0
+          ? 'multipart/mixed; boundary="mixed"'
+          : 'multipart/alternative; boundary="alt"',
+    },
+  ]
+  if (n % LIST_EVERY === 0) {
+    headers.push(
+      { name: 'List-Id', value: `Newsletter ${n % 4} <news${n % 4}.example.com>` },
+      { name: 'List-Unsubscribe', value: `<https://example.com/u/${n}>` }
+    )
+  }
+  // Transport headers that format=full always returns
+  for (let hop = 0; hop < 8; hop++) {
+    headers.push({ name: 'Received', value: `from relay${hop}.example.net by mx.example.com` })
+  }
+  return headers
+}
+
+function bodyParts(n: number): Part[] {
+  const alternative: Part = {
+    mimeType: 'multipart/alternative',
+    filename: '',
+    headers: [],
+    body: { size: 0 },
+    parts: ['text/plain', 'text/html'].map((mimeType) => ({
+      mimeType,
+      filename: '',
+      headers: [{ name: 'Content-Type', value: `${mimeType}; charset=UTF-8` }],
+      body: { size: textData.length, data: textData },
+    })),
+  }
+  if (n % ATTACHMENT_EVERY !== 0) {
+    return alternative.parts!
+  }
+  return [
+    alternative,
+    {
+      mimeType: 'application/pdf',
+      filename: `invoice-${n}.pdf`,
+      headers: [{ name: 'Content-Disposition', value: `attachment; filename="invoice-${n}.pdf"` }],
+      body: { size: 250_000, attachmentId: `att-${n}` },
+    },
+  ]
+}
+
+function stripBodyData(parts: Part[]): Part[] {
+  return parts.map((part) => ({
+    ...part,
+    body: { size: part.body.size },
+    parts: part.parts ? stripBodyData(part.parts) : undefined,
+  }))
+}
+
+function buildMessage(id: string, query: URLSearchParams): object | null {
+  const n = indexById.get(id)
+  if (n === undefined) return null
+
+  const headers = messageHeaders(n)
+  const message = {
+    id,
+    threadId: id,
+    labelIds: ['INBOX', n % 2 === 0 ? 'CATEGORY_PROMOTIONS' : 'CATEGORY_PERSONAL'],
+    snippet: `Snippet of synthetic message ${n}`,
+    sizeEstimate: BODY_BYTES + (n % ATTACHMENT_EVERY === 0 ? 250_000 : 0),
+    internalDate: String(1_700_000_000_000 - n * 60_000),
+    historyId: String(1000 + n),
+  }
+
+  if (query.get('format') === 'metadata') {
+    const wanted = new Set(query.getAll('metadataHeaders').map((h) => h.toLowerCase()))
+    return {
+      ...message,
+      payload: {
+        mimeType: headers.find((h) => h.name === 'Content-Type')!.value.split(';')[0],
+        headers: headers.filter((h) => wanted.has(h.name.toLowerCase())),
+      },
+    }
+  }
+
+  // format=full - a `fields` mask (attachment structure fetch) drops body data
+  const parts = bodyParts(n)
+  return {
+    ...message,
+    payload: {
+      mimeType: headers.find((h) => h.name === 'Content-Type')!.value.split(';')[0],
+      filename: '',
+      headers,
+      body: { size: 0 },
+      parts: query.has('fields') ? stripBodyData(parts) : parts,
+    },
+  }
+}
+
+// ============================================================================
+// Mock Gmail server
+// ============================================================================
+
+const stats = { requests: 0, bytes: 0 }
+
+function respond(body: string, headers: Record<string, string>, status = 200): Response {
+  stats.bytes += Buffer.byteLength(body)
+  return new Response(body, { status, headers })
+}
+
+function handleBatch(body: string, contentType: string): Response {
+  const boundary = contentType.match(/boundary="?([^";]+)"?/)?.[1] ?? ''
+  const responseBoundary = 'batch_mock_response'
+  const chunks = body
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter((chunk) => !chunk.startsWith('--'))
+
+  const parts = chunks.map((chunk) => {
+    const contentId = chunk.match(/Content-ID:\s*<([^>]+)>/i)?.[1] ?? ''
+    const url = new URL(chunk.match(/^GET (\S+)/m)?.[1] ?? '/', 'http://mock')
+    const id = decodeURIComponent(url.pathname.split('/').pop() ?? '')
+    const message = buildMessage(id, url.searchParams)
+    const status = message ? '200 OK' : '404 Not Found'
+    const json = JSON.stringify(message ?? { error: { code: 404, message: 'Not Found' } })
+    return (
+      `--${responseBoundary}\r\n` +
+      'Content-Type: application/http\r\n' +
+      `Content-ID: <response-${contentId}>\r\n\r\n` +
+      `HTTP/1.1 ${status}\r\n` +
+      'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
+      `${json}\r\n`
+    )
+  })
+
+  return respond(`${parts.join('')}--${responseBoundary}--\r\n`, {
+    'Content-Type': `multipart/mixed; boundary=${responseBoundary}`,
+  })
+}
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    stats.requests++
+    await Bun.sleep(LATENCY_MS)
+
+    const url = new URL(req.url)
+    if (req.method === 'POST' && url.pathname === '/batch/gmail/v1') {
+      return handleBatch(await req.text(), req.headers.get('content-type') ?? '')
+    }
+
+    const match = url.pathname.match(/^\/gmail\/v1\/users\/me\/messages\/([^/]+)$/)
+    const message = match?.[1] ? buildMessage(match[1], url.searchParams) : null
+    if (!message) {
+      return respond(JSON.stringify({ error: { code: 404 } }), {}, 404)
+    }
+    return respond(JSON.stringify(message), { 'Content-Type': 'application/json' })
+  },
+})
+
+// Point the Gmail client at the mock before loading the sync code.
+// An in-memory database keeps the import from touching the dev database.
+process.env.GMAIL_API_URL = server.url.origin
+process.env.SQLITE_PATH ??= ':memory:'
+const { fetchMessageBatch } = await import('../src/services/gmail')
+const { GMAIL_BATCH_SIZE } = await import('../src/services/gmail-batch')
+
+// ============================================================================
+// Scenarios
+// ============================================================================
+
+interface ScenarioResult {
+  name: string
+  messages: number
+  withAttachments: number
+  requests: number
+  bytes: number
+  ms: number
+}
+
+async function runScenario(
+  name: string,
+  run: () => Promise<Array<{ has_attachments: number }>>
+): Promise<ScenarioResult> {
+  stats.requests = 0
+  stats.bytes = 0
+  const start = performance.now()
+  const records = await run()
+  return {
+    name,
+    messages: records.length,
+    withAttachments: records.filter((r) => r.has_attachments > 0).length,
+    requests: stats.requests,
+    bytes: stats.bytes,
+    ms: Math.round(performance.now() - start),
+  }
+}
+
+// Previous pipeline: one messages.get?format=full per message, N in parallel
+async function legacyFull() {
+  const records: Array<{ has_attachments: number }> = []
+  for (let i = 0; i < ids.length; i += LEGACY_CONCURRENCY) {
+    const batch = ids.slice(i, i + LEGACY_CONCURRENCY)
+    const messages = await Promise.all(
+      batch.map(async (id) => {
+        const res = await fetch(`${server.url.origin}/gmail/v1/users/me/messages/${id}?format=full`)
+        return (await res.json()) as { payload: { parts: Part[] } }
+      })
+    )
+    for (const message of messages) {
+      const hasAttachment = JSON.stringify(message.payload.parts).includes('"filename":"invoice')
+      records.push({ has_attachments: hasAttachment ? 1 : 0 })
+    }
+  }
+  return records
+}
+
+// Current pipeline: HTTP batches of format=metadata plus attachment structure
+async function batchedMetadata() {
+  const records: Array<{ has_attachments: number }> = []
+  for (let i = 0; i < ids.length; i += GMAIL_BATCH_SIZE) {
+    const result = await fetchMessageBatch('bench-token', ids.slice(i, i + GMAIL_BATCH_SIZE))
+    if (result.failedIds.length > 0) {
+      throw new Error(`${result.failedIds.length} messages failed in the batched pipeline`)
+    }
+    records.push(...result.records)
+  }
+  return records
+}
+
+console.log(
+  `Benchmarking ${MESSAGE_COUNT} messages (${LATENCY_MS}ms latency, ${args['body-kb']} KB bodies)\n`
+)
+
+const results = [
+  await runScenario(`full, ${LEGACY_CONCURRENCY} parallel`, legacyFull),
+  await runScenario(`metadata, batches of ${GMAIL_BATCH_SIZE}`, batchedMetadata),
+]
+
+console.table(
+  results.map((r) => ({
+    pipeline: r.name,
+    messages: r.messages,
+    'with attachments': r.withAttachments,
+    'HTTP requests': r.requests,
+    'MB downloaded': (r.bytes / 1024 / 1024).toFixed(2),
+    'wall time (s)': (r.ms / 1000).toFixed(2),
+    'msg/sec': Math.round(r.messages / (r.ms / 1000)),
+  }))
+)
+
+server.stop(true)
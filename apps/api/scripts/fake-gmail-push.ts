@@ -0,0 +1,55 @@
+/**
+ * Send a fake Gmail push notification to a running server
+ *
+ * Builds the same envelope a Cloud Pub/Sub push subscription POSTs
+ * ({ message: { data: base64(JSON { emailAddress, historyId }) } }) and sends it
+ * to /api/webhooks/gmail, so the webhook can be exercised without a GCP project.
+ * The server needs GMAIL_PUSH_TOPIC and GMAIL_PUSH_TOKEN set (any topic name works).
+ *
+ * A delta sync only runs when --history-id is ahead of the account's stored one.
+ *
+ * Usage: bun run push:fake --email you@gmail.com [--history-id 99999999]
+ *        [--token $GMAIL_PUSH_TOKEN] [--url http://localhost:6616]
+ */
+
+import { parseArgs } from 'util'
+
+const { values: args } = parseArgs({
+  options: {
+    url: { type: 'string', default: process.env.APP_URL || 'http://localhost:6616' },
+    token: { type: 'string', default: process.env.GMAIL_PUSH_TOKEN || '' },
+    email: { type: 'string' },
+    'history-id': { type: 'string', default: String(Number.MAX_SAFE_INTEGER) },
+  },
+})
+
+if (!args.email) {
+  console.error('Usage: bun run push:fake --email you@gmail.com [--history-id N] [--token T]')
+  process.exit(1)
+}
+
+const data = Buffer.from(
+  JSON.stringify({ emailAddress: args.email, historyId: Number(args['history-id']) })
+).toString('base64')
+
+const envelope = {
+  message: {
+    data,
+    messageId: `fake-${Date.now()}`,
+    publishTime: new Date().toISOString(),
+  },
+  subscription: 'projects/local/subscriptions/fake-gmail-push',
+}
+
+const endpoint = new URL('/api/webhooks/gmail', args.url)
+endpoint.searchParams.set('token', args.token)
+
+const response = await fetch(endpoint, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(envelope),
+})
+
+const body = await response.text()
+console.log(`${response.status} ${response.statusText}${body ? ` - ${body}` : ''}`)
+process.exit(response.ok ? 0 : 1)
@@ -0,0 +1,660 @@
+/**
+ * Mock Microsoft identity platform + Graph server for Outlook development
+ *
+ * Serves an in-memory mailbox so the Outlook provider can be exercised end to
+ * end without a Microsoft 365 tenant: OAuth (authorize/token), /me, mail folders,
+ * per-folder delta queries with nextLinks/deltaLinks, $batch, move,
+ * permanentDelete, PATCH, master categories and inbox rules.
+ *
+ * Point the server at it with:
+ *   MICROSOFT_CLIENT_ID=mock
+ *   MICROSOFT_CLIENT_SECRET=mock
+ *   MICROSOFT_LOGIN_URL=http://localhost:6620
+ *   MICROSOFT_GRAPH_URL=http://localhost:6620/v1.0
+ *
+ * "Add Outlook account" then signs in straight away as --email.
+ * POST /mock/messages?count=N delivers N new Inbox messages (picked up by delta sync),
+ * GET /mock/state prints folder counts, categories and rules.
+ *
+ * Usage: bun run graph:mock [--port 6620] [--messages 500] [--email you@outlook.com]
+ *        [--throttle 0.05] (share of $batch sub-requests answered with 429)
+ */
+
+import { parseArgs } from 'util'
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '6620' },
+    messages: { type: 'string', default: '500' },
+    email: { type: 'string', default: 'mock.user@outlook.com' },
+    throttle: { type: 'string', default: '0' },
+  },
+})
+
+const port = Number(args.port)
+const baseUrl = `http://localhost:${port}`
+const throttleRate = Number(args.throttle)
+
+// ============================================================================
+// Mailbox state
+// ============================================================================
+
+interface MockFolder {
+  id: string
+  wellKnownName: string | null
+  displayName: string
+  parentId: string | null
+}
+
+interface MockMessage {
+  id: string
+  conversationId: string
+  subject: string
+  bodyPreview: string
+  from: { emailAddress: { name: string; address: string } }
+  toRecipients: Array<{ emailAddress: { name: string; address: string } }>
+  receivedDateTime: string
+  isRead: boolean
+  flag: { flagStatus: 'notFlagged' | 'flagged' | 'complete' }
+  importance: 'low' | 'normal' | 'high'
+  categories: string[]
+  hasAttachments: boolean
+  parentFolderId: string
+  size: number
+  attachments: Array<{ name: string; contentType: string; size: number; isInline: boolean }>
+  headers: Array<{ name: string; value: string }>
+  /** Change counter value of the last change */
+  version: number
+}
+
+interface MockCategory {
+  id: string
+  displayName: string
+  color: string
+}
+
+interface MockRule {
+  id: string
+  displayName: string
+  sequence: number
+  isEnabled: boolean
+  conditions?: unknown
+  exceptions?: unknown
+  actions?: unknown
+}
+
+const folders: MockFolder[] = [
+  { id: 'folder-inbox', wellKnownName: 'inbox', displayName: 'Inbox', parentId: null },
+  { id: 'folder-archive', wellKnownName: 'archive', displayName: 'Archive', parentId: null },
+  {
+    id: 'folder-deleted',
+    wellKnownName: 'deleteditems',
+    displayName: 'Deleted Items',
+    parentId: null,
+  },
+  { id: 'folder-junk', wellKnownName: 'junkemail', displayName: 'Junk Email', parentId: null },
+  { id: 'folder-sent', wellKnownName: 'sentitems', displayName: 'Sent Items', parentId: null },
+  { id: 'folder-drafts', wellKnownName: 'drafts', displayName: 'Drafts', parentId: null },
+  { id: 'folder-receipts', wellKnownName: null, displayName: 'Receipts', parentId: 'folder-inbox' },
+]
+
+const messages = new Map<string, MockMessage>()
+// Removals per folder (message moved away or deleted), for delta queries
+const removals: Array<{ folderId: string; messageId: string; version: number }> = []
+const categories: MockCategory[] = [
+  { id: 'category-1', displayName: 'Red category', color: 'preset0' },
+  { id: 'category-2', displayName: 'Receipts', color: 'preset4' },
+]
+const rules: MockRule[] = []
+
+let version = 0
+let idCounter = 0
+let tokenCounter = 0
+
+const SENDERS = [
+  { name: 'Newsletter Weekly', address: 'news@newsletter.example', list: true },
+  { name: 'Shop Deals', address: 'deals@shop.example', list: true },
+  { name: 'Alice Smith', address: 'alice@example.com', list: false },
+  { name: 'Bank Alerts', address: 'alerts@bank.example', list: false },
+  { name: 'Social Network', address: 'notify@social.example', list: true },
+]
+
+function nextId(prefix: string): string {
+  return `${prefix}-${(++idCounter).toString(36).padStart(6, '0')}`
+}
+
+function createMessage(folderId: string, receivedAt: Date): MockMessage {
+  const sender = SENDERS[idCounter % SENDERS.length]!
+  const id = nextId('msg')
+  const withAttachment = idCounter % 7 === 0
+  const headers = sender.list
+    ? [
+        { name: 'List-Unsubscribe', value: `<https://${sender.address.split('@')[1]}/u/${id}>` },
+        { name: 'List-Unsubscribe-Post', value: 'List-Unsubscribe=One-Click' },
+        { name: 'List-Id', value: `<${sender.address.split('@')[0]}.list.example>` },
+      ]
+    : []
+
+  return {
+    id,
+    conversationId: `conv-${id}`,
+    subject: `${sender.name} message ${idCounter}`,
+    bodyPreview: `Preview of message ${idCounter} from ${sender.name}`,
+    from: { emailAddress: { name: sender.name, address: sender.address } },
+    toRecipients: [{ emailAddress: { name: 'Mock User', address: args.email! } }],
+    receivedDateTime: receivedAt.toISOString(),
+    isRead: idCounter % 3 !== 0,
+    flag: { flagStatus: idCounter % 11 === 0 ? 'flagged' : 'notFlagged' },
+    importance: idCounter % 13 === 0 ? 'high' : 'normal',
+    categories: idCounter % 17 === 0 ? ['Receipts'] : [],
+    hasAttachments: withAttachment,
+    parentFolderId: folderId,
+    size: 2000 + ((idCounter * 7919) % 200_000) + (withAttachment ? 1_500_000 : 0),
+    attachments: withAttachment
+      ? [
+          {
+            name: `file-${idCounter}.pdf`,
+            contentType: 'application/pdf',
+            size: 1_500_000,
+            isInline: false,
+          },
+          { name: 'logo.png', contentType: 'image/png', size: 4_000, isInline: true },
+        ]
+      : [],
+    headers,
+    version: ++version,
+  }
+}
+
+function seedMailbox(count: number): void {
+  const weights: Array<[string, number]> = [
+    ['folder-inbox', 0.6],
+    ['folder-archive', 0.2],
+    ['folder-sent', 0.08],
+    ['folder-deleted', 0.05],
+    ['folder-junk', 0.04],
+    ['folder-receipts', 0.03],
+  ]
+
+  for (let i = 0; i < count; i++) {
+    let pick = (i * 0.618) % 1
+    const folderId = weights.find(([, weight]) => (pick -= weight) < 0)?.[0] ?? 'folder-inbox'
+    const message = createMessage(folderId, new Date(Date.now() - i * 3_600_000))
+    messages.set(message.id, message)
+  }
+}
+
+seedMailbox(Number(args.messages))
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface MockResponse {
+  status: number
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+function graphError(status: number, code: string, message: string): MockResponse {
+  return { status, body: { error: { code, message } } }
+}
+
+function resolveFolder(idOrName: string): MockFolder | undefined {
+  return folders.find((f) => f.id === idOrName || f.wellKnownName === idOrName.toLowerCase())
+}
+
+function folderCount(folderId: string): number {
+  let count = 0
+  for (const message of messages.values()) {
+    if (message.parentFolderId === folderId) count++
+  }
+  return count
+}
+
+function toFolderJson(folder: MockFolder) {
+  return {
+    id: folder.id,
+    displayName: folder.displayName,
+    parentFolderId: folder.parentId,
+    totalItemCount: folderCount(folder.id),
+    childFolderCount: folders.filter((f) => f.parentId === folder.id).length,
+  }
+}
+
+function toMessageJson(message: MockMessage, select?: string | null) {
+  const full: Record<string, unknown> = {
+    id: message.id,
+    conversationId: message.conversationId,
+    subject: message.subject,
+    bodyPreview: message.bodyPreview,
+    from: message.from,
+    toRecipients: message.toRecipients,
+    ccRecipients: [],
+    replyTo: [],
+    receivedDateTime: message.receivedDateTime,
+    isRead: message.isRead,
+    flag: message.flag,
+    importance: message.importance,
+    categories: message.categories,
+    hasAttachments: message.hasAttachments,
+    parentFolderId: message.parentFolderId,
+  }
+
+  if (!select) return full
+  const fields = new Set(select.split(',').map((field) => field.trim()))
+  return Object.fromEntries(Object.entries(full).filter(([key]) => fields.has(key) || key === 'id'))
+}
+
+function toMessageDetailsJson(message: MockMessage) {
+  return {
+    id: message.id,
+    internetMessageHeaders: [
+      { name: 'Subject', value: message.subject },
+      { name: 'Delivered-To', value: args.email! },
+      ...message.headers,
+    ],
+    attachments: message.attachments,
+    singleValueExtendedProperties: [{ id: 'Integer 0x0E08', value: String(message.size) }],
+  }
+}
+
+function moveMessage(message: MockMessage, folderId: string): void {
+  if (message.parentFolderId === folderId) return
+  removals.push({ folderId: message.parentFolderId, messageId: message.id, version: ++version })
+  message.parentFolderId = folderId
+  message.version = ++version
+}
+
+function getMaxPageSize(prefer: string | null): number {
+  const match = prefer?.match(/odata\.maxpagesize=(\d+)/)
+  return match ? Math.min(Number(match[1]), 1000) : 10
+}
+
+// ============================================================================
+// Delta queries
+// ============================================================================
+
+/**
+ * Delta of a folder's messages
+ *
+ * Tokens are change counter values: $deltatoken=V returns what changed after V,
+ * $skiptoken=OFFSET.V pages through one round.
+ */
+function folderDelta(folder: MockFolder, query: URLSearchParams, prefer: string | null) {
+  const deltaToken = query.get('$deltatoken')
+  const skipToken = query.get('$skiptoken')
+
+  if (deltaToken !== null && !/^\d+$/.test(deltaToken)) {
+    return graphError(410, 'SyncStateNotFound', 'The sync state generation is invalid')
+  }
+
+  const [offsetPart, sincePart] = (skipToken || `0.${deltaToken ?? '-1'}`).split('.')
+  const offset = Number(offsetPart)
+  const since = Number(sincePart)
+  const select = query.get('$select')
+
+  const entries: Array<Record<string, unknown>> = []
+  for (const message of messages.values()) {
+    if (message.parentFolderId === folder.id && message.version > since) {
+      entries.push(toMessageJson(message, select))
+    }
+  }
+  if (since >= 0) {
+    for (const removal of removals) {
+      if (removal.folderId === folder.id && removal.version > since) {
+        entries.push({ id: removal.messageId, '@removed': { reason: 'deleted' } })
+      }
+    }
+  }
+
+  const pageSize = getMaxPageSize(prefer)
+  const page = entries.slice(offset, offset + pageSize)
+  const deltaPath = `${baseUrl}/v1.0/me/mailFolders/${folder.id}/messages/delta`
+  const selectParam = select ? `&$select=${select}` : ''
+
+  return {
+    status: 200,
+    body: {
+      value: page,
+      ...(offset + pageSize < entries.length
+        ? {
+            '@odata.nextLink': `${deltaPath}?$skiptoken=${offset + pageSize}.${since}${selectParam}`,
+          }
+        : { '@odata.deltaLink': `${deltaPath}?$deltatoken=${version}${selectParam}` }),
+    },
+  }
+}
+
+// ============================================================================
+// Graph routes
+// ============================================================================
+
+/**
+ * Handle one Graph request (top-level or inside a $batch)
+ */
+function handleGraph(
+  method: string,
+  pathWithQuery: string,
+  body: unknown,
+  prefer: string | null
+): MockResponse {
+  const url = new URL(pathWithQuery, baseUrl)
+  const path = decodeURIComponent(url.pathname).replace(/^\/v1\.0/, '')
+  const query = url.searchParams
+  const parts = path.split('/').filter(Boolean)
+  const input = (body || {}) as Record<string, unknown>
+
+  if (parts[0] !== 'me') {
+    return graphError(400, 'BadRequest', `Unsupported path ${path}`)
+  }
+
+  // GET /me
+  if (parts.length === 1 && method === 'GET') {
+    return { status: 200, body: { mail: args.email, userPrincipalName: args.email } }
+  }
+
+  // /me/mailFolders...
+  if (parts[1] === 'mailFolders') {
+    if (parts.length === 2 && method === 'GET') {
+      return { status: 200, body: { value: folders.filter((f) => !f.parentId).map(toFolderJson) } }
+    }
+
+    // Inbox rules
+    if (parts[2] === 'inbox' && parts[3] === 'messageRules') {
+      return handleRules(method, parts[4], input)
+    }
+
+    const folder = resolveFolder(parts[2] || '')
+    if (!folder) {
+      return graphError(404, 'ErrorFolderNotFound', 'The specified folder could not be found')
+    }
+
+    if (parts.length === 3 && method === 'GET') {
+      return { status: 200, body: toFolderJson(folder) }
+    }
+    if (parts[3] === 'childFolders' && method === 'GET') {
+      return {
+        status: 200,
+        body: { value: folders.filter((f) => f.parentId === folder.id).map(toFolderJson) },
+      }
+    }
+    if (parts[3] === 'messages' && parts[4] === 'delta' && method === 'GET') {
+      return folderDelta(folder, query, prefer)
+    }
+  }
+
+  // /me/messages/{id}[/move|/permanentDelete]
+  if (parts[1] === 'messages' && parts[2]) {
+    const message = messages.get(parts[2])
+    if (!message) {
+      return graphError(
+        404,
+        'ErrorItemNotFound',
+        'The specified object was not found in the store.'
+      )
+    }
+
+    if (parts.length === 3 && method === 'GET') {
+      const select = query.get('$select')
+      return {
+        status: 200,
+        body: select?.includes('internetMessageHeaders')
+          ? toMessageDetailsJson(message)
+          : toMessageJson(message, select),
+      }
+    }
+
+    if (parts.length === 3 && method === 'PATCH') {
+      if (typeof input.isRead === 'boolean') message.isRead = input.isRead
+      if (input.flag) message.flag = input.flag as MockMessage['flag']
+      if (input.importance) message.importance = input.importance as MockMessage['importance']
+      if (Array.isArray(input.categories)) message.categories = input.categories as string[]
+      message.version = ++version
+      return { status: 200, body: toMessageJson(message) }
+    }
+
+    if (parts[3] === 'move' && method === 'POST') {
+      const destination = resolveFolder(String(input.destinationId || ''))
+      if (!destination) {
+        return graphError(400, 'ErrorInvalidIdMalformed', 'Invalid destination folder')
+      }
+      moveMessage(message, destination.id)
+      return { status: 201, body: toMessageJson(message) }
+    }
+
+    if (parts[3] === 'permanentDelete' && method === 'POST') {
+      messages.delete(message.id)
+      removals.push({ folderId: message.parentFolderId, messageId: message.id, version: ++version })
+      return { status: 204 }
+    }
+  }
+
+  // /me/outlook/masterCategories[/{id}]
+  if (parts[1] === 'outlook' && parts[2] === 'masterCategories') {
+    return handleCategories(method, parts[3], input)
+  }
+
+  return graphError(400, 'BadRequest', `Unsupported request ${method} ${path}`)
+}
+
+function handleCategories(
+  method: string,
+  id: string | undefined,
+  input: Record<string, unknown>
+): MockResponse {
+  if (!id && method === 'GET') {
+    return { status: 200, body: { value: categories } }
+  }
+
+  if (!id && method === 'POST') {
+    const displayName = String(input.displayName || '')
+    if (categories.some((c) => c.displayName.toLowerCase() === displayName.toLowerCase())) {
+      return graphError(409, 'ErrorDuplicateObject', 'A category with this name already exists')
+    }
+    const category = { id: nextId('category'), displayName, color: String(input.color || 'none') }
+    categories.push(category)
+    return { status: 201, body: category }
+  }
+
+  const category = categories.find((c) => c.id === id)
+  if (!category) {
+    return graphError(404, 'ErrorItemNotFound', 'The specified category was not found')
+  }
+
+  if (method === 'GET') return { status: 200, body: category }
+  if (method === 'PATCH') {
+    if (input.color) category.color = String(input.color)
+    return { status: 200, body: category }
+  }
+  if (method === 'DELETE') {
+    categories.splice(categories.indexOf(category), 1)
+    return { status: 204 }
+  }
+
+  return graphError(405, 'MethodNotAllowed', `${method} not allowed`)
+}
+
+function handleRules(
+  method: string,
+  id: string | undefined,
+  input: Record<string, unknown>
+): MockResponse {
+  if (!id && method === 'GET') {
+    return { status: 200, body: { value: rules } }
+  }
+
+  if (!id && method === 'POST') {
+    const rule: MockRule = {
+      id: nextId('rule'),
+      displayName: String(input.displayName || 'Rule'),
+      sequence: Number(input.sequence) || rules.length + 1,
+      isEnabled: input.isEnabled !== false,
+      conditions: input.conditions,
+      exceptions: input.exceptions,
+      actions: input.actions,
+    }
+    rules.push(rule)
+    return { status: 201, body: rule }
+  }
+
+  const rule = rules.find((r) => r.id === id)
+  if (!rule) {
+    return graphError(404, 'ErrorItemNotFound', 'The specified rule was not found')
+  }
+
+  if (method === 'GET') return { status: 200, body: rule }
+  if (method === 'PATCH') {
+    Object.assign(rule, input, { id: rule.id })
+    return { status: 200, body: rule }
+  }
+  if (method === 'DELETE') {
+    rules.splice(rules.indexOf(rule), 1)
+    return { status: 204 }
+  }
+
+  return graphError(405, 'MethodNotAllowed', `${method} not allowed`)
+}
+
+/**
+ * POST /v1.0/$batch - up to 20 sub-requests, some throttled with --throttle
+ */
+function handleBatch(body: unknown): MockResponse {
+  const requests = ((body as { requests?: unknown[] })?.requests || []) as Array<{
+    id: string
+    method: string
+    url: string
+    headers?: Record<string, string>
+    body?: unknown
+  }>
+
+  if (requests.length > 20) {
+    return graphError(400, 'BadRequest', 'Number of batch request steps exceeds the maximum of 20')
+  }
+
+  return {
+    status: 200,
+    body: {
+      responses: requests.map((request) => {
+        if (Math.random() < throttleRate) {
+          return {
+            id: request.id,
+            status: 429,
+            headers: { 'Retry-After': '1' },
+            body: { error: { code: 'TooManyRequests', message: 'Application is over its limit' } },
+          }
+        }
+
+        const response = handleGraph(
+          request.method,
+          request.url,
+          request.body,
+          request.headers?.Prefer ?? null
+        )
+        return { id: request.id, status: response.status, body: response.body }
+      }),
+    },
+  }
+}
+
+// ============================================================================
+// Identity platform routes
+// ============================================================================
+
+function issueTokens() {
+  tokenCounter++
+  return {
+    token_type: 'Bearer',
+    scope: 'openid email profile User.Read Mail.ReadWrite MailboxSettings.ReadWrite',
+    expires_in: 3600,
+    access_token: `mock-access-${tokenCounter}`,
+    refresh_token: `mock-refresh-${tokenCounter}`,
+  }
+}
+
+async function handleToken(request: Request): Promise<Response> {
+  const params = new URLSearchParams(await request.text())
+  const grantType = params.get('grant_type')
+
+  if (grantType === 'authorization_code' && params.get('code') === 'mock-code') {
+    return Response.json(issueTokens())
+  }
+  if (grantType === 'refresh_token' && params.get('refresh_token')?.startsWith('mock-refresh-')) {
+    return Response.json(issueTokens())
+  }
+
+  return Response.json(
+    { error: 'invalid_grant', error_description: 'The provided grant is invalid or expired' },
+    { status: 400 }
+  )
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+function toResponse(response: MockResponse): Response {
+  if (response.status === 204) {
+    return new Response(null, { status: 204 })
+  }
+  return Response.json(response.body ?? {}, { status: response.status, headers: response.headers })
+}
+
+Bun.serve({
+  port,
+  async fetch(request) {
+    const url = new URL(request.url)
+    const path = url.pathname
+
+    // OAuth: the authorize page signs in immediately and redirects back with a code
+    if (path.endsWith('/oauth2/v2.0/authorize')) {
+      const redirect = new URL(url.searchParams.get('redirect_uri') || '/')
+      redirect.searchParams.set('code', 'mock-code')
+      redirect.searchParams.set('state', url.searchParams.get('state') || '')
+      return Response.redirect(redirect.toString(), 302)
+    }
+    if (path.endsWith('/oauth2/v2.0/token') && request.method === 'POST') {
+      return handleToken(request)
+    }
+
+    // Test controls
+    if (path === '/mock/messages' && request.method === 'POST') {
+      const count = Number(url.searchParams.get('count')) || 1
+      for (let i = 0; i < count; i++) {
+        const message = createMessage('folder-inbox', new Date())
+        messages.set(message.id, message)
+      }
+      return Response.json({ delivered: count, total: messages.size })
+    }
+    if (path === '/mock/state') {
+      return Response.json({
+        messages: messages.size,
+        folders: folders.map((f) => ({ name: f.displayName, count: folderCount(f.id) })),
+        categories,
+        rules,
+      })
+    }
+
+    if (!path.startsWith('/v1.0/')) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    if (!request.headers.get('authorization')?.startsWith('Bearer mock-access-')) {
+      return toResponse(graphError(401, 'InvalidAuthenticationToken', 'Access token is empty.'))
+    }
+
+    const body = request.method === 'GET' ? undefined : await request.json().catch(() => undefined)
+
+    if (path === '/v1.0/$batch' && request.method === 'POST') {
+      return toResponse(handleBatch(body))
+    }
+
+    return toResponse(
+      handleGraph(request.method, path + url.search, body, request.headers.get('prefer'))
+    )
+  },
+})
+
+console.log(`Mock Graph server on ${baseUrl} - ${messages.size} messages for ${args.email}`)
+console.log(`  MICROSOFT_LOGIN_URL=${baseUrl}`)
+console.log(`  MICROSOFT_GRAPH_URL=${baseUrl}/v1.0`)
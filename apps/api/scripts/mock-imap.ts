@@ -0,0 +1,847 @@
+/**
+ * Mock IMAP server for IMAP provider development
+ *
+ * Serves an in-memory mailbox over plain IMAP so the IMAP provider can be
+ * exercised end to end without a mail server: LOGIN, LIST with special-use
+ * attributes, STATUS, SELECT/EXAMINE with CONDSTORE, ENABLE QRESYNC,
+ * UID SEARCH, UID FETCH with CHANGEDSINCE/VANISHED, UID STORE, UID MOVE/COPY,
+ * UID EXPUNGE and CREATE/RENAME/DELETE.
+ *
+ * Add an IMAP account with server localhost, port 1143, security "None",
+ * username --email and password --password.
+ *
+ * Test controls on --http-port (changes show up in the next delta sync):
+ *   POST /mock/messages?count=N[&mailbox=INBOX]        deliver N new messages
+ *   POST /mock/read?count=N[&mailbox=INBOX]            mark N unread messages \Seen
+ *   POST /mock/expunge?count=N[&mailbox=INBOX]         expunge the N oldest messages
+ *   POST /mock/move?count=N&to=Receipts[&mailbox=INBOX] move the N oldest messages
+ *   POST /mock/uidvalidity[?mailbox=INBOX]             renumber a mailbox (new UIDVALIDITY)
+ *   GET  /mock/state                                   mailbox counts and UID state
+ *
+ * Usage: bun run imap:mock [--port 1143] [--http-port 6621] [--messages 300]
+ *        [--email mock.user@example.com] [--password app-password]
+ *        [--no-condstore] [--no-qresync] [--no-move]
+ */
+
+import { createServer, type Socket } from 'net'
+import { parseArgs } from 'util'
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '1143' },
+    'http-port': { type: 'string', default: '6621' },
+    messages: { type: 'string', default: '300' },
+    email: { type: 'string', default: 'mock.user@example.com' },
+    password: { type: 'string', default: 'app-password' },
+    'no-condstore': { type: 'boolean', default: false },
+    'no-qresync': { type: 'boolean', default: false },
+    'no-move': { type: 'boolean', default: false },
+  },
+})
+
+const hasCondstore = !args['no-condstore']
+const hasQresync = hasCondstore && !args['no-qresync']
+const hasMove = !args['no-move']
+
+const CAPABILITIES = [
+  'IMAP4rev1',
+  'LITERAL+',
+  'ENABLE',
+  'UIDPLUS',
+  'SPECIAL-USE',
+  ...(hasMove ? ['MOVE'] : []),
+  ...(hasCondstore ? ['CONDSTORE'] : []),
+  ...(hasQresync ? ['QRESYNC'] : []),
+].join(' ')
+
+// ============================================================================
+// Mailbox state
+// ============================================================================
+
+interface MockAttachment {
+  filename: string
+  type: string
+  subtype: string
+  size: number
+  inline: boolean
+}
+
+interface MockMessage {
+  uid: number
+  flags: Set<string>
+  /** Mod-sequence of the last change */
+  modSeq: number
+  internalDate: Date
+  size: number
+  from: { name: string; address: string }
+  subject: string
+  messageId: string
+  inReplyTo: string | null
+  headers: Array<{ name: string; value: string }>
+  attachments: MockAttachment[]
+}
+
+interface MockMailbox {
+  name: string
+  /** \Noselect parents and special-use attributes */
+  attributes: string[]
+  uidValidity: number
+  uidNext: number
+  messages: MockMessage[]
+  /** Expunged UIDs with their mod-sequence, for VANISHED (EARLIER) */
+  vanished: Array<{ uid: number; modSeq: number }>
+}
+
+const mailboxes: MockMailbox[] = []
+let modSeq = 1
+let messageCounter = 0
+let uidValidityCounter = Math.floor(Date.now() / 1000)
+
+const SENDERS = [
+  { name: 'Newsletter Weekly', address: 'news@newsletter.example', list: true },
+  { name: 'Shop Deals', address: 'deals@shop.example', list: true },
+  { name: 'Alice Smith', address: 'alice@example.com', list: false },
+  { name: 'Bank Alerts', address: 'alerts@bank.example', list: false },
+  { name: 'Jörg Müller', address: 'joerg@example.de', list: false },
+]
+
+function addMailbox(name: string, attributes: string[] = []): MockMailbox {
+  const mailbox: MockMailbox = {
+    name,
+    attributes,
+    uidValidity: ++uidValidityCounter,
+    uidNext: 1,
+    messages: [],
+    vanished: [],
+  }
+  mailboxes.push(mailbox)
+  return mailbox
+}
+
+function findMailbox(name: string): MockMailbox | undefined {
+  return mailboxes.find((m) =>
+    m.name.toUpperCase() === 'INBOX' ? name.toUpperCase() === 'INBOX' : m.name === name
+  )
+}
+
+function selectable(mailbox: MockMailbox): boolean {
+  return !mailbox.attributes.includes('\\Noselect')
+}
+
+function encodeWord(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function createMessage(receivedAt: Date): Omit<MockMessage, 'uid'> {
+  const n = ++messageCounter
+  const sender = SENDERS[n % SENDERS.length]!
+  const domain = sender.address.split('@')[1]!
+  const withAttachment = n % 7 === 0
+  const threadRoot = n % 5 === 0 && n > 5 ? `<msg-${n - 5}@${domain}>` : null
+
+  return {
+    flags: new Set([...(n % 3 !== 0 ? ['\\Seen'] : []), ...(n % 11 === 0 ? ['\\Flagged'] : [])]),
+    modSeq: ++modSeq,
+    internalDate: receivedAt,
+    size: 2000 + ((n * 7919) % 200_000) + (withAttachment ? 1_500_000 : 0),
+    from: sender,
+    subject: n % 13 === 0 ? `Grüße zur Bestellung ${n}` : `${sender.name} message ${n}`,
+    messageId: `<msg-${n}@${domain}>`,
+    inReplyTo: threadRoot,
+    headers: [
+      ...(sender.list
+        ? [
+            { name: 'List-Unsubscribe', value: `<https://${domain}/u/${n}>` },
+            { name: 'List-Unsubscribe-Post', value: 'List-Unsubscribe=One-Click' },
+            { name: 'List-Id', value: `<${sender.address.split('@')[0]}.list.example>` },
+          ]
+        : []),
+      { name: 'Delivered-To', value: args.email! },
+      ...(threadRoot ? [{ name: 'References', value: threadRoot }] : []),
+    ],
+    attachments: withAttachment
+      ? [
+          {
+            filename: `invoice-${n}.pdf`,
+            type: 'application',
+            subtype: 'pdf',
+            size: 1_500_000,
+            inline: false,
+          },
+          { filename: 'logo.png', type: 'image', subtype: 'png', size: 4_000, inline: true },
+        ]
+      : [],
+  }
+}
+
+function appendMessage(mailbox: MockMailbox, message: Omit<MockMessage, 'uid'>): MockMessage {
+  const stored = { ...message, uid: mailbox.uidNext++, modSeq: ++modSeq }
+  mailbox.messages.push(stored)
+  return stored
+}
+
+/**
+ * Remove messages from a mailbox, remembering their UIDs for VANISHED
+ */
+function expungeMessages(mailbox: MockMailbox, uids: Set<number>): MockMessage[] {
+  const removed = mailbox.messages.filter((m) => uids.has(m.uid))
+  mailbox.messages = mailbox.messages.filter((m) => !uids.has(m.uid))
+  const seq = ++modSeq
+  mailbox.vanished.push(...removed.map((m) => ({ uid: m.uid, modSeq: seq })))
+  return removed
+}
+
+function highestModSeq(mailbox: MockMailbox): number {
+  return Math.max(
+    1,
+    ...mailbox.messages.map((m) => m.modSeq),
+    ...mailbox.vanished.map((v) => v.modSeq)
+  )
+}
+
+function seedMailboxes(count: number): void {
+  const inbox = addMailbox('INBOX')
+  const weights: Array<[MockMailbox, number]> = [
+    [inbox, 0.6],
+    [addMailbox('Archive', ['\\Archive']), 0.15],
+    [addMailbox('Sent', ['\\Sent']), 0.08],
+    [addMailbox('Trash', ['\\Trash']), 0.06],
+    [addMailbox('Junk', ['\\Junk']), 0.04],
+    [addMailbox('Receipts'), 0.04],
+    [addMailbox('Projects/2024'), 0.03],
+  ]
+  addMailbox('Drafts', ['\\Drafts'])
+  addMailbox('Projects', ['\\Noselect', '\\HasChildren'])
+
+  // Oldest first, so UIDs grow with the date
+  for (let i = count - 1; i >= 0; i--) {
+    let pick = (i * 0.618) % 1
+    const mailbox = weights.find(([, weight]) => (pick -= weight) < 0)?.[0] ?? inbox
+    appendMessage(mailbox, createMessage(new Date(Date.now() - i * 3_600_000)))
+  }
+}
+
+seedMailboxes(Number(args.messages))
+
+// ============================================================================
+// Command parsing
+// ============================================================================
+
+type Token = string | Token[]
+
+/**
+ * Split a command into tokens: atoms, strings and parenthesized lists
+ * Literals arrive already inlined as {n}\r\n<data>.
+ */
+function tokenize(data: Buffer): Token[] {
+  let pos = 0
+
+  const readList = (inList: boolean): Token[] => {
+    const tokens: Token[] = []
+    while (pos < data.length) {
+      const char = String.fromCharCode(data[pos]!)
+      if (char === ' ') {
+        pos++
+      } else if (char === ')') {
+        pos++
+        if (inList) return tokens
+      } else if (char === '(') {
+        pos++
+        tokens.push(readList(true))
+      } else if (char === '"') {
+        const bytes: number[] = []
+        pos++
+        while (pos < data.length && data[pos] !== 0x22) {
+          bytes.push(data[pos] === 0x5c ? data[++pos]! : data[pos]!)
+          pos++
+        }
+        pos++
+        tokens.push(Buffer.from(bytes).toString('utf8'))
+      } else if (char === '{') {
+        const close = data.indexOf('}', pos)
+        const length = parseInt(data.toString('latin1', pos + 1, close), 10)
+        const start = close + 3
+        tokens.push(data.toString('utf8', start, start + length))
+        pos = start + length
+      } else {
+        const start = pos
+        while (pos < data.length && !' ()'.includes(String.fromCharCode(data[pos]!))) {
+          if (data[pos] === 0x5b) {
+            // Keep BODY.PEEK[HEADER.FIELDS (...)] in one piece
+            pos = data.indexOf(']', pos) + 1
+            continue
+          }
+          pos++
+        }
+        tokens.push(data.toString('utf8', start, pos))
+      }
+    }
+    return tokens
+  }
+
+  return readList(false)
+}
+
+/**
+ * Resolve a UID set ("1:3,7", "5:*") against a mailbox
+ * "n:*" always includes the highest UID, as on real servers.
+ */
+function resolveUidSet(set: string, mailbox: MockMailbox): Set<number> {
+  const maxUid = mailbox.messages[mailbox.messages.length - 1]?.uid ?? 0
+  const matched = new Set<number>()
+
+  for (const range of set.split(',')) {
+    const [start, end = start] = range.split(':').map((n) => (n === '*' ? maxUid : Number(n)))
+    const [low, high] = start! <= end! ? [start!, end!] : [end!, start!]
+    for (const message of mailbox.messages) {
+      if (message.uid >= low && message.uid <= high) matched.add(message.uid)
+    }
+  }
+  return matched
+}
+
+function toUidSet(uids: number[]): string {
+  const sorted = [...uids].sort((a, b) => a - b)
+  const ranges: string[] = []
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]!
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i]! + 1) i++
+    ranges.push(start === sorted[i] ? `${start}` : `${start}:${sorted[i]}`)
+  }
+  return ranges.join(',')
+}
+
+// ============================================================================
+// Response formatting
+// ============================================================================
+
+function quote(value: string | null): string {
+  return value === null ? 'NIL' : `"${value.replace(/(["\\])/g, '\\$1')}"`
+}
+
+function literal(value: string): string {
+  return `{${Buffer.byteLength(value)}}\r\n${value}`
+}
+
+function address(name: string | null, email: string): string {
+  const [local, host] = email.split('@')
+  return `((${quote(name ? encodeWord(name) : null)} NIL ${quote(local!)} ${quote(host!)}))`
+}
+
+function formatInternalDate(date: Date): string {
+  const months = [
+    'Jan',
+    'Feb',
+    'Mar',
+    'Apr',
+    'May',
+    'Jun',
+    'Jul',
+    'Aug',
+    'Sep',
+    'Oct',
+    'Nov',
+    'Dec',
+  ]
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return (
+    `${String(date.getUTCDate()).padStart(2, ' ')}-${months[date.getUTCMonth()]}-${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+  )
+}
+
+function envelope(message: MockMessage): string {
+  const from = address(message.from.name, message.from.address)
+  return (
+    `(${quote(message.internalDate.toUTCString())} ${quote(encodeWord(message.subject))} ` +
+    `${from} ${from} ${from} ${address('Mock User', args.email!)} NIL NIL ` +
+    `${quote(message.inReplyTo)} ${quote(message.messageId)})`
+  )
+}
+
+function bodyStructure(message: MockMessage): string {
+  const text = '("text" "plain" ("charset" "utf-8") NIL NIL "7bit" 1200 30 NIL NIL NIL NIL)'
+  if (message.attachments.length === 0) return text
+
+  const parts = message.attachments.map(
+    (a) =>
+      `(${quote(a.type)} ${quote(a.subtype)} ("name" ${quote(a.filename)}) NIL NIL "base64" ` +
+      `${Math.ceil((a.size * 78) / 57)} NIL (${a.inline ? '"inline"' : '"attachment"'} ` +
+      `("filename" ${quote(a.filename)})) NIL NIL)`
+  )
+  return `(${text}${parts.join('')} "mixed" ("boundary" "mock-boundary") NIL NIL NIL)`
+}
+
+function headerFields(message: MockMessage, names: string[]): string {
+  const wanted = new Set(names.map((n) => n.toLowerCase()))
+  return (
+    message.headers
+      .filter((h) => wanted.has(h.name.toLowerCase()))
+      .map((h) => `${h.name}: ${h.value}\r\n`)
+      .join('') + '\r\n'
+  )
+}
+
+function fetchItem(item: string, message: MockMessage): string | null {
+  const upper = item.toUpperCase()
+  switch (upper) {
+    case 'UID':
+      return `UID ${message.uid}`
+    case 'FLAGS':
+      return `FLAGS (${[...message.flags].join(' ')})`
+    case 'INTERNALDATE':
+      return `INTERNALDATE ${quote(formatInternalDate(message.internalDate))}`
+    case 'RFC822.SIZE':
+      return `RFC822.SIZE ${message.size}`
+    case 'ENVELOPE':
+      return `ENVELOPE ${envelope(message)}`
+    case 'BODYSTRUCTURE':
+      return `BODYSTRUCTURE ${bodyStructure(message)}`
+    case 'MODSEQ':
+      return `MODSEQ (${message.modSeq})`
+  }
+
+  const section = /^BODY(?:\.PEEK)?\[HEADER\.FIELDS \(([^)]*)\)\]$/i.exec(item)
+  if (section) {
+    const names = section[1]!.split(' ').filter(Boolean)
+    return `BODY[HEADER.FIELDS (${names.join(' ')})] ${literal(headerFields(message, names))}`
+  }
+  return null
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+interface Session {
+  socket: Socket
+  authenticated: boolean
+  selected: MockMailbox | null
+  readOnly: boolean
+  qresync: boolean
+  condstore: boolean
+}
+
+function send(session: Session, line: string): void {
+  session.socket.write(`${line}\r\n`)
+}
+
+/**
+ * Tell the client about expunged messages of the selected mailbox
+ */
+function sendExpunged(session: Session, before: MockMessage[], removed: MockMessage[]): void {
+  if (removed.length === 0) return
+  if (session.qresync) {
+    send(session, `* VANISHED ${toUidSet(removed.map((m) => m.uid))}`)
+    return
+  }
+  // Highest sequence number first, so the earlier ones stay valid
+  const removedUids = new Set(removed.map((m) => m.uid))
+  for (let i = before.length - 1; i >= 0; i--) {
+    if (removedUids.has(before[i]!.uid)) send(session, `* ${i + 1} EXPUNGE`)
+  }
+}
+
+function handleCommand(session: Session, tag: string, tokens: Token[]): void {
+  const ok = (text = 'Completed', code?: string) =>
+    send(session, `${tag} OK ${code ? `[${code}] ` : ''}${text}`)
+  const no = (text: string, code?: string) =>
+    send(session, `${tag} NO ${code ? `[${code}] ` : ''}${text}`)
+  const bad = (text: string) => send(session, `${tag} BAD ${text}`)
+
+  let name = String(tokens[0] || '').toUpperCase()
+  let rest = tokens.slice(1)
+  if (name === 'UID') {
+    name = `UID ${String(rest[0] || '').toUpperCase()}`
+    rest = rest.slice(1)
+  }
+
+  const str = (i: number) => (typeof rest[i] === 'string' ? (rest[i] as string) : '')
+
+  switch (name) {
+    case 'CAPABILITY':
+      send(session, `* CAPABILITY ${CAPABILITIES}`)
+      return ok()
+    case 'NOOP':
+      return ok()
+    case 'LOGOUT':
+      send(session, '* BYE Logging out')
+      ok()
+      session.socket.end()
+      return
+    case 'LOGIN':
+      if (str(0).toLowerCase() !== args.email!.toLowerCase() || str(1) !== args.password) {
+        return no('Invalid credentials', 'AUTHENTICATIONFAILED')
+      }
+      session.authenticated = true
+      return ok('Logged in', `CAPABILITY ${CAPABILITIES}`)
+  }
+
+  if (!session.authenticated) {
+    return bad('Log in first')
+  }
+
+  switch (name) {
+    case 'ENABLE': {
+      const enabled = rest
+        .map((t) => String(t).toUpperCase())
+        .filter((ext) => (ext === 'QRESYNC' && hasQresync) || (ext === 'CONDSTORE' && hasCondstore))
+      if (enabled.includes('QRESYNC')) session.qresync = session.condstore = true
+      if (enabled.includes('CONDSTORE')) session.condstore = true
+      send(session, `* ENABLED${enabled.map((e) => ` ${e}`).join('')}`)
+      return ok()
+    }
+
+    case 'LIST':
+      for (const mailbox of mailboxes) {
+        const attributes = [
+          ...mailbox.attributes,
+          ...(mailboxes.some((m) => m.name.startsWith(`${mailbox.name}/`))
+            ? []
+            : ['\\HasNoChildren']),
+        ]
+        send(session, `* LIST (${attributes.join(' ')}) "/" ${quote(mailbox.name)}`)
+      }
+      return ok()
+
+    case 'STATUS': {
+      const mailbox = findMailbox(str(0))
+      if (!mailbox || !selectable(mailbox)) return no('No such mailbox', 'NONEXISTENT')
+      const items = Array.isArray(rest[1]) ? rest[1].map((t) => String(t).toUpperCase()) : []
+      const values: Record<string, number> = {
+        MESSAGES: mailbox.messages.length,
+        UIDNEXT: mailbox.uidNext,
+        UIDVALIDITY: mailbox.uidValidity,
+        UNSEEN: mailbox.messages.filter((m) => !m.flags.has('\\Seen')).length,
+        ...(hasCondstore && { HIGHESTMODSEQ: highestModSeq(mailbox) }),
+      }
+      const list = items.filter((i) => i in values).map((i) => `${i} ${values[i]}`)
+      send(session, `* STATUS ${quote(mailbox.name)} (${list.join(' ')})`)
+      return ok()
+    }
+
+    case 'SELECT':
+    case 'EXAMINE': {
+      const mailbox = findMailbox(str(0))
+      session.selected = null
+      if (!mailbox || !selectable(mailbox)) return no('No such mailbox', 'NONEXISTENT')
+
+      const params = Array.isArray(rest[1]) ? rest[1].map((t) => String(t).toUpperCase()) : []
+      if (params.includes('CONDSTORE')) {
+        if (!hasCondstore) return bad('CONDSTORE not supported')
+        session.condstore = true
+      }
+
+      session.selected = mailbox
+      session.readOnly = name === 'EXAMINE'
+      send(session, '* FLAGS (\\Answered \\Flagged \\Deleted \\Seen \\Draft)')
+      send(session, `* ${mailbox.messages.length} EXISTS`)
+      send(session, '* 0 RECENT')
+      send(session, `* OK [UIDVALIDITY ${mailbox.uidValidity}] UIDs valid`)
+      send(session, `* OK [UIDNEXT ${mailbox.uidNext}] Predicted next UID`)
+      if (hasCondstore) {
+        send(session, `* OK [HIGHESTMODSEQ ${highestModSeq(mailbox)}] Highest`)
+      }
+      return ok(`${name} completed`, session.readOnly ? 'READ-ONLY' : 'READ-WRITE')
+    }
+
+    case 'CREATE': {
+      const path = str(0)
+      if (findMailbox(path)) return no('Mailbox already exists', 'ALREADYEXISTS')
+      addMailbox(path)
+      return ok()
+    }
+
+    case 'RENAME': {
+      const mailbox = findMailbox(str(0))
+      if (!mailbox || mailbox.name === 'INBOX') return no('Cannot rename mailbox', 'NONEXISTENT')
+      if (findMailbox(str(1))) return no('Mailbox already exists', 'ALREADYEXISTS')
+      const oldName = mailbox.name
+      for (const m of mailboxes) {
+        if (m.name === oldName || m.name.startsWith(`${oldName}/`)) {
+          m.name = str(1) + m.name.slice(oldName.length)
+        }
+      }
+      return ok()
+    }
+
+    case 'DELETE': {
+      const mailbox = findMailbox(str(0))
+      if (!mailbox || mailbox.name === 'INBOX') return no('Cannot delete mailbox', 'NONEXISTENT')
+      mailboxes.splice(mailboxes.indexOf(mailbox), 1)
+      if (session.selected === mailbox) session.selected = null
+      return ok()
+    }
+  }
+
+  const mailbox = session.selected
+  if (!mailbox) {
+    return bad('No mailbox selected')
+  }
+
+  switch (name) {
+    case 'UID SEARCH': {
+      // Supports ALL and UID <set>
+      const criteria = rest.map((t) => String(t).toUpperCase())
+      const uidIndex = criteria.indexOf('UID')
+      const uids =
+        uidIndex === -1
+          ? mailbox.messages.map((m) => m.uid)
+          : [...resolveUidSet(str(uidIndex + 1), mailbox)]
+      send(session, `* SEARCH${uids.map((uid) => ` ${uid}`).join('')}`)
+      return ok()
+    }
+
+    case 'UID FETCH': {
+      const uids = resolveUidSet(str(0), mailbox)
+      const items = Array.isArray(rest[1]) ? rest[1].map(String) : [str(1)]
+      const modifiers = Array.isArray(rest[2]) ? rest[2].map((t) => String(t).toUpperCase()) : []
+
+      const changedSinceIndex = modifiers.indexOf('CHANGEDSINCE')
+      const changedSince =
+        changedSinceIndex === -1 ? null : Number(modifiers[changedSinceIndex + 1])
+      if (changedSince !== null && !hasCondstore) return bad('CHANGEDSINCE not supported')
+      if (modifiers.includes('VANISHED')) {
+        if (!session.qresync || changedSince === null) return bad('VANISHED needs QRESYNC')
+
+        const [low, high] = str(0)
+          .split(':')
+          .map((n) => (n === '*' ? Infinity : Number(n)))
+        const vanished = mailbox.vanished
+          .filter((v) => v.modSeq > changedSince && v.uid >= low! && v.uid <= (high ?? low!))
+          .map((v) => v.uid)
+        if (vanished.length > 0) {
+          send(session, `* VANISHED (EARLIER) ${toUidSet(vanished)}`)
+        }
+      }
+
+      const wanted = items.some((i) => i.toUpperCase() === 'UID') ? items : ['UID', ...items]
+      if (changedSince !== null) wanted.push('MODSEQ')
+
+      mailbox.messages.forEach((message, index) => {
+        if (!uids.has(message.uid)) return
+        if (changedSince !== null && message.modSeq <= changedSince) return
+        const parts = wanted.map((item) => fetchItem(item, message)).filter(Boolean)
+        send(session, `* ${index + 1} FETCH (${parts.join(' ')})`)
+      })
+      return ok()
+    }
+
+    case 'UID STORE': {
+      if (session.readOnly) return no('Mailbox is read-only')
+      const uids = resolveUidSet(str(0), mailbox)
+      const action = str(1).toUpperCase()
+      const flags = (Array.isArray(rest[2]) ? rest[2] : rest.slice(2)).map(String)
+
+      mailbox.messages.forEach((message, index) => {
+        if (!uids.has(message.uid)) return
+        const before = [...message.flags].sort().join(' ')
+        if (action.startsWith('+')) flags.forEach((f) => message.flags.add(f))
+        else if (action.startsWith('-')) flags.forEach((f) => message.flags.delete(f))
+        else message.flags = new Set(flags)
+
+        if ([...message.flags].sort().join(' ') !== before) message.modSeq = ++modSeq
+        if (!action.endsWith('.SILENT')) {
+          send(
+            session,
+            `* ${index + 1} FETCH (UID ${message.uid} FLAGS (${[...message.flags].join(' ')}))`
+          )
+        }
+      })
+      return ok()
+    }
+
+    case 'UID COPY':
+    case 'UID MOVE': {
+      if (name === 'UID MOVE' && !hasMove) return bad('MOVE not supported')
+      if (name === 'UID MOVE' && session.readOnly) return no('Mailbox is read-only')
+
+      const destination = findMailbox(str(1))
+      if (!destination || !selectable(destination)) return no('No such mailbox', 'TRYCREATE')
+
+      const uids = resolveUidSet(str(0), mailbox)
+      const source = mailbox.messages.filter((m) => uids.has(m.uid))
+      const copies = source.map((m) =>
+        appendMessage(destination, {
+          ...m,
+          flags: new Set([...m.flags].filter((f) => f !== '\\Deleted')),
+        })
+      )
+      const copyUid =
+        source.length > 0
+          ? `COPYUID ${destination.uidValidity} ${source.map((m) => m.uid).join(',')} ${copies.map((m) => m.uid).join(',')}`
+          : undefined
+
+      if (name === 'UID COPY') return ok('Copied', copyUid)
+
+      if (copyUid) send(session, `* OK [${copyUid}] Moved`)
+      const before = [...mailbox.messages]
+      sendExpunged(session, before, expungeMessages(mailbox, uids))
+      return ok('Moved')
+    }
+
+    case 'EXPUNGE':
+    case 'UID EXPUNGE': {
+      if (session.readOnly) return no('Mailbox is read-only')
+      const inSet = name === 'UID EXPUNGE' ? resolveUidSet(str(0), mailbox) : null
+      const uids = new Set(
+        mailbox.messages
+          .filter((m) => m.flags.has('\\Deleted') && (!inSet || inSet.has(m.uid)))
+          .map((m) => m.uid)
+      )
+      const before = [...mailbox.messages]
+      sendExpunged(session, before, expungeMessages(mailbox, uids))
+      return ok()
+    }
+  }
+
+  bad(`Unknown command ${name}`)
+}
+
+/**
+ * Read commands off a connection, inlining literals
+ */
+function handleConnection(socket: Socket): void {
+  const session: Session = {
+    socket,
+    authenticated: false,
+    selected: null,
+    readOnly: false,
+    qresync: false,
+    condstore: false,
+  }
+  let buffer = Buffer.alloc(0)
+  let scanFrom = 0
+  let continued = -1
+
+  send(session, `* OK [CAPABILITY ${CAPABILITIES}] Mock IMAP ready`)
+
+  socket.on('error', () => {})
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk])
+
+    for (;;) {
+      const lineEnd = buffer.indexOf('\r\n', scanFrom)
+      if (lineEnd === -1) return
+
+      const literalMatch = /\{(\d+)(\+?)\}$/.exec(buffer.toString('latin1', scanFrom, lineEnd))
+      if (literalMatch) {
+        const end = lineEnd + 2 + Number(literalMatch[1])
+        if (buffer.length < end) {
+          // Synchronizing literal: ask for the data once
+          if (!literalMatch[2] && continued !== lineEnd) {
+            continued = lineEnd
+            socket.write('+ Ready for literal data\r\n')
+          }
+          return
+        }
+        scanFrom = end
+        continue
+      }
+
+      const command = buffer.subarray(0, lineEnd)
+      buffer = buffer.subarray(lineEnd + 2)
+      scanFrom = 0
+
+      const space = command.indexOf(' ')
+      const tag = command.toString('latin1', 0, space === -1 ? command.length : space)
+      try {
+        handleCommand(session, tag, space === -1 ? [] : tokenize(command.subarray(space + 1)))
+      } catch (error) {
+        send(session, `${tag} BAD ${error instanceof Error ? error.message : 'Invalid command'}`)
+      }
+    }
+  })
+}
+
+createServer(handleConnection).listen(Number(args.port))
+
+// ============================================================================
+// Test controls
+// ============================================================================
+
+Bun.serve({
+  port: Number(args['http-port']),
+  fetch(request) {
+    const url = new URL(request.url)
+    const count = Number(url.searchParams.get('count')) || 1
+    const mailbox = findMailbox(url.searchParams.get('mailbox') || 'INBOX')
+
+    if (url.pathname === '/mock/state') {
+      return Response.json(
+        mailboxes.map((m) => ({
+          name: m.name,
+          attributes: m.attributes,
+          messages: m.messages.length,
+          unseen: m.messages.filter((msg) => !msg.flags.has('\\Seen')).length,
+          uidValidity: m.uidValidity,
+          uidNext: m.uidNext,
+          highestModSeq: highestModSeq(m),
+        }))
+      )
+    }
+
+    if (request.method !== 'POST') {
+      return new Response('Not found', { status: 404 })
+    }
+    if (!mailbox || !selectable(mailbox)) {
+      return Response.json({ error: 'No such mailbox' }, { status: 404 })
+    }
+
+    switch (url.pathname) {
+      case '/mock/messages': {
+        for (let i = 0; i < count; i++) {
+          const message = appendMessage(mailbox, createMessage(new Date()))
+          message.flags.delete('\\Seen')
+        }
+        return Response.json({ delivered: count, total: mailbox.messages.length })
+      }
+
+      case '/mock/read': {
+        const unread = mailbox.messages.filter((m) => !m.flags.has('\\Seen')).slice(0, count)
+        for (const message of unread) {
+          message.flags.add('\\Seen')
+          message.modSeq = ++modSeq
+        }
+        return Response.json({ read: unread.map((m) => m.uid) })
+      }
+
+      case '/mock/expunge': {
+        const uids = new Set(mailbox.messages.slice(0, count).map((m) => m.uid))
+        expungeMessages(mailbox, uids)
+        return Response.json({ expunged: [...uids] })
+      }
+
+      case '/mock/move': {
+        const destination = findMailbox(url.searchParams.get('to') || '')
+        if (!destination || !selectable(destination)) {
+          return Response.json({ error: 'No such destination mailbox' }, { status: 404 })
+        }
+        const source = mailbox.messages.slice(0, count)
+        const moved = source.map((m) => appendMessage(destination, m))
+        expungeMessages(mailbox, new Set(source.map((m) => m.uid)))
+        return Response.json({ moved: moved.map((m) => m.uid) })
+      }
+
+      case '/mock/uidvalidity': {
+        mailbox.uidValidity = ++uidValidityCounter
+        mailbox.uidNext = 1
+        mailbox.vanished = []
+        mailbox.messages = mailbox.messages.map((m) => ({ ...m, uid: mailbox.uidNext++ }))
+        return Response.json({ uidValidity: mailbox.uidValidity })
+      }
+    }
+
+    return new Response('Not found', { status: 404 })
+  },
+})
+
+const total = mailboxes.reduce((sum, m) => sum + m.messages.length, 0)
+console.log(`Mock IMAP server on localhost:${args.port} - ${total} messages for ${args.email}`)
+console.log(`  Password: ${args.password} (security: none)`)
+console.log(
+  `  Capabilities: ${CAPABILITIES}`,
+  `\n  Test controls on http://localhost:${args['http-port']}/mock/state`
+)
@@ -44,6 +44,13 @@ const getDefaultSqlitePath = () => {
 
 const SQLITE_PATH = process.env.SQLITE_PATH || getDefaultSqlitePath()
 
+/**
+ * Directory holding local app data (the SQLite database sits here by default)
+ */
+export function getDataDir(): string {
+  return dirname(SQLITE_PATH)
+}
+
 // Migrations path
 // Priority: MIGRATIONS_PATH env var > ./drizzle/<type> relative to binary/project
 const getMigrationsPath = (dbType: 'sqlite' | 'pg') => {
@@ -153,20 +160,35 @@ export type {
   NewUser,
   Session,
   NewSession,
+  ApiToken,
+  NewApiToken,
+  ApiTokenScope,
   MailAccount,
   NewMailAccount,
   MailProvider,
+  BackupFormat,
+  DeletedEmailStatus,
   OAuthToken,
   NewOAuthToken,
+  ImapCredential,
+  NewImapCredential,
   Job,
   NewJob,
   JobStatus,
   JobType,
+  QueueJob,
+  NewQueueJob,
+  QueueJobStatus,
   SyncStatus,
   AppConfig,
   NewAppConfig,
   UnsubscribedSender,
   NewUnsubscribedSender,
+  UnsubscribeMethod,
+  UnsubscribeStatus,
+  UnsubscribeViolation,
+  NewUnsubscribeViolation,
+  UnsubscribeEscalation,
   Email,
   NewEmail,
   Sender,
@@ -175,6 +197,20 @@ export type {
   NewMailRule,
   DeletedEmail,
   NewDeletedEmail,
+  EmailBackup,
+  NewEmailBackup,
+  SavedAttachment,
+  NewSavedAttachment,
+  MailboxSnapshot,
+  NewMailboxSnapshot,
+  ImapMessage,
+  NewImapMessage,
+  CleanupRule,
+  NewCleanupRule,
+  CleanupRuleAction,
+  CleanupRuleRun,
+  NewCleanupRuleRun,
+  CleanupRuleRunStatus,
   AIChatConversation,
   NewAIChatConversation,
   AIChatMessage,
@@ -189,15 +225,25 @@ const tablesImpl = isPostgres
   ? {
       users: pgSchema.users,
       sessions: pgSchema.sessions,
+      apiTokens: pgSchema.apiTokens,
       mailAccounts: pgSchema.mailAccounts,
       oauthTokens: pgSchema.oauthTokens,
+      imapCredentials: pgSchema.imapCredentials,
       jobs: pgSchema.jobs,
+      queueJobs: pgSchema.queueJobs,
       appConfig: pgSchema.appConfig,
       unsubscribedSenders: pgSchema.unsubscribedSenders,
+      unsubscribeViolations: pgSchema.unsubscribeViolations,
       emails: pgSchema.emails,
       senders: pgSchema.senders,
       mailRules: pgSchema.mailRules,
       deletedEmails: pgSchema.deletedEmails,
+      emailBackups: pgSchema.emailBackups,
+      savedAttachments: pgSchema.savedAttachments,
+      mailboxSnapshots: pgSchema.mailboxSnapshots,
+      imapMessages: pgSchema.imapMessages,
+      cleanupRules: pgSchema.cleanupRules,
+      cleanupRuleRuns: pgSchema.cleanupRuleRuns,
       aiChatConversations: pgSchema.aiChatConversations,
       aiChatMessages: pgSchema.aiChatMessages,
       aiQueryCache: pgSchema.aiQueryCache,
@@ -205,15 +251,25 @@ const tablesImpl = isPostgres
   : {
       users: sqliteSchema.users,
       sessions: sqliteSchema.sessions,
+      apiTokens: sqliteSchema.apiTokens,
       mailAccounts: sqliteSchema.mailAccounts,
       oauthTokens: sqliteSchema.oauthTokens,
+      imapCredentials: sqliteSchema.imapCredentials,
       jobs: sqliteSchema.jobs,
+      queueJobs: sqliteSchema.queueJobs,
       appConfig: sqliteSchema.appConfig,
       unsubscribedSenders: sqliteSchema.unsubscribedSenders,
+      unsubscribeViolations: sqliteSchema.unsubscribeViolations,
       emails: sqliteSchema.emails,
       senders: sqliteSchema.senders,
       mailRules: sqliteSchema.mailRules,
       deletedEmails: sqliteSchema.deletedEmails,
+      emailBackups: sqliteSchema.emailBackups,
+      savedAttachments: sqliteSchema.savedAttachments,
+      mailboxSnapshots: sqliteSchema.mailboxSnapshots,
+      imapMessages: sqliteSchema.imapMessages,
+      cleanupRules: sqliteSchema.cleanupRules,
+      cleanupRuleRuns: sqliteSchema.cleanupRuleRuns,
       aiChatConversations: sqliteSchema.aiChatConversations,
       aiChatMessages: sqliteSchema.aiChatMessages,
       aiQueryCache: sqliteSchema.aiQueryCache,
@@ -222,15 +278,25 @@ const tablesImpl = isPostgres
 export const tables = tablesImpl as {
   users: typeof pgSchema.users
   sessions: typeof pgSchema.sessions
+  apiTokens: typeof pgSchema.apiTokens
   mailAccounts: typeof pgSchema.mailAccounts
   oauthTokens: typeof pgSchema.oauthTokens
+  imapCredentials: typeof pgSchema.imapCredentials
   jobs: typeof pgSchema.jobs
+  queueJobs: typeof pgSchema.queueJobs
   appConfig: typeof pgSchema.appConfig
   unsubscribedSenders: typeof pgSchema.unsubscribedSenders
+  unsubscribeViolations: typeof pgSchema.unsubscribeViolations
   emails: typeof pgSchema.emails
   senders: typeof pgSchema.senders
   mailRules: typeof pgSchema.mailRules
   deletedEmails: typeof pgSchema.deletedEmails
+  emailBackups: typeof pgSchema.emailBackups
+  savedAttachments: typeof pgSchema.savedAttachments
+  mailboxSnapshots: typeof pgSchema.mailboxSnapshots
+  imapMessages: typeof pgSchema.imapMessages
+  cleanupRules: typeof pgSchema.cleanupRules
+  cleanupRuleRuns: typeof pgSchema.cleanupRuleRuns
   aiChatConversations: typeof pgSchema.aiChatConversations
   aiChatMessages: typeof pgSchema.aiChatMessages
   aiQueryCache: typeof pgSchema.aiQueryCache
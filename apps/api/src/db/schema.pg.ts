@@ -7,9 +7,13 @@ import {
   varchar,
   uniqueIndex,
   bigint,
+  customType,
 } from 'drizzle-orm/pg-core'
+import { sql } from 'drizzle-orm'
 import { nanoid } from '../lib/id'
 import type { AIProvider } from '../services/ai/types'
+import type { QueueJobType } from '../services/queue/types'
+import type { ImapSecurity } from '../lib/imap'
 
 /**
  * Users table - authenticated users
@@ -24,6 +28,8 @@ export const users = pgTable(
     name: text('name'),
     picture: text('picture'), // Google profile picture URL
     googleId: text('google_id').notNull().unique(), // Google account ID (sub claim from OAuth)
+    isAdmin: integer('is_admin').notNull().default(0), // 1 = instance admin (first user), 0 = regular
+    disabledAt: timestamp('disabled_at', { withTimezone: true }), // Login blocked by an admin (null = active)
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -63,10 +69,55 @@ export const sessions = pgTable(
   ]
 )
 
+/**
+ * Scopes a personal API token can be granted
+ *
+ * - read: GET requests on explorer, filters and gmail routes
+ * - cleanup: mutating requests (trash, delete, archive, filters, sync)
+ * - admin: admin routes (user management, allowlist)
+ */
+export type ApiTokenScope = 'read' | 'cleanup' | 'admin'
+
+/**
+ * Personal API tokens - long-lived bearer tokens for scripts and CI
+ * Only a SHA-256 hash of the token is stored; the raw value is shown once on creation.
+ */
+export const apiTokens = pgTable(
+  'api_tokens',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    userId: varchar('user_id', { length: 21 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    tokenHash: text('token_hash').notNull().unique(), // SHA-256 hash of the raw token
+    tokenPrefix: text('token_prefix').notNull(), // First characters of the token, for display
+    scopes: text('scopes').notNull(), // JSON array of ApiTokenScope
+    expiresAt: timestamp('expires_at', { withTimezone: true }), // Null = never expires
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }), // Null = never used
+    lastUsedIp: text('last_used_ip'),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }), // Soft revoke (null = active)
+  },
+  (table) => [index('api_tokens_user_id_idx').on(table.userId)]
+)
+
 /**
  * Mail provider enum
  */
-export type MailProvider = 'gmail' | 'outlook'
+export type MailProvider = 'gmail' | 'outlook' | 'imap'
+
+/**
+ * Local archive format for backups taken before permanent delete
+ */
+export type BackupFormat = 'mbox' | 'maildir'
+
+/**
+ * Eternal Memory status: trashed emails can still be restored from the mailbox trash
+ */
+export type DeletedEmailStatus = 'trashed' | 'purged'
 
 /**
  * Sync status enum for mail accounts
@@ -100,9 +151,22 @@ export const mailAccounts = pgTable(
     syncCompletedAt: timestamp('sync_completed_at', { withTimezone: true }),
     syncError: text('sync_error'),
 
-    // For incremental sync (Gmail: historyId, Outlook: deltaLink stored elsewhere)
+    // For incremental sync (Gmail: historyId, Outlook and IMAP: deltaLinks)
     historyId: bigint('history_id', { mode: 'number' }),
 
+    // Folder-based delta sync - JSON object of folder -> cursor
+    // (Outlook: Graph deltaLink, IMAP: UIDVALIDITY / UIDNEXT / HIGHESTMODSEQ)
+    deltaLinks: text('delta_links'),
+
+    // Gmail push (users.watch) - when the current watch expires (epoch ms), null when not watching
+    watchExpiration: bigint('watch_expiration', { mode: 'number' }),
+
+    // Backup before delete - archive format for raw copies of deleted emails, null when off
+    backupFormat: text('backup_format').$type<BackupFormat>(),
+
+    // Gmail storage quota for forecasts, in bytes - null uses GMAIL_STORAGE_QUOTA_GB (default 15 GB)
+    storageQuotaBytes: bigint('storage_quota_bytes', { mode: 'number' }),
+
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -146,6 +210,27 @@ export const oauthTokens = pgTable(
   ]
 )
 
+/**
+ * IMAP connection settings of IMAP mail accounts
+ * The app password is encrypted like OAuth tokens.
+ */
+export const imapCredentials = pgTable('imap_credentials', {
+  id: varchar('id', { length: 21 })
+    .primaryKey()
+    .$defaultFn(() => nanoid()),
+  mailAccountId: varchar('mail_account_id', { length: 21 })
+    .notNull()
+    .unique()
+    .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+  host: text('host').notNull(),
+  port: integer('port').notNull(),
+  security: text('security').$type<ImapSecurity>().notNull(),
+  username: text('username').notNull(),
+  password: text('password').notNull(), // Encrypted
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+})
+
 /**
  * Job status enum values
  */
@@ -154,7 +239,7 @@ export type JobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed
 /**
  * Job types for different operations
  */
-export type JobType = 'delete' | 'trash' | 'archive' | 'sync'
+export type JobType = 'delete' | 'trash' | 'archive' | 'label' | 'sync' | 'import' | 'strip'
 
 /**
  * Deletion/cleanup jobs.
@@ -177,13 +262,22 @@ export const jobs = pgTable(
     totalMessages: integer('total_messages').notNull().default(0),
     processedMessages: integer('processed_messages').notNull().default(0),
 
+    // Storage freed in Gmail by permanent deletes (delete and strip jobs)
+    reclaimedBytes: bigint('reclaimed_bytes', { mode: 'number' }).notNull().default(0),
+
     // Pagination state for resumability
     nextPageToken: text('next_page_token'),
 
+    // Job input (JSON) - e.g. the resolved message IDs for trash/delete jobs
+    payload: text('payload'),
+
     // Error handling
     lastError: text('last_error'),
     retryCount: integer('retry_count').notNull().default(0),
 
+    // Worker run that claimed the job - a run stops once another one owns it
+    runId: varchar('run_id', { length: 21 }),
+
     // Resume tracking (for accurate ETA after resume)
     resumedAt: timestamp('resumed_at', { withTimezone: true }), // When job was last resumed
     processedAtResume: integer('processed_at_resume'), // Messages already processed when resumed (null = 0)
@@ -205,6 +299,48 @@ export const jobs = pgTable(
   ]
 )
 
+/**
+ * Queue job status
+ */
+export type QueueJobStatus = 'waiting' | 'active' | 'completed' | 'failed'
+
+/**
+ * Durable job queue (see services/queue/database.ts)
+ * Work items for background workers; `jobs` tracks user-facing progress.
+ * Times are Unix timestamps in ms so lease checks are plain comparisons.
+ */
+export const queueJobs = pgTable(
+  'queue_jobs',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    type: text('type').$type<QueueJobType>().notNull(),
+    data: text('data').notNull(), // JSON job data
+    jobId: text('job_id'), // data.jobId - an app job is only queued once at a time
+    status: text('status').$type<QueueJobStatus>().notNull().default('waiting'),
+    priority: integer('priority').notNull().default(0), // Lower = runs first
+    attemptsMade: integer('attempts_made').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(1),
+    backoff: text('backoff'), // JSON AddJobOptions['backoff']
+    runAt: bigint('run_at', { mode: 'number' }).notNull(), // Not claimed before this time
+    lockedBy: text('locked_by'), // Worker holding the lease
+    lockedUntil: bigint('locked_until', { mode: 'number' }), // Lease expiry - reclaimable after this
+    lastError: text('last_error'),
+    finishedAt: bigint('finished_at', { mode: 'number' }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('queue_jobs_claim_idx').on(table.status, table.priority, table.runAt),
+    index('queue_jobs_job_id_idx').on(table.jobId),
+    // An app job has at most one live queue entry, even when two processes queue it at once
+    uniqueIndex('queue_jobs_live_job_unique')
+      .on(table.type, table.jobId)
+      .where(sql`${table.status} IN ('waiting', 'active')`),
+    index('queue_jobs_finished_at_idx').on(table.finishedAt),
+  ]
+)
+
 /**
  * Application configuration stored in database.
  * Allows runtime configuration without environment variables.
@@ -224,6 +360,16 @@ export const appConfig = pgTable('app_config', {
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
 })
 
+/**
+ * How the server attempted to unsubscribe from a sender
+ */
+export type UnsubscribeMethod = 'one_click' | 'mailto' | 'manual'
+
+/**
+ * Outcome of an unsubscribe attempt
+ */
+export type UnsubscribeStatus = 'success' | 'failed' | 'fallback_needed'
+
 /**
  * Unsubscribed senders - tracks senders the user has unsubscribed from
  * Used to filter out unsubscribed senders from the subscriptions list
@@ -240,6 +386,14 @@ export const unsubscribedSenders = pgTable(
     senderEmail: text('sender_email').notNull(),
     senderName: text('sender_name'),
     unsubscribedAt: timestamp('unsubscribed_at', { withTimezone: true }).notNull().defaultNow(),
+
+    // Outcome of the last unsubscribe attempt performed by the server
+    unsubscribeMethod: text('unsubscribe_method').$type<UnsubscribeMethod>(),
+    unsubscribeStatus: text('unsubscribe_status').$type<UnsubscribeStatus>(),
+    unsubscribeTarget: text('unsubscribe_target'), // URL or mailto address used
+    httpStatus: integer('http_status'),
+    unsubscribeError: text('unsubscribe_error'),
+    attemptedAt: timestamp('attempted_at', { withTimezone: true }),
   },
   (table) => [
     index('unsubscribed_senders_mail_account_idx').on(table.mailAccountId),
@@ -251,6 +405,45 @@ export const unsubscribedSenders = pgTable(
   ]
 )
 
+/**
+ * Escalation applied to a sender that kept mailing after an unsubscribe
+ */
+export type UnsubscribeEscalation = 'filter' | 'spam'
+
+/**
+ * Unsubscribe violations - senders that kept emailing after being unsubscribed
+ * Detected after each delta sync; one row per sender, aggregates are recomputed on detection
+ */
+export const unsubscribeViolations = pgTable(
+  'unsubscribe_violations',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    mailAccountId: varchar('mail_account_id', { length: 21 })
+      .notNull()
+      .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+    senderEmail: text('sender_email').notNull(),
+    senderName: text('sender_name'),
+    firstMessageId: text('first_message_id').notNull(), // First email after the unsubscribe date
+    firstEmailAt: bigint('first_email_at', { mode: 'number' }).notNull(), // Unix timestamp in ms
+    lastEmailAt: bigint('last_email_at', { mode: 'number' }).notNull(), // Unix timestamp in ms
+    emailCount: integer('email_count').notNull().default(0),
+    escalation: text('escalation').$type<UnsubscribeEscalation>(),
+    escalationFilterId: text('escalation_filter_id'), // Gmail filter created by the escalation
+    escalatedAt: timestamp('escalated_at', { withTimezone: true }),
+    detectedAt: timestamp('detected_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('unsubscribe_violations_mail_account_idx').on(table.mailAccountId),
+    uniqueIndex('unsubscribe_violations_account_email_unique').on(
+      table.mailAccountId,
+      table.senderEmail
+    ),
+  ]
+)
+
 // Type exports for use throughout the application
 export type User = typeof users.$inferSelect
 export type NewUser = typeof users.$inferInsert
@@ -258,21 +451,50 @@ export type NewUser = typeof users.$inferInsert
 export type Session = typeof sessions.$inferSelect
 export type NewSession = typeof sessions.$inferInsert
 
+export type ApiToken = typeof apiTokens.$inferSelect
+export type NewApiToken = typeof apiTokens.$inferInsert
+
 export type MailAccount = typeof mailAccounts.$inferSelect
 export type NewMailAccount = typeof mailAccounts.$inferInsert
 
 export type OAuthToken = typeof oauthTokens.$inferSelect
 export type NewOAuthToken = typeof oauthTokens.$inferInsert
 
+export type ImapCredential = typeof imapCredentials.$inferSelect
+export type NewImapCredential = typeof imapCredentials.$inferInsert
+
 export type Job = typeof jobs.$inferSelect
 export type NewJob = typeof jobs.$inferInsert
 
+export type QueueJob = typeof queueJobs.$inferSelect
+export type NewQueueJob = typeof queueJobs.$inferInsert
+
 export type AppConfig = typeof appConfig.$inferSelect
 export type NewAppConfig = typeof appConfig.$inferInsert
 
 export type UnsubscribedSender = typeof unsubscribedSenders.$inferSelect
 export type NewUnsubscribedSender = typeof unsubscribedSenders.$inferInsert
 
+export type UnsubscribeViolation = typeof unsubscribeViolations.$inferSelect
+export type NewUnsubscribeViolation = typeof unsubscribeViolations.$inferInsert
+
+/**
+ * Postgres full-text search document
+ */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector'
+  },
+})
+
+/**
+ * Words of a text column for the search index - punctuation becomes spaces so
+ * "john.doe@example.com" and "invoice-2024.pdf" index as separate words
+ * (the same split the SQLite FTS5 unicode61 tokenizer makes)
+ */
+const searchWords = (expression: string) =>
+  `to_tsvector('simple'::regconfig, regexp_replace(coalesce(${expression}, ''), '[^[:alnum:]]+', ' ', 'g'))`
+
 /**
  * Emails table - stores email metadata synced from mail providers
  * Multi-tenant: filtered by mailAccountId
@@ -302,6 +524,24 @@ export const emails = pgTable(
     internalDate: bigint('internal_date', { mode: 'number' }), // Unix timestamp in ms
     syncedAt: bigint('synced_at', { mode: 'number' }), // Unix timestamp in ms
     unsubscribeLink: text('unsubscribe_link'), // List-Unsubscribe header URL
+    listUnsubscribe: text('list_unsubscribe'), // Raw List-Unsubscribe header (all URLs)
+    listUnsubscribePost: text('list_unsubscribe_post'), // RFC 8058 List-Unsubscribe-Post header
+    toEmails: text('to_emails'), // JSON array of To addresses
+    ccEmails: text('cc_emails'), // JSON array of Cc addresses
+    deliveredTo: text('delivered_to'), // Delivered-To header address
+    replyTo: text('reply_to'), // Reply-To header address
+    listId: text('list_id'), // List-Id header identifier (without the display name)
+    // Full-text search: subject (A), sender (B), attachment filenames (C), snippet (D)
+    searchVector: tsvector('search_vector').generatedAlwaysAs(
+      sql.raw(
+        [
+          `setweight(${searchWords('"subject"')}, 'A')`,
+          `setweight(${searchWords(`coalesce("from_name", '') || ' ' || "from_email"`)}, 'B')`,
+          `setweight(${searchWords(`jsonb_path_query_array("attachments"::jsonb, '$[*].filename')::text`)}, 'C')`,
+          `setweight(${searchWords('"snippet"')}, 'D')`,
+        ].join(' || ')
+      )
+    ),
   },
   (table) => [
     // Composite primary key: message_id + mail_account_id
@@ -317,6 +557,8 @@ export const emails = pgTable(
     index('emails_account_trash_idx').on(table.mailAccountId, table.isTrash),
     index('emails_account_spam_idx').on(table.mailAccountId, table.isSpam),
     index('emails_account_important_idx').on(table.mailAccountId, table.isImportant),
+    index('emails_account_list_id_idx').on(table.mailAccountId, table.listId),
+    index('emails_search_idx').using('gin', table.searchVector),
   ]
 )
 
@@ -351,8 +593,8 @@ export type Sender = typeof senders.$inferSelect
 export type NewSender = typeof senders.$inferInsert
 
 /**
- * Mail rules (filters) - provider-agnostic rules for automatic email actions
- * Stores both Gmail filters and Outlook message rules
+ * Mail rules - Inboxorcist-side rules applied to newly synced mail
+ * Rules Gmail can express natively can be mirrored to a Gmail filter (providerRuleId)
  */
 export const mailRules = pgTable(
   'mail_rules',
@@ -363,26 +605,28 @@ export const mailRules = pgTable(
     mailAccountId: varchar('mail_account_id', { length: 21 })
       .notNull()
       .references(() => mailAccounts.id, { onDelete: 'cascade' }),
-    providerRuleId: text('provider_rule_id'), // Remote ID from Gmail/Outlook (null if not synced yet)
+    providerRuleId: text('provider_rule_id'), // ID of the mirrored Gmail filter (null if not mirrored)
     name: text('name').notNull(), // User-friendly name (not stored in provider)
     isEnabled: integer('is_enabled').notNull().default(1), // 1 = enabled, 0 = disabled
-    sequence: integer('sequence'), // Outlook uses this for ordering, Gmail ignores
+    sequence: integer('sequence'), // Evaluation order (lowest first)
 
-    // Provider-specific criteria and actions stored as JSON
-    // Gmail: { from, to, subject, query, hasAttachment, size, sizeComparison }
-    // Outlook: { fromAddresses, senderContains, subjectContains, bodyContains, hasAttachments, importance }
+    // { from, to, subject, hasAttachment, minSizeBytes, maxSizeBytes, olderThanDays, isUnread, notRepliedTo }
     criteria: text('criteria').notNull(), // JSON string
 
-    // Provider-specific actions stored as JSON
-    // Gmail: { addLabelIds, removeLabelIds, forward }
-    // Outlook: { moveToFolder, copyToFolder, delete, permanentDelete, markAsRead, forwardTo, assignCategories }
+    // { addLabelIds, removeLabelIds, markRead, archive, trash }
     actions: text('actions').notNull(), // JSON string
 
+    mirrorToProvider: integer('mirror_to_provider').notNull().default(0), // 1 = keep a Gmail filter in sync
+    providerSnapshot: text('provider_snapshot'), // JSON { criteria, action } of the filter as last synced
+
     // Normalized fields for quick querying (extracted from criteria)
     matchSender: text('match_sender'), // Primary sender filter if any
     matchSubject: text('match_subject'), // Primary subject filter if any
 
     syncedAt: timestamp('synced_at', { withTimezone: true }), // Last synced with provider
+    driftDetectedAt: timestamp('drift_detected_at', { withTimezone: true }), // Mirrored filter was changed or deleted in Gmail
+    appliedCount: integer('applied_count').notNull().default(0), // Messages the rule has changed
+    lastAppliedAt: timestamp('last_applied_at', { withTimezone: true }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -399,8 +643,8 @@ export type NewMailRule = typeof mailRules.$inferInsert
 
 /**
  * Deleted emails table - "Eternal Memory" archive
- * Stores metadata of permanently deleted emails forever
- * Mirrors emails table (minus synced_at and is_trash) plus deleted_at
+ * Stores metadata of trashed and permanently deleted emails forever
+ * Mirrors emails table (minus synced_at and is_trash) plus status and deleted_at
  */
 export const deletedEmails = pgTable(
   'deleted_emails',
@@ -425,6 +669,13 @@ export const deletedEmails = pgTable(
     isImportant: integer('is_important').default(0),
     internalDate: bigint('internal_date', { mode: 'number' }),
     unsubscribeLink: text('unsubscribe_link'),
+    toEmails: text('to_emails'),
+    ccEmails: text('cc_emails'),
+    deliveredTo: text('delivered_to'),
+    replyTo: text('reply_to'),
+    listId: text('list_id'),
+    // 'trashed' while the email sits in the mailbox trash, 'purged' once it is gone for good
+    status: text('status').$type<DeletedEmailStatus>().notNull().default('purged'),
     deletedAt: timestamp('deleted_at', { withTimezone: true }).notNull().defaultNow(),
   },
   (table) => [
@@ -439,6 +690,234 @@ export const deletedEmails = pgTable(
 export type DeletedEmail = typeof deletedEmails.$inferSelect
 export type NewDeletedEmail = typeof deletedEmails.$inferInsert
 
+/**
+ * Email backups - raw RFC 822 copies written to disk before permanent delete
+ * One row per message in the account's local archive (mbox or Maildir);
+ * the archive's manifest.jsonl holds the same entries for use outside the app
+ */
+export const emailBackups = pgTable(
+  'email_backups',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    mailAccountId: varchar('mail_account_id', { length: 21 })
+      .notNull()
+      .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+    messageId: text('message_id').notNull(),
+    threadId: text('thread_id'),
+    format: text('format').$type<BackupFormat>().notNull(),
+    file: text('file').notNull(), // Path relative to the account's archive directory
+    offset: bigint('offset', { mode: 'number' }), // Byte offset of the entry in an mbox file, null for Maildir
+    length: integer('length').notNull(), // Bytes of the entry in the archive file
+    sizeBytes: integer('size_bytes').notNull(), // Bytes of the original raw message
+    sha256: text('sha256').notNull(), // Of the original raw message
+    fromEmail: text('from_email'),
+    subject: text('subject'),
+    internalDate: bigint('internal_date', { mode: 'number' }),
+    backedUpAt: timestamp('backed_up_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('email_backups_account_message_unique').on(table.mailAccountId, table.messageId),
+    index('email_backups_account_date_idx').on(table.mailAccountId, table.internalDate),
+  ]
+)
+
+export type EmailBackup = typeof emailBackups.$inferSelect
+export type NewEmailBackup = typeof emailBackups.$inferInsert
+
+/**
+ * Attachments saved locally and dropped from their email ("keep email, drop attachment")
+ * The email is re-imported without them and the original deleted; files live in
+ * <BACKUP_DIR>/<accountId>/attachments/.
+ */
+export const savedAttachments = pgTable(
+  'saved_attachments',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    mailAccountId: varchar('mail_account_id', { length: 21 })
+      .notNull()
+      .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+    originalMessageId: text('original_message_id').notNull(), // Deleted message the file came from
+    messageId: text('message_id').notNull(), // Copy of the email without its attachments
+    attachmentIndex: integer('attachment_index').notNull(), // Position in the original's attachments
+    filename: text('filename').notNull(),
+    mimeType: text('mime_type').notNull(),
+    sizeBytes: bigint('size_bytes', { mode: 'number' }).notNull(),
+    file: text('file').notNull(), // Path relative to the account's archive directory
+    sha256: text('sha256').notNull(),
+    fromEmail: text('from_email'),
+    subject: text('subject'),
+    internalDate: bigint('internal_date', { mode: 'number' }),
+    savedAt: timestamp('saved_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('saved_attachments_original_unique').on(
+      table.mailAccountId,
+      table.originalMessageId,
+      table.attachmentIndex
+    ),
+    index('saved_attachments_account_date_idx').on(table.mailAccountId, table.savedAt),
+  ]
+)
+
+export type SavedAttachment = typeof savedAttachments.$inferSelect
+export type NewSavedAttachment = typeof savedAttachments.$inferInsert
+
+/**
+ * Daily mailbox snapshots for trends and storage forecasts
+ * One row per account and day (UTC), written by the scheduler after the day's first delta sync.
+ */
+export const mailboxSnapshots = pgTable(
+  'mailbox_snapshots',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    mailAccountId: varchar('mail_account_id', { length: 21 })
+      .notNull()
+      .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+    date: text('date').notNull(), // YYYY-MM-DD (UTC)
+    totalEmails: integer('total_emails').notNull(), // Including trash and spam
+    totalSizeBytes: bigint('total_size_bytes', { mode: 'number' }).notNull(),
+    unreadCount: integer('unread_count').notNull(),
+    trashCount: integer('trash_count').notNull(),
+    trashSizeBytes: bigint('trash_size_bytes', { mode: 'number' }).notNull(),
+    spamCount: integer('spam_count').notNull(),
+    spamSizeBytes: bigint('spam_size_bytes', { mode: 'number' }).notNull(),
+    categories: text('categories').notNull(), // JSON: { [category]: { count, sizeBytes } }
+    topSenders: text('top_senders').notNull(), // JSON: [{ email, name, count, sizeBytes }]
+    reclaimedBytes: bigint('reclaimed_bytes', { mode: 'number' }).notNull(), // Reclaimed by jobs so far (cumulative)
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('mailbox_snapshots_account_date_unique').on(table.mailAccountId, table.date),
+  ]
+)
+
+export type MailboxSnapshot = typeof mailboxSnapshots.$inferSelect
+export type NewMailboxSnapshot = typeof mailboxSnapshots.$inferInsert
+
+/**
+ * Where each message of an IMAP account lives (mailbox + UID)
+ * IMAP UIDs change when a message moves between mailboxes; this index keeps
+ * the emails table's message_id stable across moves.
+ */
+export const imapMessages = pgTable(
+  'imap_messages',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    mailAccountId: varchar('mail_account_id', { length: 21 })
+      .notNull()
+      .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+    messageId: text('message_id').notNull(), // emails.message_id
+    mailbox: text('mailbox').notNull(),
+    uid: bigint('uid', { mode: 'number' }).notNull(), // Unsigned 32-bit
+    flags: text('flags').notNull(), // Space-separated, sorted
+    headerMessageId: text('header_message_id'), // Message-ID header, to recognize moves
+  },
+  (table) => [
+    uniqueIndex('imap_messages_account_mailbox_uid_unique').on(
+      table.mailAccountId,
+      table.mailbox,
+      table.uid
+    ),
+    index('imap_messages_account_message_idx').on(table.mailAccountId, table.messageId),
+    index('imap_messages_account_header_idx').on(table.mailAccountId, table.headerMessageId),
+  ]
+)
+
+export type ImapMessage = typeof imapMessages.$inferSelect
+export type NewImapMessage = typeof imapMessages.$inferInsert
+
+/**
+ * Action applied by a cleanup rule to the messages it matches
+ */
+export type CleanupRuleAction = 'trash' | 'archive' | 'label' | 'delete'
+
+/**
+ * Outcome of a single cleanup rule run
+ */
+export type CleanupRuleRunStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Cleanup rules - user-defined "recurring exorcisms"
+ * Evaluated by the scheduler after delta sync; matching messages are queued as a cleanup job
+ */
+export const cleanupRules = pgTable(
+  'cleanup_rules',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    mailAccountId: varchar('mail_account_id', { length: 21 })
+      .notNull()
+      .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    filters: text('filters').notNull(), // JSON ExplorerFilters
+    olderThanDays: integer('older_than_days'), // Only match emails older than this (null = any age)
+    action: text('action').$type<CleanupRuleAction>().notNull(),
+    labelId: text('label_id'), // Label to apply for the 'label' action
+    schedule: text('schedule').notNull(), // 5-field cron expression
+    isEnabled: integer('is_enabled').notNull().default(1), // 1 = enabled, 0 = disabled
+    dryRun: integer('dry_run').notNull().default(0), // 1 = only record what would be affected
+    lastRunAt: timestamp('last_run_at', { withTimezone: true }),
+    nextRunAt: timestamp('next_run_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('cleanup_rules_account_idx').on(table.mailAccountId),
+    index('cleanup_rules_enabled_next_run_idx').on(
+      table.mailAccountId,
+      table.isEnabled,
+      table.nextRunAt
+    ),
+  ]
+)
+
+export type CleanupRule = typeof cleanupRules.$inferSelect
+export type NewCleanupRule = typeof cleanupRules.$inferInsert
+
+/**
+ * Cleanup rule run history - one row per evaluation of a rule
+ */
+export const cleanupRuleRuns = pgTable(
+  'cleanup_rule_runs',
+  {
+    id: varchar('id', { length: 21 })
+      .primaryKey()
+      .$defaultFn(() => nanoid()),
+    ruleId: varchar('rule_id', { length: 21 })
+      .notNull()
+      .references(() => cleanupRules.id, { onDelete: 'cascade' }),
+    mailAccountId: varchar('mail_account_id', { length: 21 })
+      .notNull()
+      .references(() => mailAccounts.id, { onDelete: 'cascade' }),
+    jobId: varchar('job_id', { length: 21 }), // Cleanup job queued by this run (null for dry runs and empty matches)
+    dryRun: integer('dry_run').notNull().default(0),
+    status: text('status').$type<CleanupRuleRunStatus>().notNull().default('running'),
+    matchedCount: integer('matched_count').notNull().default(0),
+    matchedSizeBytes: bigint('matched_size_bytes', { mode: 'number' }).notNull().default(0),
+    processedCount: integer('processed_count').notNull().default(0),
+    preview: text('preview'), // JSON sample of matched emails (dry runs)
+    error: text('error'),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('cleanup_rule_runs_rule_idx').on(table.ruleId, table.startedAt),
+    index('cleanup_rule_runs_job_idx').on(table.jobId),
+  ]
+)
+
+export type CleanupRuleRun = typeof cleanupRuleRuns.$inferSelect
+export type NewCleanupRuleRun = typeof cleanupRuleRuns.$inferInsert
+
 /**
  * Chat message role enum
  */
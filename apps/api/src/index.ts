@@ -17,8 +17,22 @@ import explorerRoutes from './routes/explorer'
 import filtersRoutes from './routes/filters'
 import setupRoutes from './routes/setup'
 import chatRoutes from './routes/chat'
+import rulesRoutes from './routes/rules'
+import mailRulesRoutes from './routes/mail-rules'
+import adminRoutes from './routes/admin'
+import jobsRoutes from './routes/jobs'
+import webhooksRoutes from './routes/webhooks'
+import backupsRoutes from './routes/backups'
+import importsRoutes from './routes/imports'
+import attachmentsRoutes from './routes/attachments'
 import { initializeQueue, getQueueStatus, queueType } from './services/queue'
 import { registerSyncWorker, resumeInterruptedJobs } from './services/sync'
+import { registerCleanupWorker, resumeInterruptedCleanupJobs } from './services/cleanup'
+import {
+  registerImportWorker,
+  resumeInterruptedImportJobs,
+  getUploadLimitBytes,
+} from './services/import'
 import { startScheduler } from './services/scheduler'
 import { securityHeaders } from './middleware/security-headers'
 import { printBanner, printStartupInfo, getVersion } from './lib/banner'
@@ -62,6 +76,8 @@ const app = new Hono()
 // Initialize queue and register workers
 initializeQueue()
 registerSyncWorker()
+registerCleanupWorker()
+registerImportWorker()
 logger.debug('[App] Queue and workers initialized')
 
 // Start the scheduler for periodic delta sync
@@ -72,6 +88,12 @@ logger.debug('[App] Scheduler started')
 resumeInterruptedJobs().catch((error) => {
   console.error('[App] Failed to resume interrupted jobs:', error)
 })
+resumeInterruptedCleanupJobs().catch((error) => {
+  console.error('[App] Failed to resume interrupted cleanup jobs:', error)
+})
+resumeInterruptedImportJobs().catch((error) => {
+  console.error('[App] Failed to resume interrupted import jobs:', error)
+})
 
 // CORS configuration
 // In development: Allow localhost:3000 (Vite) and APP_URL
@@ -124,6 +146,14 @@ app.route('/api/gmail', gmailRoutes)
 app.route('/api/explorer', explorerRoutes)
 app.route('/api/filters', filtersRoutes)
 app.route('/api/chat', chatRoutes)
+app.route('/api/rules', rulesRoutes)
+app.route('/api/mail-rules', mailRulesRoutes)
+app.route('/api/admin', adminRoutes)
+app.route('/api/jobs', jobsRoutes)
+app.route('/api/webhooks', webhooksRoutes)
+app.route('/api/backups', backupsRoutes)
+app.route('/api/imports', importsRoutes)
+app.route('/api/attachments', attachmentsRoutes)
 
 // Static file serving for SPA (non-development mode)
 // In development, Vite dev server handles this
@@ -165,6 +195,9 @@ if (!isDevelopment()) {
 
 const port = process.env.PORT ? parseInt(process.env.PORT) : 6616
 
+// Room for the largest import upload plus its multipart framing
+const maxRequestBodySize = getUploadLimitBytes() + 1024 * 1024
+
 // Start the server
 if (!isDevelopment()) {
   // Production mode - use Bun.serve directly
@@ -173,6 +206,7 @@ if (!isDevelopment()) {
     fetch: app.fetch,
     development: false,
     idleTimeout: 120, // 2 minutes for AI streaming responses
+    maxRequestBodySize, // Bun's own default (128 MB) would cut imports short
   })
 
   // Print startup info
@@ -197,5 +231,6 @@ export default isDevelopment()
       port,
       fetch: app.fetch,
       idleTimeout: 120, // 2 minutes for AI streaming responses
+      maxRequestBodySize,
     }
   : undefined
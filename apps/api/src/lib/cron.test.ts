@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'bun:test'
+import { getNextRun, parseCron } from './cron'
+
+// Thursday, January 1st 2026 at midnight (server time)
+const FROM = new Date(2026, 0, 1)
+
+describe('parseCron', () => {
+  test('treats fields starting with * as unrestricted', () => {
+    const schedule = parseCron('0 0 */2 * 1-5')
+    expect(schedule.dayOfMonth.restricted).toBe(false)
+    expect(schedule.dayOfWeek.restricted).toBe(true)
+  })
+
+  test('rejects out-of-range values', () => {
+    expect(() => parseCron('60 * * * *')).toThrow('out of range')
+  })
+})
+
+describe('getNextRun', () => {
+  test('requires both day fields when one is a stepped *', () => {
+    // Odd days of the month that are also Mondays
+    expect(getNextRun('0 0 */2 * 1', FROM)).toEqual(new Date(2026, 0, 5))
+  })
+
+  test('matches either day field when both are restricted', () => {
+    // The 1st of the month or any Monday
+    expect(getNextRun('0 0 1 * 1', FROM)).toEqual(new Date(2026, 0, 5))
+  })
+
+  test('returns null for schedules that never occur', () => {
+    expect(getNextRun('0 0 31 2 *', FROM)).toBeNull()
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Minimal cron expression support for scheduled cleanup rules
+ *
+ * Supports the standard 5-field format: minute hour day-of-month month day-of-week
+ * Each field accepts `*`, single values, ranges (`1-5`), steps (`0-30/10`, or `/15` after `*`)
+ * and comma-separated lists. Day-of-week accepts 0-7 (0 and 7 are Sunday).
+ * As in classic (Vixie) cron, when both day-of-month and day-of-week are restricted,
+ * a day matches if either field matches. A field starting with `*` counts as
+ * unrestricted, even with a step.
+ *
+ * Schedules are evaluated in the server's local time zone.
+ */
+
+interface CronField {
+  values: Set<number>
+  restricted: boolean
+}
+
+export interface CronSchedule {
+  minute: CronField
+  hour: CronField
+  dayOfMonth: CronField
+  month: CronField
+  dayOfWeek: CronField
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+]
+
+// Give up searching for the next run after this many years (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5
+
+function parseNumber(value: string, name: string, min: number, max: number): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${name} value "${value}"`)
+  }
+  const num = parseInt(value, 10)
+  if (num < min || num > max) {
+    throw new Error(`${name} value ${num} is out of range (${min}-${max})`)
+  }
+  return num
+}
+
+function parseField(field: string, name: string, min: number, max: number): CronField {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart = '', stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, name, 1, max)
+
+    let start: number
+    let end: number
+    if (rangePart === '*') {
+      start = min
+      end = max
+    } else if (rangePart.includes('-')) {
+      const [from = '', to = ''] = rangePart.split('-')
+      start = parseNumber(from, name, min, max)
+      end = parseNumber(to, name, min, max)
+      if (start > end) {
+        throw new Error(`Invalid ${name} range "${rangePart}"`)
+      }
+    } else {
+      start = parseNumber(rangePart, name, min, max)
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : max
+    }
+
+    for (let i = start; i <= end; i += step) {
+      values.add(i)
+    }
+  }
+
+  return { values, restricted: !field.startsWith('*') }
+}
+
+/**
+ * Parse a 5-field cron expression
+ * @throws Error with a user-facing message if the expression is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day month weekday')
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts.map((part, i) => {
+    const range = FIELD_RANGES[i]!
+    return parseField(part, range.name, range.min, range.max)
+  }) as [CronField, CronField, CronField, CronField, CronField]
+
+  // Sunday can be written as 0 or 7
+  if (dayOfWeek.values.has(7)) {
+    dayOfWeek.values.add(0)
+    dayOfWeek.values.delete(7)
+  }
+
+  return { minute, hour, dayOfMonth, month, dayOfWeek }
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.dayOfMonth.values.has(date.getDate())
+  const dowMatch = schedule.dayOfWeek.values.has(date.getDay())
+
+  if (schedule.dayOfMonth.restricted && schedule.dayOfWeek.restricted) {
+    return domMatch || dowMatch
+  }
+  return domMatch && dowMatch
+}
+
+/**
+ * Get the next time after `from` that matches the cron expression
+ * @returns The next matching minute, or null if none occurs within the search window
+ */
+export function getNextRun(expression: string, from: Date = new Date()): Date | null {
+  const schedule = parseCron(expression)
+
+  const date = new Date(from.getTime())
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  const limit = new Date(from.getTime())
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS)
+
+  while (date <= limit) {
+    if (!schedule.month.values.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hour.values.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minute.values.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0)
+      continue
+    }
+    return date
+  }
+
+  return null
+}
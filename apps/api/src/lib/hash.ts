@@ -8,7 +8,7 @@ import { createHash, randomBytes, timingSafeEqual } from 'crypto'
  * Create a SHA-256 hash of a string.
  * Returns hex-encoded hash.
  */
-export function sha256(data: string): string {
+export function sha256(data: string | Buffer): string {
   return createHash('sha256').update(data).digest('hex')
 }
 
@@ -63,6 +63,14 @@ export function verifyFingerprint(raw: string, expectedHash: string): boolean {
   return timingSafeEqual(actualBuffer, expectedBuffer)
 }
 
+/**
+ * Compare a secret against its expected value in constant time
+ * (e.g. a webhook verification token).
+ */
+export function secretsMatch(actual: string, expected: string): boolean {
+  return verifyFingerprint(actual, sha256(expected))
+}
+
 /**
  * Hash a refresh token for secure storage.
  * Never store raw refresh tokens in the database.
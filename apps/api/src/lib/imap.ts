@@ -0,0 +1,844 @@
+import { connect as netConnect, type Socket } from 'net'
+import { connect as tlsConnect } from 'tls'
+
+/**
+ * Minimal IMAP4rev1 client
+ *
+ * Covers what the IMAP provider needs: implicit TLS, STARTTLS or plain
+ * connections, LOGIN, tagged commands with their untagged responses and a
+ * parser for the response grammar (atoms, quoted strings, literals, NIL and
+ * parenthesized lists). Commands run one at a time per connection.
+ *
+ * Mailbox names go over the wire in modified UTF-7 (RFC 3501 5.1.3); the
+ * client takes and returns decoded names.
+ */
+
+export type ImapSecurity = 'tls' | 'starttls' | 'none'
+
+export interface ImapConnectionOptions {
+  host: string
+  port: number
+  security: ImapSecurity
+  username: string
+  password: string
+}
+
+/**
+ * A parsed value: atoms and strings as strings, NIL as null, lists as arrays
+ */
+export type ImapValue = string | null | ImapValue[]
+
+export interface ImapResponse {
+  /** Command tag, '*' for untagged and '+' for continuation responses */
+  tag: string
+  /** Message number of numeric responses (* 3 EXISTS, * 3 FETCH ...) */
+  seq?: number
+  /** Response name, upper-cased: OK, NO, BAD, BYE, FETCH, LIST, SEARCH, ... */
+  type: string
+  /** Response code of status responses, e.g. "UIDVALIDITY 3857529045" */
+  code?: string
+  /** Text of status responses */
+  text?: string
+  /** Data after the response name */
+  values: ImapValue[]
+}
+
+export interface ImapMailbox {
+  /** Decoded mailbox name, hierarchy delimiter included */
+  path: string
+  delimiter: string | null
+  /** Name attributes as sent, e.g. \HasNoChildren, \Trash */
+  flags: string[]
+}
+
+export interface ImapSelectResult {
+  exists: number
+  uidValidity: number
+  uidNext: number
+  /** Null when the server or mailbox doesn't support CONDSTORE */
+  highestModSeq: string | null
+}
+
+/**
+ * Items of one FETCH response, keyed by upper-cased item name
+ */
+export interface ImapFetchResult {
+  seq: number
+  uid: number
+  items: Record<string, ImapValue>
+}
+
+/**
+ * Error from an IMAP server or connection
+ * code follows Node's network error codes for dropped connections and
+ * timeouts, so lib/retry treats them as retryable.
+ */
+export class ImapError extends Error {
+  /** Status of the failed command (NO, BAD, BYE), null for connection errors */
+  status: string | null
+  /** Response code, e.g. AUTHENTICATIONFAILED, TRYCREATE */
+  responseCode: string | null
+  code?: string
+
+  constructor(
+    message: string,
+    options: { status?: string; responseCode?: string; code?: string } = {}
+  ) {
+    super(message)
+    this.name = 'ImapError'
+    this.status = options.status ?? null
+    this.responseCode = options.responseCode ?? null
+    this.code = options.code
+  }
+}
+
+// Idle time allowed while a command waits for its response
+const COMMAND_TIMEOUT_MS = 120_000
+
+const CRLF = Buffer.from('\r\n')
+
+const STATUS_RESPONSES = new Set(['OK', 'NO', 'BAD', 'BYE', 'PREAUTH'])
+
+// ============================================================================
+// Modified UTF-7 (mailbox names)
+// ============================================================================
+
+/**
+ * Encode a mailbox name in modified UTF-7: printable ASCII as-is ("&" as "&-"),
+ * everything else as UTF-16 in modified base64 between "&" and "-"
+ */
+export function encodeMailboxName(name: string): string {
+  return name.replace(/&|[^\x20-\x7e]+/g, (chunk) => {
+    if (chunk === '&') return '&-'
+
+    const utf16 = Buffer.alloc(chunk.length * 2)
+    for (let i = 0; i < chunk.length; i++) {
+      utf16.writeUInt16BE(chunk.charCodeAt(i), i * 2)
+    }
+    return `&${utf16.toString('base64').replace(/=+$/, '').replace(/\//g, ',')}-`
+  })
+}
+
+/**
+ * Decode a modified UTF-7 mailbox name
+ */
+export function decodeMailboxName(name: string): string {
+  return name.replace(/&([A-Za-z0-9+,]*)-/g, (_, encoded: string) => {
+    if (encoded === '') return '&'
+
+    const utf16 = Buffer.from(encoded.replace(/,/g, '/'), 'base64')
+    let decoded = ''
+    for (let i = 0; i + 1 < utf16.length; i += 2) {
+      decoded += String.fromCharCode(utf16.readUInt16BE(i))
+    }
+    return decoded
+  })
+}
+
+// ============================================================================
+// Sequence sets
+// ============================================================================
+
+/**
+ * Compress UIDs into a sequence set: [1, 2, 3, 7] -> "1:3,7"
+ */
+export function toSequenceSet(uids: number[]): string {
+  const sorted = [...new Set(uids)].sort((a, b) => a - b)
+  const ranges: string[] = []
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]!
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i]! + 1) i++
+    ranges.push(start === sorted[i] ? `${start}` : `${start}:${sorted[i]}`)
+  }
+
+  return ranges.join(',')
+}
+
+/**
+ * Expand a sequence set without "*": "1:3,7" -> [1, 2, 3, 7]
+ */
+export function parseSequenceSet(set: string): number[] {
+  const uids: number[] = []
+
+  for (const range of set.split(',')) {
+    const [start, end] = range.split(':').map((n) => parseInt(n, 10))
+    if (!start) continue
+    const [low, high] = end && end < start ? [end, start] : [start, end || start]
+    for (let uid = low; uid <= high; uid++) uids.push(uid)
+  }
+
+  return uids
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Length of the first complete response in a buffer (literals included), or -1
+ */
+function completeResponseLength(buffer: Buffer): number {
+  let offset = 0
+
+  for (;;) {
+    const lineEnd = buffer.indexOf(CRLF, offset)
+    if (lineEnd === -1) return -1
+
+    const tail = buffer.toString('latin1', Math.max(offset, lineEnd - 24), lineEnd)
+    const literal = /\{(\d+)\+?\}$/.exec(tail)
+    if (!literal) return lineEnd + 2
+
+    offset = lineEnd + 2 + parseInt(literal[1]!, 10)
+    if (offset > buffer.length) return -1
+  }
+}
+
+class ResponseParser {
+  pos = 0
+
+  constructor(private data: Buffer) {}
+
+  private peek(): string {
+    return this.pos < this.data.length ? String.fromCharCode(this.data[this.pos]!) : ''
+  }
+
+  private atEnd(): boolean {
+    const char = this.peek()
+    return char === '' || char === '\r' || char === '\n'
+  }
+
+  skipSpaces(): void {
+    while (this.peek() === ' ') this.pos++
+  }
+
+  /**
+   * Read up to the next space (the tag, the response name)
+   */
+  readWord(): string {
+    this.skipSpaces()
+    const start = this.pos
+    while (!this.atEnd() && this.peek() !== ' ') this.pos++
+    return this.data.toString('latin1', start, this.pos)
+  }
+
+  /**
+   * Rest of the line as text
+   */
+  readRest(): string {
+    this.skipSpaces()
+    const end = this.data.indexOf(CRLF, this.pos)
+    const text = this.data.toString('utf8', this.pos, end === -1 ? this.data.length : end)
+    this.pos = this.data.length
+    return text
+  }
+
+  /**
+   * Values until the end of the response, or until ")" inside a list
+   */
+  readValues(inList = false): ImapValue[] {
+    const values: ImapValue[] = []
+
+    for (;;) {
+      this.skipSpaces()
+      if (this.atEnd()) {
+        if (inList) throw new ImapError('Unterminated list in IMAP response')
+        return values
+      }
+
+      const char = this.peek()
+      if (char === ')') {
+        if (!inList) throw new ImapError('Unexpected ")" in IMAP response')
+        this.pos++
+        return values
+      }
+
+      if (char === '(') {
+        this.pos++
+        values.push(this.readValues(true))
+      } else if (char === '"') {
+        values.push(this.readQuoted())
+      } else if (char === '{') {
+        values.push(this.readLiteral())
+      } else {
+        const atom = this.readAtom()
+        values.push(atom.toUpperCase() === 'NIL' ? null : atom)
+      }
+    }
+  }
+
+  private readQuoted(): string {
+    this.pos++
+    const bytes: number[] = []
+
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++]!
+      if (byte === 0x22) return Buffer.from(bytes).toString('utf8')
+      bytes.push(byte === 0x5c ? this.data[this.pos++]! : byte)
+    }
+
+    throw new ImapError('Unterminated quoted string in IMAP response')
+  }
+
+  private readLiteral(): string {
+    const close = this.data.indexOf('}', this.pos)
+    const length = parseInt(this.data.toString('latin1', this.pos + 1, close), 10)
+    const start = close + 3 // "}\r\n"
+
+    this.pos = start + length
+    return this.data.toString('utf8', start, start + length)
+  }
+
+  /**
+   * An atom, with any [...] section kept whole: BODY[HEADER.FIELDS (LIST-ID)]
+   */
+  private readAtom(): string {
+    const start = this.pos
+
+    while (!this.atEnd()) {
+      const char = this.peek()
+      if (char === ' ' || char === '(' || char === ')') break
+      if (char === '[') {
+        const close = this.data.indexOf(']', this.pos)
+        this.pos = close === -1 ? this.data.length : close + 1
+        continue
+      }
+      this.pos++
+    }
+
+    return this.data.toString('utf8', start, this.pos)
+  }
+}
+
+/**
+ * Parse one complete response
+ */
+export function parseResponse(data: Buffer): ImapResponse {
+  const parser = new ResponseParser(data)
+  const tag = parser.readWord()
+
+  if (tag === '+') {
+    return { tag, type: '', text: parser.readRest(), values: [] }
+  }
+
+  let word = parser.readWord()
+  let seq: number | undefined
+  if (/^\d+$/.test(word)) {
+    seq = parseInt(word, 10)
+    word = parser.readWord()
+  }
+
+  const type = word.toUpperCase()
+
+  if (STATUS_RESPONSES.has(type)) {
+    const rest = parser.readRest()
+    const code = /^\[([^\]]*)\]\s*/.exec(rest)
+    return {
+      tag,
+      type,
+      ...(code && { code: code[1] }),
+      text: code ? rest.slice(code[0].length) : rest,
+      values: [],
+    }
+  }
+
+  return { tag, ...(seq !== undefined && { seq }), type, values: parser.readValues() }
+}
+
+/**
+ * Turn the item list of a FETCH response into a record
+ */
+function toFetchResult(response: ImapResponse): ImapFetchResult {
+  const list = Array.isArray(response.values[0]) ? response.values[0] : []
+  const items: Record<string, ImapValue> = {}
+
+  for (let i = 0; i + 1 < list.length; i += 2) {
+    const name = list[i]
+    if (typeof name === 'string') items[name.toUpperCase()] = list[i + 1] ?? null
+  }
+
+  return {
+    seq: response.seq ?? 0,
+    uid: parseInt((items.UID as string) || '0', 10),
+    items,
+  }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+interface PendingCommand {
+  tag: string
+  untagged: ImapResponse[]
+  resolve: (result: { response: ImapResponse; untagged: ImapResponse[] }) => void
+  reject: (error: Error) => void
+  onContinue?: () => void
+}
+
+/**
+ * Command part sent as a synchronizing literal ({n} + continuation)
+ */
+class Literal {
+  constructor(readonly data: Buffer) {}
+}
+
+/**
+ * A string argument: quoted when it's plain ASCII, otherwise a literal
+ */
+function astring(value: string): string | Literal {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? `"${value.replace(/(["\\])/g, '\\$1')}"`
+    : new Literal(Buffer.from(value, 'utf8'))
+}
+
+function mailbox(name: string): string {
+  return astring(encodeMailboxName(name)) as string
+}
+
+export class ImapClient {
+  /** Upper-cased capabilities */
+  capabilities = new Set<string>()
+
+  private socket!: Socket
+  private buffer: Buffer = Buffer.alloc(0)
+  private tagCounter = 0
+  private pending: PendingCommand | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+  private greeting: Promise<ImapResponse>
+  private resolveGreeting!: (response: ImapResponse) => void
+  private rejectGreeting!: (error: Error) => void
+  private closedError: ImapError | null = null
+  private enabled = new Set<string>()
+
+  private constructor(private options: ImapConnectionOptions) {
+    this.greeting = new Promise((resolve, reject) => {
+      this.resolveGreeting = resolve
+      this.rejectGreeting = reject
+    })
+    // Avoid unhandled rejections when the connection fails before anyone waits
+    this.greeting.catch(() => {})
+  }
+
+  /**
+   * Connect and log in
+   */
+  static async connect(options: ImapConnectionOptions): Promise<ImapClient> {
+    const client = new ImapClient(options)
+    try {
+      await client.open()
+    } catch (error) {
+      client.socket?.destroy()
+      throw error
+    }
+    return client
+  }
+
+  private async open(): Promise<void> {
+    const { host, port, security } = this.options
+
+    const socket =
+      security === 'tls' ? tlsConnect({ host, port, servername: host }) : netConnect({ host, port })
+    this.attach(socket)
+    // A server that accepts the connection but never greets must not hang us forever
+    socket.setTimeout(COMMAND_TIMEOUT_MS)
+
+    const greeting = await this.greeting
+    socket.setTimeout(0)
+    if (greeting.type === 'BYE') {
+      throw new ImapError(`IMAP server refused the connection: ${greeting.text}`, {
+        status: 'BYE',
+      })
+    }
+    this.readCapabilityCode(greeting)
+
+    if (security === 'starttls') {
+      await this.command('STARTTLS')
+      const plain = this.socket
+      plain.removeAllListeners('data')
+      this.attach(tlsConnect({ socket: plain, servername: host }))
+      // Capabilities before STARTTLS can't be trusted
+      this.capabilities.clear()
+    }
+
+    if (greeting.type !== 'PREAUTH') {
+      if (this.capabilities.has('LOGINDISABLED')) {
+        throw new ImapError('The IMAP server does not allow LOGIN on this connection', {
+          status: 'NO',
+        })
+      }
+
+      try {
+        const { response } = await this.command(
+          'LOGIN ',
+          astring(this.options.username),
+          ' ',
+          astring(this.options.password)
+        )
+        this.readCapabilityCode(response)
+      } catch (error) {
+        // Servers without RFC 5530 response codes just say NO
+        if (error instanceof ImapError && error.status === 'NO' && !error.responseCode) {
+          error.responseCode = 'AUTHENTICATIONFAILED'
+        }
+        throw error
+      }
+    }
+
+    if (this.capabilities.size === 0) {
+      await this.refreshCapabilities()
+    }
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket
+    socket.on('data', (chunk: Buffer) => this.onData(chunk))
+    socket.on('timeout', () => {
+      socket.destroy(new ImapError('IMAP server did not respond in time', { code: 'ETIMEDOUT' }))
+    })
+    socket.on('error', (error: Error & { code?: string }) => {
+      this.fail(
+        error instanceof ImapError
+          ? error
+          : new ImapError(`IMAP connection error: ${error.message}`, {
+              code: error.code || 'ECONNRESET',
+            })
+      )
+    })
+    socket.on('close', () => {
+      this.fail(new ImapError('IMAP connection closed', { code: 'ECONNRESET' }))
+    })
+  }
+
+  private fail(error: ImapError): void {
+    if (!this.closedError) this.closedError = error
+    this.rejectGreeting(error)
+    this.pending?.reject(error)
+    this.pending = null
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk])
+
+    for (;;) {
+      const length = completeResponseLength(this.buffer)
+      if (length === -1) return
+
+      const data = this.buffer.subarray(0, length)
+      this.buffer = this.buffer.subarray(length)
+
+      let response: ImapResponse
+      try {
+        response = parseResponse(data)
+      } catch (error) {
+        this.socket.destroy(error as Error)
+        return
+      }
+      this.onResponse(response)
+    }
+  }
+
+  private onResponse(response: ImapResponse): void {
+    if (response.tag === '*' && !this.pending) {
+      this.resolveGreeting(response)
+      if (response.type === 'BYE') {
+        this.closedError = new ImapError(`IMAP server closed the connection: ${response.text}`, {
+          status: 'BYE',
+          code: 'ECONNRESET',
+        })
+      }
+      return
+    }
+
+    const pending = this.pending
+    if (!pending) return
+
+    if (response.tag === '*') {
+      pending.untagged.push(response)
+    } else if (response.tag === '+') {
+      pending.onContinue?.()
+    } else if (response.tag === pending.tag) {
+      this.pending = null
+      this.socket.setTimeout(0)
+
+      if (response.type === 'OK') {
+        pending.resolve({ response, untagged: pending.untagged })
+      } else {
+        pending.reject(
+          new ImapError(response.text || `IMAP command failed (${response.type})`, {
+            status: response.type,
+            responseCode: response.code?.split(' ')[0]?.toUpperCase(),
+          })
+        )
+      }
+    }
+  }
+
+  /**
+   * Run a command and collect its untagged responses
+   * Throws ImapError when the server answers NO or BAD.
+   */
+  command(
+    ...parts: Array<string | Literal>
+  ): Promise<{ response: ImapResponse; untagged: ImapResponse[] }> {
+    const run = () =>
+      new Promise<{ response: ImapResponse; untagged: ImapResponse[] }>((resolve, reject) => {
+        if (this.closedError) {
+          reject(this.closedError)
+          return
+        }
+
+        const tag = `A${++this.tagCounter}`
+        const chunks: Array<string | Literal> = [`${tag} `, ...parts]
+        let index = 0
+
+        // Send up to and including the next literal's length, the rest after "+"
+        const sendNext = () => {
+          let text = ''
+          while (index < chunks.length) {
+            const chunk = chunks[index++]!
+            if (chunk instanceof Literal) {
+              this.socket.write(`${text}{${chunk.data.length}}\r\n`)
+              const data = chunk.data
+              this.pending!.onContinue = () => {
+                this.socket.write(data)
+                sendNext()
+              }
+              return
+            }
+            text += chunk
+          }
+          this.socket.write(`${text}\r\n`)
+        }
+
+        this.pending = { tag, untagged: [], resolve, reject }
+        this.socket.setTimeout(COMMAND_TIMEOUT_MS)
+        sendNext()
+      })
+
+    const result = this.queue.then(run, run)
+    this.queue = result.catch(() => {})
+    return result
+  }
+
+  private readCapabilityCode(response: ImapResponse): void {
+    if (response.code?.toUpperCase().startsWith('CAPABILITY ')) {
+      this.capabilities = new Set(response.code.toUpperCase().split(' ').slice(1))
+    }
+  }
+
+  private async refreshCapabilities(): Promise<void> {
+    const { untagged } = await this.command('CAPABILITY')
+    const capability = untagged.find((r) => r.type === 'CAPABILITY')
+    this.capabilities = new Set(
+      (capability?.values || [])
+        .filter((v): v is string => typeof v === 'string')
+        .map((v) => v.toUpperCase())
+    )
+  }
+
+  hasCapability(name: string): boolean {
+    return this.capabilities.has(name.toUpperCase())
+  }
+
+  /**
+   * Enable an extension (RFC 5161), e.g. QRESYNC. Returns whether it is enabled.
+   */
+  async enable(extension: string): Promise<boolean> {
+    if (this.enabled.has(extension)) return true
+    if (!this.hasCapability('ENABLE') || !this.hasCapability(extension)) return false
+
+    const { untagged } = await this.command(`ENABLE ${extension}`)
+    const enabled = untagged
+      .filter((r) => r.type === 'ENABLED')
+      .some((r) => r.values.some((v) => typeof v === 'string' && v.toUpperCase() === extension))
+
+    if (enabled) this.enabled.add(extension)
+    return enabled
+  }
+
+  isEnabled(extension: string): boolean {
+    return this.enabled.has(extension)
+  }
+
+  /**
+   * List all mailboxes
+   */
+  async list(): Promise<ImapMailbox[]> {
+    const { untagged } = await this.command('LIST "" "*"')
+
+    return untagged
+      .filter((r) => r.type === 'LIST')
+      .map((r) => {
+        const [flags, delimiter, name] = r.values
+        return {
+          path: decodeMailboxName(typeof name === 'string' ? name : ''),
+          delimiter: typeof delimiter === 'string' ? delimiter : null,
+          flags: Array.isArray(flags)
+            ? flags.filter((f): f is string => typeof f === 'string')
+            : [],
+        }
+      })
+  }
+
+  /**
+   * STATUS of a mailbox that isn't selected
+   */
+  async status(path: string, items: string[]): Promise<Record<string, number>> {
+    const { untagged } = await this.command(`STATUS ${mailbox(path)} (${items.join(' ')})`)
+    const status = untagged.find((r) => r.type === 'STATUS')
+    const list = status && Array.isArray(status.values[1]) ? status.values[1] : []
+
+    const result: Record<string, number> = {}
+    for (let i = 0; i + 1 < list.length; i += 2) {
+      result[String(list[i]).toUpperCase()] = parseInt(String(list[i + 1]), 10) || 0
+    }
+    return result
+  }
+
+  /**
+   * Select a mailbox (EXAMINE when read-only), with CONDSTORE when the server has it
+   */
+  async select(path: string, options: { readOnly?: boolean } = {}): Promise<ImapSelectResult> {
+    const condstore = this.hasCapability('CONDSTORE') ? ' (CONDSTORE)' : ''
+    const { untagged } = await this.command(
+      `${options.readOnly ? 'EXAMINE' : 'SELECT'} ${mailbox(path)}${condstore}`
+    )
+
+    const result: ImapSelectResult = { exists: 0, uidValidity: 0, uidNext: 0, highestModSeq: null }
+    for (const response of untagged) {
+      if (response.type === 'EXISTS') result.exists = response.seq ?? 0
+
+      const [name, value] = (response.code || '').split(' ')
+      switch (name?.toUpperCase()) {
+        case 'UIDVALIDITY':
+          result.uidValidity = parseInt(value!, 10) || 0
+          break
+        case 'UIDNEXT':
+          result.uidNext = parseInt(value!, 10) || 0
+          break
+        case 'HIGHESTMODSEQ':
+          result.highestModSeq = value || null
+          break
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * UID SEARCH, returns matching UIDs
+   */
+  async uidSearch(criteria: string): Promise<number[]> {
+    const { untagged } = await this.command(`UID SEARCH ${criteria}`)
+
+    return untagged
+      .filter((r) => r.type === 'SEARCH')
+      .flatMap((r) => r.values)
+      .map((v) => parseInt(String(v), 10))
+      .filter((uid) => uid > 0)
+  }
+
+  /**
+   * UID FETCH, with optional modifiers such as "CHANGEDSINCE 123 VANISHED"
+   * UIDs reported by VANISHED (EARLIER) are returned separately.
+   */
+  async uidFetch(
+    set: string,
+    items: string,
+    modifiers?: string
+  ): Promise<{ messages: ImapFetchResult[]; vanished: number[] }> {
+    const { untagged } = await this.command(
+      `UID FETCH ${set} (${items})${modifiers ? ` (${modifiers})` : ''}`
+    )
+
+    const vanished = untagged
+      .filter((r) => r.type === 'VANISHED')
+      .flatMap((r) => parseSequenceSet(String(r.values[r.values.length - 1] ?? '')))
+
+    return {
+      messages: untagged.filter((r) => r.type === 'FETCH').map(toFetchResult),
+      vanished,
+    }
+  }
+
+  /**
+   * UID STORE without the untagged FETCH echo, e.g. uidStore('1:3', '+FLAGS', ['\\Seen'])
+   */
+  async uidStore(set: string, action: '+FLAGS' | '-FLAGS', flags: string[]): Promise<void> {
+    await this.command(`UID STORE ${set} ${action}.SILENT (${flags.join(' ')})`)
+  }
+
+  /**
+   * Move messages of the selected mailbox to another mailbox
+   *
+   * Uses MOVE (RFC 6851) when available, otherwise COPY + \Deleted + expunge.
+   * Returns the UIDs in the destination (from COPYUID), empty when the server
+   * doesn't report them.
+   */
+  async uidMove(uids: number[], destination: string): Promise<Map<number, number>> {
+    if (uids.length === 0) return new Map()
+    const set = toSequenceSet(uids)
+
+    let responses: ImapResponse[]
+    if (this.hasCapability('MOVE')) {
+      const { response, untagged } = await this.command(`UID MOVE ${set} ${mailbox(destination)}`)
+      responses = [...untagged, response]
+    } else {
+      const { response } = await this.command(`UID COPY ${set} ${mailbox(destination)}`)
+      responses = [response]
+      await this.uidStore(set, '+FLAGS', ['\\Deleted'])
+      await this.uidExpunge(uids)
+    }
+
+    const moved = new Map<number, number>()
+    for (const response of responses) {
+      const copyUid = /^COPYUID \d+ (\S+) (\S+)$/i.exec(response.code || '')
+      if (!copyUid) continue
+
+      const source = parseSequenceSet(copyUid[1]!)
+      const target = parseSequenceSet(copyUid[2]!)
+      source.forEach((uid, i) => {
+        if (target[i]) moved.set(uid, target[i]!)
+      })
+    }
+
+    return moved
+  }
+
+  /**
+   * Expunge messages of the selected mailbox that are flagged \Deleted
+   * Without UIDPLUS this falls back to EXPUNGE, which also removes any other
+   * message flagged \Deleted in the mailbox.
+   */
+  async uidExpunge(uids: number[]): Promise<void> {
+    if (uids.length === 0) return
+    if (this.hasCapability('UIDPLUS')) {
+      await this.command(`UID EXPUNGE ${toSequenceSet(uids)}`)
+    } else {
+      await this.command('EXPUNGE')
+    }
+  }
+
+  async createMailbox(path: string): Promise<void> {
+    await this.command(`CREATE ${mailbox(path)}`)
+  }
+
+  async renameMailbox(path: string, newPath: string): Promise<void> {
+    await this.command(`RENAME ${mailbox(path)} ${mailbox(newPath)}`)
+  }
+
+  async deleteMailbox(path: string): Promise<void> {
+    await this.command(`DELETE ${mailbox(path)}`)
+  }
+
+  /**
+   * Log out and close the connection (errors are ignored, the connection is done either way)
+   */
+  async logout(): Promise<void> {
+    if (!this.closedError) {
+      await this.command('LOGOUT').catch(() => {})
+    }
+    this.socket.destroy()
+  }
+}
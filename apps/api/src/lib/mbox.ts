@@ -0,0 +1,178 @@
+import { createReadStream } from 'fs'
+import { createInterface } from 'readline'
+
+/**
+ * mbox and RFC 822 helpers
+ *
+ * Entries are written mboxrd style: a "From " separator line, LF line endings,
+ * and every body line starting with ">*From " quoted with one more ">".
+ * All conversions go through latin1, which maps bytes 1:1, so 8-bit content
+ * survives the round trip.
+ */
+
+/**
+ * Date in the asctime() form used by mbox "From " lines: "Tue Oct 14 09:05:00 2025"
+ */
+function asctime(date: Date): string {
+  const [weekday, day, month, year, time] = date.toUTCString().replace(',', '').split(' ')
+  return `${weekday} ${month} ${day!.padStart(2, ' ')} ${time} ${year}`
+}
+
+/**
+ * Build an mbox entry from a raw message, with a trailing blank line
+ */
+export function toMboxEntry(raw: Buffer, date: Date): Buffer {
+  const body = raw
+    .toString('latin1')
+    .replace(/\r\n/g, '\n')
+    .replace(/^(>*From )/gm, '>$1')
+
+  const entry = `From MAILER-DAEMON ${asctime(date)}\n${body}${body.endsWith('\n') ? '' : '\n'}\n`
+  return Buffer.from(entry, 'latin1')
+}
+
+/**
+ * Reverse toMboxEntry: drop the separator line and the quoting
+ */
+export function fromMboxEntry(entry: Buffer): Buffer {
+  const text = entry.toString('latin1')
+  const body = text
+    .slice(text.indexOf('\n') + 1)
+    .replace(/\n$/, '')
+    .replace(/^>(>*From )/gm, '$1')
+
+  return Buffer.from(body, 'latin1')
+}
+
+/**
+ * Whether a file starts like an mbox (a "From " separator line) rather than a single message
+ */
+export function isMboxContent(head: Buffer): boolean {
+  return head.subarray(0, 5).toString('latin1') === 'From '
+}
+
+/**
+ * Read the messages of an mbox file one at a time, without loading the whole file
+ *
+ * A message starts at a "From " line at the top of the file or after a blank line.
+ * Messages come back unquoted with LF line endings.
+ */
+export async function* readMboxMessages(path: string): AsyncGenerator<Buffer> {
+  const input = createReadStream(path, { encoding: 'latin1' })
+  const lines = createInterface({ input, crlfDelay: Infinity })
+
+  let current: string[] | null = null
+  let previousBlank = true
+
+  const finish = (message: string[]): Buffer => {
+    // The blank line before the next separator belongs to the mbox, not the message
+    if (message.length > 0 && message[message.length - 1] === '') message.pop()
+    return Buffer.from(message.join('\n') + '\n', 'latin1')
+  }
+
+  try {
+    for await (const line of lines) {
+      if (previousBlank && line.startsWith('From ')) {
+        if (current && current.length > 0) yield finish(current)
+        current = []
+      } else if (current) {
+        current.push(line.replace(/^>(>*From )/, '$1'))
+      }
+      previousBlank = line === ''
+    }
+
+    if (current && current.length > 0) yield finish(current)
+  } finally {
+    // Also runs when the caller stops early
+    lines.close()
+    input.destroy()
+  }
+}
+
+/**
+ * Get a header from a raw message (first occurrence, folded lines joined), or null
+ */
+export function getHeader(raw: Buffer, name: string): string | null {
+  const text = raw.toString('latin1')
+  const end = text.search(/\r?\n\r?\n/)
+  const lines = (end === -1 ? text : text.slice(0, end)).split(/\r?\n/)
+  const prefix = `${name.toLowerCase()}:`
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i]!.toLowerCase().startsWith(prefix)) continue
+
+    let value = lines[i]!.slice(prefix.length)
+    while (i + 1 < lines.length && /^[ \t]/.test(lines[i + 1]!)) {
+      value += ' ' + lines[++i]!.trim()
+    }
+    return value.trim()
+  }
+
+  return null
+}
+
+// RFC 2047 encoded-word; RFC 2231 allows a language after the charset (=?UTF-8*en?Q?...?=)
+const ENCODED_WORD = /=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g
+
+/**
+ * Decode bytes in a MIME charset, falling back to latin1 for unknown charsets
+ */
+export function decodeCharset(bytes: Buffer, charset: string): string {
+  try {
+    // Bun's types only list the encodings it names; the decoder accepts any WHATWG label
+    return new TextDecoder(charset as Bun.Encoding).decode(bytes)
+  } catch {
+    // Unknown charset
+    return bytes.toString('latin1')
+  }
+}
+
+/**
+ * Decode the encoded-words in a header value: "=?UTF-8?B?SGk=?= there" -> "Hi there"
+ *
+ * Adjacent encoded-words in the same charset are joined before decoding, so a
+ * multi-byte character split across two words survives, and the whitespace
+ * between encoded-words is dropped.
+ */
+export function decodeEncodedWords(value: string): string {
+  let result = ''
+  let last = 0
+  let charset: string | null = null
+  let bytes: Buffer[] = []
+
+  const flush = () => {
+    if (charset) result += decodeCharset(Buffer.concat(bytes), charset)
+    charset = null
+    bytes = []
+  }
+
+  for (const match of value.matchAll(ENCODED_WORD)) {
+    const [word, wordCharset, encoding, text] = match as unknown as [string, string, string, string]
+    const between = value.slice(last, match.index)
+
+    if (!charset || !/^\s*$/.test(between)) {
+      flush()
+      result += between
+    } else if (charset !== wordCharset.toLowerCase()) {
+      flush()
+    }
+
+    charset = wordCharset.toLowerCase()
+    bytes.push(
+      encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+            text
+              .replace(/_/g, ' ')
+              .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+                String.fromCharCode(parseInt(hex, 16))
+              ),
+            'latin1'
+          )
+    )
+    last = match.index + word.length
+  }
+
+  flush()
+  return result + value.slice(last)
+}
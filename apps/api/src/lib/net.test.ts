@@ -0,0 +1,57 @@
+import { describe, expect, test } from 'bun:test'
+import type { LookupAddress } from 'dns'
+import { isPublicAddress, publicLookup } from './net'
+
+describe('isPublicAddress', () => {
+  test.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '224.0.0.1',
+    '255.255.255.255',
+    '::',
+    '::1',
+    'fc00::1',
+    'fd12:3456::1',
+    'fe80::1',
+    'ff02::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    '64:ff9b::10.0.0.1',
+    'not-an-ip',
+  ])('%s is not public', (address) => {
+    expect(isPublicAddress(address)).toBe(false)
+  })
+
+  test.each(['8.8.8.8', '172.32.0.1', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8'])(
+    '%s is public',
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true)
+    }
+  )
+})
+
+/**
+ * Run publicLookup the way http.request does
+ */
+function resolve(hostname: string, all: boolean): Promise<string | LookupAddress[]> {
+  return new Promise((done, fail) => {
+    publicLookup(hostname, { all }, (error, address) => (error ? fail(error) : done(address)))
+  })
+}
+
+describe('publicLookup', () => {
+  test('hands out the checked public address', async () => {
+    expect(await resolve('8.8.8.8', false)).toBe('8.8.8.8')
+    expect(await resolve('8.8.8.8', true)).toEqual([{ address: '8.8.8.8', family: 4 }])
+  })
+
+  test.each(['localhost', '127.0.0.1', '169.254.169.254'])('refuses %s', async (hostname) => {
+    await expect(resolve(hostname, false)).rejects.toThrow('private or reserved')
+  })
+})
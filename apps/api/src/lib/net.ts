@@ -0,0 +1,184 @@
+/**
+ * Network helpers for requests to URLs taken from email headers
+ *
+ * Those URLs are chosen by whoever sent the email, so the server must not be
+ * talked into calling loopback, private, link-local (cloud metadata) or other
+ * reserved addresses on their behalf.
+ */
+
+import { lookup } from 'dns/promises'
+import type { LookupAddress } from 'dns'
+import { request as httpRequest, type IncomingMessage, type RequestOptions } from 'node:http'
+import { request as httpsRequest } from 'node:https'
+import { isIP, type LookupFunction } from 'net'
+
+// IPv4 ranges that are not reachable on the public internet (RFC 6890 and friends)
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata endpoints
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.88.99.0', 24], // 6to4 relay anycast
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+]
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isPublicIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+  return !PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits)
+    const start = ipv4ToNumber(base)
+    return value >= start && value < start + size
+  })
+}
+
+/**
+ * Expand an IPv6 address to its 8 groups
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase()
+
+  // Embedded IPv4 (::ffff:1.2.3.4) becomes two groups
+  const v4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/)
+  if (v4) {
+    const value = ipv4ToNumber(v4[1]!)
+    text =
+      text.slice(0, -v4[1]!.length) +
+      `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`
+  }
+
+  const [head = '', tail] = text.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const missing = 8 - headGroups.length - tailGroups.length
+  const groups = [
+    ...headGroups,
+    ...(tail !== undefined ? Array(missing).fill('0') : []),
+    ...tailGroups,
+  ]
+  return groups.map((group) => parseInt(group, 16) || 0)
+}
+
+function isPublicIpv6(address: string): boolean {
+  const groups = ipv6Groups(address)
+  const [first = 0] = groups
+
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) reach an IPv4 address
+  const mapped = groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff
+  const nat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)
+  if (mapped || nat64) {
+    const v4 = `${groups[6]! >> 8}.${groups[6]! & 0xff}.${groups[7]! >> 8}.${groups[7]! & 0xff}`
+    return isPublicIpv4(v4)
+  }
+
+  if (groups.slice(0, 7).every((g) => g === 0)) return false // :: and ::1
+  if ((first & 0xfe00) === 0xfc00) return false // unique local fc00::/7
+  if ((first & 0xffc0) === 0xfe80) return false // link-local fe80::/10
+  if ((first & 0xff00) === 0xff00) return false // multicast ff00::/8
+  if (first === 0x2001 && groups[1] === 0x0db8) return false // documentation
+  if (first === 0x0100 && groups.slice(1, 4).every((g) => g === 0)) return false // discard
+  return true
+}
+
+/**
+ * Whether an IP address is on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = isIP(address)
+  if (version === 4) return isPublicIpv4(address)
+  if (version === 6) return isPublicIpv6(address)
+  return false
+}
+
+function privateAddressError(hostname: string): Error {
+  return new Error(`${hostname} resolves to a private or reserved address`)
+}
+
+/**
+ * Resolve a host name, failing unless every address it resolves to is public
+ */
+async function resolvePublicAddresses(hostname: string): Promise<LookupAddress[]> {
+  const addresses = await lookup(hostname, { all: true, verbatim: true })
+  if (addresses.length === 0 || !addresses.every((entry) => isPublicAddress(entry.address))) {
+    throw privateAddressError(hostname)
+  }
+  return addresses
+}
+
+/**
+ * dns.lookup for http(s).request that only hands out public addresses
+ *
+ * The request connects to the address checked here, so a host can't pass the
+ * check with a public address and be reached on a private one (DNS rebinding).
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname).then(
+    (addresses) => {
+      if (options.all) {
+        callback(null, addresses)
+      } else {
+        callback(null, addresses[0]!.address, addresses[0]!.family)
+      }
+    },
+    (error: NodeJS.ErrnoException) => callback(error, '')
+  )
+}
+
+export interface PublicRequestInit {
+  method: string
+  headers: Record<string, string>
+  body?: string
+  timeoutMs: number
+  // Let loopback hosts through (development stubs)
+  allowLoopback?: boolean
+}
+
+/**
+ * Send a request to a public address and return the response status
+ *
+ * IP literals are checked up front (they connect without a lookup), host names
+ * through publicLookup. Redirects are not followed and the body is discarded.
+ */
+export function requestPublicUrl(
+  url: string,
+  init: PublicRequestInit
+): Promise<{ status: number }> {
+  const target = new URL(url)
+  const host = target.hostname.replace(/^\[|\]$/g, '')
+
+  return new Promise((resolve, reject) => {
+    if (!init.allowLoopback && isIP(host) && !isPublicAddress(host)) {
+      reject(privateAddressError(target.hostname))
+      return
+    }
+
+    const options: RequestOptions = {
+      method: init.method,
+      headers: init.headers,
+      lookup: init.allowLoopback ? undefined : publicLookup,
+      signal: AbortSignal.timeout(init.timeoutMs),
+    }
+    const onResponse = (response: IncomingMessage) => {
+      response.resume()
+      resolve({ status: response.statusCode ?? 0 })
+    }
+    const request =
+      target.protocol === 'https:'
+        ? httpsRequest(target, options, onResponse)
+        : httpRequest(target, options, onResponse)
+    request.on('error', reject)
+    request.end(init.body)
+  })
+}
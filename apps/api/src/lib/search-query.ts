@@ -0,0 +1,71 @@
+/**
+ * Parser for the `search` filter query syntax
+ *
+ * - `invoice receipt` - every word must match (AND is implicit, the keyword is accepted)
+ * - `invoice OR receipt` - either side matches (AND binds tighter than OR)
+ * - `"order shipped"` - exact phrase
+ * - `-newsletter`, `-"weekly digest"` - exclude messages that match
+ * - `from:amazon`, `subject:"your order"`, `filename:pdf` - restrict a word or phrase to one field
+ *
+ * Words are prefix matches ("verif" finds "verification"); quoted phrases are exact.
+ * Text is split into letters/digits only, mirroring the search index tokenizers.
+ */
+
+/**
+ * Field a term is restricted to ('any' = subject, sender, filenames and snippet)
+ */
+export type SearchField = 'any' | 'from' | 'subject' | 'filename'
+
+export interface SearchTerm {
+  field: SearchField
+  tokens: string[] // Lowercased words, matched as a phrase when more than one
+  prefix: boolean // Last token matches as a prefix (unquoted terms)
+  negated: boolean
+}
+
+/**
+ * Parsed query: OR of groups, each group an AND of terms
+ */
+export type SearchQuery = SearchTerm[][]
+
+const TERM_PATTERN = /(-?)(?:(from|subject|filename):)?(?:"([^"]*)"?|(\S+))/gi
+
+/**
+ * Split text into lowercased words (letters and digits)
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+/**
+ * Parse a search string into OR-groups of terms
+ * Returns an empty array when the query has no searchable words.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const groups: SearchQuery = [[]]
+
+  for (const match of input.matchAll(TERM_PATTERN)) {
+    const [, minus, field, quoted, bare] = match
+    const isKeyword = !minus && !field && bare !== undefined
+
+    if (isKeyword && bare === 'OR') {
+      groups.push([])
+      continue
+    }
+    if (isKeyword && bare === 'AND') {
+      continue
+    }
+
+    const tokens = tokenizeSearchText(quoted ?? bare ?? '')
+    if (tokens.length === 0) continue
+
+    groups[groups.length - 1]!.push({
+      field: (field?.toLowerCase() as SearchField | undefined) ?? 'any',
+      tokens,
+      prefix: quoted === undefined,
+      negated: minus === '-',
+    })
+  }
+
+  return groups.filter((group) => group.length > 0)
+}
@@ -2,7 +2,7 @@
  * Latency-aware adaptive rate limiting for Gmail API
  *
  * Problem: Gmail API has a 250 quota units/second limit (50 msg/sec for messages.get).
- * With 20 concurrent requests and varying Google response latency:
+ * With 20 messages per cycle (parallel requests or one HTTP batch) and varying latency:
  * - If latency is 400ms: 20/0.4 = 50 msg/sec (at limit)
  * - If latency is 300ms: 20/0.3 = 67 msg/sec (over limit!)
  *
@@ -313,17 +313,22 @@ export class AdaptiveThrottle {
  * - Max 50 requests/second theoretical
  *
  * This throttle uses latency-aware rate limiting:
+ * - Concurrency is the number of messages per HTTP batch request (up to 100)
  * - Tracks response latency from Google
  * - Dynamically adjusts delay to maintain ~47 msg/sec
  * - Backs off aggressively on rate limit errors
  * - Gradually recovers after successful periods
+ *
+ * The throttle only paces one caller. The quota shared with other jobs on the
+ * same account is enforced by the quota broker (services/gmail-quota).
  */
 export function createGmailThrottle(): AdaptiveThrottle {
   return new AdaptiveThrottle({
     minDelay: 0, // Allow zero delay when latency is high enough
     initialDelay: 100, // Conservative start until we have latency data
     maxDelay: 60000, // Max 60 second delay when rate limited
-    concurrency: 20, // Matches CONCURRENCY in fetchMessageDetails
+    concurrency: 50, // Messages per batch request in fetchMessageDetails
+    maxConcurrency: 100, // Gmail's batch request limit
     targetRate: 47, // Target 47 msg/sec (6% buffer under 50 limit)
     minTargetRate: 30, // Don't go below 30 msg/sec even after rate limits
     latencySmoothing: 0.3, // EMA smoothing factor
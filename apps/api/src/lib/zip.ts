@@ -0,0 +1,139 @@
+/**
+ * Minimal streaming zip writer
+ *
+ * Entries are stored without compression (most attachments - images, PDFs,
+ * office files - are compressed already) and written as they arrive, so only
+ * one file is held in memory at a time. No zip64: archives must stay under 4 GB.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Buffer
+  date?: Date
+}
+
+// General purpose flag bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800
+
+/**
+ * Date and time in MS-DOS format (local time, 2-second resolution, from 1980)
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Replace characters that aren't allowed in file names on common systems
+ */
+export function sanitizeFileName(name: string): string {
+  const safe = [...name]
+    .map((char) => (char < ' ' || '\\/:*?"<>|'.includes(char) ? '_' : char))
+    .join('')
+    .trim()
+  return safe || 'attachment'
+}
+
+/**
+ * Make entry names unique: "report.pdf", "report (2).pdf", ...
+ */
+export function uniqueZipName(name: string, used: Set<string>): string {
+  const safe = sanitizeFileName(name)
+  let candidate = safe
+  let counter = 2
+
+  while (used.has(candidate.toLowerCase())) {
+    const dot = safe.lastIndexOf('.')
+    candidate =
+      dot > 0 ? `${safe.slice(0, dot)} (${counter})${safe.slice(dot)}` : `${safe} (${counter})`
+    counter++
+  }
+
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+/**
+ * Stream a zip archive of the given entries
+ * Entries that fail to load can be skipped by the source; an error ends the stream.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]()
+  const central: Buffer[] = []
+  let offset = 0
+  let count = 0
+  let finished = false
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (finished) return
+
+      try {
+        const next = await iterator.next()
+
+        if (next.done) {
+          const directory = Buffer.concat(central)
+          const end = Buffer.alloc(22)
+          end.writeUInt32LE(0x06054b50, 0)
+          end.writeUInt16LE(count, 8)
+          end.writeUInt16LE(count, 10)
+          end.writeUInt32LE(directory.length, 12)
+          end.writeUInt32LE(offset, 16)
+
+          controller.enqueue(directory)
+          controller.enqueue(end)
+          controller.close()
+          finished = true
+          return
+        }
+
+        const { name, data, date = new Date() } = next.value
+        const nameBytes = Buffer.from(name, 'utf8')
+        const crc = Bun.hash.crc32(data)
+        const dos = dosDateTime(date)
+
+        const local = Buffer.alloc(30)
+        local.writeUInt32LE(0x04034b50, 0)
+        local.writeUInt16LE(20, 4) // Version needed
+        local.writeUInt16LE(UTF8_FLAG, 6)
+        local.writeUInt16LE(0, 8) // Stored
+        local.writeUInt16LE(dos.time, 10)
+        local.writeUInt16LE(dos.date, 12)
+        local.writeUInt32LE(crc, 14)
+        local.writeUInt32LE(data.length, 18)
+        local.writeUInt32LE(data.length, 22)
+        local.writeUInt16LE(nameBytes.length, 26)
+
+        const header = Buffer.alloc(46)
+        header.writeUInt32LE(0x02014b50, 0)
+        header.writeUInt16LE(20, 4) // Version made by
+        header.writeUInt16LE(20, 6) // Version needed
+        header.writeUInt16LE(UTF8_FLAG, 8)
+        header.writeUInt16LE(0, 10) // Stored
+        header.writeUInt16LE(dos.time, 12)
+        header.writeUInt16LE(dos.date, 14)
+        header.writeUInt32LE(crc, 16)
+        header.writeUInt32LE(data.length, 20)
+        header.writeUInt32LE(data.length, 24)
+        header.writeUInt16LE(nameBytes.length, 28)
+        header.writeUInt32LE(offset, 42) // Offset of the local header
+        central.push(header, nameBytes)
+
+        controller.enqueue(Buffer.concat([local, nameBytes]))
+        controller.enqueue(data)
+        offset += local.length + nameBytes.length + data.length
+        count++
+      } catch (error) {
+        finished = true
+        controller.error(error)
+      }
+    },
+
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
@@ -0,0 +1,23 @@
+import { createMiddleware } from 'hono/factory'
+import { isUserAdmin } from '../services/admin'
+import { hashForLog } from '../lib/hash'
+import { logger } from '../lib/logger'
+import type { AuthVariables } from './auth'
+
+/**
+ * Admin middleware - must run after auth().
+ *
+ * Returns 403 unless the authenticated user has the admin role.
+ */
+export const requireAdmin = () => {
+  return createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+    const userId = c.get('userId')
+
+    if (!(await isUserAdmin(userId))) {
+      logger.debug(`[Auth] User ${hashForLog(userId)} is not an admin`)
+      return c.json({ error: 'forbidden', message: 'Admin access required' }, 403)
+    }
+
+    await next()
+  })
+}
@@ -1,16 +1,34 @@
 import { createMiddleware } from 'hono/factory'
 import { getCookie } from 'hono/cookie'
+import { eq } from 'drizzle-orm'
+import { db, tables } from '../db'
+import type { ApiTokenScope } from '../db'
 import { verifyJWT, type AccessTokenPayload } from '../lib/jwt'
 import { verifyFingerprint, hashForLog } from '../lib/hash'
 import { logger } from '../lib/logger'
 import { isDevelopment } from '../lib/startup'
+import { isApiToken, verifyApiToken } from '../services/api-tokens'
 
 /**
  * Auth context variables set by middleware.
  */
 export interface AuthVariables {
   userId: string
-  sessionId: string
+  sessionId: string // For API token requests this is the token ID
+  apiTokenId: string | null // Set when authenticated with a personal API token
+}
+
+/**
+ * Options for the auth middleware.
+ */
+export interface AuthOptions {
+  /**
+   * Accept personal API tokens (Authorization: Bearer iox_...).
+   * - true: GET/HEAD requests need the 'read' scope, other methods 'cleanup'
+   * - a scope: every request needs that scope
+   * - false (default): only browser sessions are accepted
+   */
+  apiTokens?: boolean | ApiTokenScope
 }
 
 /**
@@ -34,6 +52,27 @@ function extractBearerToken(authHeader: string | undefined): string | null {
   return authHeader.slice(7)
 }
 
+/**
+ * Scope an API token needs for a request
+ */
+function getRequiredScope(method: string, apiTokens: true | ApiTokenScope): ApiTokenScope {
+  if (apiTokens !== true) return apiTokens
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'cleanup'
+}
+
+/**
+ * Whether a user exists and has not been disabled by an admin
+ */
+async function isUserActive(userId: string): Promise<boolean> {
+  const [user] = await db
+    .select({ disabledAt: tables.users.disabledAt })
+    .from(tables.users)
+    .where(eq(tables.users.id, userId))
+    .limit(1)
+
+  return !!user && !user.disabledAt
+}
+
 /**
  * Auth middleware - verifies JWT access token and fingerprint.
  *
@@ -45,12 +84,60 @@ function extractBearerToken(authHeader: string | undefined): string | null {
  * - No access token provided
  * - Token is invalid or expired
  * - Fingerprint validation fails
+ *
+ * Returns 403 if the user was disabled by an admin (or no longer exists).
+ *
+ * With `apiTokens`, personal API tokens are accepted instead of a session:
+ * no fingerprint is needed, but the token must carry the required scope (403 otherwise).
  */
-export const auth = () => {
+export const auth = (options: AuthOptions = {}) => {
   return createMiddleware<{ Variables: AuthVariables }>(async (c, next) => {
+    const bearerToken = extractBearerToken(c.req.header('Authorization'))
+
+    // Personal API token
+    if (bearerToken && isApiToken(bearerToken)) {
+      if (!options.apiTokens) {
+        logger.debug('[Auth] API token used on a session-only route')
+        return c.json(
+          { error: 'unauthorized', message: 'API tokens are not accepted on this route' },
+          401
+        )
+      }
+
+      const ipAddress = c.req.header('X-Forwarded-For') || c.req.header('X-Real-IP') || null
+      const token = await verifyApiToken(bearerToken, ipAddress)
+      if (!token) {
+        logger.debug('[Auth] Invalid, expired or revoked API token')
+        return c.json({ error: 'unauthorized', message: 'Invalid API token' }, 401)
+      }
+
+      const requiredScope = getRequiredScope(c.req.method, options.apiTokens)
+      if (!token.scopes.includes(requiredScope)) {
+        logger.debug(`[Auth] API token ${hashForLog(token.id)} lacks scope ${requiredScope}`)
+        return c.json(
+          {
+            error: 'insufficient_scope',
+            message: `This API token needs the '${requiredScope}' scope`,
+          },
+          403
+        )
+      }
+
+      if (!(await isUserActive(token.userId))) {
+        logger.debug(`[Auth] User ${hashForLog(token.userId)} is disabled or deleted`)
+        return c.json({ error: 'account_disabled', message: 'This account has been disabled' }, 403)
+      }
+
+      c.set('userId', token.userId)
+      c.set('sessionId', token.id)
+      c.set('apiTokenId', token.id)
+
+      await next()
+      return
+    }
+
     // Get access token from cookie or Authorization header
-    const accessToken =
-      getCookie(c, COOKIE_NAMES.ACCESS_TOKEN) || extractBearerToken(c.req.header('Authorization'))
+    const accessToken = getCookie(c, COOKIE_NAMES.ACCESS_TOKEN) || bearerToken
 
     if (!accessToken) {
       logger.debug('[Auth] No access token provided')
@@ -83,9 +170,16 @@ export const auth = () => {
       return c.json({ error: 'unauthorized', message: 'Invalid session' }, 401)
     }
 
+    // Access tokens outlive an admin's disable/delete, so check the user on every request
+    if (!(await isUserActive(result.payload.sub))) {
+      logger.debug(`[Auth] User ${hashForLog(result.payload.sub)} is disabled or deleted`)
+      return c.json({ error: 'account_disabled', message: 'This account has been disabled' }, 403)
+    }
+
     // Set context variables
     c.set('userId', result.payload.sub)
     c.set('sessionId', result.payload.sid)
+    c.set('apiTokenId', null)
 
     await next()
   })
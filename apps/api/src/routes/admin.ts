@@ -0,0 +1,211 @@
+/**
+ * Admin API Routes
+ *
+ * Instance-wide user management and login allowlist for self-hosted
+ * deployments. All routes require an authenticated admin.
+ */
+
+import { Hono } from 'hono'
+import {
+  listUsers,
+  setUserDisabled,
+  setUserAdmin,
+  deleteUserAsAdmin,
+  AdminActionError,
+  type AdminUser,
+} from '../services/admin'
+import { findUserById } from '../services/auth'
+import { getConfig, parseLoginAllowlist, setLoginAllowlist } from '../services/config'
+import { parseDbTimestamp } from '../services/emails'
+import { auth, type AuthVariables } from '../middleware/auth'
+import { requireAdmin } from '../middleware/admin'
+import { logger } from '../lib/logger'
+
+const admin = new Hono<{ Variables: AuthVariables }>()
+
+// Apply auth + admin middleware to all routes (API tokens need the 'admin' scope)
+admin.use('*', auth({ apiTokens: 'admin' }), requireAdmin())
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function toUserResponse(user: AdminUser, currentUserId: string) {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    picture: user.picture,
+    isAdmin: user.isAdmin,
+    isDisabled: user.disabledAt !== null,
+    disabledAt: toIsoString(user.disabledAt),
+    isCurrentUser: user.id === currentUserId,
+    activeSessions: user.activeSessions,
+    createdAt: toIsoString(user.createdAt),
+    mailAccounts: user.mailAccounts.map((account) => ({
+      id: account.id,
+      email: account.email,
+      provider: account.provider,
+      syncStatus: account.syncStatus,
+      syncCompletedAt: toIsoString(account.syncCompletedAt),
+      createdAt: toIsoString(account.createdAt),
+    })),
+  }
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+/**
+ * GET /api/admin/users
+ * List all users with their connected mail accounts
+ */
+admin.get('/users', async (c) => {
+  const currentUserId = c.get('userId')
+
+  try {
+    const users = await listUsers()
+    return c.json({ users: users.map((user) => toUserResponse(user, currentUserId)) })
+  } catch (error) {
+    logger.error('[Admin] Error listing users:', error)
+    return c.json({ error: 'Failed to list users' }, 500)
+  }
+})
+
+/**
+ * PATCH /api/admin/users/:id
+ * Disable/enable a user or change their admin role
+ *
+ * Request body:
+ * {
+ *   disabled?: boolean,
+ *   isAdmin?: boolean
+ * }
+ */
+admin.patch('/users/:id', async (c) => {
+  const currentUserId = c.get('userId')
+  const targetUserId = c.req.param('id')
+
+  const body = await c.req
+    .json<{ disabled?: boolean; isAdmin?: boolean }>()
+    .catch(() => ({}) as { disabled?: boolean; isAdmin?: boolean })
+
+  if (typeof body.disabled !== 'boolean' && typeof body.isAdmin !== 'boolean') {
+    return c.json({ error: 'Provide disabled and/or isAdmin' }, 400)
+  }
+
+  if (targetUserId === currentUserId) {
+    return c.json({ error: 'You cannot change your own account here' }, 400)
+  }
+
+  try {
+    const user = await findUserById(targetUserId)
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404)
+    }
+
+    if (typeof body.disabled === 'boolean') {
+      await setUserDisabled(targetUserId, body.disabled)
+    }
+    if (typeof body.isAdmin === 'boolean') {
+      await setUserAdmin(targetUserId, body.isAdmin)
+    }
+
+    const updated = (await listUsers()).find((u) => u.id === targetUserId)
+    return c.json({ user: updated ? toUserResponse(updated, currentUserId) : null })
+  } catch (error) {
+    if (error instanceof AdminActionError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Admin] Error updating user:', error)
+    return c.json({ error: 'Failed to update user' }, 500)
+  }
+})
+
+/**
+ * DELETE /api/admin/users/:id
+ * Delete a user, their sessions, mail accounts and synced data
+ */
+admin.delete('/users/:id', async (c) => {
+  const currentUserId = c.get('userId')
+  const targetUserId = c.req.param('id')
+
+  if (targetUserId === currentUserId) {
+    return c.json({ error: 'Use account settings to delete your own account' }, 400)
+  }
+
+  try {
+    const user = await findUserById(targetUserId)
+    if (!user) {
+      return c.json({ error: 'User not found' }, 404)
+    }
+
+    await deleteUserAsAdmin(targetUserId)
+    return c.json({ success: true })
+  } catch (error) {
+    if (error instanceof AdminActionError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Admin] Error deleting user:', error)
+    return c.json({ error: 'Failed to delete user' }, 500)
+  }
+})
+
+// ============================================================================
+// Login Allowlist
+// ============================================================================
+
+/**
+ * GET /api/admin/allowlist
+ * Get the login allowlist (empty = any Google account may sign in, admins always can)
+ */
+admin.get('/allowlist', async (c) => {
+  try {
+    const config = await getConfig('login_allowlist')
+    return c.json({
+      entries: parseLoginAllowlist(config.value),
+      source: config.source,
+      isEditable: config.isEditable,
+    })
+  } catch (error) {
+    logger.error('[Admin] Error getting allowlist:', error)
+    return c.json({ error: 'Failed to get allowlist' }, 500)
+  }
+})
+
+/**
+ * PUT /api/admin/allowlist
+ * Replace the login allowlist
+ *
+ * Request body:
+ * {
+ *   entries: string[] // emails or domains, [] removes the restriction
+ * }
+ */
+admin.put('/allowlist', async (c) => {
+  const body = await c.req.json<{ entries?: unknown }>().catch(() => ({}) as { entries?: unknown })
+
+  if (!Array.isArray(body.entries) || body.entries.some((e) => typeof e !== 'string')) {
+    return c.json({ error: 'entries must be an array of emails or domains' }, 400)
+  }
+
+  const config = await getConfig('login_allowlist')
+  if (!config.isEditable) {
+    return c.json({ error: 'The allowlist is configured via the LOGIN_ALLOWLIST env var' }, 400)
+  }
+
+  try {
+    const entries = await setLoginAllowlist(body.entries as string[])
+    return c.json({ entries, source: entries.length > 0 ? 'database' : 'unset', isEditable: true })
+  } catch (error) {
+    logger.error('[Admin] Error saving allowlist:', error)
+    return c.json({ error: 'Failed to save allowlist' }, 500)
+  }
+})
+
+export default admin
@@ -0,0 +1,362 @@
+/**
+ * Attachment API Routes
+ *
+ * Attachment explorer: list attachments across the mailbox grouped by type,
+ * sender and size, download them one by one or as a zip, and strip them from
+ * their emails (saved locally, the email is kept without them).
+ * All routes require authentication and verify account ownership.
+ */
+
+import { Hono } from 'hono'
+import type { Job, SavedAttachment } from '../db'
+import {
+  listAttachments,
+  listSavedAttachments,
+  getSavedAttachment,
+  createAttachmentsZip,
+  startStripJob,
+  parseAttachmentIds,
+  isAttachmentType,
+  isSizeBucket,
+  ATTACHMENT_SORTS,
+  MAX_ZIP_ATTACHMENTS,
+  AttachmentRequestError,
+  type AttachmentSort,
+} from '../services/attachments'
+import { fetchAttachment } from '../services/gmail'
+import { parseDbTimestamp } from '../services/emails'
+import { requireGmailAccount, UnsupportedProviderError } from '../services/providers'
+import { auth, type AuthVariables } from '../middleware/auth'
+import { verifyAccountOwnership } from '../middleware/ownership'
+import { logger } from '../lib/logger'
+
+const attachments = new Hono<{ Variables: AuthVariables }>()
+
+// Apply auth middleware to all routes (browser sessions or API tokens)
+attachments.use('*', auth({ apiTokens: true }))
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function toSavedAttachmentResponse(attachment: SavedAttachment) {
+  return {
+    id: attachment.id,
+    originalMessageId: attachment.originalMessageId,
+    messageId: attachment.messageId,
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    sizeBytes: attachment.sizeBytes,
+    sha256: attachment.sha256,
+    fromEmail: attachment.fromEmail,
+    subject: attachment.subject,
+    internalDate: attachment.internalDate,
+    savedAt: toIsoString(attachment.savedAt),
+  }
+}
+
+function toStripJobResponse(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    totalMessages: job.totalMessages,
+    processedMessages: job.processedMessages,
+  }
+}
+
+/**
+ * Content-Disposition for a download, keeping non-ASCII file names (RFC 6266)
+ */
+function attachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`
+}
+
+// ============================================================================
+// Browsing
+// ============================================================================
+
+/**
+ * GET /api/attachments/accounts/:id
+ * List attachments across the mailbox (trash and spam excluded), with groups
+ *
+ * Query params:
+ * - search: Filename contains (case-insensitive)
+ * - type: image, pdf, document, spreadsheet, presentation, archive, audio, video, calendar, other
+ * - sender: Sender email address
+ * - size: small (< 100 KB), medium (< 1 MB), large (< 10 MB), huge (10 MB and more)
+ * - sort: size (default), date or name
+ * - limit: Page size (default: 50, max: 200)
+ * - offset: Offset for pagination
+ */
+attachments.get('/accounts/:id', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const type = c.req.query('type') || undefined
+    const size = c.req.query('size') || undefined
+    const sort = c.req.query('sort') || 'size'
+
+    if (type !== undefined && !isAttachmentType(type)) {
+      return c.json({ error: 'Invalid attachment type' }, 400)
+    }
+    if (size !== undefined && !isSizeBucket(size)) {
+      return c.json({ error: 'Invalid size' }, 400)
+    }
+    if (!ATTACHMENT_SORTS.includes(sort as AttachmentSort)) {
+      return c.json({ error: `sort must be one of: ${ATTACHMENT_SORTS.join(', ')}` }, 400)
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50))
+    const offset = Math.max(0, parseInt(c.req.query('offset') || '0', 10) || 0)
+
+    const result = await listAttachments(
+      accountId,
+      {
+        search: c.req.query('search') || undefined,
+        type,
+        sender: c.req.query('sender') || undefined,
+        size,
+      },
+      { sort: sort as AttachmentSort, limit, offset }
+    )
+
+    return c.json({ ...result, limit, offset })
+  } catch (error) {
+    logger.error('[Attachments] Error listing attachments:', error)
+    return c.json({ error: 'Failed to list attachments' }, 500)
+  }
+})
+
+// ============================================================================
+// Downloads
+// ============================================================================
+
+/**
+ * GET /api/attachments/accounts/:id/messages/:messageId/:index
+ * Download one attachment from Gmail
+ */
+attachments.get('/accounts/:id/messages/:messageId/:index', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const messageId = c.req.param('messageId')
+  const index = parseInt(c.req.param('index'), 10)
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    await requireGmailAccount(accountId, 'Downloading attachments')
+
+    const attachment = Number.isInteger(index)
+      ? await fetchAttachment(accountId, messageId, index)
+      : null
+
+    if (!attachment) {
+      return c.json({ error: 'Attachment not found' }, 404)
+    }
+
+    return new Response(new Uint8Array(attachment.data), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Disposition': attachmentDisposition(attachment.filename),
+      },
+    })
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Attachments] Error downloading attachment:', error)
+    return c.json({ error: 'Failed to download attachment' }, 500)
+  }
+})
+
+/**
+ * GET /api/attachments/accounts/:id/download
+ * Download several attachments as one zip file
+ *
+ * Query params:
+ * - ids: Comma-separated attachment IDs ("<messageId>:<index>", max 200)
+ */
+attachments.get('/accounts/:id/download', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    await requireGmailAccount(accountId, 'Downloading attachments')
+
+    const ids = parseAttachmentIds((c.req.query('ids') || '').split(',').filter(Boolean))
+
+    if (!ids || ids.length === 0) {
+      return c.json({ error: 'ids must list attachment IDs as messageId:index' }, 400)
+    }
+    if (ids.length > MAX_ZIP_ATTACHMENTS) {
+      return c.json(
+        { error: `At most ${MAX_ZIP_ATTACHMENTS} attachments can be zipped at once` },
+        400
+      )
+    }
+
+    const date = new Date().toISOString().slice(0, 10)
+
+    return new Response(createAttachmentsZip(accountId, ids), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="attachments-${date}.zip"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Attachments] Error zipping attachments:', error)
+    return c.json({ error: 'Failed to download attachments' }, 500)
+  }
+})
+
+// ============================================================================
+// Stripping
+// ============================================================================
+
+/**
+ * POST /api/attachments/accounts/:id/strip
+ * Keep the emails but drop the selected attachments
+ *
+ * Body:
+ * - ids: Attachment IDs ("<messageId>:<index>")
+ *
+ * The attachments are saved on the server, each email is replaced by a copy
+ * without them and the original is permanently deleted. Runs as a job.
+ */
+attachments.post('/accounts/:id/strip', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const body = await c.req.json<{ ids?: unknown }>().catch(() => ({}) as { ids?: unknown })
+    const ids =
+      Array.isArray(body.ids) && body.ids.every((id) => typeof id === 'string')
+        ? parseAttachmentIds(body.ids as string[])
+        : null
+
+    if (!ids) {
+      return c.json({ error: 'ids must be an array of attachment IDs (messageId:index)' }, 400)
+    }
+
+    const job = await startStripJob(accountId, ids)
+
+    return c.json(toStripJobResponse(job), 201)
+  } catch (error) {
+    if (error instanceof AttachmentRequestError || error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Attachments] Error starting strip job:', error)
+    return c.json({ error: 'Failed to strip attachments' }, 500)
+  }
+})
+
+/**
+ * GET /api/attachments/accounts/:id/saved
+ * List attachments saved by stripping, newest first
+ *
+ * Query params:
+ * - search: Filename, sender or subject contains (case-insensitive)
+ * - limit: Page size (default: 50, max: 200)
+ * - offset: Offset for pagination
+ */
+attachments.get('/accounts/:id/saved', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50))
+    const offset = Math.max(0, parseInt(c.req.query('offset') || '0', 10) || 0)
+
+    const result = await listSavedAttachments(accountId, {
+      search: c.req.query('search') || undefined,
+      limit,
+      offset,
+    })
+
+    return c.json({
+      attachments: result.attachments.map(toSavedAttachmentResponse),
+      total: result.total,
+      totalSize: result.totalSize,
+      limit,
+      offset,
+    })
+  } catch (error) {
+    logger.error('[Attachments] Error listing saved attachments:', error)
+    return c.json({ error: 'Failed to list saved attachments' }, 500)
+  }
+})
+
+/**
+ * GET /api/attachments/accounts/:id/saved/:savedId
+ * Download a saved attachment
+ */
+attachments.get('/accounts/:id/saved/:savedId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const savedId = c.req.param('savedId')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const saved = await getSavedAttachment(accountId, savedId)
+    const file = saved && Bun.file(saved.path)
+
+    if (!saved || !file || !(await file.exists())) {
+      return c.json({ error: 'Saved attachment not found' }, 404)
+    }
+
+    return new Response(file, {
+      headers: {
+        'Content-Type': saved.attachment.mimeType,
+        'Content-Disposition': attachmentDisposition(saved.attachment.filename),
+      },
+    })
+  } catch (error) {
+    logger.error('[Attachments] Error reading saved attachment:', error)
+    return c.json({ error: 'Failed to read saved attachment' }, 500)
+  }
+})
+
+export default attachments
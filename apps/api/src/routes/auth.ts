@@ -16,7 +16,7 @@ import {
   findUserByGoogleId,
   findUserById,
   createUser,
-  connectGmailAccount,
+  connectMailAccount,
   createSession,
   refreshSession,
   revokeSession,
@@ -25,6 +25,18 @@ import {
   getUserSessions,
   deleteUser,
 } from '../services/auth'
+import {
+  createApiToken,
+  listApiTokens,
+  revokeApiToken,
+  normalizeScopes,
+} from '../services/api-tokens'
+import { isLoginAllowed } from '../services/config'
+import {
+  isMicrosoftConfigured,
+  generateMicrosoftAuthUrl,
+  exchangeMicrosoftCode,
+} from '../services/outlook'
 import { triggerPostOAuthSync } from '../services/sync/autoTrigger'
 import { isDevelopment } from '../lib/startup'
 
@@ -111,6 +123,32 @@ function clearAuthCookies(c: Context): void {
   deleteCookie(c, SESSION_HINT_COOKIE, { ...cookieOptions, httpOnly: false })
 }
 
+/**
+ * Get the signed-in user for an add-account OAuth callback
+ * Returns the error response to send instead when there is no valid session.
+ */
+function getAddAccountUser(
+  c: Context
+): { userId: string; error?: never } | { userId?: never; error: Response } {
+  const accessToken = getCookie(c, COOKIE_NAMES.ACCESS_TOKEN)
+  const fingerprint = getCookie(c, COOKIE_NAMES.FINGERPRINT)
+
+  if (!accessToken || !fingerprint) {
+    return { error: c.json({ error: 'not_authenticated', message: 'Please log in first' }, 401) }
+  }
+
+  const tokenResult = verifyJWT(accessToken)
+  if (!tokenResult.valid || !tokenResult.payload) {
+    return { error: c.json({ error: 'invalid_session', message: 'Session expired' }, 401) }
+  }
+
+  if (!verifyFingerprint(fingerprint, tokenResult.payload.fgp)) {
+    return { error: c.json({ error: 'invalid_session', message: 'Invalid session' }, 401) }
+  }
+
+  return { userId: tokenResult.payload.sub }
+}
+
 /**
  * GET /auth/google
  * Returns OAuth URL for frontend to navigate to
@@ -160,26 +198,13 @@ authRoutes.post('/google/exchange', async (c) => {
     // Check if this is adding an additional account to existing user
     if (state.isAddAccount) {
       // Verify user is authenticated
-      const accessToken = getCookie(c, COOKIE_NAMES.ACCESS_TOKEN)
-      const fingerprint = getCookie(c, COOKIE_NAMES.FINGERPRINT)
-
-      if (!accessToken || !fingerprint) {
-        return c.json({ error: 'not_authenticated', message: 'Please log in first' }, 401)
-      }
-
-      const tokenResult = verifyJWT(accessToken)
-      if (!tokenResult.valid || !tokenResult.payload) {
-        return c.json({ error: 'invalid_session', message: 'Session expired' }, 401)
+      const { userId, error: sessionError } = getAddAccountUser(c)
+      if (sessionError) {
+        return sessionError
       }
 
-      if (!verifyFingerprint(fingerprint, tokenResult.payload.fgp)) {
-        return c.json({ error: 'invalid_session', message: 'Invalid session' }, 401)
-      }
-
-      const userId = tokenResult.payload.sub
-
       // Connect the additional Gmail account
-      const { accountId, isNew, needsSync } = await connectGmailAccount(
+      const { accountId, isNew, needsSync } = await connectMailAccount(
         userId,
         userInfo.email!,
         tokens
@@ -203,6 +228,22 @@ authRoutes.post('/google/exchange', async (c) => {
     let user = await findUserByGoogleId(userInfo.id!)
     let isNewUser = false
 
+    if (user?.disabledAt) {
+      return c.json(
+        { error: 'account_disabled', message: 'This account has been disabled by an admin' },
+        403
+      )
+    }
+
+    // Instance allowlist applies to everyone except admins, so they can't lock themselves out
+    if (user?.isAdmin !== 1 && !(await isLoginAllowed(userInfo.email!))) {
+      console.warn('[Auth] Login rejected: account is not on the allowlist')
+      return c.json(
+        { error: 'not_allowed', message: 'This Google account is not allowed on this instance' },
+        403
+      )
+    }
+
     if (!user) {
       // Create new user
       user = await createUser({
@@ -220,7 +261,7 @@ authRoutes.post('/google/exchange', async (c) => {
       accountId,
       isNew: isNewAccount,
       needsSync,
-    } = await connectGmailAccount(user.id, userInfo.email!, tokens)
+    } = await connectMailAccount(user.id, userInfo.email!, tokens)
 
     // Create session
     const session = await createSession(user.id, {
@@ -256,6 +297,84 @@ authRoutes.post('/google/exchange', async (c) => {
   }
 })
 
+/**
+ * GET /auth/microsoft
+ * Returns the Microsoft OAuth URL for adding an Outlook / Microsoft 365 account
+ * Sign-in stays with Google; Microsoft accounts can only be added to a signed-in user.
+ */
+authRoutes.get('/microsoft', async (c) => {
+  const redirect = c.req.query('redirect') || '/'
+
+  if (!isMicrosoftConfigured()) {
+    return c.json(
+      {
+        error: 'setup_required',
+        message:
+          'Outlook accounts are not set up on this instance. Set MICROSOFT_CLIENT_ID and MICROSOFT_CLIENT_SECRET.',
+      },
+      503
+    )
+  }
+
+  const { url, state } = await generateMicrosoftAuthUrl({ redirectUrl: redirect })
+  return c.json({ url, state })
+})
+
+/**
+ * POST /auth/microsoft/exchange
+ * Exchanges the Microsoft OAuth code and connects the Outlook account
+ * Frontend calls this after Microsoft redirects back with code
+ */
+authRoutes.post('/microsoft/exchange', async (c) => {
+  const body = await c.req.json().catch(() => ({}))
+  const { code, state: stateParam, error } = body
+
+  // Handle OAuth errors
+  if (error) {
+    console.error(`[Auth] Microsoft OAuth error: ${error}`)
+    return c.json({ error: 'oauth_error', message: error }, 400)
+  }
+
+  if (!code || !stateParam) {
+    return c.json({ error: 'missing_params', message: 'Missing code or state' }, 400)
+  }
+
+  try {
+    const state = parseOAuthState(stateParam)
+
+    // Verify user is authenticated
+    const { userId, error: sessionError } = getAddAccountUser(c)
+    if (sessionError) {
+      return sessionError
+    }
+
+    const { tokens, email } = await exchangeMicrosoftCode(code, state.pkceVerifier)
+
+    const { accountId, isNew, needsSync } = await connectMailAccount(
+      userId,
+      email,
+      tokens,
+      'outlook'
+    )
+
+    // Trigger background sync only if needed (new account or incomplete sync)
+    if (needsSync) {
+      await triggerPostOAuthSync(accountId)
+    }
+
+    return c.json({
+      success: true,
+      type: 'account_added',
+      accountId,
+      isNew,
+      redirectUrl: state.redirectUrl || '/',
+    })
+  } catch (err) {
+    console.error('[Auth] Microsoft callback error:', err)
+    return c.json({ error: 'auth_failed', message: 'Authentication failed' }, 500)
+  }
+})
+
 /**
  * POST /auth/refresh
  * Refreshes access token using refresh token from cookies
@@ -340,7 +459,7 @@ authRoutes.post('/logout', async (c) => {
  * GET /auth/me
  * Returns current authenticated user
  */
-authRoutes.get('/me', auth(), async (c) => {
+authRoutes.get('/me', auth({ apiTokens: true }), async (c) => {
   const userId = c.get('userId')
   const user = await findUserById(userId)
 
@@ -353,6 +472,7 @@ authRoutes.get('/me', auth(), async (c) => {
     email: user.email,
     name: user.name,
     picture: user.picture,
+    isAdmin: user.isAdmin === 1,
     createdAt: user.createdAt,
   })
 })
@@ -406,6 +526,86 @@ authRoutes.delete('/sessions', auth(), async (c) => {
   return c.json({ success: true, revokedCount })
 })
 
+// ============================================================================
+// Personal API Tokens
+// ============================================================================
+
+// Longest allowed token lifetime when an expiry is set
+const MAX_TOKEN_EXPIRY_DAYS = 365
+
+/**
+ * GET /auth/tokens
+ * Lists the current user's active API tokens (never the raw values)
+ */
+authRoutes.get('/tokens', auth(), async (c) => {
+  const userId = c.get('userId')
+
+  const tokens = await listApiTokens(userId)
+
+  return c.json({ tokens })
+})
+
+/**
+ * POST /auth/tokens
+ * Creates an API token - the raw token is only returned in this response
+ *
+ * Request body:
+ * {
+ *   name: string,
+ *   scopes: ('read' | 'cleanup' | 'admin')[],
+ *   expiresInDays?: number | null // null = never expires
+ * }
+ */
+authRoutes.post('/tokens', auth(), async (c) => {
+  const userId = c.get('userId')
+  const body = await c.req.json().catch(() => ({}))
+
+  const name = typeof body.name === 'string' ? body.name.trim() : ''
+  if (!name || name.length > 100) {
+    return c.json({ error: 'Name is required (max 100 characters)' }, 400)
+  }
+
+  const scopes = normalizeScopes(body.scopes)
+  if (scopes.length === 0) {
+    return c.json({ error: 'Choose at least one scope' }, 400)
+  }
+
+  const expiresInDays = body.expiresInDays ?? null
+  if (
+    expiresInDays !== null &&
+    (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_TOKEN_EXPIRY_DAYS)
+  ) {
+    return c.json({ error: `expiresInDays must be between 1 and ${MAX_TOKEN_EXPIRY_DAYS}` }, 400)
+  }
+
+  if (scopes.includes('admin')) {
+    const user = await findUserById(userId)
+    if (user?.isAdmin !== 1) {
+      return c.json({ error: 'Only admins can create tokens with the admin scope' }, 403)
+    }
+  }
+
+  const { token, info } = await createApiToken(userId, { name, scopes, expiresInDays })
+
+  return c.json({ token, info }, 201)
+})
+
+/**
+ * DELETE /auth/tokens/:id
+ * Revokes an API token
+ */
+authRoutes.delete('/tokens/:id', auth(), async (c) => {
+  const userId = c.get('userId')
+  const tokenId = c.req.param('id')
+
+  const revoked = await revokeApiToken(userId, tokenId)
+  if (!revoked) {
+    return c.json({ error: 'Token not found' }, 404)
+  }
+
+  return c.json({ success: true })
+})
+
 /**
  * DELETE /auth/account
  * Deletes user account and all associated data
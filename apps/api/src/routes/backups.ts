@@ -0,0 +1,268 @@
+/**
+ * Backup API Routes
+ *
+ * Settings and browsing for "backup before delete": the local archive of raw
+ * messages written before permanent delete, with .eml downloads and an mbox export.
+ * All routes require authentication and verify account ownership.
+ */
+
+import { Hono } from 'hono'
+import type { EmailBackup } from '../db'
+import {
+  isBackupFormat,
+  setBackupFormat,
+  getBackupStats,
+  getAccountBackupDir,
+  getManifestPath,
+  listBackups,
+  readBackupMessage,
+  createMboxExport,
+} from '../services/backup'
+import { parseDbTimestamp } from '../services/emails'
+import { UnsupportedProviderError } from '../services/providers'
+import { auth, type AuthVariables } from '../middleware/auth'
+import { verifyAccountOwnership } from '../middleware/ownership'
+import { logger } from '../lib/logger'
+
+const backups = new Hono<{ Variables: AuthVariables }>()
+
+// Apply auth middleware to all routes (browser sessions or API tokens)
+backups.use('*', auth({ apiTokens: true }))
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function toBackupResponse(backup: EmailBackup) {
+  return {
+    messageId: backup.messageId,
+    threadId: backup.threadId,
+    format: backup.format,
+    fromEmail: backup.fromEmail,
+    subject: backup.subject,
+    internalDate: backup.internalDate,
+    sizeBytes: backup.sizeBytes,
+    sha256: backup.sha256,
+    backedUpAt: toIsoString(backup.backedUpAt),
+  }
+}
+
+/**
+ * Safe download name for an account's export files
+ */
+function exportFileName(email: string, extension: string): string {
+  return `${email.replace(/[^a-zA-Z0-9@._-]/g, '_')}-backup.${extension}`
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * GET /api/backups/accounts/:id
+ * Backup setting and archive totals for an account
+ */
+backups.get('/accounts/:id', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const stats = await getBackupStats(accountId)
+
+    return c.json({
+      format: account.backupFormat,
+      directory: getAccountBackupDir(accountId),
+      count: stats.count,
+      totalSizeBytes: stats.totalSizeBytes,
+      lastBackedUpAt: toIsoString(stats.lastBackedUpAt),
+    })
+  } catch (error) {
+    logger.error('[Backups] Error getting backup settings:', error)
+    return c.json({ error: 'Failed to get backup settings' }, 500)
+  }
+})
+
+/**
+ * PUT /api/backups/accounts/:id
+ * Turn backup before delete on or off
+ *
+ * Body:
+ * - format: 'mbox' | 'maildir' | null (null turns backups off)
+ *
+ * Existing archive files are kept when backups are turned off or the format changes.
+ */
+backups.put('/accounts/:id', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const body = await c.req.json<{ format?: unknown }>()
+    const format = body.format ?? null
+
+    if (format !== null && !isBackupFormat(format)) {
+      return c.json({ error: "format must be 'mbox', 'maildir' or null" }, 400)
+    }
+
+    await setBackupFormat(accountId, format)
+
+    return c.json({ success: true, format })
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Backups] Error updating backup settings:', error)
+    return c.json({ error: 'Failed to update backup settings' }, 500)
+  }
+})
+
+// ============================================================================
+// Archive
+// ============================================================================
+
+/**
+ * GET /api/backups/accounts/:id/messages
+ * Browse backed up messages, newest first
+ *
+ * Query params:
+ * - search: Match sender or subject
+ * - limit: Page size (default: 50, max: 200)
+ * - offset: Rows to skip (default: 0)
+ */
+backups.get('/accounts/:id/messages', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50))
+    const offset = Math.max(0, parseInt(c.req.query('offset') || '0', 10) || 0)
+
+    const result = await listBackups(accountId, {
+      search: c.req.query('search')?.trim() || undefined,
+      limit,
+      offset,
+    })
+
+    return c.json({ backups: result.backups.map(toBackupResponse), total: result.total })
+  } catch (error) {
+    logger.error('[Backups] Error listing backups:', error)
+    return c.json({ error: 'Failed to list backups' }, 500)
+  }
+})
+
+/**
+ * GET /api/backups/accounts/:id/messages/:messageId/raw
+ * Download a backed up message as an .eml file
+ */
+backups.get('/accounts/:id/messages/:messageId/raw', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const messageId = c.req.param('messageId')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const message = await readBackupMessage(accountId, messageId)
+
+    if (!message) {
+      return c.json({ error: 'Message is not in the backup' }, 404)
+    }
+
+    return new Response(new Uint8Array(message.raw), {
+      headers: {
+        'Content-Type': 'message/rfc822',
+        'Content-Disposition': `attachment; filename="${messageId}.eml"`,
+      },
+    })
+  } catch (error) {
+    logger.error('[Backups] Error reading backed up message:', error)
+    return c.json({ error: 'Failed to read backed up message' }, 500)
+  }
+})
+
+/**
+ * GET /api/backups/accounts/:id/export
+ * Download the whole archive as one mbox file (either format)
+ */
+backups.get('/accounts/:id/export', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    return new Response(createMboxExport(accountId), {
+      headers: {
+        'Content-Type': 'application/mbox',
+        'Content-Disposition': `attachment; filename="${exportFileName(account.email, 'mbox')}"`,
+      },
+    })
+  } catch (error) {
+    logger.error('[Backups] Error exporting backup:', error)
+    return c.json({ error: 'Failed to export backup' }, 500)
+  }
+})
+
+/**
+ * GET /api/backups/accounts/:id/manifest
+ * Download the archive manifest (JSON Lines, one entry per backed up message)
+ */
+backups.get('/accounts/:id/manifest', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const manifest = Bun.file(getManifestPath(accountId))
+
+    if (!(await manifest.exists())) {
+      return c.json({ error: 'No backups yet' }, 404)
+    }
+
+    return new Response(manifest, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="${exportFileName(account.email, 'jsonl')}"`,
+      },
+    })
+  } catch (error) {
+    logger.error('[Backups] Error reading backup manifest:', error)
+    return c.json({ error: 'Failed to read backup manifest' }, 500)
+  }
+})
+
+export default backups
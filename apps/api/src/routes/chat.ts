@@ -30,9 +30,15 @@ import {
   type ReasoningEffort,
   AI_PROVIDER_IDS,
 } from '../services/ai'
-import { getMessageIdsByFilters, type ExplorerFilters } from '../services/emails'
-import { batchDeleteMessages, trashMessages } from '../services/gmail'
-import { createFilter as createGmailFilter } from '../services/filters'
+import {
+  getMessageIdsByFilters,
+  filterInboxMessageIds,
+  markEmailsAsTrashed,
+  type ExplorerFilters,
+} from '../services/emails'
+import { getMailProvider, PROVIDER_NAMES } from '../services/providers'
+import { startCleanupJob } from '../services/cleanup'
+import { backupMessages, getBackupFormat } from '../services/backup'
 import { getAccountStats } from '../services/emails'
 import { logger } from '../lib/logger'
 
@@ -958,7 +964,7 @@ chat.post('/accounts/:accountId/execute-action', async (c) => {
   }
 
   const body = await c.req.json<{
-    action: 'delete' | 'trash' | 'createFilter' | 'applyLabel'
+    action: 'delete' | 'trash' | 'archive' | 'createFilter' | 'applyLabel'
     filters: Record<string, unknown>
     conversationId: string
     toolCallId: string
@@ -1037,6 +1043,8 @@ chat.post('/accounts/:accountId/execute-action', async (c) => {
   }
 
   try {
+    const mailProvider = await getMailProvider(accountId)
+
     if (action === 'delete') {
       // Filters are already in ExplorerFilters format from the tool
       const explorerFilters = filters as ExplorerFilters
@@ -1045,11 +1053,21 @@ chat.post('/accounts/:accountId/execute-action', async (c) => {
       if (messageIds.length === 0) {
         actionResult = { success: true, message: 'No emails matched the criteria', count: 0 }
       } else {
-        await batchDeleteMessages(accountId, messageIds)
+        // Backup before delete - only emails with a local copy are deleted
+        const backupFormat = await getBackupFormat(accountId)
+        const { backedUp, failed } = backupFormat
+          ? await backupMessages(accountId, backupFormat, messageIds)
+          : { backedUp: messageIds, failed: [] }
+
+        await mailProvider.deleteMessages(accountId, backedUp)
         actionResult = {
-          success: true,
-          message: `Successfully permanently deleted ${messageIds.length.toLocaleString()} emails`,
-          count: messageIds.length,
+          success: failed.length === 0,
+          message:
+            failed.length > 0
+              ? `Permanently deleted ${backedUp.length.toLocaleString()} emails. ${failed.length.toLocaleString()} were kept because their backup failed`
+              : `Successfully permanently deleted ${messageIds.length.toLocaleString()} emails`,
+          count: backedUp.length,
+          failed: failed.length || undefined,
         }
       }
     } else if (action === 'trash') {
@@ -1060,7 +1078,12 @@ chat.post('/accounts/:accountId/execute-action', async (c) => {
       if (messageIds.length === 0) {
         actionResult = { success: true, message: 'No emails matched the criteria', count: 0 }
       } else {
-        const trashResult = await trashMessages(accountId, messageIds)
+        const trashResult = await mailProvider.trashMessages(accountId, messageIds)
+        const failedIds = new Set(trashResult.failedIds)
+        await markEmailsAsTrashed(
+          accountId,
+          messageIds.filter((id) => !failedIds.has(id))
+        )
         actionResult = {
           success: true,
           message: `Moved ${trashResult.succeeded.toLocaleString()} emails to trash${trashResult.failed > 0 ? ` (${trashResult.failed} failed)` : ''}`,
@@ -1068,6 +1091,22 @@ chat.post('/accounts/:accountId/execute-action', async (c) => {
           failed: trashResult.failed,
         }
       }
+    } else if (action === 'archive') {
+      // Archive runs as a background job; only emails still in the inbox are queued
+      const explorerFilters = filters as ExplorerFilters
+      const messageIds = await getMessageIdsByFilters(accountId, explorerFilters)
+      const inboxIds = await filterInboxMessageIds(accountId, messageIds)
+
+      if (inboxIds.length === 0) {
+        actionResult = { success: true, message: 'No inbox emails matched the criteria', count: 0 }
+      } else {
+        await startCleanupJob(accountId, 'archive', inboxIds)
+        actionResult = {
+          success: true,
+          message: `Archiving ${inboxIds.length.toLocaleString()} emails in the background`,
+          count: inboxIds.length,
+        }
+      }
     } else if (action === 'createFilter') {
       const filterParams = filters as {
         from?: string
@@ -1113,10 +1152,10 @@ chat.post('/accounts/:accountId/execute-action', async (c) => {
           break
       }
 
-      const filter = await createGmailFilter(accountId, criteria, filterAction)
+      const filter = await mailProvider.createFilter(accountId, criteria, filterAction)
       actionResult = {
         success: true,
-        message: `Created Gmail filter: ${filterParams.action} emails matching criteria`,
+        message: `Created ${PROVIDER_NAMES[mailProvider.name]} filter: ${filterParams.action} emails matching criteria`,
         filterId: filter.id,
       }
     } else if (action === 'applyLabel') {
@@ -1129,8 +1168,7 @@ chat.post('/accounts/:accountId/execute-action', async (c) => {
       if (messageIds.length === 0) {
         actionResult = { success: true, message: 'No emails matched the criteria', count: 0 }
       } else {
-        const { modifyLabels } = await import('../services/filters')
-        const result = await modifyLabels(accountId, messageIds, {
+        const result = await mailProvider.modifyLabels(accountId, messageIds, {
           addLabelIds: addLabels,
           removeLabelIds: removeLabels,
         })
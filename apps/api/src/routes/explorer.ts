@@ -7,30 +7,62 @@
 
 import { Hono } from 'hono'
 import { eq, and } from 'drizzle-orm'
-import { db, tables, type MailAccount } from '../db'
+import {
+  db,
+  tables,
+  type MailAccount,
+  type UnsubscribedSender,
+  type UnsubscribeViolation,
+} from '../db'
 import {
   queryEmails,
   countFilteredEmails,
+  queryThreads,
+  countFilteredThreads,
   sumFilteredEmailsSize,
   getMessageIdsByFilters,
-  markEmailsAsTrashed,
-  archiveAndDeleteEmails,
+  filterInboxMessageIds,
   getSenderSuggestions,
   getDistinctCategories,
   getSendersWithUnsubscribe,
+  queryDeletedEmails,
+  countDeletedEmails,
+  getRestorableDeletedEmailIds,
+  restoreEmailsFromEternalMemory,
+  parseDbTimestamp,
   type ExplorerFilters,
   type SubscriptionFilters,
 } from '../services/emails'
-import { trashMessages, batchDeleteMessages, getGmailClient } from '../services/gmail'
-import { createGmailThrottle } from '../lib/throttle'
+import { getGmailClient } from '../services/gmail'
+import {
+  getMailProvider,
+  requireGmailAccount,
+  UnsupportedProviderError,
+} from '../services/providers'
+import {
+  startCleanupJob,
+  getCleanupJob,
+  pauseCleanupJob,
+  resumeCleanupJob,
+  cancelCleanupJob,
+} from '../services/cleanup'
+import {
+  unsubscribeSenders,
+  recordUnsubscribeResult,
+  getUnsubscribeViolations,
+  UNSUBSCRIBE_GRACE_DAYS,
+  escalateUnsubscribeViolation,
+  type UnsubscribeResult,
+} from '../services/unsubscribe'
+import { calculateProgress } from '../services/sync'
 import { auth, type AuthVariables } from '../middleware/auth'
 import { verifyAccountOwnership } from '../middleware/ownership'
 import { logger } from '../lib/logger'
 
 const explorer = new Hono<{ Variables: AuthVariables }>()
 
-// Apply auth middleware to all routes
-explorer.use('*', auth())
+// Apply auth middleware to all routes (browser sessions or API tokens)
+explorer.use('*', auth({ apiTokens: true }))
 
 // ============================================================================
 // Helper: Get account with ownership verification
@@ -62,6 +94,19 @@ function parseFilters(query: Record<string, string | undefined>): ExplorerFilter
     filters.senderDomain = query.senderDomain
   }
 
+  // toEmail / toDomain: Exact recipient match on To, Cc or Delivered-To (comma-separated)
+  if (query.toEmail) {
+    filters.toEmail = query.toEmail
+  }
+  if (query.toDomain) {
+    filters.toDomain = query.toDomain
+  }
+
+  // listId: Partial match on the List-Id identifier
+  if (query.listId) {
+    filters.listId = query.listId
+  }
+
   if (query.category) {
     filters.category = query.category
   }
@@ -142,6 +187,11 @@ function parseFilters(query: Record<string, string | undefined>): ExplorerFilter
     filters.sortOrder = query.sortOrder as 'asc' | 'desc'
   }
 
+  // threadMatch: match whole threads ('any' or 'all' of their messages)
+  if (query.threadMatch && ['any', 'all'].includes(query.threadMatch)) {
+    filters.threadMatch = query.threadMatch as 'any' | 'all'
+  }
+
   return filters
 }
 
@@ -244,6 +294,74 @@ explorer.get('/accounts/:id/emails', async (c) => {
   }
 })
 
+/**
+ * GET /api/explorer/accounts/:id/threads
+ * Query conversation threads with filters and pagination
+ *
+ * Query params:
+ * - page: Page number (default: 1)
+ * - limit: Page size (default: 50, max: 100)
+ * - threadMatch: "any" (default) - a thread matches when any message matches,
+ *   "all" - only threads whose every message matches
+ * - ... filter params
+ *
+ * Each thread carries all of its message IDs so bulk actions apply to whole threads.
+ */
+explorer.get('/accounts/:id/threads', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    if (account.syncStatus !== 'completed') {
+      return c.json(
+        {
+          error: 'Sync not complete',
+          syncStatus: account.syncStatus,
+          message: 'Full sync must complete before browsing emails',
+        },
+        400
+      )
+    }
+
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10))
+    const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '50', 10)))
+
+    const filters = parseFilters(c.req.query() as Record<string, string | undefined>)
+    filters.threadMatch = filters.threadMatch ?? 'any'
+
+    const threads = await queryThreads(accountId, filters, { page, limit })
+    const total = await countFilteredThreads(accountId, filters)
+
+    // Message totals across all matching threads (for selection and storage info)
+    const totalMessages = await countFilteredEmails(accountId, filters)
+    const totalSizeBytes = await sumFilteredEmailsSize(accountId, filters)
+
+    return c.json({
+      threads,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+      },
+      filters,
+      totalMessages,
+      totalSizeBytes,
+    })
+  } catch (error) {
+    logger.error('[Explorer] Error querying threads:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to query threads: ${message}` }, 500)
+  }
+})
+
 /**
  * GET /api/explorer/accounts/:id/emails/count
  * Get count of emails matching filters
@@ -303,15 +421,14 @@ explorer.post('/accounts/:id/emails/:messageId/read', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    // Mark as read in Gmail
-    const gmail = await getGmailClient(accountId)
-    await gmail.users.messages.modify({
-      userId: 'me',
-      id: messageId,
-      requestBody: {
-        removeLabelIds: ['UNREAD'],
-      },
+    // Mark as read in the mailbox
+    const provider = await getMailProvider(accountId)
+    const { failed } = await provider.modifyLabels(accountId, [messageId], {
+      removeLabelIds: ['UNREAD'],
     })
+    if (failed > 0) {
+      throw new Error('Mailbox rejected the change')
+    }
 
     // Update local database
     await db
@@ -347,6 +464,7 @@ explorer.get('/accounts/:id/emails/:messageId', async (c) => {
     }
 
     // Fetch full message from Gmail API
+    await requireGmailAccount(accountId, 'Viewing email content')
     const gmail = await getGmailClient(accountId)
     const response = await gmail.users.messages.get({
       userId: 'me',
@@ -465,6 +583,9 @@ explorer.get('/accounts/:id/emails/:messageId', async (c) => {
       attachments,
     })
   } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
     logger.error('[Explorer] Error fetching email content:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: `Failed to fetch email: ${message}` }, 500)
@@ -472,9 +593,30 @@ explorer.get('/accounts/:id/emails/:messageId', async (c) => {
 })
 
 // ============================================================================
-// Trash Endpoint
+// Trash / Delete / Archive Endpoints (background jobs)
 // ============================================================================
 
+/**
+ * Resolve the target email IDs of a trash/delete/archive request
+ *
+ * Body can contain either:
+ * - emailIds: string[] - specific email IDs
+ * - filters: ExplorerFilters - filter criteria to match emails
+ */
+async function resolveEmailIds(
+  accountId: string,
+  body: { emailIds?: string[]; filters?: ExplorerFilters }
+): Promise<string[] | null> {
+  if (body.filters && Object.keys(body.filters).length > 0) {
+    // Get all matching email IDs from filters
+    return getMessageIdsByFilters(accountId, body.filters)
+  }
+  if (body.emailIds && Array.isArray(body.emailIds)) {
+    return body.emailIds
+  }
+  return null
+}
+
 /**
  * POST /api/explorer/accounts/:id/emails/trash
  * Move selected emails to trash
@@ -482,6 +624,9 @@ explorer.get('/accounts/:id/emails/:messageId', async (c) => {
  * Body can contain either:
  * - emailIds: string[] - specific email IDs to trash
  * - filters: ExplorerFilters - filter criteria to match emails to trash
+ *
+ * The matching emails are resolved up front and trashed by a background job.
+ * Poll GET /accounts/:id/jobs/:jobId for progress.
  */
 explorer.post('/accounts/:id/emails/trash', async (c) => {
   const userId = c.get('userId')
@@ -506,14 +651,8 @@ explorer.post('/accounts/:id/emails/trash', async (c) => {
 
     const body = await c.req.json<{ emailIds?: string[]; filters?: ExplorerFilters }>()
 
-    // Get email IDs from either direct IDs or filters
-    let emailIds: string[]
-    if (body.filters && Object.keys(body.filters).length > 0) {
-      // Get all matching email IDs from filters
-      emailIds = await getMessageIdsByFilters(accountId, body.filters)
-    } else if (body.emailIds && Array.isArray(body.emailIds)) {
-      emailIds = body.emailIds
-    } else {
+    const emailIds = await resolveEmailIds(accountId, body)
+    if (!emailIds) {
       return c.json({ error: 'No email IDs or filters provided' }, 400)
     }
 
@@ -521,30 +660,20 @@ explorer.post('/accounts/:id/emails/trash', async (c) => {
       return c.json({ error: 'No emails match the criteria' }, 400)
     }
 
-    // No upper limit when using filters - process in batches
-    logger.debug(`[Explorer] Trashing ${emailIds.length} emails for account ${accountId}`)
-
-    // Trash emails in Gmail
-    const throttle = createGmailThrottle()
-    const { succeeded, failed } = await trashMessages(accountId, emailIds, throttle)
-
-    // Mark trashed emails in local database (set is_trash = 1)
-    if (succeeded > 0) {
-      // Mark emails as trashed to keep data consistent with Gmail
-      await markEmailsAsTrashed(accountId, emailIds)
-    }
+    logger.debug(`[Explorer] Queueing trash of ${emailIds.length} emails for account ${accountId}`)
 
-    logger.debug(`[Explorer] Trashed ${succeeded} emails, ${failed} failed`)
+    const job = await startCleanupJob(accountId, 'trash', emailIds)
 
-    return c.json({
-      success: true,
-      trashedCount: succeeded,
-      failedCount: failed,
-      message:
-        failed > 0
-          ? `Trashed ${succeeded} emails, ${failed} failed`
-          : `Successfully trashed ${succeeded} emails`,
-    })
+    return c.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        totalMessages: job.totalMessages,
+        message: `Trashing ${emailIds.length} emails`,
+      },
+      202
+    )
   } catch (error) {
     logger.error('[Explorer] Error trashing emails:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
@@ -559,6 +688,9 @@ explorer.post('/accounts/:id/emails/trash', async (c) => {
  * Body can contain either:
  * - emailIds: string[] - specific email IDs to delete
  * - filters: ExplorerFilters - filter criteria to match emails to delete
+ *
+ * The matching emails are resolved up front and deleted by a background job.
+ * Poll GET /accounts/:id/jobs/:jobId for progress.
  */
 explorer.post('/accounts/:id/emails/delete', async (c) => {
   const userId = c.get('userId')
@@ -583,14 +715,8 @@ explorer.post('/accounts/:id/emails/delete', async (c) => {
 
     const body = await c.req.json<{ emailIds?: string[]; filters?: ExplorerFilters }>()
 
-    // Get email IDs from either direct IDs or filters
-    let emailIds: string[]
-    if (body.filters && Object.keys(body.filters).length > 0) {
-      // Get all matching email IDs from filters
-      emailIds = await getMessageIdsByFilters(accountId, body.filters)
-    } else if (body.emailIds && Array.isArray(body.emailIds)) {
-      emailIds = body.emailIds
-    } else {
+    const emailIds = await resolveEmailIds(accountId, body)
+    if (!emailIds) {
       return c.json({ error: 'No email IDs or filters provided' }, 400)
     }
 
@@ -599,29 +725,339 @@ explorer.post('/accounts/:id/emails/delete', async (c) => {
     }
 
     logger.debug(
-      `[Explorer] Permanently deleting ${emailIds.length} emails for account ${accountId}`
+      `[Explorer] Queueing permanent delete of ${emailIds.length} emails for account ${accountId}`
     )
 
-    // 1. Delete from Gmail first - if this fails, local state stays consistent
-    await batchDeleteMessages(accountId, emailIds)
+    const job = await startCleanupJob(accountId, 'delete', emailIds)
+
+    return c.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        totalMessages: job.totalMessages,
+        message: `Deleting ${emailIds.length} emails`,
+      },
+      202
+    )
+  } catch (error) {
+    logger.error('[Explorer] Error permanently deleting emails:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to delete emails: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/explorer/accounts/:id/emails/archive
+ * Archive selected emails (remove the INBOX label, keep them in All Mail)
+ *
+ * Body can contain either:
+ * - emailIds: string[] - specific email IDs to archive
+ * - filters: ExplorerFilters - filter criteria to match emails to archive
+ *
+ * Emails that are already out of the inbox are skipped.
+ * Poll GET /accounts/:id/jobs/:jobId for progress.
+ */
+explorer.post('/accounts/:id/emails/archive', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    if (account.syncStatus !== 'completed') {
+      return c.json(
+        {
+          error: 'Sync not complete',
+          syncStatus: account.syncStatus,
+        },
+        400
+      )
+    }
+
+    const body = await c.req.json<{ emailIds?: string[]; filters?: ExplorerFilters }>()
+
+    const resolvedIds = await resolveEmailIds(accountId, body)
+    if (!resolvedIds) {
+      return c.json({ error: 'No email IDs or filters provided' }, 400)
+    }
 
-    // 2. Archive to Eternal Memory, then remove from local database
-    const { archived, deleted: deletedCount } = await archiveAndDeleteEmails(accountId, emailIds)
+    const emailIds = await filterInboxMessageIds(accountId, resolvedIds)
+    if (emailIds.length === 0) {
+      return c.json({ error: 'No emails match the criteria' }, 400)
+    }
 
     logger.debug(
-      `[Explorer] Permanently deleted ${deletedCount} emails (${archived} archived to Eternal Memory)`
+      `[Explorer] Queueing archive of ${emailIds.length} emails for account ${accountId}`
     )
 
+    const job = await startCleanupJob(accountId, 'archive', emailIds)
+
+    return c.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        totalMessages: job.totalMessages,
+        message: `Archiving ${emailIds.length} emails`,
+      },
+      202
+    )
+  } catch (error) {
+    logger.error('[Explorer] Error archiving emails:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to archive emails: ${message}` }, 500)
+  }
+})
+
+/**
+ * GET /api/explorer/accounts/:id/jobs/:jobId
+ * Get progress of a trash/delete job
+ */
+explorer.get('/accounts/:id/jobs/:jobId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const jobId = c.req.param('jobId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const job = await getCleanupJob(accountId, jobId)
+
+    if (!job) {
+      return c.json({ error: 'Job not found' }, 404)
+    }
+
+    return c.json({
+      jobId: job.id,
+      type: job.type,
+      ...calculateProgress(job),
+    })
+  } catch (error) {
+    logger.error('[Explorer] Error getting job progress:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to get job progress: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/explorer/accounts/:id/jobs/:jobId/pause
+ * Pause a trash/delete job after its current chunk
+ */
+explorer.post('/accounts/:id/jobs/:jobId/pause', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const jobId = c.req.param('jobId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const job = await pauseCleanupJob(accountId, jobId)
+
+    if (!job) {
+      return c.json({ success: false, message: 'No active job to pause' }, 400)
+    }
+
     return c.json({
       success: true,
-      deletedCount,
-      archivedCount: archived,
-      message: `Permanently deleted ${deletedCount} emails`,
+      jobId: job.id,
+      ...calculateProgress(job),
     })
   } catch (error) {
-    logger.error('[Explorer] Error permanently deleting emails:', error)
+    logger.error('[Explorer] Error pausing job:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
-    return c.json({ error: `Failed to delete emails: ${message}` }, 500)
+    return c.json({ error: `Failed to pause job: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/explorer/accounts/:id/jobs/:jobId/resume
+ * Resume a paused or failed trash/delete job from its last checkpoint
+ */
+explorer.post('/accounts/:id/jobs/:jobId/resume', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const jobId = c.req.param('jobId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const job = await resumeCleanupJob(accountId, jobId)
+
+    if (!job) {
+      return c.json({ success: false, message: 'No paused or failed job to resume' }, 400)
+    }
+
+    return c.json({
+      success: true,
+      jobId: job.id,
+      ...calculateProgress(job),
+    })
+  } catch (error) {
+    logger.error('[Explorer] Error resuming job:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to resume job: ${message}` }, 500)
+  }
+})
+
+/**
+ * DELETE /api/explorer/accounts/:id/jobs/:jobId
+ * Cancel a trash/delete job (already processed emails are not restored)
+ */
+explorer.delete('/accounts/:id/jobs/:jobId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const jobId = c.req.param('jobId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const cancelled = await cancelCleanupJob(accountId, jobId)
+
+    if (!cancelled) {
+      return c.json({ success: false, message: 'No active job to cancel' })
+    }
+
+    return c.json({ success: true, message: 'Job cancelled' })
+  } catch (error) {
+    logger.error('[Explorer] Error cancelling job:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to cancel job: ${message}` }, 500)
+  }
+})
+
+// ============================================================================
+// Eternal Memory Endpoints
+// ============================================================================
+
+// Untrash is one Gmail request per message - keep each call bounded
+const MAX_UNTRASH_PER_REQUEST = 500
+
+/**
+ * GET /api/explorer/accounts/:id/deleted
+ * Browse archived metadata of deleted emails (Eternal Memory)
+ *
+ * Query params:
+ * - page: Page number (default: 1)
+ * - limit: Page size (default: 50, max: 100)
+ * - ... filter params (same as /emails)
+ */
+explorer.get('/accounts/:id/deleted', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10))
+    const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '50', 10)))
+    const filters = parseFilters(c.req.query() as Record<string, string | undefined>)
+
+    const emails = await queryDeletedEmails(accountId, filters, { page, limit })
+    const { count: total, totalSizeBytes } = await countDeletedEmails(accountId, filters)
+
+    return c.json({
+      emails,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasMore: page * limit < total,
+      },
+      filters,
+      totalSizeBytes,
+    })
+  } catch (error) {
+    logger.error('[Explorer] Error querying deleted emails:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to query deleted emails: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/explorer/accounts/:id/deleted/untrash
+ * Restore archived emails that were only trashed (still within Gmail's 30-day window)
+ *
+ * Body:
+ * - emailIds: string[] - archived email IDs to restore
+ *
+ * Restored emails are moved back from Eternal Memory into the emails table.
+ * Emails that were permanently deleted are skipped.
+ */
+explorer.post('/accounts/:id/deleted/untrash', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const body = await c.req.json<{ emailIds?: string[] }>()
+
+    if (!body.emailIds || !Array.isArray(body.emailIds) || body.emailIds.length === 0) {
+      return c.json({ error: 'No email IDs provided' }, 400)
+    }
+
+    if (body.emailIds.length > MAX_UNTRASH_PER_REQUEST) {
+      return c.json(
+        { error: `Cannot restore more than ${MAX_UNTRASH_PER_REQUEST} emails at once` },
+        400
+      )
+    }
+
+    const restorableIds = await getRestorableDeletedEmailIds(accountId, body.emailIds)
+    const skippedCount = body.emailIds.length - restorableIds.length
+
+    logger.debug(
+      `[Explorer] Untrashing ${restorableIds.length} emails for account ${accountId} (${skippedCount} not restorable)`
+    )
+
+    const provider = await getMailProvider(accountId)
+    const { restored, failed } = await provider.untrashMessages(accountId, restorableIds)
+    const restoredCount = await restoreEmailsFromEternalMemory(accountId, restored)
+
+    return c.json({
+      success: true,
+      restoredCount,
+      failedCount: failed.length,
+      skippedCount,
+      message:
+        failed.length + skippedCount > 0
+          ? `Restored ${restoredCount} emails, ${failed.length + skippedCount} could not be restored`
+          : `Successfully restored ${restoredCount} emails`,
+    })
+  } catch (error) {
+    logger.error('[Explorer] Error restoring emails:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to restore emails: ${message}` }, 500)
   }
 })
 
@@ -706,6 +1142,55 @@ explorer.get('/accounts/:id/categories', async (c) => {
 // Subscriptions Endpoint
 // ============================================================================
 
+// Each sender may wait on a remote unsubscribe endpoint - keep each call bounded
+const MAX_UNSUBSCRIBE_SENDERS = 100
+
+/**
+ * Helper: Outcome of the last unsubscribe attempt for a sender
+ */
+function toUnsubscribeAttempt(row: UnsubscribedSender) {
+  return {
+    method: row.unsubscribeMethod,
+    status: row.unsubscribeStatus,
+    target: row.unsubscribeTarget,
+    httpStatus: row.httpStatus,
+    error: row.unsubscribeError,
+    attemptedAt: row.attemptedAt,
+  }
+}
+
+/**
+ * Helper: API shape of a sender that kept mailing after an unsubscribe
+ */
+function toViolationResponse(row: UnsubscribeViolation) {
+  return {
+    email: row.senderEmail,
+    name: row.senderName,
+    firstMessageId: row.firstMessageId,
+    firstEmailAt: Number(row.firstEmailAt),
+    lastEmailAt: Number(row.lastEmailAt),
+    emailCount: row.emailCount,
+    escalation: row.escalation,
+    escalatedAt: row.escalatedAt ? parseDbTimestamp(row.escalatedAt).toISOString() : null,
+    detectedAt: parseDbTimestamp(row.detectedAt).toISOString(),
+  }
+}
+
+/**
+ * Helper: Human-readable message for a single unsubscribe result
+ */
+function unsubscribeMessage(result: UnsubscribeResult): string {
+  if (result.status === 'success') {
+    return result.method === 'mailto'
+      ? `Unsubscribe email sent to ${result.target}`
+      : 'Unsubscribed from sender'
+  }
+  if (result.status === 'fallback_needed') {
+    return 'Sender does not support one-click unsubscribe - open the unsubscribe link manually'
+  }
+  return `Unsubscribe failed: ${result.error ?? 'Unknown error'}`
+}
+
 /**
  * Helper: Parse subscription filter query params
  */
@@ -803,21 +1288,28 @@ explorer.get('/accounts/:id/subscriptions', async (c) => {
     // Parse filters
     const filters = parseSubscriptionFilters(c.req.query() as Record<string, string | undefined>)
 
-    // Get unsubscribed sender emails for this account
+    // Get unsubscribe attempts for this account
     const unsubscribedRows = await db
-      .select({ senderEmail: tables.unsubscribedSenders.senderEmail })
+      .select()
       .from(tables.unsubscribedSenders)
       .where(eq(tables.unsubscribedSenders.mailAccountId, accountId))
 
-    const unsubscribedEmails = new Set(unsubscribedRows.map((r) => r.senderEmail.toLowerCase()))
+    const unsubscribedByEmail = new Map(
+      unsubscribedRows.map((r) => [r.senderEmail.toLowerCase(), r])
+    )
 
     const { senders, total } = await getSendersWithUnsubscribe(accountId, limit, offset, filters)
 
-    // Add isUnsubscribed flag - keep original order from query (by count or whatever sort is applied)
-    const sendersWithStatus = senders.map((s) => ({
-      ...s,
-      isUnsubscribed: unsubscribedEmails.has(s.email.toLowerCase()),
-    }))
+    // Add unsubscribe status - keep original order from query (by count or whatever sort is applied)
+    // Rows without an outcome were marked by hand before unsubscribing was automated
+    const sendersWithStatus = senders.map((s) => {
+      const row = unsubscribedByEmail.get(s.email.toLowerCase())
+      return {
+        ...s,
+        isUnsubscribed: !!row && (!row.unsubscribeStatus || row.unsubscribeStatus === 'success'),
+        unsubscribeAttempt: row?.unsubscribeStatus ? toUnsubscribeAttempt(row) : null,
+      }
+    })
 
     return c.json({
       subscriptions: sendersWithStatus,
@@ -839,13 +1331,18 @@ explorer.get('/accounts/:id/subscriptions', async (c) => {
 
 /**
  * POST /api/explorer/accounts/:id/subscriptions/unsubscribe
- * Mark one or more senders as unsubscribed
+ * Unsubscribe from one or more senders
+ *
+ * Uses RFC 8058 one-click (HTTPS POST) or the mailto: address from the sender's
+ * List-Unsubscribe header, and records the outcome per sender. Senders without either
+ * are recorded as fallback_needed so the user can open the link manually.
  *
  * Body:
  * - senderEmail: string - single email address (for single unsubscribe)
  * - senderName: string | null - optional name of the sender
  * OR
- * - senders: Array<{ email: string; name?: string | null }> - bulk unsubscribe
+ * - senders: Array<{ email: string; name?: string | null }> - bulk unsubscribe (max 100)
+ * - markOnly: boolean - only record as unsubscribed (user unsubscribed manually)
  */
 explorer.post('/accounts/:id/subscriptions/unsubscribe', async (c) => {
   const userId = c.get('userId')
@@ -862,97 +1359,108 @@ explorer.post('/accounts/:id/subscriptions/unsubscribe', async (c) => {
       senderEmail?: string
       senderName?: string | null
       senders?: Array<{ email: string; name?: string | null }>
+      markOnly?: boolean
     }>()
 
-    // Handle bulk unsubscribe
-    if (body.senders && Array.isArray(body.senders) && body.senders.length > 0) {
-      // Get existing unsubscribed senders
-      const existingRows = await db
-        .select({ senderEmail: tables.unsubscribedSenders.senderEmail })
-        .from(tables.unsubscribedSenders)
-        .where(eq(tables.unsubscribedSenders.mailAccountId, accountId))
-
-      const existingEmails = new Set(existingRows.map((r) => r.senderEmail.toLowerCase()))
-
-      // Filter out already unsubscribed
-      const newSenders = body.senders.filter((s) => !existingEmails.has(s.email.toLowerCase()))
-
-      if (newSenders.length > 0) {
-        // Insert new unsubscribed sender records
-        await db.insert(tables.unsubscribedSenders).values(
-          newSenders.map((s) => ({
-            mailAccountId: accountId,
-            senderEmail: s.email.toLowerCase(),
-            senderName: s.name ?? null,
-          }))
-        )
-      }
-
-      const alreadyUnsubscribed = body.senders.length - newSenders.length
+    const isBulk = Array.isArray(body.senders) && body.senders.length > 0
+    const requested = isBulk
+      ? body.senders!
+      : body.senderEmail
+        ? [{ email: body.senderEmail, name: body.senderName }]
+        : []
 
-      logger.debug(
-        `[Explorer] Bulk marked ${newSenders.length} senders as unsubscribed (${alreadyUnsubscribed} already unsubscribed) for account ${accountId}`
-      )
-
-      return c.json({
-        success: true,
-        message: `Marked ${newSenders.length} senders as unsubscribed`,
-        markedCount: newSenders.length,
-        alreadyUnsubscribedCount: alreadyUnsubscribed,
-      })
-    }
-
-    // Handle single unsubscribe (backward compatible)
-    if (!body.senderEmail) {
+    if (requested.length === 0) {
       return c.json({ error: 'senderEmail or senders array is required' }, 400)
     }
 
-    // Check if already unsubscribed
-    const existing = await db
-      .select()
-      .from(tables.unsubscribedSenders)
-      .where(
-        and(
-          eq(tables.unsubscribedSenders.mailAccountId, accountId),
-          eq(tables.unsubscribedSenders.senderEmail, body.senderEmail.toLowerCase())
-        )
+    if (requested.length > MAX_UNSUBSCRIBE_SENDERS) {
+      return c.json(
+        { error: `Cannot unsubscribe from more than ${MAX_UNSUBSCRIBE_SENDERS} senders at once` },
+        400
       )
-      .limit(1)
+    }
 
-    if (existing.length > 0) {
-      return c.json({
-        success: true,
-        message: 'Sender was already marked as unsubscribed',
-        alreadyUnsubscribed: true,
+    // Skip senders that are already unsubscribed - failed attempts can be retried
+    const existingRows = await db
+      .select({
+        senderEmail: tables.unsubscribedSenders.senderEmail,
+        unsubscribeStatus: tables.unsubscribedSenders.unsubscribeStatus,
       })
-    }
+      .from(tables.unsubscribedSenders)
+      .where(eq(tables.unsubscribedSenders.mailAccountId, accountId))
 
-    // Insert new unsubscribed sender record
-    await db.insert(tables.unsubscribedSenders).values({
-      mailAccountId: accountId,
-      senderEmail: body.senderEmail.toLowerCase(),
-      senderName: body.senderName ?? null,
+    const doneEmails = new Set(
+      existingRows
+        .filter((r) => !r.unsubscribeStatus || r.unsubscribeStatus === 'success')
+        .map((r) => r.senderEmail.toLowerCase())
+    )
+
+    const seen = new Set<string>()
+    const pending = requested.filter((s) => {
+      const email = s.email.toLowerCase()
+      if (doneEmails.has(email) || seen.has(email)) return false
+      seen.add(email)
+      return true
     })
+    const alreadyUnsubscribedCount = requested.length - pending.length
+
+    let results: UnsubscribeResult[]
+    if (body.markOnly) {
+      results = []
+      for (const sender of pending) {
+        const result: UnsubscribeResult = {
+          senderEmail: sender.email.toLowerCase(),
+          method: 'manual',
+          status: 'success',
+          target: null,
+          httpStatus: null,
+          error: null,
+        }
+        await recordUnsubscribeResult(accountId, result, sender.name ?? null)
+        results.push(result)
+      }
+    } else {
+      results = await unsubscribeSenders(accountId, pending)
+    }
+
+    const succeededCount = results.filter((r) => r.status === 'success').length
+    const fallbackCount = results.filter((r) => r.status === 'fallback_needed').length
+    const failedCount = results.filter((r) => r.status === 'failed').length
 
     logger.debug(
-      `[Explorer] Marked sender as unsubscribed: ${body.senderEmail} for account ${accountId}`
+      `[Explorer] Unsubscribed from ${succeededCount} senders (${fallbackCount} need manual unsubscribe, ${failedCount} failed, ${alreadyUnsubscribedCount} already unsubscribed) for account ${accountId}`
     )
 
+    let message: string
+    if (!isBulk) {
+      message = results[0] ? unsubscribeMessage(results[0]) : 'Sender was already unsubscribed'
+    } else {
+      const parts = [`Unsubscribed from ${succeededCount} senders`]
+      if (fallbackCount > 0) parts.push(`${fallbackCount} need manual unsubscribe`)
+      if (failedCount > 0) parts.push(`${failedCount} failed`)
+      message = parts.join(', ')
+    }
+
     return c.json({
-      success: true,
-      message: 'Sender marked as unsubscribed',
-      alreadyUnsubscribed: false,
+      success: failedCount === 0,
+      message,
+      markedCount: succeededCount,
+      alreadyUnsubscribedCount,
+      alreadyUnsubscribed: !isBulk && alreadyUnsubscribedCount > 0,
+      fallbackCount,
+      failedCount,
+      results,
     })
   } catch (error) {
-    logger.error('[Explorer] Error marking sender as unsubscribed:', error)
+    logger.error('[Explorer] Error unsubscribing senders:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
-    return c.json({ error: `Failed to mark as unsubscribed: ${message}` }, 500)
+    return c.json({ error: `Failed to unsubscribe: ${message}` }, 500)
   }
 })
 
 /**
  * GET /api/explorer/accounts/:id/subscriptions/unsubscribed
- * Get list of senders the user has unsubscribed from
+ * Get list of senders the user has unsubscribed from, with the last attempt's outcome
  */
 explorer.get('/accounts/:id/subscriptions/unsubscribed', async (c) => {
   const userId = c.get('userId')
@@ -975,6 +1483,7 @@ explorer.get('/accounts/:id/subscriptions/unsubscribed', async (c) => {
         email: u.senderEmail,
         name: u.senderName,
         unsubscribedAt: u.unsubscribedAt,
+        attempt: u.unsubscribeStatus ? toUnsubscribeAttempt(u) : null,
       })),
     })
   } catch (error) {
@@ -984,4 +1493,104 @@ explorer.get('/accounts/:id/subscriptions/unsubscribed', async (c) => {
   }
 })
 
+/**
+ * GET /api/explorer/accounts/:id/subscriptions/still-sending
+ * Get unsubscribed senders that kept emailing after the unsubscribe date
+ * Violations are detected after each delta sync; emails within graceDays of the
+ * unsubscribe don't count
+ */
+explorer.get('/accounts/:id/subscriptions/still-sending', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const violations = await getUnsubscribeViolations(accountId)
+
+    // Include when each sender was unsubscribed
+    const unsubscribedRows = await db
+      .select({
+        senderEmail: tables.unsubscribedSenders.senderEmail,
+        unsubscribedAt: tables.unsubscribedSenders.unsubscribedAt,
+      })
+      .from(tables.unsubscribedSenders)
+      .where(eq(tables.unsubscribedSenders.mailAccountId, accountId))
+
+    const unsubscribedAtByEmail = new Map(
+      unsubscribedRows.map((r) => [
+        r.senderEmail.toLowerCase(),
+        parseDbTimestamp(r.unsubscribedAt).toISOString(),
+      ])
+    )
+
+    return c.json({
+      senders: violations.map((v) => ({
+        ...toViolationResponse(v),
+        unsubscribedAt: unsubscribedAtByEmail.get(v.senderEmail) ?? null,
+      })),
+      graceDays: UNSUBSCRIBE_GRACE_DAYS,
+    })
+  } catch (error) {
+    logger.error('[Explorer] Error fetching senders still sending:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to fetch senders still sending: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/explorer/accounts/:id/subscriptions/still-sending/escalate
+ * Escalate a sender that is still sending after an unsubscribe
+ *
+ * Body:
+ * - senderEmail: string
+ * - action: 'filter' (Gmail filter that auto-trashes the sender) | 'spam' (report emails as spam)
+ */
+explorer.post('/accounts/:id/subscriptions/still-sending/escalate', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const body = await c.req.json<{ senderEmail?: string; action?: string }>()
+
+    if (!body.senderEmail) {
+      return c.json({ error: 'senderEmail is required' }, 400)
+    }
+
+    if (body.action !== 'filter' && body.action !== 'spam') {
+      return c.json({ error: "action must be 'filter' or 'spam'" }, 400)
+    }
+
+    const result = await escalateUnsubscribeViolation(accountId, body.senderEmail, body.action)
+
+    if (!result) {
+      return c.json({ error: 'Sender is not recorded as still sending' }, 404)
+    }
+
+    return c.json({
+      success: true,
+      message:
+        body.action === 'filter'
+          ? `Created filter to trash all mail from ${result.violation.senderEmail}`
+          : `Reported ${result.reportedCount} emails as spam`,
+      reportedCount: result.reportedCount,
+      sender: toViolationResponse(result.violation),
+    })
+  } catch (error) {
+    logger.error('[Explorer] Error escalating sender:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to escalate sender: ${message}` }, 500)
+  }
+})
+
 export default explorer
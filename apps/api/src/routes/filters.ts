@@ -1,23 +1,14 @@
 /**
- * Gmail Filters & Labels API Routes
+ * Filters & Labels API Routes
  *
- * Endpoints for managing Gmail filters (rules) and labels.
+ * Endpoints for managing filters (Gmail filters, Outlook inbox rules) and labels
+ * (Gmail labels, Outlook categories).
  * All routes require authentication and verify account ownership.
  */
 
 import { Hono } from 'hono'
 import type { MailAccount } from '../db'
 import {
-  listFilters,
-  getFilter,
-  createFilter,
-  updateFilter,
-  deleteFilter,
-  listLabels,
-  getLabel,
-  createLabel,
-  updateLabel,
-  deleteLabel,
   getMatchingEmailCount,
   applyFilterToExisting,
   testFilterCriteria,
@@ -26,15 +17,27 @@ import {
   type CreateLabelRequest,
   type UpdateLabelRequest,
 } from '../services/filters'
+import {
+  getMailProvider,
+  requireGmailAccount,
+  UnsupportedProviderError,
+} from '../services/providers'
 import { auth, type AuthVariables } from '../middleware/auth'
 import { verifyAccountOwnership } from '../middleware/ownership'
 import { logger } from '../lib/logger'
 import { startDeltaSync } from '../services/sync'
+import {
+  exportFilters,
+  previewFilterImport,
+  importFilters,
+  FilterXmlError,
+} from '../services/filter-xml'
+import { lintFilters, applyFilterLintFix } from '../services/filter-lint'
 
 const filters = new Hono<{ Variables: AuthVariables }>()
 
-// Apply auth middleware to all routes
-filters.use('*', auth())
+// Apply auth middleware to all routes (browser sessions or API tokens)
+filters.use('*', auth({ apiTokens: true }))
 
 // ============================================================================
 // Helper: Get account with ownership verification
@@ -63,7 +66,9 @@ filters.get('/accounts/:id/filters', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    const filterList = await listFilters(accountId)
+    const provider = await getMailProvider(accountId)
+
+    const filterList = await provider.listFilters(accountId)
 
     return c.json({ filters: filterList })
   } catch (error) {
@@ -73,6 +78,240 @@ filters.get('/accounts/:id/filters', async (c) => {
   }
 })
 
+/**
+ * GET /api/filters/accounts/:id/filters/export
+ * Download all filters as a mailFilters.xml file Gmail can import
+ */
+filters.get('/accounts/:id/filters/export', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    await requireGmailAccount(accountId, 'Filter export')
+
+    const xml = await exportFilters(accountId, account.email)
+
+    return new Response(xml, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="mailFilters.xml"',
+      },
+    })
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Filters] Error exporting filters:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to export filters: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/filters/accounts/:id/filters/import/preview
+ * Check the filters of a mailFilters.xml file against the account without writing anything
+ *
+ * Body:
+ * - xml: string - contents of the file
+ */
+filters.post('/accounts/:id/filters/import/preview', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    await requireGmailAccount(accountId, 'Filter import')
+
+    const body = await c.req.json<{ xml?: string }>()
+
+    if (typeof body.xml !== 'string' || !body.xml.trim()) {
+      return c.json({ error: 'xml is required' }, 400)
+    }
+
+    const preview = await previewFilterImport(accountId, body.xml)
+
+    return c.json(preview)
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError || error instanceof FilterXmlError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Filters] Error previewing filter import:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to read filters: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/filters/accounts/:id/filters/import
+ * Create the new filters of a mailFilters.xml file, and the labels they need
+ * Duplicates of existing filters are never created.
+ *
+ * Body:
+ * - xml: string - contents of the file
+ * - indexes: number[] - entries to import (optional, default all new ones)
+ */
+filters.post('/accounts/:id/filters/import', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    await requireGmailAccount(accountId, 'Filter import')
+
+    const body = await c.req.json<{ xml?: string; indexes?: unknown }>()
+
+    if (typeof body.xml !== 'string' || !body.xml.trim()) {
+      return c.json({ error: 'xml is required' }, 400)
+    }
+
+    if (
+      body.indexes !== undefined &&
+      (!Array.isArray(body.indexes) || !body.indexes.every((i) => Number.isInteger(i)))
+    ) {
+      return c.json({ error: 'indexes must be an array of entry indexes' }, 400)
+    }
+
+    const result = await importFilters(accountId, body.xml, body.indexes as number[] | undefined)
+
+    return c.json({
+      success: true,
+      ...result,
+      message: `Imported ${result.created} filter(s)`,
+    })
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError || error instanceof FilterXmlError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Filters] Error importing filters:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to import filters: ${message}` }, 500)
+  }
+})
+
+/**
+ * Months of mail the dead filter check looks at (?months=, default 6)
+ */
+function parseLintMonths(value: string | number | undefined): number | null {
+  if (value === undefined || value === '') return 6
+  const months = Number(value)
+  return Number.isInteger(months) && months >= 1 && months <= 120 ? months : null
+}
+
+/**
+ * GET /api/filters/accounts/:id/filters/lint
+ * Find duplicate, shadowed, conflicting and dead filters, each with a suggested fix
+ *
+ * Query:
+ * - months: number - filters that matched no synced mail in this many months are dead (default 6)
+ */
+filters.get('/accounts/:id/filters/lint', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    await requireGmailAccount(accountId, 'Filter linting')
+
+    const months = parseLintMonths(c.req.query('months'))
+    if (months === null) {
+      return c.json({ error: 'months must be a whole number between 1 and 120' }, 400)
+    }
+
+    const report = await lintFilters(accountId, account.syncStatus === 'completed', {
+      months,
+      checkDead: true,
+    })
+
+    return c.json(report)
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Filters] Error linting filters:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to lint filters: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/filters/accounts/:id/filters/lint/fix
+ * Apply the suggested fix of a lint finding
+ *
+ * Body:
+ * - findingId: string - ID of the finding
+ * - months: number - window the finding was found with (default 6)
+ */
+filters.post('/accounts/:id/filters/lint/fix', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    await requireGmailAccount(accountId, 'Filter linting')
+
+    const body = await c.req.json<{ findingId?: string; months?: number }>()
+
+    if (typeof body.findingId !== 'string' || !body.findingId) {
+      return c.json({ error: 'findingId is required' }, 400)
+    }
+
+    const months = parseLintMonths(body.months)
+    if (months === null) {
+      return c.json({ error: 'months must be a whole number between 1 and 120' }, 400)
+    }
+
+    const fixed = await applyFilterLintFix(
+      accountId,
+      body.findingId,
+      account.syncStatus === 'completed',
+      months
+    )
+
+    if (!fixed) {
+      return c.json({ error: 'This finding no longer applies' }, 409)
+    }
+
+    return c.json({
+      success: true,
+      finding: fixed,
+      message: fixed.fix.description,
+    })
+  } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Filters] Error fixing filters:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to fix filters: ${message}` }, 500)
+  }
+})
+
 /**
  * GET /api/filters/accounts/:id/filters/:filterId
  * Get a single filter by ID
@@ -89,7 +328,9 @@ filters.get('/accounts/:id/filters/:filterId', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    const filter = await getFilter(accountId, filterId)
+    const provider = await getMailProvider(accountId)
+
+    const filter = await provider.getFilter(accountId, filterId)
 
     if (!filter) {
       return c.json({ error: 'Filter not found' }, 404)
@@ -122,6 +363,8 @@ filters.post('/accounts/:id/filters', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
+    const provider = await getMailProvider(accountId)
+
     const body = await c.req.json<{ criteria: FilterCriteria; action: FilterAction }>()
 
     if (!body.criteria || !body.action) {
@@ -152,7 +395,7 @@ filters.post('/accounts/:id/filters', async (c) => {
       return c.json({ error: 'At least one filter action is required' }, 400)
     }
 
-    const filter = await createFilter(accountId, body.criteria, body.action)
+    const filter = await provider.createFilter(accountId, body.criteria, body.action)
 
     return c.json({
       success: true,
@@ -160,6 +403,9 @@ filters.post('/accounts/:id/filters', async (c) => {
       message: 'Filter created successfully',
     })
   } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
     logger.error('[Filters] Error creating filter:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: `Failed to create filter: ${message}` }, 500)
@@ -186,6 +432,8 @@ filters.put('/accounts/:id/filters/:filterId', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
+    const provider = await getMailProvider(accountId)
+
     const body = await c.req.json<{ criteria: FilterCriteria; action: FilterAction }>()
 
     if (!body.criteria || !body.action) {
@@ -193,12 +441,12 @@ filters.put('/accounts/:id/filters/:filterId', async (c) => {
     }
 
     // Verify the filter exists first
-    const existingFilter = await getFilter(accountId, filterId)
+    const existingFilter = await provider.getFilter(accountId, filterId)
     if (!existingFilter) {
       return c.json({ error: 'Filter not found' }, 404)
     }
 
-    const filter = await updateFilter(accountId, filterId, body.criteria, body.action)
+    const filter = await provider.updateFilter(accountId, filterId, body.criteria, body.action)
 
     return c.json({
       success: true,
@@ -228,13 +476,15 @@ filters.delete('/accounts/:id/filters/:filterId', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
+    const provider = await getMailProvider(accountId)
+
     // Verify the filter exists first
-    const existingFilter = await getFilter(accountId, filterId)
+    const existingFilter = await provider.getFilter(accountId, filterId)
     if (!existingFilter) {
       return c.json({ error: 'Filter not found' }, 404)
     }
 
-    await deleteFilter(accountId, filterId)
+    await provider.deleteFilter(accountId, filterId)
 
     return c.json({
       success: true,
@@ -263,7 +513,11 @@ filters.get('/accounts/:id/filters/:filterId/preview', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    const filter = await getFilter(accountId, filterId)
+    await requireGmailAccount(accountId, 'Filter previews')
+
+    const provider = await getMailProvider(accountId)
+
+    const filter = await provider.getFilter(accountId, filterId)
     if (!filter) {
       return c.json({ error: 'Filter not found' }, 404)
     }
@@ -275,6 +529,9 @@ filters.get('/accounts/:id/filters/:filterId/preview', async (c) => {
       filter,
     })
   } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
     logger.error('[Filters] Error getting filter preview:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: `Failed to get filter preview: ${message}` }, 500)
@@ -297,7 +554,11 @@ filters.post('/accounts/:id/filters/:filterId/apply', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    const filter = await getFilter(accountId, filterId)
+    await requireGmailAccount(accountId, 'Applying filters to existing emails')
+
+    const provider = await getMailProvider(accountId)
+
+    const filter = await provider.getFilter(accountId, filterId)
     if (!filter) {
       return c.json({ error: 'Filter not found' }, 404)
     }
@@ -329,6 +590,9 @@ filters.post('/accounts/:id/filters/:filterId/apply', async (c) => {
           : `Successfully applied filter to ${modified} emails`,
     })
   } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
     logger.error('[Filters] Error applying filter:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: `Failed to apply filter: ${message}` }, 500)
@@ -353,6 +617,8 @@ filters.post('/accounts/:id/test', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
+    await requireGmailAccount(accountId, 'Testing filters')
+
     const body = await c.req.json<{ criteria: FilterCriteria }>()
 
     if (!body.criteria) {
@@ -377,6 +643,9 @@ filters.post('/accounts/:id/test', async (c) => {
 
     return c.json(result)
   } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
     logger.error('[Filters] Error testing filter:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
     return c.json({ error: `Failed to test filter: ${message}` }, 500)
@@ -402,7 +671,9 @@ filters.get('/accounts/:id/labels', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    const labelList = await listLabels(accountId)
+    const provider = await getMailProvider(accountId)
+
+    const labelList = await provider.listLabels(accountId)
 
     // Separate system and user labels for easier consumption
     const systemLabels = labelList.filter((l) => l.type === 'system')
@@ -436,7 +707,9 @@ filters.get('/accounts/:id/labels/:labelId', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    const label = await getLabel(accountId, labelId)
+    const provider = await getMailProvider(accountId)
+
+    const label = await provider.getLabel(accountId, labelId)
 
     if (!label) {
       return c.json({ error: 'Label not found' }, 404)
@@ -471,13 +744,15 @@ filters.post('/accounts/:id/labels', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
+    const provider = await getMailProvider(accountId)
+
     const body = await c.req.json<CreateLabelRequest>()
 
     if (!body.name || body.name.trim() === '') {
       return c.json({ error: 'Label name is required' }, 400)
     }
 
-    const label = await createLabel(accountId, body)
+    const label = await provider.createLabel(accountId, body)
 
     return c.json({
       success: true,
@@ -519,8 +794,10 @@ filters.patch('/accounts/:id/labels/:labelId', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
+    const provider = await getMailProvider(accountId)
+
     // Verify the label exists and is a user label
-    const existingLabel = await getLabel(accountId, labelId)
+    const existingLabel = await provider.getLabel(accountId, labelId)
     if (!existingLabel) {
       return c.json({ error: 'Label not found' }, 404)
     }
@@ -531,7 +808,7 @@ filters.patch('/accounts/:id/labels/:labelId', async (c) => {
 
     const body = await c.req.json<UpdateLabelRequest>()
 
-    const label = await updateLabel(accountId, labelId, body)
+    const label = await provider.updateLabel(accountId, labelId, body)
 
     return c.json({
       success: true,
@@ -539,6 +816,9 @@ filters.patch('/accounts/:id/labels/:labelId', async (c) => {
       message: 'Label updated successfully',
     })
   } catch (error) {
+    if (error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
     logger.error('[Labels] Error updating label:', error)
     const message = error instanceof Error ? error.message : 'Unknown error'
 
@@ -567,8 +847,10 @@ filters.delete('/accounts/:id/labels/:labelId', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
+    const provider = await getMailProvider(accountId)
+
     // Verify the label exists and is a user label
-    const existingLabel = await getLabel(accountId, labelId)
+    const existingLabel = await provider.getLabel(accountId, labelId)
     if (!existingLabel) {
       return c.json({ error: 'Label not found' }, 404)
     }
@@ -577,7 +859,7 @@ filters.delete('/accounts/:id/labels/:labelId', async (c) => {
       return c.json({ error: 'System labels cannot be deleted' }, 403)
     }
 
-    await deleteLabel(accountId, labelId)
+    await provider.deleteLabel(accountId, labelId)
 
     return c.json({
       success: true,
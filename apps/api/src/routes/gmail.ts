@@ -9,7 +9,8 @@ import { Hono } from 'hono'
 import { eq, and } from 'drizzle-orm'
 import { db, tables } from '../db'
 import type { MailAccount, Job } from '../db'
-import { getQuickStats } from '../services/gmail'
+import { getMailProvider } from '../services/providers'
+import { getGmailQuotaStatus } from '../services/gmail-quota'
 import {
   startMetadataSync,
   resumeMetadataSync,
@@ -18,14 +19,20 @@ import {
   startDeltaSync,
 } from '../services/sync'
 import { getTopSenders, getEmailCount, calculateStats } from '../services/emails'
+import {
+  getSnapshots,
+  getStorageForecast,
+  setStorageQuota,
+  MAX_TREND_DAYS,
+} from '../services/snapshots'
 import { auth, type AuthVariables } from '../middleware/auth'
 import { verifyAccountOwnership } from '../middleware/ownership'
 import { logger } from '../lib/logger'
 
 const gmail = new Hono<{ Variables: AuthVariables }>()
 
-// Apply auth middleware to all routes
-gmail.use('*', auth())
+// Apply auth middleware to all routes (browser sessions or API tokens)
+gmail.use('*', auth({ apiTokens: true }))
 
 // ============================================================================
 // Helper: Get account with ownership verification
@@ -85,6 +92,78 @@ gmail.get('/accounts/:id/stats', async (c) => {
   }
 })
 
+/**
+ * GET /api/gmail/accounts/:id/trends
+ * Daily mailbox snapshots and a projection of when the storage quota is reached
+ *
+ * Query params:
+ * - days: Days of snapshots (default: 90, max: 365)
+ *
+ * Snapshots are recorded by the scheduler after the first delta sync of each day.
+ * reclaimedBytes is cumulative; the day-to-day difference is what jobs freed that day.
+ */
+gmail.get('/accounts/:id/trends', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const days = Math.min(
+      MAX_TREND_DAYS,
+      Math.max(1, parseInt(c.req.query('days') || '90', 10) || 90)
+    )
+    const snapshots = await getSnapshots(accountId, days)
+    const forecast = await getStorageForecast(accountId, snapshots)
+
+    return c.json({ snapshots, forecast, days })
+  } catch (error) {
+    logger.error('[Gmail] Error fetching trends:', error)
+    return c.json({ error: 'Failed to fetch trends' }, 500)
+  }
+})
+
+/**
+ * PUT /api/gmail/accounts/:id/storage-quota
+ * Set the account's Gmail storage quota used for the forecast
+ *
+ * Body:
+ * - quotaBytes: Quota in bytes, or null for the default (GMAIL_STORAGE_QUOTA_GB, 15 GB)
+ */
+gmail.put('/accounts/:id/storage-quota', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const body = await c.req.json<{ quotaBytes?: unknown }>()
+    const quotaBytes = body.quotaBytes ?? null
+
+    if (
+      quotaBytes !== null &&
+      (typeof quotaBytes !== 'number' || !Number.isSafeInteger(quotaBytes) || quotaBytes <= 0)
+    ) {
+      return c.json({ error: 'quotaBytes must be a positive integer or null' }, 400)
+    }
+
+    await setStorageQuota(accountId, quotaBytes)
+
+    return c.json({ success: true, quotaBytes })
+  } catch (error) {
+    logger.error('[Gmail] Error updating storage quota:', error)
+    return c.json({ error: 'Failed to update storage quota' }, 500)
+  }
+})
+
 // ============================================================================
 // Sync Endpoints (Step 2)
 // ============================================================================
@@ -104,9 +183,10 @@ gmail.post('/accounts/:id/sync', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    // Fetch message count from Gmail
+    // Fetch message count from the mailbox
     logger.debug(`[Gmail] Fetching message count before sync for account ${accountId}`)
-    const stats = await getQuickStats(accountId)
+    const provider = await getMailProvider(accountId)
+    const stats = await provider.getQuickStats(accountId)
     const totalMessages = stats.total
 
     // Start sync job
@@ -217,8 +297,8 @@ gmail.post('/accounts/:id/sync/delta', async (c) => {
       return c.json({ error: 'Account not found' }, 404)
     }
 
-    // Check if we have a completed sync (historyId stored)
-    if (!account.historyId) {
+    // Check if we have a completed sync (historyId or deltaLinks stored)
+    if (!account.historyId && !account.deltaLinks) {
       return c.json(
         {
           error: 'No previous sync found',
@@ -298,6 +378,35 @@ gmail.post('/accounts/:id/sync/resume', async (c) => {
   }
 })
 
+// ============================================================================
+// Quota
+// ============================================================================
+
+/**
+ * GET /api/gmail/accounts/:id/quota
+ * Live Gmail API quota utilisation for the account and its OAuth client
+ *
+ * Shared by every sync, cleanup job, filter apply and chat action on the account.
+ * byMethod breaks down the units used in the last minute.
+ */
+gmail.get('/accounts/:id/quota', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    return c.json(await getGmailQuotaStatus(accountId))
+  } catch (error) {
+    logger.error('[Gmail] Error getting quota status:', error)
+    return c.json({ error: 'Failed to get quota status' }, 500)
+  }
+})
+
 // ============================================================================
 // Data Endpoints (after sync complete)
 // ============================================================================
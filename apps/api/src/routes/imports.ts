@@ -0,0 +1,218 @@
+/**
+ * Import API Routes
+ *
+ * Start and follow import jobs that put messages back into Gmail, from an
+ * uploaded mbox/.eml archive or from the account's own backup archive.
+ * Pause, resume and cancel go through the Jobs API like any other job.
+ * All routes require authentication and verify account ownership.
+ */
+
+import { Hono } from 'hono'
+import { bodyLimit } from 'hono/body-limit'
+import type { Job } from '../db'
+import {
+  startUploadImportJob,
+  startBackupImportJob,
+  getImportJob,
+  getImportJobs,
+  getImportPayload,
+  getUploadLimitBytes,
+  ImportRequestError,
+} from '../services/import'
+import { parseDbTimestamp } from '../services/emails'
+import { UnsupportedProviderError } from '../services/providers'
+import { auth, type AuthVariables } from '../middleware/auth'
+import { verifyAccountOwnership } from '../middleware/ownership'
+import { logger } from '../lib/logger'
+
+const imports = new Hono<{ Variables: AuthVariables }>()
+
+// Apply auth middleware to all routes (browser sessions or API tokens)
+imports.use('*', auth({ apiTokens: true }))
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function toImportResponse(job: Job) {
+  const payload = getImportPayload(job)
+
+  return {
+    id: job.id,
+    status: job.status,
+    source: payload.source,
+    totalMessages: job.totalMessages,
+    processedMessages: job.processedMessages,
+    imported: payload.imported,
+    skipped: payload.skipped,
+    failed: payload.failed,
+    errors: payload.errors,
+    lastError: job.lastError,
+    createdAt: toIsoString(job.createdAt),
+    completedAt: toIsoString(job.completedAt),
+  }
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+/**
+ * GET /api/imports/accounts/:id
+ * Recent import jobs of an account, newest first
+ */
+imports.get('/accounts/:id', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const jobs = await getImportJobs(accountId)
+
+    return c.json({ imports: jobs.map(toImportResponse) })
+  } catch (error) {
+    logger.error('[Imports] Error listing imports:', error)
+    return c.json({ error: 'Failed to list imports' }, 500)
+  }
+})
+
+/**
+ * POST /api/imports/accounts/:id/upload
+ * Import uploaded files into Gmail
+ *
+ * Body (multipart/form-data):
+ * - files: One or more mbox files and/or .eml files
+ *
+ * The request may be at most IMPORT_UPLOAD_LIMIT_MB (default 512 MB) - larger
+ * uploads are rejected with 413 before they are read.
+ *
+ * Labels recorded in X-Gmail-Labels headers (Google Takeout) are restored;
+ * other messages go to the inbox. Messages already in the mailbox are skipped.
+ */
+imports.post(
+  '/accounts/:id/upload',
+  (c, next) =>
+    bodyLimit({
+      maxSize: getUploadLimitBytes(),
+      onError: (c) =>
+        c.json(
+          {
+            error: `Uploads are limited to ${Math.round(getUploadLimitBytes() / (1024 * 1024))} MB - split the archive or raise IMPORT_UPLOAD_LIMIT_MB`,
+          },
+          413
+        ),
+    })(c, next),
+  async (c) => {
+    const userId = c.get('userId')
+    const accountId = c.req.param('id')
+
+    try {
+      const account = await verifyAccountOwnership(userId, accountId)
+
+      if (!account) {
+        return c.json({ error: 'Account not found' }, 404)
+      }
+
+      const body = await c.req.parseBody({ all: true })
+      const files = [body.files ?? []].flat().filter((file): file is File => file instanceof File)
+
+      if (files.length === 0) {
+        return c.json({ error: 'files must contain at least one mbox or .eml file' }, 400)
+      }
+
+      const job = await startUploadImportJob(accountId, files)
+
+      return c.json(toImportResponse(job), 201)
+    } catch (error) {
+      if (error instanceof ImportRequestError || error instanceof UnsupportedProviderError) {
+        return c.json({ error: error.message }, 400)
+      }
+      logger.error('[Imports] Error starting upload import:', error)
+      return c.json({ error: 'Failed to start import' }, 500)
+    }
+  }
+)
+
+/**
+ * POST /api/imports/accounts/:id/backup
+ * Restore backed up messages into Gmail
+ *
+ * Body:
+ * - messageIds: Backed up messages to restore (optional, default: the whole archive)
+ *
+ * Labels recorded when the messages were deleted are restored where they still exist.
+ */
+imports.post('/accounts/:id/backup', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const body = await c.req
+      .json<{ messageIds?: unknown }>()
+      .catch(() => ({}) as { messageIds?: unknown })
+    const messageIds = body.messageIds
+
+    if (
+      messageIds !== undefined &&
+      (!Array.isArray(messageIds) || !messageIds.every((id) => typeof id === 'string'))
+    ) {
+      return c.json({ error: 'messageIds must be an array of message IDs' }, 400)
+    }
+
+    const job = await startBackupImportJob(accountId, messageIds as string[] | undefined)
+
+    return c.json(toImportResponse(job), 201)
+  } catch (error) {
+    if (error instanceof ImportRequestError || error instanceof UnsupportedProviderError) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[Imports] Error starting backup restore:', error)
+    return c.json({ error: 'Failed to start restore' }, 500)
+  }
+})
+
+/**
+ * GET /api/imports/accounts/:id/jobs/:jobId
+ * Progress, counters and per-message errors of an import job
+ */
+imports.get('/accounts/:id/jobs/:jobId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const jobId = c.req.param('jobId')
+
+  try {
+    const account = await verifyAccountOwnership(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const job = await getImportJob(accountId, jobId)
+
+    if (!job) {
+      return c.json({ error: 'Import not found' }, 404)
+    }
+
+    return c.json(toImportResponse(job))
+  } catch (error) {
+    logger.error('[Imports] Error getting import:', error)
+    return c.json({ error: 'Failed to get import' }, 500)
+  }
+})
+
+export default imports
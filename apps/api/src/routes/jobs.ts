@@ -0,0 +1,218 @@
+/**
+ * Jobs API Routes
+ *
+ * History and controls for every sync and cleanup job across the user's
+ * accounts, plus a live feed (SSE) of job progress.
+ */
+
+import { Hono, type Context } from 'hono'
+import { streamSSE } from 'hono/streaming'
+import {
+  listJobs,
+  getJobForUser,
+  getJobsToWatch,
+  isJobFinished,
+  pauseJob,
+  resumeJob,
+  retryJob,
+  cancelJob,
+  isJobType,
+  isJobStatus,
+  JobActionError,
+  type JobInfo,
+} from '../services/jobs'
+import { auth, type AuthVariables } from '../middleware/auth'
+import { logger } from '../lib/logger'
+
+const jobs = new Hono<{ Variables: AuthVariables }>()
+
+// Apply auth middleware to all routes (browser sessions or API tokens)
+jobs.use('*', auth({ apiTokens: true }))
+
+// How often the live feed checks for changes
+const EVENTS_POLL_INTERVAL_MS = 1000
+
+// Comment line sent when nothing changed, keeps proxies from closing the stream
+const EVENTS_KEEPALIVE_MS = 15 * 1000
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+type JobAction = (userId: string, jobId: string) => Promise<JobInfo>
+
+/**
+ * Run a job action, mapping a missing job to 404 and a wrong status to 400
+ */
+function handleJobAction(action: JobAction, description: string) {
+  return async (c: Context<{ Variables: AuthVariables }>) => {
+    const userId = c.get('userId')
+    const jobId = c.req.param('id')!
+
+    try {
+      const existing = await getJobForUser(userId, jobId)
+      if (!existing) {
+        return c.json({ error: 'Job not found' }, 404)
+      }
+
+      const job = await action(userId, jobId)
+      return c.json({ job })
+    } catch (error) {
+      if (error instanceof JobActionError) {
+        return c.json({ error: error.message }, 400)
+      }
+      logger.error(`[Jobs] Error trying to ${description} job:`, error)
+      return c.json({ error: `Failed to ${description} job` }, 500)
+    }
+  }
+}
+
+// ============================================================================
+// Jobs
+// ============================================================================
+
+/**
+ * GET /api/jobs
+ * List jobs across all of the user's accounts, newest first
+ *
+ * Query params:
+ * - type: sync | trash | delete | archive | label
+ * - status: pending | running | paused | completed | failed | cancelled
+ * - accountId: only jobs for this account
+ * - limit: Page size (default: 50, max: 200)
+ * - offset: Rows to skip (default: 0)
+ */
+jobs.get('/', async (c) => {
+  const userId = c.get('userId')
+  const type = c.req.query('type')
+  const status = c.req.query('status')
+
+  if (type && !isJobType(type)) {
+    return c.json({ error: `Unknown job type: ${type}` }, 400)
+  }
+  if (status && !isJobStatus(status)) {
+    return c.json({ error: `Unknown job status: ${status}` }, 400)
+  }
+
+  try {
+    const limit = Math.min(200, Math.max(1, parseInt(c.req.query('limit') || '50', 10) || 50))
+    const offset = Math.max(0, parseInt(c.req.query('offset') || '0', 10) || 0)
+
+    const result = await listJobs(userId, {
+      type: type && isJobType(type) ? type : undefined,
+      status: status && isJobStatus(status) ? status : undefined,
+      accountId: c.req.query('accountId') || undefined,
+      limit,
+      offset,
+    })
+
+    return c.json(result)
+  } catch (error) {
+    logger.error('[Jobs] Error listing jobs:', error)
+    return c.json({ error: 'Failed to list jobs' }, 500)
+  }
+})
+
+/**
+ * GET /api/jobs/events
+ * Live job updates (Server-Sent Events)
+ *
+ * Sends a `job` event with the full job whenever an active job changes,
+ * including when it finishes. Nothing is sent for jobs that are already done.
+ */
+jobs.get('/events', async (c) => {
+  const userId = c.get('userId')
+
+  return streamSSE(c, async (stream) => {
+    // Last sent state per job, to only send changes
+    const lastSent = new Map<string, string>()
+    let lastWriteAt = Date.now()
+
+    while (!stream.aborted) {
+      try {
+        const watched = await getJobsToWatch(userId, [...lastSent.keys()])
+
+        for (const job of watched) {
+          const signature = `${job.status}:${job.processed}:${job.total}:${job.lastError}`
+          const previous = lastSent.get(job.id)
+
+          // Finished before we started watching - the client already has it
+          if (previous === undefined && isJobFinished(job)) continue
+
+          if (previous !== signature) {
+            await stream.writeSSE({ event: 'job', data: JSON.stringify(job) })
+            lastWriteAt = Date.now()
+          }
+
+          if (isJobFinished(job)) {
+            lastSent.delete(job.id)
+          } else {
+            lastSent.set(job.id, signature)
+          }
+        }
+
+        if (Date.now() - lastWriteAt > EVENTS_KEEPALIVE_MS) {
+          await stream.write(': keepalive\n\n')
+          lastWriteAt = Date.now()
+        }
+      } catch (error) {
+        logger.error('[Jobs] Error streaming job events:', error)
+        await stream.writeSSE({
+          event: 'error',
+          data: JSON.stringify({ error: 'Job feed failed' }),
+        })
+        return
+      }
+
+      await stream.sleep(EVENTS_POLL_INTERVAL_MS)
+    }
+  })
+})
+
+/**
+ * GET /api/jobs/:id
+ * Get a single job
+ */
+jobs.get('/:id', async (c) => {
+  const userId = c.get('userId')
+  const jobId = c.req.param('id')
+
+  try {
+    const job = await getJobForUser(userId, jobId)
+
+    if (!job) {
+      return c.json({ error: 'Job not found' }, 404)
+    }
+
+    return c.json({ job })
+  } catch (error) {
+    logger.error('[Jobs] Error getting job:', error)
+    return c.json({ error: 'Failed to get job' }, 500)
+  }
+})
+
+/**
+ * POST /api/jobs/:id/pause
+ * Pause a pending or running job (running jobs stop after their current batch)
+ */
+jobs.post('/:id/pause', handleJobAction(pauseJob, 'pause'))
+
+/**
+ * POST /api/jobs/:id/resume
+ * Resume a paused job from its last checkpoint
+ */
+jobs.post('/:id/resume', handleJobAction(resumeJob, 'resume'))
+
+/**
+ * POST /api/jobs/:id/retry
+ * Retry a failed job from its last checkpoint
+ */
+jobs.post('/:id/retry', handleJobAction(retryJob, 'retry'))
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a job that hasn't finished (already processed emails are not restored)
+ */
+jobs.delete('/:id', handleJobAction(cancelJob, 'cancel'))
+
+export default jobs
@@ -0,0 +1,522 @@
+/**
+ * Mail Rules API Routes
+ *
+ * Endpoints for managing Inboxorcist-side mail rules, which are applied to newly
+ * synced mail and can be mirrored to Gmail filters.
+ * All routes require authentication and verify account ownership.
+ */
+
+import { Hono } from 'hono'
+import type { MailAccount, MailRule } from '../db'
+import {
+  parseMailRuleCriteria,
+  parseMailRuleActions,
+  getMirrorBlockers,
+  getMailRules,
+  getMailRule,
+  createMailRule,
+  updateMailRule,
+  deleteMailRule,
+  applyMailRule,
+  detectMailRuleDrift,
+  resolveMailRuleDrift,
+  MailRuleMirrorError,
+  type MailRuleCriteria,
+  type MailRuleActions,
+  type MailRuleInput,
+} from '../services/mail-rules'
+import { UnsupportedProviderError } from '../services/providers'
+import { parseDbTimestamp } from '../services/emails'
+import { auth, type AuthVariables } from '../middleware/auth'
+import { verifyAccountOwnership } from '../middleware/ownership'
+import { logger } from '../lib/logger'
+
+const mailRules = new Hono<{ Variables: AuthVariables }>()
+
+// Apply auth middleware to all routes
+mailRules.use('*', auth({ apiTokens: true }))
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function getAccountForUser(userId: string, accountId: string): Promise<MailAccount | null> {
+  return verifyAccountOwnership(userId, accountId)
+}
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function toRuleResponse(rule: MailRule) {
+  const criteria = parseMailRuleCriteria(rule)
+  return {
+    id: rule.id,
+    name: rule.name,
+    sequence: rule.sequence,
+    criteria,
+    actions: parseMailRuleActions(rule),
+    isEnabled: rule.isEnabled === 1,
+    mirrorToProvider: rule.mirrorToProvider === 1,
+    mirrorBlockers: getMirrorBlockers(criteria),
+    providerRuleId: rule.providerRuleId,
+    syncedAt: toIsoString(rule.syncedAt),
+    driftDetectedAt: toIsoString(rule.driftDetectedAt),
+    appliedCount: rule.appliedCount,
+    lastAppliedAt: toIsoString(rule.lastAppliedAt),
+    createdAt: toIsoString(rule.createdAt),
+  }
+}
+
+/**
+ * Errors the user can fix (not server failures)
+ */
+function isUserError(error: unknown): error is Error {
+  return error instanceof MailRuleMirrorError || error instanceof UnsupportedProviderError
+}
+
+function isLabelList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((id) => typeof id === 'string' && id.length > 0)
+}
+
+function isByteCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Validate rule criteria
+ * @returns The criteria without unknown or empty fields, or an error message
+ */
+function parseCriteria(value: unknown): { criteria: MailRuleCriteria } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'criteria must be an object' }
+  }
+
+  const body = value as Record<string, unknown>
+  const criteria: MailRuleCriteria = {}
+
+  for (const field of ['from', 'to', 'subject'] as const) {
+    if (body[field] === undefined || body[field] === null || body[field] === '') continue
+    if (typeof body[field] !== 'string') {
+      return { error: `criteria.${field} must be a string` }
+    }
+    const text = body[field].trim()
+    if (text) criteria[field] = text
+  }
+
+  for (const field of ['hasAttachment', 'isUnread'] as const) {
+    if (body[field] === undefined || body[field] === null) continue
+    if (typeof body[field] !== 'boolean') {
+      return { error: `criteria.${field} must be a boolean` }
+    }
+    criteria[field] = body[field]
+  }
+
+  if (body.notRepliedTo === true) criteria.notRepliedTo = true
+
+  for (const field of ['minSizeBytes', 'maxSizeBytes'] as const) {
+    if (body[field] === undefined || body[field] === null) continue
+    if (!isByteCount(body[field])) {
+      return { error: `criteria.${field} must be a non-negative integer` }
+    }
+    criteria[field] = body[field]
+  }
+
+  if (body.olderThanDays !== undefined && body.olderThanDays !== null) {
+    if (
+      typeof body.olderThanDays !== 'number' ||
+      !Number.isInteger(body.olderThanDays) ||
+      body.olderThanDays < 1
+    ) {
+      return { error: 'criteria.olderThanDays must be a positive integer' }
+    }
+    criteria.olderThanDays = body.olderThanDays
+  }
+
+  if (
+    criteria.minSizeBytes !== undefined &&
+    criteria.maxSizeBytes !== undefined &&
+    criteria.minSizeBytes > criteria.maxSizeBytes
+  ) {
+    return { error: 'criteria.minSizeBytes must not be larger than criteria.maxSizeBytes' }
+  }
+
+  // A rule without criteria would match every new email
+  if (Object.keys(criteria).length === 0) {
+    return { error: 'A rule needs at least one criterion' }
+  }
+
+  return { criteria }
+}
+
+/**
+ * Validate rule actions
+ * @returns The actions without unknown or empty fields, or an error message
+ */
+function parseActions(value: unknown): { actions: MailRuleActions } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'actions must be an object' }
+  }
+
+  const body = value as Record<string, unknown>
+  const actions: MailRuleActions = {}
+
+  for (const field of ['addLabelIds', 'removeLabelIds'] as const) {
+    if (body[field] === undefined || body[field] === null) continue
+    if (!isLabelList(body[field])) {
+      return { error: `actions.${field} must be an array of label IDs` }
+    }
+    if (body[field].length > 0) actions[field] = body[field]
+  }
+
+  for (const field of ['markRead', 'archive', 'trash'] as const) {
+    if (body[field] === true) actions[field] = true
+  }
+
+  if (Object.keys(actions).length === 0) {
+    return { error: 'A rule needs at least one action' }
+  }
+
+  return { actions }
+}
+
+/**
+ * Validate a create/update request body
+ * @param partial - true for updates, where every field is optional
+ * @returns The parsed input, or an error message
+ */
+function parseRuleInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { input: Partial<MailRuleInput> } | { error: string } {
+  const input: Partial<MailRuleInput> = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name is required' }
+    }
+    input.name = body.name.trim()
+  }
+
+  if (body.criteria !== undefined || !partial) {
+    const parsed = parseCriteria(body.criteria)
+    if ('error' in parsed) return parsed
+    input.criteria = parsed.criteria
+  }
+
+  if (body.actions !== undefined || !partial) {
+    const parsed = parseActions(body.actions)
+    if ('error' in parsed) return parsed
+    input.actions = parsed.actions
+  }
+
+  if (body.sequence !== undefined) {
+    if (typeof body.sequence !== 'number' || !Number.isInteger(body.sequence)) {
+      return { error: 'sequence must be an integer' }
+    }
+    input.sequence = body.sequence
+  }
+
+  if (body.isEnabled !== undefined) {
+    input.isEnabled = body.isEnabled === true
+  } else if (!partial) {
+    input.isEnabled = true
+  }
+
+  if (body.mirrorToProvider !== undefined) {
+    input.mirrorToProvider = body.mirrorToProvider === true
+  } else if (!partial) {
+    input.mirrorToProvider = false
+  }
+
+  return { input }
+}
+
+/**
+ * Mirrored rules must only use criteria Gmail filters support
+ */
+function validateMirror(criteria: MailRuleCriteria, mirrorToProvider: boolean): string | null {
+  const blockers = getMirrorBlockers(criteria)
+  if (mirrorToProvider && blockers.length > 0) {
+    return `Gmail filters can't match on ${blockers.join(', ')} - turn off mirroring or remove those criteria`
+  }
+  return null
+}
+
+// ============================================================================
+// Rule Endpoints
+// ============================================================================
+
+/**
+ * GET /api/mail-rules/accounts/:id/rules
+ * List mail rules in evaluation order
+ */
+mailRules.get('/accounts/:id/rules', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const rules = await getMailRules(accountId)
+
+    return c.json({ rules: rules.map(toRuleResponse) })
+  } catch (error) {
+    logger.error('[MailRules] Error listing mail rules:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to list mail rules: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/mail-rules/accounts/:id/rules
+ * Create a mail rule
+ *
+ * Body:
+ * - name: string
+ * - criteria: { from?, to?, subject?, hasAttachment?, minSizeBytes?, maxSizeBytes?,
+ *   olderThanDays?, isUnread?, notRepliedTo? }
+ * - actions: { addLabelIds?, removeLabelIds?, markRead?, archive?, trash? }
+ * - sequence?: number - evaluation order (default: after the existing rules)
+ * - isEnabled?: boolean (default true)
+ * - mirrorToProvider?: boolean (default false) - keep a Gmail filter in sync
+ */
+mailRules.post('/accounts/:id/rules', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const parsed = parseRuleInput(await c.req.json<Record<string, unknown>>(), false)
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const input = parsed.input as MailRuleInput
+    const mirrorError = validateMirror(input.criteria, input.mirrorToProvider)
+    if (mirrorError) {
+      return c.json({ error: mirrorError }, 400)
+    }
+
+    const rule = await createMailRule(accountId, input)
+
+    return c.json({ rule: toRuleResponse(rule) }, 201)
+  } catch (error) {
+    if (isUserError(error)) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[MailRules] Error creating mail rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to create mail rule: ${message}` }, 500)
+  }
+})
+
+/**
+ * PATCH /api/mail-rules/accounts/:id/rules/:ruleId
+ * Update a mail rule (any subset of the create fields)
+ */
+mailRules.patch('/accounts/:id/rules/:ruleId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const rule = await getMailRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    const parsed = parseRuleInput(await c.req.json<Record<string, unknown>>(), true)
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const { input } = parsed
+    const mirrorError = validateMirror(
+      input.criteria ?? parseMailRuleCriteria(rule),
+      input.mirrorToProvider ?? rule.mirrorToProvider === 1
+    )
+    if (mirrorError) {
+      return c.json({ error: mirrorError }, 400)
+    }
+
+    const updated = await updateMailRule(rule, input)
+
+    return c.json({ rule: toRuleResponse(updated) })
+  } catch (error) {
+    if (isUserError(error)) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[MailRules] Error updating mail rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to update mail rule: ${message}` }, 500)
+  }
+})
+
+/**
+ * DELETE /api/mail-rules/accounts/:id/rules/:ruleId
+ * Delete a mail rule and its mirrored Gmail filter
+ */
+mailRules.delete('/accounts/:id/rules/:ruleId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const rule = await getMailRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    await deleteMailRule(rule)
+
+    return c.json({ success: true })
+  } catch (error) {
+    logger.error('[MailRules] Error deleting mail rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to delete mail rule: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/mail-rules/accounts/:id/rules/:ruleId/run
+ * Apply a rule to the whole mailbox now (rules normally only see new mail)
+ *
+ * Body (optional):
+ * - dryRun?: boolean - only count the emails that would change
+ *
+ * Returns { changed }
+ */
+mailRules.post('/accounts/:id/rules/:ruleId/run', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    if (account.syncStatus !== 'completed') {
+      return c.json({ error: 'Sync not complete', syncStatus: account.syncStatus }, 400)
+    }
+
+    const rule = await getMailRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    const body = await c.req.json<{ dryRun?: boolean }>().catch(() => ({}) as { dryRun?: boolean })
+    const changed = await applyMailRule(rule, undefined, { dryRun: body.dryRun === true })
+
+    return c.json({ changed, dryRun: body.dryRun === true })
+  } catch (error) {
+    logger.error('[MailRules] Error running mail rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to run mail rule: ${message}` }, 500)
+  }
+})
+
+// ============================================================================
+// Drift Endpoints
+// ============================================================================
+
+/**
+ * POST /api/mail-rules/accounts/:id/drift/check
+ * Compare mirrored rules with the account's Gmail filters now
+ * (also done after every scheduled delta sync)
+ *
+ * Returns { drifted, rules }
+ */
+mailRules.post('/accounts/:id/drift/check', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const drifted = await detectMailRuleDrift(accountId)
+    const rules = await getMailRules(accountId)
+
+    return c.json({ drifted, rules: rules.map(toRuleResponse) })
+  } catch (error) {
+    logger.error('[MailRules] Error checking mail rule drift:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to check Gmail filters: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/mail-rules/accounts/:id/rules/:ruleId/drift/resolve
+ * Resolve a rule whose Gmail filter was changed in Gmail
+ *
+ * Body:
+ * - strategy: 'push' (overwrite the Gmail filter) | 'pull' (take Gmail's version)
+ */
+mailRules.post('/accounts/:id/rules/:ruleId/drift/resolve', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const rule = await getMailRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    if (!rule.providerRuleId) {
+      return c.json({ error: 'Rule is not mirrored to Gmail' }, 400)
+    }
+
+    const body = await c.req.json<{ strategy?: string }>()
+    if (body.strategy !== 'push' && body.strategy !== 'pull') {
+      return c.json({ error: "strategy must be 'push' or 'pull'" }, 400)
+    }
+
+    const updated = await resolveMailRuleDrift(rule, body.strategy)
+
+    return c.json({ rule: toRuleResponse(updated) })
+  } catch (error) {
+    if (isUserError(error)) {
+      return c.json({ error: error.message }, 400)
+    }
+    logger.error('[MailRules] Error resolving mail rule drift:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to resolve drift: ${message}` }, 500)
+  }
+})
+
+export default mailRules
@@ -0,0 +1,51 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { createApiToken } from '../services/api-tokens'
+import { getConnectedAccountsForUser } from '../services/oauth'
+import { createTestAccount } from '../test/helpers'
+import oauth from './oauth'
+
+let userId: string
+let accountId: string
+let token: string
+
+function request(method: string, path: string, body?: unknown) {
+  return oauth.request(path, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+beforeAll(async () => {
+  ;({ userId, accountId } = await createTestAccount())
+  ;({ token } = await createApiToken(userId, { name: 'script', scopes: ['read', 'cleanup'] }))
+})
+
+describe('API tokens on /oauth', () => {
+  test('can list connected accounts', async () => {
+    const res = await request('GET', '/gmail/accounts')
+
+    expect(res.status).toBe(200)
+    const { accounts } = (await res.json()) as { accounts: Array<{ id: string }> }
+    expect(accounts.map((account) => account.id)).toContain(accountId)
+  })
+
+  test('cannot disconnect an account', async () => {
+    const res = await request('DELETE', `/gmail/accounts/${accountId}`)
+
+    expect(res.status).toBe(401)
+    expect((await getConnectedAccountsForUser(userId)).map((account) => account.id)).toContain(
+      accountId
+    )
+  })
+
+  test('cannot connect an IMAP account', async () => {
+    const res = await request('POST', '/imap/accounts', {
+      email: 'someone@example.com',
+      host: 'localhost',
+      password: 'secret',
+    })
+
+    expect(res.status).toBe(401)
+  })
+})
@@ -1,17 +1,28 @@
 import { Hono } from 'hono'
 import { getConnectedAccountsForUser, deleteMailAccountForUser } from '../services/oauth'
+import {
+  DEFAULT_IMAP_PORTS,
+  verifyImapSettings,
+  connectImapAccount,
+  type ImapSettings,
+} from '../services/imap'
+import { triggerPostOAuthSync } from '../services/sync'
 import { auth, type AuthVariables } from '../middleware/auth'
+import type { ImapSecurity } from '../lib/imap'
+
+const IMAP_SECURITY: ImapSecurity[] = ['tls', 'starttls', 'none']
 
 const oauth = new Hono<{ Variables: AuthVariables }>()
 
 // All OAuth routes require authentication (user must be logged in to add Gmail accounts)
-oauth.use('*', auth())
+// API tokens can only list accounts, so scripts can find account IDs - adding and
+// disconnecting accounts needs a browser session
 
 /**
  * GET /oauth/gmail
  * Redirects to the auth flow for adding an additional Gmail account
  */
-oauth.get('/gmail', (c) => {
+oauth.get('/gmail', auth(), (c) => {
   const redirect = c.req.query('redirect') || '/'
   // Redirect to auth endpoint with add_account flag
   return c.redirect(`/auth/google?add_account=true&redirect=${encodeURIComponent(redirect)}`)
@@ -21,7 +32,7 @@ oauth.get('/gmail', (c) => {
  * GET /oauth/gmail/accounts
  * Returns all connected Gmail accounts for the current user
  */
-oauth.get('/gmail/accounts', async (c) => {
+oauth.get('/gmail/accounts', auth({ apiTokens: 'read' }), async (c) => {
   const userId = c.get('userId')
 
   try {
@@ -30,6 +41,7 @@ oauth.get('/gmail/accounts', async (c) => {
       accounts: accounts.map((account) => ({
         id: account.id,
         email: account.email,
+        provider: account.provider,
         connectedAt: account.createdAt,
         syncStatus: account.syncStatus,
         syncError: account.syncError,
@@ -45,7 +57,7 @@ oauth.get('/gmail/accounts', async (c) => {
  * DELETE /oauth/gmail/accounts/:id
  * Disconnect a Gmail account (only if owned by current user)
  */
-oauth.delete('/gmail/accounts/:id', async (c) => {
+oauth.delete('/gmail/accounts/:id', auth(), async (c) => {
   const userId = c.get('userId')
   const accountId = c.req.param('id')
 
@@ -61,4 +73,61 @@ oauth.delete('/gmail/accounts/:id', async (c) => {
   }
 })
 
+/**
+ * POST /oauth/imap/accounts
+ * Connect an IMAP account with an app password (or update its settings)
+ * The settings are checked with a test login before anything is stored.
+ */
+oauth.post('/imap/accounts', auth(), async (c) => {
+  const userId = c.get('userId')
+
+  // Storing a password needs a browser session
+  if (c.get('apiTokenId')) {
+    return c.json({ error: 'API tokens cannot connect IMAP accounts' }, 403)
+  }
+
+  const body = await c.req.json().catch(() => ({}))
+  const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : ''
+  const host = typeof body.host === 'string' ? body.host.trim() : ''
+  const security: ImapSecurity = IMAP_SECURITY.includes(body.security) ? body.security : 'tls'
+  const port =
+    body.port === undefined || body.port === '' ? DEFAULT_IMAP_PORTS[security] : Number(body.port)
+  const username =
+    typeof body.username === 'string' && body.username.trim() ? body.username.trim() : email
+  const password = typeof body.password === 'string' ? body.password : ''
+
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    return c.json({ error: 'A valid email address is required' }, 400)
+  }
+  if (!host || !password) {
+    return c.json({ error: 'Server and app password are required' }, 400)
+  }
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    return c.json({ error: 'Port must be between 1 and 65535' }, 400)
+  }
+
+  const settings: ImapSettings = { email, host, port, security, username, password }
+
+  try {
+    await verifyImapSettings(settings)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Could not connect to the IMAP server'
+    return c.json({ error: message }, 400)
+  }
+
+  try {
+    const { accountId, isNew, needsSync } = await connectImapAccount(userId, settings)
+
+    // Trigger background sync only if needed (new account or incomplete sync)
+    if (needsSync) {
+      await triggerPostOAuthSync(accountId)
+    }
+
+    return c.json({ success: true, accountId, isNew })
+  } catch (error) {
+    console.error('[OAuth] Error connecting IMAP account:', error)
+    return c.json({ error: 'Failed to connect IMAP account' }, 500)
+  }
+})
+
 export default oauth
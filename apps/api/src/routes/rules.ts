@@ -0,0 +1,428 @@
+/**
+ * Cleanup Rules API Routes
+ *
+ * Endpoints for managing scheduled cleanup rules ("recurring exorcisms") and
+ * their run history. All routes require authentication and verify account ownership.
+ */
+
+import { Hono } from 'hono'
+import type { MailAccount, CleanupRule, CleanupRuleAction, CleanupRuleRun } from '../db'
+import {
+  parseRuleFilters,
+  getCleanupRules,
+  getCleanupRule,
+  createCleanupRule,
+  updateCleanupRule,
+  deleteCleanupRule,
+  getCleanupRuleRuns,
+  runCleanupRule,
+  type CleanupRuleInput,
+  type CleanupRulePreviewEmail,
+} from '../services/cleanup'
+import type { ExplorerFilters } from '../services/emails'
+import { parseDbTimestamp } from '../services/emails'
+import { isValidCron } from '../lib/cron'
+import { auth, type AuthVariables } from '../middleware/auth'
+import { verifyAccountOwnership } from '../middleware/ownership'
+import { logger } from '../lib/logger'
+
+const rules = new Hono<{ Variables: AuthVariables }>()
+
+// Apply auth middleware to all routes
+rules.use('*', auth())
+
+const RULE_ACTIONS: CleanupRuleAction[] = ['trash', 'archive', 'label', 'delete']
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function getAccountForUser(userId: string, accountId: string): Promise<MailAccount | null> {
+  return verifyAccountOwnership(userId, accountId)
+}
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function toRuleResponse(rule: CleanupRule) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    filters: parseRuleFilters(rule),
+    olderThanDays: rule.olderThanDays,
+    action: rule.action,
+    labelId: rule.labelId,
+    schedule: rule.schedule,
+    isEnabled: rule.isEnabled === 1,
+    dryRun: rule.dryRun === 1,
+    lastRunAt: toIsoString(rule.lastRunAt),
+    nextRunAt: toIsoString(rule.nextRunAt),
+    createdAt: toIsoString(rule.createdAt),
+  }
+}
+
+function toRunResponse(run: CleanupRuleRun) {
+  let preview: CleanupRulePreviewEmail[] | null = null
+  if (run.preview) {
+    try {
+      preview = JSON.parse(run.preview) as CleanupRulePreviewEmail[]
+    } catch {
+      preview = null
+    }
+  }
+
+  return {
+    id: run.id,
+    jobId: run.jobId,
+    dryRun: run.dryRun === 1,
+    status: run.status,
+    matchedCount: run.matchedCount,
+    matchedSizeBytes: run.matchedSizeBytes,
+    processedCount: run.processedCount,
+    preview,
+    error: run.error,
+    startedAt: toIsoString(run.startedAt),
+    completedAt: toIsoString(run.completedAt),
+  }
+}
+
+/**
+ * Validate a create/update request body
+ * @param partial - true for updates, where every field is optional
+ * @returns The parsed input, or an error message
+ */
+function parseRuleInput(
+  body: Record<string, unknown>,
+  partial: boolean
+): { input: Partial<CleanupRuleInput> } | { error: string } {
+  const input: Partial<CleanupRuleInput> = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name is required' }
+    }
+    input.name = body.name.trim()
+  }
+
+  if (body.filters !== undefined || !partial) {
+    if (!body.filters || typeof body.filters !== 'object' || Array.isArray(body.filters)) {
+      return { error: 'filters must be an object' }
+    }
+    input.filters = body.filters as ExplorerFilters
+  }
+
+  if (body.olderThanDays !== undefined) {
+    if (
+      body.olderThanDays !== null &&
+      (typeof body.olderThanDays !== 'number' ||
+        !Number.isInteger(body.olderThanDays) ||
+        body.olderThanDays < 1)
+    ) {
+      return { error: 'olderThanDays must be a positive integer or null' }
+    }
+    input.olderThanDays = body.olderThanDays as number | null
+  } else if (!partial) {
+    input.olderThanDays = null
+  }
+
+  if (body.action !== undefined || !partial) {
+    if (!RULE_ACTIONS.includes(body.action as CleanupRuleAction)) {
+      return { error: `action must be one of: ${RULE_ACTIONS.join(', ')}` }
+    }
+    input.action = body.action as CleanupRuleAction
+  }
+
+  if (body.labelId !== undefined) {
+    if (body.labelId !== null && typeof body.labelId !== 'string') {
+      return { error: 'labelId must be a string' }
+    }
+    input.labelId = (body.labelId as string | null) || null
+  } else if (!partial) {
+    input.labelId = null
+  }
+
+  if (body.schedule !== undefined || !partial) {
+    if (typeof body.schedule !== 'string' || !isValidCron(body.schedule)) {
+      return { error: 'schedule must be a valid 5-field cron expression' }
+    }
+    input.schedule = body.schedule.trim()
+  }
+
+  if (body.isEnabled !== undefined) {
+    input.isEnabled = body.isEnabled === true
+  } else if (!partial) {
+    input.isEnabled = true
+  }
+
+  if (body.dryRun !== undefined) {
+    input.dryRun = body.dryRun === true
+  } else if (!partial) {
+    input.dryRun = false
+  }
+
+  return { input }
+}
+
+/**
+ * Rules must be narrowed down - a rule without filters or age would match the whole mailbox
+ */
+function validateRuleScope(
+  filters: ExplorerFilters,
+  olderThanDays: number | null,
+  action: CleanupRuleAction,
+  labelId: string | null
+): string | null {
+  const { sortBy: _sortBy, sortOrder: _sortOrder, ...criteria } = filters
+  if (Object.keys(criteria).length === 0 && olderThanDays === null) {
+    return 'A rule needs at least one filter or an age'
+  }
+  if (action === 'label' && !labelId) {
+    return 'labelId is required for the label action'
+  }
+  return null
+}
+
+// ============================================================================
+// Rule Endpoints
+// ============================================================================
+
+/**
+ * GET /api/rules/accounts/:id/rules
+ * List cleanup rules with their most recent run
+ */
+rules.get('/accounts/:id/rules', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const ruleList = await getCleanupRules(accountId)
+    const response = await Promise.all(
+      ruleList.map(async (rule) => {
+        const [lastRun] = await getCleanupRuleRuns(rule.id, 1)
+        return { ...toRuleResponse(rule), lastRun: lastRun ? toRunResponse(lastRun) : null }
+      })
+    )
+
+    return c.json({ rules: response })
+  } catch (error) {
+    logger.error('[Rules] Error listing cleanup rules:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to list cleanup rules: ${message}` }, 500)
+  }
+})
+
+/**
+ * POST /api/rules/accounts/:id/rules
+ * Create a cleanup rule
+ *
+ * Body:
+ * - name: string
+ * - filters: ExplorerFilters
+ * - olderThanDays?: number | null - only match emails older than this
+ * - action: 'trash' | 'archive' | 'label' | 'delete'
+ * - labelId?: string - label to apply (required for 'label')
+ * - schedule: string - 5-field cron expression
+ * - isEnabled?: boolean (default true)
+ * - dryRun?: boolean (default false) - only record what would be affected
+ */
+rules.post('/accounts/:id/rules', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const parsed = parseRuleInput(await c.req.json<Record<string, unknown>>(), false)
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const input = parsed.input as CleanupRuleInput
+    const scopeError = validateRuleScope(
+      input.filters,
+      input.olderThanDays,
+      input.action,
+      input.labelId
+    )
+    if (scopeError) {
+      return c.json({ error: scopeError }, 400)
+    }
+
+    const rule = await createCleanupRule(accountId, input)
+
+    return c.json({ rule: toRuleResponse(rule) }, 201)
+  } catch (error) {
+    logger.error('[Rules] Error creating cleanup rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to create cleanup rule: ${message}` }, 500)
+  }
+})
+
+/**
+ * PATCH /api/rules/accounts/:id/rules/:ruleId
+ * Update a cleanup rule (any subset of the create fields)
+ */
+rules.patch('/accounts/:id/rules/:ruleId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const rule = await getCleanupRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    const parsed = parseRuleInput(await c.req.json<Record<string, unknown>>(), true)
+    if ('error' in parsed) {
+      return c.json({ error: parsed.error }, 400)
+    }
+
+    const { input } = parsed
+    const scopeError = validateRuleScope(
+      input.filters ?? parseRuleFilters(rule),
+      input.olderThanDays !== undefined ? input.olderThanDays : rule.olderThanDays,
+      input.action ?? rule.action,
+      input.labelId !== undefined ? input.labelId : rule.labelId
+    )
+    if (scopeError) {
+      return c.json({ error: scopeError }, 400)
+    }
+
+    const updated = await updateCleanupRule(rule, input)
+
+    return c.json({ rule: toRuleResponse(updated) })
+  } catch (error) {
+    logger.error('[Rules] Error updating cleanup rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to update cleanup rule: ${message}` }, 500)
+  }
+})
+
+/**
+ * DELETE /api/rules/accounts/:id/rules/:ruleId
+ * Delete a cleanup rule and its run history
+ */
+rules.delete('/accounts/:id/rules/:ruleId', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const rule = await getCleanupRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    await deleteCleanupRule(rule)
+
+    return c.json({ success: true })
+  } catch (error) {
+    logger.error('[Rules] Error deleting cleanup rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to delete cleanup rule: ${message}` }, 500)
+  }
+})
+
+// ============================================================================
+// Run Endpoints
+// ============================================================================
+
+/**
+ * POST /api/rules/accounts/:id/rules/:ruleId/run
+ * Evaluate a rule now, outside its schedule
+ *
+ * Body (optional):
+ * - dryRun?: boolean - override the rule's dry-run setting for this run
+ */
+rules.post('/accounts/:id/rules/:ruleId/run', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    if (account.syncStatus !== 'completed') {
+      return c.json({ error: 'Sync not complete', syncStatus: account.syncStatus }, 400)
+    }
+
+    const rule = await getCleanupRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    const body = await c.req.json<{ dryRun?: boolean }>().catch(() => ({}) as { dryRun?: boolean })
+    const run = await runCleanupRule(rule, { dryRun: body.dryRun })
+
+    return c.json({ run: toRunResponse(run) })
+  } catch (error) {
+    logger.error('[Rules] Error running cleanup rule:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to run cleanup rule: ${message}` }, 500)
+  }
+})
+
+/**
+ * GET /api/rules/accounts/:id/rules/:ruleId/runs
+ * Run history of a rule, most recent first
+ *
+ * Query params:
+ * - limit: number (default 20, max 100)
+ */
+rules.get('/accounts/:id/rules/:ruleId/runs', async (c) => {
+  const userId = c.get('userId')
+  const accountId = c.req.param('id')
+  const ruleId = c.req.param('ruleId')
+
+  try {
+    const account = await getAccountForUser(userId, accountId)
+
+    if (!account) {
+      return c.json({ error: 'Account not found' }, 404)
+    }
+
+    const rule = await getCleanupRule(accountId, ruleId)
+    if (!rule) {
+      return c.json({ error: 'Rule not found' }, 404)
+    }
+
+    const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '20', 10) || 20))
+    const runs = await getCleanupRuleRuns(rule.id, limit)
+
+    return c.json({ runs: runs.map(toRunResponse) })
+  } catch (error) {
+    logger.error('[Rules] Error listing cleanup rule runs:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: `Failed to list cleanup rule runs: ${message}` }, 500)
+  }
+})
+
+export default rules
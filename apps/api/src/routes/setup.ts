@@ -5,6 +5,7 @@ import {
   isSetupRequired,
   isSetupCompleted,
   markSetupCompleted,
+  setLoginAllowlist,
   type ConfigKey,
 } from '../services/config'
 
@@ -27,6 +28,7 @@ app.get('/status', async (c) => {
   const googleClientId = await getConfig('google_client_id')
   const googleClientSecret = await getConfig('google_client_secret')
   const appUrl = await getConfig('app_url')
+  const loginAllowlist = await getConfig('login_allowlist')
 
   return c.json({
     setupRequired,
@@ -51,6 +53,12 @@ app.get('/status', async (c) => {
         source: appUrl.source,
         isEditable: appUrl.isEditable,
       },
+      login_allowlist: {
+        hasValue: loginAllowlist.value !== null,
+        value: loginAllowlist.value,
+        source: loginAllowlist.source,
+        isEditable: loginAllowlist.isEditable,
+      },
     },
   })
 })
@@ -63,7 +71,8 @@ app.get('/status', async (c) => {
  * {
  *   google_client_id?: string,
  *   google_client_secret?: string,
- *   app_url?: string
+ *   app_url?: string,
+ *   login_allowlist?: string // comma-separated emails or domains
  * }
  *
  * Only editable fields (not set via env) can be saved.
@@ -89,6 +98,7 @@ app.post('/', async (c) => {
     google_client_id?: string
     google_client_secret?: string
     app_url?: string
+    login_allowlist?: string
   }>()
 
   const errors: string[] = []
@@ -136,6 +146,16 @@ app.post('/', async (c) => {
     }
   }
 
+  // Allowlist is normalized (lowercased, deduped); an empty value removes it
+  if (body.login_allowlist !== undefined) {
+    try {
+      await setLoginAllowlist([body.login_allowlist])
+      saved.push('login_allowlist')
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : 'Failed to save login_allowlist')
+    }
+  }
+
   // Mark setup as completed if we now have all required config
   const stillRequired = await isSetupRequired()
   if (!stillRequired) {
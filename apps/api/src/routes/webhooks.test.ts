@@ -0,0 +1,93 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { db, tables } from '../db'
+import * as syncWorker from '../services/sync/worker'
+import { createTestAccount } from '../test/helpers'
+import webhooks from './webhooks'
+
+const TOKEN = 'push-secret'
+const HISTORY_ID = 1000
+
+let email: string
+let accountId: string
+const processDeltaSync = spyOn(syncWorker, 'processDeltaSync')
+
+/**
+ * POST a Pub/Sub push message to the Gmail webhook
+ */
+function push(body: unknown, token = TOKEN) {
+  return webhooks.request(`/gmail?token=${encodeURIComponent(token)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+}
+
+function notification(historyId: number | string) {
+  const data = Buffer.from(JSON.stringify({ emailAddress: email, historyId })).toString('base64')
+  return { message: { data, messageId: '1' }, subscription: 'projects/test/subscriptions/gmail' }
+}
+
+beforeAll(() => {
+  process.env.GMAIL_PUSH_TOPIC = 'projects/test/topics/gmail'
+  process.env.GMAIL_PUSH_TOKEN = TOKEN
+})
+
+beforeEach(async () => {
+  ;({ accountId, email } = await createTestAccount())
+  await db
+    .update(tables.mailAccounts)
+    .set({ syncStatus: 'completed', historyId: HISTORY_ID })
+    .where(eq(tables.mailAccounts.id, accountId))
+
+  processDeltaSync.mockReset()
+  processDeltaSync.mockResolvedValue({
+    added: 0,
+    deleted: 0,
+    labelChanges: 0,
+    newCursor: String(HISTORY_ID + 1),
+  })
+})
+
+afterEach(async () => {
+  // Let background syncs settle before the next test
+  await Bun.sleep(0)
+})
+
+afterAll(() => {
+  processDeltaSync.mockRestore()
+  delete process.env.GMAIL_PUSH_TOPIC
+  delete process.env.GMAIL_PUSH_TOKEN
+})
+
+describe('POST /gmail', () => {
+  test('rejects a wrong token', async () => {
+    const res = await push(notification(HISTORY_ID + 1), 'wrong-secret')
+
+    expect(res.status).toBe(401)
+    expect(processDeltaSync).not.toHaveBeenCalled()
+  })
+
+  test('acknowledges a malformed payload without syncing', async () => {
+    for (const body of ['not json', { message: {} }, { message: { data: 'bm90IGpzb24=' } }]) {
+      const res = await push(body)
+      expect(res.status).toBe(204)
+    }
+    expect(processDeltaSync).not.toHaveBeenCalled()
+  })
+
+  test('ignores a notification the account already synced past', async () => {
+    const res = await push(notification(HISTORY_ID))
+
+    expect(res.status).toBe(204)
+    expect(processDeltaSync).not.toHaveBeenCalled()
+  })
+
+  test('schedules a delta sync for a new change', async () => {
+    const res = await push(notification(HISTORY_ID + 1))
+
+    expect(res.status).toBe(204)
+    expect(processDeltaSync).toHaveBeenCalledTimes(1)
+    expect(processDeltaSync).toHaveBeenCalledWith(accountId)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Webhook Routes
+ *
+ * Endpoints called by external services rather than the web app.
+ * They don't use session auth - each one verifies its own shared secret.
+ */
+
+import { Hono } from 'hono'
+import {
+  getGmailPushConfig,
+  parseGmailPushMessage,
+  handleGmailPushNotification,
+} from '../services/gmail-push'
+import { secretsMatch } from '../lib/hash'
+import { logger } from '../lib/logger'
+
+const webhooks = new Hono()
+
+// ============================================================================
+// Gmail Push (Cloud Pub/Sub)
+// ============================================================================
+
+/**
+ * POST /api/webhooks/gmail?token=<GMAIL_PUSH_TOKEN>
+ * Pub/Sub push endpoint for Gmail watch notifications
+ *
+ * Runs a delta sync for the notified account in the background and acknowledges
+ * with 204. Malformed messages are acknowledged too, so Pub/Sub doesn't redeliver them.
+ */
+webhooks.post('/gmail', async (c) => {
+  const config = getGmailPushConfig()
+
+  if (!config) {
+    return c.json({ error: 'Gmail push is not enabled' }, 404)
+  }
+
+  const token = c.req.query('token') ?? ''
+  if (!secretsMatch(token, config.verificationToken)) {
+    logger.warn('[Webhooks] Gmail push with an invalid token')
+    return c.json({ error: 'Invalid token' }, 401)
+  }
+
+  try {
+    const body = await c.req.json().catch(() => null)
+    const notification = parseGmailPushMessage(body)
+
+    if (!notification) {
+      logger.warn('[Webhooks] Ignoring malformed Gmail push message')
+      return c.body(null, 204)
+    }
+
+    await handleGmailPushNotification(notification)
+    return c.body(null, 204)
+  } catch (error) {
+    // Non-2xx makes Pub/Sub retry with backoff
+    logger.error('[Webhooks] Error handling Gmail push:', error)
+    return c.json({ error: 'Failed to handle notification' }, 500)
+  }
+})
+
+export default webhooks
@@ -0,0 +1,179 @@
+import { eq, and, count, isNull, inArray } from 'drizzle-orm'
+import { db, tables, dbType } from '../db'
+import { hashForLog } from '../lib/hash'
+import { logger } from '../lib/logger'
+import { revokeAllSessions, deleteUser } from './auth'
+
+/**
+ * Admin service
+ * Instance-wide user management for self-hosted deployments
+ */
+
+/**
+ * Error for admin actions that are not allowed (e.g. removing the last admin)
+ */
+export class AdminActionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AdminActionError'
+  }
+}
+
+/**
+ * Mail account summary shown on the admin page
+ */
+export interface AdminMailAccount {
+  id: string
+  email: string
+  provider: string
+  syncStatus: string
+  syncCompletedAt: Date | string | null
+  createdAt: Date | string
+}
+
+/**
+ * User with their connected mail accounts
+ */
+export interface AdminUser {
+  id: string
+  email: string
+  name: string | null
+  picture: string | null
+  isAdmin: boolean
+  disabledAt: Date | string | null
+  createdAt: Date | string
+  activeSessions: number
+  mailAccounts: AdminMailAccount[]
+}
+
+/**
+ * List every user on the instance with their mail accounts and session counts
+ */
+export async function listUsers(): Promise<AdminUser[]> {
+  const users = await db.select().from(tables.users).orderBy(tables.users.createdAt)
+  if (users.length === 0) return []
+
+  const userIds = users.map((u) => u.id)
+
+  const accounts = await db
+    .select({
+      id: tables.mailAccounts.id,
+      userId: tables.mailAccounts.userId,
+      email: tables.mailAccounts.email,
+      provider: tables.mailAccounts.provider,
+      syncStatus: tables.mailAccounts.syncStatus,
+      syncCompletedAt: tables.mailAccounts.syncCompletedAt,
+      createdAt: tables.mailAccounts.createdAt,
+    })
+    .from(tables.mailAccounts)
+    .where(inArray(tables.mailAccounts.userId, userIds))
+    .orderBy(tables.mailAccounts.createdAt)
+
+  const sessionCounts = await db
+    .select({ userId: tables.sessions.userId, count: count() })
+    .from(tables.sessions)
+    .where(and(inArray(tables.sessions.userId, userIds), isNull(tables.sessions.revokedAt)))
+    .groupBy(tables.sessions.userId)
+
+  const accountsByUser = new Map<string, AdminMailAccount[]>()
+  for (const { userId, ...account } of accounts) {
+    const list = accountsByUser.get(userId) ?? []
+    list.push(account)
+    accountsByUser.set(userId, list)
+  }
+  const sessionsByUser = new Map(sessionCounts.map((s) => [s.userId, s.count]))
+
+  return users.map((user) => ({
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    picture: user.picture,
+    isAdmin: user.isAdmin === 1,
+    disabledAt: user.disabledAt,
+    createdAt: user.createdAt,
+    activeSessions: sessionsByUser.get(user.id) ?? 0,
+    mailAccounts: accountsByUser.get(user.id) ?? [],
+  }))
+}
+
+/**
+ * Check whether a user is an admin
+ */
+export async function isUserAdmin(userId: string): Promise<boolean> {
+  const [user] = await db
+    .select({ isAdmin: tables.users.isAdmin })
+    .from(tables.users)
+    .where(eq(tables.users.id, userId))
+    .limit(1)
+
+  return user?.isAdmin === 1
+}
+
+/**
+ * Ensure an action on `targetUserId` leaves at least one active admin
+ */
+async function assertNotLastAdmin(targetUserId: string): Promise<void> {
+  const admins = await db
+    .select({ id: tables.users.id })
+    .from(tables.users)
+    .where(and(eq(tables.users.isAdmin, 1), isNull(tables.users.disabledAt)))
+
+  if (admins.length === 1 && admins[0]!.id === targetUserId) {
+    throw new AdminActionError('The instance needs at least one active admin')
+  }
+}
+
+/**
+ * Disable or re-enable a user
+ * Disabling revokes all of the user's sessions so they are signed out immediately.
+ */
+export async function setUserDisabled(userId: string, disabled: boolean): Promise<void> {
+  if (disabled) {
+    await assertNotLastAdmin(userId)
+  }
+
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  await db
+    .update(tables.users)
+    .set({
+      disabledAt: disabled ? (now as Date) : null,
+      updatedAt: now as Date,
+    })
+    .where(eq(tables.users.id, userId))
+
+  if (disabled) {
+    await revokeAllSessions(userId)
+  }
+
+  logger.info(`[Admin] ${disabled ? 'Disabled' : 'Enabled'} user ${hashForLog(userId)}`)
+}
+
+/**
+ * Grant or revoke the admin role
+ */
+export async function setUserAdmin(userId: string, isAdmin: boolean): Promise<void> {
+  if (!isAdmin) {
+    await assertNotLastAdmin(userId)
+  }
+
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  await db
+    .update(tables.users)
+    .set({ isAdmin: isAdmin ? 1 : 0, updatedAt: now as Date })
+    .where(eq(tables.users.id, userId))
+
+  logger.info(`[Admin] ${isAdmin ? 'Granted' : 'Revoked'} admin for user ${hashForLog(userId)}`)
+}
+
+/**
+ * Delete a user with their sessions, mail accounts and synced data
+ */
+export async function deleteUserAsAdmin(userId: string): Promise<void> {
+  await assertNotLastAdmin(userId)
+  await revokeAllSessions(userId)
+  await deleteUser(userId)
+
+  logger.info(`[Admin] Deleted user ${hashForLog(userId)}`)
+}
@@ -237,6 +237,7 @@ Explain safety level:
 - Only perform ONE destructive action per response
 - Wait for user confirmation before proceeding to next cleanup
 - Use trashEmails (recoverable) unless user explicitly says "permanently delete"
+- Use archiveEmails when the user wants emails out of the inbox but kept
 
 ## Step 5: PREVENT (Suggest filters)
 After cleanup, offer to create Gmail filters to prevent re-accumulation:
@@ -261,14 +262,16 @@ When you notice these conditions, proactively offer help:
 ## Analysis Tools (No approval required)
 
 **queryEmails** - Primary query and analysis tool
-- Filters: sender, senderEmail, senderDomain, category, dateFrom, dateTo, sizeMin, sizeMax, search, hasAttachments, isUnread, isStarred, isImportant, isTrash, isSpam, isSent, isArchived, labelIds
+- Filters: sender, senderEmail, senderDomain, toEmail, toDomain, listId, category, dateFrom, dateTo, sizeMin, sizeMax, search, hasAttachments, isUnread, isStarred, isImportant, isTrash, isSpam, isSent, isArchived, labelIds
 - Output modes:
   - No breakdownBy → Returns queryId + summary (use <email-table> to display)
   - breakdownBy: "sender" | "category" | "month" → Returns aggregated breakdown
-- Search supports boolean operators (no quotes needed):
+- Search is full-text over subject, snippet, sender and attachment filenames:
+  - word1 word2 → matches emails containing ALL words (word prefixes match: "verif" finds "verification")
   - term1 OR term2 OR term3 → matches emails containing ANY of the terms
-  - term1 AND term2 → matches emails containing ALL terms
-  - Example: verification code OR OTP OR security code OR login code
+  - "exact phrase" → words in this order; -word or -"phrase" excludes matches
+  - from:, subject:, filename: → restrict a word or phrase to one field (e.g. filename:pdf)
+  - Example: verification code OR OTP OR "security code" -newsletter
 - IMPORTANT: Always set isTrash=false and isSpam=false unless specifically searching those folders
 
 **listSubscriptions** - Find newsletter/marketing senders
@@ -291,6 +294,11 @@ When you notice these conditions, proactively offer help:
 - Pass queryId from queryEmails result
 - Safe: User can recover from trash within 30 days
 
+**archiveEmails** - Archive emails (remove INBOX label, keep in All Mail)
+- Use when user says "archive" or wants to clear the inbox without deleting
+- Pass queryId from queryEmails result
+- Only emails still in the inbox are affected
+
 **deleteEmails** - PERMANENTLY delete emails (CANNOT BE UNDONE)
 - Only use when user EXPLICITLY says "permanently delete" or "delete forever"
 - Pass queryId from queryEmails result
@@ -339,6 +347,8 @@ ${userLabelsSection}
    - sender: Fuzzy match on name or email (use for company names like "Amazon")
    - senderEmail: Exact email address(es), comma-separated
    - senderDomain: Exact domain(s) like "amazon.com", comma-separated
+   - toEmail/toDomain: Recipient address(es) or domain(s) in To, Cc or Delivered-To (e.g. mail sent to an alias)
+   - listId: Mailing list identifier from the List-Id header, partial match (e.g. "rust-lang.org")
 
 5. **Date filtering**
    - dateFrom/dateTo: ISO date strings (e.g., "2024-01-01")
@@ -347,11 +357,13 @@ ${userLabelsSection}
 6. **Large emails ≠ attachments**
    Don't add hasAttachments filter when searching by size—large emails can be newsletters with images
 
-7. **Search with boolean operators**
+7. **Search syntax**
    - Use OR for multiple alternatives: verification code OR OTP OR security code
-   - Use AND for required terms: amazon AND order
-   - Don't mix OR and AND in the same query
-   - Quotes are NOT needed - each term is searched as a substring
+   - Words next to each other are all required (AND is implicit): amazon order
+   - AND binds tighter than OR: "amazon order OR ebay order" = (amazon AND order) OR (ebay AND order)
+   - Quote exact phrases ("order shipped"), exclude with a minus (-newsletter)
+   - Field prefixes: from:amazon, subject:"your receipt", filename:invoice
+   - Results without an explicit sort are ranked by relevance
 
 8. **Start broad, then narrow**
    Begin with fewer filters, add more if results are too broad
@@ -17,12 +17,14 @@ import { getCleanupQueries } from './prompt'
 // Import existing service functions
 import {
   queryEmailsUnified,
+  getMessageIdsByFilters,
   getMessageIdsByFiltersWithSize,
+  filterInboxMessageIds,
   getEmailContent,
   getSendersWithUnsubscribe,
   type ExplorerFilters,
 } from '../emails'
-import { listLabels, listFilters } from '../filters'
+import { getMailProvider, getAccountProvider, PROVIDER_NAMES } from '../providers'
 
 /**
  * Convert tool parameters to ExplorerFilters
@@ -37,6 +39,9 @@ export function toExplorerFilters(params: {
   sender?: string | null
   senderEmail?: string | null
   senderDomain?: string | null
+  toEmail?: string | null
+  toDomain?: string | null
+  listId?: string | null
   category?: string | null
   dateFrom?: string | null
   dateTo?: string | null
@@ -68,6 +73,18 @@ export function toExplorerFilters(params: {
     filters.senderDomain = params.senderDomain.trim()
   }
 
+  if (params.toEmail && params.toEmail.trim() !== '') {
+    filters.toEmail = params.toEmail.trim()
+  }
+
+  if (params.toDomain && params.toDomain.trim() !== '') {
+    filters.toDomain = params.toDomain.trim()
+  }
+
+  if (params.listId && params.listId.trim() !== '') {
+    filters.listId = params.listId.trim()
+  }
+
   if (params.category && params.category.trim() !== '') {
     filters.category = params.category.trim()
   }
@@ -143,6 +160,11 @@ function buildFilterDescription(filters: ExplorerFilters): string {
   if (filters.senderEmail) details.push(`from ${filters.senderEmail}`)
   if (filters.senderDomain) details.push(`from @${filters.senderDomain}`)
 
+  // Recipient and mailing list filters
+  if (filters.toEmail) details.push(`to ${filters.toEmail}`)
+  if (filters.toDomain) details.push(`to @${filters.toDomain}`)
+  if (filters.listId) details.push(`on list "${filters.listId}"`)
+
   // Category
   if (filters.category)
     details.push(`in ${filters.category.replace('CATEGORY_', '').toLowerCase()}`)
@@ -157,7 +179,7 @@ function buildFilterDescription(filters: ExplorerFilters): string {
   if (filters.sizeMax) details.push(`smaller than ${formatBytes(filters.sizeMax)}`)
 
   // Search
-  if (filters.search) details.push(`subject contains "${filters.search}"`)
+  if (filters.search) details.push(`matching "${filters.search}"`)
 
   // Labels
   if (filters.labelIds) details.push(`with label ${filters.labelIds}`)
@@ -249,6 +271,12 @@ export function createTools(accountId: string) {
 - senderEmail: exact email(s) comma-separated
 - senderDomain: exact domain(s) comma-separated
 
+**Recipient filters** (match To, Cc or Delivered-To):
+- toEmail: exact recipient email(s) comma-separated, e.g. an alias like me+shop@gmail.com
+- toDomain: exact recipient domain(s) comma-separated
+
+**Mailing list:** listId - partial match on the List-Id header, e.g. "github.com"
+
 **Category:** CATEGORY_PROMOTIONS|SOCIAL|UPDATES|FORUMS|PERSONAL
 
 **Date filters:** dateFrom/dateTo as ISO date strings
@@ -267,6 +295,10 @@ export function createTools(accountId: string) {
 
 **Labels:** labelIds - comma-separated Gmail label IDs
 
+**Search:** full-text over subject, snippet, sender and attachment filenames, ranked by relevance.
+Words are ANDed (prefix match), OR between alternatives, "exact phrase", -exclude,
+field prefixes from:/subject:/filename: (e.g. filename:pdf -from:amazon)
+
 **Output modes:**
 - breakdownBy: sender|category|month (null = return email list)
 - sortBy: count|size (for breakdown)
@@ -275,6 +307,17 @@ export function createTools(accountId: string) {
         sender: z.string().nullable().optional().describe('Partial match on sender name/email'),
         senderEmail: z.string().nullable().optional().describe('Exact email(s), comma-separated'),
         senderDomain: z.string().nullable().optional().describe('Exact domain(s), comma-separated'),
+        toEmail: z
+          .string()
+          .nullable()
+          .optional()
+          .describe('Exact recipient email(s) in To/Cc/Delivered-To, comma-separated'),
+        toDomain: z
+          .string()
+          .nullable()
+          .optional()
+          .describe('Exact recipient domain(s) in To/Cc/Delivered-To, comma-separated'),
+        listId: z.string().nullable().optional().describe('Partial match on List-Id header'),
         category: z
           .enum([
             'CATEGORY_PROMOTIONS',
@@ -290,7 +333,11 @@ export function createTools(accountId: string) {
         dateTo: z.string().nullable().optional().describe('Emails before this ISO date'),
         sizeMin: z.number().nullable().optional().describe('Min size in bytes'),
         sizeMax: z.number().nullable().optional().describe('Max size in bytes'),
-        search: z.string().nullable().optional().describe('Search in subject'),
+        search: z
+          .string()
+          .nullable()
+          .optional()
+          .describe('Full-text search (subject, snippet, sender, filenames)'),
         labelIds: z.string().nullable().optional().describe('Comma-separated Gmail label IDs'),
         hasAttachments: z.boolean().nullable().optional().describe('Has attachments'),
         isUnread: z.boolean().nullable().optional().describe('Is unread'),
@@ -362,6 +409,14 @@ export function createTools(accountId: string) {
         messageId: z.string().describe('The message ID from queryEmails results'),
       }),
       execute: async ({ messageId }) => {
+        // Message bodies are only fetched from Gmail
+        const mailProvider = await getAccountProvider(accountId)
+        if (mailProvider !== 'gmail') {
+          return {
+            error: `Email content is not available for ${PROVIDER_NAMES[mailProvider]} accounts`,
+          }
+        }
+
         const content = await getEmailContent(accountId, messageId)
         if (!content) {
           return { error: 'Email not found or could not be fetched' }
@@ -384,10 +439,11 @@ export function createTools(accountId: string) {
     }),
 
     listLabels: tool({
-      description: 'Get all Gmail labels for the account. Includes both system and user labels.',
+      description:
+        'Get all labels for the account (Outlook: categories). Includes both system and user labels.',
       inputSchema: z.object({}),
       execute: async () => {
-        const labels = await listLabels(accountId)
+        const labels = await (await getMailProvider(accountId)).listLabels(accountId)
         return labels.map((l) => ({
           id: l.id,
           name: l.name,
@@ -398,10 +454,11 @@ export function createTools(accountId: string) {
     }),
 
     listFilters: tool({
-      description: 'Get all existing Gmail filter rules. Shows what auto-actions are set up.',
+      description:
+        'Get all existing filter rules (Outlook: inbox rules). Shows what auto-actions are set up.',
       inputSchema: z.object({}),
       execute: async () => {
-        const filters = await listFilters(accountId)
+        const filters = await (await getMailProvider(accountId)).listFilters(accountId)
         return filters.map((f) => ({
           id: f.id,
           criteria: f.criteria,
@@ -641,6 +698,51 @@ Pass the queryId from queryEmails result - filters will be used automatically.`,
       },
     }),
 
+    archiveEmails: tool({
+      description: `Archive emails (remove them from the inbox but keep them in All Mail). Use this when user says "archive" or wants to clear the inbox without deleting.
+
+Pass the queryId from queryEmails result - filters will be used automatically.`,
+      inputSchema: z.object({
+        queryId: z.string().describe('The queryId from queryEmails result'),
+      }),
+      execute: async (params) => {
+        logger.debug('[Tool:archiveEmails] Called with queryId:', params.queryId)
+
+        // Look up the cached query from database
+        const cachedQuery = await getQueryCache(params.queryId)
+        if (!cachedQuery) {
+          logger.error('[Tool:archiveEmails] Query not found or expired:', params.queryId)
+          return { error: `Query ${params.queryId} not found or expired. Run queryEmails first.` }
+        }
+
+        const { filters } = cachedQuery
+        logger.debug('[Tool:archiveEmails] Using cached filters:', filters)
+
+        // Only emails still in the inbox can be archived
+        const messageIds = await getMessageIdsByFilters(accountId, filters)
+        const inboxIds = await filterInboxMessageIds(accountId, messageIds)
+        logger.debug('[Tool:archiveEmails] Found emails:', {
+          count: inboxIds.length,
+          matched: messageIds.length,
+        })
+
+        if (inboxIds.length === 0) {
+          return { archived: 0, message: 'No inbox emails matched the criteria' }
+        }
+
+        // Return confirmation request
+        return {
+          confirmation_required: true,
+          action: 'archive' as const,
+          count: inboxIds.length,
+          filters,
+          filterDescription: buildFilterDescription(filters),
+          description: `Archive ${inboxIds.length.toLocaleString()} emails`,
+          warning: 'Emails leave the inbox but stay searchable in All Mail.',
+        }
+      },
+    }),
+
     createFilter: tool({
       description:
         'Create a Gmail filter to automatically handle future emails. Can auto-delete, archive, label, or forward emails.',
@@ -755,7 +857,7 @@ Common uses:
  * Get tools that require user approval
  */
 export function getToolsRequiringApproval(): string[] {
-  return ['deleteEmails', 'trashEmails', 'createFilter', 'applyLabel']
+  return ['deleteEmails', 'trashEmails', 'archiveEmails', 'createFilter', 'applyLabel']
 }
 
 /**
@@ -0,0 +1,198 @@
+import { eq, and, isNull, desc } from 'drizzle-orm'
+import { db, tables, dbType } from '../db'
+import type { ApiToken, ApiTokenScope } from '../db'
+import { generateRandomString, sha256, hashForLog } from '../lib/hash'
+import { logger } from '../lib/logger'
+import { parseDbTimestamp } from './emails'
+
+/**
+ * Personal API token service
+ * Long-lived, scoped bearer tokens for scripts and CI (see auth middleware)
+ */
+
+/**
+ * Prefix of every personal API token - lets auth() tell them apart from JWTs
+ */
+export const API_TOKEN_PREFIX = 'iox_'
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'cleanup', 'admin']
+
+// Characters of the raw token kept for display ("iox_AbCd1234…")
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8
+
+// Only write last-used info this often per token (every request would be a write)
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000
+
+/**
+ * Token as shown in the UI (never includes the raw value or its hash)
+ */
+export interface ApiTokenInfo {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: ApiTokenScope[]
+  expiresAt: string | null
+  createdAt: string
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+}
+
+/**
+ * A verified token, as used by the auth middleware
+ */
+export interface VerifiedApiToken {
+  id: string
+  userId: string
+  scopes: ApiTokenScope[]
+}
+
+/**
+ * Whether a bearer value is a personal API token (rather than a session JWT)
+ */
+export function isApiToken(value: string): boolean {
+  return value.startsWith(API_TOKEN_PREFIX)
+}
+
+/**
+ * Keep only known scopes, deduped
+ */
+export function normalizeScopes(scopes: unknown): ApiTokenScope[] {
+  if (!Array.isArray(scopes)) return []
+  return API_TOKEN_SCOPES.filter((scope) => scopes.includes(scope))
+}
+
+function parseScopes(value: string): ApiTokenScope[] {
+  try {
+    return normalizeScopes(JSON.parse(value))
+  } catch {
+    return []
+  }
+}
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function toTokenInfo(token: ApiToken): ApiTokenInfo {
+  return {
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: parseScopes(token.scopes),
+    expiresAt: toIsoString(token.expiresAt),
+    createdAt: toIsoString(token.createdAt)!,
+    lastUsedAt: toIsoString(token.lastUsedAt),
+    lastUsedIp: token.lastUsedIp,
+  }
+}
+
+/**
+ * Create a token for a user
+ * Returns the raw token - it is only available here, the database keeps a hash.
+ */
+export async function createApiToken(
+  userId: string,
+  input: { name: string; scopes: ApiTokenScope[]; expiresInDays?: number | null }
+): Promise<{ token: string; info: ApiTokenInfo }> {
+  const raw = `${API_TOKEN_PREFIX}${generateRandomString(32, 'base64url')}`
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null
+
+  const [created] = await db
+    .insert(tables.apiTokens)
+    .values({
+      userId,
+      name: input.name,
+      tokenHash: sha256(raw),
+      tokenPrefix: raw.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: JSON.stringify(input.scopes),
+      expiresAt: expiresAt
+        ? ((dbType === 'postgres' ? expiresAt : expiresAt.toISOString()) as Date)
+        : null,
+    })
+    .returning()
+
+  if (!created) {
+    throw new Error('Failed to create API token')
+  }
+
+  logger.debug(`[ApiTokens] Created token ${hashForLog(created.id)} for user ${hashForLog(userId)}`)
+  return { token: raw, info: toTokenInfo(created) }
+}
+
+/**
+ * List a user's active (not revoked) tokens, newest first
+ */
+export async function listApiTokens(userId: string): Promise<ApiTokenInfo[]> {
+  const tokens = await db
+    .select()
+    .from(tables.apiTokens)
+    .where(and(eq(tables.apiTokens.userId, userId), isNull(tables.apiTokens.revokedAt)))
+    .orderBy(desc(tables.apiTokens.createdAt))
+
+  return tokens.map(toTokenInfo)
+}
+
+/**
+ * Revoke one of a user's tokens
+ * Returns false if the token doesn't exist, belongs to someone else or is already revoked.
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  const revoked = await db
+    .update(tables.apiTokens)
+    .set({ revokedAt: now as Date })
+    .where(
+      and(
+        eq(tables.apiTokens.id, tokenId),
+        eq(tables.apiTokens.userId, userId),
+        isNull(tables.apiTokens.revokedAt)
+      )
+    )
+    .returning({ id: tables.apiTokens.id })
+
+  if (revoked.length > 0) {
+    logger.debug(`[ApiTokens] Revoked token ${hashForLog(tokenId)}`)
+  }
+  return revoked.length > 0
+}
+
+/**
+ * Look up a raw token and record its use
+ * Returns null for unknown, revoked or expired tokens.
+ */
+export async function verifyApiToken(
+  raw: string,
+  ipAddress: string | null
+): Promise<VerifiedApiToken | null> {
+  const [token] = await db
+    .select()
+    .from(tables.apiTokens)
+    .where(eq(tables.apiTokens.tokenHash, sha256(raw)))
+    .limit(1)
+
+  if (!token || token.revokedAt) {
+    return null
+  }
+
+  const now = new Date()
+  if (token.expiresAt && parseDbTimestamp(token.expiresAt) < now) {
+    return null
+  }
+
+  const lastUsedAt = token.lastUsedAt ? parseDbTimestamp(token.lastUsedAt) : null
+  const isStale = !lastUsedAt || now.getTime() - lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS
+  if (isStale || token.lastUsedIp !== ipAddress) {
+    await db
+      .update(tables.apiTokens)
+      .set({
+        lastUsedAt: (dbType === 'postgres' ? now : now.toISOString()) as Date,
+        lastUsedIp: ipAddress,
+      })
+      .where(eq(tables.apiTokens.id, token.id))
+  }
+
+  return { id: token.id, userId: token.userId, scopes: parseScopes(token.scopes) }
+}
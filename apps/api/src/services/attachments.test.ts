@@ -0,0 +1,153 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import type { gmail_v1 } from 'googleapis'
+import * as gmail from './gmail'
+import { setBackupFormat, listBackups } from './backup'
+import { insertEmails } from './emails'
+import { stripAttachments } from './attachments'
+import { buildEmail, createTestAccount } from '../test/helpers'
+
+const fetchRawMessage = spyOn(gmail, 'fetchRawMessage')
+const fetchFullMessage = spyOn(gmail, 'fetchFullMessage')
+const importRawMessage = spyOn(gmail, 'importRawMessage')
+const batchDeleteMessages = spyOn(gmail, 'batchDeleteMessages')
+const fetchMessageDetails = spyOn(gmail, 'fetchMessageDetails')
+
+let accountId: string
+
+/**
+ * A message with a text body and one inline-data PDF attachment
+ */
+function messageWithAttachment(id: string): gmail_v1.Schema$Message {
+  const encode = (text: string) => Buffer.from(text).toString('base64url')
+  return {
+    id,
+    threadId: `thread-${id}`,
+    labelIds: ['INBOX'],
+    payload: {
+      mimeType: 'multipart/mixed',
+      headers: [
+        { name: 'Subject', value: 'Report' },
+        { name: 'Content-Type', value: 'multipart/mixed; boundary="b1"' },
+      ],
+      parts: [
+        { mimeType: 'text/plain', headers: [], body: { data: encode('Hello') } },
+        {
+          mimeType: 'application/pdf',
+          filename: 'report.pdf',
+          headers: [{ name: 'Content-Type', value: 'application/pdf' }],
+          body: { data: encode('%PDF-1.4 report'), size: 15 },
+        },
+      ],
+    },
+  }
+}
+
+/**
+ * The message above with its text body inside a multipart/related part
+ */
+function messageWithRelatedBody(id: string, relatedContentType: string): gmail_v1.Schema$Message {
+  const message = messageWithAttachment(id)
+  const [body, attachment] = message.payload!.parts!
+  message.payload!.parts = [
+    {
+      mimeType: 'multipart/related',
+      headers: [{ name: 'Content-Type', value: relatedContentType }],
+      parts: [body!],
+    },
+    attachment!,
+  ]
+  return message
+}
+
+beforeEach(async () => {
+  ;({ accountId } = await createTestAccount())
+  await insertEmails(accountId, [
+    buildEmail({ message_id: 'backed-up', has_attachments: 1 }),
+    buildEmail({ message_id: 'not-backed-up', has_attachments: 1 }),
+  ])
+
+  fetchRawMessage.mockReset()
+  fetchRawMessage.mockImplementation(async (_accountId, messageId) => {
+    if (messageId === 'not-backed-up') throw new Error('Download failed')
+    return { messageId, threadId: null, internalDate: null, raw: Buffer.from('Subject: x\r\n\r\n') }
+  })
+  fetchFullMessage.mockReset()
+  fetchFullMessage.mockImplementation(async (_accountId, messageId) =>
+    messageWithAttachment(messageId)
+  )
+  importRawMessage.mockReset()
+  importRawMessage.mockResolvedValue('copy')
+  batchDeleteMessages.mockReset()
+  batchDeleteMessages.mockResolvedValue(undefined)
+  fetchMessageDetails.mockReset()
+  fetchMessageDetails.mockResolvedValue([buildEmail({ message_id: 'copy', size_bytes: 100 })])
+})
+
+afterAll(() => {
+  fetchRawMessage.mockRestore()
+  fetchFullMessage.mockRestore()
+  importRawMessage.mockRestore()
+  batchDeleteMessages.mockRestore()
+  fetchMessageDetails.mockRestore()
+})
+
+describe('stripAttachments', () => {
+  test('only strips and deletes originals whose backup succeeded', async () => {
+    await setBackupFormat(accountId, 'mbox')
+
+    const result = await stripAttachments(accountId, ['backed-up', 'not-backed-up'], {
+      'backed-up': [0],
+      'not-backed-up': [0],
+    })
+
+    expect(result.stripped).toEqual(['backed-up'])
+    expect(result.backupFailed).toEqual(['not-backed-up'])
+    expect(result.failed).toEqual([])
+    expect(fetchFullMessage).toHaveBeenCalledTimes(1)
+    expect(batchDeleteMessages).toHaveBeenCalledWith(accountId, ['backed-up'])
+
+    const backups = await listBackups(accountId, { limit: 10, offset: 0 })
+    expect(backups.backups.map((backup) => backup.messageId)).toEqual(['backed-up'])
+  })
+
+  test('deletes nothing when every backup fails', async () => {
+    await setBackupFormat(accountId, 'mbox')
+
+    const result = await stripAttachments(accountId, ['not-backed-up'], { 'not-backed-up': [0] })
+
+    expect(result.stripped).toEqual([])
+    expect(result.backupFailed).toEqual(['not-backed-up'])
+    expect(importRawMessage).not.toHaveBeenCalled()
+    expect(batchDeleteMessages).not.toHaveBeenCalled()
+  })
+
+  test('strips without backing up when backups are off', async () => {
+    const result = await stripAttachments(accountId, ['not-backed-up'], { 'not-backed-up': [0] })
+
+    expect(result.stripped).toEqual(['not-backed-up'])
+    expect(result.backupFailed).toEqual([])
+    expect(fetchRawMessage).not.toHaveBeenCalled()
+    expect(batchDeleteMessages).toHaveBeenCalledWith(accountId, ['not-backed-up'])
+  })
+
+  test.each([
+    [
+      'multipart/related; type="text/html"; boundary="rel"',
+      'Content-Type: multipart/related; type="text/html"; boundary="rel"\r\n',
+    ],
+    [
+      'multipart/related; type="text/html"; start="<root>";',
+      'Content-Type: multipart/related; type="text/html"; start="<root>"; boundary="=_inboxorcist_',
+    ],
+  ])('keeps the parameters of %s', async (contentType, expected) => {
+    fetchFullMessage.mockImplementation(async (_accountId, messageId) =>
+      messageWithRelatedBody(messageId, contentType)
+    )
+
+    await stripAttachments(accountId, ['not-backed-up'], { 'not-backed-up': [0] })
+
+    const raw = importRawMessage.mock.calls[0]![1].toString()
+    expect(raw).toContain('Content-Type: multipart/mixed; boundary="b1"\r\n')
+    expect(raw).toContain(expected)
+  })
+})
@@ -0,0 +1,866 @@
+import { mkdir, writeFile } from 'fs/promises'
+import { join, dirname } from 'path'
+import { eq, and, inArray, desc, or, sql, count } from 'drizzle-orm'
+import type { gmail_v1 } from 'googleapis'
+import { db, tables, dbType } from '../db'
+import type { Job, SavedAttachment } from '../db'
+import {
+  getAttachmentParts,
+  fetchFullMessage,
+  fetchPartData,
+  fetchAttachment,
+  importRawMessage,
+  batchDeleteMessages,
+  fetchMessageDetails,
+} from './gmail'
+import { archiveAndDeleteEmails, insertEmails, type AttachmentMeta } from './emails'
+import { getAccountBackupDir, getBackupFormat, backupMessages } from './backup'
+import { startCleanupJob } from './cleanup'
+import { requireGmailAccount } from './providers'
+import { createZipStream, uniqueZipName, sanitizeFileName, type ZipEntry } from '../lib/zip'
+import { createGmailThrottle } from '../lib/throttle'
+import { sha256, hashForLog, generateRandomString } from '../lib/hash'
+import { logger } from '../lib/logger'
+
+/**
+ * Attachment explorer
+ *
+ * Attachments are listed from the metadata recorded at sync time (emails.attachments),
+ * across the whole mailbox except trash and spam. Their contents are only downloaded
+ * from Gmail when the user asks for them.
+ *
+ * Stripping keeps an email but drops its heavy attachments. Gmail can't edit a
+ * message, so the attachments are saved next to the backup archive:
+ *
+ *   <BACKUP_DIR>/<accountId>/attachments/<messageId>/<index>-<filename>
+ *
+ * a copy of the message without them (each replaced by a short note) is imported
+ * with the original labels and thread, and the original is permanently deleted.
+ */
+
+const KB = 1024
+const MB = 1024 * KB
+
+// Attachments per zip download - each one is a Gmail request
+export const MAX_ZIP_ATTACHMENTS = 200
+
+// Messages per strip job
+export const MAX_STRIP_MESSAGES = 1000
+
+const ATTACHMENTS_DIR = 'attachments'
+
+export type AttachmentType =
+  | 'image'
+  | 'pdf'
+  | 'document'
+  | 'spreadsheet'
+  | 'presentation'
+  | 'archive'
+  | 'audio'
+  | 'video'
+  | 'calendar'
+  | 'other'
+
+export const ATTACHMENT_TYPES: AttachmentType[] = [
+  'image',
+  'pdf',
+  'document',
+  'spreadsheet',
+  'presentation',
+  'archive',
+  'audio',
+  'video',
+  'calendar',
+  'other',
+]
+
+export type SizeBucket = 'small' | 'medium' | 'large' | 'huge'
+
+// Upper bound (exclusive) of each bucket
+const SIZE_BUCKETS: Array<{ bucket: SizeBucket; max: number }> = [
+  { bucket: 'small', max: 100 * KB },
+  { bucket: 'medium', max: MB },
+  { bucket: 'large', max: 10 * MB },
+  { bucket: 'huge', max: Infinity },
+]
+
+export const SIZE_BUCKET_IDS: SizeBucket[] = SIZE_BUCKETS.map(({ bucket }) => bucket)
+
+export type AttachmentSort = 'size' | 'date' | 'name'
+
+export const ATTACHMENT_SORTS: AttachmentSort[] = ['size', 'date', 'name']
+
+// Senders listed in the groups, largest total first
+const TOP_SENDERS = 20
+
+const EXTENSION_TYPES: Record<string, AttachmentType> = {
+  jpg: 'image',
+  jpeg: 'image',
+  png: 'image',
+  gif: 'image',
+  webp: 'image',
+  heic: 'image',
+  bmp: 'image',
+  tif: 'image',
+  tiff: 'image',
+  svg: 'image',
+  pdf: 'pdf',
+  doc: 'document',
+  docx: 'document',
+  odt: 'document',
+  rtf: 'document',
+  txt: 'document',
+  pages: 'document',
+  xls: 'spreadsheet',
+  xlsx: 'spreadsheet',
+  ods: 'spreadsheet',
+  csv: 'spreadsheet',
+  numbers: 'spreadsheet',
+  ppt: 'presentation',
+  pptx: 'presentation',
+  odp: 'presentation',
+  key: 'presentation',
+  zip: 'archive',
+  rar: 'archive',
+  '7z': 'archive',
+  gz: 'archive',
+  tgz: 'archive',
+  tar: 'archive',
+  bz2: 'archive',
+  mp3: 'audio',
+  wav: 'audio',
+  m4a: 'audio',
+  ogg: 'audio',
+  flac: 'audio',
+  mp4: 'video',
+  mov: 'video',
+  avi: 'video',
+  mkv: 'video',
+  webm: 'video',
+  ics: 'calendar',
+}
+
+/**
+ * Thrown when an attachment request can't be carried out (bad input, nothing to do)
+ */
+export class AttachmentRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AttachmentRequestError'
+  }
+}
+
+/**
+ * An attachment of a message, addressed by its index in the message's attachments
+ */
+export interface AttachmentItem {
+  id: string // "<messageId>:<index>"
+  messageId: string
+  index: number
+  filename: string
+  mimeType: string
+  type: AttachmentType
+  size: number
+  fromEmail: string
+  fromName: string | null
+  subject: string | null
+  internalDate: number | null
+}
+
+export interface AttachmentFilters {
+  search?: string // Filename contains (case-insensitive)
+  type?: AttachmentType
+  sender?: string
+  size?: SizeBucket
+}
+
+/**
+ * Counts and total sizes per type, sender and size bucket
+ * Each group applies the other filters but not its own, so it shows what choosing
+ * another value would match.
+ */
+export interface AttachmentGroups {
+  types: Array<{ type: AttachmentType; count: number; totalSize: number }>
+  senders: Array<{ email: string; name: string | null; count: number; totalSize: number }>
+  sizes: Array<{ bucket: SizeBucket; count: number; totalSize: number }>
+}
+
+export function isAttachmentType(value: unknown): value is AttachmentType {
+  return ATTACHMENT_TYPES.includes(value as AttachmentType)
+}
+
+export function isSizeBucket(value: unknown): value is SizeBucket {
+  return SIZE_BUCKET_IDS.includes(value as SizeBucket)
+}
+
+/**
+ * Group an attachment by its MIME type, falling back to the file extension
+ * (attachments are often sent as application/octet-stream)
+ */
+export function getAttachmentType(mimeType: string, filename: string): AttachmentType {
+  const mime = mimeType.toLowerCase()
+
+  if (mime.startsWith('image/')) return 'image'
+  if (mime.startsWith('audio/')) return 'audio'
+  if (mime.startsWith('video/')) return 'video'
+  if (mime === 'application/pdf') return 'pdf'
+  if (mime === 'text/calendar') return 'calendar'
+
+  const dot = filename.lastIndexOf('.')
+  const byExtension = dot > 0 ? EXTENSION_TYPES[filename.slice(dot + 1).toLowerCase()] : undefined
+  if (byExtension) return byExtension
+
+  if (mime.includes('spreadsheet') || mime.includes('excel')) return 'spreadsheet'
+  if (mime.includes('presentation') || mime.includes('powerpoint')) return 'presentation'
+  if (mime.includes('wordprocessing') || mime.includes('msword') || mime.startsWith('text/')) {
+    return 'document'
+  }
+  if (mime.includes('zip') || mime.includes('compressed') || mime.includes('tar')) {
+    return 'archive'
+  }
+
+  return 'other'
+}
+
+export function getSizeBucket(size: number): SizeBucket {
+  return SIZE_BUCKETS.find(({ max }) => size < max)!.bucket
+}
+
+/**
+ * Parse "<messageId>:<index>" attachment IDs
+ * Returns null if any ID is malformed.
+ */
+export function parseAttachmentIds(
+  ids: string[]
+): Array<{ messageId: string; index: number }> | null {
+  const parsed: Array<{ messageId: string; index: number }> = []
+
+  for (const id of ids) {
+    const match = /^([^:]+):(\d+)$/.exec(id)
+    if (!match) return null
+    parsed.push({ messageId: match[1]!, index: Number(match[2]) })
+  }
+
+  return parsed
+}
+
+function parseAttachments(value: string | null): AttachmentMeta[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function compareItems(sort: AttachmentSort) {
+  return (a: AttachmentItem, b: AttachmentItem): number => {
+    if (sort === 'name') return a.filename.localeCompare(b.filename)
+    if (sort === 'date') return (b.internalDate ?? 0) - (a.internalDate ?? 0)
+    return b.size - a.size || (b.internalDate ?? 0) - (a.internalDate ?? 0)
+  }
+}
+
+// ============================================================================
+// Browsing
+// ============================================================================
+
+/**
+ * Expand the attachments of an account's emails (not in trash or spam)
+ * The filename search is narrowed in SQL first, then matched exactly.
+ */
+async function getAttachmentItems(accountId: string, search?: string): Promise<AttachmentItem[]> {
+  const needle = search?.trim().toLowerCase()
+
+  const rows = await db
+    .select({
+      messageId: tables.emails.messageId,
+      fromEmail: tables.emails.fromEmail,
+      fromName: tables.emails.fromName,
+      subject: tables.emails.subject,
+      internalDate: tables.emails.internalDate,
+      attachments: tables.emails.attachments,
+    })
+    .from(tables.emails)
+    .where(
+      and(
+        eq(tables.emails.mailAccountId, accountId),
+        sql`${tables.emails.hasAttachments} > 0`,
+        eq(tables.emails.isTrash, 0),
+        eq(tables.emails.isSpam, 0),
+        needle ? sql`LOWER(${tables.emails.attachments}) LIKE ${`%${needle}%`}` : undefined
+      )
+    )
+
+  const items: AttachmentItem[] = []
+
+  for (const row of rows) {
+    parseAttachments(row.attachments).forEach((attachment, index) => {
+      const filename = attachment.filename || 'attachment'
+      if (needle && !filename.toLowerCase().includes(needle)) return
+
+      const mimeType = attachment.mimeType || 'application/octet-stream'
+      items.push({
+        id: `${row.messageId}:${index}`,
+        messageId: row.messageId,
+        index,
+        filename,
+        mimeType,
+        type: getAttachmentType(mimeType, filename),
+        size: attachment.size || 0,
+        fromEmail: row.fromEmail,
+        fromName: row.fromName,
+        subject: row.subject,
+        internalDate: row.internalDate,
+      })
+    })
+  }
+
+  return items
+}
+
+/**
+ * List an account's attachments with their groups
+ */
+export async function listAttachments(
+  accountId: string,
+  filters: AttachmentFilters,
+  options: { sort: AttachmentSort; limit: number; offset: number }
+): Promise<{
+  attachments: AttachmentItem[]
+  total: number
+  totalSize: number
+  groups: AttachmentGroups
+}> {
+  const items = await getAttachmentItems(accountId, filters.search)
+  const sender = filters.sender?.toLowerCase()
+
+  const types = new Map<AttachmentType, { count: number; totalSize: number }>()
+  const senders = new Map<string, { name: string | null; count: number; totalSize: number }>()
+  const sizes = new Map<SizeBucket, { count: number; totalSize: number }>()
+  const matching: AttachmentItem[] = []
+  let totalSize = 0
+
+  for (const item of items) {
+    const bucket = getSizeBucket(item.size)
+    const typeMatches = !filters.type || item.type === filters.type
+    const senderMatches = !sender || item.fromEmail.toLowerCase() === sender
+    const sizeMatches = !filters.size || bucket === filters.size
+
+    if (senderMatches && sizeMatches) {
+      const group = types.get(item.type) ?? { count: 0, totalSize: 0 }
+      group.count++
+      group.totalSize += item.size
+      types.set(item.type, group)
+    }
+    if (typeMatches && sizeMatches) {
+      const key = item.fromEmail.toLowerCase()
+      const group = senders.get(key) ?? { name: item.fromName, count: 0, totalSize: 0 }
+      group.count++
+      group.totalSize += item.size
+      senders.set(key, group)
+    }
+    if (typeMatches && senderMatches) {
+      const group = sizes.get(bucket) ?? { count: 0, totalSize: 0 }
+      group.count++
+      group.totalSize += item.size
+      sizes.set(bucket, group)
+    }
+    if (typeMatches && senderMatches && sizeMatches) {
+      matching.push(item)
+      totalSize += item.size
+    }
+  }
+
+  matching.sort(compareItems(options.sort))
+
+  return {
+    attachments: matching.slice(options.offset, options.offset + options.limit),
+    total: matching.length,
+    totalSize,
+    groups: {
+      types: ATTACHMENT_TYPES.filter((type) => types.has(type)).map((type) => ({
+        type,
+        ...types.get(type)!,
+      })),
+      senders: [...senders.entries()]
+        .map(([email, group]) => ({ email, ...group }))
+        .sort((a, b) => b.totalSize - a.totalSize)
+        .slice(0, TOP_SENDERS),
+      sizes: SIZE_BUCKET_IDS.filter((bucket) => sizes.has(bucket)).map((bucket) => ({
+        bucket,
+        ...sizes.get(bucket)!,
+      })),
+    },
+  }
+}
+
+// ============================================================================
+// Downloads
+// ============================================================================
+
+/**
+ * Stream the given attachments as a zip archive
+ * Attachments that can't be downloaded are listed in a "missing.txt" entry instead
+ * of failing the whole archive.
+ */
+export function createAttachmentsZip(
+  accountId: string,
+  ids: Array<{ messageId: string; index: number }>
+): ReadableStream<Uint8Array> {
+  async function* entries(): AsyncGenerator<ZipEntry> {
+    const dateRows = await db
+      .select({ messageId: tables.emails.messageId, internalDate: tables.emails.internalDate })
+      .from(tables.emails)
+      .where(
+        and(
+          eq(tables.emails.mailAccountId, accountId),
+          inArray(
+            tables.emails.messageId,
+            ids.map((id) => id.messageId)
+          )
+        )
+      )
+    const dates = new Map(dateRows.map((row) => [row.messageId, row.internalDate]))
+    const used = new Set<string>()
+    const missing: string[] = []
+
+    for (const { messageId, index } of ids) {
+      try {
+        const attachment = await fetchAttachment(accountId, messageId, index)
+        if (!attachment) {
+          missing.push(`${messageId}:${index} - not found`)
+          continue
+        }
+
+        const internalDate = dates.get(messageId)
+        yield {
+          name: uniqueZipName(attachment.filename, used),
+          data: attachment.data,
+          date: internalDate ? new Date(internalDate) : undefined,
+        }
+      } catch (error) {
+        logger.warn(`[Attachments] Failed to download ${messageId}:${index} for zip:`, error)
+        missing.push(`${messageId}:${index} - ${error instanceof Error ? error.message : error}`)
+      }
+    }
+
+    if (missing.length > 0) {
+      yield {
+        name: uniqueZipName('missing.txt', used),
+        data: Buffer.from(`Attachments that could not be downloaded:\n${missing.join('\n')}\n`),
+      }
+    }
+  }
+
+  return createZipStream(entries())
+}
+
+// ============================================================================
+// Saved attachments
+// ============================================================================
+
+/**
+ * List attachments saved by stripping, newest first
+ * search matches the filename, sender or subject (case-insensitive)
+ */
+export async function listSavedAttachments(
+  accountId: string,
+  options: { search?: string; limit: number; offset: number }
+): Promise<{ attachments: SavedAttachment[]; total: number; totalSize: number }> {
+  const pattern = options.search ? `%${options.search.toLowerCase()}%` : null
+  const where = and(
+    eq(tables.savedAttachments.mailAccountId, accountId),
+    pattern
+      ? or(
+          sql`LOWER(${tables.savedAttachments.filename}) LIKE ${pattern}`,
+          sql`LOWER(COALESCE(${tables.savedAttachments.fromEmail}, '')) LIKE ${pattern}`,
+          sql`LOWER(COALESCE(${tables.savedAttachments.subject}, '')) LIKE ${pattern}`
+        )
+      : undefined
+  )
+
+  const [attachments, [totalRow]] = await Promise.all([
+    db
+      .select()
+      .from(tables.savedAttachments)
+      .where(where)
+      .orderBy(desc(tables.savedAttachments.savedAt), tables.savedAttachments.attachmentIndex)
+      .limit(options.limit)
+      .offset(options.offset),
+    db
+      .select({
+        total: count(),
+        totalSize: sql<number>`COALESCE(SUM(${tables.savedAttachments.sizeBytes}), 0)`,
+      })
+      .from(tables.savedAttachments)
+      .where(where),
+  ])
+
+  return {
+    attachments,
+    total: Number(totalRow?.total ?? 0),
+    totalSize: Number(totalRow?.totalSize ?? 0),
+  }
+}
+
+/**
+ * Get a saved attachment and the path of its file, or null if it isn't one of the account's
+ */
+export async function getSavedAttachment(
+  accountId: string,
+  savedId: string
+): Promise<{ attachment: SavedAttachment; path: string } | null> {
+  const [attachment] = await db
+    .select()
+    .from(tables.savedAttachments)
+    .where(
+      and(
+        eq(tables.savedAttachments.mailAccountId, accountId),
+        eq(tables.savedAttachments.id, savedId)
+      )
+    )
+    .limit(1)
+
+  if (!attachment) return null
+
+  return { attachment, path: join(getAccountBackupDir(accountId), attachment.file) }
+}
+
+// ============================================================================
+// Stripping
+// ============================================================================
+
+// Gmail doesn't accept these labels on imported messages
+const UNSUPPORTED_LABEL_IDS = new Set(['DRAFT', 'CHAT'])
+
+/**
+ * Result of stripping attachments from a set of messages
+ */
+export interface StripResult {
+  stripped: string[] // Original message IDs, now deleted
+  failed: string[] // Left untouched
+  backupFailed: string[] // Left untouched because backup before delete failed
+  reclaimedBytes: number // Size of the originals minus the size of their copies
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= MB) return `${(bytes / MB).toFixed(1)} MB`
+  if (bytes >= KB) return `${Math.round(bytes / KB)} KB`
+  return `${bytes} bytes`
+}
+
+function getPartHeader(part: gmail_v1.Schema$MessagePart, name: string): string | undefined {
+  return part.headers?.find((header) => header.name?.toLowerCase() === name)?.value ?? undefined
+}
+
+function toBase64Lines(data: Buffer): string {
+  return (data.toString('base64').match(/.{1,76}/g) ?? []).join('\r\n')
+}
+
+// Content headers of a part, replaced when its body is re-encoded
+const CONTENT_HEADERS = new Set([
+  'content-type',
+  'content-transfer-encoding',
+  'content-disposition',
+  'content-id',
+  'content-description',
+])
+
+/**
+ * Rebuild the raw message from Gmail's MIME tree, leaving out the given parts
+ *
+ * Headers are kept as sent, leaf bodies are re-encoded as base64 and each removed
+ * part becomes a short text/plain note naming the file.
+ */
+async function buildStrippedMessage(
+  accountId: string,
+  message: gmail_v1.Schema$Message,
+  removed: Map<gmail_v1.Schema$MessagePart, SavedAttachmentFile>
+): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  const write = (text: string) => chunks.push(Buffer.from(text, 'utf8'))
+
+  const writeHeaders = (part: gmail_v1.Schema$MessagePart, skip: Set<string>) => {
+    for (const header of part.headers ?? []) {
+      if (!header.name || skip.has(header.name.toLowerCase())) continue
+      write(`${header.name}: ${header.value ?? ''}\r\n`)
+    }
+  }
+
+  const writePart = async (part: gmail_v1.Schema$MessagePart): Promise<void> => {
+    const saved = removed.get(part)
+    if (saved) {
+      writeHeaders(part, CONTENT_HEADERS)
+      write('Content-Type: text/plain; charset="UTF-8"\r\n')
+      write('Content-Transfer-Encoding: base64\r\n\r\n')
+      const note = `The attachment "${saved.filename}" (${formatSize(saved.sizeBytes)}) was removed from this email to save space. Inboxorcist saved a copy on its server.\r\n`
+      write(`${toBase64Lines(Buffer.from(note, 'utf8'))}\r\n`)
+      return
+    }
+
+    if (part.mimeType?.startsWith('multipart/') && part.parts?.length) {
+      // Keep the Content-Type as sent (type=, protocol=, micalg=, ...), only adding
+      // a boundary when it has none
+      const contentType = getPartHeader(part, 'content-type')
+      const match = contentType && /;\s*boundary=(?:"([^"]+)"|([^\s;]+))/i.exec(contentType)
+      let boundary: string
+      if (match) {
+        boundary = match[1] ?? match[2]!
+        writeHeaders(part, new Set(['content-transfer-encoding']))
+        write('\r\n')
+      } else {
+        boundary = `=_inboxorcist_${generateRandomString(16)}`
+        const params = (contentType ?? part.mimeType).replace(/[\s;]+$/, '')
+        writeHeaders(part, new Set(['content-type', 'content-transfer-encoding']))
+        write(`Content-Type: ${params}; boundary="${boundary}"\r\n\r\n`)
+      }
+      for (const child of part.parts) {
+        write(`--${boundary}\r\n`)
+        await writePart(child)
+        write('\r\n')
+      }
+      write(`--${boundary}--\r\n`)
+      return
+    }
+
+    // Attached emails that Gmail expanded into their own parts
+    if (part.mimeType === 'message/rfc822' && !part.body?.attachmentId && part.parts?.length) {
+      writeHeaders(part, new Set(['content-transfer-encoding']))
+      write('\r\n')
+      for (const child of part.parts) {
+        await writePart(child)
+      }
+      return
+    }
+
+    const data = await fetchPartData(accountId, message.id!, part)
+    writeHeaders(part, new Set(['content-transfer-encoding']))
+    write('Content-Transfer-Encoding: base64\r\n\r\n')
+    write(`${toBase64Lines(data)}\r\n`)
+  }
+
+  if (!message.payload) {
+    throw new Error('Message has no content')
+  }
+  await writePart(message.payload)
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * An attachment written to disk, before it is recorded
+ */
+interface SavedAttachmentFile {
+  attachmentIndex: number
+  filename: string
+  mimeType: string
+  sizeBytes: number
+  file: string
+  sha256: string
+}
+
+/**
+ * Download attachments of a message and write them to the account's attachments folder
+ */
+async function saveAttachmentFiles(
+  accountId: string,
+  messageId: string,
+  parts: Array<{ index: number; part: gmail_v1.Schema$MessagePart }>
+): Promise<Map<gmail_v1.Schema$MessagePart, SavedAttachmentFile>> {
+  const saved = new Map<gmail_v1.Schema$MessagePart, SavedAttachmentFile>()
+
+  for (const { index, part } of parts) {
+    const data = await fetchPartData(accountId, messageId, part)
+    const filename = part.filename || 'attachment'
+    const file = join(ATTACHMENTS_DIR, messageId, `${index}-${sanitizeFileName(filename)}`)
+    const path = join(getAccountBackupDir(accountId), file)
+
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, data)
+
+    saved.set(part, {
+      attachmentIndex: index,
+      filename,
+      mimeType: part.mimeType || 'application/octet-stream',
+      sizeBytes: data.length,
+      file,
+      sha256: sha256(data),
+    })
+  }
+
+  return saved
+}
+
+/**
+ * Replace one message with a copy without the given attachments
+ * Returns the ID of the copy. The original is not deleted here.
+ */
+async function stripMessage(
+  accountId: string,
+  messageId: string,
+  indexes: number[],
+  metadata: { fromEmail: string | null; subject: string | null; internalDate: number | null }
+): Promise<string> {
+  // Stripped before but the original wasn't deleted - don't import a second copy
+  const [existing] = await db
+    .select({ messageId: tables.savedAttachments.messageId })
+    .from(tables.savedAttachments)
+    .where(
+      and(
+        eq(tables.savedAttachments.mailAccountId, accountId),
+        eq(tables.savedAttachments.originalMessageId, messageId)
+      )
+    )
+    .limit(1)
+  if (existing) return existing.messageId
+
+  const message = await fetchFullMessage(accountId, messageId)
+  const attachmentParts = getAttachmentParts(message)
+  const selected = [...new Set(indexes)]
+    .filter((index) => attachmentParts[index])
+    .map((index) => ({ index, part: attachmentParts[index]! }))
+
+  if (selected.length === 0) {
+    throw new Error('None of the selected attachments are in the message anymore')
+  }
+
+  const saved = await saveAttachmentFiles(accountId, messageId, selected)
+  const raw = await buildStrippedMessage(accountId, message, saved)
+  const labelIds = (message.labelIds ?? []).filter((id) => !UNSUPPORTED_LABEL_IDS.has(id))
+  const newMessageId = await importRawMessage(accountId, raw, labelIds, {
+    threadId: message.threadId ?? undefined,
+  })
+
+  const now = (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+  await db
+    .insert(tables.savedAttachments)
+    .values(
+      [...saved.values()].map((file) => ({
+        mailAccountId: accountId,
+        originalMessageId: messageId,
+        messageId: newMessageId,
+        ...file,
+        fromEmail: metadata.fromEmail,
+        subject: metadata.subject,
+        internalDate: metadata.internalDate,
+        savedAt: now,
+      }))
+    )
+    .onConflictDoNothing()
+
+  return newMessageId
+}
+
+/**
+ * Strip the selected attachments from messages
+ *
+ * With backup before delete on, the originals are backed up first and only the
+ * ones whose backup succeeded are stripped. Each message's attachments are saved
+ * and its copy imported before anything is deleted; only then are the originals
+ * deleted and the copies synced. A message that fails at any step is left as it
+ * was and reported as failed.
+ */
+export async function stripAttachments(
+  accountId: string,
+  messageIds: string[],
+  selections: Record<string, number[]>
+): Promise<StripResult> {
+  const result: StripResult = { stripped: [], failed: [], backupFailed: [], reclaimedBytes: 0 }
+  if (messageIds.length === 0) return result
+
+  const backupFormat = await getBackupFormat(accountId)
+  let toStrip = messageIds
+  if (backupFormat) {
+    const { backedUp, failed } = await backupMessages(accountId, backupFormat, messageIds)
+    toStrip = backedUp
+    result.backupFailed = failed
+    if (toStrip.length === 0) return result
+  }
+
+  const metadataRows = await db
+    .select({
+      messageId: tables.emails.messageId,
+      fromEmail: tables.emails.fromEmail,
+      subject: tables.emails.subject,
+      internalDate: tables.emails.internalDate,
+      sizeBytes: tables.emails.sizeBytes,
+    })
+    .from(tables.emails)
+    .where(
+      and(eq(tables.emails.mailAccountId, accountId), inArray(tables.emails.messageId, toStrip))
+    )
+  const metadata = new Map(metadataRows.map((row) => [row.messageId, row]))
+
+  const copies: string[] = []
+
+  // One message at a time - each one is several Gmail requests and may be large
+  for (const messageId of toStrip) {
+    try {
+      const copyId = await stripMessage(
+        accountId,
+        messageId,
+        selections[messageId] ?? [],
+        metadata.get(messageId) ?? { fromEmail: null, subject: null, internalDate: null }
+      )
+      result.stripped.push(messageId)
+      copies.push(copyId)
+    } catch (error) {
+      logger.warn(`[Attachments] Failed to strip message ${messageId}:`, error)
+      result.failed.push(messageId)
+    }
+  }
+
+  if (result.stripped.length > 0) {
+    await batchDeleteMessages(accountId, result.stripped)
+    await archiveAndDeleteEmails(accountId, result.stripped)
+
+    const records = await fetchMessageDetails(
+      accountId,
+      copies.map((id) => ({ id })),
+      createGmailThrottle()
+    )
+    await insertEmails(accountId, records)
+
+    const originalSize = result.stripped.reduce(
+      (sum, id) => sum + (metadata.get(id)?.sizeBytes ?? 0),
+      0
+    )
+    const copySize = records.reduce((sum, record) => sum + record.size_bytes, 0)
+    result.reclaimedBytes = Math.max(0, originalSize - copySize)
+  }
+
+  logger.debug(
+    `[Attachments] Account ${hashForLog(accountId)}: ${result.stripped.length} stripped, ${result.failed.length} failed, ${result.backupFailed.length} not backed up`
+  )
+  return result
+}
+
+/**
+ * Queue a job that strips the given attachments
+ * Attachments are grouped by message; each message is replaced once.
+ */
+export async function startStripJob(
+  accountId: string,
+  ids: Array<{ messageId: string; index: number }>
+): Promise<Job> {
+  await requireGmailAccount(accountId, 'Stripping attachments')
+
+  const selections: Record<string, number[]> = {}
+  for (const { messageId, index } of ids) {
+    ;(selections[messageId] ??= []).push(index)
+  }
+
+  const messageIds = Object.keys(selections)
+  if (messageIds.length === 0) {
+    throw new AttachmentRequestError('No attachments selected')
+  }
+  if (messageIds.length > MAX_STRIP_MESSAGES) {
+    throw new AttachmentRequestError(
+      `Attachments of at most ${MAX_STRIP_MESSAGES} emails can be stripped at once`
+    )
+  }
+
+  return startCleanupJob(accountId, 'strip', messageIds, { attachments: selections })
+}
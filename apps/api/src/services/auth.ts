@@ -2,7 +2,7 @@ import { google, type oauth2_v2 } from 'googleapis'
 import { CodeChallengeMethod } from 'google-auth-library'
 import { eq, and, isNull, count, lt, ne } from 'drizzle-orm'
 import { db, tables, dbType } from '../db'
-import type { User } from '../db'
+import type { User, MailProvider } from '../db'
 import { nanoid } from '../lib/id'
 import { signJWT, getAccessTokenExpiry, getRefreshTokenExpiry } from '../lib/jwt'
 import {
@@ -192,6 +192,7 @@ export async function findUserById(userId: string): Promise<User | null> {
 
 /**
  * Create a new user
+ * The first user of an instance becomes its admin.
  */
 export async function createUser(data: {
   googleId: string
@@ -199,6 +200,9 @@ export async function createUser(data: {
   name?: string | null
   picture?: string | null
 }): Promise<User> {
+  const [existing] = await db.select({ count: count() }).from(tables.users)
+  const isFirstUser = (existing?.count ?? 0) === 0
+
   const [user] = await db
     .insert(tables.users)
     .values({
@@ -206,6 +210,7 @@ export async function createUser(data: {
       email: data.email,
       name: data.name || null,
       picture: data.picture || null,
+      isAdmin: isFirstUser ? 1 : 0,
     })
     .returning()
 
@@ -213,29 +218,32 @@ export async function createUser(data: {
     throw new Error('Failed to create user')
   }
 
-  logger.debug(`[Auth] Created user ${hashForLog(user.id)} (${hashForLog(data.email)})`)
+  logger.debug(
+    `[Auth] Created ${isFirstUser ? 'admin ' : ''}user ${hashForLog(user.id)} (${hashForLog(data.email)})`
+  )
   return user
 }
 
 /**
- * Connect Gmail account to a user (during auth or adding additional account)
+ * Find or create a user's mail account when (re)connecting it
+ * An account that already finished syncing keeps its data; any other is set up for a new sync.
  */
-export async function connectGmailAccount(
+export async function upsertMailAccount(
   userId: string,
   email: string,
-  gmailTokens: {
-    accessToken: string
-    refreshToken: string
-    expiryDate: number
-    scope: string
-    tokenType: string
-  }
+  provider: MailProvider
 ): Promise<{ accountId: string; isNew: boolean; needsSync: boolean }> {
   // Check if account already exists for this user
   const [existingAccount] = await db
     .select()
     .from(tables.mailAccounts)
-    .where(and(eq(tables.mailAccounts.userId, userId), eq(tables.mailAccounts.email, email)))
+    .where(
+      and(
+        eq(tables.mailAccounts.userId, userId),
+        eq(tables.mailAccounts.provider, provider),
+        eq(tables.mailAccounts.email, email)
+      )
+    )
     .limit(1)
 
   const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
@@ -282,7 +290,7 @@ export async function connectGmailAccount(
       .values({
         userId,
         email,
-        provider: 'gmail',
+        provider,
         syncStatus: 'syncing',
       })
       .returning()
@@ -295,13 +303,34 @@ export async function connectGmailAccount(
     isNew = true
   }
 
+  return { accountId, isNew, needsSync }
+}
+
+/**
+ * Connect a mail account to a user (during auth or adding additional account)
+ */
+export async function connectMailAccount(
+  userId: string,
+  email: string,
+  mailTokens: {
+    accessToken: string
+    refreshToken: string
+    expiryDate: number
+    scope: string
+    tokenType: string
+  },
+  provider: MailProvider = 'gmail'
+): Promise<{ accountId: string; isNew: boolean; needsSync: boolean }> {
+  const { accountId, isNew, needsSync } = await upsertMailAccount(userId, email, provider)
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
   // Encrypt tokens before storage
-  const encryptedAccessToken = encrypt(gmailTokens.accessToken)
-  const encryptedRefreshToken = encrypt(gmailTokens.refreshToken)
+  const encryptedAccessToken = encrypt(mailTokens.accessToken)
+  const encryptedRefreshToken = encrypt(mailTokens.refreshToken)
   const expiresAt =
     dbType === 'postgres'
-      ? new Date(gmailTokens.expiryDate)
-      : new Date(gmailTokens.expiryDate).toISOString()
+      ? new Date(mailTokens.expiryDate)
+      : new Date(mailTokens.expiryDate).toISOString()
 
   // Check if token record exists
   const [existingToken] = await db
@@ -317,8 +346,8 @@ export async function connectGmailAccount(
       .set({
         accessToken: encryptedAccessToken,
         refreshToken: encryptedRefreshToken,
-        tokenType: gmailTokens.tokenType,
-        scope: gmailTokens.scope,
+        tokenType: mailTokens.tokenType,
+        scope: mailTokens.scope,
         expiresAt: expiresAt as Date,
         updatedAt: now as Date,
       })
@@ -329,14 +358,14 @@ export async function connectGmailAccount(
       mailAccountId: accountId,
       accessToken: encryptedAccessToken,
       refreshToken: encryptedRefreshToken,
-      tokenType: gmailTokens.tokenType,
-      scope: gmailTokens.scope,
+      tokenType: mailTokens.tokenType,
+      scope: mailTokens.scope,
       expiresAt: expiresAt as Date,
     })
   }
 
   logger.debug(
-    `[Auth] ${isNew ? 'Connected' : 'Updated'} Gmail account ${hashForLog(email)} for user ${hashForLog(userId)}`
+    `[Auth] ${isNew ? 'Connected' : 'Updated'} ${provider} account ${hashForLog(email)} for user ${hashForLog(userId)}`
   )
 
   return { accountId, isNew, needsSync }
@@ -0,0 +1,464 @@
+import { mkdir, open, rename, readFile, appendFile } from 'fs/promises'
+import { join } from 'path'
+import { eq, and, inArray, desc, asc, or, sql, count, sum, max } from 'drizzle-orm'
+import { db, tables, dbType, getDataDir } from '../db'
+import type { BackupFormat, EmailBackup } from '../db'
+import { fetchRawMessage, type RawMessage } from './gmail'
+import { requireGmailAccount } from './providers'
+import { sha256, hashForLog } from '../lib/hash'
+import { toMboxEntry, fromMboxEntry } from '../lib/mbox'
+import { logger } from '../lib/logger'
+
+/**
+ * Backup before delete
+ *
+ * Opt-in per account. Before a delete job removes messages from Gmail for good,
+ * their raw RFC 822 source (format=raw) is downloaded and written to a local archive:
+ *
+ *   <BACKUP_DIR>/<accountId>/messages.mbox    mbox format (mboxrd quoting)
+ *   <BACKUP_DIR>/<accountId>/cur/             Maildir format (one file per message)
+ *   <BACKUP_DIR>/<accountId>/manifest.jsonl   one JSON line per backed up message
+ *
+ * A message only counts as backed up once its copy is flushed to disk and recorded,
+ * and delete jobs only delete messages that were backed up.
+ */
+
+export const BACKUP_FORMATS: BackupFormat[] = ['mbox', 'maildir']
+
+// Messages downloaded in parallel - the quota broker paces the actual requests
+const DOWNLOAD_CONCURRENCY = 10
+
+const MBOX_FILE = 'messages.mbox'
+const MANIFEST_FILE = 'manifest.jsonl'
+
+/**
+ * Result of backing up a set of messages
+ */
+export interface BackupResult {
+  backedUp: string[] // Written now or already in the archive
+  failed: string[]
+}
+
+/**
+ * One line of manifest.jsonl
+ */
+interface ManifestEntry {
+  messageId: string
+  threadId: string | null
+  format: BackupFormat
+  file: string
+  offset: number | null
+  length: number
+  sizeBytes: number
+  sha256: string
+  fromEmail: string | null
+  subject: string | null
+  internalDate: number | null
+  backedUpAt: string
+}
+
+export function isBackupFormat(value: unknown): value is BackupFormat {
+  return BACKUP_FORMATS.includes(value as BackupFormat)
+}
+
+/**
+ * Root directory for all account archives
+ * BACKUP_DIR, or backups/ next to the SQLite database
+ */
+export function getBackupDir(): string {
+  return process.env.BACKUP_DIR?.trim() || join(getDataDir(), 'backups')
+}
+
+/**
+ * Archive directory of an account
+ */
+export function getAccountBackupDir(accountId: string): string {
+  return join(getBackupDir(), accountId)
+}
+
+/**
+ * Path of an account's manifest file
+ */
+export function getManifestPath(accountId: string): string {
+  return join(getAccountBackupDir(accountId), MANIFEST_FILE)
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Turn backup before delete on (with an archive format) or off (null)
+ * Backups need raw message access, which only Gmail accounts have.
+ */
+export async function setBackupFormat(
+  accountId: string,
+  format: BackupFormat | null
+): Promise<void> {
+  if (format) {
+    await requireGmailAccount(accountId, 'Backup before delete')
+  }
+
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  await db
+    .update(tables.mailAccounts)
+    .set({ backupFormat: format, updatedAt: now as Date })
+    .where(eq(tables.mailAccounts.id, accountId))
+
+  logger.debug(
+    `[Backup] Backup before delete ${format ? `set to ${format}` : 'turned off'} for account ${hashForLog(accountId)}`
+  )
+}
+
+/**
+ * Get the account's archive format, or null when backups are off
+ */
+export async function getBackupFormat(accountId: string): Promise<BackupFormat | null> {
+  const [account] = await db
+    .select({ backupFormat: tables.mailAccounts.backupFormat })
+    .from(tables.mailAccounts)
+    .where(eq(tables.mailAccounts.id, accountId))
+    .limit(1)
+
+  return account?.backupFormat ?? null
+}
+
+// ============================================================================
+// Archive files
+// ============================================================================
+
+// Writes per account are serialized so mbox offsets and manifest lines stay consistent
+const accountLocks = new Map<string, Promise<unknown>>()
+
+function withAccountLock<T>(accountId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = accountLocks.get(accountId) ?? Promise.resolve()
+  const next = previous.catch(() => undefined).then(fn)
+  accountLocks.set(accountId, next)
+  next
+    .finally(() => {
+      if (accountLocks.get(accountId) === next) accountLocks.delete(accountId)
+    })
+    .catch(() => undefined)
+  return next
+}
+
+/**
+ * Append a message to the account's mbox file
+ */
+async function writeMboxEntry(
+  dir: string,
+  message: RawMessage
+): Promise<Pick<ManifestEntry, 'file' | 'offset' | 'length'>> {
+  const entry = toMboxEntry(message.raw, new Date(message.internalDate ?? Date.now()))
+  const handle = await open(join(dir, MBOX_FILE), 'a')
+
+  try {
+    const { size: offset } = await handle.stat()
+    await handle.write(entry)
+    await handle.datasync()
+    return { file: MBOX_FILE, offset, length: entry.length }
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Write a message into the account's Maildir (tmp/, then renamed into cur/)
+ */
+async function writeMaildirEntry(
+  dir: string,
+  message: RawMessage
+): Promise<Pick<ManifestEntry, 'file' | 'offset' | 'length'>> {
+  await mkdir(join(dir, 'tmp'), { recursive: true })
+  await mkdir(join(dir, 'new'), { recursive: true })
+  await mkdir(join(dir, 'cur'), { recursive: true })
+
+  const seconds = Math.floor((message.internalDate ?? Date.now()) / 1000)
+  const name = `${seconds}.${message.messageId}.inboxorcist`
+  const tmpPath = join(dir, 'tmp', name)
+  const file = join('cur', `${name}:2,S`)
+
+  const handle = await open(tmpPath, 'w')
+  try {
+    await handle.write(message.raw)
+    await handle.datasync()
+  } finally {
+    await handle.close()
+  }
+  await rename(tmpPath, join(dir, file))
+
+  return { file, offset: null, length: message.raw.length }
+}
+
+/**
+ * Write one downloaded message to the archive, the manifest and the database
+ */
+async function storeMessage(
+  accountId: string,
+  format: BackupFormat,
+  message: RawMessage,
+  metadata: { fromEmail: string | null; subject: string | null } | undefined
+): Promise<void> {
+  const dir = getAccountBackupDir(accountId)
+
+  await withAccountLock(accountId, async () => {
+    await mkdir(dir, { recursive: true })
+
+    const location =
+      format === 'mbox' ? await writeMboxEntry(dir, message) : await writeMaildirEntry(dir, message)
+
+    const entry: ManifestEntry = {
+      messageId: message.messageId,
+      threadId: message.threadId,
+      format,
+      ...location,
+      sizeBytes: message.raw.length,
+      sha256: sha256(message.raw),
+      fromEmail: metadata?.fromEmail ?? null,
+      subject: metadata?.subject ?? null,
+      internalDate: message.internalDate,
+      backedUpAt: new Date().toISOString(),
+    }
+
+    await appendFile(join(dir, MANIFEST_FILE), JSON.stringify(entry) + '\n')
+
+    await db.insert(tables.emailBackups).values({
+      mailAccountId: accountId,
+      messageId: entry.messageId,
+      threadId: entry.threadId,
+      format: entry.format,
+      file: entry.file,
+      offset: entry.offset,
+      length: entry.length,
+      sizeBytes: entry.sizeBytes,
+      sha256: entry.sha256,
+      fromEmail: entry.fromEmail,
+      subject: entry.subject,
+      internalDate: entry.internalDate,
+    })
+  })
+}
+
+// ============================================================================
+// Backup
+// ============================================================================
+
+/**
+ * Back up messages to the account's local archive
+ *
+ * Messages already in the archive are not downloaded again. A message is only
+ * reported as backed up once its copy is on disk and recorded; anything else
+ * (download or write failure) is reported as failed and must not be deleted.
+ */
+export async function backupMessages(
+  accountId: string,
+  format: BackupFormat,
+  messageIds: string[]
+): Promise<BackupResult> {
+  const result: BackupResult = { backedUp: [], failed: [] }
+  if (messageIds.length === 0) return result
+
+  const existing = await db
+    .select({ messageId: tables.emailBackups.messageId })
+    .from(tables.emailBackups)
+    .where(
+      and(
+        eq(tables.emailBackups.mailAccountId, accountId),
+        inArray(tables.emailBackups.messageId, messageIds)
+      )
+    )
+  const alreadyBackedUp = new Set(existing.map((row) => row.messageId))
+  result.backedUp.push(...messageIds.filter((id) => alreadyBackedUp.has(id)))
+
+  const pending = messageIds.filter((id) => !alreadyBackedUp.has(id))
+  if (pending.length === 0) return result
+
+  // Sender and subject for browsing - the local rows still exist before delete
+  const metadataRows = await db
+    .select({
+      messageId: tables.emails.messageId,
+      fromEmail: tables.emails.fromEmail,
+      subject: tables.emails.subject,
+    })
+    .from(tables.emails)
+    .where(
+      and(eq(tables.emails.mailAccountId, accountId), inArray(tables.emails.messageId, pending))
+    )
+  const metadata = new Map(metadataRows.map((row) => [row.messageId, row]))
+
+  for (let i = 0; i < pending.length; i += DOWNLOAD_CONCURRENCY) {
+    const batch = pending.slice(i, i + DOWNLOAD_CONCURRENCY)
+
+    const settled = await Promise.allSettled(
+      batch.map(async (messageId) => {
+        const message = await fetchRawMessage(accountId, messageId)
+        await storeMessage(accountId, format, message, metadata.get(messageId))
+      })
+    )
+
+    settled.forEach((outcome, index) => {
+      const messageId = batch[index]!
+      if (outcome.status === 'fulfilled') {
+        result.backedUp.push(messageId)
+      } else {
+        logger.warn(`[Backup] Failed to back up message ${messageId}:`, outcome.reason)
+        result.failed.push(messageId)
+      }
+    })
+  }
+
+  logger.debug(
+    `[Backup] Account ${hashForLog(accountId)}: ${result.backedUp.length} backed up, ${result.failed.length} failed`
+  )
+  return result
+}
+
+// ============================================================================
+// Browsing and export
+// ============================================================================
+
+/**
+ * Archive totals for an account
+ */
+export async function getBackupStats(accountId: string): Promise<{
+  count: number
+  totalSizeBytes: number
+  lastBackedUpAt: Date | string | null
+}> {
+  const [row] = await db
+    .select({
+      count: count(),
+      totalSizeBytes: sum(tables.emailBackups.sizeBytes),
+      lastBackedUpAt: max(tables.emailBackups.backedUpAt),
+    })
+    .from(tables.emailBackups)
+    .where(eq(tables.emailBackups.mailAccountId, accountId))
+
+  return {
+    count: Number(row?.count ?? 0),
+    totalSizeBytes: Number(row?.totalSizeBytes ?? 0),
+    lastBackedUpAt: row?.lastBackedUpAt ?? null,
+  }
+}
+
+/**
+ * List backed up messages, newest first
+ * search matches sender or subject (case-insensitive)
+ */
+export async function listBackups(
+  accountId: string,
+  options: { search?: string; limit: number; offset: number }
+): Promise<{ backups: EmailBackup[]; total: number }> {
+  const pattern = options.search ? `%${options.search.toLowerCase()}%` : null
+  const where = and(
+    eq(tables.emailBackups.mailAccountId, accountId),
+    pattern
+      ? or(
+          sql`LOWER(COALESCE(${tables.emailBackups.fromEmail}, '')) LIKE ${pattern}`,
+          sql`LOWER(COALESCE(${tables.emailBackups.subject}, '')) LIKE ${pattern}`
+        )
+      : undefined
+  )
+
+  const [backups, [totalRow]] = await Promise.all([
+    db
+      .select()
+      .from(tables.emailBackups)
+      .where(where)
+      .orderBy(desc(tables.emailBackups.internalDate))
+      .limit(options.limit)
+      .offset(options.offset),
+    db.select({ total: count() }).from(tables.emailBackups).where(where),
+  ])
+
+  return { backups, total: Number(totalRow?.total ?? 0) }
+}
+
+/**
+ * Read an archive entry exactly as stored (mbox entries include their separator line)
+ */
+async function readEntry(accountId: string, backup: EmailBackup): Promise<Buffer> {
+  const path = join(getAccountBackupDir(accountId), backup.file)
+
+  if (backup.offset === null) {
+    return readFile(path)
+  }
+
+  const handle = await open(path, 'r')
+  try {
+    const buffer = Buffer.alloc(backup.length)
+    await handle.read(buffer, 0, backup.length, backup.offset)
+    return buffer
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Get a backed up message as an .eml (RFC 822) file, or null if it isn't in the archive
+ * mbox copies come back with LF line endings.
+ */
+export async function readBackupMessage(
+  accountId: string,
+  messageId: string
+): Promise<{ backup: EmailBackup; raw: Buffer } | null> {
+  const [backup] = await db
+    .select()
+    .from(tables.emailBackups)
+    .where(
+      and(
+        eq(tables.emailBackups.mailAccountId, accountId),
+        eq(tables.emailBackups.messageId, messageId)
+      )
+    )
+    .limit(1)
+
+  if (!backup) return null
+
+  const entry = await readEntry(accountId, backup)
+  return { backup, raw: backup.format === 'mbox' ? fromMboxEntry(entry) : entry }
+}
+
+/**
+ * Stream the whole archive as a single mbox file, oldest backup first
+ * Works for both formats (Maildir files are converted on the fly).
+ */
+export function createMboxExport(accountId: string): ReadableStream<Uint8Array> {
+  const PAGE_SIZE = 200
+  let offset = 0
+  let page: EmailBackup[] = []
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (page.length === 0) {
+          page = await db
+            .select()
+            .from(tables.emailBackups)
+            .where(eq(tables.emailBackups.mailAccountId, accountId))
+            .orderBy(asc(tables.emailBackups.backedUpAt), asc(tables.emailBackups.id))
+            .limit(PAGE_SIZE)
+            .offset(offset)
+          offset += page.length
+
+          if (page.length === 0) {
+            controller.close()
+            return
+          }
+        }
+
+        const backup = page.shift()!
+        const entry = await readEntry(accountId, backup)
+        controller.enqueue(
+          backup.format === 'mbox'
+            ? entry
+            : toMboxEntry(entry, new Date(backup.internalDate ?? Date.now()))
+        )
+      } catch (error) {
+        logger.error(`[Backup] Export failed for account ${hashForLog(accountId)}:`, error)
+        controller.error(error)
+      }
+    },
+  })
+}
@@ -0,0 +1,32 @@
+/**
+ * Cleanup Services
+ *
+ * Export background cleanup job worker, management functions and scheduled cleanup rules
+ */
+
+export {
+  processCleanupJob,
+  startCleanupJob,
+  getCleanupJob,
+  pauseCleanupJob,
+  resumeCleanupJob,
+  cancelCleanupJob,
+  registerCleanupWorker,
+  resumeInterruptedCleanupJobs,
+  type CleanupJobType,
+} from './worker'
+
+export {
+  parseRuleFilters,
+  getCleanupRules,
+  getCleanupRule,
+  createCleanupRule,
+  updateCleanupRule,
+  deleteCleanupRule,
+  getCleanupRuleRuns,
+  runCleanupRule,
+  runDueCleanupRules,
+  updateRuleRunForJob,
+  type CleanupRuleInput,
+  type CleanupRulePreviewEmail,
+} from './rules'
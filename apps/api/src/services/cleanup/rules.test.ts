@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { db, tables, type CleanupRule, type JobStatus } from '../../db'
+import { createCleanupRule, getCleanupRuleRuns, runDueCleanupRules } from './rules'
+import { createTestAccount, toDbTimestamp } from '../../test/helpers'
+
+let userId: string
+let accountId: string
+let rule: CleanupRule
+
+/**
+ * Record a run of the rule that never finished, optionally linked to a job
+ */
+async function insertRunningRun(
+  options: { jobStatus?: JobStatus; startedAt?: Date } = {}
+): Promise<string> {
+  let jobId: string | null = null
+  if (options.jobStatus) {
+    const [job] = await db
+      .insert(tables.jobs)
+      .values({ userId, mailAccountId: accountId, type: 'trash', status: options.jobStatus })
+      .returning()
+    jobId = job!.id
+  }
+
+  const [run] = await db
+    .insert(tables.cleanupRuleRuns)
+    .values({
+      ruleId: rule.id,
+      mailAccountId: accountId,
+      jobId,
+      status: 'running',
+      startedAt: toDbTimestamp(options.startedAt ?? new Date()),
+    })
+    .returning()
+  return run!.id
+}
+
+async function getRunStatus(runId: string): Promise<string | undefined> {
+  const [run] = await db
+    .select()
+    .from(tables.cleanupRuleRuns)
+    .where(eq(tables.cleanupRuleRuns.id, runId))
+  return run?.status
+}
+
+beforeEach(async () => {
+  ;({ userId, accountId } = await createTestAccount())
+  rule = await createCleanupRule(accountId, {
+    name: 'Old promotions',
+    filters: { category: 'CATEGORY_PROMOTIONS' },
+    olderThanDays: 30,
+    action: 'trash',
+    labelId: null,
+    schedule: '0 3 * * *',
+    isEnabled: true,
+    dryRun: true,
+  })
+
+  // Make the rule due
+  await db
+    .update(tables.cleanupRules)
+    .set({ nextRunAt: toDbTimestamp(new Date(Date.now() - 60_000)) })
+    .where(eq(tables.cleanupRules.id, rule.id))
+})
+
+describe('runDueCleanupRules', () => {
+  test('skips a rule whose job is still running', async () => {
+    const runId = await insertRunningRun({ jobStatus: 'running' })
+
+    expect(await runDueCleanupRules(accountId)).toBe(0)
+    expect(await getRunStatus(runId)).toBe('running')
+  })
+
+  test('settles a run whose job already finished and runs the rule', async () => {
+    const runId = await insertRunningRun({ jobStatus: 'completed' })
+
+    expect(await runDueCleanupRules(accountId)).toBe(1)
+    expect(await getRunStatus(runId)).toBe('completed')
+    expect(await getCleanupRuleRuns(rule.id)).toHaveLength(2)
+  })
+
+  test('fails a run whose job no longer exists', async () => {
+    const runId = await insertRunningRun({ jobStatus: 'running' })
+    await db
+      .update(tables.cleanupRuleRuns)
+      .set({ jobId: 'missing' })
+      .where(eq(tables.cleanupRuleRuns.id, runId))
+
+    expect(await runDueCleanupRules(accountId)).toBe(1)
+    expect(await getRunStatus(runId)).toBe('failed')
+  })
+
+  test('fails a stale run that never queued a job', async () => {
+    const runId = await insertRunningRun({ startedAt: new Date(Date.now() - 2 * 60 * 60 * 1000) })
+
+    expect(await runDueCleanupRules(accountId)).toBe(1)
+    expect(await getRunStatus(runId)).toBe('failed')
+  })
+
+  test('waits for a recent run that has not queued its job yet', async () => {
+    await insertRunningRun()
+
+    expect(await runDueCleanupRules(accountId)).toBe(0)
+  })
+})
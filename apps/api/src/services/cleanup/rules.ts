@@ -0,0 +1,473 @@
+/**
+ * Scheduled Cleanup Rules ("recurring exorcisms")
+ *
+ * A rule is a saved ExplorerFilters object plus an optional relative age
+ * ("older than 30 days"), an action and a cron schedule. The scheduler evaluates
+ * due rules after each delta sync and queues the matching messages as a cleanup job.
+ *
+ * Every evaluation is recorded in cleanup_rule_runs. Runs that queued a job stay
+ * 'running' until the cleanup worker reports the job's outcome. Dry runs only record
+ * the matched count/size and a sample of the emails that would have been affected.
+ */
+
+import { eq, and, desc, inArray, lte } from 'drizzle-orm'
+import { db, tables, dbType } from '../../db'
+import type {
+  Job,
+  CleanupRule,
+  CleanupRuleAction,
+  CleanupRuleRun,
+  CleanupRuleRunStatus,
+} from '../../db'
+import { getMessageLabelsByFilters, parseDbTimestamp, type ExplorerFilters } from '../emails'
+import { getNextRun } from '../../lib/cron'
+import { logger } from '../../lib/logger'
+import { startCleanupJob } from './worker'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Number of matched emails stored with a dry run
+const PREVIEW_SIZE = 20
+
+// A run that never got as far as queueing a job was interrupted after this long
+const STALE_RUN_MS = 60 * 60 * 1000
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CleanupRuleInput {
+  name: string
+  filters: ExplorerFilters
+  olderThanDays: number | null
+  action: CleanupRuleAction
+  labelId: string | null
+  schedule: string
+  isEnabled: boolean
+  dryRun: boolean
+}
+
+export interface CleanupRulePreviewEmail {
+  messageId: string
+  subject: string | null
+  fromEmail: string
+  fromName: string | null
+  internalDate: number | null
+}
+
+interface RuleMatches {
+  messageIds: string[]
+  totalSize: number
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function nowTimestamp(): Date {
+  // Cast to Date for Postgres types - at runtime, SQLite gets ISO string
+  return (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+}
+
+function toTimestamp(date: Date | null): Date | null {
+  if (!date) return null
+  return (dbType === 'postgres' ? date : date.toISOString()) as Date
+}
+
+/**
+ * Parse the filters stored on a rule
+ */
+export function parseRuleFilters(rule: CleanupRule): ExplorerFilters {
+  try {
+    return JSON.parse(rule.filters) as ExplorerFilters
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Compute the next scheduled run for a rule (null when disabled)
+ */
+function computeNextRunAt(schedule: string, isEnabled: boolean, from = new Date()): Date | null {
+  return isEnabled ? getNextRun(schedule, from) : null
+}
+
+/**
+ * Resolve the messages a rule currently matches
+ *
+ * Messages the action would not change are skipped (already trashed, already out of
+ * the inbox, already labeled) so repeated runs don't re-process them.
+ */
+async function getRuleMatches(rule: CleanupRule): Promise<RuleMatches> {
+  // Sorting is irrelevant for matching
+  const { sortBy: _sortBy, sortOrder: _sortOrder, ...filters } = parseRuleFilters(rule)
+
+  if (rule.olderThanDays !== null) {
+    const cutoff = Date.now() - rule.olderThanDays * DAY_MS
+    filters.dateTo = filters.dateTo !== undefined ? Math.min(filters.dateTo, cutoff) : cutoff
+  }
+
+  if (rule.action === 'trash' || rule.action === 'archive') {
+    filters.isTrash = false
+  }
+  if (rule.action === 'archive') {
+    filters.isSpam = false
+  }
+
+  const candidates = await getMessageLabelsByFilters(rule.mailAccountId, filters)
+
+  const matches = candidates.filter((email) => {
+    if (rule.action === 'archive') return email.labels.includes('INBOX')
+    if (rule.action === 'label') return !!rule.labelId && !email.labels.includes(rule.labelId)
+    return true
+  })
+
+  return {
+    messageIds: matches.map((email) => email.messageId),
+    totalSize: matches.reduce((sum, email) => sum + email.sizeBytes, 0),
+  }
+}
+
+/**
+ * Load a sample of matched emails for a dry-run preview
+ */
+async function getPreviewEmails(
+  accountId: string,
+  messageIds: string[]
+): Promise<CleanupRulePreviewEmail[]> {
+  const sample = messageIds.slice(0, PREVIEW_SIZE)
+  if (sample.length === 0) return []
+
+  const { emails } = tables
+  return db
+    .select({
+      messageId: emails.messageId,
+      subject: emails.subject,
+      fromEmail: emails.fromEmail,
+      fromName: emails.fromName,
+      internalDate: emails.internalDate,
+    })
+    .from(emails)
+    .where(and(eq(emails.mailAccountId, accountId), inArray(emails.messageId, sample)))
+    .orderBy(desc(emails.internalDate))
+}
+
+async function updateRun(
+  runId: string,
+  values: Partial<{
+    status: CleanupRuleRunStatus
+    jobId: string
+    matchedCount: number
+    matchedSizeBytes: number
+    processedCount: number
+    preview: string
+    error: string | null
+    completedAt: Date
+  }>
+): Promise<void> {
+  await db.update(tables.cleanupRuleRuns).set(values).where(eq(tables.cleanupRuleRuns.id, runId))
+}
+
+// ============================================================================
+// Rule CRUD
+// ============================================================================
+
+/**
+ * List an account's cleanup rules
+ */
+export async function getCleanupRules(accountId: string): Promise<CleanupRule[]> {
+  return db
+    .select()
+    .from(tables.cleanupRules)
+    .where(eq(tables.cleanupRules.mailAccountId, accountId))
+    .orderBy(tables.cleanupRules.createdAt)
+}
+
+/**
+ * Get a single cleanup rule belonging to an account
+ */
+export async function getCleanupRule(
+  accountId: string,
+  ruleId: string
+): Promise<CleanupRule | null> {
+  const [rule] = await db
+    .select()
+    .from(tables.cleanupRules)
+    .where(
+      and(eq(tables.cleanupRules.id, ruleId), eq(tables.cleanupRules.mailAccountId, accountId))
+    )
+    .limit(1)
+
+  return rule || null
+}
+
+/**
+ * Create a cleanup rule and schedule its first run
+ */
+export async function createCleanupRule(
+  accountId: string,
+  input: CleanupRuleInput
+): Promise<CleanupRule> {
+  const [rule] = await db
+    .insert(tables.cleanupRules)
+    .values({
+      mailAccountId: accountId,
+      name: input.name,
+      filters: JSON.stringify(input.filters),
+      olderThanDays: input.olderThanDays,
+      action: input.action,
+      labelId: input.action === 'label' ? input.labelId : null,
+      schedule: input.schedule,
+      isEnabled: input.isEnabled ? 1 : 0,
+      dryRun: input.dryRun ? 1 : 0,
+      nextRunAt: toTimestamp(computeNextRunAt(input.schedule, input.isEnabled)),
+    })
+    .returning()
+
+  if (!rule) {
+    throw new Error('Failed to create cleanup rule')
+  }
+
+  logger.debug(`[CleanupRules] Created rule ${rule.id} (${rule.action}) for account ${accountId}`)
+  return rule
+}
+
+/**
+ * Update a cleanup rule; the next run is recomputed from the (new) schedule
+ */
+export async function updateCleanupRule(
+  rule: CleanupRule,
+  input: Partial<CleanupRuleInput>
+): Promise<CleanupRule> {
+  const schedule = input.schedule ?? rule.schedule
+  const isEnabled = input.isEnabled ?? rule.isEnabled === 1
+  const action = input.action ?? rule.action
+
+  const [updated] = await db
+    .update(tables.cleanupRules)
+    .set({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.filters !== undefined && { filters: JSON.stringify(input.filters) }),
+      ...(input.olderThanDays !== undefined && { olderThanDays: input.olderThanDays }),
+      action,
+      labelId: action === 'label' ? (input.labelId ?? rule.labelId) : null,
+      schedule,
+      isEnabled: isEnabled ? 1 : 0,
+      ...(input.dryRun !== undefined && { dryRun: input.dryRun ? 1 : 0 }),
+      nextRunAt: toTimestamp(computeNextRunAt(schedule, isEnabled)),
+      updatedAt: nowTimestamp(),
+    })
+    .where(eq(tables.cleanupRules.id, rule.id))
+    .returning()
+
+  if (!updated) {
+    throw new Error('Failed to update cleanup rule')
+  }
+
+  return updated
+}
+
+/**
+ * Delete a cleanup rule and its run history
+ * Jobs already queued by the rule keep running.
+ */
+export async function deleteCleanupRule(rule: CleanupRule): Promise<void> {
+  await db.delete(tables.cleanupRules).where(eq(tables.cleanupRules.id, rule.id))
+}
+
+/**
+ * Get the most recent runs of a rule
+ */
+export async function getCleanupRuleRuns(ruleId: string, limit = 20): Promise<CleanupRuleRun[]> {
+  return db
+    .select()
+    .from(tables.cleanupRuleRuns)
+    .where(eq(tables.cleanupRuleRuns.ruleId, ruleId))
+    .orderBy(desc(tables.cleanupRuleRuns.startedAt))
+    .limit(limit)
+}
+
+// ============================================================================
+// Rule Evaluation
+// ============================================================================
+
+/**
+ * Evaluate a rule once and record the run
+ *
+ * Dry runs record what would have been affected. Otherwise the matching messages are
+ * queued as a cleanup job and the run is completed when that job finishes.
+ */
+export async function runCleanupRule(
+  rule: CleanupRule,
+  options: { dryRun?: boolean } = {}
+): Promise<CleanupRuleRun> {
+  const dryRun = options.dryRun ?? rule.dryRun === 1
+
+  const [run] = await db
+    .insert(tables.cleanupRuleRuns)
+    .values({
+      ruleId: rule.id,
+      mailAccountId: rule.mailAccountId,
+      dryRun: dryRun ? 1 : 0,
+      status: 'running',
+    })
+    .returning()
+
+  if (!run) {
+    throw new Error('Failed to record cleanup rule run')
+  }
+
+  try {
+    const { messageIds, totalSize } = await getRuleMatches(rule)
+    const matched = { matchedCount: messageIds.length, matchedSizeBytes: totalSize }
+
+    if (dryRun) {
+      const preview = await getPreviewEmails(rule.mailAccountId, messageIds)
+      await updateRun(run.id, {
+        ...matched,
+        status: 'completed',
+        preview: JSON.stringify(preview),
+        completedAt: nowTimestamp(),
+      })
+    } else if (messageIds.length === 0) {
+      await updateRun(run.id, { ...matched, status: 'completed', completedAt: nowTimestamp() })
+    } else {
+      const job = await startCleanupJob(rule.mailAccountId, rule.action, messageIds, {
+        labelId: rule.labelId ?? undefined,
+      })
+      await updateRun(run.id, { ...matched, jobId: job.id })
+
+      // The job may already have finished before the run knew its ID
+      const [current] = await db
+        .select()
+        .from(tables.jobs)
+        .where(eq(tables.jobs.id, job.id))
+        .limit(1)
+      if (current) {
+        await updateRuleRunForJob(current)
+      }
+    }
+
+    logger.debug(
+      `[CleanupRules] Rule ${rule.id} matched ${messageIds.length} emails${dryRun ? ' (dry run)' : ''}`
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[CleanupRules] Rule ${rule.id} failed:`, errorMessage)
+    await updateRun(run.id, { status: 'failed', error: errorMessage, completedAt: nowTimestamp() })
+  }
+
+  await db
+    .update(tables.cleanupRules)
+    .set({ lastRunAt: nowTimestamp() })
+    .where(eq(tables.cleanupRules.id, rule.id))
+
+  const [result] = await db
+    .select()
+    .from(tables.cleanupRuleRuns)
+    .where(eq(tables.cleanupRuleRuns.id, run.id))
+    .limit(1)
+
+  return result ?? run
+}
+
+/**
+ * Whether a rule run marked 'running' is actually still in progress
+ *
+ * The run is only as alive as the job it queued: a job that already finished (the
+ * outcome was never recorded) or no longer exists settles the run, and a run that
+ * was interrupted before queueing its job is failed once it is stale.
+ */
+async function isRuleRunInProgress(run: CleanupRuleRun): Promise<boolean> {
+  if (run.status !== 'running') return false
+
+  if (!run.jobId) {
+    if (Date.now() - parseDbTimestamp(run.startedAt).getTime() < STALE_RUN_MS) return true
+    await updateRun(run.id, {
+      status: 'failed',
+      error: 'Run was interrupted before its job was queued',
+      completedAt: nowTimestamp(),
+    })
+    return false
+  }
+
+  const [job] = await db.select().from(tables.jobs).where(eq(tables.jobs.id, run.jobId)).limit(1)
+
+  if (!job) {
+    await updateRun(run.id, {
+      status: 'failed',
+      error: 'Cleanup job no longer exists',
+      completedAt: nowTimestamp(),
+    })
+    return false
+  }
+
+  // Pending, running and paused jobs are picked up again by the cleanup worker
+  if (job.status === 'pending' || job.status === 'running' || job.status === 'paused') {
+    return true
+  }
+
+  await updateRuleRunForJob(job)
+  return false
+}
+
+/**
+ * Run all enabled rules of an account whose next run is due
+ *
+ * A rule whose previous job is still in progress is skipped for this slot.
+ * @returns Number of rules evaluated
+ */
+export async function runDueCleanupRules(accountId: string): Promise<number> {
+  const now = new Date()
+
+  const dueRules = await db
+    .select()
+    .from(tables.cleanupRules)
+    .where(
+      and(
+        eq(tables.cleanupRules.mailAccountId, accountId),
+        eq(tables.cleanupRules.isEnabled, 1),
+        lte(tables.cleanupRules.nextRunAt, toTimestamp(now) as Date)
+      )
+    )
+
+  let evaluated = 0
+
+  for (const rule of dueRules) {
+    const [lastRun] = await getCleanupRuleRuns(rule.id, 1)
+
+    if (lastRun && (await isRuleRunInProgress(lastRun))) {
+      logger.debug(`[CleanupRules] Rule ${rule.id} is still running, skipping this run`)
+    } else {
+      await runCleanupRule(rule)
+      evaluated++
+    }
+
+    await db
+      .update(tables.cleanupRules)
+      .set({ nextRunAt: toTimestamp(computeNextRunAt(rule.schedule, true, now)) })
+      .where(eq(tables.cleanupRules.id, rule.id))
+  }
+
+  return evaluated
+}
+
+/**
+ * Record the outcome of a cleanup job on the rule run that queued it
+ * Called by the cleanup worker when a job completes, fails or is cancelled.
+ */
+export async function updateRuleRunForJob(job: Job): Promise<void> {
+  if (job.status !== 'completed' && job.status !== 'failed' && job.status !== 'cancelled') {
+    return
+  }
+
+  await db
+    .update(tables.cleanupRuleRuns)
+    .set({
+      status: job.status,
+      processedCount: job.processedMessages,
+      error: job.status === 'failed' ? job.lastError : null,
+      completedAt: nowTimestamp(),
+    })
+    .where(eq(tables.cleanupRuleRuns.jobId, job.id))
+}
@@ -0,0 +1,676 @@
+/**
+ * Cleanup Worker
+ *
+ * Processes explorer trash/delete jobs and scheduled cleanup rule jobs
+ * (trash/delete/archive/label) in the background.
+ * The message IDs are resolved when the job is created and stored in the job payload,
+ * so a job can be paused, resumed or picked up again after a restart from its last
+ * checkpoint (processedMessages) without re-evaluating the original filters.
+ *
+ * When the account has backup before delete turned on, delete jobs write each
+ * chunk to the local archive first and only delete what was backed up.
+ *
+ * Strip jobs replace each message with a copy without its selected attachments
+ * (see services/attachments) and delete the original, with the same backup rule.
+ */
+
+import { eq, and, inArray, sql } from 'drizzle-orm'
+import { db, tables, dbType } from '../../db'
+import type { Job, BackupFormat } from '../../db'
+import { getMailProvider } from '../providers'
+import {
+  markEmailsAsTrashed,
+  archiveAndDeleteEmails,
+  updateEmailLabels,
+  sumEmailsSizeByIds,
+} from '../emails'
+import { backupMessages, getBackupFormat } from '../backup'
+import { stripAttachments } from '../attachments'
+import { registerHandler } from '../queue'
+import type { DeleteJobData } from '../queue/types'
+import { logger } from '../../lib/logger'
+import { nanoid } from '../../lib/id'
+
+// Gmail's limit for batchModify / batchDelete - also our checkpoint granularity
+const CHUNK_SIZE = 1000
+
+// Strip jobs download and re-import every message, so they checkpoint more often
+const STRIP_CHUNK_SIZE = 20
+
+/**
+ * Job types handled by the cleanup worker
+ */
+export type CleanupJobType = 'trash' | 'delete' | 'archive' | 'label' | 'strip'
+
+const CLEANUP_JOB_TYPES: CleanupJobType[] = ['trash', 'delete', 'archive', 'label', 'strip']
+
+/**
+ * Stored payload of a cleanup job
+ */
+interface CleanupJobPayload {
+  messageIds: string[]
+  labelId?: string // Label to apply for 'label' jobs
+  backupFailedIds?: string[] // Delete jobs: not deleted because their backup failed
+  attachments?: Record<string, number[]> // Strip jobs: attachment indexes to drop, per message
+  stripFailedIds?: string[] // Strip jobs: left untouched because stripping failed
+}
+
+/**
+ * Get a job by ID
+ */
+async function getJob(jobId: string): Promise<Job | null> {
+  const [job] = await db.select().from(tables.jobs).where(eq(tables.jobs.id, jobId)).limit(1)
+
+  return job || null
+}
+
+/**
+ * Update job status
+ */
+async function updateJobStatus(
+  jobId: string,
+  status: Job['status'],
+  extra?: Partial<{
+    startedAt: Date | string
+    completedAt: Date | string
+    resumedAt: Date | string
+    processedAtResume: number
+    lastError: string | null
+  }>
+): Promise<void> {
+  // Cast to Date for Postgres types - at runtime, SQLite gets ISO string
+  const now = (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+
+  await db
+    .update(tables.jobs)
+    .set({
+      status,
+      updatedAt: now,
+      ...(extra as Record<string, unknown>),
+    })
+    .where(eq(tables.jobs.id, jobId))
+}
+
+/**
+ * Claim a pending job for a worker run
+ *
+ * Compare-and-set on the status, so only one run gets a job that was queued twice
+ * (e.g. paused and resumed while a chunk was still being processed).
+ * Returns false when the job is no longer pending.
+ */
+async function claimJob(
+  jobId: string,
+  runId: string,
+  extra: Partial<{
+    startedAt: Date | string
+    resumedAt: Date | string
+    processedAtResume: number
+  }>
+): Promise<boolean> {
+  const now = (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+
+  const claimed = await db
+    .update(tables.jobs)
+    .set({
+      status: 'running',
+      runId,
+      lastError: null,
+      updatedAt: now,
+      ...(extra as Record<string, unknown>),
+    })
+    .where(and(eq(tables.jobs.id, jobId), eq(tables.jobs.status, 'pending')))
+    .returning({ id: tables.jobs.id })
+
+  return claimed.length > 0
+}
+
+/**
+ * Set the final status of a job, unless the run no longer owns it
+ * Returns false when the job was paused, cancelled or claimed by another run meanwhile.
+ */
+async function finishJob(
+  jobId: string,
+  runId: string,
+  status: 'completed' | 'failed',
+  extra: Partial<{ completedAt: Date | string; lastError: string }>
+): Promise<boolean> {
+  const now = (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+
+  const updated = await db
+    .update(tables.jobs)
+    .set({ status, updatedAt: now, ...(extra as Record<string, unknown>) })
+    .where(
+      and(
+        eq(tables.jobs.id, jobId),
+        eq(tables.jobs.runId, runId),
+        eq(tables.jobs.status, 'running')
+      )
+    )
+    .returning({ id: tables.jobs.id })
+
+  return updated.length > 0
+}
+
+/**
+ * Checkpoint job progress after a chunk has been processed
+ * reclaimedBytes is added to the job's running total. Runs that lost the job
+ * don't checkpoint, so they can't overwrite the progress of the run that owns it.
+ */
+async function updateJobProgress(
+  jobId: string,
+  runId: string,
+  processed: number,
+  reclaimedBytes: number,
+  payload?: CleanupJobPayload
+): Promise<void> {
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  await db
+    .update(tables.jobs)
+    .set({
+      processedMessages: processed,
+      updatedAt: now as Date,
+      ...(reclaimedBytes > 0 && {
+        reclaimedBytes: sql`${tables.jobs.reclaimedBytes} + ${reclaimedBytes}`,
+      }),
+      ...(payload && { payload: JSON.stringify(payload) }),
+    })
+    .where(and(eq(tables.jobs.id, jobId), eq(tables.jobs.runId, runId)))
+}
+
+/**
+ * Parse a job payload
+ */
+function getPayload(job: Job): CleanupJobPayload {
+  if (!job.payload) return { messageIds: [] }
+
+  try {
+    const payload = JSON.parse(job.payload) as CleanupJobPayload
+    return {
+      messageIds: Array.isArray(payload.messageIds) ? payload.messageIds : [],
+      labelId: payload.labelId,
+      backupFailedIds: Array.isArray(payload.backupFailedIds) ? payload.backupFailedIds : [],
+      attachments: payload.attachments,
+      stripFailedIds: Array.isArray(payload.stripFailedIds) ? payload.stripFailedIds : [],
+    }
+  } catch {
+    return { messageIds: [] }
+  }
+}
+
+/**
+ * Messages of a chunk the mailbox action succeeded for
+ */
+function getSucceededIds(messageIds: string[], failedIds: string[]): string[] {
+  const failed = new Set(failedIds)
+  return messageIds.filter((id) => !failed.has(id))
+}
+
+/**
+ * Add/remove labels on a chunk of messages in the mailbox and mirror it locally
+ * Messages that were updated are mirrored even when others failed.
+ */
+async function modifyChunkLabels(
+  accountId: string,
+  messageIds: string[],
+  addLabelIds: string[],
+  removeLabelIds: string[]
+): Promise<void> {
+  const provider = await getMailProvider(accountId)
+  const { failedIds } = await provider.modifyLabels(accountId, messageIds, {
+    addLabelIds,
+    removeLabelIds,
+  })
+
+  for (const messageId of getSucceededIds(messageIds, failedIds)) {
+    await updateEmailLabels(accountId, messageId, addLabelIds, removeLabelIds)
+  }
+  if (failedIds.length > 0) {
+    throw new Error(`Failed to update labels on ${failedIds.length} emails`)
+  }
+}
+
+/**
+ * Apply the job's action to a single chunk of messages in the mailbox and mirror it locally
+ * Returns the storage reclaimed in the mailbox (only permanent deletes free space).
+ * When part of a chunk fails, what succeeded is mirrored before the error is thrown.
+ */
+async function processChunk(
+  type: CleanupJobType,
+  accountId: string,
+  messageIds: string[],
+  payload: CleanupJobPayload
+): Promise<number> {
+  const provider = await getMailProvider(accountId)
+
+  if (type === 'archive') {
+    const { failedIds } = await provider.archiveMessages(accountId, messageIds)
+    for (const messageId of getSucceededIds(messageIds, failedIds)) {
+      await updateEmailLabels(accountId, messageId, [], ['INBOX'])
+    }
+    if (failedIds.length > 0) {
+      throw new Error(`Failed to archive ${failedIds.length} emails`)
+    }
+    return 0
+  }
+
+  if (type === 'label') {
+    if (!payload.labelId) {
+      throw new Error('Label job has no label')
+    }
+    await modifyChunkLabels(accountId, messageIds, [payload.labelId], [])
+    return 0
+  }
+
+  if (type === 'trash') {
+    const { failedIds } = await provider.trashMessages(accountId, messageIds)
+    await markEmailsAsTrashed(accountId, getSucceededIds(messageIds, failedIds))
+    if (failedIds.length > 0) {
+      throw new Error(`Failed to trash ${failedIds.length} emails`)
+    }
+    return 0
+  }
+
+  // Sizes come from the local copy, so read them before it's removed
+  const sizeBytes = await sumEmailsSizeByIds(accountId, messageIds)
+
+  // Delete from the mailbox first - if this fails, local state stays consistent
+  await provider.deleteMessages(accountId, messageIds)
+  // Archive to Eternal Memory, then remove from local database
+  await archiveAndDeleteEmails(accountId, messageIds)
+
+  return sizeBytes
+}
+
+/**
+ * Back up a chunk to the local archive, then permanently delete what was backed up
+ * Returns the message IDs left in place because their backup failed.
+ */
+async function deleteChunkWithBackup(
+  accountId: string,
+  messageIds: string[],
+  format: BackupFormat,
+  payload: CleanupJobPayload
+): Promise<{ backupFailed: string[]; reclaimedBytes: number }> {
+  const { backedUp, failed } = await backupMessages(accountId, format, messageIds)
+  const reclaimedBytes =
+    backedUp.length > 0 ? await processChunk('delete', accountId, backedUp, payload) : 0
+
+  return { backupFailed: failed, reclaimedBytes }
+}
+
+/**
+ * Strip attachments from a chunk (stripAttachments backs the originals up first when
+ * backups are on)
+ * Returns the message IDs left in place because their backup or stripping failed.
+ */
+async function stripChunk(
+  accountId: string,
+  messageIds: string[],
+  payload: CleanupJobPayload
+): Promise<{ backupFailed: string[]; stripFailed: string[]; reclaimedBytes: number }> {
+  const { failed, backupFailed, reclaimedBytes } = await stripAttachments(
+    accountId,
+    messageIds,
+    payload.attachments ?? {}
+  )
+  return { backupFailed, stripFailed: failed, reclaimedBytes }
+}
+
+/**
+ * Update the cleanup rule run (if any) that queued this job
+ */
+async function finishRuleRun(job: Job): Promise<void> {
+  const { updateRuleRunForJob } = await import('./rules')
+  await updateRuleRunForJob(job)
+}
+
+/**
+ * Process a cleanup job, chunk by chunk, starting from the last checkpoint
+ */
+export async function processCleanupJob(data: DeleteJobData): Promise<void> {
+  const { jobId, accountId } = data
+
+  logger.debug(`[CleanupWorker] Processing job ${jobId} for account ${accountId}`)
+
+  const job = await getJob(jobId)
+  if (!job) {
+    logger.error(`[CleanupWorker] Job ${jobId} not found`)
+    return
+  }
+
+  const type = job.type as CleanupJobType
+  const payload = getPayload(job)
+  const messageIds = payload.messageIds
+  let processedCount = job.processedMessages || 0
+
+  // Claim the job - skipped if it's not pending (paused, cancelled, completed or
+  // already claimed by another run)
+  const runId = nanoid()
+  const now = (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+  const claimed = await claimJob(
+    jobId,
+    runId,
+    processedCount > 0
+      ? // Resuming - set resumedAt and processedAtResume for accurate ETA
+        { resumedAt: now, processedAtResume: processedCount }
+      : { startedAt: now }
+  )
+  if (!claimed) {
+    logger.debug(`[CleanupWorker] Job ${jobId} is not pending, skipping`)
+    return
+  }
+
+  try {
+    // Backup before delete is read when the job starts, so it applies to resumed jobs too.
+    // Strip jobs leave it to stripAttachments, which backs up before deleting anything.
+    const backupFormat = type === 'delete' ? await getBackupFormat(accountId) : null
+
+    // Retrying a job whose backups failed - try those emails again first
+    if (type === 'delete' && payload.backupFailedIds?.length) {
+      const retryIds = payload.backupFailedIds
+      let reclaimedBytes: number
+      if (backupFormat) {
+        const result = await deleteChunkWithBackup(accountId, retryIds, backupFormat, payload)
+        payload.backupFailedIds = result.backupFailed
+        reclaimedBytes = result.reclaimedBytes
+      } else {
+        // Backups were turned off since - delete them like any other chunk
+        reclaimedBytes = await processChunk('delete', accountId, retryIds, payload)
+        payload.backupFailedIds = []
+      }
+      await updateJobProgress(jobId, runId, processedCount, reclaimedBytes, payload)
+    }
+
+    // Retrying a strip job - try the emails that failed again first
+    if (type === 'strip' && (payload.backupFailedIds?.length || payload.stripFailedIds?.length)) {
+      const retryIds = [...(payload.backupFailedIds ?? []), ...(payload.stripFailedIds ?? [])]
+      const { backupFailed, stripFailed, reclaimedBytes } = await stripChunk(
+        accountId,
+        retryIds,
+        payload
+      )
+      payload.backupFailedIds = backupFailed
+      payload.stripFailedIds = stripFailed
+      await updateJobProgress(jobId, runId, processedCount, reclaimedBytes, payload)
+    }
+
+    while (processedCount < messageIds.length) {
+      // Stop between chunks once this run no longer owns the job (paused, cancelled,
+      // or resumed and claimed by a new run)
+      const current = await getJob(jobId)
+      if (current?.status !== 'running' || current.runId !== runId) {
+        logger.debug(`[CleanupWorker] Job ${jobId} is ${current?.status ?? 'gone'}, stopping run`)
+        return
+      }
+
+      const chunk = messageIds.slice(
+        processedCount,
+        processedCount + (type === 'strip' ? STRIP_CHUNK_SIZE : CHUNK_SIZE)
+      )
+      let reclaimedBytes: number
+      if (type === 'strip') {
+        const result = await stripChunk(accountId, chunk, payload)
+        payload.backupFailedIds = [...(payload.backupFailedIds ?? []), ...result.backupFailed]
+        payload.stripFailedIds = [...(payload.stripFailedIds ?? []), ...result.stripFailed]
+        reclaimedBytes = result.reclaimedBytes
+      } else if (backupFormat) {
+        const result = await deleteChunkWithBackup(accountId, chunk, backupFormat, payload)
+        payload.backupFailedIds = [...(payload.backupFailedIds ?? []), ...result.backupFailed]
+        reclaimedBytes = result.reclaimedBytes
+      } else {
+        reclaimedBytes = await processChunk(type, accountId, chunk, payload)
+      }
+
+      processedCount += chunk.length
+      await updateJobProgress(
+        jobId,
+        runId,
+        processedCount,
+        reclaimedBytes,
+        backupFormat || type === 'strip' ? payload : undefined
+      )
+
+      logger.debug(
+        `[CleanupWorker] Job ${jobId}: ${type} ${processedCount}/${messageIds.length} emails`
+      )
+    }
+
+    // Emails whose backup failed were not deleted - fail the job so it can be retried
+    const backupFailedCount = payload.backupFailedIds?.length ?? 0
+    const stripFailedCount = payload.stripFailedIds?.length ?? 0
+    if (backupFailedCount > 0 || stripFailedCount > 0) {
+      const lastError =
+        backupFailedCount > 0
+          ? `Backup failed for ${backupFailedCount} emails, so they were not ${type === 'strip' ? 'stripped' : 'deleted'}. Retry to try them again.`
+          : `Could not strip attachments from ${stripFailedCount} emails. Retry to try them again.`
+      logger.warn(`[CleanupWorker] Job ${jobId}: ${lastError}`)
+      if (!(await finishJob(jobId, runId, 'failed', { lastError }))) return
+      await finishRuleRun({
+        ...job,
+        status: 'failed',
+        processedMessages: processedCount,
+        lastError,
+      })
+      return
+    }
+
+    const completedAt = dbType === 'postgres' ? new Date() : new Date().toISOString()
+    if (!(await finishJob(jobId, runId, 'completed', { completedAt: completedAt as Date }))) {
+      return
+    }
+    await finishRuleRun({ ...job, status: 'completed', processedMessages: processedCount })
+
+    logger.debug(`[CleanupWorker] Job ${jobId} completed. Processed ${processedCount} emails.`)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[CleanupWorker] Job ${jobId} failed:`, errorMessage)
+
+    // Progress up to the last completed chunk is kept, so the job can be resumed
+    if (!(await finishJob(jobId, runId, 'failed', { lastError: errorMessage }))) return
+    await finishRuleRun({
+      ...job,
+      status: 'failed',
+      processedMessages: processedCount,
+      lastError: errorMessage,
+    })
+  }
+}
+
+// ============================================================================
+// Job Management
+// ============================================================================
+
+/**
+ * Create a cleanup job for the given messages and queue it
+ */
+export async function startCleanupJob(
+  accountId: string,
+  type: CleanupJobType,
+  messageIds: string[],
+  options: { labelId?: string; attachments?: Record<string, number[]> } = {}
+): Promise<Job> {
+  const [account] = await db
+    .select()
+    .from(tables.mailAccounts)
+    .where(eq(tables.mailAccounts.id, accountId))
+    .limit(1)
+
+  if (!account) {
+    throw new Error(`Account ${accountId} not found`)
+  }
+
+  const payload: CleanupJobPayload = {
+    messageIds,
+    labelId: options.labelId,
+    attachments: options.attachments,
+  }
+
+  const [newJob] = await db
+    .insert(tables.jobs)
+    .values({
+      userId: account.userId,
+      mailAccountId: accountId,
+      type,
+      status: 'pending',
+      totalMessages: messageIds.length,
+      processedMessages: 0,
+      payload: JSON.stringify(payload),
+    })
+    .returning()
+
+  if (!newJob) {
+    throw new Error(`Failed to create ${type} job`)
+  }
+
+  logger.debug(
+    `[CleanupWorker] Created ${type} job ${newJob.id} for ${messageIds.length} emails (account ${accountId})`
+  )
+
+  const { addJob } = await import('../queue')
+  await addJob(type, {
+    jobId: newJob.id,
+    accountId,
+  })
+
+  return newJob
+}
+
+/**
+ * Get a cleanup job belonging to an account
+ */
+export async function getCleanupJob(accountId: string, jobId: string): Promise<Job | null> {
+  const [job] = await db
+    .select()
+    .from(tables.jobs)
+    .where(
+      and(
+        eq(tables.jobs.id, jobId),
+        eq(tables.jobs.mailAccountId, accountId),
+        inArray(tables.jobs.type, CLEANUP_JOB_TYPES)
+      )
+    )
+    .limit(1)
+
+  return job || null
+}
+
+/**
+ * Pause a pending or running job
+ *
+ * A running job stops after the chunk it is currently processing.
+ */
+export async function pauseCleanupJob(accountId: string, jobId: string): Promise<Job | null> {
+  const job = await getCleanupJob(accountId, jobId)
+
+  if (!job || (job.status !== 'pending' && job.status !== 'running')) {
+    return null
+  }
+
+  logger.debug(`[CleanupWorker] Pausing job ${jobId} at ${job.processedMessages} emails`)
+  await updateJobStatus(jobId, 'paused')
+
+  return getJob(jobId)
+}
+
+/**
+ * Resume a paused or failed job from its last checkpoint
+ */
+export async function resumeCleanupJob(accountId: string, jobId: string): Promise<Job | null> {
+  const job = await getCleanupJob(accountId, jobId)
+
+  if (!job || (job.status !== 'paused' && job.status !== 'failed')) {
+    return null
+  }
+
+  logger.debug(`[CleanupWorker] Resuming job ${jobId} from ${job.processedMessages} emails`)
+  await updateJobStatus(jobId, 'pending')
+
+  const { addJob } = await import('../queue')
+  await addJob(job.type as CleanupJobType, {
+    jobId,
+    accountId,
+  })
+
+  return getJob(jobId)
+}
+
+/**
+ * Cancel a job that has not finished yet
+ *
+ * Emails already processed stay trashed/deleted.
+ */
+export async function cancelCleanupJob(accountId: string, jobId: string): Promise<boolean> {
+  const job = await getCleanupJob(accountId, jobId)
+
+  if (!job || job.status === 'completed' || job.status === 'cancelled') {
+    return false
+  }
+
+  logger.debug(`[CleanupWorker] Cancelling job ${jobId}`)
+  await updateJobStatus(jobId, 'cancelled')
+  await finishRuleRun({ ...job, status: 'cancelled' })
+
+  return true
+}
+
+/**
+ * Register the cleanup worker with the queue
+ */
+export function registerCleanupWorker(): void {
+  for (const type of CLEANUP_JOB_TYPES) {
+    registerHandler(type, async (data) => {
+      await processCleanupJob(data as DeleteJobData)
+    })
+  }
+
+  logger.debug('[CleanupWorker] Cleanup worker registered')
+}
+
+/**
+ * Resume interrupted cleanup jobs on server startup
+ *
+ * Jobs that were running or pending when the server stopped are re-queued and
+ * continue from their last checkpoint. Paused and failed jobs wait for the user.
+ * Jobs another replica is still running (live queue lease) are left alone.
+ */
+export async function resumeInterruptedCleanupJobs(): Promise<number> {
+  logger.debug('[CleanupWorker] Checking for interrupted cleanup jobs...')
+
+  const candidates = await db
+    .select()
+    .from(tables.jobs)
+    .where(
+      and(
+        inArray(tables.jobs.type, CLEANUP_JOB_TYPES),
+        sql`${tables.jobs.status} IN ('running', 'pending')`
+      )
+    )
+    .orderBy(tables.jobs.createdAt)
+
+  const { addJob, getRunningJobIds } = await import('../queue')
+  const running = await getRunningJobIds(CLEANUP_JOB_TYPES)
+  const interruptedJobs = candidates.filter((job) => !running.has(job.id))
+
+  if (interruptedJobs.length === 0) {
+    logger.debug('[CleanupWorker] No interrupted jobs found')
+    return 0
+  }
+
+  for (const job of interruptedJobs) {
+    if (job.status === 'running') {
+      await updateJobStatus(job.id, 'pending')
+    }
+
+    await addJob(job.type as CleanupJobType, {
+      jobId: job.id,
+      accountId: job.mailAccountId,
+    })
+
+    logger.debug(
+      `[CleanupWorker] Re-queued ${job.type} job ${job.id} (was at ${job.processedMessages}/${job.totalMessages})`
+    )
+  }
+
+  return interruptedJobs.length
+}
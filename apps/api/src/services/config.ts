@@ -11,6 +11,7 @@ export type ConfigKey =
   | 'google_client_secret'
   | 'app_url'
   | 'setup_completed'
+  | 'login_allowlist'
   // AI Provider API Keys
   | 'openai_api_key'
   | 'anthropic_api_key'
@@ -45,6 +46,7 @@ const ENV_VAR_MAP: Record<ConfigKey, string> = {
   google_client_secret: 'GOOGLE_CLIENT_SECRET',
   app_url: 'APP_URL',
   setup_completed: '', // No env var equivalent
+  login_allowlist: 'LOGIN_ALLOWLIST',
   // AI Provider API Keys
   openai_api_key: 'OPENAI_API_KEY',
   anthropic_api_key: 'ANTHROPIC_API_KEY',
@@ -203,6 +205,7 @@ export async function getAllConfig(): Promise<Record<ConfigKey, ConfigValue>> {
     'google_client_secret',
     'app_url',
     'setup_completed',
+    'login_allowlist',
     'openai_api_key',
     'anthropic_api_key',
     'google_ai_api_key',
@@ -279,6 +282,58 @@ export async function getAppUrl(): Promise<string> {
   return config.value || `http://localhost:${process.env.PORT || '6616'}`
 }
 
+// ============================================================================
+// Login Allowlist
+// ============================================================================
+
+/**
+ * Parse an allowlist value (comma/whitespace separated) into normalized entries
+ * Entries are full emails ("alice@example.com") or domains ("example.com", "@example.com").
+ */
+export function parseLoginAllowlist(value: string | null): string[] {
+  if (!value) return []
+  const entries = value
+    .split(/[\s,;]+/)
+    .map((entry) => entry.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean)
+  return [...new Set(entries)]
+}
+
+/**
+ * Get the instance login allowlist (from env or db)
+ * An empty list means any Google account may sign in.
+ */
+export async function getLoginAllowlist(): Promise<string[]> {
+  const config = await getConfig('login_allowlist')
+  return parseLoginAllowlist(config.value)
+}
+
+/**
+ * Save the login allowlist (an empty list removes the restriction)
+ * Throws if LOGIN_ALLOWLIST is set via environment variable.
+ */
+export async function setLoginAllowlist(entries: string[]): Promise<string[]> {
+  const normalized = parseLoginAllowlist(entries.join(','))
+  if (normalized.length === 0) {
+    await deleteConfig('login_allowlist')
+  } else {
+    await setConfig('login_allowlist', normalized.join(','))
+  }
+  return normalized
+}
+
+/**
+ * Check whether an email may sign in, by exact address or by domain
+ */
+export async function isLoginAllowed(email: string): Promise<boolean> {
+  const allowlist = await getLoginAllowlist()
+  if (allowlist.length === 0) return true
+
+  const normalized = email.trim().toLowerCase()
+  const domain = normalized.split('@')[1] ?? ''
+  return allowlist.includes(normalized) || (domain !== '' && allowlist.includes(domain))
+}
+
 // ============================================================================
 // AI Provider Configuration
 // ============================================================================
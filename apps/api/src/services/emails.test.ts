@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'bun:test'
+import { insertEmails, queryEmails, queryEmailsUnified } from './emails'
+import { buildEmail, createTestAccount } from '../test/helpers'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('email search', () => {
+  test('ranks matches by relevance when no sort is given', async () => {
+    const { accountId } = await createTestAccount()
+    const now = Date.now()
+    await insertEmails(accountId, [
+      buildEmail({
+        message_id: 'subject-match',
+        subject: 'Invoice for March',
+        internal_date: now - 30 * DAY_MS,
+      }),
+      buildEmail({
+        message_id: 'snippet-match',
+        subject: 'Monthly newsletter',
+        snippet: 'Your invoice is attached',
+        internal_date: now,
+      }),
+    ])
+
+    const ranked = await queryEmails(accountId, { search: 'invoice' }, { page: 1, limit: 10 })
+    expect(ranked.map((e) => e.message_id)).toEqual(['subject-match', 'snippet-match'])
+
+    const unified = await queryEmailsUnified(accountId, { filters: { search: 'invoice' } })
+    expect(unified.emails?.map((e) => e.message_id)).toEqual(['subject-match', 'snippet-match'])
+
+    // An explicit sort wins over relevance
+    const byDate = await queryEmails(
+      accountId,
+      { search: 'invoice', sortBy: 'date', sortOrder: 'desc' },
+      { page: 1, limit: 10 }
+    )
+    expect(byDate.map((e) => e.message_id)).toEqual(['snippet-match', 'subject-match'])
+  })
+
+  test("doesn't match another account's email with the same message ID", async () => {
+    const { accountId } = await createTestAccount()
+    const { accountId: otherAccountId } = await createTestAccount()
+    await insertEmails(accountId, [buildEmail({ message_id: 'shared-id', subject: 'Hello' })])
+    await insertEmails(otherAccountId, [
+      buildEmail({ message_id: 'shared-id', subject: 'Quarterly report' }),
+    ])
+
+    const results = await queryEmails(accountId, { search: 'quarterly' }, { page: 1, limit: 10 })
+    expect(results).toHaveLength(0)
+  })
+})
@@ -5,12 +5,35 @@
  * All emails are stored in the main database with mailAccountId for multi-tenancy.
  */
 
-import { sql, eq, and, or, gt, lt, gte, lte, like, desc, asc, count, inArray } from 'drizzle-orm'
-import { db, tables } from '../db'
+import {
+  sql,
+  eq,
+  and,
+  or,
+  not,
+  gt,
+  lt,
+  gte,
+  lte,
+  like,
+  desc,
+  asc,
+  count,
+  inArray,
+} from 'drizzle-orm'
+import { db, tables, dbType } from '../db'
+import type { DeletedEmailStatus } from '../db'
 import { logger } from '../lib/logger'
+import { withGmailQuota } from './gmail-quota'
+import { parseSearchQuery, type SearchField, type SearchTerm } from '../lib/search-query'
 
 const { emails, senders, deletedEmails } = tables
 
+/**
+ * Tables that can be queried with ExplorerFilters
+ */
+type FilterTable = typeof emails | typeof deletedEmails
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -47,6 +70,39 @@ export interface EmailRecord {
   internal_date: number // Unix timestamp in ms
   synced_at: number // Unix timestamp in ms
   unsubscribe_link: string | null // List-Unsubscribe header URL
+  list_unsubscribe?: string | null // Raw List-Unsubscribe header (all URLs)
+  list_unsubscribe_post?: string | null // RFC 8058 List-Unsubscribe-Post header
+  to_emails?: string | null // JSON array of To addresses
+  cc_emails?: string | null // JSON array of Cc addresses
+  delivered_to?: string | null // Delivered-To header address
+  reply_to?: string | null // Reply-To header address
+  list_id?: string | null // List-Id identifier, e.g. "news.example.com"
+}
+
+/**
+ * Archived email metadata from Eternal Memory (deleted_emails)
+ */
+export interface DeletedEmailRecord {
+  message_id: string
+  thread_id: string
+  subject: string | null
+  snippet: string | null
+  from_email: string
+  from_name: string | null
+  labels: string // JSON array (as of deletion)
+  category: string | null
+  size_bytes: number
+  has_attachments: number
+  attachments: string | null
+  is_unread: number
+  is_starred: number
+  is_trash: number // 0 or 1 - derived from labels (in trash when deleted)
+  is_spam: number
+  is_important: number
+  internal_date: number
+  unsubscribe_link: string | null
+  deleted_at: string // ISO timestamp
+  restorable: boolean // Was in trash and may still be within Gmail's 30-day window
 }
 
 /**
@@ -94,6 +150,9 @@ export interface ExplorerFilters {
   sender?: string // Partial match on sender name OR email (single value, e.g., "Coursera", "amazon")
   senderEmail?: string // Comma-separated exact email addresses (e.g., "a@example.com,b@example.com")
   senderDomain?: string // Comma-separated exact domains (e.g., "example.com,test.com")
+  toEmail?: string // Comma-separated exact recipient addresses (To, Cc or Delivered-To)
+  toDomain?: string // Comma-separated exact recipient domains (To, Cc or Delivered-To)
+  listId?: string // Partial match on the List-Id identifier (e.g., "github.com")
   category?: string
   dateFrom?: number // Unix timestamp ms
   dateTo?: number // Unix timestamp ms
@@ -108,9 +167,31 @@ export interface ExplorerFilters {
   isSent?: boolean // Emails with SENT label
   isArchived?: boolean // Emails without INBOX label (not in inbox, trash, or spam)
   labelIds?: string // Comma-separated label IDs (user labels)
-  search?: string // Subject search
+  search?: string // Full-text search (subject, snippet, sender, filenames) - see lib/search-query
   sortBy?: 'date' | 'size' | 'sender'
   sortOrder?: 'asc' | 'desc'
+  // Thread mode: match whole threads and expand results to every message in them
+  // 'any' = a thread matches when any of its messages matches the filters
+  // 'all' = a thread matches only when every one of its messages matches
+  threadMatch?: 'any' | 'all'
+}
+
+/**
+ * A conversation thread aggregated from its messages
+ */
+export interface ThreadRecord {
+  thread_id: string
+  subject: string | null // Subject of the first message
+  snippet: string | null // Snippet of the latest message
+  message_count: number
+  message_ids: string[]
+  participants: Array<{ email: string; name: string | null }>
+  total_size: number
+  latest_date: number // Unix timestamp in ms
+  is_unread: number // 1 if any message is unread
+  is_starred: number // 1 if any message is starred
+  has_attachments: number // total attachment count
+  category: string | null // Category of the latest message
 }
 
 /**
@@ -240,6 +321,11 @@ function toEmailRecord(row: typeof emails.$inferSelect): EmailRecord {
     internal_date: Number(row.internalDate ?? 0),
     synced_at: Number(row.syncedAt ?? 0),
     unsubscribe_link: row.unsubscribeLink ?? null,
+    to_emails: row.toEmails ?? null,
+    cc_emails: row.ccEmails ?? null,
+    delivered_to: row.deliveredTo ?? null,
+    reply_to: row.replyTo ?? null,
+    list_id: row.listId ?? null,
   }
 }
 
@@ -258,67 +344,163 @@ function findCategoryFromLabels(labelIds: string[]): string | null {
   return null
 }
 
+// SQLite FTS5 columns (emails_fts) and Postgres tsvector weights (emails.search_vector)
+// for each field prefix - see migrations sqlite/0007_emails_fts and pg/0006_emails_search
+const FTS_COLUMNS: Record<Exclude<SearchField, 'any'>, string> = {
+  from: 'sender',
+  subject: 'subject',
+  filename: 'filename',
+}
+const TSVECTOR_WEIGHTS: Record<Exclude<SearchField, 'any'>, string> = {
+  subject: 'A',
+  from: 'B',
+  filename: 'C',
+}
+
 /**
- * Parse search query and build SQL condition with OR/AND operator support
- *
- * Supports:
- * - "term1 OR term2 OR term3" -> matches any of the terms
- * - "term1 AND term2" -> matches all terms (default if no operator)
- * - "term1" -> simple single term match
- * - Mixed: "term1 OR term2 AND term3" is NOT supported (use parentheses in future)
- *
- * All searches are case-insensitive partial matches on subject field.
- */
-function buildSearchCondition(search: string) {
-  const trimmed = search.trim()
-  if (!trimmed) return null
-
-  // Check if query contains OR operator (case-insensitive)
-  const orParts = trimmed.split(/\s+OR\s+/i)
-  if (orParts.length > 1) {
-    // OR query: match any of the terms
-    const orConditions = orParts
-      .map((term) => term.trim())
-      .filter(Boolean)
-      .map((term) => {
-        // Remove surrounding quotes if present
-        const cleanTerm = term.replace(/^["']|["']$/g, '').trim()
-        return sql`LOWER(${emails.subject}) LIKE ${'%' + cleanTerm.toLowerCase() + '%'}`
-      })
+ * FTS5 query for a term, e.g. `sender : "amazon"*` or `"order shipped"`
+ * Tokens are letters/digits only, so they are safe inside quotes.
+ */
+function toFtsExpression(term: SearchTerm): string {
+  const column = term.field === 'any' ? '' : `${FTS_COLUMNS[term.field]} : `
+  return `${column}"${term.tokens.join(' ')}"${term.prefix ? '*' : ''}`
+}
 
-    if (orConditions.length === 0) return null
-    if (orConditions.length === 1) return orConditions[0]
-    return or(...orConditions)!
-  }
+/**
+ * tsquery for a term, e.g. `'amazon':*B` or `'order' <-> 'shipped'`
+ */
+function toTsquery(term: SearchTerm): string {
+  const weight = term.field === 'any' ? '' : TSVECTOR_WEIGHTS[term.field]
+  return term.tokens
+    .map((token, index) => {
+      const isLast = index === term.tokens.length - 1
+      const label = `${isLast && term.prefix ? '*' : ''}${weight}`
+      return label ? `'${token}':${label}` : `'${token}'`
+    })
+    .join(' <-> ')
+}
 
-  // Check if query contains AND operator (case-insensitive)
-  const andParts = trimmed.split(/\s+AND\s+/i)
-  if (andParts.length > 1) {
-    // AND query: match all of the terms
-    const andConditions = andParts
-      .map((term) => term.trim())
-      .filter(Boolean)
-      .map((term) => {
-        // Remove surrounding quotes if present
-        const cleanTerm = term.replace(/^["']|["']$/g, '').trim()
-        return sql`LOWER(${emails.subject}) LIKE ${'%' + cleanTerm.toLowerCase() + '%'}`
-      })
+/**
+ * Full-text match of a single term against the emails search index
+ * The SQLite index is shared by all accounts, so matches are scoped to the account's rows.
+ */
+function buildIndexedTermCondition(accountId: string, term: SearchTerm) {
+  if (dbType === 'postgres') {
+    return sql`${emails.searchVector} @@ to_tsquery('simple', ${toTsquery(term)})`
+  }
+  return sql`${emails.messageId} IN (SELECT m.message_id FROM emails_fts_map m WHERE m.mail_account_id = ${accountId} AND m.id IN (SELECT rowid FROM emails_fts WHERE emails_fts MATCH ${toFtsExpression(term)}))`
+}
 
-    if (andConditions.length === 0) return null
-    if (andConditions.length === 1) return andConditions[0]
-    return and(...andConditions)!
+/**
+ * LIKE fallback for tables without a search index (Eternal Memory)
+ */
+function buildLikeTermCondition(term: SearchTerm, table: FilterTable) {
+  const fieldColumns = {
+    any: [table.subject, table.snippet, table.fromName, table.fromEmail, table.attachments],
+    from: [table.fromName, table.fromEmail],
+    subject: [table.subject],
+    filename: [table.attachments],
   }
+  const pattern = `%${term.tokens.join('%')}%`
+  return or(
+    ...fieldColumns[term.field].map((column) => sql`LOWER(COALESCE(${column}, '')) LIKE ${pattern}`)
+  )!
+}
 
-  // Simple single term search
-  const cleanTerm = trimmed.replace(/^["']|["']$/g, '').trim()
-  return sql`LOWER(${emails.subject}) LIKE ${'%' + cleanTerm.toLowerCase() + '%'}`
+/**
+ * Build the SQL condition for a search query (see lib/search-query for the syntax)
+ *
+ * Uses the full-text index (FTS5 on SQLite, tsvector on Postgres) for the emails
+ * table and LIKE matching for deleted_emails.
+ */
+function buildSearchCondition(accountId: string, search: string, table: FilterTable = emails) {
+  const query = parseSearchQuery(search)
+  if (query.length === 0) return null
+
+  const groups = query.map((group) => {
+    const termConditions = group.map((term) => {
+      const condition =
+        table === emails
+          ? buildIndexedTermCondition(accountId, term)
+          : buildLikeTermCondition(term, table)
+      return term.negated ? not(condition) : condition
+    })
+    return termConditions.length === 1 ? termConditions[0]! : and(...termConditions)!
+  })
+  return groups.length === 1 ? groups[0]! : or(...groups)!
+}
+
+/**
+ * ORDER BY clause ranking emails by search relevance, or null without searchable words
+ * Used for searches without an explicit sort, ahead of the default date order.
+ *
+ * SQLite: bm25 over emails_fts (lower is better), weighting subject > sender > filename > snippet
+ * Postgres: ts_rank over the weighted search_vector (higher is better)
+ */
+function buildRelevanceOrder(search: string) {
+  const positiveTerms = parseSearchQuery(search)
+    .flat()
+    .filter((term) => !term.negated)
+  if (positiveTerms.length === 0) return null
+
+  if (dbType === 'postgres') {
+    const tsquery = positiveTerms.map((term) => `(${toTsquery(term)})`).join(' | ')
+    return desc(sql`ts_rank(${emails.searchVector}, to_tsquery('simple', ${tsquery}))`)
+  }
+  const ftsQuery = positiveTerms.map(toFtsExpression).join(' OR ')
+  return asc(
+    sql`COALESCE((SELECT bm25(emails_fts, 10.0, 5.0, 3.0, 1.0) FROM emails_fts WHERE emails_fts MATCH ${ftsQuery} AND rowid = (SELECT m.id FROM emails_fts_map m WHERE m.mail_account_id = ${emails.mailAccountId} AND m.message_id = ${emails.messageId})), 0)`
+  )
+}
+
+/**
+ * Thread grouping key - messages without a thread ID form their own thread
+ */
+function threadKey(table: FilterTable = emails) {
+  return sql<string>`COALESCE(${table.threadId}, ${table.messageId})`
 }
 
 /**
  * Build WHERE conditions from filters
+ *
+ * Also used for the Eternal Memory archive (deleted_emails), which has the same
+ * columns except is_trash - there the TRASH label is checked instead.
+ *
+ * With threadMatch set, the conditions select every message of the matching threads.
  */
-function buildWhereConditions(accountId: string, filters: ExplorerFilters) {
-  const conditions = [eq(emails.mailAccountId, accountId)]
+function buildWhereConditions(
+  accountId: string,
+  filters: ExplorerFilters,
+  table: FilterTable = emails
+) {
+  const messageConditions = buildMessageConditions(accountId, filters, table)
+  if (!filters.threadMatch) {
+    return messageConditions
+  }
+
+  const key = threadKey(table)
+  const matchingThreads =
+    filters.threadMatch === 'all'
+      ? db
+          .select({ key })
+          .from(table)
+          .where(eq(table.mailAccountId, accountId))
+          .groupBy(key)
+          .having(sql`SUM(CASE WHEN ${messageConditions} THEN 1 ELSE 0 END) = COUNT(*)`)
+      : db.select({ key }).from(table).where(messageConditions)
+
+  return and(eq(table.mailAccountId, accountId), inArray(key, matchingThreads))!
+}
+
+/**
+ * Build per-message WHERE conditions from filters (ignores threadMatch)
+ */
+function buildMessageConditions(
+  accountId: string,
+  filters: ExplorerFilters,
+  table: FilterTable = emails
+) {
+  const conditions = [eq(table.mailAccountId, accountId)]
 
   // sender: Partial match on sender name OR email (single value)
   // Use case: "show me emails from Coursera" or "emails from amazon"
@@ -327,8 +509,8 @@ function buildWhereConditions(accountId: string, filters: ExplorerFilters) {
     if (senderLower) {
       conditions.push(
         or(
-          sql`LOWER(${emails.fromName}) LIKE ${'%' + senderLower + '%'}`,
-          sql`LOWER(${emails.fromEmail}) LIKE ${'%' + senderLower + '%'}`
+          sql`LOWER(${table.fromName}) LIKE ${'%' + senderLower + '%'}`,
+          sql`LOWER(${table.fromEmail}) LIKE ${'%' + senderLower + '%'}`
         )!
       )
     }
@@ -342,9 +524,9 @@ function buildWhereConditions(accountId: string, filters: ExplorerFilters) {
       .map((e) => e.trim().toLowerCase())
       .filter(Boolean)
     if (emailList.length === 1) {
-      conditions.push(sql`LOWER(${emails.fromEmail}) = ${emailList[0]}`)
+      conditions.push(sql`LOWER(${table.fromEmail}) = ${emailList[0]}`)
     } else if (emailList.length > 1) {
-      conditions.push(or(...emailList.map((email) => sql`LOWER(${emails.fromEmail}) = ${email}`))!)
+      conditions.push(or(...emailList.map((email) => sql`LOWER(${table.fromEmail}) = ${email}`))!)
     }
   }
 
@@ -356,58 +538,122 @@ function buildWhereConditions(accountId: string, filters: ExplorerFilters) {
       .map((d) => d.trim().toLowerCase())
       .filter(Boolean)
     if (domainList.length === 1) {
-      conditions.push(sql`LOWER(${emails.fromEmail}) LIKE ${'%@' + domainList[0]}`)
+      conditions.push(sql`LOWER(${table.fromEmail}) LIKE ${'%@' + domainList[0]}`)
     } else if (domainList.length > 1) {
       conditions.push(
-        or(...domainList.map((domain) => sql`LOWER(${emails.fromEmail}) LIKE ${'%@' + domain}`))!
+        or(...domainList.map((domain) => sql`LOWER(${table.fromEmail}) LIKE ${'%@' + domain}`))!
       )
     }
   }
 
+  // toEmail: Exact recipient match (comma-separated for multiple values)
+  // Use case: mail sent to an alias like "me+shopping@gmail.com"
+  // Recipient columns are stored lowercased, To/Cc as JSON arrays of quoted addresses
+  if (filters.toEmail) {
+    const emailList = filters.toEmail
+      .split(',')
+      .map((e) => e.trim().toLowerCase())
+      .filter(Boolean)
+    if (emailList.length > 0) {
+      conditions.push(
+        or(
+          ...emailList.map(
+            (email) =>
+              or(
+                sql`${table.toEmails} LIKE ${'%"' + email + '"%'}`,
+                sql`${table.ccEmails} LIKE ${'%"' + email + '"%'}`,
+                sql`${table.deliveredTo} = ${email}`
+              )!
+          )
+        )!
+      )
+    }
+  }
+
+  // toDomain: Exact recipient domain match (comma-separated for multiple values)
+  // Use case: mail sent to a work or custom domain
+  if (filters.toDomain) {
+    const domainList = filters.toDomain
+      .split(',')
+      .map((d) => d.trim().toLowerCase())
+      .filter(Boolean)
+    if (domainList.length > 0) {
+      conditions.push(
+        or(
+          ...domainList.map(
+            (domain) =>
+              or(
+                sql`${table.toEmails} LIKE ${'%@' + domain + '"%'}`,
+                sql`${table.ccEmails} LIKE ${'%@' + domain + '"%'}`,
+                sql`${table.deliveredTo} LIKE ${'%@' + domain}`
+              )!
+          )
+        )!
+      )
+    }
+  }
+
+  // listId: Partial match on the mailing list identifier (single value)
+  // Use case: "emails from the rust-lang mailing list"
+  if (filters.listId) {
+    const listIdLower = filters.listId.toLowerCase().trim()
+    if (listIdLower) {
+      conditions.push(sql`${table.listId} LIKE ${'%' + listIdLower + '%'}`)
+    }
+  }
+
   if (filters.category) {
-    conditions.push(eq(emails.category, filters.category))
+    conditions.push(eq(table.category, filters.category))
   }
   if (filters.dateFrom !== undefined) {
-    conditions.push(gte(emails.internalDate, filters.dateFrom))
+    conditions.push(gte(table.internalDate, filters.dateFrom))
   }
   if (filters.dateTo !== undefined) {
-    conditions.push(lte(emails.internalDate, filters.dateTo))
+    conditions.push(lte(table.internalDate, filters.dateTo))
   }
   if (filters.sizeMin !== undefined) {
-    conditions.push(gte(emails.sizeBytes, filters.sizeMin))
+    conditions.push(gte(table.sizeBytes, filters.sizeMin))
   }
   if (filters.sizeMax !== undefined) {
-    conditions.push(lte(emails.sizeBytes, filters.sizeMax))
+    conditions.push(lte(table.sizeBytes, filters.sizeMax))
   }
   if (filters.isUnread !== undefined) {
-    conditions.push(eq(emails.isUnread, filters.isUnread ? 1 : 0))
+    conditions.push(eq(table.isUnread, filters.isUnread ? 1 : 0))
   }
   if (filters.isStarred !== undefined) {
-    conditions.push(eq(emails.isStarred, filters.isStarred ? 1 : 0))
+    conditions.push(eq(table.isStarred, filters.isStarred ? 1 : 0))
   }
   if (filters.hasAttachments !== undefined) {
     conditions.push(
-      filters.hasAttachments ? gt(emails.hasAttachments, 0) : eq(emails.hasAttachments, 0)
+      filters.hasAttachments ? gt(table.hasAttachments, 0) : eq(table.hasAttachments, 0)
     )
   }
   if (filters.isTrash !== undefined) {
-    conditions.push(eq(emails.isTrash, filters.isTrash ? 1 : 0))
+    conditions.push(
+      'isTrash' in table
+        ? eq(table.isTrash, filters.isTrash ? 1 : 0)
+        : filters.isTrash
+          ? sql`${table.labels} LIKE '%"TRASH"%'`
+          : sql`${table.labels} NOT LIKE '%"TRASH"%'`
+    )
   }
   if (filters.isSpam !== undefined) {
-    conditions.push(eq(emails.isSpam, filters.isSpam ? 1 : 0))
+    conditions.push(eq(table.isSpam, filters.isSpam ? 1 : 0))
   }
   if (filters.isImportant !== undefined) {
-    conditions.push(eq(emails.isImportant, filters.isImportant ? 1 : 0))
+    conditions.push(eq(table.isImportant, filters.isImportant ? 1 : 0))
   }
   if (filters.isArchived === true) {
     // Archived = not in inbox (no INBOX label), not trash, not spam
-    conditions.push(sql`${emails.labels} NOT LIKE '%"INBOX"%'`)
-    conditions.push(eq(emails.isTrash, 0))
-    conditions.push(eq(emails.isSpam, 0))
+    conditions.push(sql`${table.labels} NOT LIKE '%"INBOX"%'`)
+    conditions.push(
+      'isTrash' in table ? eq(table.isTrash, 0) : sql`${table.labels} NOT LIKE '%"TRASH"%'`
+    )
+    conditions.push(eq(table.isSpam, 0))
   }
   if (filters.isSent === true) {
     // Sent = emails with SENT label
-    conditions.push(sql`${emails.labels} LIKE '%"SENT"%'`)
+    conditions.push(sql`${table.labels} LIKE '%"SENT"%'`)
   }
   if (filters.labelIds) {
     // Filter by user labels (comma-separated label IDs)
@@ -418,7 +664,7 @@ function buildWhereConditions(accountId: string, filters: ExplorerFilters) {
     if (labelList.length > 0) {
       // Match any of the specified labels (OR)
       const labelConditions = labelList.map(
-        (labelId) => sql`${emails.labels} LIKE ${'%"' + labelId + '"%'}`
+        (labelId) => sql`${table.labels} LIKE ${'%"' + labelId + '"%'}`
       )
       if (labelConditions.length === 1) {
         conditions.push(labelConditions[0]!)
@@ -428,7 +674,7 @@ function buildWhereConditions(accountId: string, filters: ExplorerFilters) {
     }
   }
   if (filters.search) {
-    const searchCondition = buildSearchCondition(filters.search)
+    const searchCondition = buildSearchCondition(accountId, filters.search, table)
     if (searchCondition) {
       conditions.push(searchCondition)
     }
@@ -437,18 +683,28 @@ function buildWhereConditions(accountId: string, filters: ExplorerFilters) {
   return and(...conditions)!
 }
 
+/**
+ * ORDER BY for email lists: searches without an explicit sort are ranked by relevance
+ * first, everything else uses the filters' sort
+ */
+function getSearchOrderBy(filters: ExplorerFilters) {
+  const relevanceOrder =
+    filters.search && !filters.sortBy ? buildRelevanceOrder(filters.search) : null
+  return relevanceOrder ? [relevanceOrder, getOrderBy(filters)] : [getOrderBy(filters)]
+}
+
 /**
  * Get ORDER BY column and direction from filters
  */
-function getOrderBy(filters: ExplorerFilters) {
+function getOrderBy(filters: ExplorerFilters, table: FilterTable = emails) {
   const sortBy = filters.sortBy || 'date'
   const sortOrder = filters.sortOrder || 'desc'
   const columnMap = {
-    date: emails.internalDate,
-    size: emails.sizeBytes,
-    sender: emails.fromEmail,
+    date: table.internalDate,
+    size: table.sizeBytes,
+    sender: table.fromEmail,
   }
-  const column = columnMap[sortBy] || emails.internalDate
+  const column = columnMap[sortBy] || table.internalDate
   return sortOrder === 'asc' ? asc(column) : desc(column)
 }
 
@@ -491,6 +747,13 @@ export async function insertEmails(accountId: string, emailRecords: EmailRecord[
     internalDate: toSafeInt(email.internal_date),
     syncedAt: toSafeInt(email.synced_at),
     unsubscribeLink: email.unsubscribe_link ?? null,
+    listUnsubscribe: email.list_unsubscribe ?? null,
+    listUnsubscribePost: email.list_unsubscribe_post ?? null,
+    toEmails: email.to_emails ?? null,
+    ccEmails: email.cc_emails ?? null,
+    deliveredTo: email.delivered_to ?? null,
+    replyTo: email.reply_to ?? null,
+    listId: email.list_id ?? null,
   }))
 
   await db
@@ -517,6 +780,13 @@ export async function insertEmails(accountId: string, emailRecords: EmailRecord[
         internalDate: sql`excluded.internal_date`,
         syncedAt: sql`excluded.synced_at`,
         unsubscribeLink: sql`excluded.unsubscribe_link`,
+        listUnsubscribe: sql`excluded.list_unsubscribe`,
+        listUnsubscribePost: sql`excluded.list_unsubscribe_post`,
+        toEmails: sql`excluded.to_emails`,
+        ccEmails: sql`excluded.cc_emails`,
+        deliveredTo: sql`excluded.delivered_to`,
+        replyTo: sql`excluded.reply_to`,
+        listId: sql`excluded.list_id`,
       },
     })
 }
@@ -535,12 +805,14 @@ export async function deleteEmailsByIds(accountId: string, messageIds: string[])
 }
 
 /**
- * Archive emails to "Eternal Memory" before permanent deletion
- * Copies email metadata to deleted_emails table for historical reference
+ * Archive emails to "Eternal Memory" when they are trashed or permanently deleted
+ * Copies email metadata to deleted_emails table for historical reference.
+ * Archiving a trashed email again as purged marks it as no longer restorable.
  */
 export async function archiveEmailsToEternalMemory(
   accountId: string,
-  messageIds: string[]
+  messageIds: string[],
+  status: DeletedEmailStatus = 'purged'
 ): Promise<number> {
   if (messageIds.length === 0) return 0
 
@@ -570,17 +842,35 @@ export async function archiveEmailsToEternalMemory(
       category: email.category,
       sizeBytes: email.sizeBytes,
       hasAttachments: email.hasAttachments,
+      attachments: email.attachments,
       isUnread: email.isUnread,
       isStarred: email.isStarred,
       isSpam: email.isSpam,
       isImportant: email.isImportant,
       internalDate: email.internalDate,
       unsubscribeLink: email.unsubscribeLink,
+      toEmails: email.toEmails,
+      ccEmails: email.ccEmails,
+      deliveredTo: email.deliveredTo,
+      replyTo: email.replyTo,
+      listId: email.listId,
+      status,
       // deletedAt is set automatically via defaultNow()
     }))
 
-    // Use onConflictDoNothing to handle duplicates (email already archived)
-    await db.insert(deletedEmails).values(values).onConflictDoNothing()
+    if (status === 'trashed') {
+      // Already archived - trashed before, or purged
+      await db.insert(deletedEmails).values(values).onConflictDoNothing()
+    } else {
+      // A trashed email that is purged now can't be restored anymore
+      await db
+        .insert(deletedEmails)
+        .values(values)
+        .onConflictDoUpdate({
+          target: [deletedEmails.messageId, deletedEmails.mailAccountId],
+          set: { status: 'purged', labels: sql`excluded.labels` },
+        })
+    }
     archivedCount += batch.length
   }
 
@@ -607,8 +897,232 @@ export async function archiveAndDeleteEmails(
   return { archived, deleted }
 }
 
+// ============================================================================
+// Eternal Memory (deleted_emails)
+// ============================================================================
+
+// Gmail permanently removes messages from trash after 30 days
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+/**
+ * Parse a timestamp column (SQLite stores 'YYYY-MM-DD HH:MM:SS' in UTC or ISO strings,
+ * Postgres returns a Date)
+ */
+export function parseDbTimestamp(value: Date | string): Date {
+  if (value instanceof Date) return value
+  return new Date(/(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(value) ? value : value.replace(' ', 'T') + 'Z')
+}
+
+/**
+ * Whether an archived email was only trashed and could still be untrashed in the mailbox
+ */
+function isRestorable(row: typeof deletedEmails.$inferSelect): boolean {
+  if (row.status !== 'trashed') return false
+  return Date.now() - parseDbTimestamp(row.deletedAt).getTime() < TRASH_RETENTION_MS
+}
+
+/**
+ * Convert Drizzle result to DeletedEmailRecord
+ */
+function toDeletedEmailRecord(row: typeof deletedEmails.$inferSelect): DeletedEmailRecord {
+  return {
+    message_id: row.messageId,
+    thread_id: row.threadId ?? '',
+    subject: row.subject,
+    snippet: row.snippet,
+    from_email: row.fromEmail,
+    from_name: row.fromName,
+    labels: row.labels ?? '[]',
+    category: row.category,
+    size_bytes: row.sizeBytes ?? 0,
+    has_attachments: row.hasAttachments ?? 0,
+    attachments: row.attachments ?? null,
+    is_unread: row.isUnread ?? 0,
+    is_starred: row.isStarred ?? 0,
+    is_trash: row.status === 'trashed' || (row.labels ?? '').includes('"TRASH"') ? 1 : 0,
+    is_spam: row.isSpam ?? 0,
+    is_important: row.isImportant ?? 0,
+    internal_date: Number(row.internalDate ?? 0),
+    unsubscribe_link: row.unsubscribeLink ?? null,
+    deleted_at: parseDbTimestamp(row.deletedAt).toISOString(),
+    restorable: isRestorable(row),
+  }
+}
+
+/**
+ * Query archived emails with filters and pagination
+ */
+export async function queryDeletedEmails(
+  accountId: string,
+  filters: ExplorerFilters,
+  pagination: PaginationOptions
+): Promise<DeletedEmailRecord[]> {
+  const whereCondition = buildWhereConditions(accountId, filters, deletedEmails)
+  const orderBy = getOrderBy(filters, deletedEmails)
+  const offset = (pagination.page - 1) * pagination.limit
+
+  const results = await db
+    .select()
+    .from(deletedEmails)
+    .where(whereCondition)
+    .orderBy(orderBy)
+    .limit(pagination.limit)
+    .offset(offset)
+
+  return results.map(toDeletedEmailRecord)
+}
+
+/**
+ * Count and total size of archived emails matching filters
+ */
+export async function countDeletedEmails(
+  accountId: string,
+  filters: ExplorerFilters
+): Promise<{ count: number; totalSizeBytes: number }> {
+  const whereCondition = buildWhereConditions(accountId, filters, deletedEmails)
+  const [result] = await db
+    .select({
+      count: count(),
+      totalSize: sql<number>`COALESCE(SUM(${deletedEmails.sizeBytes}), 0)`,
+    })
+    .from(deletedEmails)
+    .where(whereCondition)
+
+  return {
+    count: result?.count ?? 0,
+    totalSizeBytes: Number(result?.totalSize ?? 0),
+  }
+}
+
+/**
+ * Get the IDs of archived emails that can still be untrashed
+ */
+export async function getRestorableDeletedEmailIds(
+  accountId: string,
+  messageIds: string[]
+): Promise<string[]> {
+  if (messageIds.length === 0) return []
+
+  const rows = await db
+    .select()
+    .from(deletedEmails)
+    .where(
+      and(eq(deletedEmails.mailAccountId, accountId), inArray(deletedEmails.messageId, messageIds))
+    )
+
+  return rows.filter(isRestorable).map((row) => row.messageId)
+}
+
+/**
+ * Move untrashed emails from Eternal Memory back into the emails table
+ *
+ * @param restored - Message IDs with their current Gmail labels (after untrash)
+ * @returns Number of emails moved back
+ */
+export async function restoreEmailsFromEternalMemory(
+  accountId: string,
+  restored: { messageId: string; labelIds: string[] }[]
+): Promise<number> {
+  if (restored.length === 0) return 0
+
+  const labelsById = new Map(restored.map((r) => [r.messageId, r.labelIds]))
+  const rows = await db
+    .select()
+    .from(deletedEmails)
+    .where(
+      and(
+        eq(deletedEmails.mailAccountId, accountId),
+        inArray(deletedEmails.messageId, [...labelsById.keys()])
+      )
+    )
+
+  if (rows.length === 0) return 0
+
+  // Trashed emails are still in the emails table - only their labels change
+  const existing = await db
+    .select({ messageId: emails.messageId })
+    .from(emails)
+    .where(
+      and(
+        eq(emails.mailAccountId, accountId),
+        inArray(
+          emails.messageId,
+          rows.map((row) => row.messageId)
+        )
+      )
+    )
+  const existingIds = new Set(existing.map((row) => row.messageId))
+  for (const messageId of existingIds) {
+    const labelIds = labelsById.get(messageId) ?? []
+    await db
+      .update(emails)
+      .set({
+        labels: JSON.stringify(labelIds),
+        category: findCategoryFromLabels(labelIds),
+        isUnread: labelIds.includes('UNREAD') ? 1 : 0,
+        isStarred: labelIds.includes('STARRED') ? 1 : 0,
+        isTrash: labelIds.includes('TRASH') ? 1 : 0,
+        isSpam: labelIds.includes('SPAM') ? 1 : 0,
+        isImportant: labelIds.includes('IMPORTANT') ? 1 : 0,
+        syncedAt: Date.now(),
+      })
+      .where(and(eq(emails.mailAccountId, accountId), eq(emails.messageId, messageId)))
+  }
+
+  const now = Date.now()
+  const records: EmailRecord[] = rows
+    .filter((row) => !existingIds.has(row.messageId))
+    .map((row) => {
+      const labelIds = labelsById.get(row.messageId) ?? []
+      return {
+        message_id: row.messageId,
+        thread_id: row.threadId ?? '',
+        subject: row.subject,
+        snippet: row.snippet,
+        from_email: row.fromEmail,
+        from_name: row.fromName,
+        labels: JSON.stringify(labelIds),
+        category: findCategoryFromLabels(labelIds) ?? row.category,
+        size_bytes: row.sizeBytes ?? 0,
+        has_attachments: row.hasAttachments ?? 0,
+        attachments: row.attachments ?? null,
+        is_unread: labelIds.includes('UNREAD') ? 1 : 0,
+        is_starred: labelIds.includes('STARRED') ? 1 : 0,
+        is_trash: labelIds.includes('TRASH') ? 1 : 0,
+        is_spam: labelIds.includes('SPAM') ? 1 : 0,
+        is_important: labelIds.includes('IMPORTANT') ? 1 : 0,
+        internal_date: Number(row.internalDate ?? 0),
+        synced_at: now,
+        unsubscribe_link: row.unsubscribeLink ?? null,
+        to_emails: row.toEmails,
+        cc_emails: row.ccEmails,
+        delivered_to: row.deliveredTo,
+        reply_to: row.replyTo,
+        list_id: row.listId,
+      }
+    })
+
+  if (records.length > 0) {
+    await insertEmails(accountId, records)
+  }
+
+  await db.delete(deletedEmails).where(
+    and(
+      eq(deletedEmails.mailAccountId, accountId),
+      inArray(
+        deletedEmails.messageId,
+        rows.map((row) => row.messageId)
+      )
+    )
+  )
+
+  logger.debug(`[Emails] Restored ${rows.length} emails from Eternal Memory`)
+  return rows.length
+}
+
 /**
  * Mark emails as trashed in local database
+ * They are archived to Eternal Memory as trashed, so they can be restored from there.
  */
 export async function markEmailsAsTrashed(
   accountId: string,
@@ -616,6 +1130,8 @@ export async function markEmailsAsTrashed(
 ): Promise<number> {
   if (messageIds.length === 0) return 0
 
+  await archiveEmailsToEternalMemory(accountId, messageIds, 'trashed')
+
   await db
     .update(emails)
     .set({ isTrash: 1 })
@@ -624,6 +1140,34 @@ export async function markEmailsAsTrashed(
   return messageIds.length
 }
 
+/**
+ * Keep only the messages that are still in the inbox (have the INBOX label)
+ */
+export async function filterInboxMessageIds(
+  accountId: string,
+  messageIds: string[]
+): Promise<string[]> {
+  const BATCH_SIZE = 500
+  const inboxIds: string[] = []
+
+  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
+    const batch = messageIds.slice(i, i + BATCH_SIZE)
+    const rows = await db
+      .select({ messageId: emails.messageId })
+      .from(emails)
+      .where(
+        and(
+          eq(emails.mailAccountId, accountId),
+          inArray(emails.messageId, batch),
+          sql`${emails.labels} LIKE '%"INBOX"%'`
+        )
+      )
+    inboxIds.push(...rows.map((r) => r.messageId))
+  }
+
+  return inboxIds
+}
+
 /**
  * Update email labels incrementally (for delta sync)
  */
@@ -681,6 +1225,21 @@ export async function updateEmailLabels(
     })
     .where(and(eq(emails.mailAccountId, accountId), eq(emails.messageId, messageId)))
 
+  // Keep Eternal Memory in step with trash changes made in the mailbox itself
+  if (labelsAdded.includes('TRASH')) {
+    await archiveEmailsToEternalMemory(accountId, [messageId], 'trashed')
+  } else if (labelsRemoved.includes('TRASH')) {
+    await db
+      .delete(deletedEmails)
+      .where(
+        and(
+          eq(deletedEmails.mailAccountId, accountId),
+          eq(deletedEmails.messageId, messageId),
+          eq(deletedEmails.status, 'trashed')
+        )
+      )
+  }
+
   return true
 }
 
@@ -1020,14 +1579,14 @@ export async function queryEmails(
   pagination: PaginationOptions
 ): Promise<EmailRecord[]> {
   const whereCondition = buildWhereConditions(accountId, filters)
-  const orderBy = getOrderBy(filters)
+  const orderBy = getSearchOrderBy(filters)
   const offset = (pagination.page - 1) * pagination.limit
 
   const results = await db
     .select()
     .from(emails)
     .where(whereCondition)
-    .orderBy(orderBy)
+    .orderBy(...orderBy)
     .limit(pagination.limit)
     .offset(offset)
 
@@ -1046,6 +1605,174 @@ export async function countFilteredEmails(
   return results[0]?.count ?? 0
 }
 
+/**
+ * Get which of the given addresses have been sent mail (To, Cc or Delivered-To)
+ * One query for all addresses, grouped by recipient lists so each distinct list
+ * is read once however many sent emails share it.
+ */
+export async function getSentToAddresses(
+  accountId: string,
+  addresses: string[]
+): Promise<Set<string>> {
+  const wanted = new Set(addresses.map((address) => address.toLowerCase()))
+  if (wanted.size === 0) return new Set()
+
+  const whereCondition = buildWhereConditions(accountId, {
+    isSent: true,
+    toEmail: [...wanted].join(','),
+  })
+  const results = await db
+    .select({
+      toEmails: emails.toEmails,
+      ccEmails: emails.ccEmails,
+      deliveredTo: emails.deliveredTo,
+    })
+    .from(emails)
+    .where(whereCondition)
+    .groupBy(emails.toEmails, emails.ccEmails, emails.deliveredTo)
+
+  const sentTo = new Set<string>()
+  for (const row of results) {
+    const recipients: string[] = [row.deliveredTo ?? '']
+    for (const list of [row.toEmails, row.ccEmails]) {
+      try {
+        recipients.push(...JSON.parse(list || '[]'))
+      } catch {
+        // Unparseable lists can't name a recipient
+      }
+    }
+    for (const recipient of recipients) {
+      if (wanted.has(recipient)) sentTo.add(recipient)
+    }
+  }
+  return sentTo
+}
+
+/**
+ * Query threads matching filters with pagination
+ *
+ * Threads are matched as described by filters.threadMatch (default 'any') and
+ * aggregated over all of their messages.
+ */
+export async function queryThreads(
+  accountId: string,
+  filters: ExplorerFilters,
+  pagination: PaginationOptions
+): Promise<ThreadRecord[]> {
+  const whereCondition = buildWhereConditions(accountId, {
+    ...filters,
+    threadMatch: filters.threadMatch ?? 'any',
+  })
+  const key = threadKey()
+  const offset = (pagination.page - 1) * pagination.limit
+
+  const sortExpressions = {
+    date: sql`MAX(${emails.internalDate})`,
+    size: sql`SUM(${emails.sizeBytes})`,
+    sender: sql`MIN(${emails.fromEmail})`,
+  }
+  const sortExpression = sortExpressions[filters.sortBy || 'date']
+  const orderBy = filters.sortOrder === 'asc' ? asc(sortExpression) : desc(sortExpression)
+
+  const threadRows = await db
+    .select({
+      key,
+      messageCount: count(),
+      totalSize: sql<number>`COALESCE(SUM(${emails.sizeBytes}), 0)`,
+      latestDate: sql<number>`MAX(${emails.internalDate})`,
+      isUnread: sql<number>`MAX(${emails.isUnread})`,
+      isStarred: sql<number>`MAX(${emails.isStarred})`,
+      attachmentCount: sql<number>`COALESCE(SUM(${emails.hasAttachments}), 0)`,
+    })
+    .from(emails)
+    .where(whereCondition)
+    .groupBy(key)
+    .orderBy(orderBy)
+    .limit(pagination.limit)
+    .offset(offset)
+
+  if (threadRows.length === 0) {
+    return []
+  }
+
+  // Load the messages of this page's threads to build subjects and participants
+  const messageRows = await db
+    .select({
+      key,
+      messageId: emails.messageId,
+      subject: emails.subject,
+      snippet: emails.snippet,
+      fromEmail: emails.fromEmail,
+      fromName: emails.fromName,
+      category: emails.category,
+    })
+    .from(emails)
+    .where(
+      and(
+        whereCondition,
+        inArray(
+          key,
+          threadRows.map((row) => row.key)
+        )
+      )
+    )
+    .orderBy(asc(emails.internalDate))
+
+  const messagesByThread = new Map<string, typeof messageRows>()
+  for (const message of messageRows) {
+    const list = messagesByThread.get(message.key) ?? []
+    list.push(message)
+    messagesByThread.set(message.key, list)
+  }
+
+  return threadRows.map((row) => {
+    const messages = messagesByThread.get(row.key) ?? []
+    const first = messages[0]
+    const latest = messages[messages.length - 1]
+
+    const participants = new Map<string, { email: string; name: string | null }>()
+    for (const message of messages) {
+      const email = message.fromEmail.toLowerCase()
+      if (!participants.has(email)) {
+        participants.set(email, { email: message.fromEmail, name: message.fromName })
+      }
+    }
+
+    return {
+      thread_id: row.key,
+      subject: first?.subject ?? null,
+      snippet: latest?.snippet ?? null,
+      message_count: toSafeInt(row.messageCount),
+      message_ids: messages.map((m) => m.messageId),
+      participants: Array.from(participants.values()),
+      total_size: toSafeInt(row.totalSize),
+      latest_date: toSafeInt(row.latestDate),
+      is_unread: toSafeInt(row.isUnread),
+      is_starred: toSafeInt(row.isStarred),
+      has_attachments: toSafeInt(row.attachmentCount),
+      category: latest?.category ?? null,
+    }
+  })
+}
+
+/**
+ * Count threads matching filters (threadMatch defaults to 'any')
+ */
+export async function countFilteredThreads(
+  accountId: string,
+  filters: ExplorerFilters
+): Promise<number> {
+  const whereCondition = buildWhereConditions(accountId, {
+    ...filters,
+    threadMatch: filters.threadMatch ?? 'any',
+  })
+  const results = await db
+    .select({ count: sql<number>`COUNT(DISTINCT ${threadKey()})` })
+    .from(emails)
+    .where(whereCondition)
+  return toSafeInt(results[0]?.count)
+}
+
 /**
  * Get all message IDs matching filters (for bulk operations)
  */
@@ -1080,6 +1807,37 @@ export async function getMessageIdsByFiltersWithSize(
   return { messageIds, totalSize }
 }
 
+/**
+ * Get message IDs, sizes and labels matching filters (for label-based bulk operations)
+ * @param messageIds - Only consider these messages (e.g. the ones added by a delta sync)
+ */
+export async function getMessageLabelsByFilters(
+  accountId: string,
+  filters: ExplorerFilters,
+  messageIds?: string[]
+): Promise<Array<{ messageId: string; fromEmail: string; sizeBytes: number; labels: string[] }>> {
+  const whereCondition = buildWhereConditions(accountId, filters)
+  const results = await db
+    .select({
+      messageId: emails.messageId,
+      fromEmail: emails.fromEmail,
+      sizeBytes: emails.sizeBytes,
+      labels: emails.labels,
+    })
+    .from(emails)
+    .where(messageIds ? and(whereCondition, inArray(emails.messageId, messageIds)) : whereCondition)
+
+  return results.map((r) => {
+    let labels: string[]
+    try {
+      labels = JSON.parse(r.labels || '[]')
+    } catch {
+      labels = []
+    }
+    return { messageId: r.messageId, fromEmail: r.fromEmail, sizeBytes: r.sizeBytes || 0, labels }
+  })
+}
+
 /**
  * Sum total size of emails matching filters
  */
@@ -1095,6 +1853,19 @@ export async function sumFilteredEmailsSize(
   return Number(results[0]?.totalSize ?? 0)
 }
 
+/**
+ * Sum total size of the given emails
+ */
+export async function sumEmailsSizeByIds(accountId: string, messageIds: string[]): Promise<number> {
+  if (messageIds.length === 0) return 0
+
+  const results = await db
+    .select({ totalSize: sql<number>`COALESCE(SUM(${emails.sizeBytes}), 0)` })
+    .from(emails)
+    .where(and(eq(emails.mailAccountId, accountId), inArray(emails.messageId, messageIds)))
+  return Number(results[0]?.totalSize ?? 0)
+}
+
 /**
  * Get distinct categories for filter dropdown
  */
@@ -1480,14 +2251,14 @@ export async function queryEmailsUnified(
     return result
   }
 
-  // Otherwise return email list
+  // Otherwise return email list - searches without an explicit sort are ranked by relevance
   const offset = (page - 1) * limit
-  const orderBy = getOrderBy(filters)
+  const orderBy = getSearchOrderBy(filters)
   const emailResults = await db
     .select()
     .from(emails)
     .where(whereCondition)
-    .orderBy(orderBy)
+    .orderBy(...orderBy)
     .limit(limit)
     .offset(offset)
 
@@ -1827,11 +2598,17 @@ export async function getEmailContent(
 
   try {
     const gmail = await getGmailClient(accountId)
-    const response = await gmail.users.messages.get({
-      userId: 'me',
-      id: messageId,
-      format: 'full',
-    })
+    const response = await withGmailQuota(
+      accountId,
+      'messages.get',
+      () =>
+        gmail.users.messages.get({
+          userId: 'me',
+          id: messageId,
+          format: 'full',
+        }),
+      { maxRetries: 0 }
+    )
 
     const message = response.data
     if (!message) {
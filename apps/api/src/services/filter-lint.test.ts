@@ -0,0 +1,98 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from 'bun:test'
+import * as filters from './filters'
+import type { FilterAction, FilterCriteria, GmailFilter } from './filters'
+import { lintFilters } from './filter-lint'
+
+const listFilters = spyOn(filters, 'listFilters')
+const listLabels = spyOn(filters, 'listLabels')
+
+const ARCHIVE: FilterAction = { removeLabelIds: ['INBOX'] }
+
+function filter(id: string, criteria: FilterCriteria, action = ARCHIVE): GmailFilter {
+  return { id, criteria, action }
+}
+
+/**
+ * Types of the findings for the given filters, by filter IDs
+ */
+async function lint(...list: GmailFilter[]): Promise<string[]> {
+  listFilters.mockResolvedValue(list)
+  const report = await lintFilters('account', false, { months: 6, checkDead: false })
+  return report.findings.map((finding) => finding.id)
+}
+
+beforeEach(() => {
+  listFilters.mockReset()
+  listLabels.mockReset()
+  listLabels.mockResolvedValue(
+    ['INBOX', 'STARRED'].map((id) => ({ id, name: id, type: 'system' as const }))
+  )
+})
+
+afterAll(() => {
+  listFilters.mockRestore()
+  listLabels.mockRestore()
+})
+
+describe('lintFilters shadowed check', () => {
+  test('a domain covers addresses at that domain and its subdomains', async () => {
+    expect(
+      await lint(
+        filter('broad', { from: 'amazon.com' }),
+        filter('address', { from: 'orders@amazon.com' }),
+        filter('subdomain', { from: 'news@mail.amazon.com' })
+      )
+    ).toEqual(['shadowed:address,broad', 'shadowed:subdomain,broad'])
+  })
+
+  test('partial words and look-alike domains are not covered', async () => {
+    expect(
+      await lint(
+        filter('broad', { from: 'mazon.com' }),
+        filter('address', { from: 'orders@amazon.com' })
+      )
+    ).toEqual([])
+    expect(
+      await lint(
+        filter('broad', { from: 'amazon.com' }),
+        filter('lookalike', { from: 'orders@amazon.com.example' })
+      )
+    ).toEqual([])
+  })
+
+  test('criteria with search syntax are never compared', async () => {
+    for (const from of ['{amazon.com ebay.com}', 'amazon.com OR ebay.com', '-amazon.com']) {
+      expect(
+        await lint(filter('broad', { from }), filter('narrow', { from: 'orders@amazon.com' }))
+      ).toEqual([])
+    }
+    expect(
+      await lint(
+        filter('broad', { from: 'amazon.com' }),
+        filter('narrow', { from: 'orders@amazon.com ebay.com' })
+      )
+    ).toEqual([])
+  })
+
+  test('subjects are compared by whole words', async () => {
+    expect(
+      await lint(
+        filter('broad', { subject: 'invoice' }),
+        filter('narrow', { subject: 'invoice-2024' })
+      )
+    ).toEqual(['shadowed:narrow,broad'])
+    expect(
+      await lint(filter('broad', { subject: 'invoice' }), filter('narrow', { subject: 'invoices' }))
+    ).toEqual([])
+  })
+
+  test('identical criteria with search syntax still conflict', async () => {
+    const from = '{a@example.com b@example.com}'
+    expect(
+      await lint(
+        filter('star', { from }, { addLabelIds: ['STARRED'] }),
+        filter('unstar', { from }, { removeLabelIds: ['STARRED'] })
+      )
+    ).toEqual(['conflict:unstar,star'])
+  })
+})
@@ -0,0 +1,507 @@
+/**
+ * Filter linting
+ *
+ * Finds Gmail filters that do nothing useful or work against each other:
+ * - duplicate: same criteria and actions as another filter
+ * - mergeable: same criteria as another filter, different actions
+ * - shadowed: a broader filter already matches everything it does, and does the same
+ * - conflict: one filter adds a label another one removes from the same messages
+ * - missing-label: adds or removes labels that were deleted
+ * - dead: matched none of the synced messages of the last months
+ *
+ * "Broader" is decided conservatively from the criteria alone (see subsumes), so
+ * filters using different search queries are never compared. Dead filters are
+ * checked against the local emails table, and only for criteria it can evaluate.
+ *
+ * Every finding comes with a fix: filters to delete and, optionally, one filter to
+ * create in their place - Gmail filters can't be edited, only recreated.
+ */
+
+import {
+  listFilters,
+  listLabels,
+  createFilter,
+  deleteFilter,
+  getFilterKey,
+  type FilterCriteria,
+  type FilterAction,
+  type GmailFilter,
+} from './filters'
+import { countFilteredEmails, type ExplorerFilters } from './emails'
+import { hashForLog } from '../lib/hash'
+import { logger } from '../lib/logger'
+
+export type FilterLintType =
+  | 'duplicate'
+  | 'mergeable'
+  | 'shadowed'
+  | 'conflict'
+  | 'missing-label'
+  | 'dead'
+
+export interface FilterLintFix {
+  description: string
+  deleteFilterIds: string[]
+  create: { criteria: FilterCriteria; action: FilterAction } | null
+}
+
+export interface FilterLintFinding {
+  id: string // Type and filter IDs, stable between runs
+  type: FilterLintType
+  filterIds: string[]
+  message: string
+  fix: FilterLintFix
+}
+
+export interface FilterLintReport {
+  filterCount: number
+  findings: FilterLintFinding[]
+  // Dead filter check, null when the mailbox isn't fully synced
+  deadCheck: { months: number; checked: number; unsupported: number } | null
+}
+
+export interface FilterLintOptions {
+  months: number // Window of the dead filter check
+  checkDead: boolean
+}
+
+// ============================================================================
+// Criteria and actions
+// ============================================================================
+
+function criteriaKey(criteria: FilterCriteria): string {
+  return getFilterKey({ criteria, action: {} })
+}
+
+function hasAction(action: FilterAction): boolean {
+  return (
+    (action.addLabelIds?.length ?? 0) > 0 ||
+    (action.removeLabelIds?.length ?? 0) > 0 ||
+    !!action.forward
+  )
+}
+
+/**
+ * Whether a criterion value is one plain term: no grouping, OR, negation or
+ * several space- or comma-separated alternatives, which would need a query parser
+ */
+function isSingleTerm(value: string): boolean {
+  return isPlainText(value) && !/[\s,]/.test(value) && !value.startsWith('-')
+}
+
+/**
+ * Words of a value, split the way Gmail tokenizes it (on anything but letters and digits)
+ */
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+}
+
+/**
+ * Whether a from/to criterion of the broad filter also holds for the narrow one
+ * A domain covers addresses at that domain and its subdomains, so "amazon.com"
+ * covers "orders@amazon.com" but not "orders@notamazon.com" or "amazon.com.example".
+ */
+function coversAddress(broad: string | undefined, narrow: string | undefined): boolean {
+  if (!broad) return true
+  if (!narrow) return false
+  if (broad.toLowerCase() === narrow.toLowerCase()) return true
+  if (!isSingleTerm(broad) || !isSingleTerm(narrow)) return false
+
+  const domain = broad.toLowerCase().replace(/^@/, '')
+  if (domain.includes('@')) return false // A full address only covers itself
+  const address = narrow.toLowerCase()
+  const narrowDomain = address.slice(address.lastIndexOf('@') + 1)
+  return narrowDomain === domain || narrowDomain.endsWith(`.${domain}`)
+}
+
+/**
+ * Whether a subject criterion of the broad filter also holds for the narrow one
+ * Compared by whole words, so "invoice" covers "invoice-2024" but not "invoices".
+ */
+function coversSubject(broad: string | undefined, narrow: string | undefined): boolean {
+  if (!broad) return true
+  if (!narrow) return false
+  if (broad.toLowerCase() === narrow.toLowerCase()) return true
+  if (!isSingleTerm(broad) || !isSingleTerm(narrow)) return false
+
+  const words = tokenize(broad)
+  const narrowWords = tokenize(narrow)
+  if (words.length === 0) return false
+  return narrowWords.some((_, start) => words.every((word, i) => narrowWords[start + i] === word))
+}
+
+/**
+ * Whether every message the narrow criteria match is matched by the broad criteria
+ * Search queries have to be equal, anything else would need a query parser.
+ */
+function subsumes(broad: FilterCriteria, narrow: FilterCriteria): boolean {
+  if (!coversAddress(broad.from, narrow.from)) return false
+  if (!coversAddress(broad.to, narrow.to)) return false
+  if (!coversSubject(broad.subject, narrow.subject)) return false
+  if ((broad.query ?? '') !== (narrow.query ?? '')) return false
+  if ((broad.negatedQuery ?? '') !== (narrow.negatedQuery ?? '')) return false
+  if (broad.hasAttachment && !narrow.hasAttachment) return false
+
+  if (broad.size) {
+    if (!narrow.size || narrow.sizeComparison !== broad.sizeComparison) return false
+    if (broad.sizeComparison === 'larger' && narrow.size < broad.size) return false
+    if (broad.sizeComparison === 'smaller' && narrow.size > broad.size) return false
+  }
+
+  return true
+}
+
+/**
+ * Whether the first action already does everything the second one does
+ */
+function coversAction(a: FilterAction, b: FilterAction): boolean {
+  const add = new Set(a.addLabelIds ?? [])
+  const remove = new Set(a.removeLabelIds ?? [])
+  return (
+    (b.addLabelIds ?? []).every((id) => add.has(id)) &&
+    (b.removeLabelIds ?? []).every((id) => remove.has(id)) &&
+    (!b.forward || b.forward === a.forward)
+  )
+}
+
+/**
+ * One action doing what all of the given actions do, or null when they can't be combined
+ */
+function mergeActions(actions: FilterAction[]): FilterAction | null {
+  const add = new Set(actions.flatMap((a) => a.addLabelIds ?? []))
+  const remove = new Set(actions.flatMap((a) => a.removeLabelIds ?? []))
+  const forwards = new Set(actions.map((a) => a.forward).filter(Boolean))
+
+  if (forwards.size > 1 || [...add].some((id) => remove.has(id))) return null
+
+  const merged: FilterAction = {}
+  if (add.size > 0) merged.addLabelIds = [...add]
+  if (remove.size > 0) merged.removeLabelIds = [...remove]
+  if (forwards.size === 1) merged.forward = [...forwards][0]
+  return merged
+}
+
+function withoutLabels(action: FilterAction, labelIds: Set<string>): FilterAction {
+  const result: FilterAction = {}
+  const add = (action.addLabelIds ?? []).filter((id) => !labelIds.has(id))
+  const remove = (action.removeLabelIds ?? []).filter((id) => !labelIds.has(id))
+  if (add.length > 0) result.addLabelIds = add
+  if (remove.length > 0) result.removeLabelIds = remove
+  if (action.forward) result.forward = action.forward
+  return result
+}
+
+/**
+ * Fix that recreates a filter with a new action, or deletes it when nothing is left
+ */
+function replaceActionFix(
+  filter: GmailFilter,
+  action: FilterAction,
+  description: string
+): FilterLintFix {
+  if (!hasAction(action)) {
+    return {
+      description: 'Delete the filter, it has no actions left',
+      deleteFilterIds: [filter.id],
+      create: null,
+    }
+  }
+  return {
+    description,
+    deleteFilterIds: [filter.id],
+    create: { criteria: filter.criteria, action },
+  }
+}
+
+// ============================================================================
+// Local evaluation
+// ============================================================================
+
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000
+
+// Gmail search syntax the local search doesn't share (grouping, operators)
+function isPlainText(value: string): boolean {
+  return !/[(){}|:"*]/.test(value) && !/\b(OR|AND)\b/.test(value)
+}
+
+// Queries the local search syntax reads like Gmail (words, phrases, -word, from:/subject:)
+function isLocalQuery(query: string): boolean {
+  if (/[(){}]|\bAND\b/.test(query)) return false
+  const fields = query.match(/(\w+):/g) ?? []
+  return fields.every((field) => field === 'from:' || field === 'subject:')
+}
+
+/**
+ * Explorer filters matching what a Gmail filter matches since the given time
+ * Returns null when the criteria use Gmail search syntax the local search can't evaluate.
+ */
+function toLocalFilters(criteria: FilterCriteria, since: number): ExplorerFilters | null {
+  const filters: ExplorerFilters = { dateFrom: since }
+  const search: string[] = []
+
+  if (criteria.from) {
+    if (!isPlainText(criteria.from)) return null
+    filters.sender = criteria.from.trim()
+  }
+  if (criteria.to) {
+    const to = criteria.to.trim()
+    if (!isPlainText(to) || /\s/.test(to)) return null
+    if (to.includes('@') && !to.startsWith('@')) filters.toEmail = to
+    else filters.toDomain = to.replace(/^@/, '')
+  }
+  if (criteria.subject) {
+    if (!isPlainText(criteria.subject)) return null
+    search.push(`subject:"${criteria.subject.trim()}"`)
+  }
+  if (criteria.query) {
+    if (!isLocalQuery(criteria.query)) return null
+    search.push(criteria.query)
+  }
+  if (criteria.negatedQuery) {
+    const negated = criteria.negatedQuery.trim()
+    if (!isPlainText(negated) || /\s/.test(negated)) return null
+    search.push(`-${negated}`)
+  }
+  if (criteria.hasAttachment) filters.hasAttachments = true
+  if (criteria.size && criteria.sizeComparison === 'larger') filters.sizeMin = criteria.size
+  if (criteria.size && criteria.sizeComparison === 'smaller') filters.sizeMax = criteria.size
+
+  if (search.length > 0) filters.search = search.join(' ')
+
+  // Nothing but the date left: the filter matches everything, or nothing we know of
+  return Object.keys(filters).length > 1 ? filters : null
+}
+
+// ============================================================================
+// Linting
+// ============================================================================
+
+function finding(
+  type: FilterLintType,
+  filterIds: string[],
+  message: string,
+  fix: FilterLintFix
+): FilterLintFinding {
+  return { id: `${type}:${filterIds.join(',')}`, type, filterIds, message, fix }
+}
+
+/**
+ * Lint the filters of a Gmail account
+ * @param syncCompleted - Whether the local mailbox is complete enough for the dead filter check
+ */
+export async function lintFilters(
+  accountId: string,
+  syncCompleted: boolean,
+  options: FilterLintOptions
+): Promise<FilterLintReport> {
+  const [filters, labels] = await Promise.all([listFilters(accountId), listLabels(accountId)])
+  const labelNames = new Map(labels.map((label) => [label.id, label.name]))
+  const findings: FilterLintFinding[] = []
+
+  // Filters another finding already suggests deleting aren't looked at again
+  const redundant = new Set<string>()
+
+  // Duplicates: keep the first of each group
+  const byKey = new Map<string, GmailFilter[]>()
+  for (const filter of filters) {
+    const key = getFilterKey(filter)
+    byKey.set(key, [...(byKey.get(key) ?? []), filter])
+  }
+  for (const group of byKey.values()) {
+    if (group.length < 2) continue
+    const extra = group.slice(1).map((f) => f.id)
+    extra.forEach((id) => redundant.add(id))
+    findings.push(
+      finding(
+        'duplicate',
+        group.map((f) => f.id),
+        `${group.length} filters have the same criteria and actions`,
+        {
+          description: `Delete ${extra.length === 1 ? 'the copy' : `the ${extra.length} copies`}`,
+          deleteFilterIds: extra,
+          create: null,
+        }
+      )
+    )
+  }
+
+  const active = filters.filter((f) => !redundant.has(f.id))
+
+  // Same criteria, different actions: one filter can do both
+  const byCriteria = new Map<string, GmailFilter[]>()
+  for (const filter of active) {
+    const key = criteriaKey(filter.criteria)
+    byCriteria.set(key, [...(byCriteria.get(key) ?? []), filter])
+  }
+  for (const group of byCriteria.values()) {
+    if (group.length < 2) continue
+    const merged = mergeActions(group.map((f) => f.action))
+    if (!merged) continue // Conflicting actions are reported below
+    group.forEach((f) => redundant.add(f.id))
+    findings.push(
+      finding(
+        'mergeable',
+        group.map((f) => f.id),
+        `${group.length} filters have the same criteria but different actions`,
+        {
+          description: 'Replace them with one filter that does both',
+          deleteFilterIds: group.map((f) => f.id),
+          create: { criteria: group[0]!.criteria, action: merged },
+        }
+      )
+    )
+  }
+
+  // Shadowed and conflicting pairs
+  const shadowed = new Set<string>()
+  for (const broad of active) {
+    for (const narrow of active) {
+      if (broad === narrow || redundant.has(broad.id) || redundant.has(narrow.id)) continue
+      if (!subsumes(broad.criteria, narrow.criteria)) continue
+      const sameCriteria = criteriaKey(broad.criteria) === criteriaKey(narrow.criteria)
+
+      if (
+        !sameCriteria &&
+        !shadowed.has(narrow.id) &&
+        !shadowed.has(broad.id) &&
+        coversAction(broad.action, narrow.action)
+      ) {
+        shadowed.add(narrow.id)
+        findings.push(
+          finding(
+            'shadowed',
+            [narrow.id, broad.id],
+            'A broader filter already matches these messages and does the same',
+            {
+              description: 'Delete the narrower filter',
+              deleteFilterIds: [narrow.id],
+              create: null,
+            }
+          )
+        )
+        continue
+      }
+
+      // Each pair once: identical criteria in list order, otherwise narrow after broad
+      if (sameCriteria && filters.indexOf(broad) > filters.indexOf(narrow)) continue
+
+      const removed = new Set(narrow.action.removeLabelIds ?? [])
+      const added = new Set(narrow.action.addLabelIds ?? [])
+      const clashes = [
+        ...(broad.action.addLabelIds ?? []).filter((id) => removed.has(id)),
+        ...(broad.action.removeLabelIds ?? []).filter((id) => added.has(id)),
+      ]
+      if (clashes.length === 0) continue
+
+      // Changing the narrower filter touches the fewest messages
+      const names = clashes.map((id) => labelNames.get(id) ?? id).join(', ')
+      findings.push(
+        finding(
+          'conflict',
+          [narrow.id, broad.id],
+          `Both filters match the same messages, but one adds ${names} and the other removes it`,
+          replaceActionFix(
+            narrow,
+            withoutLabels(narrow.action, new Set(clashes)),
+            `Stop the ${sameCriteria ? 'second' : 'narrower'} filter from changing ${names}`
+          )
+        )
+      )
+    }
+  }
+  shadowed.forEach((id) => redundant.add(id))
+
+  // Deleted labels
+  for (const filter of filters) {
+    if (redundant.has(filter.id)) continue
+    const missing = [
+      ...(filter.action.addLabelIds ?? []),
+      ...(filter.action.removeLabelIds ?? []),
+    ].filter((id) => !labelNames.has(id))
+    if (missing.length === 0) continue
+
+    findings.push(
+      finding(
+        'missing-label',
+        [filter.id],
+        `Uses ${missing.length === 1 ? 'a label that was' : `${missing.length} labels that were`} deleted`,
+        replaceActionFix(
+          filter,
+          withoutLabels(filter.action, new Set(missing)),
+          'Recreate the filter without the deleted labels'
+        )
+      )
+    )
+  }
+
+  // Dead filters, against the local mailbox
+  let deadCheck: FilterLintReport['deadCheck'] = null
+  if (options.checkDead && syncCompleted) {
+    const since = Date.now() - options.months * MONTH_MS
+    deadCheck = { months: options.months, checked: 0, unsupported: 0 }
+
+    for (const filter of filters) {
+      if (redundant.has(filter.id)) continue
+      const localFilters = toLocalFilters(filter.criteria, since)
+      if (!localFilters) {
+        deadCheck.unsupported++
+        continue
+      }
+
+      deadCheck.checked++
+      if ((await countFilteredEmails(accountId, localFilters)) > 0) continue
+
+      findings.push(
+        finding(
+          'dead',
+          [filter.id],
+          `Matched none of your messages in the last ${options.months} months`,
+          { description: 'Delete the filter', deleteFilterIds: [filter.id], create: null }
+        )
+      )
+    }
+  }
+
+  return { filterCount: filters.length, findings, deadCheck }
+}
+
+/**
+ * Apply the fix of a finding
+ *
+ * Filters are linted again first, so only fixes that still apply are carried out.
+ * The replacement filter is created before the old ones are deleted.
+ * @param months - Window of the dead filter check the finding came from
+ * @returns The finding that was fixed, or null when it no longer applies
+ */
+export async function applyFilterLintFix(
+  accountId: string,
+  findingId: string,
+  syncCompleted: boolean,
+  months: number
+): Promise<FilterLintFinding | null> {
+  // The dead filter check is the slow part, only run it for dead findings
+  const report = await lintFilters(accountId, syncCompleted, {
+    months,
+    checkDead: findingId.startsWith('dead:'),
+  })
+  const match = report.findings.find((f) => f.id === findingId)
+  if (!match) return null
+
+  const { fix } = match
+  if (fix.create) {
+    await createFilter(accountId, fix.create.criteria, fix.create.action)
+  }
+  for (const filterId of fix.deleteFilterIds) {
+    try {
+      await deleteFilter(accountId, filterId)
+    } catch (error) {
+      if ((error as { code?: number }).code !== 404) throw error
+    }
+  }
+
+  logger.debug(`[Filters] Applied ${match.type} fix for account ${hashForLog(accountId)}`)
+  return match
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test'
+import { FilterXmlError, parseMailFiltersXml } from './filter-xml'
+
+/**
+ * A mailFilters.xml with one entry made of the given properties
+ */
+function mailFilters(properties: Record<string, string>): string {
+  const elements = Object.entries(properties)
+    .map(([name, value]) => `<apps:property name='${name}' value='${value}'/>`)
+    .join('\n')
+  return `<?xml version='1.0' encoding='UTF-8'?>
+<feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>
+  <entry>${elements}</entry>
+</feed>`
+}
+
+describe('parseMailFiltersXml', () => {
+  test('decodes entity and character references', () => {
+    const [filter] = parseMailFiltersXml(
+      mailFilters({ from: 'a&amp;b@example.com', subject: 'caf&#xE9; &#128512; &lt;3' })
+    )
+
+    expect(filter!.criteria).toEqual({ from: 'a&b@example.com', subject: 'café 😀 <3' })
+  })
+
+  test.each(['&#x110000;', '&#0;', '&#xD800;', '&#99999999999999999999;'])(
+    'rejects the invalid character reference %s',
+    (ref) => {
+      expect(() => parseMailFiltersXml(mailFilters({ subject: `bad ${ref}` }))).toThrow(
+        FilterXmlError
+      )
+    }
+  )
+
+  test('rejects a file that is not a filter export', () => {
+    expect(() => parseMailFiltersXml('<html></html>')).toThrow(FilterXmlError)
+  })
+})
@@ -0,0 +1,552 @@
+/**
+ * Gmail filter files (mailFilters.xml)
+ *
+ * Gmail's settings export and import filters as an Atom feed: one <entry> per filter,
+ * with its criteria and actions as <apps:property name="..." value="..."/> elements.
+ * Actions name user labels instead of using their IDs, so an import resolves the
+ * names against the account's labels and creates the ones that are missing.
+ */
+
+import {
+  listFilters,
+  createFilter,
+  listLabels,
+  createLabel,
+  getFilterKey,
+  type FilterCriteria,
+  type FilterAction,
+  type GmailFilter,
+  type GmailLabel,
+} from './filters'
+import { hashForLog } from '../lib/hash'
+import { logger } from '../lib/logger'
+
+/**
+ * Thrown when a file isn't a Gmail filter export
+ */
+export class FilterXmlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FilterXmlError'
+  }
+}
+
+/**
+ * A filter read from a mailFilters.xml file
+ */
+export interface XmlFilter {
+  criteria: FilterCriteria
+  action: FilterAction // System label changes and forwarding
+  labelNames: string[] // User labels to apply, by name
+}
+
+// Size units of the "size" criterion
+const SIZE_UNITS: Record<string, number> = {
+  s_sb: 1,
+  s_skb: 1024,
+  s_smb: 1024 * 1024,
+}
+
+// "Categorize as" values and the category labels they apply
+const SMART_LABELS: Record<string, string> = {
+  '^smartlabel_personal': 'CATEGORY_PERSONAL',
+  '^smartlabel_social': 'CATEGORY_SOCIAL',
+  '^smartlabel_promo': 'CATEGORY_PROMOTIONS',
+  '^smartlabel_notification': 'CATEGORY_UPDATES',
+  '^smartlabel_group': 'CATEGORY_FORUMS',
+}
+
+// Checkbox actions and the label change each one stands for
+const FLAG_ACTIONS: { name: string; add?: string; remove?: string }[] = [
+  { name: 'shouldArchive', remove: 'INBOX' },
+  { name: 'shouldMarkAsRead', remove: 'UNREAD' },
+  { name: 'shouldStar', add: 'STARRED' },
+  { name: 'shouldTrash', add: 'TRASH' },
+  { name: 'shouldNeverSpam', remove: 'SPAM' },
+  { name: 'shouldAlwaysMarkAsImportant', add: 'IMPORTANT' },
+  { name: 'shouldNeverMarkAsImportant', remove: 'IMPORTANT' },
+]
+
+// ============================================================================
+// XML
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+}
+
+/**
+ * Character of a numeric reference, if XML allows it (the Char production)
+ */
+function decodeCharRef(ref: string, code: number): string {
+  const allowed =
+    code === 0x9 ||
+    code === 0xa ||
+    code === 0xd ||
+    (code >= 0x20 && code <= 0xd7ff) ||
+    (code >= 0xe000 && code <= 0xfffd) ||
+    (code >= 0x10000 && code <= 0x10ffff)
+  if (!allowed) {
+    throw new FilterXmlError(`Invalid character reference &${ref};`)
+  }
+  return String.fromCodePoint(code)
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return decodeCharRef(name, parseInt(name.slice(2), 16))
+    }
+    if (name.startsWith('#')) {
+      return decodeCharRef(name, parseInt(name.slice(1), 10))
+    }
+    return XML_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Read the name/value properties of every filter entry, in file order
+ */
+function readEntries(xml: string): [string, string][][] {
+  if (!/<feed[\s>]/.test(xml)) {
+    throw new FilterXmlError('Not a Gmail filter export (mailFilters.xml)')
+  }
+
+  const entries = xml.match(/<entry[\s>][\s\S]*?<\/entry>/g) ?? []
+
+  return entries.map((entry) => {
+    const properties: [string, string][] = []
+    const elements = entry.matchAll(
+      /<(?:[\w-]+:)?property((?:\s+[\w:-]+\s*=\s*(?:'[^']*'|"[^"]*"))*)\s*\/?>/g
+    )
+
+    for (const [, attributeList = ''] of elements) {
+      const attributes = new Map<string, string>()
+      for (const [, key, single, double] of attributeList.matchAll(
+        /([\w:-]+)\s*=\s*(?:'([^']*)'|"([^"]*)")/g
+      )) {
+        attributes.set(key!, decodeXml(single ?? double ?? ''))
+      }
+
+      const name = attributes.get('name')
+      const value = attributes.get('value')?.trim()
+      if (name && value) {
+        properties.push([name, value])
+      }
+    }
+
+    return properties
+  })
+}
+
+/**
+ * Turn the properties of one entry into a filter
+ */
+function toXmlFilter(properties: [string, string][]): XmlFilter {
+  const criteria: FilterCriteria = {}
+  const addLabelIds = new Set<string>()
+  const removeLabelIds = new Set<string>()
+  const labelNames: string[] = []
+  let forward: string | undefined
+  let size: number | undefined
+  let sizeUnit = 1
+
+  for (const [name, value] of properties) {
+    switch (name) {
+      case 'from':
+      case 'to':
+      case 'subject':
+        criteria[name] = value
+        break
+      case 'hasTheWord':
+        criteria.query = value
+        break
+      case 'doesNotHaveTheWord':
+        criteria.negatedQuery = value
+        break
+      case 'hasAttachment':
+        if (value === 'true') criteria.hasAttachment = true
+        break
+      case 'excludeChats':
+        if (value === 'true') criteria.excludeChats = true
+        break
+      case 'size':
+        size = Number(value)
+        break
+      case 'sizeOperator':
+        criteria.sizeComparison = value === 's_ss' ? 'smaller' : 'larger'
+        break
+      case 'sizeUnit':
+        sizeUnit = SIZE_UNITS[value] ?? 1
+        break
+      case 'label':
+        if (!labelNames.includes(value)) labelNames.push(value)
+        break
+      case 'smartLabelToApply':
+        if (SMART_LABELS[value]) addLabelIds.add(SMART_LABELS[value])
+        break
+      case 'forwardTo':
+        forward = value
+        break
+      default: {
+        const flag = FLAG_ACTIONS.find((f) => f.name === name)
+        if (flag && value === 'true') {
+          if (flag.add) addLabelIds.add(flag.add)
+          if (flag.remove) removeLabelIds.add(flag.remove)
+        }
+      }
+    }
+  }
+
+  // Gmail writes the size operator and unit on every entry, with or without a size
+  if (size !== undefined && Number.isFinite(size) && size > 0) {
+    criteria.size = Math.round(size * sizeUnit)
+    criteria.sizeComparison ??= 'larger'
+  } else {
+    delete criteria.sizeComparison
+  }
+
+  const action: FilterAction = {}
+  if (addLabelIds.size > 0) action.addLabelIds = [...addLabelIds]
+  if (removeLabelIds.size > 0) action.removeLabelIds = [...removeLabelIds]
+  if (forward) action.forward = forward
+
+  return { criteria, action, labelNames }
+}
+
+/**
+ * Parse a mailFilters.xml file
+ * @throws FilterXmlError when the file isn't a Gmail filter export
+ */
+export function parseMailFiltersXml(xml: string): XmlFilter[] {
+  return readEntries(xml).map(toXmlFilter)
+}
+
+/**
+ * Properties of one filter, in the order Gmail writes them
+ * Removing user labels has no equivalent in the file and is left out.
+ */
+function toProperties(filter: GmailFilter, labelNames: Map<string, string>): [string, string][] {
+  const { criteria, action } = filter
+  const properties: [string, string][] = []
+
+  if (criteria.from) properties.push(['from', criteria.from])
+  if (criteria.to) properties.push(['to', criteria.to])
+  if (criteria.subject) properties.push(['subject', criteria.subject])
+  if (criteria.query) properties.push(['hasTheWord', criteria.query])
+  if (criteria.negatedQuery) properties.push(['doesNotHaveTheWord', criteria.negatedQuery])
+  if (criteria.hasAttachment) properties.push(['hasAttachment', 'true'])
+  if (criteria.excludeChats) properties.push(['excludeChats', 'true'])
+
+  for (const id of action.addLabelIds ?? []) {
+    const flag = FLAG_ACTIONS.find((f) => f.add === id)
+    const smartLabel = Object.keys(SMART_LABELS).find((key) => SMART_LABELS[key] === id)
+    const labelName = labelNames.get(id)
+
+    if (flag) properties.push([flag.name, 'true'])
+    else if (smartLabel) properties.push(['smartLabelToApply', smartLabel])
+    else if (labelName) properties.push(['label', labelName])
+  }
+  for (const id of action.removeLabelIds ?? []) {
+    const flag = FLAG_ACTIONS.find((f) => f.remove === id)
+    if (flag) properties.push([flag.name, 'true'])
+  }
+  if (action.forward) properties.push(['forwardTo', action.forward])
+
+  if (criteria.size) {
+    const unit =
+      criteria.size % SIZE_UNITS.s_smb! === 0
+        ? 's_smb'
+        : criteria.size % SIZE_UNITS.s_skb! === 0
+          ? 's_skb'
+          : 's_sb'
+    properties.push(['size', String(criteria.size / SIZE_UNITS[unit]!)])
+    properties.push(['sizeOperator', criteria.sizeComparison === 'smaller' ? 's_ss' : 's_sl'])
+    properties.push(['sizeUnit', unit])
+  }
+
+  return properties
+}
+
+/**
+ * Write filters as a mailFilters.xml file Gmail can import
+ * @param labels - The account's labels, to name user labels
+ */
+export function buildMailFiltersXml(
+  filters: GmailFilter[],
+  labels: GmailLabel[],
+  email: string
+): string {
+  const updated = new Date().toISOString()
+  const labelNames = new Map(
+    labels.filter((label) => label.type === 'user').map((label) => [label.id, label.name])
+  )
+
+  const entries = filters.map((filter) => {
+    const properties = toProperties(filter, labelNames)
+      .map(
+        ([name, value]) =>
+          `\t\t<apps:property name='${escapeXml(name)}' value='${escapeXml(value)}'/>`
+      )
+      .join('\n')
+
+    return [
+      '\t<entry>',
+      "\t\t<category term='filter'></category>",
+      '\t\t<title>Mail Filter</title>',
+      `\t\t<id>tag:mail.google.com,2008:filter:${escapeXml(filter.id)}</id>`,
+      `\t\t<updated>${updated}</updated>`,
+      '\t\t<content></content>',
+      properties,
+      '\t</entry>',
+    ].join('\n')
+  })
+
+  return [
+    "<?xml version='1.0' encoding='UTF-8'?>",
+    "<feed xmlns='http://www.w3.org/2005/Atom' xmlns:apps='http://schemas.google.com/apps/2006'>",
+    '\t<title>Mail Filters</title>',
+    `\t<id>tag:mail.google.com,2008:filters:${filters.map((f) => escapeXml(f.id)).join(',')}</id>`,
+    `\t<updated>${updated}</updated>`,
+    '\t<author>',
+    `\t\t<email>${escapeXml(email)}</email>`,
+    '\t</author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Export all filters of an account as mailFilters.xml
+ */
+export async function exportFilters(accountId: string, email: string): Promise<string> {
+  const [filters, labels] = await Promise.all([listFilters(accountId), listLabels(accountId)])
+  return buildMailFiltersXml(filters, labels, email)
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export type FilterImportStatus = 'new' | 'duplicate' | 'invalid'
+
+/**
+ * A filter of an import file, checked against the account
+ */
+export interface FilterImportEntry {
+  index: number // Position in the file
+  criteria: FilterCriteria
+  action: FilterAction // With label IDs of the labels that already exist
+  labelNames: string[]
+  missingLabels: string[] // Labels the import would create
+  status: FilterImportStatus
+  duplicateOf: string | null // ID of the existing filter it duplicates
+  reason: string | null // Why a filter is a duplicate or invalid
+}
+
+export interface FilterImportPreview {
+  entries: FilterImportEntry[]
+  missingLabels: string[]
+}
+
+export interface FilterImportResult {
+  created: number
+  skipped: number
+  failed: number
+  labelsCreated: string[]
+}
+
+function getInvalidReason(filter: XmlFilter): string | null {
+  const { criteria, action, labelNames } = filter
+
+  const hasCriteria =
+    criteria.from ||
+    criteria.to ||
+    criteria.subject ||
+    criteria.query ||
+    criteria.negatedQuery ||
+    criteria.hasAttachment ||
+    criteria.size
+  if (!hasCriteria) return 'Has no criteria'
+
+  const hasAction =
+    labelNames.length > 0 ||
+    (action.addLabelIds?.length ?? 0) > 0 ||
+    (action.removeLabelIds?.length ?? 0) > 0 ||
+    action.forward
+  if (!hasAction) return 'Has no actions'
+
+  return null
+}
+
+/**
+ * Check every filter of an import file against the account, without changing anything
+ *
+ * Filters that do the same as an existing filter, or as an earlier filter in the file,
+ * are flagged as duplicates. User labels are matched by name (case-insensitive).
+ * @throws FilterXmlError when the file isn't a Gmail filter export
+ */
+export async function previewFilterImport(
+  accountId: string,
+  xml: string
+): Promise<FilterImportPreview> {
+  const parsed = parseMailFiltersXml(xml)
+  const [labels, existing] = await Promise.all([listLabels(accountId), listFilters(accountId)])
+
+  const labelIds = new Map(
+    labels
+      .filter((label) => label.type === 'user')
+      .map((label) => [label.name.toLowerCase(), label.id])
+  )
+  const existingIds = new Map(existing.map((filter) => [getFilterKey(filter), filter.id]))
+  const seen = new Set<string>()
+  const missingLabels = new Map<string, string>()
+
+  const entries = parsed.map((filter, index): FilterImportEntry => {
+    const resolved = filter.labelNames.map((name) => labelIds.get(name.toLowerCase()))
+    const missing = filter.labelNames.filter((_, i) => !resolved[i])
+    for (const name of missing) {
+      if (!missingLabels.has(name.toLowerCase())) missingLabels.set(name.toLowerCase(), name)
+    }
+
+    const addLabelIds = [
+      ...(filter.action.addLabelIds ?? []),
+      ...resolved.filter((id): id is string => !!id),
+    ]
+    const action: FilterAction = {
+      ...filter.action,
+      ...(addLabelIds.length > 0 && { addLabelIds }),
+    }
+    const entry: FilterImportEntry = {
+      index,
+      criteria: filter.criteria,
+      action,
+      labelNames: filter.labelNames,
+      missingLabels: missing,
+      status: 'new',
+      duplicateOf: null,
+      reason: null,
+    }
+
+    const invalidReason = getInvalidReason(filter)
+    if (invalidReason) {
+      return { ...entry, status: 'invalid', reason: invalidReason }
+    }
+
+    // Missing labels get a stand-in ID, so repeats in the file are still caught
+    const key = getFilterKey({
+      criteria: filter.criteria,
+      action: {
+        ...action,
+        addLabelIds: [...addLabelIds, ...missing.map((name) => `missing:${name.toLowerCase()}`)],
+      },
+    })
+
+    const existingId = existingIds.get(key)
+    if (existingId) {
+      return {
+        ...entry,
+        status: 'duplicate',
+        duplicateOf: existingId,
+        reason: 'Matches an existing filter',
+      }
+    }
+    if (seen.has(key)) {
+      return { ...entry, status: 'duplicate', reason: 'Repeats an earlier filter in the file' }
+    }
+    seen.add(key)
+
+    return entry
+  })
+
+  return { entries, missingLabels: [...missingLabels.values()] }
+}
+
+/**
+ * Import the new filters of a mailFilters.xml file
+ *
+ * The file is checked again first, so duplicates and invalid filters are never created.
+ * Labels the imported filters use are created when missing.
+ * @param indexes - Only import these entries (default: every new filter)
+ * @throws FilterXmlError when the file isn't a Gmail filter export
+ */
+export async function importFilters(
+  accountId: string,
+  xml: string,
+  indexes?: number[]
+): Promise<FilterImportResult> {
+  const { entries } = await previewFilterImport(accountId, xml)
+  const selected = entries.filter(
+    (entry) => entry.status === 'new' && (!indexes || indexes.includes(entry.index))
+  )
+
+  // Create each missing label once, even when several filters use it
+  const createdLabels = new Map<string, string | null>()
+  const labelsCreated: string[] = []
+  for (const name of selected.flatMap((entry) => entry.missingLabels)) {
+    const key = name.toLowerCase()
+    if (createdLabels.has(key)) continue
+    try {
+      const label = await createLabel(accountId, { name })
+      createdLabels.set(key, label.id)
+      labelsCreated.push(name)
+    } catch (error) {
+      logger.warn(
+        `[Filters] Could not create label for imported filters of account ${hashForLog(accountId)}:`,
+        error instanceof Error ? error.message : error
+      )
+      createdLabels.set(key, null)
+    }
+  }
+
+  let created = 0
+  let failed = 0
+
+  for (const entry of selected) {
+    const labelIds = entry.missingLabels.map((name) => createdLabels.get(name.toLowerCase()))
+    if (labelIds.some((id) => !id)) {
+      failed++
+      continue
+    }
+
+    const addLabelIds = [...(entry.action.addLabelIds ?? []), ...(labelIds as string[])]
+    try {
+      await createFilter(accountId, entry.criteria, {
+        ...entry.action,
+        ...(addLabelIds.length > 0 && { addLabelIds }),
+      })
+      created++
+    } catch (error) {
+      logger.warn(
+        `[Filters] Could not import filter ${entry.index} for account ${hashForLog(accountId)}:`,
+        error instanceof Error ? error.message : error
+      )
+      failed++
+    }
+  }
+
+  logger.debug(
+    `[Filters] Imported ${created} filter(s) for account ${hashForLog(accountId)} (${failed} failed)`
+  )
+
+  return {
+    created,
+    skipped: entries.length - selected.length,
+    failed,
+    labelsCreated,
+  }
+}
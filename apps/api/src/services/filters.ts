@@ -8,7 +8,7 @@
 
 import { gmail_v1 } from 'googleapis'
 import { getGmailClient } from './gmail'
-import { withRetry } from '../lib/retry'
+import { withGmailQuota } from './gmail-quota'
 import { logger } from '../lib/logger'
 
 // ============================================================================
@@ -112,7 +112,9 @@ function parseFilter(filter: gmail_v1.Schema$Filter): GmailFilter | null {
 export async function listFilters(accountId: string): Promise<GmailFilter[]> {
   const gmail = await getGmailClient(accountId)
 
-  const response = await withRetry(
+  const response = await withGmailQuota(
+    accountId,
+    'filters.list',
     async () => {
       return gmail.users.settings.filters.list({ userId: 'me' })
     },
@@ -130,7 +132,9 @@ export async function getFilter(accountId: string, filterId: string): Promise<Gm
   const gmail = await getGmailClient(accountId)
 
   try {
-    const response = await withRetry(
+    const response = await withGmailQuota(
+      accountId,
+      'filters.get',
       async () => {
         return gmail.users.settings.filters.get({ userId: 'me', id: filterId })
       },
@@ -185,7 +189,9 @@ export async function createFilter(
   }
   if (action.forward) requestBody.action!.forward = action.forward
 
-  const response = await withRetry(
+  const response = await withGmailQuota(
+    accountId,
+    'filters.create',
     async () => {
       return gmail.users.settings.filters.create({
         userId: 'me',
@@ -210,7 +216,9 @@ export async function createFilter(
 export async function deleteFilter(accountId: string, filterId: string): Promise<void> {
   const gmail = await getGmailClient(accountId)
 
-  await withRetry(
+  await withGmailQuota(
+    accountId,
+    'filters.delete',
     async () => {
       return gmail.users.settings.filters.delete({ userId: 'me', id: filterId })
     },
@@ -239,6 +247,34 @@ export async function updateFilter(
   return newFilter
 }
 
+/**
+ * Canonical form of a filter's criteria and action (no empty values, sorted label IDs)
+ * Filters that do the same thing have the same key.
+ */
+export function getFilterKey(filter: Pick<GmailFilter, 'criteria' | 'action'>): string {
+  const criteria = Object.fromEntries(
+    Object.entries(filter.criteria)
+      .filter(([, value]) => value !== undefined && value !== '' && value !== false)
+      .sort(([a], [b]) => a.localeCompare(b))
+  )
+  const action = {
+    addLabelIds: [...(filter.action.addLabelIds ?? [])].sort(),
+    removeLabelIds: [...(filter.action.removeLabelIds ?? [])].sort(),
+    forward: filter.action.forward ?? null,
+  }
+  return JSON.stringify({ criteria, action })
+}
+
+/**
+ * Whether two filters have the same criteria and action
+ */
+export function isSameFilter(
+  a: Pick<GmailFilter, 'criteria' | 'action'>,
+  b: Pick<GmailFilter, 'criteria' | 'action'>
+): boolean {
+  return getFilterKey(a) === getFilterKey(b)
+}
+
 // ============================================================================
 // Label Operations
 // ============================================================================
@@ -284,7 +320,9 @@ function parseLabel(label: gmail_v1.Schema$Label): GmailLabel | null {
 export async function listLabels(accountId: string): Promise<GmailLabel[]> {
   const gmail = await getGmailClient(accountId)
 
-  const response = await withRetry(
+  const response = await withGmailQuota(
+    accountId,
+    'labels.list',
     async () => {
       return gmail.users.labels.list({ userId: 'me' })
     },
@@ -302,7 +340,9 @@ export async function getLabel(accountId: string, labelId: string): Promise<Gmai
   const gmail = await getGmailClient(accountId)
 
   try {
-    const response = await withRetry(
+    const response = await withGmailQuota(
+      accountId,
+      'labels.get',
       async () => {
         return gmail.users.labels.get({ userId: 'me', id: labelId })
       },
@@ -341,7 +381,9 @@ export async function createLabel(
     }
   }
 
-  const response = await withRetry(
+  const response = await withGmailQuota(
+    accountId,
+    'labels.create',
     async () => {
       return gmail.users.labels.create({
         userId: 'me',
@@ -386,7 +428,9 @@ export async function updateLabel(
     }
   }
 
-  const response = await withRetry(
+  const response = await withGmailQuota(
+    accountId,
+    'labels.patch',
     async () => {
       return gmail.users.labels.patch({
         userId: 'me',
@@ -412,7 +456,9 @@ export async function updateLabel(
 export async function deleteLabel(accountId: string, labelId: string): Promise<void> {
   const gmail = await getGmailClient(accountId)
 
-  await withRetry(
+  await withGmailQuota(
+    accountId,
+    'labels.delete',
     async () => {
       return gmail.users.labels.delete({ userId: 'me', id: labelId })
     },
@@ -469,7 +515,9 @@ export async function getMatchingEmailCount(
     return 0
   }
 
-  const response = await withRetry(
+  const response = await withGmailQuota(
+    accountId,
+    'messages.list',
     async () => {
       return gmail.users.messages.list({
         userId: 'me',
@@ -513,7 +561,9 @@ export async function testFilterCriteria(
   let pageToken: string | undefined
 
   do {
-    const response = await withRetry(
+    const response = await withGmailQuota(
+      accountId,
+      'messages.list',
       async () => {
         return gmail.users.messages.list({
           userId: 'me',
@@ -541,7 +591,9 @@ export async function testFilterCriteria(
   // Fetch details for sample emails (up to 5)
   const samplePromises = messageIds.slice(0, 5).map(async (msgId) => {
     try {
-      const detail = await withRetry(
+      const detail = await withGmailQuota(
+        accountId,
+        'messages.get',
         async () => {
           return gmail.users.messages.get({
             userId: 'me',
@@ -619,7 +671,9 @@ export async function applyFilterToExisting(
   let pageToken: string | undefined
 
   do {
-    const response = await withRetry(
+    const response = await withGmailQuota(
+      accountId,
+      'messages.list',
       async () => {
         return gmail.users.messages.list({
           userId: 'me',
@@ -655,7 +709,9 @@ export async function applyFilterToExisting(
     const batch = messageIds.slice(i, i + BATCH_SIZE)
 
     try {
-      await withRetry(
+      await withGmailQuota(
+        accountId,
+        'messages.batchModify',
         async () => {
           return gmail.users.messages.batchModify({
             userId: 'me',
@@ -695,21 +751,23 @@ export async function modifyLabels(
     addLabelIds?: string[]
     removeLabelIds?: string[]
   }
-): Promise<{ modified: number; failed: number }> {
+): Promise<{ modified: number; failed: number; failedIds: string[] }> {
   if (messageIds.length === 0) {
-    return { modified: 0, failed: 0 }
+    return { modified: 0, failed: 0, failedIds: [] }
   }
 
   const gmail = await getGmailClient(accountId)
   const BATCH_SIZE = 1000
   let modified = 0
-  let failed = 0
+  const failedIds: string[] = []
 
   for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
     const batch = messageIds.slice(i, i + BATCH_SIZE)
 
     try {
-      await withRetry(
+      await withGmailQuota(
+        accountId,
+        'messages.batchModify',
         async () => {
           return gmail.users.messages.batchModify({
             userId: 'me',
@@ -726,10 +784,10 @@ export async function modifyLabels(
       modified += batch.length
     } catch (error) {
       logger.error(`[Filters] Failed to modify labels on batch of ${batch.length} emails:`, error)
-      failed += batch.length
+      failedIds.push(...batch)
     }
   }
 
-  logger.debug(`[Filters] Modified labels: ${modified} modified, ${failed} failed`)
-  return { modified, failed }
+  logger.debug(`[Filters] Modified labels: ${modified} modified, ${failedIds.length} failed`)
+  return { modified, failed: failedIds.length, failedIds }
 }
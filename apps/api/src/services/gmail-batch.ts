@@ -0,0 +1,238 @@
+/**
+ * Gmail HTTP batch client
+ *
+ * Packs many messages.get calls into a single multipart/mixed request to
+ * Gmail's batch endpoint, so a sync page costs a few round-trips instead of
+ * one per message. Quota is still charged per sub-request.
+ *
+ * https://developers.google.com/gmail/api/guides/batch
+ */
+
+import type { gmail_v1 } from 'googleapis'
+
+/**
+ * Maximum sub-requests Gmail accepts in one batch request
+ */
+export const GMAIL_BATCH_SIZE = 100
+
+/**
+ * Gmail API origin - overridable so the sync benchmark can point at a mock server
+ */
+export function getGmailApiUrl(): string {
+  return (process.env.GMAIL_API_URL || 'https://gmail.googleapis.com').replace(/\/$/, '')
+}
+
+/**
+ * Query options for each messages.get sub-request
+ */
+export interface MessageGetParams {
+  format: 'minimal' | 'metadata' | 'full'
+  metadataHeaders?: readonly string[]
+  fields?: string // Partial response mask
+}
+
+/**
+ * Outcome of one messages.get inside a batch
+ */
+export interface BatchMessageResult {
+  id: string
+  status: number
+  data: gmail_v1.Schema$Message | null
+  rateLimited: boolean // 429 or 403 rateLimitExceeded
+  retryAfter: number | null // ms, from the sub-response Retry-After header
+}
+
+/**
+ * Error for a failed batch request as a whole
+ *
+ * Carries `status` and `headers` so isRetryableError/getRetryAfter can inspect it.
+ */
+export class GmailBatchError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message)
+    this.name = 'GmailBatchError'
+  }
+}
+
+/**
+ * Build the path + query of a messages.get sub-request
+ */
+function buildMessagePath(id: string, params: MessageGetParams): string {
+  const query = new URLSearchParams({ format: params.format })
+  for (const header of params.metadataHeaders ?? []) {
+    query.append('metadataHeaders', header)
+  }
+  if (params.fields) {
+    query.set('fields', params.fields)
+  }
+  return `/gmail/v1/users/me/messages/${encodeURIComponent(id)}?${query.toString()}`
+}
+
+/**
+ * Build a multipart/mixed batch body of GET sub-requests
+ * Each part's Content-ID is its index so responses can be matched back.
+ */
+export function buildBatchBody(paths: string[], boundary: string): string {
+  const parts = paths.map(
+    (path, index) =>
+      `--${boundary}\r\n` +
+      'Content-Type: application/http\r\n' +
+      `Content-ID: <item${index}>\r\n\r\n` +
+      `GET ${path}\r\n\r\n`
+  )
+  return `${parts.join('')}--${boundary}--\r\n`
+}
+
+/**
+ * A single HTTP response extracted from a batch response body
+ */
+export interface BatchPartResponse {
+  contentId: string | null
+  status: number
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Split a "headers\n\nbody" block, lowercasing header names
+ */
+function splitHeaders(block: string): { headers: Record<string, string>; rest: string } {
+  const separator = block.indexOf('\n\n')
+  const head = separator === -1 ? block : block.slice(0, separator)
+  const rest = separator === -1 ? '' : block.slice(separator + 2)
+  const headers: Record<string, string> = {}
+  for (const line of head.split('\n')) {
+    const colon = line.indexOf(':')
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim()
+    }
+  }
+  return { headers, rest }
+}
+
+/**
+ * Parse a multipart/mixed batch response into its embedded HTTP responses
+ */
+export function parseBatchResponse(body: string, contentType: string): BatchPartResponse[] {
+  const boundaryMatch = contentType.match(/boundary="?([^";]+)"?/i)
+  if (!boundaryMatch?.[1]) {
+    throw new Error('Batch response is missing a multipart boundary')
+  }
+  const delimiter = `--${boundaryMatch[1]}`
+  const normalized = body.replace(/\r\n/g, '\n')
+
+  const responses: BatchPartResponse[] = []
+  // First chunk is the preamble, the last one starts with "--" (closing delimiter)
+  for (const chunk of normalized.split(delimiter).slice(1)) {
+    if (chunk.startsWith('--')) break
+
+    const part = splitHeaders(chunk.replace(/^\n/, ''))
+    const contentId = part.headers['content-id']?.replace(/^<|>$/g, '') ?? null
+
+    // Embedded response: status line, headers, blank line, body
+    const newline = part.rest.indexOf('\n')
+    const statusLine = newline === -1 ? part.rest : part.rest.slice(0, newline)
+    const status = parseInt(statusLine.split(' ')[1] ?? '', 10)
+    const response = splitHeaders(newline === -1 ? '' : part.rest.slice(newline + 1))
+
+    responses.push({
+      contentId,
+      status: Number.isNaN(status) ? 0 : status,
+      headers: response.headers,
+      body: response.rest.trim(),
+    })
+  }
+  return responses
+}
+
+/**
+ * Whether a sub-response is Gmail telling us to slow down
+ */
+function isRateLimitResponse(response: BatchPartResponse): boolean {
+  if (response.status === 429) return true
+  return response.status === 403 && /rateLimitExceeded/i.test(response.body)
+}
+
+/**
+ * Fetch up to GMAIL_BATCH_SIZE messages in one round-trip
+ *
+ * Throws GmailBatchError when the batch request itself fails; failures of
+ * individual messages are reported per result instead.
+ *
+ * @param accessToken - OAuth access token for the account
+ * @param ids - Gmail message IDs (at most GMAIL_BATCH_SIZE)
+ * @param params - format/metadataHeaders/fields applied to every sub-request
+ */
+export async function batchGetMessages(
+  accessToken: string,
+  ids: string[],
+  params: MessageGetParams
+): Promise<BatchMessageResult[]> {
+  if (ids.length === 0) return []
+  if (ids.length > GMAIL_BATCH_SIZE) {
+    throw new Error(`Gmail batches are limited to ${GMAIL_BATCH_SIZE} requests (got ${ids.length})`)
+  }
+
+  const boundary = `batch_inboxorcist_${crypto.randomUUID()}`
+  const response = await fetch(`${getGmailApiUrl()}/batch/gmail/v1`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': `multipart/mixed; boundary=${boundary}`,
+    },
+    body: buildBatchBody(
+      ids.map((id) => buildMessagePath(id, params)),
+      boundary
+    ),
+  })
+
+  if (!response.ok) {
+    const retryAfter = response.headers.get('retry-after')
+    throw new GmailBatchError(
+      `Gmail batch request failed with status ${response.status}`,
+      response.status,
+      retryAfter ? { 'retry-after': retryAfter } : {}
+    )
+  }
+
+  const parts = parseBatchResponse(
+    await response.text(),
+    response.headers.get('content-type') ?? ''
+  )
+
+  // Match responses to IDs via Content-ID ("response-item<index>"), falling back to order
+  const byIndex = new Map<number, BatchPartResponse>()
+  parts.forEach((part, position) => {
+    const index = Number(part.contentId?.match(/item(\d+)$/)?.[1] ?? position)
+    byIndex.set(index, part)
+  })
+
+  return ids.map((id, index) => {
+    const part = byIndex.get(index)
+    if (!part) {
+      return { id, status: 0, data: null, rateLimited: false, retryAfter: null }
+    }
+
+    let data: gmail_v1.Schema$Message | null = null
+    if (part.status === 200) {
+      try {
+        data = JSON.parse(part.body) as gmail_v1.Schema$Message
+      } catch {
+        data = null
+      }
+    }
+
+    const retryAfterSeconds = parseInt(part.headers['retry-after'] ?? '', 10)
+    return {
+      id,
+      status: part.status,
+      data,
+      rateLimited: isRateLimitResponse(part),
+      retryAfter: Number.isNaN(retryAfterSeconds) ? null : retryAfterSeconds * 1000,
+    }
+  })
+}
@@ -0,0 +1,271 @@
+import { eq, and, or, lt, isNull, isNotNull, sql } from 'drizzle-orm'
+import { db, tables } from '../db'
+import type { MailAccount } from '../db'
+import { getGmailClient } from './gmail'
+import { withGmailQuota } from './gmail-quota'
+import { processDeltaSync } from './sync/worker'
+import { hashForLog } from '../lib/hash'
+import { logger } from '../lib/logger'
+
+/**
+ * Gmail push notifications
+ *
+ * Optional real-time updates. users.watch makes Gmail publish mailbox changes
+ * to a Cloud Pub/Sub topic; a push subscription on that topic POSTs them to
+ * /api/webhooks/gmail, and each notification runs a delta sync for the account.
+ * Watches expire after 7 days - the scheduler renews them a day before.
+ */
+
+// Renew a watch once it expires within this window
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Push settings from the environment
+ */
+export interface GmailPushConfig {
+  /** Full Pub/Sub topic name: projects/<project>/topics/<topic> */
+  topicName: string
+  /** Shared secret the push subscription sends as ?token= */
+  verificationToken: string
+}
+
+/**
+ * Decoded Gmail notification (the Pub/Sub message data)
+ */
+export interface GmailPushNotification {
+  emailAddress: string
+  historyId: string
+}
+
+let warnedMissingToken = false
+
+/**
+ * Get push settings, or null when push is not configured
+ * Both GMAIL_PUSH_TOPIC and GMAIL_PUSH_TOKEN are required.
+ */
+export function getGmailPushConfig(): GmailPushConfig | null {
+  const topicName = process.env.GMAIL_PUSH_TOPIC?.trim()
+  const verificationToken = process.env.GMAIL_PUSH_TOKEN?.trim()
+
+  if (!topicName) return null
+
+  if (!verificationToken) {
+    if (!warnedMissingToken) {
+      logger.warn('[GmailPush] GMAIL_PUSH_TOPIC is set but GMAIL_PUSH_TOKEN is not - push disabled')
+      warnedMissingToken = true
+    }
+    return null
+  }
+
+  return { topicName, verificationToken }
+}
+
+export function isGmailPushEnabled(): boolean {
+  return getGmailPushConfig() !== null
+}
+
+// ============================================================================
+// Watches
+// ============================================================================
+
+/**
+ * Register (or refresh) the Gmail watch for an account
+ * Returns the new expiration (epoch ms).
+ */
+export async function startGmailWatch(accountId: string): Promise<number> {
+  const config = getGmailPushConfig()
+  if (!config) {
+    throw new Error('Gmail push is not configured')
+  }
+
+  const gmail = await getGmailClient(accountId)
+  const response = await withGmailQuota(accountId, 'watch', () =>
+    gmail.users.watch({
+      userId: 'me',
+      requestBody: { topicName: config.topicName },
+    })
+  )
+
+  const expiration = parseInt(response.data.expiration ?? '', 10) || null
+  if (!expiration) {
+    throw new Error('Gmail did not return a watch expiration')
+  }
+
+  await db
+    .update(tables.mailAccounts)
+    .set({ watchExpiration: expiration })
+    .where(eq(tables.mailAccounts.id, accountId))
+
+  logger.debug(
+    `[GmailPush] Watching account ${hashForLog(accountId)} until ${new Date(expiration).toISOString()}`
+  )
+  return expiration
+}
+
+/**
+ * Stop the Gmail watch for an account (best effort - a dead watch expires on its own)
+ */
+export async function stopGmailWatch(accountId: string): Promise<void> {
+  try {
+    const gmail = await getGmailClient(accountId)
+    await withGmailQuota(accountId, 'stop', () => gmail.users.stop({ userId: 'me' }), {
+      maxRetries: 0,
+    })
+  } catch (error) {
+    logger.warn(`[GmailPush] Failed to stop watch for account ${hashForLog(accountId)}:`, error)
+  }
+
+  await db
+    .update(tables.mailAccounts)
+    .set({ watchExpiration: null })
+    .where(eq(tables.mailAccounts.id, accountId))
+}
+
+/**
+ * Start a watch for an account unless it already has one that isn't about to expire
+ * No-op when push is not configured. Never throws.
+ */
+export async function ensureGmailWatch(account: MailAccount): Promise<void> {
+  if (!isGmailPushEnabled() || account.provider !== 'gmail') return
+  if (account.watchExpiration && account.watchExpiration > Date.now() + RENEW_BEFORE_MS) return
+
+  try {
+    await startGmailWatch(account.id)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[GmailPush] Failed to watch ${account.email}:`, errorMessage)
+  }
+}
+
+/**
+ * Start or renew watches for every synced Gmail account that needs one
+ * Returns the number of accounts processed.
+ */
+export async function renewGmailWatches(): Promise<number> {
+  if (!isGmailPushEnabled()) return 0
+
+  const accounts = await db
+    .select()
+    .from(tables.mailAccounts)
+    .where(
+      and(
+        eq(tables.mailAccounts.provider, 'gmail'),
+        eq(tables.mailAccounts.syncStatus, 'completed'),
+        isNotNull(tables.mailAccounts.historyId),
+        or(
+          isNull(tables.mailAccounts.watchExpiration),
+          lt(tables.mailAccounts.watchExpiration, Date.now() + RENEW_BEFORE_MS)
+        )
+      )
+    )
+
+  for (const account of accounts) {
+    await ensureGmailWatch(account)
+  }
+
+  return accounts.length
+}
+
+// ============================================================================
+// Notifications
+// ============================================================================
+
+/**
+ * Decode a Pub/Sub push request body
+ *
+ * Body shape: { message: { data: base64(JSON { emailAddress, historyId }), messageId }, subscription }
+ * Returns null if it isn't a Gmail notification.
+ */
+export function parseGmailPushMessage(body: unknown): GmailPushNotification | null {
+  const data = (body as { message?: { data?: unknown } } | null)?.message?.data
+  if (typeof data !== 'string') return null
+
+  try {
+    const decoded = JSON.parse(Buffer.from(data, 'base64').toString('utf8'))
+    const emailAddress = typeof decoded?.emailAddress === 'string' ? decoded.emailAddress : null
+    const historyId = decoded?.historyId != null ? String(decoded.historyId) : null
+
+    if (!emailAddress || !historyId || !/^\d+$/.test(historyId)) return null
+    return { emailAddress, historyId }
+  } catch {
+    return null
+  }
+}
+
+// Delta syncs in flight per account, and accounts notified again while one runs
+const syncsInFlight = new Map<string, Promise<void>>()
+const syncsRequested = new Set<string>()
+
+/**
+ * Run delta syncs for an account until no new notification arrived meanwhile
+ * Bursts of notifications collapse into at most one follow-up sync.
+ */
+function scheduleDeltaSync(account: MailAccount): void {
+  if (syncsInFlight.has(account.id)) {
+    syncsRequested.add(account.id)
+    return
+  }
+
+  const run = async () => {
+    do {
+      syncsRequested.delete(account.id)
+      try {
+        const result = await processDeltaSync(account.id)
+        if (result) {
+          logger.debug(
+            `[GmailPush] Delta sync for ${account.email}: ${result.added} added, ${result.deleted} deleted, ${result.labelChanges} label changes`
+          )
+        } else {
+          logger.warn(`[GmailPush] Delta sync for ${account.email} needs a full sync`)
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        logger.error(`[GmailPush] Delta sync failed for ${account.email}:`, errorMessage)
+      }
+    } while (syncsRequested.has(account.id))
+  }
+
+  syncsInFlight.set(
+    account.id,
+    run().finally(() => syncsInFlight.delete(account.id))
+  )
+}
+
+/**
+ * Handle a Gmail notification: delta sync every synced account with that address
+ *
+ * Returns the number of accounts a sync was triggered for. The syncs run in the
+ * background so the webhook can acknowledge right away.
+ */
+export async function handleGmailPushNotification(
+  notification: GmailPushNotification
+): Promise<number> {
+  const accounts = await db
+    .select()
+    .from(tables.mailAccounts)
+    .where(
+      and(
+        eq(tables.mailAccounts.provider, 'gmail'),
+        sql`lower(${tables.mailAccounts.email}) = ${notification.emailAddress.toLowerCase()}`
+      )
+    )
+
+  const notifiedHistoryId = Number(notification.historyId)
+  let triggered = 0
+
+  for (const account of accounts) {
+    // A full sync catches up by itself, and without a historyId there's nothing to delta from
+    if (account.syncStatus !== 'completed' || !account.historyId) continue
+
+    // Already synced past this change (e.g. Pub/Sub redelivery)
+    if (account.historyId >= notifiedHistoryId) continue
+
+    scheduleDeltaSync(account)
+    triggered++
+  }
+
+  logger.debug(
+    `[GmailPush] Notification for ${hashForLog(notification.emailAddress)} (history ${notification.historyId}): ${triggered} account(s) syncing`
+  )
+  return triggered
+}
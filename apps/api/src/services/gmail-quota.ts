@@ -0,0 +1,385 @@
+/**
+ * Gmail quota broker
+ *
+ * Gmail enforces two budgets that every caller shares:
+ * - 250 quota units/second per mailbox
+ * - 1,200,000 quota units/minute per OAuth client (Google Cloud project)
+ *
+ * Sync, cleanup jobs, filter apply, rules and chat tools used to pace themselves
+ * independently, so running them at once against the same mailbox meant each
+ * assumed it had the full 250 units/sec and they all hit 429s together.
+ *
+ * Every Gmail request now takes its units from a token bucket for its account
+ * and one for the OAuth client before it is sent. Calls are served in order,
+ * and a rate limit seen by any caller pauses the whole bucket for Retry-After,
+ * slowing the refill rate until things have been quiet for a while.
+ */
+
+import { withRetry, getRetryAfter, type RetryOptions } from '../lib/retry'
+import { getGoogleCredentials } from './config'
+import { logger } from '../lib/logger'
+import { hashForLog } from '../lib/hash'
+
+/**
+ * Quota units per Gmail API method
+ * https://developers.google.com/gmail/api/reference/quota
+ */
+export const GMAIL_METHOD_COSTS = {
+  getProfile: 1,
+  'messages.list': 5,
+  'messages.get': 5,
+  'messages.attachments.get': 5,
+  'messages.modify': 5,
+  'messages.trash': 5,
+  'messages.untrash': 5,
+  'messages.batchModify': 50,
+  'messages.batchDelete': 50,
+  'messages.send': 100,
+  'messages.import': 25,
+  'threads.get': 10,
+  'history.list': 2,
+  'labels.list': 1,
+  'labels.get': 1,
+  'labels.create': 5,
+  'labels.patch': 5,
+  'labels.delete': 5,
+  'filters.list': 1,
+  'filters.get': 1,
+  'filters.create': 5,
+  'filters.delete': 5,
+  watch: 100,
+  stop: 50,
+} as const
+
+export type GmailMethod = keyof typeof GMAIL_METHOD_COSTS
+
+// Published limits, with a little headroom so clock skew doesn't tip us over
+const ACCOUNT_UNITS_PER_SECOND = 240
+const CLIENT_UNITS_PER_SECOND = 19_000
+
+// Backoff when a 429 carries no Retry-After
+const DEFAULT_BACKOFF_MS = 30_000
+
+// Each rate limit cuts the refill rate by this much, down to MIN_RATE_FACTOR
+const RATE_LIMIT_PENALTY = 0.2
+const MIN_RATE_FACTOR = 0.4
+
+// Rate recovers by one penalty step per quiet period
+const RECOVERY_PERIOD_MS = 30_000
+
+// Usage history kept for utilisation stats
+const USAGE_WINDOW_MS = 60_000
+
+// Fallback bucket key when no OAuth client is configured (e.g. the sync benchmark)
+const UNKNOWN_CLIENT = 'default'
+
+// How long the OAuth client ID is cached before re-reading config
+const CLIENT_ID_CACHE_MS = 60_000
+
+interface UsageEntry {
+  at: number
+  units: number
+  method: GmailMethod
+}
+
+/**
+ * Token bucket shared by every caller of one account or OAuth client
+ */
+class QuotaBucket {
+  private tokens: number
+  private refilledAt = Date.now()
+  private tail: Promise<void> = Promise.resolve()
+  private usage: UsageEntry[] = []
+
+  waiting = 0
+  backoffUntil = 0
+  rateLimitCount = 0
+  lastRateLimitAt: number | null = null
+  private rateFactor = 1
+  private recoveredAt = 0
+
+  constructor(readonly unitsPerSecond: number) {
+    this.tokens = unitsPerSecond
+  }
+
+  /**
+   * Current refill rate (reduced after rate limits, recovering over time)
+   */
+  get effectiveRate(): number {
+    if (this.rateFactor < 1) {
+      const quietPeriods = Math.floor((Date.now() - this.recoveredAt) / RECOVERY_PERIOD_MS)
+      if (quietPeriods > 0) {
+        this.rateFactor = Math.min(1, this.rateFactor + quietPeriods * RATE_LIMIT_PENALTY)
+        this.recoveredAt = Date.now()
+      }
+    }
+    return this.unitsPerSecond * this.rateFactor
+  }
+
+  /**
+   * Milliseconds until `units` can be taken (0 = now)
+   * Requests larger than one second of quota only wait for a full bucket and go into debt.
+   */
+  waitTime(units: number): number {
+    const now = Date.now()
+    if (this.backoffUntil > now) {
+      return this.backoffUntil - now
+    }
+
+    const rate = this.effectiveRate
+    this.tokens = Math.min(rate, this.tokens + ((now - this.refilledAt) / 1000) * rate)
+    this.refilledAt = now
+
+    const needed = Math.min(units, rate)
+    if (this.tokens >= needed) return 0
+    return Math.ceil(((needed - this.tokens) / rate) * 1000)
+  }
+
+  take(units: number, method: GmailMethod): void {
+    this.tokens -= units
+    this.usage.push({ at: Date.now(), units, method })
+  }
+
+  /**
+   * Run `fn` after every earlier caller of this bucket has been served
+   */
+  enqueue(fn: () => Promise<void>): Promise<void> {
+    this.waiting++
+    const run = this.tail.then(fn).finally(() => {
+      this.waiting--
+    })
+    this.tail = run.catch(() => {})
+    return run
+  }
+
+  onRateLimit(retryAfterMs: number): void {
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + retryAfterMs)
+    this.rateLimitCount++
+    this.lastRateLimitAt = Date.now()
+    this.recoveredAt = this.backoffUntil
+    this.rateFactor = Math.max(MIN_RATE_FACTOR, this.rateFactor - RATE_LIMIT_PENALTY)
+    this.tokens = Math.min(this.tokens, 0)
+  }
+
+  /**
+   * Units used in the last `windowMs`, total and per method
+   */
+  getUsage(windowMs: number): { units: number; byMethod: Partial<Record<GmailMethod, number>> } {
+    const now = Date.now()
+    this.usage = this.usage.filter((entry) => now - entry.at < USAGE_WINDOW_MS)
+
+    let units = 0
+    const byMethod: Partial<Record<GmailMethod, number>> = {}
+    for (const entry of this.usage) {
+      if (now - entry.at >= windowMs) continue
+      units += entry.units
+      byMethod[entry.method] = (byMethod[entry.method] ?? 0) + entry.units
+    }
+    return { units, byMethod }
+  }
+}
+
+const accountBuckets = new Map<string, QuotaBucket>()
+const clientBuckets = new Map<string, QuotaBucket>()
+
+// Account -> OAuth client bucket it last drew from (for status reporting)
+const accountClients = new Map<string, string>()
+
+let cachedClientId: { value: string; expiresAt: number } | null = null
+
+function getAccountBucket(accountId: string): QuotaBucket {
+  let bucket = accountBuckets.get(accountId)
+  if (!bucket) {
+    bucket = new QuotaBucket(ACCOUNT_UNITS_PER_SECOND)
+    accountBuckets.set(accountId, bucket)
+  }
+  return bucket
+}
+
+function getClientBucket(clientId: string): QuotaBucket {
+  let bucket = clientBuckets.get(clientId)
+  if (!bucket) {
+    bucket = new QuotaBucket(CLIENT_UNITS_PER_SECOND)
+    clientBuckets.set(clientId, bucket)
+  }
+  return bucket
+}
+
+async function getClientId(): Promise<string> {
+  if (cachedClientId && cachedClientId.expiresAt > Date.now()) {
+    return cachedClientId.value
+  }
+
+  const { clientId } = await getGoogleCredentials().catch(() => ({ clientId: null }))
+  const value = clientId ?? UNKNOWN_CLIENT
+  cachedClientId = { value, expiresAt: Date.now() + CLIENT_ID_CACHE_MS }
+  return value
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * Wait until the account and its OAuth client have quota for `count` calls of `method`
+ *
+ * @param accountId - Mail account the request is made for
+ * @param method - Gmail API method (determines the unit cost)
+ * @param count - Number of calls, e.g. the sub-requests of an HTTP batch
+ */
+export async function acquireGmailQuota(
+  accountId: string,
+  method: GmailMethod,
+  count = 1
+): Promise<void> {
+  const units = GMAIL_METHOD_COSTS[method] * count
+  const clientId = await getClientId()
+  const accountBucket = getAccountBucket(accountId)
+  const clientBucket = getClientBucket(clientId)
+  accountClients.set(accountId, clientId)
+
+  await accountBucket.enqueue(async () => {
+    // Both budgets must have room; re-check after every sleep since another
+    // account may have drawn from the client bucket in the meantime
+    let wait = Math.max(accountBucket.waitTime(units), clientBucket.waitTime(units))
+    while (wait > 0) {
+      await sleep(wait)
+      wait = Math.max(accountBucket.waitTime(units), clientBucket.waitTime(units))
+    }
+
+    accountBucket.take(units, method)
+    clientBucket.take(units, method)
+  })
+}
+
+/**
+ * Share a rate limit seen by one caller with everyone using the account
+ *
+ * Project-level limits (the error mentions the project) pause the OAuth client
+ * bucket instead, which holds back every account.
+ */
+export function reportGmailRateLimit(
+  accountId: string,
+  retryAfterMs: number | null,
+  error?: unknown
+): void {
+  const backoff = retryAfterMs ?? DEFAULT_BACKOFF_MS
+  const message = error instanceof Error ? error.message : ''
+
+  if (/project/i.test(message)) {
+    const clientId = accountClients.get(accountId) ?? UNKNOWN_CLIENT
+    getClientBucket(clientId).onRateLimit(backoff)
+    logger.warn(`[GmailQuota] OAuth client rate limited, backing off ${backoff}ms`)
+    return
+  }
+
+  getAccountBucket(accountId).onRateLimit(backoff)
+  logger.debug(
+    `[GmailQuota] Account ${hashForLog(accountId)} rate limited, backing off ${backoff}ms`
+  )
+}
+
+/**
+ * Whether an error is a Gmail rate limit (429, or 403 with a *RateLimitExceeded reason)
+ */
+export function isGmailRateLimitError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false
+
+  const err = error as {
+    code?: number | string
+    status?: number
+    errors?: Array<{ reason?: string }>
+  }
+  if (err.code === 429 || err.status === 429) return true
+
+  const isForbidden = err.code === 403 || err.status === 403
+  return isForbidden && !!err.errors?.some((e) => e.reason?.endsWith('ateLimitExceeded'))
+}
+
+/**
+ * Run a Gmail API call with quota and retries
+ *
+ * Drop-in replacement for withRetry around Gmail calls: every attempt first
+ * takes its units from the broker, and rate limits are reported so other
+ * callers of the account back off too.
+ *
+ * @example
+ * const response = await withGmailQuota(accountId, 'messages.list', () =>
+ *   gmail.users.messages.list({ userId: 'me', q: query })
+ * )
+ */
+export async function withGmailQuota<T>(
+  accountId: string,
+  method: GmailMethod,
+  fn: () => Promise<T>,
+  options: RetryOptions & { count?: number } = {}
+): Promise<T> {
+  const { count = 1, ...retryOptions } = options
+
+  return withRetry(async () => {
+    await acquireGmailQuota(accountId, method, count)
+    try {
+      return await fn()
+    } catch (error) {
+      if (isGmailRateLimitError(error)) {
+        reportGmailRateLimit(accountId, getRetryAfter(error), error)
+      }
+      throw error
+    }
+  }, retryOptions)
+}
+
+/**
+ * Live utilisation of one quota bucket
+ */
+export interface GmailQuotaBucketStatus {
+  limitUnitsPerSecond: number
+  effectiveUnitsPerSecond: number
+  unitsPerSecond: number // Average over the last 10 seconds
+  unitsLastMinute: number
+  utilisation: number // unitsPerSecond / limit (0-1+)
+  waiting: number
+  backoffRemainingMs: number
+  rateLimitCount: number
+  lastRateLimitAt: string | null
+}
+
+export interface GmailQuotaStatus {
+  account: GmailQuotaBucketStatus & {
+    byMethod: Partial<Record<GmailMethod, number>> // Units in the last minute
+  }
+  client: GmailQuotaBucketStatus
+}
+
+function toBucketStatus(bucket: QuotaBucket): GmailQuotaBucketStatus {
+  const recent = bucket.getUsage(10_000)
+  const unitsPerSecond = Math.round((recent.units / 10) * 10) / 10
+
+  return {
+    limitUnitsPerSecond: bucket.unitsPerSecond,
+    effectiveUnitsPerSecond: Math.round(bucket.effectiveRate),
+    unitsPerSecond,
+    unitsLastMinute: bucket.getUsage(USAGE_WINDOW_MS).units,
+    utilisation: Math.round((unitsPerSecond / bucket.unitsPerSecond) * 1000) / 1000,
+    waiting: bucket.waiting,
+    backoffRemainingMs: Math.max(0, bucket.backoffUntil - Date.now()),
+    rateLimitCount: bucket.rateLimitCount,
+    lastRateLimitAt: bucket.lastRateLimitAt ? new Date(bucket.lastRateLimitAt).toISOString() : null,
+  }
+}
+
+/**
+ * Current quota usage for an account and its OAuth client
+ */
+export async function getGmailQuotaStatus(accountId: string): Promise<GmailQuotaStatus> {
+  const clientId = accountClients.get(accountId) ?? (await getClientId())
+  const accountBucket = getAccountBucket(accountId)
+
+  return {
+    account: {
+      ...toBucketStatus(accountBucket),
+      byMethod: accountBucket.getUsage(USAGE_WINDOW_MS).byMethod,
+    },
+    client: toBucketStatus(getClientBucket(clientId)),
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, test } from 'bun:test'
+import { mayHaveAttachments } from './gmail'
+
+describe('mayHaveAttachments', () => {
+  test.each([
+    'multipart/mixed; boundary="b1"',
+    'multipart/alternative; boundary="b1"',
+    'multipart/related; type="text/html"; boundary="b1"',
+    'multipart/signed; protocol="application/pgp-signature"; micalg=pgp-sha256',
+    'application/pdf; name="invoice.pdf"',
+  ])('fetches the structure of %s', (contentType) => {
+    expect(mayHaveAttachments(contentType)).toBe(true)
+  })
+
+  test.each(['text/plain; charset=utf-8', 'TEXT/HTML', '', null])(
+    'skips the structure of %p',
+    (contentType) => {
+      expect(mayHaveAttachments(contentType)).toBe(false)
+    }
+  )
+})
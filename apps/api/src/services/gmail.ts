@@ -3,12 +3,20 @@
  *
  * Two-step sync:
  * - Step 1: Quick stats using messages.list with query filters
- * - Step 2: Full metadata sync using messages.get for each email
+ * - Step 2: Metadata sync using batched messages.get (format=metadata)
  */
 
+import { Readable } from 'stream'
 import { google, gmail_v1 } from 'googleapis'
-import { getAuthenticatedClient } from './oauth'
+import { getAuthenticatedClient, getValidAccessToken } from './oauth'
+import {
+  batchGetMessages,
+  GMAIL_BATCH_SIZE,
+  type BatchMessageResult,
+  type MessageGetParams,
+} from './gmail-batch'
 import { withRetry, isRetryableError, getRetryAfter } from '../lib/retry'
+import { acquireGmailQuota, reportGmailRateLimit, withGmailQuota } from './gmail-quota'
 import { AdaptiveThrottle } from '../lib/throttle'
 import type { EmailRecord } from './emails'
 import { logger } from '../lib/logger'
@@ -89,7 +97,12 @@ export async function getQuickStats(accountId: string): Promise<QuickStatsResult
   const gmail = await getGmailClient(accountId)
 
   // Get profile for base total (excludes SPAM and TRASH)
-  const profileResult = await gmail.users.getProfile({ userId: 'me' })
+  const profileResult = await withGmailQuota(
+    accountId,
+    'getProfile',
+    () => gmail.users.getProfile({ userId: 'me' }),
+    { maxRetries: 0 }
+  )
   const baseTotal = profileResult.data.messagesTotal || 0
 
   // Get SPAM and TRASH counts from labels API
@@ -99,8 +112,18 @@ export async function getQuickStats(accountId: string): Promise<QuickStatsResult
 
   try {
     const [spamLabel, trashLabel] = await Promise.all([
-      gmail.users.labels.get({ userId: 'me', id: 'SPAM' }).catch(() => null),
-      gmail.users.labels.get({ userId: 'me', id: 'TRASH' }).catch(() => null),
+      withGmailQuota(
+        accountId,
+        'labels.get',
+        () => gmail.users.labels.get({ userId: 'me', id: 'SPAM' }),
+        { maxRetries: 0 }
+      ).catch(() => null),
+      withGmailQuota(
+        accountId,
+        'labels.get',
+        () => gmail.users.labels.get({ userId: 'me', id: 'TRASH' }),
+        { maxRetries: 0 }
+      ).catch(() => null),
     ])
 
     spamCount = spamLabel?.data?.messagesTotal || 0
@@ -157,6 +180,35 @@ export function parseEmailAddress(header: string | null | undefined): ParsedEmai
   return { email: header.toLowerCase().trim(), name: null }
 }
 
+/**
+ * Parse all email addresses from an address-list header (To, Cc)
+ *
+ * Returns lowercased, de-duplicated addresses; display names are dropped.
+ */
+export function parseAddressList(header: string | null | undefined): string[] {
+  if (!header) {
+    return []
+  }
+
+  const matches = header.match(/[^\s<>",;:]+@[^\s<>",;:]+/g) ?? []
+  return [...new Set(matches.map((email) => email.toLowerCase()))]
+}
+
+/**
+ * Extract the list identifier from a List-Id header
+ *
+ * "Rust Users <users.rust-lang.org>" -> "users.rust-lang.org"
+ */
+export function parseListId(header: string | null | undefined): string | null {
+  if (!header) {
+    return null
+  }
+
+  const match = header.match(/<([^<>]+)>/)
+  const listId = (match?.[1] ?? header).trim().toLowerCase()
+  return listId || null
+}
+
 /**
  * Get a specific header value from message headers
  */
@@ -204,22 +256,29 @@ function findCategory(labelIds: string[] | null | undefined): string | null {
 }
 
 /**
- * Parse List-Unsubscribe header and extract the best URL
- * Prefers https URLs over mailto links
+ * Extract all URLs from a List-Unsubscribe header, in header order
  *
  * Header format examples:
  * - <https://example.com/unsubscribe?id=123>
  * - <mailto:unsubscribe@example.com>
  * - <mailto:...>, <https://...>
  */
-function parseUnsubscribeHeader(header: string | null): string | null {
-  if (!header) return null
+export function parseUnsubscribeUrls(header: string | null): string[] {
+  if (!header) return []
 
   // Extract all URLs from angle brackets
   const matches = header.match(/<([^>]+)>/g)
-  if (!matches) return null
+  if (!matches) return []
+
+  return matches.map((m) => m.slice(1, -1).trim()) // Remove < and >
+}
 
-  const urls = matches.map((m) => m.slice(1, -1)) // Remove < and >
+/**
+ * Parse List-Unsubscribe header and extract the best URL
+ * Prefers https URLs over mailto links
+ */
+export function parseUnsubscribeHeader(header: string | null): string | null {
+  const urls = parseUnsubscribeUrls(header)
 
   // Prefer https URL over mailto
   const httpsUrl = urls.find((url) => url.startsWith('https://'))
@@ -279,48 +338,52 @@ function getAttachmentMeta(part: gmail_v1.Schema$MessagePart): AttachmentMeta |
 }
 
 /**
- * Collect attachment metadata from MIME parts
+ * Collect attachment parts from MIME parts
  * Recursively traverses the entire MIME tree
  */
-function collectAttachments(
+function collectAttachmentParts(
   parts: gmail_v1.Schema$MessagePart[] | undefined,
-  attachments: AttachmentMeta[] = []
-): AttachmentMeta[] {
+  attachments: gmail_v1.Schema$MessagePart[] = []
+): gmail_v1.Schema$MessagePart[] {
   if (!parts) return attachments
 
   for (const part of parts) {
-    const meta = getAttachmentMeta(part)
-    if (meta) {
-      attachments.push(meta)
+    if (getAttachmentMeta(part)) {
+      attachments.push(part)
     }
     // Recursively check nested parts (deep traversal)
     if (part.parts) {
-      collectAttachments(part.parts, attachments)
+      collectAttachmentParts(part.parts, attachments)
     }
   }
   return attachments
 }
 
 /**
- * Extract attachment metadata from message
+ * Get the attachment parts of a message, in the order their metadata is stored
+ * (emails.attachments), so an attachment can be addressed by its index
  * Handles deeply nested MIME structures (multipart/mixed > multipart/alternative > etc.)
- * Returns array of attachment metadata (empty if no attachments)
  */
-function getMessageAttachments(message: gmail_v1.Schema$Message): AttachmentMeta[] {
-  const attachments: AttachmentMeta[] = []
+export function getAttachmentParts(
+  message: gmail_v1.Schema$Message
+): gmail_v1.Schema$MessagePart[] {
+  const parts: gmail_v1.Schema$MessagePart[] = []
 
   // Check if the payload itself is an attachment (single-part message)
-  if (message.payload) {
-    const meta = getAttachmentMeta(message.payload)
-    if (meta) {
-      attachments.push(meta)
-    }
+  if (message.payload && getAttachmentMeta(message.payload)) {
+    parts.push(message.payload)
   }
 
   // Collect from all nested parts
-  collectAttachments(message.payload?.parts, attachments)
+  return collectAttachmentParts(message.payload?.parts, parts)
+}
 
-  return attachments
+/**
+ * Extract attachment metadata from message
+ * Returns array of attachment metadata (empty if no attachments)
+ */
+function getMessageAttachments(message: gmail_v1.Schema$Message): AttachmentMeta[] {
+  return getAttachmentParts(message).map((part) => getAttachmentMeta(part)!)
 }
 
 /**
@@ -350,8 +413,16 @@ export function parseMessage(message: gmail_v1.Schema$Message): EmailRecord | nu
   const internalDate = safeNumber(message.internalDate, 0)
 
   // Extract unsubscribe link from List-Unsubscribe header
+  // The full header and List-Unsubscribe-Post are kept for RFC 8058 one-click unsubscribe
   const unsubscribeHeader = getHeader(headers, 'List-Unsubscribe')
   const unsubscribeLink = parseUnsubscribeHeader(unsubscribeHeader)
+  const unsubscribePost = getHeader(headers, 'List-Unsubscribe-Post')
+
+  // Recipient and mailing list headers for To/List-Id filters
+  const toEmails = parseAddressList(getHeader(headers, 'To'))
+  const ccEmails = parseAddressList(getHeader(headers, 'Cc'))
+  const deliveredTo = parseAddressList(getHeader(headers, 'Delivered-To'))[0] ?? null
+  const replyTo = parseAddressList(getHeader(headers, 'Reply-To'))[0] ?? null
 
   // Extract attachment metadata
   const attachments = getMessageAttachments(message)
@@ -376,19 +447,169 @@ export function parseMessage(message: gmail_v1.Schema$Message): EmailRecord | nu
     internal_date: internalDate,
     synced_at: Date.now(),
     unsubscribe_link: unsubscribeLink,
+    list_unsubscribe: unsubscribeHeader,
+    list_unsubscribe_post: unsubscribePost,
+    to_emails: toEmails.length > 0 ? JSON.stringify(toEmails) : null,
+    cc_emails: ccEmails.length > 0 ? JSON.stringify(ccEmails) : null,
+    delivered_to: deliveredTo,
+    reply_to: replyTo,
+    list_id: parseListId(getHeader(headers, 'List-Id')),
+  }
+}
+
+/**
+ * Headers requested with format=metadata during sync - everything parseMessage reads.
+ * Content-Type is only used to decide whether a message may carry attachments.
+ */
+export const SYNC_METADATA_HEADERS = [
+  'From',
+  'Subject',
+  'To',
+  'Cc',
+  'Delivered-To',
+  'Reply-To',
+  'List-Id',
+  'List-Unsubscribe',
+  'List-Unsubscribe-Post',
+  'Content-Type',
+] as const
+
+/**
+ * Partial-response mask for a MIME part: names, types and sizes, never body data
+ */
+const MIME_PART_FIELDS = 'mimeType,filename,headers,body/size'
+
+function mimeTreeFields(depth: number): string {
+  return depth === 0 ? MIME_PART_FIELDS : `${MIME_PART_FIELDS},parts(${mimeTreeFields(depth - 1)})`
+}
+
+// Metadata sync: headers, labels and size only (no MIME tree, no bodies)
+const METADATA_PARAMS: MessageGetParams = {
+  format: 'metadata',
+  metadataHeaders: SYNC_METADATA_HEADERS,
+}
+
+// Attachment structure: the MIME tree (6 levels deep) without any body data
+const ATTACHMENT_STRUCTURE_PARAMS: MessageGetParams = {
+  format: 'full',
+  fields: `id,payload(${mimeTreeFields(6)})`,
+}
+
+/**
+ * Whether a message's top-level Content-Type means it may carry attachments
+ *
+ * Any multipart message or a single non-text part such as application/pdf. Only
+ * plain text/html messages skip the structure fetch: attachments can be nested
+ * anywhere in a multipart tree (Apple Mail sends alternative > mixed > pdf), and
+ * the top-level header doesn't say what's inside.
+ */
+export function mayHaveAttachments(contentType: string | null): boolean {
+  if (!contentType) return false
+  const mimeType = (contentType.split(';')[0] ?? '').trim().toLowerCase()
+  return mimeType !== '' && !mimeType.startsWith('text/')
+}
+
+/**
+ * Result of fetching one batch of messages
+ */
+export interface MessageBatchResult {
+  records: EmailRecord[]
+  failedIds: string[]
+  rateLimited: boolean
+  retryAfter: number | null // ms, largest Retry-After among rate limited sub-requests
+}
+
+/**
+ * Fetch and parse one batch of messages (at most GMAIL_BATCH_SIZE) in two round-trips
+ *
+ * 1. format=metadata with SYNC_METADATA_HEADERS for every message
+ * 2. the MIME structure (no body data) for messages whose Content-Type says
+ *    they may carry attachments
+ *
+ * Messages that fail either step are returned in failedIds so the caller can retry them.
+ * When accountId is given, each round-trip first takes its units from the quota broker.
+ */
+export async function fetchMessageBatch(
+  accessToken: string,
+  ids: string[],
+  accountId?: string
+): Promise<MessageBatchResult> {
+  const failedIds: string[] = []
+  let rateLimited = false
+  let retryAfter: number | null = null
+
+  const collect = (results: BatchMessageResult[]) => {
+    const messages = new Map<string, gmail_v1.Schema$Message>()
+    for (const result of results) {
+      if (result.data) {
+        messages.set(result.id, result.data)
+        continue
+      }
+      failedIds.push(result.id)
+      if (result.rateLimited) {
+        rateLimited = true
+        if (result.retryAfter !== null) {
+          retryAfter = Math.max(retryAfter ?? 0, result.retryAfter)
+        }
+      }
+    }
+    return messages
   }
+
+  const fetchBatch = async (batchIds: string[], params: MessageGetParams) => {
+    if (accountId) await acquireGmailQuota(accountId, 'messages.get', batchIds.length)
+    return batchGetMessages(accessToken, batchIds, params)
+  }
+
+  const messages = collect(await fetchBatch(ids, METADATA_PARAMS))
+
+  const candidateIds = [...messages.keys()].filter((id) =>
+    mayHaveAttachments(getHeader(messages.get(id)?.payload?.headers, 'Content-Type'))
+  )
+  const structures =
+    candidateIds.length > 0
+      ? collect(await fetchBatch(candidateIds, ATTACHMENT_STRUCTURE_PARAMS))
+      : new Map<string, gmail_v1.Schema$Message>()
+  const candidates = new Set(candidateIds)
+
+  const records: EmailRecord[] = []
+  for (const [id, message] of messages) {
+    let parsed: EmailRecord | null
+    if (candidates.has(id)) {
+      const structure = structures.get(id)
+      // Structure fetch failed - retry the whole message rather than store it without attachments
+      if (!structure) continue
+      parsed = parseMessage({
+        ...message,
+        payload: {
+          ...message.payload,
+          filename: structure.payload?.filename,
+          body: structure.payload?.body,
+          parts: structure.payload?.parts,
+        },
+      })
+    } else {
+      parsed = parseMessage(message)
+    }
+    if (parsed) {
+      records.push(parsed)
+    }
+  }
+
+  return { records, failedIds, rateLimited, retryAfter }
 }
 
 /**
- * Fetch message details for a batch of message IDs
+ * Fetch message details for a page of message IDs
  *
- * Uses controlled concurrency to avoid Gmail API rate limits.
- * Gmail allows ~250 quota units/second, each messages.get is 5 units.
- * So max ~50 requests/second, but we stay conservative at ~15-20/sec.
+ * Uses Gmail's HTTP batch endpoint with format=metadata, so each round-trip
+ * carries up to GMAIL_BATCH_SIZE messages and no bodies are downloaded.
+ * The throttle's concurrency is used as the batch size; quota is still
+ * charged per message (5 units each), so the throttle keeps us at ~47 msg/sec.
  *
- * Gets fresh client periodically to handle token refresh during long syncs.
+ * Gets a valid access token for every batch to handle token refresh during long syncs.
  *
- * @param accountId - Gmail account ID (used to get fresh client with valid token)
+ * @param accountId - Gmail account ID (used to get a valid access token)
  * @param messageIds - Array of message IDs to fetch
  * @param throttle - Adaptive throttle for rate limiting
  * @param onProgress - Optional callback for progress updates
@@ -402,113 +623,62 @@ export async function fetchMessageDetails(
   totalMessages?: number, // Total messages across all pages for ETA calculation
   processedSoFar?: number // Messages already processed before this page (for accurate ETA)
 ): Promise<EmailRecord[]> {
-  const CLIENT_REFRESH_INTERVAL = 30 * 60 * 1000 // Refresh client every 30 minutes
   const results: EmailRecord[] = []
   const failedIds: string[] = [] // Track failed message IDs for retry
   const startTime = Date.now()
   let processed = 0
-  let gmail = await getGmailClient(accountId)
-  let lastClientRefresh = Date.now()
   let totalLatency = 0 // Cumulative latency for averaging
   let batchCount = 0 // Number of batches since last log
   let lastLogTime = Date.now() // Track time between progress logs
 
-  // Helper function to fetch a single message
-  const fetchMessage = async (
-    id: string
-  ): Promise<{ id: string; data: gmail_v1.Schema$Message | null }> => {
-    try {
-      const response = await gmail.users.messages.get({
-        userId: 'me',
-        id,
-        format: 'full',
-      })
-      return { id, data: response.data }
-    } catch {
-      return { id, data: null }
-    }
-  }
-
-  // Process with adaptive concurrency from throttle
   let i = 0
   while (i < messageIds.length) {
-    // Get current concurrency from throttle (adapts based on latency)
-    const concurrency = throttle.getConcurrency()
-    const batch = messageIds.slice(i, i + concurrency)
-
-    // Periodically refresh the client to ensure valid tokens
-    if (Date.now() - lastClientRefresh > CLIENT_REFRESH_INTERVAL) {
-      logger.debug('[Gmail] Refreshing client to ensure valid token...')
-      gmail = await getGmailClient(accountId)
-      lastClientRefresh = Date.now()
-    }
+    // Batch size follows the throttle's concurrency (adapts based on latency)
+    const batchSize = Math.min(GMAIL_BATCH_SIZE, throttle.getConcurrency())
+    const batch = messageIds.slice(i, i + batchSize).map(({ id }) => id)
 
-    // Wait for throttle before each small batch
+    // Wait for throttle before each batch request
     await throttle.wait()
 
-    // Fetch small batch in parallel
-    // Using format: "full" to get payload.parts structure for attachment detection
-    // Note: "metadata" format does NOT include payload.parts
     const batchStartTime = Date.now()
-    const batchPromises = batch.map(({ id }) =>
-      withRetry(
-        async () => {
-          const response = await gmail.users.messages.get({
-            userId: 'me',
-            id,
-            format: 'full',
-          })
-          return { id, data: response.data }
+    const batchResult = await withRetry(
+      async () => fetchMessageBatch(await getValidAccessToken(accountId), batch, accountId),
+      {
+        maxRetries: 3,
+        baseDelay: 2000,
+        onRetry: (error, attempt) => {
+          logger.debug(`[Gmail] Retry ${attempt} for batch of ${batch.length}: ${error.message}`)
+          if (isRetryableError(error)) {
+            throttle.onRateLimit(getRetryAfter(error) ?? 30000)
+            reportGmailRateLimit(accountId, getRetryAfter(error), error)
+          }
         },
-        {
-          maxRetries: 3,
-          baseDelay: 2000,
-          onRetry: (error, attempt) => {
-            logger.debug(`[Gmail] Retry ${attempt} for message ${id}: ${error.message}`)
-            if (isRetryableError(error)) {
-              const retryAfter = getRetryAfter(error)
-              if (retryAfter) {
-                throttle.onRateLimit(retryAfter)
-              } else {
-                throttle.onRateLimit(30000)
-              }
-            }
-          },
-        }
-      ).catch((error) => {
-        logger.error(`[Gmail] Failed to fetch message ${id}:`, error.message)
-        failedIds.push(id) // Track for later retry
-        throttle.onError()
-        return { id, data: null }
-      })
-    )
-
-    const batchResults = await Promise.all(batchPromises)
+      }
+    ).catch((error): MessageBatchResult => {
+      logger.error(`[Gmail] Failed to fetch batch of ${batch.length} messages:`, error.message)
+      throttle.onError()
+      return { records: [], failedIds: batch, rateLimited: false, retryAfter: null }
+    })
     const batchLatency = Date.now() - batchStartTime
     totalLatency += batchLatency
     batchCount++
 
-    // Parse successful results
-    let batchSuccessCount = 0
-    for (const result of batchResults) {
-      if (result.data) {
-        const parsed = parseMessage(result.data)
-        if (parsed) {
-          results.push(parsed)
-          batchSuccessCount++
-        }
-      }
+    results.push(...batchResult.records)
+    failedIds.push(...batchResult.failedIds) // Track for later retry
+    if (batchResult.rateLimited) {
+      throttle.onRateLimit(batchResult.retryAfter ?? 30000)
+      reportGmailRateLimit(accountId, batchResult.retryAfter)
     }
 
     // Report batch completion to throttle for latency-aware rate limiting
-    // This allows the throttle to adjust delay and concurrency based on Google's response time
-    throttle.onBatchComplete(batchLatency, batchSuccessCount)
+    // This allows the throttle to adjust delay and batch size based on Google's response time
+    throttle.onBatchComplete(batchLatency, batchResult.records.length)
 
     processed += batch.length
     i += batch.length // Move to next batch
 
     // Report progress every 500 messages
-    if (onProgress && processed % 500 < concurrency) {
+    if (onProgress && processed % 500 < batchSize) {
       const elapsed = Date.now() - startTime
       const rate = processed / (elapsed / 1000)
       // Calculate remaining time based on overall progress
@@ -521,9 +691,9 @@ export async function fetchMessageDetails(
       // Include throttle stats for debugging rate limiting
       const throttleDelay = throttle.getCurrentDelay()
       const throttleTarget = throttle.getTargetRate()
-      const throttleConcurrency = throttle.getConcurrency()
+      const throttleBatchSize = throttle.getConcurrency()
       logger.debug(
-        `[Gmail] Progress: ${overallProcessed}/${total} (${((overallProcessed / total) * 100).toFixed(1)}%) | Time: ${batchTime}s | Rate: ${rate.toFixed(1)} msg/sec | Avg Latency: ${avgLatency}ms | ETA: ${Math.round(etaSeconds / 60)} min | Throttle: delay=${throttleDelay}ms concurrency=${throttleConcurrency} target=${throttleTarget}msg/s`
+        `[Gmail] Progress: ${overallProcessed}/${total} (${((overallProcessed / total) * 100).toFixed(1)}%) | Time: ${batchTime}s | Rate: ${rate.toFixed(1)} msg/sec | Avg Latency: ${avgLatency}ms | ETA: ${Math.round(etaSeconds / 60)} min | Throttle: delay=${throttleDelay}ms batch=${throttleBatchSize} target=${throttleTarget}msg/s`
       )
       // Reset tracking for next interval
       totalLatency = 0
@@ -542,27 +712,27 @@ export async function fetchMessageDetails(
     // Reset throttle and use more conservative settings for retry
     throttle.reset()
     let retrySuccessCount = 0
-    const retryConcurrency = throttle.getConcurrency() // Use base concurrency after reset
-
-    for (let j = 0; j < failedIds.length; j += retryConcurrency) {
-      const batch = failedIds.slice(j, j + retryConcurrency)
+    const retryBatchSize = Math.min(GMAIL_BATCH_SIZE, throttle.getConcurrency()) // Base size after reset
 
-      // Refresh client before retry batch
-      gmail = await getGmailClient(accountId)
+    for (let j = 0; j < failedIds.length; j += retryBatchSize) {
+      const batch = failedIds.slice(j, j + retryBatchSize)
 
       // Wait longer between retry batches
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      const retryResults = await Promise.all(batch.map((id) => fetchMessage(id)))
-
-      for (const result of retryResults) {
-        if (result.data) {
-          const parsed = parseMessage(result.data)
-          if (parsed) {
-            results.push(parsed)
-            retrySuccessCount++
-          }
-        }
+      try {
+        const retryResult = await fetchMessageBatch(
+          await getValidAccessToken(accountId),
+          batch,
+          accountId
+        )
+        results.push(...retryResult.records)
+        retrySuccessCount += retryResult.records.length
+      } catch (error) {
+        logger.error(
+          `[Gmail] Retry failed for batch of ${batch.length} messages:`,
+          error instanceof Error ? error.message : error
+        )
       }
     }
 
@@ -602,7 +772,9 @@ export async function* listAllMessageIds(
     // Get fresh client for each page to handle token refresh
     const gmail = await getGmailClient(accountId)
 
-    const response = await withRetry(
+    const response = await withGmailQuota(
+      accountId,
+      'messages.list',
       async () => {
         return gmail.users.messages.list({
           userId: 'me',
@@ -656,7 +828,12 @@ export interface HistoryChange {
  */
 export async function getCurrentHistoryId(accountId: string): Promise<string> {
   const gmail = await getGmailClient(accountId)
-  const profile = await gmail.users.getProfile({ userId: 'me' })
+  const profile = await withGmailQuota(
+    accountId,
+    'getProfile',
+    () => gmail.users.getProfile({ userId: 'me' }),
+    { maxRetries: 0 }
+  )
   return profile.data.historyId || '0'
 }
 
@@ -691,7 +868,9 @@ export async function fetchHistoryChanges(
 
   try {
     do {
-      const response = await withRetry(
+      const response = await withGmailQuota(
+        accountId,
+        'history.list',
         async () => {
           return gmail.users.history.list({
             userId: 'me',
@@ -830,7 +1009,9 @@ export async function batchDeleteMessages(accountId: string, messageIds: string[
 
   const gmail = await getGmailClient(accountId)
 
-  await withRetry(
+  await withGmailQuota(
+    accountId,
+    'messages.batchDelete',
     async () => {
       await gmail.users.messages.batchDelete({
         userId: 'me',
@@ -851,23 +1032,25 @@ export async function trashMessages(
   accountId: string,
   messageIds: string[],
   _throttle?: AdaptiveThrottle
-): Promise<{ succeeded: number; failed: number }> {
+): Promise<{ succeeded: number; failed: number; failedIds: string[] }> {
   if (messageIds.length === 0) {
-    return { succeeded: 0, failed: 0 }
+    return { succeeded: 0, failed: 0, failedIds: [] }
   }
 
   const gmail = await getGmailClient(accountId)
   const BATCH_SIZE = 1000 // Gmail's limit for batchModify
 
   let succeeded = 0
-  let failed = 0
+  const failedIds: string[] = []
 
   // Process in batches of 1000
   for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
     const batch = messageIds.slice(i, i + BATCH_SIZE)
 
     try {
-      await withRetry(
+      await withGmailQuota(
+        accountId,
+        'messages.batchModify',
         async () => {
           await gmail.users.messages.batchModify({
             userId: 'me',
@@ -886,11 +1069,294 @@ export async function trashMessages(
       )
     } catch (error) {
       logger.error(`[Gmail] Failed to trash batch of ${batch.length} messages:`, error)
-      failed += batch.length
+      failedIds.push(...batch)
     }
   }
 
-  return { succeeded, failed }
+  return { succeeded, failed: failedIds.length, failedIds }
+}
+
+/**
+ * Archive messages (remove the INBOX label) using batchModify
+ */
+export async function archiveMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{ succeeded: number; failed: number; failedIds: string[] }> {
+  if (messageIds.length === 0) {
+    return { succeeded: 0, failed: 0, failedIds: [] }
+  }
+
+  const gmail = await getGmailClient(accountId)
+  const BATCH_SIZE = 1000 // Gmail's limit for batchModify
+
+  let succeeded = 0
+  const failedIds: string[] = []
+
+  for (let i = 0; i < messageIds.length; i += BATCH_SIZE) {
+    const batch = messageIds.slice(i, i + BATCH_SIZE)
+
+    try {
+      await withGmailQuota(
+        accountId,
+        'messages.batchModify',
+        async () => {
+          await gmail.users.messages.batchModify({
+            userId: 'me',
+            requestBody: {
+              ids: batch,
+              removeLabelIds: ['INBOX'],
+            },
+          })
+        },
+        { maxRetries: 3 }
+      )
+      succeeded += batch.length
+      logger.debug(
+        `[Gmail] Archived batch of ${batch.length} messages (${succeeded}/${messageIds.length})`
+      )
+    } catch (error) {
+      logger.error(`[Gmail] Failed to archive batch of ${batch.length} messages:`, error)
+      failedIds.push(...batch)
+    }
+  }
+
+  return { succeeded, failed: failedIds.length, failedIds }
+}
+
+/**
+ * Move messages out of trash (one request per message - Gmail has no batch untrash)
+ *
+ * Messages that no longer exist (already purged from trash) are reported as failed.
+ */
+export async function untrashMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{
+  restored: { messageId: string; labelIds: string[] }[]
+  failed: string[]
+}> {
+  const restored: { messageId: string; labelIds: string[] }[] = []
+  const failed: string[] = []
+
+  if (messageIds.length === 0) {
+    return { restored, failed }
+  }
+
+  const gmail = await getGmailClient(accountId)
+
+  for (const messageId of messageIds) {
+    try {
+      const response = await withGmailQuota(
+        accountId,
+        'messages.untrash',
+        async () => {
+          return gmail.users.messages.untrash({
+            userId: 'me',
+            id: messageId,
+          })
+        },
+        { maxRetries: 3 }
+      )
+      restored.push({ messageId, labelIds: response.data.labelIds || [] })
+    } catch (error) {
+      logger.warn(`[Gmail] Failed to untrash message ${messageId}:`, error)
+      failed.push(messageId)
+    }
+  }
+
+  return { restored, failed }
+}
+
+/**
+ * Raw RFC 822 source of a message (messages.get format=raw)
+ */
+export interface RawMessage {
+  messageId: string
+  threadId: string | null
+  internalDate: number | null
+  raw: Buffer
+}
+
+/**
+ * Download the raw RFC 822 source of a message
+ */
+export async function fetchRawMessage(accountId: string, messageId: string): Promise<RawMessage> {
+  const gmail = await getGmailClient(accountId)
+
+  const response = await withGmailQuota(
+    accountId,
+    'messages.get',
+    async () => {
+      return gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'raw',
+      })
+    },
+    { maxRetries: 3 }
+  )
+
+  if (!response.data.raw) {
+    throw new Error(`Gmail returned no raw source for message ${messageId}`)
+  }
+
+  return {
+    messageId,
+    threadId: response.data.threadId ?? null,
+    internalDate: response.data.internalDate ? parseInt(response.data.internalDate, 10) : null,
+    raw: Buffer.from(response.data.raw, 'base64url'),
+  }
+}
+
+/**
+ * A downloaded attachment
+ */
+export interface AttachmentData {
+  filename: string
+  mimeType: string
+  data: Buffer
+}
+
+/**
+ * Get a message with its full MIME tree (format=full)
+ * Small parts carry their data inline, larger ones an attachmentId.
+ */
+export async function fetchFullMessage(
+  accountId: string,
+  messageId: string
+): Promise<gmail_v1.Schema$Message> {
+  const gmail = await getGmailClient(accountId)
+
+  const response = await withGmailQuota(
+    accountId,
+    'messages.get',
+    async () => {
+      return gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'full',
+      })
+    },
+    { maxRetries: 3 }
+  )
+
+  return response.data
+}
+
+/**
+ * Get the decoded content of a MIME part of a message fetched with fetchFullMessage
+ */
+export async function fetchPartData(
+  accountId: string,
+  messageId: string,
+  part: gmail_v1.Schema$MessagePart
+): Promise<Buffer> {
+  if (!part.body?.attachmentId) {
+    return Buffer.from(part.body?.data ?? '', 'base64url')
+  }
+
+  const gmail = await getGmailClient(accountId)
+  const attachmentId = part.body.attachmentId
+
+  const response = await withGmailQuota(
+    accountId,
+    'messages.attachments.get',
+    async () => {
+      return gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId,
+        id: attachmentId,
+      })
+    },
+    { maxRetries: 3 }
+  )
+
+  return Buffer.from(response.data.data ?? '', 'base64url')
+}
+
+/**
+ * Download an attachment by its index in the message's attachments
+ * Returns null when the message has no attachment at that index.
+ */
+export async function fetchAttachment(
+  accountId: string,
+  messageId: string,
+  index: number
+): Promise<AttachmentData | null> {
+  const message = await fetchFullMessage(accountId, messageId)
+  const part = getAttachmentParts(message)[index]
+  if (!part) return null
+
+  const meta = getAttachmentMeta(part)!
+  return {
+    filename: meta.filename,
+    mimeType: meta.mimeType,
+    data: await fetchPartData(accountId, messageId, part),
+  }
+}
+
+/**
+ * Send a raw RFC 822 message from the account's mailbox
+ * Returns the ID of the sent message
+ */
+export async function sendRawMessage(accountId: string, rawMessage: string): Promise<string> {
+  const gmail = await getGmailClient(accountId)
+
+  const response = await withGmailQuota(
+    accountId,
+    'messages.send',
+    async () => {
+      return gmail.users.messages.send({
+        userId: 'me',
+        requestBody: {
+          raw: Buffer.from(rawMessage).toString('base64url'),
+        },
+      })
+    },
+    { maxRetries: 3 }
+  )
+
+  return response.data.id || ''
+}
+
+/**
+ * Import a raw RFC 822 message into the mailbox, as if it had been received
+ * The Date header becomes the message date and Gmail doesn't run its spam filter.
+ * With a threadId, the message joins that thread (if its headers match it).
+ * Returns the ID of the new message
+ */
+export async function importRawMessage(
+  accountId: string,
+  raw: Buffer,
+  labelIds: string[],
+  options: { threadId?: string } = {}
+): Promise<string> {
+  const gmail = await getGmailClient(accountId)
+
+  const response = await withGmailQuota(
+    accountId,
+    'messages.import',
+    async () => {
+      return gmail.users.messages.import({
+        userId: 'me',
+        internalDateSource: 'dateHeader',
+        neverMarkSpam: true,
+        requestBody: { labelIds, threadId: options.threadId },
+        media: {
+          mimeType: 'message/rfc822',
+          body: Readable.from([raw]),
+        },
+      })
+    },
+    { maxRetries: 3 }
+  )
+
+  if (!response.data.id) {
+    throw new Error('Gmail returned no ID for the imported message')
+  }
+
+  return response.data.id
 }
 
 /**
@@ -906,7 +1372,9 @@ export async function getMessageIdsByQuery(
   let pageToken: string | undefined
 
   while (ids.length < maxResults) {
-    const response = await withRetry(
+    const response = await withGmailQuota(
+      accountId,
+      'messages.list',
       async () => {
         return gmail.users.messages.list({
           userId: 'me',
@@ -0,0 +1,215 @@
+/**
+ * IMAP accounts
+ *
+ * Connection settings and the encrypted app password live in imap_credentials.
+ * Each operation opens its own connection and logs out when done; a rejected
+ * login marks the account auth_expired, like a revoked OAuth token.
+ */
+
+import { eq } from 'drizzle-orm'
+import { db, tables, dbType } from '../../db'
+import { encrypt, decrypt } from '../../lib/encryption'
+import {
+  ImapClient,
+  ImapError,
+  type ImapConnectionOptions,
+  type ImapMailbox,
+  type ImapSecurity,
+} from '../../lib/imap'
+import { withRetry } from '../../lib/retry'
+import { hashForLog } from '../../lib/hash'
+import { logger } from '../../lib/logger'
+import { upsertMailAccount } from '../auth'
+import { AuthExpiredError, markAccountAuthExpired } from '../oauth'
+
+export interface ImapSettings {
+  email: string
+  host: string
+  port: number
+  security: ImapSecurity
+  username: string
+  password: string
+}
+
+/**
+ * Standard ports per connection security
+ */
+export const DEFAULT_IMAP_PORTS: Record<ImapSecurity, number> = {
+  tls: 993,
+  starttls: 143,
+  none: 143,
+}
+
+// Response codes of a rejected login (RFC 5530)
+const AUTH_FAILURE_CODES = new Set(['AUTHENTICATIONFAILED', 'AUTHORIZATIONFAILED', 'EXPIRED'])
+
+/**
+ * Whether an error means the server rejected the username or app password
+ */
+export function isImapAuthError(error: unknown): boolean {
+  return error instanceof ImapError && AUTH_FAILURE_CODES.has(error.responseCode || '')
+}
+
+async function getConnectionOptions(accountId: string): Promise<ImapConnectionOptions> {
+  const [credentials] = await db
+    .select()
+    .from(tables.imapCredentials)
+    .where(eq(tables.imapCredentials.mailAccountId, accountId))
+    .limit(1)
+
+  if (!credentials) {
+    throw new Error('No IMAP settings found for this account')
+  }
+
+  return {
+    host: credentials.host,
+    port: credentials.port,
+    security: credentials.security,
+    username: credentials.username,
+    password: decrypt(credentials.password),
+  }
+}
+
+/**
+ * Open a logged-in connection for an account (retried on network errors)
+ * Throws AuthExpiredError when the server rejects the login.
+ * The caller logs out when done.
+ */
+export async function openImapClient(accountId: string): Promise<ImapClient> {
+  const options = await getConnectionOptions(accountId)
+
+  try {
+    return await withRetry(() => ImapClient.connect(options), {
+      maxRetries: 3,
+      onRetry: (error, attempt, delay) => {
+        logger.debug(
+          `[IMAP] Retry ${attempt} connecting to ${options.host} in ${delay}ms: ${error.message}`
+        )
+      },
+    })
+  } catch (error) {
+    if (isImapAuthError(error)) {
+      const errorMessage =
+        'IMAP login failed. Please reconnect the account with a new app password.'
+      await markAccountAuthExpired(accountId, errorMessage)
+      throw new AuthExpiredError(errorMessage)
+    }
+    throw error
+  }
+}
+
+/**
+ * Run a function with a logged-in connection for an account
+ */
+export async function withImapClient<T>(
+  accountId: string,
+  fn: (client: ImapClient) => Promise<T>
+): Promise<T> {
+  const client = await openImapClient(accountId)
+  try {
+    return await fn(client)
+  } finally {
+    await client.logout()
+  }
+}
+
+// Why a connection failed, by network error code - shown instead of the server's own text
+const CONNECT_ERROR_REASONS: Record<string, string> = {
+  ETIMEDOUT: 'the server did not respond in time',
+  ECONNREFUSED: 'the connection was refused',
+  ECONNRESET: 'the server closed the connection',
+  ENOTFOUND: 'the server name could not be found',
+  EAI_AGAIN: 'the server name could not be found',
+  EHOSTUNREACH: 'the server could not be reached',
+  ENETUNREACH: 'the server could not be reached',
+}
+
+/**
+ * A message for the user about a failed connection
+ * Never includes text from the server or the socket, which anyone can choose by
+ * entering their own host.
+ */
+function describeConnectError(error: unknown): string {
+  if (error instanceof ImapError && error.status) {
+    return 'the server refused the connection'
+  }
+  const code = (error as { code?: string } | null)?.code ?? ''
+  if (CONNECT_ERROR_REASONS[code]) return CONNECT_ERROR_REASONS[code]
+  if (/^(ERR_TLS_|ERR_SSL_|CERT_|DEPTH_ZERO_|SELF_SIGNED_|UNABLE_TO_)/.test(code)) {
+    return 'the TLS handshake failed - check the security setting and the server certificate'
+  }
+  return 'the connection failed'
+}
+
+/**
+ * Check that the settings log in and the mailbox has an INBOX
+ * Throws an Error with a message meant for the user otherwise.
+ */
+export async function verifyImapSettings(settings: ImapSettings): Promise<void> {
+  let client: ImapClient
+  try {
+    client = await ImapClient.connect(settings)
+  } catch (error) {
+    if (isImapAuthError(error)) {
+      throw new Error('The IMAP server rejected the username or app password')
+    }
+    logger.debug('[IMAP] Connection check failed:', error)
+    throw new Error(
+      `Could not connect to ${settings.host}:${settings.port}: ${describeConnectError(error)}`
+    )
+  }
+
+  let mailboxes: ImapMailbox[]
+  try {
+    mailboxes = await client.list()
+  } catch (error) {
+    logger.debug('[IMAP] Listing mailboxes failed:', error)
+    throw new Error('The IMAP server could not list the mailboxes')
+  } finally {
+    await client.logout()
+  }
+
+  if (!mailboxes.some((mailbox) => mailbox.path.toUpperCase() === 'INBOX')) {
+    throw new Error('The IMAP server did not list an INBOX')
+  }
+}
+
+/**
+ * Connect an IMAP account to a user, or update the settings of an existing one
+ */
+export async function connectImapAccount(
+  userId: string,
+  settings: ImapSettings
+): Promise<{ accountId: string; isNew: boolean; needsSync: boolean }> {
+  const result = await upsertMailAccount(userId, settings.email, 'imap')
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  const values = {
+    host: settings.host,
+    port: settings.port,
+    security: settings.security,
+    username: settings.username,
+    password: encrypt(settings.password),
+  }
+
+  const [existing] = await db
+    .select({ id: tables.imapCredentials.id })
+    .from(tables.imapCredentials)
+    .where(eq(tables.imapCredentials.mailAccountId, result.accountId))
+    .limit(1)
+
+  if (existing) {
+    await db
+      .update(tables.imapCredentials)
+      .set({ ...values, updatedAt: now as Date })
+      .where(eq(tables.imapCredentials.id, existing.id))
+  } else {
+    await db.insert(tables.imapCredentials).values({ mailAccountId: result.accountId, ...values })
+  }
+
+  logger.debug(
+    `[IMAP] ${result.isNew ? 'Connected' : 'Updated'} account ${hashForLog(settings.email)} for user ${hashForLog(userId)}`
+  )
+
+  return result
+}
@@ -0,0 +1,188 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import type { Subprocess } from 'bun'
+import { createUser } from '../auth'
+import { nanoid } from '../../lib/id'
+import type { EmailRecord } from '../emails'
+import { getFreePort, startMockServer } from '../../test/helpers'
+import { connectImapAccount, verifyImapSettings, type ImapSettings } from './account'
+import { imapProvider } from '.'
+
+const MOCK_EMAIL = 'mock.user@example.com'
+const MOCK_PASSWORD = 'app-password'
+const MOCK_MESSAGES = 40
+
+let server: Subprocess
+let controlUrl: string
+let settings: ImapSettings
+let accountId: string
+let cursor: string
+
+interface MockMailboxState {
+  name: string
+  messages: number
+}
+
+async function getMockState(): Promise<MockMailboxState[]> {
+  return (await fetch(`${controlUrl}/mock/state`)).json() as Promise<MockMailboxState[]>
+}
+
+async function mailboxCount(name: string): Promise<number> {
+  return (await getMockState()).find((mailbox) => mailbox.name === name)?.messages ?? 0
+}
+
+function mock(action: string, params: string): Promise<Response> {
+  return fetch(`${controlUrl}/mock/${action}?${params}`, { method: 'POST' })
+}
+
+/**
+ * Fetch changes since the stored cursor and keep the new one
+ */
+async function fetchChanges() {
+  const changes = await imapProvider.fetchChanges(accountId, cursor)
+  cursor = changes.newCursor
+  return changes
+}
+
+beforeAll(async () => {
+  const port = getFreePort()
+  const httpPort = getFreePort()
+  controlUrl = `http://localhost:${httpPort}`
+  server = await startMockServer('mock-imap.ts', [
+    '--port',
+    String(port),
+    '--http-port',
+    String(httpPort),
+    '--messages',
+    String(MOCK_MESSAGES),
+    '--email',
+    MOCK_EMAIL,
+    '--password',
+    MOCK_PASSWORD,
+  ])
+
+  settings = {
+    email: MOCK_EMAIL,
+    host: 'localhost',
+    port,
+    security: 'none',
+    username: MOCK_EMAIL,
+    password: MOCK_PASSWORD,
+  }
+  const user = await createUser({ googleId: nanoid(), email: MOCK_EMAIL })
+  ;({ accountId } = await connectImapAccount(user.id, settings))
+})
+
+afterAll(() => {
+  server.kill()
+})
+
+describe('verifyImapSettings', () => {
+  test('accepts working settings', async () => {
+    await verifyImapSettings(settings)
+  })
+
+  test('reports a rejected password', async () => {
+    await expect(verifyImapSettings({ ...settings, password: 'wrong' })).rejects.toThrow(
+      'The IMAP server rejected the username or app password'
+    )
+  })
+
+  test('reports a refused connection', async () => {
+    const port = getFreePort()
+    await expect(verifyImapSettings({ ...settings, port })).rejects.toThrow(
+      `Could not connect to localhost:${port}: the connection was refused`
+    )
+  })
+
+  test("doesn't repeat what the server said", async () => {
+    const listener = Bun.listen({
+      hostname: 'localhost',
+      port: 0,
+      socket: {
+        open: (socket) => {
+          socket.write('* BYE <script>alert(1)</script> internal-host-10.0.0.5\r\n')
+        },
+        data: () => {},
+      },
+    })
+
+    try {
+      const error = await verifyImapSettings({ ...settings, port: listener.port }).catch(
+        (e: Error) => e
+      )
+      expect(error).toBeInstanceOf(Error)
+      expect((error as Error).message).toBe(
+        `Could not connect to localhost:${listener.port}: the server refused the connection`
+      )
+    } finally {
+      listener.stop(true)
+    }
+  })
+})
+
+describe('IMAP provider', () => {
+  test('full sync lists every message and returns the UID states', async () => {
+    const emails: EmailRecord[] = []
+    let syncCursor: string | undefined
+
+    for await (const page of imapProvider.listMessages(accountId, {})) {
+      emails.push(...page.emails)
+      syncCursor = page.syncCursor ?? syncCursor
+    }
+
+    const total = (await getMockState()).reduce((sum, mailbox) => sum + mailbox.messages, 0)
+    expect(emails).toHaveLength(total)
+    expect(new Set(emails.map((email) => email.message_id)).size).toBe(total)
+    expect(syncCursor).toBeDefined()
+    cursor = syncCursor!
+  })
+
+  test('delta sync returns new and expunged messages', async () => {
+    expect(await fetchChanges()).toMatchObject({ messages: [], messagesDeleted: [] })
+
+    await mock('messages', 'count=2')
+    const added = await fetchChanges()
+    expect(added.messages).toHaveLength(2)
+    for (const email of added.messages) {
+      expect(JSON.parse(email.labels)).toContain('INBOX')
+    }
+
+    await mock('expunge', 'count=1')
+    expect((await fetchChanges()).messagesDeleted).toHaveLength(1)
+  })
+
+  test('trashing moves messages to the Trash mailbox', async () => {
+    await mock('messages', 'count=1')
+    const [email] = (await fetchChanges()).messages
+    const trashBefore = await mailboxCount('Trash')
+
+    const result = await imapProvider.trashMessages(accountId, [email!.message_id, 'missing'])
+
+    expect(result).toEqual({ succeeded: 1, failed: 1, failedIds: ['missing'] })
+    expect(await mailboxCount('Trash')).toBe(trashBefore + 1)
+  })
+
+  test('permanent delete expunges messages', async () => {
+    await mock('messages', 'count=1')
+    const [email] = (await fetchChanges()).messages
+    const inboxBefore = await mailboxCount('INBOX')
+
+    await imapProvider.deleteMessages(accountId, [email!.message_id])
+
+    expect(await mailboxCount('INBOX')).toBe(inboxBefore - 1)
+  })
+
+  test('user labels are mailboxes', async () => {
+    const label = await imapProvider.createLabel(accountId, { name: 'Project X' })
+    expect((await getMockState()).map((mailbox) => mailbox.name)).toContain('Project X')
+
+    await mock('messages', 'count=1')
+    const [email] = (await fetchChanges()).messages
+    const result = await imapProvider.modifyLabels(accountId, [email!.message_id], {
+      addLabelIds: [label.id],
+    })
+
+    expect(result).toEqual({ modified: 1, failed: 0, failedIds: [] })
+    expect(await mailboxCount('Project X')).toBe(1)
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Generic IMAP provider
+ *
+ * Implements the provider interface for any IMAP server, logging in with an
+ * app password. Mailboxes are labels and \Seen / \Flagged are UNREAD / STARRED.
+ * The delta cursor is the JSON object of per-mailbox UID states, produced by
+ * the full sync. IMAP has no server-side filters, so filters aren't supported.
+ */
+
+import { UnsupportedProviderError, type MailProviderClient } from '../providers/types'
+import {
+  getImapQuickStats,
+  listImapMessages,
+  fetchImapChanges,
+  trashImapMessages,
+  archiveImapMessages,
+  permanentlyDeleteImapMessages,
+  untrashImapMessages,
+  modifyImapLabels,
+} from './messages'
+import {
+  listImapLabels,
+  getImapLabel,
+  createImapLabel,
+  updateImapLabel,
+  deleteImapLabel,
+} from './mailboxes'
+
+export {
+  DEFAULT_IMAP_PORTS,
+  verifyImapSettings,
+  connectImapAccount,
+  type ImapSettings,
+} from './account'
+
+export const imapProvider: MailProviderClient = {
+  name: 'imap',
+
+  getQuickStats: getImapQuickStats,
+  listMessages: listImapMessages,
+  getSyncCursor: async () => null,
+  fetchChanges: fetchImapChanges,
+
+  trashMessages: trashImapMessages,
+  archiveMessages: archiveImapMessages,
+  deleteMessages: permanentlyDeleteImapMessages,
+  untrashMessages: untrashImapMessages,
+  modifyLabels: modifyImapLabels,
+
+  listLabels: listImapLabels,
+  getLabel: getImapLabel,
+  createLabel: createImapLabel,
+  updateLabel: updateImapLabel,
+  deleteLabel: deleteImapLabel,
+
+  listFilters: async () => [],
+  getFilter: async () => null,
+  createFilter: async () => {
+    throw new UnsupportedProviderError('Filters', 'imap')
+  },
+  updateFilter: async () => {
+    throw new UnsupportedProviderError('Filters', 'imap')
+  },
+  deleteFilter: async () => {
+    throw new UnsupportedProviderError('Filters', 'imap')
+  },
+}
@@ -0,0 +1,285 @@
+/**
+ * IMAP mailboxes as labels
+ *
+ * Special-use mailboxes (RFC 6154) carry Gmail-style system labels: INBOX,
+ * \Trash -> TRASH, \Junk -> SPAM, \Sent -> SENT, \Drafts -> DRAFT; servers
+ * without SPECIAL-USE are matched by common names. Messages in the Archive
+ * mailbox carry no mailbox label, like archived Gmail messages. Every other
+ * mailbox is a user label whose ID is the mailbox path.
+ *
+ * A message lives in exactly one mailbox, so "adding a label" moves it.
+ */
+
+import { and, eq } from 'drizzle-orm'
+import { db, tables } from '../../db'
+import type { ImapClient } from '../../lib/imap'
+import type { GmailLabel, CreateLabelRequest, UpdateLabelRequest } from '../filters'
+import { logger } from '../../lib/logger'
+import { withImapClient } from './account'
+
+export type SpecialMailbox = 'inbox' | 'trash' | 'junk' | 'sent' | 'drafts' | 'archive'
+
+/**
+ * Special mailboxes and the system label their messages carry
+ */
+export const MAILBOX_LABELS = {
+  inbox: 'INBOX',
+  trash: 'TRASH',
+  junk: 'SPAM',
+  sent: 'SENT',
+  drafts: 'DRAFT',
+} as const
+
+/**
+ * Labels derived from flags rather than mailboxes (\Seen, \Flagged)
+ */
+export const MESSAGE_LABELS = ['UNREAD', 'STARRED'] as const
+
+const SPECIAL_USE_FLAGS: Record<string, SpecialMailbox> = {
+  '\\trash': 'trash',
+  '\\junk': 'junk',
+  '\\sent': 'sent',
+  '\\drafts': 'drafts',
+  '\\archive': 'archive',
+}
+
+// Fallback names (lower-case, without an "INBOX." prefix) for servers without SPECIAL-USE
+const COMMON_NAMES: Record<Exclude<SpecialMailbox, 'inbox'>, string[]> = {
+  trash: ['trash', 'deleted items', 'deleted messages', 'deleted'],
+  junk: ['junk', 'spam', 'junk e-mail', 'junk email', 'bulk mail'],
+  sent: ['sent', 'sent items', 'sent messages', 'sent mail'],
+  drafts: ['drafts', 'draft'],
+  archive: ['archive', 'archives'],
+}
+
+// Virtual mailboxes show messages that also live elsewhere; \Noselect ones hold none
+const SKIPPED_FLAGS = new Set(['\\noselect', '\\nonexistent', '\\all', '\\flagged'])
+
+// Created for archiving when the server has no archive mailbox
+const DEFAULT_ARCHIVE_MAILBOX = 'Archive'
+
+export interface Mailbox {
+  path: string
+  delimiter: string | null
+  special: SpecialMailbox | null
+  /** Label of the mailbox's messages, null for Archive */
+  label: string | null
+}
+
+/**
+ * Label name of a user mailbox: the path with "/" as separator
+ */
+function labelName(mailbox: Mailbox): string {
+  return mailbox.delimiter ? mailbox.path.split(mailbox.delimiter).join('/') : mailbox.path
+}
+
+/**
+ * List the mailboxes that hold messages, with their special use and label
+ */
+export async function listMailboxes(client: ImapClient): Promise<Mailbox[]> {
+  const mailboxes: Mailbox[] = (await client.list())
+    .filter((mailbox) => !mailbox.flags.some((flag) => SKIPPED_FLAGS.has(flag.toLowerCase())))
+    .map((mailbox) => {
+      const special =
+        mailbox.path.toUpperCase() === 'INBOX'
+          ? 'inbox'
+          : mailbox.flags.map((flag) => SPECIAL_USE_FLAGS[flag.toLowerCase()]).find(Boolean) || null
+      return { path: mailbox.path, delimiter: mailbox.delimiter, special, label: null }
+    })
+
+  // Servers without SPECIAL-USE: match the remaining special mailboxes by name
+  for (const [special, names] of Object.entries(COMMON_NAMES) as [SpecialMailbox, string[]][]) {
+    if (mailboxes.some((mailbox) => mailbox.special === special)) continue
+
+    const match = mailboxes.find((mailbox) => {
+      if (mailbox.special) return false
+      const name = mailbox.path.toLowerCase().replace(/^inbox[./]/, '')
+      return names.includes(name)
+    })
+    if (match) match.special = special
+  }
+
+  for (const mailbox of mailboxes) {
+    mailbox.label =
+      mailbox.special === 'archive'
+        ? null
+        : mailbox.special
+          ? MAILBOX_LABELS[mailbox.special]
+          : mailbox.path
+  }
+
+  return mailboxes
+}
+
+/**
+ * Find a special mailbox, creating the archive mailbox when the server has none
+ */
+export async function getSpecialMailbox(
+  client: ImapClient,
+  mailboxes: Mailbox[],
+  special: SpecialMailbox
+): Promise<Mailbox | null> {
+  const mailbox = mailboxes.find((m) => m.special === special)
+  if (mailbox || special !== 'archive') return mailbox || null
+
+  await client.createMailbox(DEFAULT_ARCHIVE_MAILBOX)
+  logger.debug(`[IMAP] Created mailbox "${DEFAULT_ARCHIVE_MAILBOX}" for archiving`)
+
+  const created: Mailbox = {
+    path: DEFAULT_ARCHIVE_MAILBOX,
+    delimiter: getDelimiter(mailboxes),
+    special: 'archive',
+    label: null,
+  }
+  mailboxes.push(created)
+  return created
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+const SYSTEM_LABELS: GmailLabel[] = [...Object.values(MAILBOX_LABELS), ...MESSAGE_LABELS].map(
+  (id) => ({ id, name: id, type: 'system' })
+)
+
+function toLabel(mailbox: Mailbox): GmailLabel {
+  return { id: mailbox.path, name: labelName(mailbox), type: 'user' }
+}
+
+function userMailboxes(mailboxes: Mailbox[]): Mailbox[] {
+  return mailboxes.filter((mailbox) => !mailbox.special)
+}
+
+/**
+ * Mailbox path for a label name ("/" becomes the server's hierarchy delimiter)
+ */
+function toMailboxPath(name: string, mailboxes: Mailbox[]): string {
+  return name.split('/').join(getDelimiter(mailboxes))
+}
+
+function getDelimiter(mailboxes: Mailbox[]): string {
+  return mailboxes.find((m) => m.special === 'inbox')?.delimiter || '/'
+}
+
+/**
+ * List system labels and user mailboxes
+ */
+export async function listImapLabels(accountId: string): Promise<GmailLabel[]> {
+  const mailboxes = await withImapClient(accountId, listMailboxes)
+  return [...SYSTEM_LABELS, ...userMailboxes(mailboxes).map(toLabel)]
+}
+
+/**
+ * Get a label by ID (system label or mailbox path)
+ */
+export async function getImapLabel(accountId: string, labelId: string): Promise<GmailLabel | null> {
+  const systemLabel = SYSTEM_LABELS.find((label) => label.id === labelId)
+  if (systemLabel) return systemLabel
+
+  const mailboxes = await withImapClient(accountId, listMailboxes)
+  const mailbox = userMailboxes(mailboxes).find((m) => m.path === labelId)
+  return mailbox ? toLabel(mailbox) : null
+}
+
+/**
+ * Create a mailbox (colors aren't supported and are ignored)
+ */
+export async function createImapLabel(
+  accountId: string,
+  request: CreateLabelRequest
+): Promise<GmailLabel> {
+  return withImapClient(accountId, async (client) => {
+    const mailboxes = await listMailboxes(client)
+    const path = toMailboxPath(request.name, mailboxes)
+
+    if (mailboxes.some((mailbox) => mailbox.path.toLowerCase() === path.toLowerCase())) {
+      throw new Error(`Mailbox "${request.name}" already exists`)
+    }
+
+    await client.createMailbox(path)
+    logger.debug(`[IMAP] Created mailbox for account ${accountId}`)
+
+    return toLabel({ path, delimiter: getDelimiter(mailboxes), special: null, label: path })
+  })
+}
+
+/**
+ * Rename a mailbox
+ * The label ID is the path, so the renamed label gets a new ID; the message
+ * index follows the rename so the messages keep their IDs.
+ */
+export async function updateImapLabel(
+  accountId: string,
+  labelId: string,
+  request: UpdateLabelRequest
+): Promise<GmailLabel> {
+  return withImapClient(accountId, async (client) => {
+    const mailboxes = await listMailboxes(client)
+    const mailbox = userMailboxes(mailboxes).find((m) => m.path === labelId)
+    if (!mailbox) {
+      throw new Error('Failed to update label: mailbox not found')
+    }
+
+    if (request.name === undefined || request.name === labelName(mailbox)) {
+      return toLabel(mailbox)
+    }
+
+    const newPath = toMailboxPath(request.name, mailboxes)
+    await client.renameMailbox(mailbox.path, newPath)
+
+    // Child mailboxes move along
+    const prefix = mailbox.delimiter ? `${mailbox.path}${mailbox.delimiter}` : null
+    const renamed = mailboxes.filter(
+      (m) => m.path === mailbox.path || (prefix && m.path.startsWith(prefix))
+    )
+    for (const { path } of renamed) {
+      await db
+        .update(tables.imapMessages)
+        .set({ mailbox: newPath + path.slice(mailbox.path.length) })
+        .where(
+          and(
+            eq(tables.imapMessages.mailAccountId, accountId),
+            eq(tables.imapMessages.mailbox, path)
+          )
+        )
+    }
+
+    logger.debug(`[IMAP] Renamed mailbox for account ${accountId}`)
+    return toLabel({ ...mailbox, path: newPath, label: newPath })
+  })
+}
+
+/**
+ * Delete a mailbox
+ * IMAP deletes a mailbox together with its messages, so only empty mailboxes
+ * can be deleted (child mailboxes are kept by the server).
+ */
+export async function deleteImapLabel(accountId: string, labelId: string): Promise<void> {
+  const [indexed] = await db
+    .select({ id: tables.imapMessages.id })
+    .from(tables.imapMessages)
+    .where(
+      and(
+        eq(tables.imapMessages.mailAccountId, accountId),
+        eq(tables.imapMessages.mailbox, labelId)
+      )
+    )
+    .limit(1)
+
+  await withImapClient(accountId, async (client) => {
+    const mailboxes = await listMailboxes(client)
+    const mailbox = userMailboxes(mailboxes).find((m) => m.path === labelId)
+    if (!mailbox) return
+
+    const { MESSAGES: count } = await client.status(mailbox.path, ['MESSAGES'])
+    if (indexed || count) {
+      throw new Error(
+        `Mailbox "${labelName(mailbox)}" still holds messages. Move them out before deleting it.`
+      )
+    }
+
+    await client.deleteMailbox(mailbox.path)
+    logger.debug(`[IMAP] Deleted mailbox for account ${accountId}`)
+  })
+}
@@ -0,0 +1,1072 @@
+/**
+ * IMAP messages
+ *
+ * Sync and message actions for IMAP mailboxes.
+ *
+ * Like Outlook, the sync cursor holds one entry per mailbox: its UIDVALIDITY,
+ * UIDNEXT and (with CONDSTORE) HIGHESTMODSEQ. A delta sync fetches the UIDs
+ * from UIDNEXT on as new messages and asks for flag changes since
+ * HIGHESTMODSEQ; with QRESYNC the same FETCH also reports expunged UIDs
+ * (VANISHED), otherwise they are found by comparing the mailbox's UIDs with
+ * imap_messages. Servers without CONDSTORE get all flags compared.
+ *
+ * A message's ID is assigned when it is first seen and kept in imap_messages
+ * together with its mailbox and UID. Moves keep the ID: our own moves update
+ * the index from the COPYUID response, other moves are recognized by the
+ * Message-ID header (gone from one mailbox, new in another).
+ */
+
+import { and, eq, inArray, lt, sql } from 'drizzle-orm'
+import { db, tables } from '../../db'
+import type { ImapMessage, NewImapMessage } from '../../db'
+import type { EmailRecord, AttachmentMeta } from '../emails'
+import type { MailChanges } from '../providers/types'
+import { parseAddressList, parseListId, parseUnsubscribeHeader } from '../gmail'
+import { decodeCharset, decodeEncodedWords, getHeader } from '../../lib/mbox'
+import {
+  toSequenceSet,
+  type ImapClient,
+  type ImapFetchResult,
+  type ImapSelectResult,
+  type ImapValue,
+} from '../../lib/imap'
+import { nanoid } from '../../lib/id'
+import { logger } from '../../lib/logger'
+import { openImapClient, withImapClient } from './account'
+import {
+  listMailboxes,
+  getSpecialMailbox,
+  MAILBOX_LABELS,
+  MESSAGE_LABELS,
+  type Mailbox,
+  type SpecialMailbox,
+} from './mailboxes'
+
+// Messages per UID FETCH, which is also the full sync page size
+const FETCH_BATCH_SIZE = 200
+
+// Values per IN (...) query on imap_messages
+const INDEX_QUERY_BATCH_SIZE = 500
+
+// Headers that aren't part of ENVELOPE
+const HEADER_FIELDS = [
+  'LIST-UNSUBSCRIBE',
+  'LIST-UNSUBSCRIBE-POST',
+  'LIST-ID',
+  'DELIVERED-TO',
+  'REFERENCES',
+]
+
+const MESSAGE_ITEMS =
+  'UID FLAGS INTERNALDATE RFC822.SIZE ENVELOPE BODYSTRUCTURE ' +
+  `BODY.PEEK[HEADER.FIELDS (${HEADER_FIELDS.join(' ')})]`
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface MailboxState {
+  uidValidity: number
+  uidNext: number
+  highestModSeq: string | null
+}
+
+/**
+ * Delta cursor: state of every mailbox at the last sync, by path
+ */
+type SyncCursor = Record<string, MailboxState>
+
+/**
+ * Full sync progress, stored as the sync job's page token
+ */
+interface FullSyncState {
+  /** Mailboxes still to list, the current one first */
+  mailboxes: string[]
+  /** State of the current mailbox when its listing started */
+  current: MailboxState | null
+  /** Last UID listed in the current mailbox */
+  lastUid: number
+  /** States of the mailboxes already listed */
+  cursor: SyncCursor
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function str(value: ImapValue | undefined): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+function getFlags(message: ImapFetchResult): string[] {
+  const flags = message.items.FLAGS
+  return Array.isArray(flags)
+    ? flags.filter((flag): flag is string => typeof flag === 'string')
+    : []
+}
+
+/**
+ * Flags as stored in imap_messages
+ */
+function serializeFlags(flags: string[]): string {
+  return [...new Set(flags)].sort().join(' ')
+}
+
+/**
+ * Labels of a message: its mailbox's label, UNREAD and STARRED
+ */
+function getMessageLabels(mailboxLabel: string | null, flags: string[]): string[] {
+  const set = new Set(flags.map((flag) => flag.toLowerCase()))
+  const labels: string[] = []
+
+  if (mailboxLabel) labels.push(mailboxLabel)
+  if (!set.has('\\seen')) labels.push('UNREAD')
+  if (set.has('\\flagged')) labels.push('STARRED')
+
+  return labels
+}
+
+/**
+ * Addresses of an ENVELOPE address list (group markers skipped)
+ */
+function parseAddresses(value: ImapValue | undefined): { name: string | null; email: string }[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((address) => {
+    if (!Array.isArray(address)) return []
+    const [name, , mailbox, host] = address.map(str)
+    if (!mailbox || !host) return []
+    return [
+      { name: name ? decodeEncodedWords(name) : null, email: `${mailbox}@${host}`.toLowerCase() },
+    ]
+  })
+}
+
+/**
+ * "<abc@example.com>" -> "abc@example.com"
+ */
+function normalizeMessageId(value: string | null): string | null {
+  if (!value) return null
+  const match = /<([^<>]+)>/.exec(value)
+  return (match?.[1] ?? value).trim().toLowerCase() || null
+}
+
+/**
+ * Parse an INTERNALDATE ("17-Jul-1996 02:44:25 -0700") to epoch ms, 0 when invalid
+ */
+function parseInternalDate(value: string | null): number {
+  const match = /^\s*(\d{1,2})-(\w{3})-(\d{4}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/.exec(
+    value || ''
+  )
+  if (!match) return 0
+
+  const [, day, month, year, hours, minutes, seconds, sign, zoneHours, zoneMinutes] = match
+  const offset = (parseInt(zoneHours!, 10) * 60 + parseInt(zoneMinutes!, 10)) * 60_000
+  const utc = Date.UTC(
+    parseInt(year!, 10),
+    MONTHS.indexOf(month!.toLowerCase()),
+    parseInt(day!, 10),
+    parseInt(hours!, 10),
+    parseInt(minutes!, 10),
+    parseInt(seconds!, 10)
+  )
+
+  return sign === '+' ? utc - offset : utc + offset
+}
+
+function toParams(value: ImapValue | undefined): Record<string, string> {
+  const params: Record<string, string> = {}
+  if (!Array.isArray(value)) return params
+
+  for (let i = 0; i + 1 < value.length; i += 2) {
+    const name = str(value[i])
+    const paramValue = str(value[i + 1])
+    if (name && paramValue !== null) params[name.toLowerCase()] = paramValue
+  }
+  return params
+}
+
+/**
+ * File name from Content-Disposition / Content-Type parameters
+ * Handles RFC 2231 (filename*=utf-8''...) and RFC 2047 encoded names.
+ */
+function getFilename(params: Record<string, string>): string | null {
+  const extended = params['filename*'] ?? params['name*']
+  const parts = extended ? /^([^']*)'[^']*'(.*)$/.exec(extended) : null
+
+  if (parts) {
+    const bytes = Buffer.from(
+      parts[2]!.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+      ),
+      'latin1'
+    )
+    return decodeCharset(bytes, parts[1] || 'utf-8')
+  }
+
+  const name = params.filename ?? params.name
+  return name ? decodeEncodedWords(name) : null
+}
+
+/**
+ * Collect attachments from a BODYSTRUCTURE
+ * A part is an attachment when its disposition says so, or when it has a file
+ * name and isn't inline. Forwarded messages count as attachments.
+ */
+function collectAttachments(part: ImapValue | undefined, attachments: AttachmentMeta[]): void {
+  if (!Array.isArray(part)) return
+
+  if (Array.isArray(part[0])) {
+    // Multipart: the child parts, then the subtype and extension data
+    for (const child of part) {
+      if (!Array.isArray(child)) break
+      collectAttachments(child, attachments)
+    }
+    return
+  }
+
+  const type = (str(part[0]) || 'application').toLowerCase()
+  const subtype = (str(part[1]) || 'octet-stream').toLowerCase()
+  const encoding = (str(part[5]) || '').toLowerCase()
+  const octets = parseInt(str(part[6]) || '0', 10) || 0
+  const isMessage = type === 'message' && subtype === 'rfc822'
+
+  // Extension data (md5, disposition) follows the line count of text parts
+  // and the envelope, body and line count of message parts
+  const disposition = part[8 + (type === 'text' ? 1 : isMessage ? 3 : 0)]
+  const dispositionType = Array.isArray(disposition) ? str(disposition[0])?.toLowerCase() : null
+  const filename = getFilename({
+    ...toParams(part[2]),
+    ...(Array.isArray(disposition) ? toParams(disposition[1]) : {}),
+  })
+
+  if (dispositionType === 'inline' || (!filename && dispositionType !== 'attachment')) return
+
+  attachments.push({
+    filename: filename || (isMessage ? 'message.eml' : 'attachment'),
+    mimeType: `${type}/${subtype}`,
+    // base64 takes 78 bytes (76 characters + CRLF) per 57 bytes of content
+    size: encoding === 'base64' ? Math.floor((octets * 57) / 78) : octets,
+  })
+}
+
+function getHeaderBlock(message: ImapFetchResult): Buffer {
+  const key = Object.keys(message.items).find((name) => name.startsWith('BODY[HEADER'))
+  return Buffer.from((key && str(message.items[key])) || '', 'utf8')
+}
+
+function getEnvelope(message: ImapFetchResult): ImapValue[] {
+  const envelope = message.items.ENVELOPE
+  return Array.isArray(envelope) ? envelope : []
+}
+
+/**
+ * Message-ID header of a fetched message (normalized)
+ */
+function getHeaderMessageId(message: ImapFetchResult): string | null {
+  return normalizeMessageId(str(getEnvelope(message)[9]))
+}
+
+/**
+ * Convert a fetched message into an EmailRecord
+ */
+function toEmailRecord(
+  messageId: string,
+  message: ImapFetchResult,
+  mailboxLabel: string | null
+): EmailRecord {
+  const envelope = getEnvelope(message)
+  const headers = getHeaderBlock(message)
+  const labels = getMessageLabels(mailboxLabel, getFlags(message))
+
+  const attachments: AttachmentMeta[] = []
+  collectAttachments(message.items.BODYSTRUCTURE, attachments)
+
+  const from = parseAddresses(envelope[2])[0]
+  const replyTo = parseAddresses(envelope[4])[0]?.email
+  const toEmails = [...new Set(parseAddresses(envelope[5]).map((address) => address.email))]
+  const ccEmails = [...new Set(parseAddresses(envelope[6]).map((address) => address.email))]
+  const subject = str(envelope[1])
+  const unsubscribeHeader = getHeader(headers, 'List-Unsubscribe')
+
+  // Conversations are grouped by the first message they reference
+  const threadRoot =
+    normalizeMessageId(getHeader(headers, 'References')) ||
+    normalizeMessageId(str(envelope[8])) ||
+    getHeaderMessageId(message)
+
+  return {
+    message_id: messageId,
+    thread_id: threadRoot || messageId,
+    subject: subject ? decodeEncodedWords(subject) : null,
+    snippet: null,
+    from_email: from?.email || 'unknown@unknown.com',
+    from_name: from?.name || null,
+    labels: JSON.stringify(labels),
+    category: ['SENT', 'SPAM', 'TRASH'].find((label) => labels.includes(label)) || null,
+    size_bytes: parseInt(str(message.items['RFC822.SIZE']) || '0', 10) || 0,
+    has_attachments: attachments.length,
+    attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
+    is_unread: labels.includes('UNREAD') ? 1 : 0,
+    is_starred: labels.includes('STARRED') ? 1 : 0,
+    is_trash: labels.includes('TRASH') ? 1 : 0,
+    is_spam: labels.includes('SPAM') ? 1 : 0,
+    is_important: 0,
+    internal_date:
+      parseInternalDate(str(message.items.INTERNALDATE)) || Date.parse(str(envelope[0]) || '') || 0,
+    synced_at: Date.now(),
+    unsubscribe_link: parseUnsubscribeHeader(unsubscribeHeader),
+    list_unsubscribe: unsubscribeHeader,
+    list_unsubscribe_post: getHeader(headers, 'List-Unsubscribe-Post'),
+    to_emails: toEmails.length > 0 ? JSON.stringify(toEmails) : null,
+    cc_emails: ccEmails.length > 0 ? JSON.stringify(ccEmails) : null,
+    delivered_to: parseAddressList(getHeader(headers, 'Delivered-To'))[0] ?? null,
+    // ENVELOPE falls back to From when there is no Reply-To header
+    reply_to: replyTo && replyTo !== from?.email ? replyTo : null,
+    list_id: parseListId(getHeader(headers, 'List-Id')),
+  }
+}
+
+// ============================================================================
+// Message index (imap_messages)
+// ============================================================================
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * Index rows of a mailbox, optionally only for some UIDs
+ */
+async function getIndexRows(
+  accountId: string,
+  mailbox: string,
+  uids?: number[]
+): Promise<ImapMessage[]> {
+  const where = and(
+    eq(tables.imapMessages.mailAccountId, accountId),
+    eq(tables.imapMessages.mailbox, mailbox)
+  )
+
+  if (!uids) {
+    return db.select().from(tables.imapMessages).where(where)
+  }
+
+  const rows: ImapMessage[] = []
+  for (const batch of chunk(uids, INDEX_QUERY_BATCH_SIZE)) {
+    rows.push(
+      ...(await db
+        .select()
+        .from(tables.imapMessages)
+        .where(and(where, inArray(tables.imapMessages.uid, batch))))
+    )
+  }
+  return rows
+}
+
+/**
+ * Index rows of messages by message ID
+ */
+async function getIndexRowsByMessageId(
+  accountId: string,
+  messageIds: string[]
+): Promise<ImapMessage[]> {
+  const rows: ImapMessage[] = []
+  for (const batch of chunk(messageIds, INDEX_QUERY_BATCH_SIZE)) {
+    rows.push(
+      ...(await db
+        .select()
+        .from(tables.imapMessages)
+        .where(
+          and(
+            eq(tables.imapMessages.mailAccountId, accountId),
+            inArray(tables.imapMessages.messageId, batch)
+          )
+        ))
+    )
+  }
+  return rows
+}
+
+async function saveIndexRows(rows: NewImapMessage[]): Promise<void> {
+  for (const batch of chunk(rows, INDEX_QUERY_BATCH_SIZE)) {
+    await db
+      .insert(tables.imapMessages)
+      .values(batch)
+      .onConflictDoUpdate({
+        target: [
+          tables.imapMessages.mailAccountId,
+          tables.imapMessages.mailbox,
+          tables.imapMessages.uid,
+        ],
+        set: {
+          messageId: sql`excluded.message_id`,
+          flags: sql`excluded.flags`,
+          headerMessageId: sql`excluded.header_message_id`,
+        },
+      })
+  }
+}
+
+async function deleteIndexRows(rowIds: string[]): Promise<void> {
+  for (const batch of chunk(rowIds, INDEX_QUERY_BATCH_SIZE)) {
+    await db.delete(tables.imapMessages).where(inArray(tables.imapMessages.id, batch))
+  }
+}
+
+function toIndexRow(
+  accountId: string,
+  mailbox: string,
+  messageId: string,
+  message: ImapFetchResult
+): NewImapMessage {
+  return {
+    mailAccountId: accountId,
+    messageId,
+    mailbox,
+    uid: message.uid,
+    flags: serializeFlags(getFlags(message)),
+    headerMessageId: getHeaderMessageId(message),
+  }
+}
+
+function groupByMailbox(rows: ImapMessage[]): Map<string, ImapMessage[]> {
+  const groups = new Map<string, ImapMessage[]>()
+  for (const row of rows) {
+    groups.set(row.mailbox, [...(groups.get(row.mailbox) || []), row])
+  }
+  return groups
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Fetch messages of the selected mailbox in batches
+ */
+async function fetchMessages(client: ImapClient, uids: number[]): Promise<ImapFetchResult[]> {
+  const messages: ImapFetchResult[] = []
+  for (const batch of chunk(uids, FETCH_BATCH_SIZE)) {
+    const result = await client.uidFetch(toSequenceSet(batch), MESSAGE_ITEMS)
+    messages.push(...result.messages)
+  }
+  return messages.sort((a, b) => a.uid - b.uid)
+}
+
+/**
+ * UIDs of the selected mailbox from a UID on
+ * ("n:*" always matches the last message, even below n)
+ */
+async function searchUidsFrom(
+  client: ImapClient,
+  selected: ImapSelectResult,
+  fromUid: number
+): Promise<number[]> {
+  if (selected.exists === 0) return []
+  const uids = await client.uidSearch(`UID ${fromUid}:*`)
+  return uids.filter((uid) => uid >= fromUid).sort((a, b) => a - b)
+}
+
+function toMailboxState(selected: ImapSelectResult, lastUid: number): MailboxState {
+  return {
+    uidValidity: selected.uidValidity,
+    // Some servers leave out UIDNEXT
+    uidNext: Math.max(selected.uidNext, lastUid + 1),
+    highestModSeq: selected.highestModSeq,
+  }
+}
+
+/**
+ * Total messages across all mailboxes (the sync job's total)
+ */
+export async function getImapQuickStats(accountId: string): Promise<{ total: number }> {
+  return withImapClient(accountId, async (client) => {
+    const mailboxes = await listMailboxes(client)
+    let total = 0
+    for (const mailbox of mailboxes) {
+      total += (await client.status(mailbox.path, ['MESSAGES'])).MESSAGES || 0
+    }
+
+    logger.debug(`[IMAP] Quick stats: ${mailboxes.length} mailboxes, total=${total}`)
+    return { total }
+  })
+}
+
+/**
+ * List all messages mailbox by mailbox (full sync)
+ *
+ * The page token is the JSON-encoded FullSyncState, so a paused sync resumes
+ * inside the mailbox it stopped in. The last page carries the sync cursor.
+ */
+export async function* listImapMessages(
+  accountId: string,
+  options: { pageToken?: string } = {}
+): AsyncGenerator<{
+  emails: EmailRecord[]
+  count: number
+  nextPageToken: string | null
+  syncCursor?: string
+}> {
+  const client = await openImapClient(accountId)
+
+  try {
+    const mailboxes = await listMailboxes(client)
+    const labels = new Map(mailboxes.map((mailbox) => [mailbox.path, mailbox.label]))
+
+    let state: FullSyncState
+    if (options.pageToken) {
+      state = JSON.parse(options.pageToken) as FullSyncState
+    } else {
+      // A fresh sync starts with a fresh index
+      await db.delete(tables.imapMessages).where(eq(tables.imapMessages.mailAccountId, accountId))
+      state = {
+        mailboxes: mailboxes.map((mailbox) => mailbox.path),
+        current: null,
+        lastUid: 0,
+        cursor: {},
+      }
+    }
+
+    while (state.mailboxes.length > 0) {
+      const [path, ...remaining] = state.mailboxes as [string, ...string[]]
+      let uids: number[] = []
+      let current: MailboxState | null = null
+
+      // Mailboxes deleted during the sync are skipped
+      if (labels.has(path)) {
+        const selected = await client.select(path, { readOnly: true })
+        current = state.current
+
+        if (!current || current.uidValidity !== selected.uidValidity) {
+          // UIDVALIDITY changed while paused: the mailbox starts over
+          if (current) {
+            const rows = await getIndexRows(accountId, path)
+            await deleteIndexRows(rows.map((row) => row.id))
+          }
+          current = toMailboxState(selected, 0)
+          state = { ...state, lastUid: 0 }
+        }
+
+        uids = await searchUidsFrom(client, selected, state.lastUid + 1)
+      }
+
+      const batches = uids.length > 0 ? chunk(uids, FETCH_BATCH_SIZE) : [[]]
+      for (const [index, batch] of batches.entries()) {
+        const messages = batch.length > 0 ? await fetchMessages(client, batch) : []
+        const known = new Map(
+          (await getIndexRows(accountId, path, batch)).map((row) => [row.uid, row.messageId])
+        )
+
+        const rows = messages.map((message) =>
+          toIndexRow(accountId, path, known.get(message.uid) || nanoid(), message)
+        )
+        await saveIndexRows(rows)
+
+        const emails = messages.map((message, i) =>
+          toEmailRecord(rows[i]!.messageId, message, labels.get(path) ?? null)
+        )
+
+        const lastUid = batch[batch.length - 1] ?? state.lastUid
+        const isLastBatch = index === batches.length - 1
+        state =
+          isLastBatch && current
+            ? {
+                mailboxes: remaining,
+                current: null,
+                lastUid: 0,
+                cursor: {
+                  ...state.cursor,
+                  [path]: { ...current, uidNext: Math.max(current.uidNext, lastUid + 1) },
+                },
+              }
+            : isLastBatch
+              ? { ...state, mailboxes: remaining, current: null, lastUid: 0 }
+              : { ...state, current, lastUid }
+
+        const done = state.mailboxes.length === 0
+        yield {
+          emails,
+          count: batch.length,
+          nextPageToken: done ? null : JSON.stringify(state),
+          ...(done && { syncCursor: JSON.stringify(state.cursor) }),
+        }
+      }
+    }
+  } finally {
+    await client.logout()
+  }
+}
+
+/**
+ * Changes of one mailbox since its state in the cursor
+ */
+interface MailboxChanges {
+  /** New messages (and messages moved in), fetched in full */
+  added: ImapFetchResult[]
+  /** Known messages that are gone */
+  vanished: ImapMessage[]
+  /** Known messages with new flags */
+  flagged: { row: ImapMessage; flags: string[] }[]
+  state: MailboxState
+}
+
+/**
+ * Find what changed in a mailbox (selected read-only)
+ */
+async function getMailboxChanges(
+  client: ImapClient,
+  accountId: string,
+  mailbox: Mailbox,
+  previous: MailboxState | undefined
+): Promise<MailboxChanges> {
+  const selected = await client.select(mailbox.path, { readOnly: true })
+
+  // New mailbox, or UIDVALIDITY changed: every message is new, every known one gone
+  if (!previous || previous.uidValidity !== selected.uidValidity) {
+    const uids = await searchUidsFrom(client, selected, 1)
+    return {
+      added: await fetchMessages(client, uids),
+      vanished: previous ? await getIndexRows(accountId, mailbox.path) : [],
+      flagged: [],
+      state: toMailboxState(selected, uids[uids.length - 1] ?? 0),
+    }
+  }
+
+  const newUids = await searchUidsFrom(client, selected, previous.uidNext)
+  const added = await fetchMessages(client, newUids)
+  const state = toMailboxState(selected, Math.max(previous.uidNext - 1, ...newUids))
+
+  const knownCount = selected.exists - newUids.length
+  if (previous.uidNext <= 1) {
+    return { added, vanished: [], flagged: [], state }
+  }
+  if (knownCount <= 0) {
+    return { added, vanished: await getIndexRows(accountId, mailbox.path), flagged: [], state }
+  }
+
+  const knownSet = `1:${previous.uidNext - 1}`
+  const changed = new Map<number, string[]>()
+  let vanishedUids: number[] | null = null
+
+  if (previous.highestModSeq && selected.highestModSeq) {
+    // CONDSTORE: only messages whose flags changed; QRESYNC adds the expunged UIDs
+    const qresync = client.isEnabled('QRESYNC')
+    if (selected.highestModSeq !== previous.highestModSeq) {
+      const result = await client.uidFetch(
+        knownSet,
+        'UID FLAGS',
+        `CHANGEDSINCE ${previous.highestModSeq}${qresync ? ' VANISHED' : ''}`
+      )
+      result.messages.forEach((message) => changed.set(message.uid, getFlags(message)))
+      if (qresync) vanishedUids = result.vanished
+    } else if (qresync) {
+      vanishedUids = []
+    }
+  } else {
+    // No CONDSTORE: compare all flags
+    const result = await client.uidFetch(knownSet, 'UID FLAGS')
+    result.messages.forEach((message) => changed.set(message.uid, getFlags(message)))
+  }
+
+  const changedRows = await getIndexRows(accountId, mailbox.path, [...changed.keys()])
+  const flagged = changedRows
+    .filter((row) => row.flags !== serializeFlags(changed.get(row.uid)!))
+    .map((row) => ({ row, flags: changed.get(row.uid)! }))
+
+  let vanished: ImapMessage[] = []
+  if (vanishedUids) {
+    vanished = await getIndexRows(accountId, mailbox.path, vanishedUids)
+  } else {
+    // Without QRESYNC, only look for expunged messages when the count went down
+    const [indexed] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(tables.imapMessages)
+      .where(
+        and(
+          eq(tables.imapMessages.mailAccountId, accountId),
+          eq(tables.imapMessages.mailbox, mailbox.path),
+          lt(tables.imapMessages.uid, previous.uidNext)
+        )
+      )
+
+    if (Number(indexed?.count || 0) > knownCount) {
+      const current = new Set(
+        changed.size === knownCount ? changed.keys() : await client.uidSearch(`UID ${knownSet}`)
+      )
+      vanished = (await getIndexRows(accountId, mailbox.path)).filter(
+        (row) => row.uid < previous.uidNext && !current.has(row.uid)
+      )
+    }
+  }
+
+  return { added, vanished, flagged, state }
+}
+
+/**
+ * Fetch changes since the stored mailbox states
+ *
+ * Mailboxes created since the last sync are listed in full; messages of
+ * deleted mailboxes count as gone unless they show up elsewhere.
+ */
+export async function fetchImapChanges(accountId: string, cursor: string): Promise<MailChanges> {
+  let previous: SyncCursor
+  try {
+    previous = JSON.parse(cursor) as SyncCursor
+  } catch {
+    throw new Error('HISTORY_EXPIRED')
+  }
+
+  return withImapClient(accountId, async (client) => {
+    await client.enable('QRESYNC')
+    const mailboxes = await listMailboxes(client)
+
+    const newCursor: SyncCursor = {}
+    const added: { mailbox: Mailbox; message: ImapFetchResult }[] = []
+    const vanished: ImapMessage[] = []
+    const labelsChanged = new Map<string, { added: string[]; removed: string[] }>()
+    const flagUpdates: { id: string; flags: string }[] = []
+
+    for (const path of Object.keys(previous)) {
+      if (!mailboxes.some((mailbox) => mailbox.path === path)) {
+        vanished.push(...(await getIndexRows(accountId, path)))
+      }
+    }
+
+    for (const mailbox of mailboxes) {
+      const changes = await getMailboxChanges(client, accountId, mailbox, previous[mailbox.path])
+      newCursor[mailbox.path] = changes.state
+      vanished.push(...changes.vanished)
+      added.push(...changes.added.map((message) => ({ mailbox, message })))
+
+      for (const { row, flags } of changes.flagged) {
+        const before = getMessageLabels(null, row.flags.split(' '))
+        const after = getMessageLabels(null, flags)
+        labelsChanged.set(row.messageId, {
+          added: after.filter((label) => !before.includes(label)),
+          removed: before.filter((label) => !after.includes(label)),
+        })
+        flagUpdates.push({ id: row.id, flags: serializeFlags(flags) })
+      }
+    }
+
+    // Messages moved by other clients: gone from one mailbox, new in another
+    const vanishedByHeader = new Map<string, ImapMessage[]>()
+    for (const row of vanished) {
+      if (!row.headerMessageId) continue
+      vanishedByHeader.set(row.headerMessageId, [
+        ...(vanishedByHeader.get(row.headerMessageId) || []),
+        row,
+      ])
+    }
+
+    const vanishedIds = new Set(vanished.map((row) => row.id))
+    const moved = new Set<string>()
+    const messages: EmailRecord[] = []
+    const rows: NewImapMessage[] = []
+
+    const addedByMailbox = new Map<Mailbox, ImapFetchResult[]>()
+    for (const { mailbox, message } of added) {
+      addedByMailbox.set(mailbox, [...(addedByMailbox.get(mailbox) || []), message])
+    }
+
+    for (const [mailbox, fetched] of addedByMailbox) {
+      // Our own moves already updated the index; rows that are gone (e.g. after
+      // a UIDVALIDITY change) may share a UID with a new message
+      const indexed = await getIndexRows(
+        accountId,
+        mailbox.path,
+        fetched.map((message) => message.uid)
+      )
+      const known = new Map(
+        indexed.filter((row) => !vanishedIds.has(row.id)).map((row) => [row.uid, row.messageId])
+      )
+
+      for (const message of fetched) {
+        let messageId = known.get(message.uid)
+        const header = getHeaderMessageId(message)
+
+        if (!messageId && header) {
+          const match = vanishedByHeader.get(header)?.shift()
+          if (match) {
+            messageId = match.messageId
+            moved.add(match.id)
+          }
+        }
+
+        messageId ||= nanoid()
+        rows.push(toIndexRow(accountId, mailbox.path, messageId, message))
+        messages.push(toEmailRecord(messageId, message, mailbox.label))
+      }
+    }
+
+    const messagesDeleted = vanished.filter((row) => !moved.has(row.id)).map((row) => row.messageId)
+
+    await deleteIndexRows(vanished.map((row) => row.id))
+    await saveIndexRows(rows)
+    for (const { id, flags } of flagUpdates) {
+      await db.update(tables.imapMessages).set({ flags }).where(eq(tables.imapMessages.id, id))
+    }
+
+    logger.debug(
+      `[IMAP] Delta changes: ${messages.length} added or moved, ${messagesDeleted.length} deleted, ${labelsChanged.size} flag changes`
+    )
+
+    return {
+      messages,
+      messagesDeleted,
+      labelsChanged,
+      newCursor: JSON.stringify(newCursor),
+    }
+  })
+}
+
+// ============================================================================
+// Message Actions
+// ============================================================================
+
+/**
+ * Move messages to a mailbox and keep the index in step
+ * Messages already in the destination count as moved. Without COPYUID the
+ * index keeps the old location until the next delta sync matches them up.
+ */
+async function moveRows(
+  client: ImapClient,
+  rows: ImapMessage[],
+  destination: Mailbox
+): Promise<{ moved: ImapMessage[]; failed: ImapMessage[] }> {
+  const moved: ImapMessage[] = []
+  const failed: ImapMessage[] = []
+
+  for (const [mailbox, group] of groupByMailbox(rows)) {
+    if (mailbox === destination.path) {
+      moved.push(...group)
+      continue
+    }
+
+    try {
+      await client.select(mailbox)
+      const newUids = await client.uidMove(
+        group.map((row) => row.uid),
+        destination.path
+      )
+
+      for (const row of group) {
+        const uid = newUids.get(row.uid)
+        if (uid) {
+          await db
+            .update(tables.imapMessages)
+            .set({ mailbox: destination.path, uid })
+            .where(eq(tables.imapMessages.id, row.id))
+        }
+      }
+      moved.push(...group)
+    } catch (error) {
+      logger.error(`[IMAP] Failed to move ${group.length} messages:`, error)
+      failed.push(...group)
+    }
+  }
+
+  return { moved, failed }
+}
+
+/**
+ * Move messages to a special mailbox
+ * Messages missing from the index, or whose move failed, are left out of moved.
+ */
+async function moveToSpecialMailbox(
+  accountId: string,
+  messageIds: string[],
+  special: SpecialMailbox
+): Promise<{ moved: ImapMessage[] }> {
+  if (messageIds.length === 0) return { moved: [] }
+
+  const rows = await getIndexRowsByMessageId(accountId, messageIds)
+
+  return withImapClient(accountId, async (client) => {
+    const destination = await getSpecialMailbox(client, await listMailboxes(client), special)
+    if (!destination) {
+      throw new Error(`The IMAP server has no ${special} mailbox`)
+    }
+
+    const { moved } = await moveRows(client, rows, destination)
+    return { moved }
+  })
+}
+
+/**
+ * Move messages to the Trash mailbox
+ */
+export async function trashImapMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{ succeeded: number; failed: number; failedIds: string[] }> {
+  const { moved } = await moveToSpecialMailbox(accountId, messageIds, 'trash')
+  const movedIds = new Set(moved.map((row) => row.messageId))
+  const failedIds = messageIds.filter((id) => !movedIds.has(id))
+  return { succeeded: moved.length, failed: failedIds.length, failedIds }
+}
+
+/**
+ * Move messages to the Archive mailbox (created when missing)
+ */
+export async function archiveImapMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{ succeeded: number; failed: number; failedIds: string[] }> {
+  const { moved } = await moveToSpecialMailbox(accountId, messageIds, 'archive')
+  const movedIds = new Set(moved.map((row) => row.messageId))
+  const failedIds = messageIds.filter((id) => !movedIds.has(id))
+  return { succeeded: moved.length, failed: failedIds.length, failedIds }
+}
+
+/**
+ * Move messages from Trash back to the Inbox
+ */
+export async function untrashImapMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{ restored: { messageId: string; labelIds: string[] }[]; failed: string[] }> {
+  const { moved } = await moveToSpecialMailbox(accountId, messageIds, 'inbox')
+  const restoredIds = new Set(moved.map((row) => row.messageId))
+
+  return {
+    restored: moved.map((row) => ({
+      messageId: row.messageId,
+      labelIds: getMessageLabels(MAILBOX_LABELS.inbox, row.flags.split(' ')),
+    })),
+    failed: messageIds.filter((id) => !restoredIds.has(id)),
+  }
+}
+
+/**
+ * Permanently delete messages (\Deleted + expunge, skipping Trash)
+ * Max 1000 messages per call. Messages that are already gone count as deleted.
+ */
+export async function permanentlyDeleteImapMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<void> {
+  if (messageIds.length === 0) return
+  if (messageIds.length > 1000) {
+    throw new Error('Cannot delete more than 1000 messages at once')
+  }
+
+  const rows = await getIndexRowsByMessageId(accountId, messageIds)
+  if (rows.length === 0) return
+
+  await withImapClient(accountId, async (client) => {
+    for (const [mailbox, group] of groupByMailbox(rows)) {
+      const uids = group.map((row) => row.uid)
+      await client.select(mailbox)
+      await client.uidStore(toSequenceSet(uids), '+FLAGS', ['\\Deleted'])
+      await client.uidExpunge(uids)
+      await deleteIndexRows(group.map((row) => row.id))
+    }
+  })
+}
+
+/**
+ * Mailbox a group of messages moves to for a label change, null to stay
+ *
+ * Adding TRASH, SPAM, INBOX or a user label moves there. Removing the label
+ * of the messages' current mailbox archives them (INBOX, user labels) or
+ * brings them back to the Inbox (TRASH, SPAM).
+ */
+function getDestination(
+  mailboxes: Mailbox[],
+  current: Mailbox | undefined,
+  add: Set<string>,
+  remove: Set<string>
+): SpecialMailbox | Mailbox | null {
+  const systemLabels = new Set<string>([...Object.values(MAILBOX_LABELS), ...MESSAGE_LABELS])
+  const userLabel = [...add].find((label) => !systemLabels.has(label))
+
+  if (add.has(MAILBOX_LABELS.trash)) return 'trash'
+  if (add.has(MAILBOX_LABELS.junk)) return 'junk'
+  if (add.has(MAILBOX_LABELS.inbox)) return 'inbox'
+  if (userLabel) {
+    return mailboxes.find((mailbox) => !mailbox.special && mailbox.path === userLabel) || null
+  }
+
+  if (!current?.label || !remove.has(current.label)) return null
+  return current.special === 'trash' || current.special === 'junk' ? 'inbox' : 'archive'
+}
+
+/**
+ * Add and/or remove labels on messages
+ *
+ * UNREAD and STARRED set \Seen and \Flagged; mailbox labels move the messages
+ * (see getDestination). IMPORTANT has no IMAP equivalent and is ignored.
+ */
+export async function modifyImapLabels(
+  accountId: string,
+  messageIds: string[],
+  options: { addLabelIds?: string[]; removeLabelIds?: string[] }
+): Promise<{ modified: number; failed: number; failedIds: string[] }> {
+  if (messageIds.length === 0) {
+    return { modified: 0, failed: 0, failedIds: [] }
+  }
+
+  const add = new Set(options.addLabelIds || [])
+  const remove = new Set(options.removeLabelIds || [])
+  const rows = await getIndexRowsByMessageId(accountId, messageIds)
+  const indexed = new Set(rows.map((row) => row.messageId))
+  const failed = new Set(messageIds.filter((id) => !indexed.has(id)))
+
+  const addFlags = [
+    ...(remove.has('UNREAD') ? ['\\Seen'] : []),
+    ...(add.has('STARRED') ? ['\\Flagged'] : []),
+  ]
+  const removeFlags = [
+    ...(add.has('UNREAD') ? ['\\Seen'] : []),
+    ...(remove.has('STARRED') ? ['\\Flagged'] : []),
+  ]
+
+  await withImapClient(accountId, async (client) => {
+    const mailboxes = await listMailboxes(client)
+
+    for (const [path, group] of groupByMailbox(rows)) {
+      try {
+        if (addFlags.length > 0 || removeFlags.length > 0) {
+          const set = toSequenceSet(group.map((row) => row.uid))
+          await client.select(path)
+          if (addFlags.length > 0) await client.uidStore(set, '+FLAGS', addFlags)
+          if (removeFlags.length > 0) await client.uidStore(set, '-FLAGS', removeFlags)
+
+          for (const row of group) {
+            const flags = row.flags.split(' ').filter((flag) => flag && !removeFlags.includes(flag))
+            row.flags = serializeFlags([...flags, ...addFlags])
+            await db
+              .update(tables.imapMessages)
+              .set({ flags: row.flags })
+              .where(eq(tables.imapMessages.id, row.id))
+          }
+        }
+
+        const current = mailboxes.find((mailbox) => mailbox.path === path)
+        const target = getDestination(mailboxes, current, add, remove)
+        const destination =
+          typeof target === 'string' ? await getSpecialMailbox(client, mailboxes, target) : target
+
+        if (destination) {
+          const moved = await moveRows(client, group, destination)
+          moved.failed.forEach((row) => failed.add(row.messageId))
+        } else if (target) {
+          group.forEach((row) => failed.add(row.messageId))
+        }
+      } catch (error) {
+        logger.error(`[IMAP] Failed to modify labels on ${group.length} messages:`, error)
+        group.forEach((row) => failed.add(row.messageId))
+      }
+    }
+  })
+
+  return { modified: messageIds.length - failed.size, failed: failed.size, failedIds: [...failed] }
+}
@@ -0,0 +1,26 @@
+/**
+ * Import Services
+ *
+ * Export the import job worker and management functions
+ */
+
+export {
+  processImportJob,
+  startUploadImportJob,
+  startBackupImportJob,
+  getImportJob,
+  getImportJobs,
+  getImportPayload,
+  pauseImportJob,
+  resumeImportJob,
+  cancelImportJob,
+  registerImportWorker,
+  resumeInterruptedImportJobs,
+  getUploadLimitBytes,
+  ImportRequestError,
+  type ImportSource,
+  type ImportJobPayload,
+  type ImportMessageError,
+} from './worker'
+
+export { parseGmailLabelsHeader } from './labels'
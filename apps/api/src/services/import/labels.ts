@@ -0,0 +1,130 @@
+/**
+ * Labels for imported messages
+ *
+ * Google Takeout mbox files record each message's labels by name in an
+ * X-Gmail-Labels header ("Inbox,Unread,Category Updates,Receipts"). System
+ * names map to Gmail's label IDs, user labels are matched by name and created
+ * when the account doesn't have them yet.
+ * Messages restored from a backup use the label IDs recorded in Eternal Memory.
+ */
+
+import { listLabels, createLabel, type GmailLabel } from '../filters'
+import { hashForLog } from '../../lib/hash'
+import { logger } from '../../lib/logger'
+
+/**
+ * Takeout names of system labels (lowercased)
+ */
+const SYSTEM_LABELS: Record<string, string> = {
+  inbox: 'INBOX',
+  unread: 'UNREAD',
+  starred: 'STARRED',
+  important: 'IMPORTANT',
+  sent: 'SENT',
+  spam: 'SPAM',
+  trash: 'TRASH',
+  'category personal': 'CATEGORY_PERSONAL',
+  'category social': 'CATEGORY_SOCIAL',
+  'category promotions': 'CATEGORY_PROMOTIONS',
+  'category updates': 'CATEGORY_UPDATES',
+  'category forums': 'CATEGORY_FORUMS',
+}
+
+// Takeout states that aren't labels ("Opened" = read, "Archived" = not in the inbox)
+const IGNORED_LABELS = new Set(['opened', 'archived', 'drafts', 'draft', 'chat'])
+
+// System labels Gmail doesn't accept on imported messages
+const UNSUPPORTED_LABEL_IDS = new Set(['DRAFT', 'CHAT'])
+
+/**
+ * Split an X-Gmail-Labels value into label names
+ * Names containing commas are quoted.
+ */
+export function parseGmailLabelsHeader(value: string): string[] {
+  const names: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (const char of value) {
+    if (char === '"') {
+      quoted = !quoted
+    } else if (char === ',' && !quoted) {
+      names.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  names.push(current)
+
+  return names.map((name) => name.trim()).filter(Boolean)
+}
+
+/**
+ * Resolves recorded labels to label IDs of the account, for the length of one import job
+ */
+export interface LabelResolver {
+  fromNames(names: string[]): Promise<string[]>
+  fromIds(labelIds: string[]): Promise<string[]>
+}
+
+/**
+ * Create a label resolver for an account
+ * The account's labels are listed once, on first use.
+ */
+export function createLabelResolver(accountId: string): LabelResolver {
+  let labels: Promise<GmailLabel[]> | null = null
+  const created = new Map<string, Promise<string | null>>()
+
+  const getLabels = () => (labels ??= listLabels(accountId))
+
+  // Created once per name, even when several messages ask for it at the same time
+  const createUserLabel = (name: string): Promise<string | null> => {
+    const key = name.toLowerCase()
+    let pending = created.get(key)
+    if (!pending) {
+      pending = createLabel(accountId, { name })
+        .then((label) => label.id)
+        .catch((error) => {
+          logger.warn(
+            `[Import] Could not create label for account ${hashForLog(accountId)}:`,
+            error instanceof Error ? error.message : error
+          )
+          return null
+        })
+      created.set(key, pending)
+    }
+    return pending
+  }
+
+  return {
+    async fromNames(names) {
+      const ids = new Set<string>()
+
+      for (const name of names) {
+        const key = name.toLowerCase()
+        if (IGNORED_LABELS.has(key)) continue
+
+        const systemId = SYSTEM_LABELS[key]
+        if (systemId) {
+          ids.add(systemId)
+          continue
+        }
+
+        const existing = (await getLabels()).find(
+          (label) => label.type === 'user' && label.name.toLowerCase() === key
+        )
+        const id = existing ? existing.id : await createUserLabel(name)
+        if (id) ids.add(id)
+      }
+
+      return [...ids]
+    },
+
+    async fromIds(labelIds) {
+      // User labels may have been deleted since the message was
+      const known = new Set((await getLabels()).map((label) => label.id))
+      return labelIds.filter((id) => known.has(id) && !UNSUPPORTED_LABEL_IDS.has(id))
+    },
+  }
+}
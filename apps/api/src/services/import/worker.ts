@@ -0,0 +1,823 @@
+/**
+ * Import Worker
+ *
+ * Puts messages back into Gmail with users.messages.import, from an uploaded
+ * mbox file or set of .eml files, or from the account's own backup archive.
+ * Uploaded files are kept in <data dir>/imports/<jobId>/ until the job finishes.
+ *
+ * Messages are read in archive order and processedMessages is the checkpoint, so
+ * a paused or interrupted job carries on where it stopped. Messages whose
+ * Message-ID is already in the mailbox are skipped: importing the same archive
+ * twice (or re-running a chunk after a restart) doesn't create duplicates.
+ * Imported messages are added to the local emails table after every chunk.
+ */
+
+import { mkdir, readFile, rename, rm } from 'fs/promises'
+import { join } from 'path'
+import { eq, and, inArray, desc, sql } from 'drizzle-orm'
+import { db, tables, dbType, getDataDir } from '../../db'
+import type { Job } from '../../db'
+import { importRawMessage, getMessageIdsByQuery, fetchMessageDetails } from '../gmail'
+import { insertEmails, buildSenderAggregates } from '../emails'
+import { readBackupMessage } from '../backup'
+import { requireGmailAccount } from '../providers'
+import { registerHandler } from '../queue'
+import type { ImportJobData } from '../queue/types'
+import { createLabelResolver, parseGmailLabelsHeader, type LabelResolver } from './labels'
+import { readMboxMessages, isMboxContent, getHeader } from '../../lib/mbox'
+import { createGmailThrottle, type AdaptiveThrottle } from '../../lib/throttle'
+import { nanoid } from '../../lib/id'
+import { hashForLog } from '../../lib/hash'
+import { logger } from '../../lib/logger'
+
+// Messages imported in parallel - the quota broker paces the actual requests
+const IMPORT_CONCURRENCY = 5
+
+// Messages per checkpoint (and per local insert)
+const CHUNK_SIZE = 50
+
+// Per-message errors kept in the job payload
+const MAX_ERRORS = 100
+
+// Default size limit of an upload request (all files together)
+const DEFAULT_UPLOAD_LIMIT_MB = 512
+
+const MB = 1024 * 1024
+
+/**
+ * Size limit of an upload request from IMPORT_UPLOAD_LIMIT_MB, in bytes
+ * Multipart uploads are held in memory until the request is parsed, so this also
+ * caps the memory an upload can take.
+ */
+export function getUploadLimitBytes(): number {
+  const mb = parseFloat(process.env.IMPORT_UPLOAD_LIMIT_MB?.trim() || '')
+  return Math.round((mb > 0 ? mb : DEFAULT_UPLOAD_LIMIT_MB) * MB)
+}
+
+/**
+ * Where an import job reads its messages from
+ */
+export type ImportSource = 'upload' | 'backup'
+
+/**
+ * A message that could not be imported
+ */
+export interface ImportMessageError {
+  index: number // Position in the archive (0-based)
+  messageId: string | null // Message-ID header
+  subject: string | null
+  error: string
+}
+
+/**
+ * Stored payload of an import job
+ */
+export interface ImportJobPayload {
+  source: ImportSource
+  files: string[] // upload: file names in the job's import directory, in order
+  messageIds: string[] // backup: archived messages to restore
+  imported: number
+  skipped: number // Already in the mailbox
+  failed: number
+  errors: ImportMessageError[] // The first MAX_ERRORS failures
+}
+
+/**
+ * Error for imports that can't be started (nothing to import, unreadable upload)
+ */
+export class ImportRequestError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportRequestError'
+  }
+}
+
+/**
+ * One message read from the archive
+ * labelIds are the label IDs recorded for it, if any (backup restores)
+ */
+type ImportItem = { raw: Buffer; labelIds: string[] | null } | { raw: null; error: string }
+
+/**
+ * Directory holding an upload import's files
+ */
+function getImportDir(jobId: string): string {
+  return join(getDataDir(), 'imports', jobId)
+}
+
+/**
+ * Get a job by ID
+ */
+async function getJob(jobId: string): Promise<Job | null> {
+  const [job] = await db.select().from(tables.jobs).where(eq(tables.jobs.id, jobId)).limit(1)
+
+  return job || null
+}
+
+/**
+ * Update job status
+ */
+async function updateJobStatus(
+  jobId: string,
+  status: Job['status'],
+  extra?: Partial<{
+    startedAt: Date | string
+    completedAt: Date | string
+    resumedAt: Date | string
+    processedAtResume: number
+    lastError: string | null
+  }>
+): Promise<void> {
+  // Cast to Date for Postgres types - at runtime, SQLite gets ISO string
+  const now = (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+
+  await db
+    .update(tables.jobs)
+    .set({
+      status,
+      updatedAt: now,
+      ...(extra as Record<string, unknown>),
+    })
+    .where(eq(tables.jobs.id, jobId))
+}
+
+/**
+ * Checkpoint job progress and counters after a chunk has been processed
+ */
+async function updateJobProgress(
+  jobId: string,
+  processed: number,
+  payload: ImportJobPayload
+): Promise<void> {
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  await db
+    .update(tables.jobs)
+    .set({
+      processedMessages: processed,
+      updatedAt: now as Date,
+      payload: JSON.stringify(payload),
+    })
+    .where(eq(tables.jobs.id, jobId))
+}
+
+/**
+ * Parse an import job payload
+ */
+export function getImportPayload(job: Job): ImportJobPayload {
+  const empty: ImportJobPayload = {
+    source: 'upload',
+    files: [],
+    messageIds: [],
+    imported: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  }
+  if (!job.payload) return empty
+
+  try {
+    const payload = JSON.parse(job.payload) as Partial<ImportJobPayload>
+    return {
+      source: payload.source === 'backup' ? 'backup' : 'upload',
+      files: Array.isArray(payload.files) ? payload.files : [],
+      messageIds: Array.isArray(payload.messageIds) ? payload.messageIds : [],
+      imported: payload.imported ?? 0,
+      skipped: payload.skipped ?? 0,
+      failed: payload.failed ?? 0,
+      errors: Array.isArray(payload.errors) ? payload.errors : [],
+    }
+  } catch {
+    return empty
+  }
+}
+
+// ============================================================================
+// Reading archives
+// ============================================================================
+
+/**
+ * Label IDs recorded in Eternal Memory for deleted messages
+ */
+async function getRecordedLabels(
+  accountId: string,
+  messageIds: string[]
+): Promise<Map<string, string[]>> {
+  const rows = await db
+    .select({ messageId: tables.deletedEmails.messageId, labels: tables.deletedEmails.labels })
+    .from(tables.deletedEmails)
+    .where(
+      and(
+        eq(tables.deletedEmails.mailAccountId, accountId),
+        inArray(tables.deletedEmails.messageId, messageIds)
+      )
+    )
+
+  const labels = new Map<string, string[]>()
+  for (const row of rows) {
+    try {
+      const parsed = JSON.parse(row.labels || '[]')
+      if (Array.isArray(parsed)) labels.set(row.messageId, parsed)
+    } catch {
+      // No usable labels recorded
+    }
+  }
+  return labels
+}
+
+/**
+ * Read the job's messages in order, starting at the given position
+ */
+async function* readImportItems(
+  accountId: string,
+  jobId: string,
+  payload: ImportJobPayload,
+  start: number
+): AsyncGenerator<ImportItem> {
+  if (payload.source === 'backup') {
+    const messageIds = payload.messageIds.slice(start)
+
+    for (let i = 0; i < messageIds.length; i += CHUNK_SIZE) {
+      const batch = messageIds.slice(i, i + CHUNK_SIZE)
+      const recorded = await getRecordedLabels(accountId, batch)
+
+      for (const messageId of batch) {
+        const message = await readBackupMessage(accountId, messageId)
+        yield message
+          ? { raw: message.raw, labelIds: recorded.get(messageId) ?? null }
+          : { raw: null, error: 'The message is no longer in the backup archive' }
+      }
+    }
+    return
+  }
+
+  // Uploads can't seek by message, so skip what was already processed
+  let skip = start
+  const dir = getImportDir(jobId)
+
+  for (const file of payload.files) {
+    const path = join(dir, file)
+
+    if (file.endsWith('.mbox')) {
+      for await (const raw of readMboxMessages(path)) {
+        if (skip > 0) {
+          skip--
+          continue
+        }
+        yield { raw, labelIds: null }
+      }
+    } else if (skip > 0) {
+      skip--
+    } else {
+      yield { raw: await readFile(path), labelIds: null }
+    }
+  }
+}
+
+/**
+ * Message-ID of a raw message, without the angle brackets
+ */
+function getMessageIdHeader(raw: Buffer): string | null {
+  const value = getHeader(raw, 'Message-ID')
+  if (!value) return null
+  return value.match(/<([^<>]+)>/)?.[1] ?? (value || null)
+}
+
+// ============================================================================
+// Importing
+// ============================================================================
+
+/**
+ * Labels to give an imported message
+ * X-Gmail-Labels (Takeout) first, then labels recorded for it, otherwise the inbox
+ */
+async function resolveLabels(
+  raw: Buffer,
+  recorded: string[] | null,
+  resolver: LabelResolver
+): Promise<string[]> {
+  const header = getHeader(raw, 'X-Gmail-Labels')
+  if (header !== null) {
+    return resolver.fromNames(parseGmailLabelsHeader(header))
+  }
+
+  if (recorded) {
+    return resolver.fromIds(recorded)
+  }
+
+  return ['INBOX']
+}
+
+/**
+ * Import one message
+ * Returns the new Gmail message ID, or null when it is already in the mailbox.
+ */
+async function importMessage(
+  accountId: string,
+  item: ImportItem,
+  resolver: LabelResolver,
+  seen: Set<string>
+): Promise<string | null> {
+  if (!item.raw) {
+    throw new Error(item.error)
+  }
+
+  const messageId = getMessageIdHeader(item.raw)
+  if (messageId) {
+    // Duplicates within the archive
+    if (seen.has(messageId)) return null
+    seen.add(messageId)
+  }
+
+  try {
+    if (messageId) {
+      const existing = await getMessageIdsByQuery(accountId, `rfc822msgid:${messageId}`, 1)
+      if (existing.length > 0) return null
+    }
+
+    const labelIds = await resolveLabels(item.raw, item.labelIds, resolver)
+    return await importRawMessage(accountId, item.raw, labelIds)
+  } catch (error) {
+    if (messageId) seen.delete(messageId)
+    throw error
+  }
+}
+
+/**
+ * Import a chunk of messages, counting the results in the payload
+ * Returns the IDs of the messages created in Gmail.
+ */
+async function importChunk(
+  accountId: string,
+  items: ImportItem[],
+  startIndex: number,
+  payload: ImportJobPayload,
+  resolver: LabelResolver,
+  seen: Set<string>
+): Promise<string[]> {
+  const created: string[] = []
+
+  for (let i = 0; i < items.length; i += IMPORT_CONCURRENCY) {
+    const batch = items.slice(i, i + IMPORT_CONCURRENCY)
+
+    const settled = await Promise.allSettled(
+      batch.map((item) => importMessage(accountId, item, resolver, seen))
+    )
+
+    settled.forEach((outcome, offset) => {
+      if (outcome.status === 'fulfilled') {
+        if (outcome.value) {
+          payload.imported++
+          created.push(outcome.value)
+        } else {
+          payload.skipped++
+        }
+        return
+      }
+
+      const item = batch[offset]!
+      const error =
+        outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)
+      payload.failed++
+      if (payload.errors.length < MAX_ERRORS) {
+        payload.errors.push({
+          index: startIndex + i + offset,
+          messageId: item.raw ? getMessageIdHeader(item.raw) : null,
+          subject: item.raw ? getHeader(item.raw, 'Subject') : null,
+          error,
+        })
+      }
+      logger.warn(`[ImportWorker] Failed to import message ${startIndex + i + offset}: ${error}`)
+    })
+  }
+
+  return created
+}
+
+/**
+ * Fetch the metadata of newly imported messages into the local emails table
+ */
+async function addToLocalEmails(
+  accountId: string,
+  messageIds: string[],
+  throttle: AdaptiveThrottle
+): Promise<void> {
+  if (messageIds.length === 0) return
+
+  const records = await fetchMessageDetails(
+    accountId,
+    messageIds.map((id) => ({ id })),
+    throttle
+  )
+  await insertEmails(accountId, records)
+}
+
+/**
+ * Process an import job, chunk by chunk, starting from the last checkpoint
+ */
+export async function processImportJob(data: ImportJobData): Promise<void> {
+  const { jobId, accountId } = data
+
+  logger.debug(`[ImportWorker] Processing job ${jobId} for account ${accountId}`)
+
+  const job = await getJob(jobId)
+  if (!job) {
+    logger.error(`[ImportWorker] Job ${jobId} not found`)
+    return
+  }
+
+  // Skip if job is not pending (might have been paused, cancelled or completed)
+  if (job.status !== 'pending') {
+    logger.debug(`[ImportWorker] Job ${jobId} is ${job.status}, skipping`)
+    return
+  }
+
+  const payload = getImportPayload(job)
+  let processedCount = job.processedMessages || 0
+
+  const items = readImportItems(accountId, jobId, payload, processedCount)
+
+  try {
+    const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+    if (processedCount > 0) {
+      // Resuming - set resumedAt and processedAtResume for accurate ETA
+      await updateJobStatus(jobId, 'running', {
+        resumedAt: now as Date,
+        processedAtResume: processedCount,
+        lastError: null,
+      })
+    } else {
+      await updateJobStatus(jobId, 'running', { startedAt: now as Date, lastError: null })
+    }
+
+    const resolver = createLabelResolver(accountId)
+    const throttle = createGmailThrottle()
+    const seen = new Set<string>()
+    let finished = false
+
+    while (!finished) {
+      // Stop between chunks if the job was paused or cancelled
+      const current = await getJob(jobId)
+      if (current?.status === 'paused' || current?.status === 'cancelled') {
+        logger.debug(`[ImportWorker] Job ${jobId} was ${current.status}`)
+        if (current.status === 'cancelled') await removeImportFiles(jobId)
+        return
+      }
+
+      const chunk: ImportItem[] = []
+      while (chunk.length < CHUNK_SIZE) {
+        const next = await items.next()
+        if (next.done) {
+          finished = true
+          break
+        }
+        chunk.push(next.value)
+      }
+
+      const created = await importChunk(accountId, chunk, processedCount, payload, resolver, seen)
+      await addToLocalEmails(accountId, created, throttle)
+
+      processedCount += chunk.length
+      await updateJobProgress(jobId, processedCount, payload)
+
+      logger.debug(
+        `[ImportWorker] Job ${jobId}: ${processedCount}/${job.totalMessages} emails (${payload.imported} imported, ${payload.skipped} skipped, ${payload.failed} failed)`
+      )
+    }
+
+    if (payload.imported > 0) {
+      await buildSenderAggregates(accountId)
+    }
+
+    const completedAt = dbType === 'postgres' ? new Date() : new Date().toISOString()
+    await updateJobStatus(jobId, 'completed', { completedAt: completedAt as Date })
+    await removeImportFiles(jobId)
+
+    logger.debug(
+      `[ImportWorker] Job ${jobId} completed: ${payload.imported} imported, ${payload.skipped} skipped, ${payload.failed} failed`
+    )
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[ImportWorker] Job ${jobId} failed:`, errorMessage)
+
+    // Progress up to the last completed chunk is kept, so the job can be resumed
+    await updateJobStatus(jobId, 'failed', { lastError: errorMessage })
+  } finally {
+    // Closes the archive file when the job stops early
+    await items.return(undefined)
+  }
+}
+
+/**
+ * Delete an upload import's files
+ */
+async function removeImportFiles(jobId: string): Promise<void> {
+  await rm(getImportDir(jobId), { recursive: true, force: true }).catch((error) => {
+    logger.warn(`[ImportWorker] Could not remove files of job ${jobId}:`, error)
+  })
+}
+
+// ============================================================================
+// Job Management
+// ============================================================================
+
+/**
+ * Create an import job and queue it
+ */
+async function createImportJob(
+  accountId: string,
+  payload: ImportJobPayload,
+  totalMessages: number,
+  jobId = nanoid()
+): Promise<Job> {
+  const [account] = await db
+    .select()
+    .from(tables.mailAccounts)
+    .where(eq(tables.mailAccounts.id, accountId))
+    .limit(1)
+
+  if (!account) {
+    throw new Error(`Account ${accountId} not found`)
+  }
+
+  const [newJob] = await db
+    .insert(tables.jobs)
+    .values({
+      id: jobId,
+      userId: account.userId,
+      mailAccountId: accountId,
+      type: 'import',
+      status: 'pending',
+      totalMessages,
+      processedMessages: 0,
+      payload: JSON.stringify(payload),
+    })
+    .returning()
+
+  if (!newJob) {
+    throw new Error('Failed to create import job')
+  }
+
+  logger.debug(
+    `[ImportWorker] Created ${payload.source} import job ${newJob.id} for ${totalMessages} emails (account ${hashForLog(accountId)})`
+  )
+
+  const { addJob } = await import('../queue')
+  await addJob('import', {
+    jobId: newJob.id,
+    accountId,
+  })
+
+  return newJob
+}
+
+/**
+ * Import uploaded files: one or more mbox files and/or .eml files
+ *
+ * Each file is stored as is; files starting with a "From " line are read as mbox,
+ * anything else as a single message.
+ */
+export async function startUploadImportJob(accountId: string, files: File[]): Promise<Job> {
+  await requireGmailAccount(accountId, 'Importing emails')
+
+  if (files.length === 0) {
+    throw new ImportRequestError('No files to import')
+  }
+
+  const jobId = nanoid()
+  const dir = getImportDir(jobId)
+  const names: string[] = []
+  let totalMessages = 0
+
+  try {
+    await mkdir(dir, { recursive: true })
+
+    for (const [index, file] of files.entries()) {
+      if (file.size === 0) continue
+
+      // Written straight to disk, then sniffed from its first bytes
+      const base = String(index).padStart(5, '0')
+      await Bun.write(join(dir, base), file)
+      const head = Buffer.from(await Bun.file(join(dir, base)).slice(0, 5).arrayBuffer())
+      const name = `${base}.${isMboxContent(head) ? 'mbox' : 'eml'}`
+      await rename(join(dir, base), join(dir, name))
+      names.push(name)
+
+      if (name.endsWith('.mbox')) {
+        for await (const _message of readMboxMessages(join(dir, name))) totalMessages++
+      } else {
+        totalMessages++
+      }
+    }
+
+    if (totalMessages === 0) {
+      throw new ImportRequestError('The uploaded files contain no messages')
+    }
+
+    return await createImportJob(
+      accountId,
+      {
+        source: 'upload',
+        files: names,
+        messageIds: [],
+        imported: 0,
+        skipped: 0,
+        failed: 0,
+        errors: [],
+      },
+      totalMessages,
+      jobId
+    )
+  } catch (error) {
+    await removeImportFiles(jobId)
+    throw error
+  }
+}
+
+/**
+ * Restore messages from the account's backup archive
+ * Restores the whole archive, oldest first, when no message IDs are given.
+ */
+export async function startBackupImportJob(accountId: string, messageIds?: string[]): Promise<Job> {
+  await requireGmailAccount(accountId, 'Importing emails')
+
+  const rows = await db
+    .select({ messageId: tables.emailBackups.messageId })
+    .from(tables.emailBackups)
+    .where(
+      and(
+        eq(tables.emailBackups.mailAccountId, accountId),
+        messageIds ? inArray(tables.emailBackups.messageId, messageIds) : undefined
+      )
+    )
+    .orderBy(tables.emailBackups.internalDate)
+
+  if (rows.length === 0) {
+    throw new ImportRequestError('No backed up emails to restore')
+  }
+
+  return createImportJob(
+    accountId,
+    {
+      source: 'backup',
+      files: [],
+      messageIds: rows.map((row) => row.messageId),
+      imported: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+    },
+    rows.length
+  )
+}
+
+/**
+ * Get an import job belonging to an account
+ */
+export async function getImportJob(accountId: string, jobId: string): Promise<Job | null> {
+  const [job] = await db
+    .select()
+    .from(tables.jobs)
+    .where(
+      and(
+        eq(tables.jobs.id, jobId),
+        eq(tables.jobs.mailAccountId, accountId),
+        eq(tables.jobs.type, 'import')
+      )
+    )
+    .limit(1)
+
+  return job || null
+}
+
+/**
+ * Recent import jobs of an account, newest first
+ */
+export async function getImportJobs(accountId: string, limit = 10): Promise<Job[]> {
+  return db
+    .select()
+    .from(tables.jobs)
+    .where(and(eq(tables.jobs.mailAccountId, accountId), eq(tables.jobs.type, 'import')))
+    .orderBy(desc(tables.jobs.createdAt))
+    .limit(limit)
+}
+
+/**
+ * Pause a pending or running job
+ *
+ * A running job stops after the chunk it is currently importing.
+ */
+export async function pauseImportJob(accountId: string, jobId: string): Promise<Job | null> {
+  const job = await getImportJob(accountId, jobId)
+
+  if (!job || (job.status !== 'pending' && job.status !== 'running')) {
+    return null
+  }
+
+  logger.debug(`[ImportWorker] Pausing job ${jobId} at ${job.processedMessages} emails`)
+  await updateJobStatus(jobId, 'paused')
+
+  return getJob(jobId)
+}
+
+/**
+ * Resume a paused or failed job from its last checkpoint
+ */
+export async function resumeImportJob(accountId: string, jobId: string): Promise<Job | null> {
+  const job = await getImportJob(accountId, jobId)
+
+  if (!job || (job.status !== 'paused' && job.status !== 'failed')) {
+    return null
+  }
+
+  logger.debug(`[ImportWorker] Resuming job ${jobId} from ${job.processedMessages} emails`)
+  await updateJobStatus(jobId, 'pending')
+
+  const { addJob } = await import('../queue')
+  await addJob('import', {
+    jobId,
+    accountId,
+  })
+
+  return getJob(jobId)
+}
+
+/**
+ * Cancel a job that has not finished yet
+ *
+ * Messages already imported stay in Gmail. Uploaded files are deleted.
+ */
+export async function cancelImportJob(accountId: string, jobId: string): Promise<boolean> {
+  const job = await getImportJob(accountId, jobId)
+
+  if (!job || job.status === 'completed' || job.status === 'cancelled') {
+    return false
+  }
+
+  logger.debug(`[ImportWorker] Cancelling job ${jobId}`)
+  await updateJobStatus(jobId, 'cancelled')
+
+  // A running job is still reading its files - they're removed once it stops
+  if (job.status !== 'running') {
+    await removeImportFiles(jobId)
+  }
+
+  return true
+}
+
+/**
+ * Register the import worker with the queue
+ */
+export function registerImportWorker(): void {
+  registerHandler('import', async (data) => {
+    await processImportJob(data as ImportJobData)
+  })
+
+  logger.debug('[ImportWorker] Import worker registered')
+}
+
+/**
+ * Resume interrupted import jobs on server startup
+ *
+ * Jobs that were running or pending when the server stopped are re-queued and
+ * continue from their last checkpoint. Paused and failed jobs wait for the user.
+ * Jobs another replica is still running (live queue lease) are left alone.
+ */
+export async function resumeInterruptedImportJobs(): Promise<number> {
+  logger.debug('[ImportWorker] Checking for interrupted import jobs...')
+
+  const candidates = await db
+    .select()
+    .from(tables.jobs)
+    .where(
+      and(eq(tables.jobs.type, 'import'), sql`${tables.jobs.status} IN ('running', 'pending')`)
+    )
+    .orderBy(tables.jobs.createdAt)
+
+  const { addJob, getRunningJobIds } = await import('../queue')
+  const running = await getRunningJobIds(['import'])
+  const interruptedJobs = candidates.filter((job) => !running.has(job.id))
+
+  if (interruptedJobs.length === 0) {
+    logger.debug('[ImportWorker] No interrupted jobs found')
+    return 0
+  }
+
+  for (const job of interruptedJobs) {
+    if (job.status === 'running') {
+      await updateJobStatus(job.id, 'pending')
+    }
+
+    await addJob('import', {
+      jobId: job.id,
+      accountId: job.mailAccountId,
+    })
+
+    logger.debug(
+      `[ImportWorker] Re-queued import job ${job.id} (was at ${job.processedMessages}/${job.totalMessages})`
+    )
+  }
+
+  return interruptedJobs.length
+}
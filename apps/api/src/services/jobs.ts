@@ -0,0 +1,345 @@
+import { eq, and, or, inArray, desc, count } from 'drizzle-orm'
+import { db, tables, dbType } from '../db'
+import type { Job, JobStatus, JobType } from '../db'
+import { logger } from '../lib/logger'
+import { parseDbTimestamp } from './emails'
+import {
+  calculateProgress,
+  resumeMetadataSync,
+  pauseMetadataSync,
+  cancelMetadataSync,
+} from './sync'
+import { pauseCleanupJob, resumeCleanupJob, cancelCleanupJob } from './cleanup'
+import { pauseImportJob, resumeImportJob, cancelImportJob } from './import'
+
+/**
+ * Jobs service
+ * Every sync, cleanup and import job across a user's accounts, with history and controls
+ */
+
+export const JOB_TYPES: JobType[] = [
+  'sync',
+  'trash',
+  'delete',
+  'archive',
+  'label',
+  'import',
+  'strip',
+]
+
+export const JOB_STATUSES: JobStatus[] = [
+  'pending',
+  'running',
+  'paused',
+  'completed',
+  'failed',
+  'cancelled',
+]
+
+// Statuses that can still change - the live feed watches these
+const ACTIVE_STATUSES: JobStatus[] = ['pending', 'running', 'paused']
+
+/**
+ * Error for job actions that don't apply to the job's current status
+ */
+export class JobActionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JobActionError'
+  }
+}
+
+/**
+ * Job as shown on the Jobs page
+ */
+export interface JobInfo {
+  id: string
+  accountId: string
+  accountEmail: string
+  type: JobType
+  status: JobStatus
+  processed: number
+  total: number
+  percentage: number
+  message: string
+  eta: string | null
+  /** Current rate while running (messages per second) */
+  rate: number | null
+  /** Average rate over the job's run time (messages per second) */
+  throughput: number | null
+  /** Time from start to completion, or to now while running (ms) */
+  durationMs: number | null
+  /** Storage freed in Gmail by delete and strip jobs (bytes) */
+  reclaimedBytes: number
+  lastError: string | null
+  retryCount: number
+  createdAt: string
+  startedAt: string | null
+  completedAt: string | null
+  updatedAt: string
+}
+
+export interface JobListFilters {
+  type?: JobType
+  status?: JobStatus
+  accountId?: string
+  limit?: number
+  offset?: number
+}
+
+type JobRow = Job & { accountEmail: string }
+
+function toIsoString(value: Date | string | null): string | null {
+  return value ? parseDbTimestamp(value).toISOString() : null
+}
+
+function getDurationMs(job: Job): number | null {
+  if (!job.startedAt) return null
+
+  const start = parseDbTimestamp(job.startedAt).getTime()
+  const end = job.completedAt
+    ? parseDbTimestamp(job.completedAt).getTime()
+    : job.status === 'running'
+      ? Date.now()
+      : parseDbTimestamp(job.updatedAt).getTime()
+
+  return Math.max(0, end - start)
+}
+
+function toJobInfo(job: JobRow): JobInfo {
+  const progress = calculateProgress(job)
+  const durationMs = getDurationMs(job)
+
+  return {
+    id: job.id,
+    accountId: job.mailAccountId,
+    accountEmail: job.accountEmail,
+    type: job.type,
+    status: job.status,
+    processed: progress.processed,
+    total: job.totalMessages || 0,
+    percentage: progress.percentage,
+    message: progress.message,
+    eta: progress.eta,
+    rate: progress.rate,
+    throughput:
+      durationMs && durationMs >= 1000 && progress.processed > 0
+        ? Math.round((progress.processed / durationMs) * 1000 * 10) / 10
+        : null,
+    durationMs,
+    reclaimedBytes: job.reclaimedBytes || 0,
+    lastError: job.lastError,
+    retryCount: job.retryCount || 0,
+    createdAt: toIsoString(job.createdAt)!,
+    startedAt: toIsoString(job.startedAt),
+    completedAt: toIsoString(job.completedAt),
+    updatedAt: toIsoString(job.updatedAt)!,
+  }
+}
+
+/**
+ * Select jobs with their account email
+ */
+function selectJobs() {
+  return db
+    .select({ job: tables.jobs, accountEmail: tables.mailAccounts.email })
+    .from(tables.jobs)
+    .innerJoin(tables.mailAccounts, eq(tables.jobs.mailAccountId, tables.mailAccounts.id))
+}
+
+/**
+ * List a user's jobs, newest first, with counts per status for the same type/account filter
+ */
+export async function listJobs(
+  userId: string,
+  filters: JobListFilters = {}
+): Promise<{ jobs: JobInfo[]; total: number; byStatus: Record<JobStatus, number> }> {
+  const scope = and(
+    eq(tables.jobs.userId, userId),
+    filters.type ? eq(tables.jobs.type, filters.type) : undefined,
+    filters.accountId ? eq(tables.jobs.mailAccountId, filters.accountId) : undefined
+  )
+  const where = and(scope, filters.status ? eq(tables.jobs.status, filters.status) : undefined)
+
+  const rows = await selectJobs()
+    .where(where)
+    .orderBy(desc(tables.jobs.createdAt))
+    .limit(filters.limit ?? 50)
+    .offset(filters.offset ?? 0)
+
+  const statusCounts = await db
+    .select({ status: tables.jobs.status, count: count() })
+    .from(tables.jobs)
+    .where(scope)
+    .groupBy(tables.jobs.status)
+
+  const byStatus = Object.fromEntries(JOB_STATUSES.map((status) => [status, 0])) as Record<
+    JobStatus,
+    number
+  >
+  for (const row of statusCounts) {
+    byStatus[row.status] = Number(row.count)
+  }
+
+  return {
+    jobs: rows.map(({ job, accountEmail }) => toJobInfo({ ...job, accountEmail })),
+    total: filters.status
+      ? byStatus[filters.status]
+      : Object.values(byStatus).reduce((sum, n) => sum + n, 0),
+    byStatus,
+  }
+}
+
+/**
+ * Get one of a user's jobs
+ */
+export async function getJobForUser(userId: string, jobId: string): Promise<JobInfo | null> {
+  const [row] = await selectJobs()
+    .where(and(eq(tables.jobs.id, jobId), eq(tables.jobs.userId, userId)))
+    .limit(1)
+
+  return row ? toJobInfo({ ...row.job, accountEmail: row.accountEmail }) : null
+}
+
+/**
+ * Jobs that are still active, plus the given ones (to catch them finishing)
+ * Used by the live feed.
+ */
+export async function getJobsToWatch(userId: string, knownJobIds: string[]): Promise<JobInfo[]> {
+  const rows = await selectJobs().where(
+    and(
+      eq(tables.jobs.userId, userId),
+      knownJobIds.length > 0
+        ? or(inArray(tables.jobs.status, ACTIVE_STATUSES), inArray(tables.jobs.id, knownJobIds))
+        : inArray(tables.jobs.status, ACTIVE_STATUSES)
+    )
+  )
+
+  return rows.map(({ job, accountEmail }) => toJobInfo({ ...job, accountEmail }))
+}
+
+/**
+ * Whether a job is done changing
+ */
+export function isJobFinished(job: JobInfo): boolean {
+  return !ACTIVE_STATUSES.includes(job.status)
+}
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+async function requireJob(userId: string, jobId: string): Promise<JobInfo> {
+  const job = await getJobForUser(userId, jobId)
+  if (!job) {
+    throw new JobActionError('Job not found')
+  }
+  return job
+}
+
+/**
+ * Pause a pending or running job
+ */
+export async function pauseJob(userId: string, jobId: string): Promise<JobInfo> {
+  const job = await requireJob(userId, jobId)
+
+  const paused =
+    job.type === 'sync'
+      ? await pauseMetadataSync(job.accountId, job.id)
+      : job.type === 'import'
+        ? await pauseImportJob(job.accountId, job.id)
+        : await pauseCleanupJob(job.accountId, job.id)
+
+  if (!paused) {
+    throw new JobActionError('Only pending or running jobs can be paused')
+  }
+
+  return requireJob(userId, jobId)
+}
+
+/**
+ * Resume a paused job from its last checkpoint
+ */
+export async function resumeJob(userId: string, jobId: string): Promise<JobInfo> {
+  const job = await requireJob(userId, jobId)
+
+  if (job.status !== 'paused') {
+    throw new JobActionError('Only paused jobs can be resumed')
+  }
+
+  await requeue(job)
+  return requireJob(userId, jobId)
+}
+
+/**
+ * Retry a failed job from its last checkpoint
+ */
+export async function retryJob(userId: string, jobId: string): Promise<JobInfo> {
+  const job = await requireJob(userId, jobId)
+
+  if (job.status !== 'failed') {
+    throw new JobActionError('Only failed jobs can be retried')
+  }
+
+  const now = (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+  await db
+    .update(tables.jobs)
+    .set({ retryCount: job.retryCount + 1, updatedAt: now })
+    .where(eq(tables.jobs.id, job.id))
+
+  await requeue(job)
+  logger.debug(`[Jobs] Retrying ${job.type} job ${job.id} (retry ${job.retryCount + 1})`)
+
+  return requireJob(userId, jobId)
+}
+
+async function requeue(job: JobInfo): Promise<void> {
+  const resumed =
+    job.type === 'sync'
+      ? await resumeMetadataSync(job.accountId, job.id)
+      : job.type === 'import'
+        ? await resumeImportJob(job.accountId, job.id)
+        : await resumeCleanupJob(job.accountId, job.id)
+
+  if (!resumed) {
+    throw new JobActionError(`Job is ${job.status} and can't be restarted`)
+  }
+}
+
+/**
+ * Cancel a job that has not finished yet
+ */
+export async function cancelJob(userId: string, jobId: string): Promise<JobInfo> {
+  const job = await requireJob(userId, jobId)
+
+  if (isJobFinished(job)) {
+    throw new JobActionError(`Job is already ${job.status}`)
+  }
+
+  const cancelled =
+    job.type === 'sync'
+      ? await cancelMetadataSync(job.accountId, job.id)
+      : job.type === 'import'
+        ? await cancelImportJob(job.accountId, job.id)
+        : await cancelCleanupJob(job.accountId, job.id)
+
+  if (!cancelled) {
+    throw new JobActionError('Job could not be cancelled')
+  }
+
+  return requireJob(userId, jobId)
+}
+
+/**
+ * Narrow a string to a job type
+ */
+export function isJobType(value: string): value is JobType {
+  return JOB_TYPES.includes(value as JobType)
+}
+
+/**
+ * Narrow a string to a job status
+ */
+export function isJobStatus(value: string): value is JobStatus {
+  return JOB_STATUSES.includes(value as JobStatus)
+}
@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { insertEmails } from '../emails'
+import { buildEmail, createTestAccount } from '../../test/helpers'
+import { getMirrorBlockers, toProviderFilter, type MailRuleCriteria } from './criteria'
+import { applyMailRule, createMailRule } from '.'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let accountId: string
+
+/**
+ * Number of inbox messages an archiving rule with the given criteria would change
+ */
+async function countMatches(criteria: MailRuleCriteria): Promise<number> {
+  const rule = await createMailRule(accountId, {
+    name: 'test',
+    criteria,
+    actions: { archive: true },
+    isEnabled: true,
+    mirrorToProvider: false,
+  })
+  return applyMailRule(rule, undefined, { dryRun: true })
+}
+
+beforeAll(async () => {
+  ;({ accountId } = await createTestAccount())
+  await insertEmails(accountId, [
+    buildEmail({
+      from_email: 'news@shop.com',
+      to_emails: JSON.stringify(['me+shop@home.org']),
+      subject: 'Weekly deals',
+      size_bytes: 500_000,
+      internal_date: Date.now() - 40 * DAY_MS,
+    }),
+    buildEmail({ from_email: 'news@shop.com', to_emails: JSON.stringify(['me@home.org']) }),
+    buildEmail({ from_email: 'Alice@Friends.org', is_unread: 1 }),
+    buildEmail({ from_email: 'bob@friends.org' }),
+    buildEmail({ from_email: 'carol@friends.org' }),
+    buildEmail({
+      from_email: 'me@home.org',
+      to_emails: JSON.stringify(['alice@friends.org']),
+      labels: JSON.stringify(['SENT']),
+    }),
+    buildEmail({
+      from_email: 'me@home.org',
+      to_emails: JSON.stringify(['dave@elsewhere.org']),
+      cc_emails: JSON.stringify(['bob@friends.org']),
+      labels: JSON.stringify(['SENT']),
+    }),
+  ])
+})
+
+describe('mail rule matching', () => {
+  test.each<[string, MailRuleCriteria, number]>([
+    ['sender', { from: 'shop.com' }, 2],
+    ['recipient address', { to: 'me+shop@home.org' }, 1],
+    ['recipient domain', { to: 'home.org' }, 2],
+    ['subject', { subject: 'weekly deals' }, 1],
+    ['age', { from: 'shop.com', olderThanDays: 30 }, 1],
+    ['size', { minSizeBytes: 100_000 }, 1],
+    ['read state', { isUnread: true }, 1],
+  ])('matches by %s', async (_name, criteria, expected) => {
+    expect(await countMatches(criteria)).toBe(expected)
+  })
+
+  test('notRepliedTo skips senders that were sent mail as To or Cc', async () => {
+    expect(await countMatches({ from: 'friends.org', notRepliedTo: true })).toBe(1)
+  })
+})
+
+describe('getMirrorBlockers', () => {
+  test.each<[MailRuleCriteria, string[]]>([
+    [{ from: 'shop.com', to: 'home.org', subject: 'deals', hasAttachment: true }, []],
+    [{ minSizeBytes: 1000 }, []],
+    [{ olderThanDays: 30 }, ['age']],
+    [{ minSizeBytes: 1000, maxSizeBytes: 2000 }, ['size ranges']],
+    [{ isUnread: true }, ['read state']],
+    [{ notRepliedTo: true }, ['senders not replied to']],
+    [{ hasAttachment: false }, ['messages without attachments']],
+  ])('%j', (criteria, expected) => {
+    expect(getMirrorBlockers(criteria)).toEqual(expected)
+  })
+})
+
+describe('toProviderFilter', () => {
+  test('maps criteria and actions to a Gmail filter', () => {
+    expect(
+      toProviderFilter(
+        { from: 'shop.com', minSizeBytes: 1000 },
+        { addLabelIds: ['Label_1'], markRead: true, archive: true }
+      )
+    ).toEqual({
+      criteria: { from: 'shop.com', size: 1000, sizeComparison: 'larger' },
+      action: { addLabelIds: ['Label_1'], removeLabelIds: ['UNREAD', 'INBOX'] },
+    })
+  })
+
+  test('is null when a criterion blocks mirroring', () => {
+    expect(toProviderFilter({ from: 'shop.com', olderThanDays: 30 }, { archive: true })).toBeNull()
+  })
+})
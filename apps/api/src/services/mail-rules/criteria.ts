@@ -0,0 +1,205 @@
+/**
+ * Mail rule criteria and actions
+ *
+ * Criteria are matched against the local copy of the mailbox through the explorer
+ * filters, so rules can use what Gmail filters can't express: age, size ranges,
+ * unread state and senders that were never replied to. Rules that only use what a
+ * Gmail filter supports can be mirrored to one (see ./mirror).
+ */
+
+import type { MailRule } from '../../db'
+import type { ExplorerFilters } from '../emails'
+import type { FilterCriteria, FilterAction, GmailFilter } from '../filters'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface MailRuleCriteria {
+  from?: string // Partial match on sender name or address
+  to?: string // Recipient address, or domain when it has no "@" (To, Cc or Delivered-To)
+  subject?: string // Phrase in the subject
+  hasAttachment?: boolean
+  minSizeBytes?: number
+  maxSizeBytes?: number
+  olderThanDays?: number
+  isUnread?: boolean
+  notRepliedTo?: boolean // Sender never received mail from this account
+}
+
+export interface MailRuleActions {
+  addLabelIds?: string[]
+  removeLabelIds?: string[]
+  markRead?: boolean
+  archive?: boolean
+  trash?: boolean
+}
+
+/**
+ * A Gmail filter's criteria and action, as mirrored
+ */
+export interface ProviderFilter {
+  criteria: FilterCriteria
+  action: FilterAction
+}
+
+function parseJson<T>(value: string | null): T {
+  if (!value) return {} as T
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : ({} as T)
+  } catch {
+    return {} as T
+  }
+}
+
+/**
+ * Parse a rule's stored criteria (invalid JSON yields no criteria)
+ */
+export function parseMailRuleCriteria(rule: MailRule): MailRuleCriteria {
+  return parseJson<MailRuleCriteria>(rule.criteria)
+}
+
+/**
+ * Parse a rule's stored actions (invalid JSON yields no actions)
+ */
+export function parseMailRuleActions(rule: MailRule): MailRuleActions {
+  return parseJson<MailRuleActions>(rule.actions)
+}
+
+/**
+ * Parse the filter a rule was last mirrored as
+ */
+export function parseProviderSnapshot(rule: MailRule): ProviderFilter | null {
+  if (!rule.providerSnapshot) return null
+  const snapshot = parseJson<Partial<ProviderFilter>>(rule.providerSnapshot)
+  return { criteria: snapshot.criteria ?? {}, action: snapshot.action ?? {} }
+}
+
+/**
+ * Explorer filters selecting the messages a rule matches (trash is never matched)
+ * notRepliedTo can't be expressed as a filter and is checked separately.
+ */
+export function toExplorerFilters(criteria: MailRuleCriteria, now = Date.now()): ExplorerFilters {
+  const filters: ExplorerFilters = { isTrash: false }
+
+  if (criteria.from) filters.sender = criteria.from
+  if (criteria.to) {
+    if (criteria.to.includes('@')) {
+      filters.toEmail = criteria.to
+    } else {
+      filters.toDomain = criteria.to
+    }
+  }
+  if (criteria.subject) filters.search = `subject:"${criteria.subject.replace(/"/g, '')}"`
+  if (criteria.hasAttachment !== undefined) filters.hasAttachments = criteria.hasAttachment
+  if (criteria.minSizeBytes !== undefined) filters.sizeMin = criteria.minSizeBytes
+  if (criteria.maxSizeBytes !== undefined) filters.sizeMax = criteria.maxSizeBytes
+  if (criteria.olderThanDays !== undefined) {
+    filters.dateTo = now - criteria.olderThanDays * DAY_MS
+  }
+  if (criteria.isUnread !== undefined) filters.isUnread = criteria.isUnread
+
+  return filters
+}
+
+/**
+ * Label changes that carry out the actions (archive removes INBOX, trash adds TRASH)
+ */
+export function toLabelChanges(actions: MailRuleActions): {
+  addLabelIds: string[]
+  removeLabelIds: string[]
+} {
+  const addLabelIds = [...(actions.addLabelIds ?? [])]
+  const removeLabelIds = [...(actions.removeLabelIds ?? [])]
+
+  if (actions.markRead) removeLabelIds.push('UNREAD')
+  if (actions.archive) removeLabelIds.push('INBOX')
+  if (actions.trash) addLabelIds.push('TRASH')
+
+  return { addLabelIds, removeLabelIds }
+}
+
+// ============================================================================
+// Gmail Filters
+// ============================================================================
+
+/**
+ * Reasons a rule can't be mirrored to a Gmail filter (empty when it can)
+ */
+export function getMirrorBlockers(criteria: MailRuleCriteria): string[] {
+  const blockers: string[] = []
+
+  if (criteria.olderThanDays !== undefined) blockers.push('age')
+  if (criteria.minSizeBytes !== undefined && criteria.maxSizeBytes !== undefined) {
+    blockers.push('size ranges')
+  }
+  if (criteria.isUnread !== undefined) blockers.push('read state')
+  if (criteria.notRepliedTo) blockers.push('senders not replied to')
+  if (criteria.hasAttachment === false) blockers.push('messages without attachments')
+
+  return blockers
+}
+
+/**
+ * The Gmail filter equivalent of a rule, or null when it can't be mirrored
+ */
+export function toProviderFilter(
+  criteria: MailRuleCriteria,
+  actions: MailRuleActions
+): ProviderFilter | null {
+  if (getMirrorBlockers(criteria).length > 0) return null
+
+  const filterCriteria: FilterCriteria = {}
+  if (criteria.from) filterCriteria.from = criteria.from
+  if (criteria.to) filterCriteria.to = criteria.to
+  if (criteria.subject) filterCriteria.subject = criteria.subject
+  if (criteria.hasAttachment) filterCriteria.hasAttachment = true
+  if (criteria.minSizeBytes !== undefined) {
+    filterCriteria.size = criteria.minSizeBytes
+    filterCriteria.sizeComparison = 'larger'
+  } else if (criteria.maxSizeBytes !== undefined) {
+    filterCriteria.size = criteria.maxSizeBytes
+    filterCriteria.sizeComparison = 'smaller'
+  }
+
+  const { addLabelIds, removeLabelIds } = toLabelChanges(actions)
+  const action: FilterAction = {}
+  if (addLabelIds.length > 0) action.addLabelIds = addLabelIds
+  if (removeLabelIds.length > 0) action.removeLabelIds = removeLabelIds
+
+  return { criteria: filterCriteria, action }
+}
+
+/**
+ * Convert a Gmail filter back to rule criteria and actions
+ * Returns null when the filter uses features rules don't have (search queries, forwarding).
+ */
+export function fromProviderFilter(
+  filter: GmailFilter
+): { criteria: MailRuleCriteria; actions: MailRuleActions } | null {
+  const { criteria: source, action } = filter
+  if (source.query || source.negatedQuery || action.forward) return null
+
+  const criteria: MailRuleCriteria = {}
+  if (source.from) criteria.from = source.from
+  if (source.to) criteria.to = source.to
+  if (source.subject) criteria.subject = source.subject
+  if (source.hasAttachment) criteria.hasAttachment = true
+  if (source.size !== undefined && source.sizeComparison === 'larger') {
+    criteria.minSizeBytes = source.size
+  } else if (source.size !== undefined && source.sizeComparison === 'smaller') {
+    criteria.maxSizeBytes = source.size
+  }
+
+  const actions: MailRuleActions = {}
+  const addLabelIds = (action.addLabelIds ?? []).filter((id) => id !== 'TRASH')
+  const removeLabelIds = (action.removeLabelIds ?? []).filter(
+    (id) => id !== 'UNREAD' && id !== 'INBOX'
+  )
+  if (addLabelIds.length > 0) actions.addLabelIds = addLabelIds
+  if (removeLabelIds.length > 0) actions.removeLabelIds = removeLabelIds
+  if (action.removeLabelIds?.includes('UNREAD')) actions.markRead = true
+  if (action.removeLabelIds?.includes('INBOX')) actions.archive = true
+  if (action.addLabelIds?.includes('TRASH')) actions.trash = true
+
+  return { criteria, actions }
+}
@@ -0,0 +1,437 @@
+/**
+ * Mail Rules Service
+ *
+ * Inboxorcist-side rules stored in mail_rules. After each delta sync the enabled
+ * rules are evaluated against the newly synced messages, in sequence order, and
+ * their actions are applied through the account's mail provider. Rules with an
+ * age criterion are also evaluated against the whole mailbox on every scheduler
+ * pass, since messages start matching them without any new mail arriving.
+ *
+ * Matching runs on the local copy of the mailbox, so it works for every provider;
+ * optional mirroring to Gmail filters lives in ./mirror.
+ */
+
+import { and, asc, eq, sql } from 'drizzle-orm'
+import { db, tables, dbType } from '../../db'
+import type { MailRule } from '../../db'
+import { getMailProvider } from '../providers'
+import {
+  getMessageLabelsByFilters,
+  getSentToAddresses,
+  markEmailsAsTrashed,
+  updateEmailLabels,
+} from '../emails'
+import { logger } from '../../lib/logger'
+import {
+  parseMailRuleCriteria,
+  parseMailRuleActions,
+  toExplorerFilters,
+  toLabelChanges,
+  type MailRuleCriteria,
+  type MailRuleActions,
+} from './criteria'
+import { syncProviderFilter } from './mirror'
+
+export {
+  parseMailRuleCriteria,
+  parseMailRuleActions,
+  getMirrorBlockers,
+  type MailRuleCriteria,
+  type MailRuleActions,
+} from './criteria'
+export { detectMailRuleDrift, resolveMailRuleDrift, MailRuleMirrorError } from './mirror'
+
+// Gmail's limit for batchModify - also used for the other providers
+const CHUNK_SIZE = 1000
+
+// Message IDs (or senders) per matching query when evaluating newly synced mail
+const MATCH_BATCH_SIZE = 500
+
+/**
+ * Input for creating or updating a mail rule
+ */
+export interface MailRuleInput {
+  name: string
+  criteria: MailRuleCriteria
+  actions: MailRuleActions
+  isEnabled: boolean
+  mirrorToProvider: boolean
+  sequence?: number
+}
+
+interface RuleMatch {
+  messageId: string
+  fromEmail: string
+  labels: string[]
+}
+
+function nowTimestamp(): Date {
+  return (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+}
+
+// ============================================================================
+// Rule CRUD
+// ============================================================================
+
+/**
+ * List an account's mail rules in evaluation order
+ */
+export async function getMailRules(accountId: string): Promise<MailRule[]> {
+  return db
+    .select()
+    .from(tables.mailRules)
+    .where(eq(tables.mailRules.mailAccountId, accountId))
+    .orderBy(asc(tables.mailRules.sequence), asc(tables.mailRules.createdAt))
+}
+
+/**
+ * Get a single mail rule belonging to an account
+ */
+export async function getMailRule(accountId: string, ruleId: string): Promise<MailRule | null> {
+  const [rule] = await db
+    .select()
+    .from(tables.mailRules)
+    .where(and(eq(tables.mailRules.id, ruleId), eq(tables.mailRules.mailAccountId, accountId)))
+    .limit(1)
+
+  return rule || null
+}
+
+/**
+ * Create a mail rule, mirroring it to a Gmail filter when asked
+ * New rules are evaluated after the existing ones unless a sequence is given.
+ */
+export async function createMailRule(accountId: string, input: MailRuleInput): Promise<MailRule> {
+  const mirror = await syncProviderFilter(accountId, {
+    providerRuleId: null,
+    criteria: input.criteria,
+    actions: input.actions,
+    mirror: input.mirrorToProvider && input.isEnabled,
+  })
+
+  let sequence = input.sequence
+  if (sequence === undefined) {
+    const [last] = await db
+      .select({ sequence: sql<number | null>`max(${tables.mailRules.sequence})` })
+      .from(tables.mailRules)
+      .where(eq(tables.mailRules.mailAccountId, accountId))
+    sequence = Number(last?.sequence ?? 0) + 1
+  }
+
+  const [rule] = await db
+    .insert(tables.mailRules)
+    .values({
+      mailAccountId: accountId,
+      name: input.name,
+      isEnabled: input.isEnabled ? 1 : 0,
+      sequence,
+      criteria: JSON.stringify(input.criteria),
+      actions: JSON.stringify(input.actions),
+      matchSender: input.criteria.from ?? null,
+      matchSubject: input.criteria.subject ?? null,
+      mirrorToProvider: input.mirrorToProvider ? 1 : 0,
+      ...mirror,
+    })
+    .returning()
+
+  if (!rule) {
+    throw new Error('Failed to create mail rule')
+  }
+
+  logger.debug(`[MailRules] Created rule ${rule.id} for account ${accountId}`)
+  return rule
+}
+
+/**
+ * Update a mail rule
+ * The Gmail filter is rewritten (or removed) when the criteria, actions, enabled
+ * state or mirroring changed; disabled rules keep no filter in Gmail.
+ */
+export async function updateMailRule(
+  rule: MailRule,
+  input: Partial<MailRuleInput>
+): Promise<MailRule> {
+  const criteria = input.criteria ?? parseMailRuleCriteria(rule)
+  const actions = input.actions ?? parseMailRuleActions(rule)
+  const isEnabled = input.isEnabled ?? rule.isEnabled === 1
+  const mirrorToProvider = input.mirrorToProvider ?? rule.mirrorToProvider === 1
+
+  const filterChanged =
+    input.criteria !== undefined ||
+    input.actions !== undefined ||
+    isEnabled !== (rule.isEnabled === 1) ||
+    mirrorToProvider !== (rule.mirrorToProvider === 1)
+
+  const mirror = filterChanged
+    ? await syncProviderFilter(rule.mailAccountId, {
+        providerRuleId: rule.providerRuleId,
+        criteria,
+        actions,
+        mirror: mirrorToProvider && isEnabled,
+      })
+    : {}
+
+  const [updated] = await db
+    .update(tables.mailRules)
+    .set({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.sequence !== undefined && { sequence: input.sequence }),
+      isEnabled: isEnabled ? 1 : 0,
+      criteria: JSON.stringify(criteria),
+      actions: JSON.stringify(actions),
+      matchSender: criteria.from ?? null,
+      matchSubject: criteria.subject ?? null,
+      mirrorToProvider: mirrorToProvider ? 1 : 0,
+      ...mirror,
+      updatedAt: nowTimestamp(),
+    })
+    .where(eq(tables.mailRules.id, rule.id))
+    .returning()
+
+  if (!updated) {
+    throw new Error('Failed to update mail rule')
+  }
+
+  return updated
+}
+
+/**
+ * Delete a mail rule and its Gmail filter
+ * A filter that can't be deleted (e.g. revoked access) is left behind and logged.
+ */
+export async function deleteMailRule(rule: MailRule): Promise<void> {
+  if (rule.providerRuleId) {
+    try {
+      await syncProviderFilter(rule.mailAccountId, {
+        providerRuleId: rule.providerRuleId,
+        criteria: {},
+        actions: {},
+        mirror: false,
+      })
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.warn(`[MailRules] Could not delete Gmail filter of rule ${rule.id}:`, errorMessage)
+    }
+  }
+
+  await db.delete(tables.mailRules).where(eq(tables.mailRules.id, rule.id))
+}
+
+// ============================================================================
+// Rule Evaluation
+// ============================================================================
+
+/**
+ * Drop matches whose sender has ever been sent mail from this account
+ */
+async function filterNotRepliedTo(accountId: string, matches: RuleMatch[]): Promise<RuleMatch[]> {
+  const senders = [...new Set(matches.map((match) => match.fromEmail.toLowerCase()))]
+  const replied = new Set<string>()
+
+  for (let i = 0; i < senders.length; i += MATCH_BATCH_SIZE) {
+    const batch = senders.slice(i, i + MATCH_BATCH_SIZE)
+    for (const sender of await getSentToAddresses(accountId, batch)) {
+      replied.add(sender)
+    }
+  }
+
+  return matches.filter((match) => !replied.has(match.fromEmail.toLowerCase()))
+}
+
+/**
+ * Find the messages a rule matches
+ * @param messageIds - Only consider these messages (all messages when omitted)
+ */
+async function getRuleMatches(
+  accountId: string,
+  criteria: MailRuleCriteria,
+  messageIds?: string[]
+): Promise<RuleMatch[]> {
+  const filters = toExplorerFilters(criteria)
+
+  let matches: RuleMatch[] = []
+  if (messageIds) {
+    for (let i = 0; i < messageIds.length; i += MATCH_BATCH_SIZE) {
+      const batch = messageIds.slice(i, i + MATCH_BATCH_SIZE)
+      matches.push(...(await getMessageLabelsByFilters(accountId, filters, batch)))
+    }
+  } else {
+    matches = await getMessageLabelsByFilters(accountId, filters)
+  }
+
+  return criteria.notRepliedTo ? filterNotRepliedTo(accountId, matches) : matches
+}
+
+function needsLabelChange(
+  match: RuleMatch,
+  addLabelIds: string[],
+  removeLabelIds: string[]
+): boolean {
+  return (
+    addLabelIds.some((labelId) => !match.labels.includes(labelId)) ||
+    removeLabelIds.some((labelId) => match.labels.includes(labelId))
+  )
+}
+
+/**
+ * Whether applying the actions would change a message
+ */
+function needsChange(match: RuleMatch, actions: MailRuleActions): boolean {
+  const { addLabelIds, removeLabelIds } = toLabelChanges(actions)
+  return needsLabelChange(match, addLabelIds, removeLabelIds)
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE))
+  }
+  return chunks
+}
+
+/**
+ * Apply a rule's actions to messages in the mailbox and mirror them locally
+ * Labels are changed first, then messages are archived, then trashed.
+ */
+async function applyActions(
+  accountId: string,
+  actions: MailRuleActions,
+  matches: RuleMatch[]
+): Promise<void> {
+  const provider = await getMailProvider(accountId)
+
+  const addLabelIds = actions.addLabelIds ?? []
+  const removeLabelIds = [
+    ...(actions.removeLabelIds ?? []),
+    ...(actions.markRead ? ['UNREAD'] : []),
+  ]
+  const toRelabel = matches.filter((match) => needsLabelChange(match, addLabelIds, removeLabelIds))
+  for (const messageIds of chunk(toRelabel.map((match) => match.messageId))) {
+    const { failed } = await provider.modifyLabels(accountId, messageIds, {
+      addLabelIds,
+      removeLabelIds,
+    })
+    if (failed > 0) {
+      throw new Error(`Failed to update labels on ${failed} emails`)
+    }
+    for (const messageId of messageIds) {
+      await updateEmailLabels(accountId, messageId, addLabelIds, removeLabelIds)
+    }
+  }
+
+  if (actions.archive) {
+    const inInbox = matches.filter((match) => match.labels.includes('INBOX'))
+    for (const messageIds of chunk(inInbox.map((match) => match.messageId))) {
+      const { failed } = await provider.archiveMessages(accountId, messageIds)
+      if (failed > 0) {
+        throw new Error(`Failed to archive ${failed} emails`)
+      }
+      for (const messageId of messageIds) {
+        await updateEmailLabels(accountId, messageId, [], ['INBOX'])
+      }
+    }
+  }
+
+  if (actions.trash) {
+    for (const messageIds of chunk(matches.map((match) => match.messageId))) {
+      const { failed } = await provider.trashMessages(accountId, messageIds)
+      if (failed > 0) {
+        throw new Error(`Failed to trash ${failed} emails`)
+      }
+      await markEmailsAsTrashed(accountId, messageIds)
+    }
+  }
+}
+
+/**
+ * Evaluate a rule and apply its actions to the messages it would change
+ *
+ * @param messageIds - Only consider these messages (the whole mailbox when omitted)
+ * @param options.dryRun - Only count the messages that would change
+ * @returns Number of messages changed (or that would change)
+ */
+export async function applyMailRule(
+  rule: MailRule,
+  messageIds?: string[],
+  options: { dryRun?: boolean } = {}
+): Promise<number> {
+  const criteria = parseMailRuleCriteria(rule)
+  const actions = parseMailRuleActions(rule)
+
+  const matches = (await getRuleMatches(rule.mailAccountId, criteria, messageIds)).filter((match) =>
+    needsChange(match, actions)
+  )
+  if (matches.length === 0 || options.dryRun) {
+    return matches.length
+  }
+
+  await applyActions(rule.mailAccountId, actions, matches)
+
+  await db
+    .update(tables.mailRules)
+    .set({
+      appliedCount: sql`${tables.mailRules.appliedCount} + ${matches.length}`,
+      lastAppliedAt: nowTimestamp(),
+    })
+    .where(eq(tables.mailRules.id, rule.id))
+
+  logger.debug(`[MailRules] Rule ${rule.id} changed ${matches.length} emails`)
+  return matches.length
+}
+
+/**
+ * Apply rules one after another; a failing rule is logged and the others still run
+ * @returns Number of messages changed
+ */
+async function applyRules(rules: MailRule[], messageIds?: string[]): Promise<number> {
+  let changed = 0
+
+  for (const rule of rules) {
+    try {
+      changed += await applyMailRule(rule, messageIds)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error(`[MailRules] Rule ${rule.id} failed:`, errorMessage)
+    }
+  }
+
+  return changed
+}
+
+async function getEnabledRules(accountId: string): Promise<MailRule[]> {
+  return db
+    .select()
+    .from(tables.mailRules)
+    .where(and(eq(tables.mailRules.mailAccountId, accountId), eq(tables.mailRules.isEnabled, 1)))
+    .orderBy(asc(tables.mailRules.sequence), asc(tables.mailRules.createdAt))
+}
+
+/**
+ * Apply the account's enabled rules to newly synced messages
+ * Called after each delta sync with the IDs of the added messages.
+ * @returns Number of messages changed
+ */
+export async function applyMailRulesToNewMail(
+  accountId: string,
+  messageIds: string[]
+): Promise<number> {
+  if (messageIds.length === 0) return 0
+
+  const rules = await getEnabledRules(accountId)
+  if (rules.length === 0) return 0
+
+  return applyRules(rules, messageIds)
+}
+
+/**
+ * Apply the account's enabled age-based rules to the whole mailbox
+ * @returns Number of messages changed
+ */
+export async function applyAgedMailRules(accountId: string): Promise<number> {
+  const rules = (await getEnabledRules(accountId)).filter(
+    (rule) => parseMailRuleCriteria(rule).olderThanDays !== undefined
+  )
+  if (rules.length === 0) return 0
+
+  return applyRules(rules)
+}
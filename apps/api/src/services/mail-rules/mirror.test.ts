@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, spyOn, test } from 'bun:test'
+import { nanoid } from '../../lib/id'
+import * as providers from '../providers'
+import type { MailProviderClient } from '../providers'
+import type { GmailFilter } from '../filters'
+import { createTestAccount } from '../../test/helpers'
+import { createMailRule, getMailRule } from '.'
+import { detectMailRuleDrift } from './mirror'
+
+const getMailProvider = spyOn(providers, 'getMailProvider')
+
+// The account's filters in Gmail
+let gmailFilters: GmailFilter[] = []
+
+let accountId: string
+let ruleId: string
+let mirrored: GmailFilter
+
+async function driftDetectedAt() {
+  return (await getMailRule(accountId, ruleId))!.driftDetectedAt
+}
+
+beforeAll(async () => {
+  getMailProvider.mockResolvedValue({
+    createFilter: async (_accountId, criteria, action) => {
+      const filter = { id: nanoid(), criteria, action }
+      gmailFilters.push(filter)
+      return filter
+    },
+    listFilters: async () => gmailFilters,
+  } as Partial<MailProviderClient> as MailProviderClient)
+  ;({ accountId } = await createTestAccount())
+  const rule = await createMailRule(accountId, {
+    name: 'Shop',
+    criteria: { from: 'shop.com' },
+    actions: { archive: true },
+    isEnabled: true,
+    mirrorToProvider: true,
+  })
+  ruleId = rule.id
+  mirrored = gmailFilters.find((filter) => filter.id === rule.providerRuleId)!
+})
+
+afterAll(() => {
+  getMailProvider.mockRestore()
+})
+
+describe('detectMailRuleDrift', () => {
+  test('an unchanged filter has not drifted', async () => {
+    expect(await detectMailRuleDrift(accountId)).toBe(0)
+    expect(await driftDetectedAt()).toBeNull()
+  })
+
+  test('a filter edited in Gmail has drifted', async () => {
+    gmailFilters = [{ ...mirrored, action: { addLabelIds: ['TRASH'] } }]
+
+    expect(await detectMailRuleDrift(accountId)).toBe(1)
+    expect(await driftDetectedAt()).not.toBeNull()
+  })
+
+  test('a filter deleted in Gmail has drifted', async () => {
+    gmailFilters = []
+
+    expect(await detectMailRuleDrift(accountId)).toBe(1)
+    expect(await driftDetectedAt()).not.toBeNull()
+  })
+
+  test('a filter changed back is unflagged', async () => {
+    gmailFilters = [mirrored]
+
+    expect(await detectMailRuleDrift(accountId)).toBe(0)
+    expect(await driftDetectedAt()).toBeNull()
+  })
+})
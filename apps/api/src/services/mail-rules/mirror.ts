@@ -0,0 +1,220 @@
+/**
+ * Mirroring mail rules to Gmail filters
+ *
+ * A mirrored rule keeps the ID of its Gmail filter (providerRuleId) and a snapshot
+ * of the filter as last written. Gmail then applies the rule at delivery too, and
+ * the snapshot lets drift detection notice when someone edits or deletes the
+ * filter in Gmail directly.
+ */
+
+import { and, eq, isNotNull } from 'drizzle-orm'
+import { db, tables, dbType } from '../../db'
+import type { MailRule } from '../../db'
+import { getMailProvider, requireGmailAccount } from '../providers'
+import { isSameFilter } from '../filters'
+import { logger } from '../../lib/logger'
+import {
+  toProviderFilter,
+  fromProviderFilter,
+  parseMailRuleCriteria,
+  parseMailRuleActions,
+  parseProviderSnapshot,
+  type MailRuleCriteria,
+  type MailRuleActions,
+} from './criteria'
+
+/**
+ * Thrown when a rule can't be mirrored, or a Gmail filter can't be turned into a rule
+ */
+export class MailRuleMirrorError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MailRuleMirrorError'
+  }
+}
+
+/**
+ * Mirror columns of a mail rule
+ */
+export interface MirrorState {
+  providerRuleId: string | null
+  providerSnapshot: string | null
+  syncedAt: Date | null
+  driftDetectedAt: Date | null
+}
+
+const NOT_MIRRORED: MirrorState = {
+  providerRuleId: null,
+  providerSnapshot: null,
+  syncedAt: null,
+  driftDetectedAt: null,
+}
+
+function nowTimestamp(): Date {
+  return (dbType === 'postgres' ? new Date() : new Date().toISOString()) as Date
+}
+
+/**
+ * Delete a Gmail filter, ignoring filters that are already gone
+ */
+async function deleteProviderFilter(accountId: string, filterId: string): Promise<void> {
+  const provider = await getMailProvider(accountId)
+  try {
+    await provider.deleteFilter(accountId, filterId)
+  } catch (error) {
+    if ((error as { code?: number }).code !== 404) {
+      throw error
+    }
+  }
+}
+
+/**
+ * Bring the Gmail filter of a rule in line with the rule
+ *
+ * Enabled rules with mirroring on get their filter (re)created - Gmail has no filter
+ * update - and every other rule loses the filter it had.
+ * @returns The rule's new mirror columns
+ */
+export async function syncProviderFilter(
+  accountId: string,
+  rule: {
+    providerRuleId: string | null
+    criteria: MailRuleCriteria
+    actions: MailRuleActions
+    mirror: boolean
+  }
+): Promise<MirrorState> {
+  if (!rule.mirror) {
+    if (rule.providerRuleId) {
+      await deleteProviderFilter(accountId, rule.providerRuleId)
+    }
+    return NOT_MIRRORED
+  }
+
+  await requireGmailAccount(accountId, 'Mirroring rules')
+
+  const filter = toProviderFilter(rule.criteria, rule.actions)
+  if (!filter) {
+    throw new MailRuleMirrorError("This rule uses criteria Gmail filters can't express")
+  }
+
+  if (rule.providerRuleId) {
+    await deleteProviderFilter(accountId, rule.providerRuleId)
+  }
+
+  const provider = await getMailProvider(accountId)
+  const created = await provider.createFilter(accountId, filter.criteria, filter.action)
+
+  return {
+    providerRuleId: created.id,
+    providerSnapshot: JSON.stringify({ criteria: created.criteria, action: created.action }),
+    syncedAt: nowTimestamp(),
+    driftDetectedAt: null,
+  }
+}
+
+/**
+ * Compare mirrored rules with the account's Gmail filters and flag the ones that drifted
+ *
+ * A filter drifted when it no longer exists or differs from the snapshot taken when it
+ * was written. Rules whose filter was changed back are unflagged.
+ * @returns Number of mirrored rules currently drifted
+ */
+export async function detectMailRuleDrift(accountId: string): Promise<number> {
+  const mirrored = await db
+    .select()
+    .from(tables.mailRules)
+    .where(
+      and(eq(tables.mailRules.mailAccountId, accountId), isNotNull(tables.mailRules.providerRuleId))
+    )
+  if (mirrored.length === 0) return 0
+
+  const provider = await getMailProvider(accountId)
+  const filters = new Map((await provider.listFilters(accountId)).map((f) => [f.id, f]))
+
+  let drifted = 0
+  for (const rule of mirrored) {
+    const current = filters.get(rule.providerRuleId!)
+    const snapshot = parseProviderSnapshot(rule)
+    const hasDrifted = !current || !snapshot || !isSameFilter(current, snapshot)
+
+    if (hasDrifted) {
+      drifted++
+    }
+    if (hasDrifted && !rule.driftDetectedAt) {
+      logger.debug(`[MailRules] Gmail filter of rule ${rule.id} was changed outside Inboxorcist`)
+      await db
+        .update(tables.mailRules)
+        .set({ driftDetectedAt: nowTimestamp() })
+        .where(eq(tables.mailRules.id, rule.id))
+    } else if (!hasDrifted && rule.driftDetectedAt) {
+      await db
+        .update(tables.mailRules)
+        .set({ driftDetectedAt: null })
+        .where(eq(tables.mailRules.id, rule.id))
+    }
+  }
+
+  return drifted
+}
+
+/**
+ * Resolve a drifted rule
+ *
+ * - push: rewrite the Gmail filter from the rule
+ * - pull: take the Gmail filter's criteria and actions into the rule; when the filter
+ *   was deleted in Gmail the rule stops being mirrored
+ */
+export async function resolveMailRuleDrift(
+  rule: MailRule,
+  strategy: 'push' | 'pull'
+): Promise<MailRule> {
+  let values: Partial<MailRule>
+
+  if (strategy === 'push') {
+    values = await syncProviderFilter(rule.mailAccountId, {
+      providerRuleId: rule.providerRuleId,
+      criteria: parseMailRuleCriteria(rule),
+      actions: parseMailRuleActions(rule),
+      mirror: true,
+    })
+  } else {
+    const provider = await getMailProvider(rule.mailAccountId)
+    const filter = rule.providerRuleId
+      ? await provider.getFilter(rule.mailAccountId, rule.providerRuleId)
+      : null
+
+    if (!filter) {
+      values = { ...NOT_MIRRORED, mirrorToProvider: 0 }
+    } else {
+      const pulled = fromProviderFilter(filter)
+      if (!pulled) {
+        throw new MailRuleMirrorError(
+          "The Gmail filter uses a search query or forwarding, which rules can't express"
+        )
+      }
+      values = {
+        criteria: JSON.stringify(pulled.criteria),
+        actions: JSON.stringify(pulled.actions),
+        matchSender: pulled.criteria.from ?? null,
+        matchSubject: pulled.criteria.subject ?? null,
+        providerSnapshot: JSON.stringify({ criteria: filter.criteria, action: filter.action }),
+        syncedAt: nowTimestamp(),
+        driftDetectedAt: null,
+      }
+    }
+  }
+
+  const [updated] = await db
+    .update(tables.mailRules)
+    .set({ ...values, updatedAt: nowTimestamp() })
+    .where(eq(tables.mailRules.id, rule.id))
+    .returning()
+
+  if (!updated) {
+    throw new Error('Failed to update mail rule')
+  }
+
+  logger.debug(`[MailRules] Resolved drift of rule ${rule.id} (${strategy})`)
+  return updated
+}
@@ -62,7 +62,10 @@ export class AuthExpiredError extends Error {
 /**
  * Mark an account as having expired authentication
  */
-async function markAccountAuthExpired(accountId: string, errorMessage: string): Promise<void> {
+export async function markAccountAuthExpired(
+  accountId: string,
+  errorMessage: string
+): Promise<void> {
   const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
 
   await db
@@ -182,6 +185,12 @@ export async function deleteMailAccountForUser(
     return false
   }
 
+  // Stop Gmail push while the account's tokens still exist
+  if (account.watchExpiration) {
+    const { stopGmailWatch } = await import('./gmail-push')
+    await stopGmailWatch(accountId)
+  }
+
   await db.delete(tables.mailAccounts).where(eq(tables.mailAccounts.id, accountId))
 
   return true
@@ -0,0 +1,191 @@
+/**
+ * Outlook categories as labels
+ *
+ * Messages reference categories by display name, so the name doubles as the
+ * label ID. Graph can't rename a category (only its color can change).
+ * Folder and flag labels (INBOX, TRASH, UNREAD, ...) are listed as system labels.
+ */
+
+import type { GmailLabel, CreateLabelRequest, UpdateLabelRequest, LabelColor } from '../filters'
+import { UnsupportedProviderError } from '../providers/types'
+import { logger } from '../../lib/logger'
+import { graphRequest, graphListAll } from './graph'
+import { FOLDER_LABELS, MESSAGE_LABELS } from './messages'
+
+interface OutlookCategory {
+  id: string
+  displayName: string
+  color: string
+}
+
+/**
+ * Outlook's category color presets (preset0 - preset24)
+ */
+const PRESET_COLORS = [
+  '#e74856', // Red
+  '#ff8c00', // Orange
+  '#ab620d', // Brown
+  '#fff100', // Yellow
+  '#47d041', // Green
+  '#30c6cc', // Teal
+  '#73aa24', // Olive
+  '#4cc2ff', // Blue
+  '#a86ee8', // Purple
+  '#ee5fb7', // Cranberry
+  '#8e9fae', // Steel
+  '#4f6bed', // Dark steel
+  '#a0aeb2', // Gray
+  '#5d5a58', // Dark gray
+  '#000000', // Black
+  '#750b1c', // Dark red
+  '#ca5010', // Dark orange
+  '#603d30', // Dark brown
+  '#c19c00', // Dark yellow
+  '#107c10', // Dark green
+  '#038387', // Dark teal
+  '#486826', // Dark olive
+  '#004e8c', // Dark blue
+  '#5c2e91', // Dark purple
+  '#a4262c', // Dark cranberry
+]
+
+function presetToColor(preset: string): LabelColor | undefined {
+  const index = parseInt(preset.replace('preset', ''), 10)
+  const backgroundColor = PRESET_COLORS[index]
+  return backgroundColor ? { backgroundColor, textColor: '#ffffff' } : undefined
+}
+
+/**
+ * Closest Outlook preset to a hex color
+ */
+function colorToPreset(color: LabelColor): string {
+  const rgb = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) || 0)
+  const [r, g, b] = rgb(color.backgroundColor) as [number, number, number]
+
+  let best = 0
+  let bestDistance = Infinity
+  PRESET_COLORS.forEach((preset, index) => {
+    const [pr, pg, pb] = rgb(preset) as [number, number, number]
+    const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2
+    if (distance < bestDistance) {
+      best = index
+      bestDistance = distance
+    }
+  })
+
+  return `preset${best}`
+}
+
+function toLabel(category: OutlookCategory): GmailLabel {
+  return {
+    id: category.displayName,
+    name: category.displayName,
+    type: 'user',
+    color: presetToColor(category.color),
+  }
+}
+
+const SYSTEM_LABELS: GmailLabel[] = [...Object.values(FOLDER_LABELS), ...MESSAGE_LABELS].map(
+  (id) => ({ id, name: id, type: 'system' })
+)
+
+async function listCategories(accountId: string): Promise<OutlookCategory[]> {
+  return graphListAll<OutlookCategory>(accountId, '/me/outlook/masterCategories')
+}
+
+async function findCategory(accountId: string, name: string): Promise<OutlookCategory | null> {
+  const categories = await listCategories(accountId)
+  return categories.find((c) => c.displayName.toLowerCase() === name.toLowerCase()) || null
+}
+
+/**
+ * List system labels and categories
+ */
+export async function listOutlookLabels(accountId: string): Promise<GmailLabel[]> {
+  const categories = await listCategories(accountId)
+  return [...SYSTEM_LABELS, ...categories.map(toLabel)]
+}
+
+/**
+ * Get a label by ID (system label or category name)
+ */
+export async function getOutlookLabel(
+  accountId: string,
+  labelId: string
+): Promise<GmailLabel | null> {
+  const systemLabel = SYSTEM_LABELS.find((label) => label.id === labelId)
+  if (systemLabel) return systemLabel
+
+  const category = await findCategory(accountId, labelId)
+  return category ? toLabel(category) : null
+}
+
+/**
+ * Create a category
+ */
+export async function createOutlookLabel(
+  accountId: string,
+  request: CreateLabelRequest
+): Promise<GmailLabel> {
+  if (await findCategory(accountId, request.name)) {
+    throw new Error(`Category "${request.name}" already exists`)
+  }
+
+  const category = await graphRequest<OutlookCategory>(
+    accountId,
+    'POST',
+    '/me/outlook/masterCategories',
+    {
+      body: {
+        displayName: request.name,
+        color: request.color ? colorToPreset(request.color) : 'preset7',
+      },
+    }
+  )
+
+  logger.debug(`[Outlook] Created category "${category.displayName}" for account ${accountId}`)
+  return toLabel(category)
+}
+
+/**
+ * Update a category's color
+ */
+export async function updateOutlookLabel(
+  accountId: string,
+  labelId: string,
+  request: UpdateLabelRequest
+): Promise<GmailLabel> {
+  const category = await findCategory(accountId, labelId)
+  if (!category) {
+    throw new Error('Failed to update label: category not found')
+  }
+
+  if (request.name !== undefined && request.name !== category.displayName) {
+    throw new UnsupportedProviderError('Renaming categories', 'outlook')
+  }
+
+  if (!request.color) {
+    return toLabel(category)
+  }
+
+  const updated = await graphRequest<OutlookCategory>(
+    accountId,
+    'PATCH',
+    `/me/outlook/masterCategories/${category.id}`,
+    { body: { color: colorToPreset(request.color) } }
+  )
+
+  logger.debug(`[Outlook] Updated category "${category.displayName}" for account ${accountId}`)
+  return toLabel({ ...category, ...updated })
+}
+
+/**
+ * Delete a category (messages keep the name but it loses its color)
+ */
+export async function deleteOutlookLabel(accountId: string, labelId: string): Promise<void> {
+  const category = await findCategory(accountId, labelId)
+  if (!category) return
+
+  await graphRequest(accountId, 'DELETE', `/me/outlook/masterCategories/${category.id}`)
+  logger.debug(`[Outlook] Deleted category "${category.displayName}" for account ${accountId}`)
+}
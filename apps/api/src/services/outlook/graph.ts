@@ -0,0 +1,221 @@
+/**
+ * Microsoft Graph client
+ *
+ * Thin fetch wrapper for the Graph REST API: bearer auth with automatic token
+ * refresh, retries on throttling (429 + Retry-After) and server errors, paging
+ * through @odata.nextLink and JSON $batch requests (20 per batch).
+ *
+ * Every request asks for immutable IDs, so a message keeps its ID when it is
+ * moved between folders (Deleted Items, Archive, ...).
+ */
+
+import { withRetry } from '../../lib/retry'
+import { logger } from '../../lib/logger'
+import { getValidGraphAccessToken } from './oauth'
+
+const DEFAULT_GRAPH_URL = 'https://graph.microsoft.com/v1.0'
+
+// Graph's limit for requests in one $batch
+const GRAPH_BATCH_SIZE = 20
+
+/**
+ * Graph API base URL - MICROSOFT_GRAPH_URL points it at a mock server in development
+ */
+export function getGraphBaseUrl(): string {
+  return (process.env.MICROSOFT_GRAPH_URL?.trim() || DEFAULT_GRAPH_URL).replace(/\/+$/, '')
+}
+
+/**
+ * Error response from Graph
+ * status/headers follow the shape lib/retry expects for retries and Retry-After.
+ */
+export class GraphError extends Error {
+  status: number
+  code: string
+  headers: { 'retry-after'?: string }
+
+  constructor(status: number, code: string, message: string, retryAfter?: string | null) {
+    super(message)
+    this.name = 'GraphError'
+    this.status = status
+    this.code = code
+    this.headers = retryAfter ? { 'retry-after': retryAfter } : {}
+  }
+}
+
+export interface GraphRequestOptions {
+  body?: unknown
+  /** Extra Prefer header values, e.g. odata.maxpagesize=100 */
+  prefer?: string[]
+  maxRetries?: number
+}
+
+/**
+ * Parse a Graph error body ({ error: { code, message } })
+ */
+async function toGraphError(response: Response): Promise<GraphError> {
+  const body = (await response.json().catch(() => null)) as {
+    error?: { code?: string; message?: string }
+  } | null
+
+  return new GraphError(
+    response.status,
+    body?.error?.code || `HTTP${response.status}`,
+    body?.error?.message || `Graph request failed with status ${response.status}`,
+    response.headers.get('retry-after')
+  )
+}
+
+/**
+ * Send one Graph request for an account
+ *
+ * @param path - Path relative to the Graph base URL, or an absolute nextLink/deltaLink
+ */
+export async function graphRequest<T>(
+  accountId: string,
+  method: string,
+  path: string,
+  options: GraphRequestOptions = {}
+): Promise<T> {
+  const url = path.startsWith('http') ? path : `${getGraphBaseUrl()}${path}`
+  const prefer = ['IdType="ImmutableId"', ...(options.prefer || [])].join(', ')
+
+  return withRetry(
+    async () => {
+      const accessToken = await getValidGraphAccessToken(accountId)
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Prefer: prefer,
+          ...(options.body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      })
+
+      if (!response.ok) {
+        throw await toGraphError(response)
+      }
+
+      if (response.status === 204) {
+        return undefined as T
+      }
+
+      const text = await response.text()
+      return (text ? JSON.parse(text) : undefined) as T
+    },
+    {
+      maxRetries: options.maxRetries ?? 3,
+      onRetry: (error, attempt, delay) => {
+        logger.debug(
+          `[Graph] Retry ${attempt} for ${method} ${path} in ${delay}ms: ${error.message}`
+        )
+      },
+    }
+  )
+}
+
+/**
+ * A page of a Graph collection
+ */
+export interface GraphPage<T> {
+  value: T[]
+  '@odata.nextLink'?: string
+  '@odata.deltaLink'?: string
+}
+
+/**
+ * Fetch every item of a collection, following nextLinks
+ */
+export async function graphListAll<T>(accountId: string, path: string): Promise<T[]> {
+  const items: T[] = []
+  let next: string | undefined = path
+
+  while (next) {
+    const page: GraphPage<T> = await graphRequest<GraphPage<T>>(accountId, 'GET', next)
+    items.push(...page.value)
+    next = page['@odata.nextLink']
+  }
+
+  return items
+}
+
+/**
+ * One request inside a $batch
+ */
+export interface GraphBatchRequest {
+  id: string
+  method: string
+  /** Path relative to the Graph base URL */
+  url: string
+  body?: unknown
+}
+
+export interface GraphBatchResponse {
+  id: string
+  status: number
+  body?: unknown
+}
+
+/**
+ * Send requests through JSON $batch, 20 at a time
+ *
+ * Sub-requests that are throttled (429) are retried in the next round;
+ * other failures are returned with their status for the caller to count.
+ */
+export async function graphBatch(
+  accountId: string,
+  requests: GraphBatchRequest[]
+): Promise<Map<string, GraphBatchResponse>> {
+  const results = new Map<string, GraphBatchResponse>()
+
+  for (let i = 0; i < requests.length; i += GRAPH_BATCH_SIZE) {
+    let pending = requests.slice(i, i + GRAPH_BATCH_SIZE)
+
+    for (let round = 0; pending.length > 0 && round <= 3; round++) {
+      const { responses } = await graphRequest<{ responses: GraphBatchResponse[] }>(
+        accountId,
+        'POST',
+        '/$batch',
+        {
+          body: {
+            requests: pending.map((request) => ({
+              id: request.id,
+              method: request.method,
+              url: request.url,
+              headers: {
+                Prefer: 'IdType="ImmutableId"',
+                ...(request.body !== undefined && { 'Content-Type': 'application/json' }),
+              },
+              ...(request.body !== undefined && { body: request.body }),
+            })),
+          },
+        }
+      )
+
+      const throttled = new Set<string>()
+      for (const response of responses) {
+        if (response.status === 429 && round < 3) {
+          throttled.add(response.id)
+        } else {
+          results.set(response.id, response)
+        }
+      }
+
+      pending = pending.filter((request) => throttled.has(request.id))
+      if (pending.length > 0) {
+        logger.debug(`[Graph] ${pending.length} batch requests throttled, retrying`)
+        await new Promise((resolve) => setTimeout(resolve, 2000 * (round + 1)))
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Whether a batch sub-response succeeded
+ */
+export function isBatchSuccess(response: GraphBatchResponse | undefined): boolean {
+  return !!response && response.status >= 200 && response.status < 300
+}
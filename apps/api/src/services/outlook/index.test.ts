@@ -0,0 +1,185 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import type { Subprocess } from 'bun'
+import { connectMailAccount, createUser } from '../auth'
+import { nanoid } from '../../lib/id'
+import type { EmailRecord } from '../emails'
+import { getFreePort, startMockServer } from '../../test/helpers'
+import { outlookProvider } from '.'
+
+const MOCK_EMAIL = 'mock.user@outlook.com'
+const MOCK_MESSAGES = 30
+
+let server: Subprocess
+let baseUrl: string
+let accountId: string
+let cursor: string
+
+interface MockState {
+  messages: number
+  folders: Array<{ name: string; count: number }>
+  categories: Array<{ displayName: string }>
+  rules: Array<{ id: string; displayName: string }>
+}
+
+async function getMockState(): Promise<MockState> {
+  return (await fetch(`${baseUrl}/mock/state`)).json() as Promise<MockState>
+}
+
+function folderCount(state: MockState, name: string): number {
+  return state.folders.find((folder) => folder.name === name)?.count ?? 0
+}
+
+/**
+ * Read a message straight from the mock mailbox
+ */
+async function getMockMessage(id: string): Promise<{ categories: string[] } | null> {
+  const res = await fetch(`${baseUrl}/v1.0/me/messages/${id}`, {
+    headers: { Authorization: 'Bearer mock-access-1' },
+  })
+  return res.ok ? ((await res.json()) as { categories: string[] }) : null
+}
+
+/**
+ * Fetch changes since the stored cursor and keep the new one
+ */
+async function fetchChanges() {
+  const changes = await outlookProvider.fetchChanges(accountId, cursor)
+  cursor = changes.newCursor
+  return changes
+}
+
+beforeAll(async () => {
+  const port = getFreePort()
+  baseUrl = `http://localhost:${port}`
+  server = await startMockServer('mock-graph.ts', [
+    '--port',
+    String(port),
+    '--messages',
+    String(MOCK_MESSAGES),
+    '--email',
+    MOCK_EMAIL,
+  ])
+
+  process.env.MICROSOFT_CLIENT_ID = 'mock'
+  process.env.MICROSOFT_CLIENT_SECRET = 'mock'
+  process.env.MICROSOFT_LOGIN_URL = baseUrl
+  process.env.MICROSOFT_GRAPH_URL = `${baseUrl}/v1.0`
+
+  const user = await createUser({ googleId: nanoid(), email: MOCK_EMAIL })
+  ;({ accountId } = await connectMailAccount(
+    user.id,
+    MOCK_EMAIL,
+    {
+      accessToken: 'mock-access-1',
+      refreshToken: 'mock-refresh-1',
+      expiryDate: Date.now() + 60 * 60 * 1000,
+      scope: 'Mail.ReadWrite',
+      tokenType: 'Bearer',
+    },
+    'outlook'
+  ))
+})
+
+afterAll(() => {
+  server.kill()
+  delete process.env.MICROSOFT_CLIENT_ID
+  delete process.env.MICROSOFT_CLIENT_SECRET
+  delete process.env.MICROSOFT_LOGIN_URL
+  delete process.env.MICROSOFT_GRAPH_URL
+})
+
+describe('Outlook provider', () => {
+  test('full sync lists every message and returns the deltaLinks', async () => {
+    const emails: EmailRecord[] = []
+    let syncCursor: string | undefined
+
+    for await (const page of outlookProvider.listMessages(accountId, {})) {
+      emails.push(...page.emails)
+      syncCursor = page.syncCursor ?? syncCursor
+    }
+
+    expect(emails).toHaveLength(MOCK_MESSAGES)
+    expect(syncCursor).toBeDefined()
+    expect(Object.values(JSON.parse(syncCursor!))).not.toHaveLength(0)
+    cursor = syncCursor!
+  })
+
+  test('delta sync from the stored deltaLinks returns only new messages', async () => {
+    expect(await fetchChanges()).toMatchObject({ messages: [], messagesDeleted: [] })
+
+    await fetch(`${baseUrl}/mock/messages?count=2`, { method: 'POST' })
+    const changes = await fetchChanges()
+
+    expect(changes.messages).toHaveLength(2)
+    expect(changes.messagesDeleted).toHaveLength(0)
+    for (const email of changes.messages) {
+      expect(JSON.parse(email.labels)).toContain('INBOX')
+    }
+  })
+
+  test('trashing moves messages to Deleted Items', async () => {
+    await fetch(`${baseUrl}/mock/messages?count=1`, { method: 'POST' })
+    const [email] = (await fetchChanges()).messages
+    const before = await getMockState()
+
+    const result = await outlookProvider.trashMessages(accountId, [
+      email!.message_id,
+      'msg-missing',
+    ])
+
+    expect(result).toEqual({ succeeded: 1, failed: 1, failedIds: ['msg-missing'] })
+    const after = await getMockState()
+    expect(folderCount(after, 'Deleted Items')).toBe(folderCount(before, 'Deleted Items') + 1)
+    expect(folderCount(after, 'Inbox')).toBe(folderCount(before, 'Inbox') - 1)
+
+    // A move is a change, not a deletion
+    const changes = await fetchChanges()
+    expect(changes.messagesDeleted).toHaveLength(0)
+    expect(JSON.parse(changes.messages[0]!.labels)).toContain('TRASH')
+  })
+
+  test('permanent delete removes messages from the mailbox', async () => {
+    await fetch(`${baseUrl}/mock/messages?count=1`, { method: 'POST' })
+    const [email] = (await fetchChanges()).messages
+    const before = await getMockState()
+
+    await outlookProvider.deleteMessages(accountId, [email!.message_id])
+
+    expect((await getMockState()).messages).toBe(before.messages - 1)
+    expect(await getMockMessage(email!.message_id)).toBeNull()
+    expect((await fetchChanges()).messagesDeleted).toEqual([email!.message_id])
+  })
+
+  test('categories work as labels', async () => {
+    const label = await outlookProvider.createLabel(accountId, { name: 'Project X' })
+    expect(label.id).toBe('Project X')
+    expect((await outlookProvider.listLabels(accountId)).map((l) => l.id)).toContain('Project X')
+
+    await fetch(`${baseUrl}/mock/messages?count=1`, { method: 'POST' })
+    const [email] = (await fetchChanges()).messages
+    const result = await outlookProvider.modifyLabels(accountId, [email!.message_id], {
+      addLabelIds: ['Project X'],
+    })
+
+    expect(result).toEqual({ modified: 1, failed: 0, failedIds: [] })
+    expect((await getMockMessage(email!.message_id))?.categories).toEqual(['Project X'])
+
+    await outlookProvider.deleteLabel(accountId, 'Project X')
+    expect((await getMockState()).categories.map((c) => c.displayName)).not.toContain('Project X')
+  })
+
+  test('filters are stored as inbox rules', async () => {
+    const filter = await outlookProvider.createFilter(
+      accountId,
+      { from: 'deals@shop.example' },
+      { addLabelIds: ['TRASH'] }
+    )
+
+    expect(filter.criteria).toEqual({ from: 'deals@shop.example' })
+    expect(filter.action).toEqual({ addLabelIds: ['TRASH'] })
+    expect((await outlookProvider.listFilters(accountId)).map((f) => f.id)).toContain(filter.id)
+
+    await outlookProvider.deleteFilter(accountId, filter.id)
+    expect((await getMockState()).rules).toHaveLength(0)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Outlook / Microsoft 365 provider
+ *
+ * Implements the provider interface on top of Microsoft Graph.
+ * The delta cursor is the JSON object of per-folder deltaLinks, produced by the full sync.
+ */
+
+import type { MailProviderClient } from '../providers/types'
+import {
+  getOutlookQuickStats,
+  listOutlookMessages,
+  fetchOutlookChanges,
+  trashOutlookMessages,
+  archiveOutlookMessages,
+  permanentlyDeleteOutlookMessages,
+  untrashOutlookMessages,
+  modifyOutlookLabels,
+} from './messages'
+import {
+  listOutlookLabels,
+  getOutlookLabel,
+  createOutlookLabel,
+  updateOutlookLabel,
+  deleteOutlookLabel,
+} from './categories'
+import {
+  listOutlookFilters,
+  getOutlookFilter,
+  createOutlookFilter,
+  updateOutlookFilter,
+  deleteOutlookFilter,
+} from './rules'
+
+export { isMicrosoftConfigured, generateMicrosoftAuthUrl, exchangeMicrosoftCode } from './oauth'
+
+export const outlookProvider: MailProviderClient = {
+  name: 'outlook',
+
+  getQuickStats: getOutlookQuickStats,
+  listMessages: listOutlookMessages,
+  getSyncCursor: async () => null,
+  fetchChanges: fetchOutlookChanges,
+
+  trashMessages: trashOutlookMessages,
+  archiveMessages: archiveOutlookMessages,
+  deleteMessages: permanentlyDeleteOutlookMessages,
+  untrashMessages: untrashOutlookMessages,
+  modifyLabels: modifyOutlookLabels,
+
+  listLabels: listOutlookLabels,
+  getLabel: getOutlookLabel,
+  createLabel: createOutlookLabel,
+  updateLabel: updateOutlookLabel,
+  deleteLabel: deleteOutlookLabel,
+
+  listFilters: listOutlookFilters,
+  getFilter: getOutlookFilter,
+  createFilter: createOutlookFilter,
+  updateFilter: updateOutlookFilter,
+  deleteFilter: deleteOutlookFilter,
+}
@@ -0,0 +1,720 @@
+/**
+ * Outlook messages via Microsoft Graph
+ *
+ * Sync and message actions for Outlook / Microsoft 365 mailboxes.
+ *
+ * Graph has no mailbox-wide history, so sync runs a delta query per mail folder:
+ * the first round lists every message (full sync) and ends with a deltaLink,
+ * later rounds from that deltaLink return only what changed. The deltaLinks of
+ * all folders are stored together as the account's sync cursor (JSON object).
+ *
+ * Folders map to Gmail-style system labels (Inbox -> INBOX, Deleted Items -> TRASH,
+ * Junk Email -> SPAM, ...), read/flag/importance to UNREAD/STARRED/IMPORTANT and
+ * Outlook categories to labels named after the category. Messages in Archive or
+ * custom folders carry no folder label, like archived Gmail messages.
+ */
+
+import type { EmailRecord, AttachmentMeta } from '../emails'
+import { parseAddressList, parseListId, parseUnsubscribeHeader } from '../gmail'
+import { logger } from '../../lib/logger'
+import {
+  graphRequest,
+  graphListAll,
+  graphBatch,
+  isBatchSuccess,
+  GraphError,
+  type GraphPage,
+  type GraphBatchRequest,
+} from './graph'
+
+// Messages per delta page (Graph caps message pages at 1000)
+const DELTA_PAGE_SIZE = 200
+
+// Fields kept from each message - everything toEmailRecord reads
+const MESSAGE_FIELDS = [
+  'id',
+  'conversationId',
+  'subject',
+  'bodyPreview',
+  'from',
+  'toRecipients',
+  'ccRecipients',
+  'replyTo',
+  'receivedDateTime',
+  'isRead',
+  'flag',
+  'importance',
+  'categories',
+  'hasAttachments',
+  'parentFolderId',
+].join(',')
+
+// PR_MESSAGE_SIZE - Graph exposes the message size only as a MAPI property
+const MESSAGE_SIZE_PROPERTY = 'Integer 0x0E08'
+
+// Size, attachments and list headers aren't available from delta queries
+const DETAILS_QUERY =
+  `$select=id,internetMessageHeaders` +
+  `&$expand=attachments($select=name,contentType,size,isInline),` +
+  `singleValueExtendedProperties($filter=id eq '${MESSAGE_SIZE_PROPERTY}')`
+
+/**
+ * Well-known folders and the system label their messages carry
+ */
+export const FOLDER_LABELS = {
+  inbox: 'INBOX',
+  deleteditems: 'TRASH',
+  junkemail: 'SPAM',
+  sentitems: 'SENT',
+  drafts: 'DRAFT',
+} as const
+
+export type WellKnownFolder = keyof typeof FOLDER_LABELS | 'archive'
+
+const WELL_KNOWN_FOLDERS: WellKnownFolder[] = [
+  'inbox',
+  'deleteditems',
+  'junkemail',
+  'sentitems',
+  'drafts',
+  'archive',
+]
+
+/**
+ * Labels derived from message fields rather than folders
+ */
+export const MESSAGE_LABELS = ['UNREAD', 'STARRED', 'IMPORTANT'] as const
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface GraphRecipient {
+  emailAddress?: { name?: string; address?: string }
+}
+
+export interface GraphMessage {
+  id: string
+  conversationId?: string
+  subject?: string | null
+  bodyPreview?: string
+  from?: GraphRecipient | null
+  toRecipients?: GraphRecipient[]
+  ccRecipients?: GraphRecipient[]
+  replyTo?: GraphRecipient[]
+  receivedDateTime?: string
+  isRead?: boolean
+  flag?: { flagStatus?: 'notFlagged' | 'flagged' | 'complete' }
+  importance?: 'low' | 'normal' | 'high'
+  categories?: string[]
+  hasAttachments?: boolean
+  parentFolderId?: string
+  '@removed'?: { reason: string }
+}
+
+interface GraphMessageDetails {
+  id: string
+  internetMessageHeaders?: Array<{ name: string; value: string }>
+  attachments?: Array<{ name?: string; contentType?: string; size?: number; isInline?: boolean }>
+  singleValueExtendedProperties?: Array<{ id: string; value: string }>
+}
+
+export interface MailFolder {
+  id: string
+  displayName: string
+  totalItemCount: number
+  childFolderCount: number
+}
+
+/**
+ * Full sync progress, stored as the sync job's page token
+ */
+interface FullSyncState {
+  /** Folder IDs still to list, the current one first */
+  folders: string[]
+  /** nextLink inside the current folder */
+  link: string | null
+  /** deltaLinks of the folders already listed */
+  deltaLinks: Record<string, string>
+}
+
+// ============================================================================
+// Folders
+// ============================================================================
+
+// Folder IDs don't change, so they are looked up once per account
+const wellKnownFolderCache = new Map<string, Promise<Record<WellKnownFolder, string | null>>>()
+
+/**
+ * IDs of the well-known folders (null when the mailbox has no such folder)
+ */
+export function getWellKnownFolders(
+  accountId: string
+): Promise<Record<WellKnownFolder, string | null>> {
+  let folders = wellKnownFolderCache.get(accountId)
+
+  if (!folders) {
+    folders = (async () => {
+      const responses = await graphBatch(
+        accountId,
+        WELL_KNOWN_FOLDERS.map((name) => ({
+          id: name,
+          method: 'GET',
+          url: `/me/mailFolders/${name}?$select=id`,
+        }))
+      )
+
+      return Object.fromEntries(
+        WELL_KNOWN_FOLDERS.map((name) => {
+          const response = responses.get(name)
+          return [name, isBatchSuccess(response) ? (response!.body as { id: string }).id : null]
+        })
+      ) as Record<WellKnownFolder, string | null>
+    })()
+
+    wellKnownFolderCache.set(accountId, folders)
+    folders.catch(() => wellKnownFolderCache.delete(accountId))
+  }
+
+  return folders
+}
+
+/**
+ * Map of folder ID -> system label for the well-known folders
+ */
+async function getFolderLabelMap(accountId: string): Promise<Map<string, string>> {
+  const folders = await getWellKnownFolders(accountId)
+  const labels = new Map<string, string>()
+
+  for (const [name, label] of Object.entries(FOLDER_LABELS)) {
+    const folderId = folders[name as WellKnownFolder]
+    if (folderId) labels.set(folderId, label)
+  }
+
+  return labels
+}
+
+/**
+ * List every mail folder, child folders included
+ */
+export async function listMailFolders(accountId: string): Promise<MailFolder[]> {
+  const select = '$select=id,displayName,totalItemCount,childFolderCount'
+  const folders: MailFolder[] = []
+  let level = await graphListAll<MailFolder>(accountId, `/me/mailFolders?${select}&$top=100`)
+
+  while (level.length > 0) {
+    folders.push(...level)
+
+    const children: MailFolder[] = []
+    for (const folder of level.filter((f) => f.childFolderCount > 0)) {
+      children.push(
+        ...(await graphListAll<MailFolder>(
+          accountId,
+          `/me/mailFolders/${folder.id}/childFolders?${select}&$top=100`
+        ))
+      )
+    }
+    level = children
+  }
+
+  return folders
+}
+
+/**
+ * Total messages across all folders (the sync job's total)
+ */
+export async function getOutlookQuickStats(accountId: string): Promise<{ total: number }> {
+  const folders = await listMailFolders(accountId)
+  const total = folders.reduce((sum, folder) => sum + (folder.totalItemCount || 0), 0)
+
+  logger.debug(`[Outlook] Quick stats: ${folders.length} folders, total=${total}`)
+  return { total }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function getHeader(details: GraphMessageDetails | undefined, name: string): string | null {
+  const header = details?.internetMessageHeaders?.find(
+    (h) => h.name.toLowerCase() === name.toLowerCase()
+  )
+  return header?.value || null
+}
+
+function recipientAddresses(recipients: GraphRecipient[] | undefined): string[] {
+  return [
+    ...new Set(
+      (recipients || [])
+        .map((r) => r.emailAddress?.address?.toLowerCase())
+        .filter((address): address is string => !!address)
+    ),
+  ]
+}
+
+/**
+ * Labels of a message: its folder's system label, flags and categories
+ */
+export function getMessageLabels(
+  message: GraphMessage,
+  folderLabels: Map<string, string>
+): string[] {
+  const labels: string[] = []
+  const folderLabel = message.parentFolderId ? folderLabels.get(message.parentFolderId) : undefined
+
+  if (folderLabel) labels.push(folderLabel)
+  if (message.isRead === false) labels.push('UNREAD')
+  if (message.flag?.flagStatus === 'flagged') labels.push('STARRED')
+  if (message.importance === 'high') labels.push('IMPORTANT')
+  labels.push(...(message.categories || []))
+
+  return labels
+}
+
+/**
+ * Convert a Graph message (plus its details) into an EmailRecord
+ */
+function toEmailRecord(
+  message: GraphMessage,
+  details: GraphMessageDetails | undefined,
+  folderLabels: Map<string, string>
+): EmailRecord {
+  const labels = getMessageLabels(message, folderLabels)
+  const size = details?.singleValueExtendedProperties?.find(
+    (p) => p.id.toLowerCase() === MESSAGE_SIZE_PROPERTY.toLowerCase()
+  )?.value
+
+  const attachments: AttachmentMeta[] = (details?.attachments || [])
+    .filter((a) => !a.isInline)
+    .map((a) => ({
+      filename: a.name || 'attachment',
+      mimeType: a.contentType || 'application/octet-stream',
+      size: a.size || 0,
+    }))
+
+  const toEmails = recipientAddresses(message.toRecipients)
+  const ccEmails = recipientAddresses(message.ccRecipients)
+  const unsubscribeHeader = getHeader(details, 'List-Unsubscribe')
+  const receivedAt = message.receivedDateTime ? Date.parse(message.receivedDateTime) : NaN
+
+  return {
+    message_id: message.id,
+    thread_id: message.conversationId || message.id,
+    subject: message.subject || null,
+    snippet: message.bodyPreview || null,
+    from_email: message.from?.emailAddress?.address?.toLowerCase() || 'unknown@unknown.com',
+    from_name: message.from?.emailAddress?.name || null,
+    labels: JSON.stringify(labels),
+    category: ['SENT', 'SPAM', 'TRASH'].find((label) => labels.includes(label)) || null,
+    size_bytes: parseInt(size || '0', 10) || 0,
+    has_attachments: attachments.length,
+    attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
+    is_unread: labels.includes('UNREAD') ? 1 : 0,
+    is_starred: labels.includes('STARRED') ? 1 : 0,
+    is_trash: labels.includes('TRASH') ? 1 : 0,
+    is_spam: labels.includes('SPAM') ? 1 : 0,
+    is_important: labels.includes('IMPORTANT') ? 1 : 0,
+    internal_date: Number.isFinite(receivedAt) ? receivedAt : 0,
+    synced_at: Date.now(),
+    unsubscribe_link: parseUnsubscribeHeader(unsubscribeHeader),
+    list_unsubscribe: unsubscribeHeader,
+    list_unsubscribe_post: getHeader(details, 'List-Unsubscribe-Post'),
+    to_emails: toEmails.length > 0 ? JSON.stringify(toEmails) : null,
+    cc_emails: ccEmails.length > 0 ? JSON.stringify(ccEmails) : null,
+    delivered_to: parseAddressList(getHeader(details, 'Delivered-To'))[0] ?? null,
+    reply_to: recipientAddresses(message.replyTo)[0] ?? null,
+    list_id: parseListId(getHeader(details, 'List-Id')),
+  }
+}
+
+/**
+ * Fetch size, attachments and headers, then build EmailRecords
+ * Messages deleted in the meantime (404) are skipped.
+ */
+async function toEmailRecords(
+  accountId: string,
+  messages: GraphMessage[],
+  folderLabels: Map<string, string>
+): Promise<EmailRecord[]> {
+  if (messages.length === 0) return []
+
+  const responses = await graphBatch(
+    accountId,
+    messages.map((message) => ({
+      id: message.id,
+      method: 'GET',
+      url: `/me/messages/${message.id}?${DETAILS_QUERY}`,
+    }))
+  )
+
+  const records: EmailRecord[] = []
+  let failed = 0
+
+  for (const message of messages) {
+    const response = responses.get(message.id)
+    if (response?.status === 404) continue
+    if (!isBatchSuccess(response)) failed++
+
+    const details = isBatchSuccess(response) ? (response!.body as GraphMessageDetails) : undefined
+    records.push(toEmailRecord(message, details, folderLabels))
+  }
+
+  if (failed > 0) {
+    logger.warn(`[Outlook] Could not fetch details of ${failed} messages, sizes left at 0`)
+  }
+
+  return records
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+function folderDeltaPath(folderId: string): string {
+  return `/me/mailFolders/${folderId}/messages/delta?$select=${MESSAGE_FIELDS}`
+}
+
+/**
+ * List all messages folder by folder (full sync)
+ *
+ * The page token is the JSON-encoded FullSyncState, so a paused sync resumes
+ * inside the folder it stopped in. The last page carries the sync cursor.
+ */
+export async function* listOutlookMessages(
+  accountId: string,
+  options: { pageToken?: string } = {}
+): AsyncGenerator<{
+  emails: EmailRecord[]
+  count: number
+  nextPageToken: string | null
+  syncCursor?: string
+}> {
+  let state: FullSyncState = options.pageToken
+    ? (JSON.parse(options.pageToken) as FullSyncState)
+    : {
+        folders: (await listMailFolders(accountId)).map((folder) => folder.id),
+        link: null,
+        deltaLinks: {},
+      }
+  const folderLabels = await getFolderLabelMap(accountId)
+
+  while (state.folders.length > 0) {
+    const [folderId, ...remaining] = state.folders as [string, ...string[]]
+
+    const page = await graphRequest<GraphPage<GraphMessage>>(
+      accountId,
+      'GET',
+      state.link || folderDeltaPath(folderId),
+      { prefer: [`odata.maxpagesize=${DELTA_PAGE_SIZE}`] }
+    )
+
+    const messages = page.value.filter((message) => !message['@removed'])
+    const emails = await toEmailRecords(accountId, messages, folderLabels)
+
+    const nextLink = page['@odata.nextLink']
+    const deltaLink = page['@odata.deltaLink']
+    state = nextLink
+      ? { ...state, link: nextLink }
+      : {
+          folders: remaining,
+          link: null,
+          deltaLinks: deltaLink ? { ...state.deltaLinks, [folderId]: deltaLink } : state.deltaLinks,
+        }
+
+    const done = state.folders.length === 0
+    yield {
+      emails,
+      count: messages.length,
+      nextPageToken: done ? null : JSON.stringify(state),
+      ...(done && { syncCursor: JSON.stringify(state.deltaLinks) }),
+    }
+  }
+}
+
+/**
+ * Fetch changes since the stored deltaLinks
+ *
+ * A message moved between folders shows up as removed from one and added to
+ * the other, so it only counts as deleted when no folder reports it.
+ * Folders created since the last sync start a fresh delta (all their messages).
+ * Throws Error('HISTORY_EXPIRED') when a deltaLink is no longer valid or a
+ * synced folder disappeared, so the next sync starts over.
+ */
+export async function fetchOutlookChanges(
+  accountId: string,
+  cursor: string
+): Promise<{
+  messages: EmailRecord[]
+  messagesDeleted: string[]
+  labelsChanged: Map<string, { added: string[]; removed: string[] }>
+  newCursor: string
+}> {
+  const deltaLinks = JSON.parse(cursor) as Record<string, string>
+  const folders = await listMailFolders(accountId)
+  const folderIds = new Set(folders.map((folder) => folder.id))
+
+  if (Object.keys(deltaLinks).some((folderId) => !folderIds.has(folderId))) {
+    logger.debug('[Outlook] A synced folder was deleted, full sync required')
+    throw new Error('HISTORY_EXPIRED')
+  }
+
+  const changed = new Map<string, GraphMessage>()
+  const removed = new Set<string>()
+  const newDeltaLinks: Record<string, string> = {}
+
+  for (const folder of folders) {
+    let next: string | undefined = deltaLinks[folder.id] || folderDeltaPath(folder.id)
+
+    while (next) {
+      let page: GraphPage<GraphMessage>
+      try {
+        page = await graphRequest<GraphPage<GraphMessage>>(accountId, 'GET', next, {
+          prefer: [`odata.maxpagesize=${DELTA_PAGE_SIZE}`],
+        })
+      } catch (error) {
+        // 410 Gone: the delta token expired or the sync state was reset
+        if (error instanceof GraphError && error.status === 410) {
+          logger.debug('[Outlook] Delta token expired, full sync required')
+          throw new Error('HISTORY_EXPIRED')
+        }
+        throw error
+      }
+
+      for (const message of page.value) {
+        if (message['@removed']) {
+          removed.add(message.id)
+        } else {
+          changed.set(message.id, message)
+        }
+      }
+
+      next = page['@odata.nextLink']
+      if (page['@odata.deltaLink']) {
+        newDeltaLinks[folder.id] = page['@odata.deltaLink']
+      }
+    }
+  }
+
+  const messages = await toEmailRecords(
+    accountId,
+    [...changed.values()],
+    await getFolderLabelMap(accountId)
+  )
+  const messagesDeleted = [...removed].filter((id) => !changed.has(id))
+
+  logger.debug(
+    `[Outlook] Delta changes: ${messages.length} added or changed, ${messagesDeleted.length} deleted`
+  )
+
+  return {
+    messages,
+    messagesDeleted,
+    labelsChanged: new Map(),
+    newCursor: JSON.stringify(newDeltaLinks),
+  }
+}
+
+// ============================================================================
+// Message Actions
+// ============================================================================
+
+/**
+ * Move messages to a folder
+ * With immutable IDs the moved messages keep their IDs.
+ */
+export async function moveMessages(
+  accountId: string,
+  messageIds: string[],
+  destination: WellKnownFolder
+): Promise<{ moved: GraphMessage[]; failed: string[] }> {
+  const responses = await graphBatch(
+    accountId,
+    messageIds.map((id) => ({
+      id,
+      method: 'POST',
+      url: `/me/messages/${id}/move`,
+      body: { destinationId: destination },
+    }))
+  )
+
+  const moved: GraphMessage[] = []
+  const failed: string[] = []
+
+  for (const id of messageIds) {
+    const response = responses.get(id)
+    if (isBatchSuccess(response)) {
+      moved.push(response!.body as GraphMessage)
+    } else {
+      failed.push(id)
+    }
+  }
+
+  if (failed.length > 0) {
+    logger.error(`[Outlook] Failed to move ${failed.length} messages to ${destination}`)
+  }
+
+  return { moved, failed }
+}
+
+/**
+ * Move messages to Deleted Items
+ */
+export async function trashOutlookMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{ succeeded: number; failed: number; failedIds: string[] }> {
+  const { moved, failed } = await moveMessages(accountId, messageIds, 'deleteditems')
+  return { succeeded: moved.length, failed: failed.length, failedIds: failed }
+}
+
+/**
+ * Move messages to the Archive folder
+ */
+export async function archiveOutlookMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{ succeeded: number; failed: number; failedIds: string[] }> {
+  const { moved, failed } = await moveMessages(accountId, messageIds, 'archive')
+  return { succeeded: moved.length, failed: failed.length, failedIds: failed }
+}
+
+/**
+ * Move messages from Deleted Items back to the Inbox
+ */
+export async function untrashOutlookMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<{ restored: { messageId: string; labelIds: string[] }[]; failed: string[] }> {
+  const { moved, failed } = await moveMessages(accountId, messageIds, 'inbox')
+  const folderLabels = await getFolderLabelMap(accountId)
+
+  return {
+    restored: moved.map((message) => ({
+      messageId: message.id,
+      labelIds: getMessageLabels(message, folderLabels),
+    })),
+    failed,
+  }
+}
+
+/**
+ * Permanently delete messages (skips Deleted Items and Recoverable Items)
+ * Max 1000 messages per call. Messages that are already gone count as deleted.
+ */
+export async function permanentlyDeleteOutlookMessages(
+  accountId: string,
+  messageIds: string[]
+): Promise<void> {
+  if (messageIds.length === 0) return
+  if (messageIds.length > 1000) {
+    throw new Error('Cannot delete more than 1000 messages at once')
+  }
+
+  const responses = await graphBatch(
+    accountId,
+    messageIds.map((id) => ({ id, method: 'POST', url: `/me/messages/${id}/permanentDelete` }))
+  )
+
+  const failed = messageIds.filter((id) => {
+    const response = responses.get(id)
+    return !isBatchSuccess(response) && response?.status !== 404
+  })
+
+  if (failed.length > 0) {
+    throw new Error(
+      `Failed to permanently delete ${failed.length} of ${messageIds.length} messages`
+    )
+  }
+}
+
+/**
+ * Add and/or remove labels on messages
+ *
+ * UNREAD, STARRED and IMPORTANT set isRead, the flag and importance. Folder
+ * labels move the message: adding TRASH, SPAM or INBOX moves it there, removing
+ * INBOX archives it and removing TRASH or SPAM moves it back to the Inbox.
+ * Any other label is an Outlook category.
+ */
+export async function modifyOutlookLabels(
+  accountId: string,
+  messageIds: string[],
+  options: { addLabelIds?: string[]; removeLabelIds?: string[] }
+): Promise<{ modified: number; failed: number; failedIds: string[] }> {
+  if (messageIds.length === 0) {
+    return { modified: 0, failed: 0, failedIds: [] }
+  }
+
+  const add = new Set(options.addLabelIds || [])
+  const remove = new Set(options.removeLabelIds || [])
+  const systemLabels = new Set<string>([...Object.values(FOLDER_LABELS), ...MESSAGE_LABELS])
+  const addCategories = [...add].filter((label) => !systemLabels.has(label))
+  const removeCategories = new Set([...remove].filter((label) => !systemLabels.has(label)))
+
+  const patch: Record<string, unknown> = {}
+  if (add.has('UNREAD')) patch.isRead = false
+  if (remove.has('UNREAD')) patch.isRead = true
+  if (add.has('STARRED')) patch.flag = { flagStatus: 'flagged' }
+  if (remove.has('STARRED')) patch.flag = { flagStatus: 'notFlagged' }
+  if (add.has('IMPORTANT')) patch.importance = 'high'
+  if (remove.has('IMPORTANT')) patch.importance = 'normal'
+
+  let destination: WellKnownFolder | null = null
+  if (add.has('TRASH')) destination = 'deleteditems'
+  else if (add.has('SPAM')) destination = 'junkemail'
+  else if (add.has('INBOX') || remove.has('TRASH') || remove.has('SPAM')) destination = 'inbox'
+  else if (remove.has('INBOX')) destination = 'archive'
+
+  const failed = new Set<string>()
+
+  // Categories are replaced as a whole, so read the current ones first
+  const categories = new Map<string, string[]>()
+  if (addCategories.length > 0 || removeCategories.size > 0) {
+    const responses = await graphBatch(
+      accountId,
+      messageIds.map((id) => ({ id, method: 'GET', url: `/me/messages/${id}?$select=categories` }))
+    )
+    for (const id of messageIds) {
+      const response = responses.get(id)
+      if (!isBatchSuccess(response)) {
+        failed.add(id)
+        continue
+      }
+      const current = (response!.body as GraphMessage).categories || []
+      categories.set(id, [
+        ...new Set([...current.filter((c) => !removeCategories.has(c)), ...addCategories]),
+      ])
+    }
+  }
+
+  const patches: GraphBatchRequest[] = messageIds
+    .filter((id) => !failed.has(id))
+    .filter((id) => Object.keys(patch).length > 0 || categories.has(id))
+    .map((id) => ({
+      id,
+      method: 'PATCH',
+      url: `/me/messages/${id}`,
+      body: { ...patch, ...(categories.has(id) && { categories: categories.get(id) }) },
+    }))
+
+  if (patches.length > 0) {
+    const responses = await graphBatch(accountId, patches)
+    for (const { id } of patches) {
+      if (!isBatchSuccess(responses.get(id))) failed.add(id)
+    }
+  }
+
+  if (destination) {
+    const result = await moveMessages(
+      accountId,
+      messageIds.filter((id) => !failed.has(id)),
+      destination
+    )
+    result.failed.forEach((id) => failed.add(id))
+  }
+
+  if (failed.size > 0) {
+    logger.error(`[Outlook] Failed to modify labels on ${failed.size} messages`)
+  }
+
+  return { modified: messageIds.length - failed.size, failed: failed.size, failedIds: [...failed] }
+}
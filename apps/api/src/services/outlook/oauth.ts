@@ -0,0 +1,242 @@
+/**
+ * Microsoft identity platform (OAuth 2.0) for Outlook / Microsoft 365 accounts
+ *
+ * Authorization code flow with PKCE against the v2.0 endpoints. Microsoft
+ * rotates refresh tokens, so every refresh stores the new one.
+ *
+ * Outlook accounts are always added to an existing user - login stays Google-only.
+ */
+
+import { eq } from 'drizzle-orm'
+import { db, tables, dbType } from '../../db'
+import { encrypt, decrypt } from '../../lib/encryption'
+import { generatePKCEPair } from '../../lib/pkce'
+import { logger } from '../../lib/logger'
+import { getAppUrl } from '../config'
+import { getAccountTokens, markAccountAuthExpired, AuthExpiredError } from '../oauth'
+import type { OAuthState } from '../auth'
+import { getGraphBaseUrl } from './graph'
+
+const DEFAULT_LOGIN_URL = 'https://login.microsoftonline.com'
+
+// Mail.ReadWrite covers sync, moves and deletes; MailboxSettings.ReadWrite covers inbox rules
+const MICROSOFT_SCOPES = [
+  'offline_access',
+  'openid',
+  'email',
+  'profile',
+  'User.Read',
+  'Mail.ReadWrite',
+  'MailboxSettings.ReadWrite',
+]
+
+interface MicrosoftCredentials {
+  clientId: string
+  clientSecret: string
+  tenant: string
+  loginUrl: string
+}
+
+interface MicrosoftTokenResponse {
+  access_token: string
+  refresh_token?: string
+  expires_in: number
+  scope?: string
+  token_type?: string
+}
+
+/**
+ * Whether Microsoft OAuth is configured (MICROSOFT_CLIENT_ID and MICROSOFT_CLIENT_SECRET)
+ */
+export function isMicrosoftConfigured(): boolean {
+  return !!process.env.MICROSOFT_CLIENT_ID?.trim() && !!process.env.MICROSOFT_CLIENT_SECRET?.trim()
+}
+
+function getMicrosoftCredentials(): MicrosoftCredentials {
+  const clientId = process.env.MICROSOFT_CLIENT_ID?.trim()
+  const clientSecret = process.env.MICROSOFT_CLIENT_SECRET?.trim()
+
+  if (!clientId || !clientSecret) {
+    throw new Error(
+      'Microsoft OAuth credentials not configured. Set MICROSOFT_CLIENT_ID and MICROSOFT_CLIENT_SECRET environment variables.'
+    )
+  }
+
+  return {
+    clientId,
+    clientSecret,
+    tenant: process.env.MICROSOFT_TENANT?.trim() || 'common',
+    loginUrl: (process.env.MICROSOFT_LOGIN_URL?.trim() || DEFAULT_LOGIN_URL).replace(/\/+$/, ''),
+  }
+}
+
+async function getRedirectUri(): Promise<string> {
+  return `${await getAppUrl()}/auth/microsoft/callback`
+}
+
+/**
+ * Call the token endpoint (authorization_code or refresh_token grant)
+ */
+async function requestTokens(params: Record<string, string>): Promise<MicrosoftTokenResponse> {
+  const { clientId, clientSecret, tenant, loginUrl } = getMicrosoftCredentials()
+
+  const response = await fetch(`${loginUrl}/${tenant}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      scope: MICROSOFT_SCOPES.join(' '),
+      ...params,
+    }),
+  })
+
+  const body = (await response.json().catch(() => ({}))) as Partial<MicrosoftTokenResponse> & {
+    error?: string
+    error_description?: string
+  }
+
+  if (!response.ok || !body.access_token) {
+    throw new Error(`${body.error || 'token_error'}: ${body.error_description || response.status}`)
+  }
+
+  return body as MicrosoftTokenResponse
+}
+
+/**
+ * Generate the Microsoft authorization URL with PKCE
+ */
+export async function generateMicrosoftAuthUrl(options: { redirectUrl?: string } = {}): Promise<{
+  url: string
+  state: OAuthState
+}> {
+  const { clientId, tenant, loginUrl } = getMicrosoftCredentials()
+  const { verifier, challenge } = generatePKCEPair()
+
+  const state: OAuthState = {
+    pkceVerifier: verifier,
+    redirectUrl: options.redirectUrl || '/',
+    isAddAccount: true,
+  }
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    response_type: 'code',
+    redirect_uri: await getRedirectUri(),
+    response_mode: 'query',
+    scope: MICROSOFT_SCOPES.join(' '),
+    prompt: 'select_account',
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+    // Encrypt state to prevent tampering
+    state: encrypt(JSON.stringify(state)),
+  })
+
+  return { url: `${loginUrl}/${tenant}/oauth2/v2.0/authorize?${params}`, state }
+}
+
+/**
+ * Exchange an authorization code for tokens and the mailbox address
+ */
+export async function exchangeMicrosoftCode(
+  code: string,
+  pkceVerifier: string
+): Promise<{
+  tokens: {
+    accessToken: string
+    refreshToken: string
+    expiryDate: number
+    scope: string
+    tokenType: string
+  }
+  email: string
+}> {
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: await getRedirectUri(),
+    code_verifier: pkceVerifier,
+  })
+
+  if (!tokens.refresh_token) {
+    throw new Error('Failed to exchange code for tokens')
+  }
+
+  // Mailbox address - "mail" is empty for some personal accounts, fall back to the UPN
+  const response = await fetch(`${getGraphBaseUrl()}/me?$select=mail,userPrincipalName`, {
+    headers: { Authorization: `Bearer ${tokens.access_token}` },
+  })
+  const me = (await response.json().catch(() => ({}))) as {
+    mail?: string | null
+    userPrincipalName?: string
+  }
+  const email = (me.mail || me.userPrincipalName || '').toLowerCase()
+
+  if (!response.ok || !email) {
+    throw new Error('Failed to get user info from Microsoft')
+  }
+
+  return {
+    tokens: {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiryDate: Date.now() + tokens.expires_in * 1000,
+      scope: tokens.scope || MICROSOFT_SCOPES.join(' '),
+      tokenType: tokens.token_type || 'Bearer',
+    },
+    email,
+  }
+}
+
+/**
+ * Get a valid Graph access token for an Outlook account.
+ * Refreshes the token if expired and stores the rotated refresh token.
+ * Throws AuthExpiredError if the refresh token is invalid (needs re-auth).
+ */
+export async function getValidGraphAccessToken(accountId: string): Promise<string> {
+  const token = await getAccountTokens(accountId)
+
+  if (!token) {
+    throw new Error('No OAuth token found for this account')
+  }
+
+  const expiresAt =
+    typeof token.expiresAt === 'string' ? new Date(token.expiresAt) : token.expiresAt
+
+  // Check if token is expired (with 5 minute buffer)
+  if (expiresAt.getTime() - 5 * 60 * 1000 >= Date.now()) {
+    return decrypt(token.accessToken)
+  }
+
+  let refreshed: MicrosoftTokenResponse
+  try {
+    refreshed = await requestTokens({
+      grant_type: 'refresh_token',
+      refresh_token: decrypt(token.refreshToken),
+    })
+  } catch (error) {
+    // invalid_grant: refresh token expired, revoked or the password changed
+    if (error instanceof Error && error.message.startsWith('invalid_grant')) {
+      const errorMessage = 'Authentication expired. Please reconnect your Outlook account.'
+      await markAccountAuthExpired(accountId, errorMessage)
+      throw new AuthExpiredError(errorMessage)
+    }
+    throw error
+  }
+
+  const newExpiresAt = new Date(Date.now() + refreshed.expires_in * 1000)
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  await db
+    .update(tables.oauthTokens)
+    .set({
+      accessToken: encrypt(refreshed.access_token),
+      ...(refreshed.refresh_token && { refreshToken: encrypt(refreshed.refresh_token) }),
+      expiresAt: (dbType === 'postgres' ? newExpiresAt : newExpiresAt.toISOString()) as Date,
+      updatedAt: now as Date,
+    })
+    .where(eq(tables.oauthTokens.mailAccountId, accountId))
+
+  logger.debug(`[Outlook] Refreshed access token for account ${accountId}`)
+  return refreshed.access_token
+}
@@ -0,0 +1,248 @@
+/**
+ * Outlook inbox rules as filters
+ *
+ * Maps Gmail-style filter criteria/actions to Graph messageRules on the Inbox:
+ * - from/to/subject -> senderContains/recipientContains/subjectContains
+ * - query/negatedQuery -> bodyOrSubjectContains (condition/exception)
+ * - hasAttachment, size -> hasAttachments, withinSizeRange (KB)
+ * - add TRASH -> delete, add SPAM -> move to Junk Email, remove INBOX -> move to Archive
+ * - remove UNREAD -> mark as read, add IMPORTANT -> high importance
+ * - other labels -> assign categories, forward -> forward to
+ *
+ * Rule parts Gmail can't express (other folders, flags) are left out when reading rules.
+ */
+
+import {
+  buildQueryFromCriteria,
+  type FilterCriteria,
+  type FilterAction,
+  type GmailFilter,
+} from '../filters'
+import { logger } from '../../lib/logger'
+import { graphRequest, graphListAll, GraphError } from './graph'
+import { getWellKnownFolders, FOLDER_LABELS, MESSAGE_LABELS } from './messages'
+
+const RULES_PATH = '/me/mailFolders/inbox/messageRules'
+
+// Largest size Graph accepts in withinSizeRange (KB)
+const MAX_RULE_SIZE_KB = 2147483647
+
+// Graph limits rule names to 256 characters
+const MAX_RULE_NAME_LENGTH = 256
+
+interface RulePredicates {
+  senderContains?: string[]
+  recipientContains?: string[]
+  subjectContains?: string[]
+  bodyOrSubjectContains?: string[]
+  hasAttachments?: boolean
+  withinSizeRange?: { minimumSize: number; maximumSize: number }
+}
+
+interface RuleActions {
+  assignCategories?: string[]
+  moveToFolder?: string
+  delete?: boolean
+  markAsRead?: boolean
+  markImportance?: 'low' | 'normal' | 'high'
+  forwardTo?: Array<{ emailAddress: { address: string } }>
+  stopProcessingRules?: boolean
+}
+
+interface MessageRule {
+  id: string
+  displayName: string
+  sequence: number
+  isEnabled: boolean
+  conditions?: RulePredicates | null
+  exceptions?: RulePredicates | null
+  actions?: RuleActions | null
+}
+
+/**
+ * Convert a rule to a filter
+ */
+async function toFilter(accountId: string, rule: MessageRule): Promise<GmailFilter> {
+  const conditions = rule.conditions || {}
+  const actions = rule.actions || {}
+  const criteria: FilterCriteria = {}
+  const action: FilterAction = {}
+
+  if (conditions.senderContains?.length) criteria.from = conditions.senderContains.join(' ')
+  if (conditions.recipientContains?.length) criteria.to = conditions.recipientContains.join(' ')
+  if (conditions.subjectContains?.length) criteria.subject = conditions.subjectContains.join(' ')
+  if (conditions.bodyOrSubjectContains?.length) {
+    criteria.query = conditions.bodyOrSubjectContains.join(' ')
+  }
+  if (rule.exceptions?.bodyOrSubjectContains?.length) {
+    criteria.negatedQuery = rule.exceptions.bodyOrSubjectContains.join(' ')
+  }
+  if (conditions.hasAttachments) criteria.hasAttachment = true
+
+  const range = conditions.withinSizeRange
+  if (range && range.minimumSize > 0) {
+    criteria.size = range.minimumSize * 1024
+    criteria.sizeComparison = 'larger'
+  } else if (range && range.maximumSize < MAX_RULE_SIZE_KB) {
+    criteria.size = range.maximumSize * 1024
+    criteria.sizeComparison = 'smaller'
+  }
+
+  const addLabelIds: string[] = [...(actions.assignCategories || [])]
+  const removeLabelIds: string[] = []
+
+  if (actions.delete) addLabelIds.push(FOLDER_LABELS.deleteditems)
+  if (actions.markImportance === 'high') addLabelIds.push('IMPORTANT')
+  if (actions.markAsRead) removeLabelIds.push('UNREAD')
+
+  if (actions.moveToFolder) {
+    const folders = await getWellKnownFolders(accountId)
+    if (actions.moveToFolder === folders.junkemail) addLabelIds.push(FOLDER_LABELS.junkemail)
+    if (actions.moveToFolder === folders.archive) removeLabelIds.push(FOLDER_LABELS.inbox)
+    if (actions.moveToFolder === folders.deleteditems) addLabelIds.push(FOLDER_LABELS.deleteditems)
+  }
+
+  if (addLabelIds.length > 0) action.addLabelIds = addLabelIds
+  if (removeLabelIds.length > 0) action.removeLabelIds = removeLabelIds
+  if (actions.forwardTo?.length) {
+    action.forward = actions.forwardTo.map((r) => r.emailAddress.address).join(',')
+  }
+
+  return { id: rule.id, criteria, action }
+}
+
+/**
+ * Convert filter criteria and actions to rule fields
+ */
+async function toRuleFields(
+  accountId: string,
+  criteria: FilterCriteria,
+  action: FilterAction
+): Promise<Pick<MessageRule, 'conditions' | 'exceptions' | 'actions'>> {
+  const conditions: RulePredicates = {}
+  const exceptions: RulePredicates = {}
+  const actions: RuleActions = {}
+
+  if (criteria.from) conditions.senderContains = [criteria.from]
+  if (criteria.to) conditions.recipientContains = [criteria.to]
+  if (criteria.subject) conditions.subjectContains = [criteria.subject]
+  if (criteria.query) conditions.bodyOrSubjectContains = [criteria.query]
+  if (criteria.negatedQuery) exceptions.bodyOrSubjectContains = [criteria.negatedQuery]
+  if (criteria.hasAttachment) conditions.hasAttachments = true
+  if (criteria.size && criteria.sizeComparison) {
+    const sizeKb = Math.round(criteria.size / 1024)
+    conditions.withinSizeRange =
+      criteria.sizeComparison === 'larger'
+        ? { minimumSize: sizeKb, maximumSize: MAX_RULE_SIZE_KB }
+        : { minimumSize: 0, maximumSize: sizeKb }
+  }
+
+  const systemLabels = new Set<string>([...Object.values(FOLDER_LABELS), ...MESSAGE_LABELS])
+  const add = new Set(action.addLabelIds || [])
+  const remove = new Set(action.removeLabelIds || [])
+  const categories = [...add].filter((label) => !systemLabels.has(label))
+
+  if (categories.length > 0) actions.assignCategories = categories
+  if (add.has('IMPORTANT')) actions.markImportance = 'high'
+  if (remove.has('UNREAD')) actions.markAsRead = true
+
+  if (add.has(FOLDER_LABELS.deleteditems)) {
+    actions.delete = true
+  } else if (add.has(FOLDER_LABELS.junkemail) || remove.has(FOLDER_LABELS.inbox)) {
+    const folders = await getWellKnownFolders(accountId)
+    const folderId = add.has(FOLDER_LABELS.junkemail) ? folders.junkemail : folders.archive
+    if (folderId) actions.moveToFolder = folderId
+  }
+
+  if (action.forward) {
+    actions.forwardTo = action.forward
+      .split(',')
+      .map((address) => ({ emailAddress: { address: address.trim() } }))
+  }
+
+  return {
+    conditions,
+    exceptions: Object.keys(exceptions).length > 0 ? exceptions : null,
+    actions,
+  }
+}
+
+/**
+ * List the Inbox rules
+ */
+export async function listOutlookFilters(accountId: string): Promise<GmailFilter[]> {
+  const rules = await graphListAll<MessageRule>(accountId, RULES_PATH)
+  return Promise.all(
+    rules.sort((a, b) => a.sequence - b.sequence).map((rule) => toFilter(accountId, rule))
+  )
+}
+
+/**
+ * Get a single rule by ID
+ */
+export async function getOutlookFilter(
+  accountId: string,
+  filterId: string
+): Promise<GmailFilter | null> {
+  try {
+    const rule = await graphRequest<MessageRule>(accountId, 'GET', `${RULES_PATH}/${filterId}`)
+    return toFilter(accountId, rule)
+  } catch (error) {
+    if (error instanceof GraphError && error.status === 404) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * Create an Inbox rule, run after the existing ones
+ */
+export async function createOutlookFilter(
+  accountId: string,
+  criteria: FilterCriteria,
+  action: FilterAction
+): Promise<GmailFilter> {
+  const existing = await graphListAll<MessageRule>(accountId, RULES_PATH)
+  const sequence = existing.reduce((max, rule) => Math.max(max, rule.sequence), 0) + 1
+
+  const rule = await graphRequest<MessageRule>(accountId, 'POST', RULES_PATH, {
+    body: {
+      displayName: buildQueryFromCriteria(criteria).slice(0, MAX_RULE_NAME_LENGTH) || 'Inboxorcist',
+      sequence,
+      isEnabled: true,
+      ...(await toRuleFields(accountId, criteria, action)),
+    },
+  })
+
+  logger.debug(`[Outlook] Created rule ${rule.id} for account ${accountId}`)
+  return toFilter(accountId, rule)
+}
+
+/**
+ * Update an Inbox rule in place (unlike Gmail filters, rules can be patched)
+ */
+export async function updateOutlookFilter(
+  accountId: string,
+  filterId: string,
+  criteria: FilterCriteria,
+  action: FilterAction
+): Promise<GmailFilter> {
+  const rule = await graphRequest<MessageRule>(accountId, 'PATCH', `${RULES_PATH}/${filterId}`, {
+    body: {
+      displayName: buildQueryFromCriteria(criteria).slice(0, MAX_RULE_NAME_LENGTH) || 'Inboxorcist',
+      ...(await toRuleFields(accountId, criteria, action)),
+    },
+  })
+
+  logger.debug(`[Outlook] Updated rule ${filterId} for account ${accountId}`)
+  return toFilter(accountId, rule)
+}
+
+/**
+ * Delete an Inbox rule
+ */
+export async function deleteOutlookFilter(accountId: string, filterId: string): Promise<void> {
+  await graphRequest(accountId, 'DELETE', `${RULES_PATH}/${filterId}`)
+  logger.debug(`[Outlook] Deleted rule ${filterId} for account ${accountId}`)
+}
@@ -0,0 +1,115 @@
+/**
+ * Gmail provider
+ *
+ * Adapts the Gmail API services (gmail.ts, filters.ts) to the provider interface.
+ * The delta cursor is the mailbox historyId.
+ */
+
+import {
+  getQuickStats,
+  listAllMessageIds,
+  fetchMessageDetails,
+  getCurrentHistoryId,
+  fetchHistoryChanges,
+  trashMessages,
+  archiveMessages,
+  batchDeleteMessages,
+  untrashMessages,
+} from '../gmail'
+import {
+  modifyLabels,
+  listLabels,
+  getLabel,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+  listFilters,
+  getFilter,
+  createFilter,
+  updateFilter,
+  deleteFilter,
+} from '../filters'
+import { createGmailThrottle } from '../../lib/throttle'
+import { logger } from '../../lib/logger'
+import type { MailProviderClient } from './types'
+
+export const gmailProvider: MailProviderClient = {
+  name: 'gmail',
+
+  getQuickStats,
+
+  async *listMessages(accountId, options) {
+    const throttle = createGmailThrottle()
+    let processed = options.processedSoFar || 0
+
+    for await (const page of listAllMessageIds(accountId, { pageToken: options.pageToken })) {
+      const emails =
+        page.ids.length > 0
+          ? await fetchMessageDetails(
+              accountId,
+              page.ids,
+              throttle,
+              (_processed, failed) => {
+                if (failed > 0) {
+                  logger.warn(`[Gmail] ${failed} messages failed in batch`)
+                }
+              },
+              options.totalMessages,
+              processed
+            )
+          : []
+
+      processed += page.ids.length
+      yield { emails, count: page.ids.length, nextPageToken: page.nextPageToken }
+    }
+  },
+
+  getSyncCursor: getCurrentHistoryId,
+
+  async fetchChanges(accountId, cursor) {
+    const changes = await fetchHistoryChanges(accountId, cursor)
+    const messageIds = changes.messagesAdded.map((id) => ({ id }))
+
+    const messages =
+      messageIds.length > 0
+        ? await fetchMessageDetails(
+            accountId,
+            messageIds,
+            createGmailThrottle(),
+            (processed, failed) => {
+              if (processed % 100 === 0) {
+                logger.debug(`[Gmail] Delta sync progress: ${processed}/${messageIds.length}`)
+              }
+              if (failed > 0) {
+                logger.warn(`[Gmail] ${failed} messages failed in delta sync batch`)
+              }
+            }
+          )
+        : []
+
+    return {
+      messages,
+      messagesDeleted: changes.messagesDeleted,
+      labelsChanged: changes.labelsChanged,
+      newCursor: changes.newHistoryId,
+    }
+  },
+
+  trashMessages: (accountId, messageIds) => trashMessages(accountId, messageIds),
+  archiveMessages,
+  deleteMessages: batchDeleteMessages,
+  untrashMessages,
+  modifyLabels,
+
+  listLabels,
+  getLabel,
+  createLabel,
+  updateLabel,
+  deleteLabel,
+
+  listFilters,
+  getFilter,
+  createFilter,
+  updateFilter,
+  deleteFilter,
+}
@@ -0,0 +1,71 @@
+/**
+ * Mail Providers
+ *
+ * Resolve the provider implementation of a mail account (Gmail, Outlook or IMAP).
+ * Callers that work for every provider go through getMailProvider; features
+ * that only exist for Gmail (raw message access, Gmail search) check
+ * requireGmailAccount first.
+ */
+
+import { eq } from 'drizzle-orm'
+import { db, tables } from '../../db'
+import type { MailProvider } from '../../db'
+import { gmailProvider } from './gmail'
+import { outlookProvider } from '../outlook'
+import { imapProvider } from '../imap'
+import { UnsupportedProviderError, type MailProviderClient } from './types'
+
+export {
+  UnsupportedProviderError,
+  PROVIDER_NAMES,
+  type MailProviderClient,
+  type MessagePage,
+  type MailChanges,
+} from './types'
+
+const PROVIDERS: Record<MailProvider, MailProviderClient> = {
+  gmail: gmailProvider,
+  outlook: outlookProvider,
+  imap: imapProvider,
+}
+
+// An account's provider never changes, so it is looked up once
+const accountProviders = new Map<string, MailProvider>()
+
+/**
+ * Get the provider of a mail account
+ */
+export async function getAccountProvider(accountId: string): Promise<MailProvider> {
+  const cached = accountProviders.get(accountId)
+  if (cached) return cached
+
+  const [account] = await db
+    .select({ provider: tables.mailAccounts.provider })
+    .from(tables.mailAccounts)
+    .where(eq(tables.mailAccounts.id, accountId))
+    .limit(1)
+
+  if (!account) {
+    throw new Error(`Account ${accountId} not found`)
+  }
+
+  accountProviders.set(accountId, account.provider)
+  return account.provider
+}
+
+/**
+ * Get the provider implementation for a mail account
+ */
+export async function getMailProvider(accountId: string): Promise<MailProviderClient> {
+  return PROVIDERS[await getAccountProvider(accountId)]
+}
+
+/**
+ * Throw UnsupportedProviderError unless the account is a Gmail account
+ */
+export async function requireGmailAccount(accountId: string, feature: string): Promise<void> {
+  const provider = await getAccountProvider(accountId)
+  if (provider !== 'gmail') {
+    throw new UnsupportedProviderError(feature, provider)
+  }
+}
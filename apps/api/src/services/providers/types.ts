@@ -0,0 +1,125 @@
+/**
+ * Mail provider interface
+ *
+ * Everything the sync worker, cleanup jobs and filter/label routes need from a
+ * mailbox, independent of the API behind it. Gmail, Outlook (Microsoft Graph)
+ * and generic IMAP implement it; message IDs, label IDs and filter IDs are
+ * whatever the provider uses, stored as-is in the emails table.
+ */
+
+import type { MailProvider } from '../../db'
+import type { EmailRecord } from '../emails'
+import type {
+  FilterCriteria,
+  FilterAction,
+  GmailFilter,
+  GmailLabel,
+  CreateLabelRequest,
+  UpdateLabelRequest,
+} from '../filters'
+
+/**
+ * One page of a full sync
+ */
+export interface MessagePage {
+  emails: EmailRecord[]
+  /** Messages listed on this page (some may have failed to fetch) */
+  count: number
+  /** Token to resume the sync after this page, null on the last page */
+  nextPageToken: string | null
+  /** Delta cursor, set on the last page by providers whose listing produces it */
+  syncCursor?: string
+}
+
+/**
+ * Changes since a delta cursor
+ */
+export interface MailChanges {
+  /** New or changed messages, fetched in full (inserted or replaced) */
+  messages: EmailRecord[]
+  /** Messages that no longer exist in the mailbox */
+  messagesDeleted: string[]
+  /** Label-only changes that don't need the message to be refetched */
+  labelsChanged: Map<string, { added: string[]; removed: string[] }>
+  newCursor: string
+}
+
+export interface ListMessagesOptions {
+  pageToken?: string
+  /** Total messages for ETA logging */
+  totalMessages?: number
+  /** Messages already synced before this run (resumed jobs) */
+  processedSoFar?: number
+}
+
+export interface MessageActionResult {
+  succeeded: number
+  failed: number
+  failedIds: string[]
+}
+
+export interface MailProviderClient {
+  readonly name: MailProvider
+
+  // Sync
+  getQuickStats(accountId: string): Promise<{ total: number }>
+  listMessages(accountId: string, options: ListMessagesOptions): AsyncGenerator<MessagePage>
+  /** Current delta cursor, or null when the cursor comes from the full sync listing */
+  getSyncCursor(accountId: string): Promise<string | null>
+  /** Throws Error('HISTORY_EXPIRED') when the cursor is too old and a full sync is needed */
+  fetchChanges(accountId: string, cursor: string): Promise<MailChanges>
+
+  // Message actions
+  trashMessages(accountId: string, messageIds: string[]): Promise<MessageActionResult>
+  archiveMessages(accountId: string, messageIds: string[]): Promise<MessageActionResult>
+  /** Permanently delete, max 1000 messages per call */
+  deleteMessages(accountId: string, messageIds: string[]): Promise<void>
+  untrashMessages(
+    accountId: string,
+    messageIds: string[]
+  ): Promise<{ restored: { messageId: string; labelIds: string[] }[]; failed: string[] }>
+  modifyLabels(
+    accountId: string,
+    messageIds: string[],
+    options: { addLabelIds?: string[]; removeLabelIds?: string[] }
+  ): Promise<{ modified: number; failed: number; failedIds: string[] }>
+
+  // Labels (Outlook: categories)
+  listLabels(accountId: string): Promise<GmailLabel[]>
+  getLabel(accountId: string, labelId: string): Promise<GmailLabel | null>
+  createLabel(accountId: string, request: CreateLabelRequest): Promise<GmailLabel>
+  updateLabel(accountId: string, labelId: string, request: UpdateLabelRequest): Promise<GmailLabel>
+  deleteLabel(accountId: string, labelId: string): Promise<void>
+
+  // Filters (Outlook: inbox rules)
+  listFilters(accountId: string): Promise<GmailFilter[]>
+  getFilter(accountId: string, filterId: string): Promise<GmailFilter | null>
+  createFilter(
+    accountId: string,
+    criteria: FilterCriteria,
+    action: FilterAction
+  ): Promise<GmailFilter>
+  updateFilter(
+    accountId: string,
+    filterId: string,
+    criteria: FilterCriteria,
+    action: FilterAction
+  ): Promise<GmailFilter>
+  deleteFilter(accountId: string, filterId: string): Promise<void>
+}
+
+/**
+ * Thrown when a feature is only available for some providers
+ */
+export class UnsupportedProviderError extends Error {
+  constructor(feature: string, provider: MailProvider) {
+    super(`${feature} is not available for ${PROVIDER_NAMES[provider]} accounts`)
+    this.name = 'UnsupportedProviderError'
+  }
+}
+
+export const PROVIDER_NAMES: Record<MailProvider, string> = {
+  gmail: 'Gmail',
+  outlook: 'Outlook',
+  imap: 'IMAP',
+}
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { db, tables } from '../../db'
+import { nanoid } from '../../lib/id'
+import { createTestAccount } from '../../test/helpers'
+import { resumeInterruptedCleanupJobs } from '../cleanup/worker'
+import { DatabaseQueue } from './database'
+import { closeQueue } from '.'
+
+let queue: DatabaseQueue
+
+afterEach(async () => {
+  await queue.close(0)
+})
+
+async function getQueueJob(id: string) {
+  const [job] = await db.select().from(tables.queueJobs).where(eq(tables.queueJobs.id, id))
+  return job!
+}
+
+/**
+ * Leave a queue entry as a crashed worker would: active with an expired lease
+ */
+async function expireLease(id: string): Promise<void> {
+  await db
+    .update(tables.queueJobs)
+    .set({
+      status: 'active',
+      lockedBy: 'dead-worker',
+      lockedUntil: Date.now() - 1000,
+      attemptsMade: 1,
+    })
+    .where(eq(tables.queueJobs.id, id))
+}
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the queue')
+    await Bun.sleep(10)
+  }
+}
+
+describe('DatabaseQueue', () => {
+  test('queues an app job only once', async () => {
+    queue = new DatabaseQueue()
+    const data = { jobId: nanoid(), accountId: 'account' }
+
+    const [first, second] = await Promise.all([queue.add('trash', data), queue.add('trash', data)])
+
+    expect(second).toBe(first)
+  })
+
+  test('enforces one live entry per app job in the database', async () => {
+    queue = new DatabaseQueue()
+    const data = { jobId: nanoid(), accountId: 'account' }
+    await queue.add('trash', data)
+
+    const duplicate = db.insert(tables.queueJobs).values({
+      type: 'trash',
+      data: JSON.stringify(data),
+      jobId: data.jobId,
+      runAt: Date.now(),
+    })
+    await expect(Promise.resolve(duplicate)).rejects.toThrow()
+  })
+
+  test('requeues an entry left active by a crashed worker', async () => {
+    queue = new DatabaseQueue()
+    const data = { jobId: nanoid(), accountId: 'account' }
+    const id = await queue.add('trash', data)
+    await expireLease(id)
+
+    expect(await queue.add('trash', data)).toBe(id)
+
+    const job = await getQueueJob(id)
+    expect(job.status).toBe('waiting')
+    expect(job.lockedBy).toBeNull()
+    expect(job.attemptsMade).toBe(0)
+  })
+
+  test("doesn't count an expired lease as a used attempt", async () => {
+    queue = new DatabaseQueue({ pollInterval: 10, visibilityTimeout: 5000 })
+    const data = { jobId: nanoid(), accountId: 'account' }
+    const id = await queue.add('strip', data)
+    await expireLease(id)
+
+    const handled: string[] = []
+    queue.process('strip', async (jobData) => {
+      handled.push(jobData.jobId)
+    })
+    queue.start()
+
+    await waitFor(async () => (await getQueueJob(id)).status === 'completed')
+
+    expect(handled).toEqual([data.jobId])
+    expect((await getQueueJob(id)).attemptsMade).toBe(1)
+  })
+
+  test('a booting replica leaves jobs another replica is running alone', async () => {
+    const { userId, accountId } = await createTestAccount()
+    const [live, crashed] = await db
+      .insert(tables.jobs)
+      .values([
+        { userId, mailAccountId: accountId, type: 'trash', status: 'running' },
+        { userId, mailAccountId: accountId, type: 'trash', status: 'running' },
+      ])
+      .returning()
+
+    // Replica A is in the middle of the live job
+    queue = new DatabaseQueue({ pollInterval: 10 })
+    let release!: () => void
+    const released = new Promise<void>((resolve) => (release = resolve))
+    const started: string[] = []
+    queue.process('trash', async (data) => {
+      started.push(data.jobId)
+      // Entries left by other tests just finish
+      if (data.jobId === live!.id) await released
+    })
+    const liveEntry = await queue.add('trash', { jobId: live!.id, accountId })
+    queue.start()
+    await waitFor(async () => started.includes(live!.id))
+    // Keep its lease but take no more work, so it can't reclaim the crashed entry below
+    await queue.pause()
+
+    // The crashed job's replica died without finishing it
+    const crashedReplica = new DatabaseQueue()
+    const crashedEntry = await crashedReplica.add('trash', { jobId: crashed!.id, accountId })
+    await crashedReplica.close(0)
+    await expireLease(crashedEntry)
+
+    // Replica B boots (the module-level queue stands in for it)
+    try {
+      await resumeInterruptedCleanupJobs()
+
+      const [liveJob] = await db.select().from(tables.jobs).where(eq(tables.jobs.id, live!.id))
+      const [crashedJob] = await db
+        .select()
+        .from(tables.jobs)
+        .where(eq(tables.jobs.id, crashed!.id))
+      expect(liveJob!.status).toBe('running')
+      expect(crashedJob!.status).toBe('pending')
+
+      expect(await getQueueJob(liveEntry)).toMatchObject({
+        status: 'active',
+        lockedBy: queue.workerId,
+      })
+      expect((await getQueueJob(crashedEntry)).status).toBe('waiting')
+    } finally {
+      release()
+      await closeQueue()
+    }
+  })
+})
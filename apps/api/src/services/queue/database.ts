@@ -0,0 +1,494 @@
+/**
+ * Database Job Queue
+ *
+ * Durable queue stored in the `queue_jobs` table, for SQLite and Postgres.
+ * Jobs survive restarts, and several API replicas can share one Postgres database.
+ *
+ * - Claims are leases: a worker takes a job with a conditional UPDATE
+ *   (compare-and-set on status, lease and attempt count), so two workers can
+ *   never both win the same job
+ * - Leases are renewed while the handler runs; if a worker dies, its jobs are
+ *   reclaimed once the visibility timeout passes. A lost lease doesn't use up an
+ *   attempt - only a handler error does
+ * - An app job (data.jobId) has at most one waiting or active entry, enforced by a
+ *   partial unique index
+ * - Jobs run by priority (lower first), then by run time; `delay` and retry
+ *   backoff push the run time into the future
+ */
+
+import { hostname } from 'node:os'
+import { eq, and, or, inArray, lte, lt, gte, asc, sql } from 'drizzle-orm'
+import { db, tables } from '../../db'
+import type { QueueJob } from '../../db'
+import { nanoid } from '../../lib/id'
+import type { Queue, QueueJobType, JobData, JobHandler, AddJobOptions, QueueStatus } from './types'
+import { logger } from '../../lib/logger'
+
+export interface DatabaseQueueOptions {
+  /** Jobs this process runs at once */
+  maxConcurrency?: number
+  /** How long a claimed job stays invisible to other workers without a lease renewal (ms) */
+  visibilityTimeout?: number
+  /** How often to look for new jobs (ms) */
+  pollInterval?: number
+  /** Completed/failed jobs older than this are deleted (ms) */
+  retention?: number
+}
+
+// Candidates fetched per claim attempt - losers of a race try the next one
+const CLAIM_BATCH_SIZE = 5
+
+// Cap for exponential retry backoff
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+
+// How often finished jobs are pruned
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * Database-backed queue implementation
+ */
+export class DatabaseQueue implements Queue {
+  private handlers = new Map<QueueJobType, JobHandler>()
+  private paused = false
+  private polling = false
+  private activeCount = 0
+  private maxConcurrency: number
+  private visibilityTimeout: number
+  private pollInterval: number
+  private retention: number
+  private processInterval: ReturnType<typeof setInterval> | null = null
+  private lastCleanupAt = 0
+  private activeJobs = new Set<Promise<void>>()
+
+  /** Identifies this process in `locked_by` */
+  readonly workerId = `${hostname()}:${process.pid}:${nanoid(6)}`
+
+  constructor(options: DatabaseQueueOptions = {}) {
+    this.maxConcurrency = options.maxConcurrency ?? 3
+    this.visibilityTimeout = options.visibilityTimeout ?? 60_000
+    this.pollInterval = options.pollInterval ?? 1000
+    this.retention = options.retention ?? 7 * 24 * 60 * 60 * 1000
+  }
+
+  /**
+   * Start polling for jobs
+   */
+  start(): void {
+    if (this.processInterval) return
+
+    logger.debug(`[DatabaseQueue] Starting queue processor (worker ${this.workerId})`)
+
+    this.processInterval = setInterval(() => {
+      this.poll()
+    }, this.pollInterval)
+  }
+
+  /**
+   * Add a job to the queue
+   *
+   * If the same app job (data.jobId) is already waiting or running, its queue
+   * entry is returned instead - resuming on startup can't run a job twice.
+   * An entry whose worker died (lease expired, e.g. after a crash) is put back to
+   * waiting, without counting the lost attempt, so it runs again right away.
+   */
+  async add(type: QueueJobType, data: JobData, options: AddJobOptions = {}): Promise<string> {
+    const now = Date.now()
+    const sameJob = and(eq(tables.queueJobs.type, type), eq(tables.queueJobs.jobId, data.jobId))
+
+    const [revived] = await db
+      .update(tables.queueJobs)
+      .set({
+        status: 'waiting',
+        data: JSON.stringify(data),
+        lockedBy: null,
+        lockedUntil: null,
+        attemptsMade: sql`${tables.queueJobs.attemptsMade} - 1`,
+        runAt: now + (options.delay ?? 0),
+      })
+      .where(
+        and(sameJob, eq(tables.queueJobs.status, 'active'), lt(tables.queueJobs.lockedUntil, now))
+      )
+      .returning({ id: tables.queueJobs.id })
+
+    if (revived) {
+      logger.debug(`[DatabaseQueue] Requeued job ${revived.id} after its worker stopped responding`)
+    }
+
+    // A concurrent add() of the same app job loses on the unique index and reuses its entry
+    const [job] = revived
+      ? [revived]
+      : await db
+          .insert(tables.queueJobs)
+          .values({
+            type,
+            data: JSON.stringify(data),
+            jobId: data.jobId,
+            priority: options.priority ?? 0,
+            maxAttempts: 1 + (options.attempts ?? 0),
+            backoff: options.backoff ? JSON.stringify(options.backoff) : null,
+            runAt: now + (options.delay ?? 0),
+          })
+          .onConflictDoNothing()
+          .returning({ id: tables.queueJobs.id })
+
+    if (!job) {
+      const [existing] = await db
+        .select({ id: tables.queueJobs.id })
+        .from(tables.queueJobs)
+        .where(and(sameJob, inArray(tables.queueJobs.status, ['waiting', 'active'])))
+        .limit(1)
+
+      if (!existing) {
+        throw new Error(`Failed to queue ${type} job`)
+      }
+
+      logger.debug(`[DatabaseQueue] Job ${data.jobId} is already queued as ${existing.id}`)
+      return existing.id
+    }
+
+    if (!revived) {
+      logger.debug(`[DatabaseQueue] Added job ${job.id} of type ${type}`)
+    }
+
+    // Pick it up right away rather than on the next poll
+    this.start()
+    if (!options.delay) {
+      this.poll()
+    }
+
+    return job.id
+  }
+
+  /**
+   * Register a handler for a job type
+   */
+  process(type: QueueJobType, handler: JobHandler): void {
+    this.handlers.set(type, handler)
+    logger.debug(`[DatabaseQueue] Registered handler for ${type}`)
+  }
+
+  /**
+   * Claim and start jobs while there is capacity
+   */
+  private async poll(): Promise<void> {
+    if (this.paused || this.polling || this.handlers.size === 0) return
+    this.polling = true
+
+    try {
+      while (!this.paused && this.activeCount < this.maxConcurrency) {
+        const job = await this.claimNext()
+        if (!job) break
+        this.run(job)
+      }
+
+      if (Date.now() - this.lastCleanupAt > CLEANUP_INTERVAL_MS) {
+        this.lastCleanupAt = Date.now()
+        await this.cleanup(this.retention)
+      }
+    } catch (error) {
+      logger.error('[DatabaseQueue] Poll failed:', error)
+    } finally {
+      this.polling = false
+    }
+  }
+
+  /**
+   * Condition for jobs that can be claimed now: due and waiting, or leased by a dead worker
+   */
+  private claimableCondition(now: number) {
+    return or(
+      and(eq(tables.queueJobs.status, 'waiting'), lte(tables.queueJobs.runAt, now)),
+      and(eq(tables.queueJobs.status, 'active'), lt(tables.queueJobs.lockedUntil, now))
+    )
+  }
+
+  /**
+   * Lease the next job this process has a handler for
+   */
+  private async claimNext(): Promise<QueueJob | null> {
+    const now = Date.now()
+
+    const candidates = await db
+      .select()
+      .from(tables.queueJobs)
+      .where(
+        and(inArray(tables.queueJobs.type, [...this.handlers.keys()]), this.claimableCondition(now))
+      )
+      .orderBy(asc(tables.queueJobs.priority), asc(tables.queueJobs.runAt))
+      .limit(CLAIM_BATCH_SIZE)
+
+    for (const candidate of candidates) {
+      // Taking over an expired lease continues the attempt its dead worker started
+      const isReclaim = candidate.status === 'active'
+
+      // Compare-and-set: only succeeds if nobody claimed it since we read it
+      const [claimed] = await db
+        .update(tables.queueJobs)
+        .set({
+          status: 'active',
+          lockedBy: this.workerId,
+          lockedUntil: now + this.visibilityTimeout,
+          attemptsMade: isReclaim ? candidate.attemptsMade : candidate.attemptsMade + 1,
+        })
+        .where(
+          and(
+            eq(tables.queueJobs.id, candidate.id),
+            eq(tables.queueJobs.attemptsMade, candidate.attemptsMade),
+            this.claimableCondition(now)
+          )
+        )
+        .returning()
+
+      if (claimed) {
+        return claimed
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Run a claimed job, renewing its lease until the handler settles
+   */
+  private run(job: QueueJob): void {
+    const handler = this.handlers.get(job.type)
+    if (!handler) return
+
+    this.activeCount++
+    logger.debug(
+      `[DatabaseQueue] Processing job ${job.id} (${job.type}, attempt ${job.attemptsMade}/${job.maxAttempts})`
+    )
+
+    const heartbeat = setInterval(
+      () => {
+        this.renewLease(job.id).catch((error) => {
+          logger.warn(`[DatabaseQueue] Failed to renew lease for job ${job.id}:`, error)
+        })
+      },
+      Math.max(1000, Math.floor(this.visibilityTimeout / 3))
+    )
+
+    const execution = (async () => {
+      try {
+        await handler(JSON.parse(job.data) as JobData)
+        await this.complete(job)
+      } catch (error) {
+        await this.fail(job, error).catch((failError) => {
+          logger.error(`[DatabaseQueue] Failed to record failure of job ${job.id}:`, failError)
+        })
+      } finally {
+        clearInterval(heartbeat)
+        this.activeCount--
+      }
+    })()
+
+    this.activeJobs.add(execution)
+    execution.finally(() => {
+      this.activeJobs.delete(execution)
+      // Capacity freed up - look for more work
+      this.poll()
+    })
+  }
+
+  private async renewLease(jobId: string): Promise<void> {
+    await db
+      .update(tables.queueJobs)
+      .set({ lockedUntil: Date.now() + this.visibilityTimeout })
+      .where(and(eq(tables.queueJobs.id, jobId), eq(tables.queueJobs.lockedBy, this.workerId)))
+  }
+
+  private async complete(job: QueueJob): Promise<void> {
+    await db
+      .update(tables.queueJobs)
+      .set({ status: 'completed', lockedBy: null, lockedUntil: null, finishedAt: Date.now() })
+      .where(and(eq(tables.queueJobs.id, job.id), eq(tables.queueJobs.lockedBy, this.workerId)))
+
+    logger.debug(`[DatabaseQueue] Job ${job.id} completed`)
+  }
+
+  /**
+   * Schedule a retry with backoff, or mark the job failed when out of attempts
+   */
+  private async fail(job: QueueJob, error: unknown): Promise<void> {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[DatabaseQueue] Job ${job.id} failed:`, errorMessage)
+
+    const ownedByUs = and(
+      eq(tables.queueJobs.id, job.id),
+      eq(tables.queueJobs.lockedBy, this.workerId)
+    )
+
+    if (job.attemptsMade < job.maxAttempts) {
+      const retryDelay = this.calculateRetryDelay(job)
+      logger.debug(`[DatabaseQueue] Scheduling retry for job ${job.id} in ${retryDelay}ms`)
+
+      await db
+        .update(tables.queueJobs)
+        .set({
+          status: 'waiting',
+          lockedBy: null,
+          lockedUntil: null,
+          runAt: Date.now() + retryDelay,
+          lastError: errorMessage,
+        })
+        .where(ownedByUs)
+      return
+    }
+
+    await db
+      .update(tables.queueJobs)
+      .set({
+        status: 'failed',
+        lockedBy: null,
+        lockedUntil: null,
+        lastError: errorMessage,
+        finishedAt: Date.now(),
+      })
+      .where(ownedByUs)
+  }
+
+  /**
+   * Delay before the next attempt, from the job's backoff configuration
+   */
+  private calculateRetryDelay(job: QueueJob): number {
+    const backoff: NonNullable<AddJobOptions['backoff']> = job.backoff
+      ? JSON.parse(job.backoff)
+      : { type: 'exponential', delay: 1000 }
+
+    if (backoff.type === 'fixed') {
+      return backoff.delay
+    }
+
+    // Exponential: delay, 2x delay, 4x delay... with jitter (0.75x to 1.25x)
+    const delay = Math.min(MAX_BACKOFF_MS, backoff.delay * Math.pow(2, job.attemptsMade - 1))
+    const jitter = 0.75 + Math.random() * 0.5
+    return Math.floor(delay * jitter)
+  }
+
+  /**
+   * Get queue status (across all workers sharing the database)
+   */
+  async getStatus(): Promise<QueueStatus> {
+    const rows = await db
+      .select({ status: tables.queueJobs.status, count: sql<number>`count(*)` })
+      .from(tables.queueJobs)
+      .groupBy(tables.queueJobs.status)
+
+    const counts = new Map(rows.map((row) => [row.status, Number(row.count)]))
+
+    return {
+      type: 'database',
+      waiting: counts.get('waiting') ?? 0,
+      active: counts.get('active') ?? 0,
+      completed: counts.get('completed') ?? 0,
+      failed: counts.get('failed') ?? 0,
+    }
+  }
+
+  /**
+   * App job IDs whose entry is leased by a live worker (in any process)
+   * An expired lease doesn't count - its worker is gone and the entry gets reclaimed.
+   */
+  async getRunningJobIds(types: QueueJobType[]): Promise<Set<string>> {
+    if (types.length === 0) return new Set()
+
+    const rows = await db
+      .select({ jobId: tables.queueJobs.jobId })
+      .from(tables.queueJobs)
+      .where(
+        and(
+          inArray(tables.queueJobs.type, types),
+          eq(tables.queueJobs.status, 'active'),
+          gte(tables.queueJobs.lockedUntil, Date.now())
+        )
+      )
+
+    return new Set(rows.map((row) => row.jobId).filter((id): id is string => !!id))
+  }
+
+  /**
+   * Pause job processing (in this process)
+   */
+  async pause(): Promise<void> {
+    this.paused = true
+    logger.debug('[DatabaseQueue] Queue paused')
+  }
+
+  /**
+   * Resume job processing
+   */
+  async resume(): Promise<void> {
+    this.paused = false
+    logger.debug('[DatabaseQueue] Queue resumed')
+    this.poll()
+  }
+
+  /**
+   * Stop polling and wait for running jobs to settle
+   *
+   * Jobs still running after the grace period keep their lease and are
+   * reclaimed by another worker (or after restart) once it expires.
+   */
+  async close(gracePeriod = 5000): Promise<void> {
+    if (this.processInterval) {
+      clearInterval(this.processInterval)
+      this.processInterval = null
+    }
+    this.paused = true
+
+    if (this.activeJobs.size > 0) {
+      await Promise.race([
+        Promise.allSettled([...this.activeJobs]),
+        new Promise((resolve) => setTimeout(resolve, gracePeriod)),
+      ])
+    }
+
+    logger.debug('[DatabaseQueue] Queue closed')
+  }
+
+  /**
+   * Remove a job from the queue (running jobs can't be removed)
+   */
+  async remove(jobId: string): Promise<boolean> {
+    const removed = await db
+      .delete(tables.queueJobs)
+      .where(and(eq(tables.queueJobs.id, jobId), sql`${tables.queueJobs.status} <> 'active'`))
+      .returning({ id: tables.queueJobs.id })
+
+    if (removed.length === 0) {
+      logger.warn(`[DatabaseQueue] Job ${jobId} not found or active`)
+      return false
+    }
+
+    logger.debug(`[DatabaseQueue] Removed job ${jobId}`)
+    return true
+  }
+
+  /**
+   * Delete completed/failed jobs that finished more than maxAge ago
+   */
+  async cleanup(maxAgeMs: number = this.retention): Promise<number> {
+    const removed = await db
+      .delete(tables.queueJobs)
+      .where(
+        and(
+          inArray(tables.queueJobs.status, ['completed', 'failed']),
+          lt(tables.queueJobs.finishedAt, Date.now() - maxAgeMs)
+        )
+      )
+      .returning({ id: tables.queueJobs.id })
+
+    if (removed.length > 0) {
+      logger.debug(`[DatabaseQueue] Cleaned up ${removed.length} old jobs`)
+    }
+
+    return removed.length
+  }
+}
+
+/**
+ * Create a database queue instance
+ */
+export function createDatabaseQueue(options: DatabaseQueueOptions = {}): DatabaseQueue {
+  return new DatabaseQueue(options)
+}
@@ -1,19 +1,26 @@
 /**
  * Job Queue
  *
- * In-memory job queue for background processing.
+ * Job queue for background processing.
  * Handles email sync and deletion jobs with retry support.
+ *
+ * Jobs are stored in the database by default, so they survive restarts and
+ * can be shared by several replicas on Postgres. QUEUE_DRIVER=memory keeps
+ * them in process memory instead.
  */
 
 import { createMemoryQueue, MemoryQueue } from './memory'
+import { createDatabaseQueue, DatabaseQueue } from './database'
 import type { Queue, QueueJobType, JobData, JobHandler, AddJobOptions } from './types'
 import { logger } from '../../lib/logger'
 
 // Re-export types
 export * from './types'
 
+const queueDriver = process.env.QUEUE_DRIVER === 'memory' ? 'memory' : 'database'
+
 // Queue type for display purposes
-export const queueType = 'in-memory'
+export const queueType = queueDriver === 'memory' ? 'in-memory' : 'database'
 
 // Singleton queue instance
 let queueInstance: Queue | null = null
@@ -26,8 +33,13 @@ export function getQueue(): Queue {
     return queueInstance
   }
 
-  logger.debug('[Queue] Using in-memory queue')
-  queueInstance = createMemoryQueue({ maxConcurrency: 3 })
+  if (queueDriver === 'memory') {
+    logger.debug('[Queue] Using in-memory queue')
+    queueInstance = createMemoryQueue({ maxConcurrency: 3 })
+  } else {
+    logger.debug('[Queue] Using database queue')
+    queueInstance = createDatabaseQueue({ maxConcurrency: 3 })
+  }
 
   return queueInstance
 }
@@ -38,8 +50,8 @@ export function getQueue(): Queue {
 export function initializeQueue(): Queue {
   const queue = getQueue()
 
-  // Start the memory queue processor
-  if (queue instanceof MemoryQueue) {
+  // Start the queue processor
+  if (queue instanceof MemoryQueue || queue instanceof DatabaseQueue) {
     queue.start()
   }
 
@@ -77,6 +89,14 @@ export function registerHandler(type: QueueJobType, handler: JobHandler): void {
   queue.process(type, handler)
 }
 
+/**
+ * App job IDs that a live worker is running right now (convenience function)
+ */
+export async function getRunningJobIds(types: QueueJobType[]): Promise<Set<string>> {
+  const queue = getQueue()
+  return queue.getRunningJobIds(types)
+}
+
 /**
  * Get queue status (convenience function)
  */
@@ -85,5 +105,5 @@ export async function getQueueStatus() {
   return queue.getStatus()
 }
 
-// Export queue class for direct use if needed
-export { MemoryQueue }
+// Export queue classes for direct use if needed
+export { MemoryQueue, DatabaseQueue }
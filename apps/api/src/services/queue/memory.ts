@@ -1,8 +1,9 @@
 /**
  * In-Memory Job Queue
  *
- * Simple queue implementation for self-hosted deployments without Redis.
+ * Simple queue kept in process memory (QUEUE_DRIVER=memory).
  * Jobs are lost on restart but can be resumed from database state.
+ * Single process only - use the database queue for multiple replicas.
  */
 
 import { nanoid } from '../../lib/id'
@@ -205,6 +206,19 @@ export class MemoryQueue implements Queue {
     }
   }
 
+  /**
+   * App job IDs being run by this process
+   */
+  async getRunningJobIds(types: QueueJobType[]): Promise<Set<string>> {
+    const ids = new Set<string>()
+    for (const job of this.jobs.values()) {
+      if (job.status === 'active' && types.includes(job.type)) {
+        ids.add(job.data.jobId)
+      }
+    }
+    return ids
+  }
+
   /**
    * Pause job processing
    */
@@ -2,7 +2,7 @@
  * Job Queue Types
  *
  * Abstract interface for job queue implementations.
- * Supports both in-memory (self-hosted) and BullMQ (Redis) backends.
+ * Backed by the database (durable, default) or kept in memory.
  */
 
 /**
@@ -23,15 +23,30 @@ export interface DeleteJobData {
   query?: string
 }
 
+/**
+ * Job data for importing messages into Gmail
+ */
+export interface ImportJobData {
+  jobId: string
+  accountId: string
+}
+
 /**
  * Union of all job data types
  */
-export type JobData = SyncJobData | DeleteJobData
+export type JobData = SyncJobData | DeleteJobData | ImportJobData
 
 /**
  * Job types supported by the queue
  */
-export type QueueJobType = 'metadata_sync' | 'delete' | 'trash'
+export type QueueJobType =
+  | 'metadata_sync'
+  | 'delete'
+  | 'trash'
+  | 'archive'
+  | 'label'
+  | 'import'
+  | 'strip'
 
 /**
  * Options for adding a job to the queue
@@ -60,7 +75,7 @@ export type JobHandler<T extends JobData = JobData> = (data: T) => Promise<void>
  */
 export interface QueueStatus {
   /** Queue implementation type */
-  type: 'memory' | 'bullmq'
+  type: 'memory' | 'database' | 'bullmq'
   /** Number of waiting jobs */
   waiting: number
   /** Number of active jobs */
@@ -74,7 +89,7 @@ export interface QueueStatus {
 /**
  * Queue interface
  *
- * Abstract interface that both in-memory and BullMQ implementations conform to.
+ * Abstract interface that both the database and in-memory implementations conform to.
  */
 export interface Queue {
   /**
@@ -98,6 +113,12 @@ export interface Queue {
    */
   getStatus(): Promise<QueueStatus>
 
+  /**
+   * App job IDs (data.jobId) that a live worker is running right now
+   * @param types - Job types to look at
+   */
+  getRunningJobIds(types: QueueJobType[]): Promise<Set<string>>
+
   /**
    * Pause the queue (stop processing new jobs)
    */
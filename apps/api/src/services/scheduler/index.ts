@@ -1,21 +1,34 @@
 /**
  * Scheduler Service
  *
- * Handles periodic background tasks like delta sync.
+ * Handles periodic background tasks like delta sync and Gmail watch renewal.
+ * Scheduled cleanup rules are evaluated right after each account's delta sync,
+ * so rules see the latest mailbox state (schedules are effectively 30-minute granular).
+ * Age-based mail rules are re-evaluated and mirrored Gmail filters checked for drift
+ * at the same point.
+ * The first successful delta sync of each day (UTC) also records a mailbox snapshot.
  * Uses setInterval for simplicity (no external dependencies).
  */
 
-import { eq, and, isNotNull } from 'drizzle-orm'
+import { eq, and, or, isNotNull } from 'drizzle-orm'
 import { db, tables } from '../../db'
 import type { MailAccount } from '../../db'
 import { processDeltaSync } from '../sync/worker'
+import { runDueCleanupRules } from '../cleanup/rules'
+import { applyAgedMailRules, detectMailRuleDrift } from '../mail-rules'
+import { recordDailySnapshot } from '../snapshots'
+import { isGmailPushEnabled, renewGmailWatches } from '../gmail-push'
 import { logger } from '../../lib/logger'
 
 // 30 minutes in milliseconds
 const DELTA_SYNC_INTERVAL_MS = 30 * 60 * 1000
 
-// Track the interval handle for cleanup
+// 6 hours - watches last 7 days and are renewed a day before they expire
+const WATCH_RENEWAL_INTERVAL_MS = 6 * 60 * 60 * 1000
+
+// Track the interval handles for cleanup
 let deltaSyncIntervalId: ReturnType<typeof setInterval> | null = null
+let watchRenewalIntervalId: ReturnType<typeof setInterval> | null = null
 
 /**
  * Check if there's an active sync job for an account
@@ -39,19 +52,74 @@ async function hasActiveSyncJob(accountId: string): Promise<boolean> {
 /**
  * Get all accounts eligible for delta sync
  * - syncStatus = 'completed' (has had a successful full sync)
- * - historyId is set (needed for delta sync)
+ * - a sync cursor is set (Gmail historyId or Outlook deltaLinks, needed for delta sync)
  */
 async function getEligibleAccounts(): Promise<MailAccount[]> {
   const accounts = await db
     .select()
     .from(tables.mailAccounts)
     .where(
-      and(eq(tables.mailAccounts.syncStatus, 'completed'), isNotNull(tables.mailAccounts.historyId))
+      and(
+        eq(tables.mailAccounts.syncStatus, 'completed'),
+        or(isNotNull(tables.mailAccounts.historyId), isNotNull(tables.mailAccounts.deltaLinks))
+      )
     )
 
   return accounts
 }
 
+/**
+ * Evaluate the account's due cleanup rules
+ * Rule failures are logged and never count as a delta sync failure
+ */
+async function runCleanupRules(account: MailAccount): Promise<void> {
+  try {
+    const evaluated = await runDueCleanupRules(account.id)
+    if (evaluated > 0) {
+      logger.debug(`[Scheduler] Evaluated ${evaluated} cleanup rule(s) for ${account.email}`)
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[Scheduler] Cleanup rules failed for ${account.email}:`, errorMessage)
+  }
+}
+
+/**
+ * Apply the account's age-based mail rules and check its mirrored Gmail filters for drift
+ * Rule failures are logged and never count as a delta sync failure
+ */
+async function runMailRules(account: MailAccount): Promise<void> {
+  try {
+    const changed = await applyAgedMailRules(account.id)
+    if (changed > 0) {
+      logger.debug(`[Scheduler] Mail rules changed ${changed} email(s) for ${account.email}`)
+    }
+
+    const drifted = await detectMailRuleDrift(account.id)
+    if (drifted > 0) {
+      logger.debug(`[Scheduler] ${drifted} mirrored Gmail filter(s) drifted for ${account.email}`)
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[Scheduler] Mail rules failed for ${account.email}:`, errorMessage)
+  }
+}
+
+/**
+ * Record the account's snapshot for today if it has none yet
+ * Snapshot failures are logged and never count as a delta sync failure
+ */
+async function recordSnapshot(account: MailAccount): Promise<void> {
+  try {
+    if (await recordDailySnapshot(account.id)) {
+      logger.debug(`[Scheduler] Recorded mailbox snapshot for ${account.email}`)
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error(`[Scheduler] Mailbox snapshot failed for ${account.email}:`, errorMessage)
+  }
+}
+
 /**
  * Run delta sync for all eligible accounts
  * Handles errors gracefully - one account's failure won't affect others
@@ -89,8 +157,11 @@ async function runPeriodicDeltaSync(): Promise<void> {
           `[Scheduler] Delta sync for ${account.email}: ${result.added} added, ${result.deleted} deleted, ${result.labelChanges} label changes`
         )
         successCount++
+        await runCleanupRules(account)
+        await runMailRules(account)
+        await recordSnapshot(account)
       } else {
-        // Delta sync returned null - history expired or no historyId
+        // Delta sync returned null - history expired or no sync cursor
         logger.warn(
           `[Scheduler] Delta sync for ${account.email} returned null - may need full sync`
         )
@@ -109,9 +180,20 @@ async function runPeriodicDeltaSync(): Promise<void> {
   )
 }
 
+/**
+ * Start or renew Gmail push watches that are missing or about to expire
+ */
+async function runWatchRenewal(): Promise<void> {
+  const processed = await renewGmailWatches()
+  if (processed > 0) {
+    logger.debug(`[Scheduler] Renewed Gmail watches for ${processed} account(s)`)
+  }
+}
+
 /**
  * Start the scheduler
- * Schedules periodic delta sync for all eligible accounts
+ * Schedules periodic delta sync for all eligible accounts,
+ * and Gmail watch renewal when push notifications are enabled
  */
 export function startScheduler(): void {
   if (deltaSyncIntervalId) {
@@ -138,6 +220,24 @@ export function startScheduler(): void {
     })
   }, DELTA_SYNC_INTERVAL_MS)
 
+  if (isGmailPushEnabled()) {
+    logger.debug(
+      `[Scheduler] Gmail push enabled (watch renewal every ${WATCH_RENEWAL_INTERVAL_MS / 3600000} hours)`
+    )
+
+    setTimeout(() => {
+      runWatchRenewal().catch((error) => {
+        logger.error('[Scheduler] Initial watch renewal failed:', error)
+      })
+    }, 10000) // After the initial delta sync has started
+
+    watchRenewalIntervalId = setInterval(() => {
+      runWatchRenewal().catch((error) => {
+        logger.error('[Scheduler] Watch renewal failed:', error)
+      })
+    }, WATCH_RENEWAL_INTERVAL_MS)
+  }
+
   logger.debug('[Scheduler] Scheduler started successfully')
 }
 
@@ -151,6 +251,10 @@ export function stopScheduler(): void {
     deltaSyncIntervalId = null
     logger.debug('[Scheduler] Scheduler stopped')
   }
+  if (watchRenewalIntervalId) {
+    clearInterval(watchRenewalIntervalId)
+    watchRenewalIntervalId = null
+  }
 }
 
 /**
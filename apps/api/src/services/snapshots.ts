@@ -0,0 +1,377 @@
+import { eq, and, gte, asc, desc, count, sql } from 'drizzle-orm'
+import { db, tables, dbType } from '../db'
+import type { MailboxSnapshot } from '../db'
+import { hashForLog } from '../lib/hash'
+import { logger } from '../lib/logger'
+
+/**
+ * Mailbox snapshots and storage forecasts
+ *
+ * The scheduler records one snapshot per account and day (UTC) from the local
+ * email table: totals, trash and spam, per-category counts and sizes, the top
+ * senders by size and the storage reclaimed by jobs so far. The overview charts
+ * them and projects when the mailbox reaches the account's Gmail storage quota.
+ *
+ * Gmail's quota is shared with Drive and Photos, which Inboxorcist can't see,
+ * so the projection only accounts for mail.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const GB = 1024 * 1024 * 1024
+
+// Free Google accounts get 15 GB
+const DEFAULT_QUOTA_GB = 15
+
+// Top senders kept in each snapshot
+const SNAPSHOT_TOP_SENDERS = 10
+
+// Snapshots needed before the forecast uses them instead of recent mail
+const MIN_FORECAST_SNAPSHOTS = 7
+
+// Days of snapshots (or of received mail) the growth rate is computed from
+const FORECAST_WINDOW_DAYS = 90
+
+// Projections further out than this are reported as not in sight
+const MAX_FORECAST_DAYS = 100 * 365
+
+export const MAX_TREND_DAYS = 365
+
+export interface CategorySnapshot {
+  count: number
+  sizeBytes: number
+}
+
+export interface SenderSnapshot {
+  email: string
+  name: string | null
+  count: number
+  sizeBytes: number
+}
+
+/**
+ * Snapshot as returned by the API
+ */
+export interface SnapshotInfo {
+  date: string // YYYY-MM-DD (UTC)
+  totalEmails: number
+  totalSizeBytes: number
+  unreadCount: number
+  trashCount: number
+  trashSizeBytes: number
+  spamCount: number
+  spamSizeBytes: number
+  categories: Record<string, CategorySnapshot>
+  topSenders: SenderSnapshot[]
+  reclaimedBytes: number // Cumulative
+}
+
+/**
+ * When the mailbox reaches the storage quota at the current growth rate
+ */
+export interface StorageForecast {
+  quotaBytes: number
+  quotaIsDefault: boolean // No quota set for the account - GMAIL_STORAGE_QUOTA_GB is used
+  defaultQuotaBytes: number
+  usedBytes: number
+  // snapshots: net growth over recent snapshots (cleanup included)
+  // recent_mail: mail received over the last 90 days, until there are enough snapshots
+  basis: 'snapshots' | 'recent_mail'
+  growthBytesPerDay: number
+  daysUntilFull: number | null // null when the quota isn't reached within 100 years
+  fullAt: string | null
+}
+
+// ============================================================================
+// Storage quota
+// ============================================================================
+
+/**
+ * Default quota from GMAIL_STORAGE_QUOTA_GB, in bytes
+ */
+function getDefaultQuotaBytes(): number {
+  const gb = parseFloat(process.env.GMAIL_STORAGE_QUOTA_GB?.trim() || '')
+  return Math.round((gb > 0 ? gb : DEFAULT_QUOTA_GB) * GB)
+}
+
+/**
+ * Set the account's storage quota in bytes, or null for the default
+ */
+export async function setStorageQuota(accountId: string, quotaBytes: number | null): Promise<void> {
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  await db
+    .update(tables.mailAccounts)
+    .set({ storageQuotaBytes: quotaBytes, updatedAt: now as Date })
+    .where(eq(tables.mailAccounts.id, accountId))
+}
+
+/**
+ * Get the account's storage quota in bytes, falling back to the default
+ */
+export async function getStorageQuota(
+  accountId: string
+): Promise<{ quotaBytes: number; isDefault: boolean }> {
+  const [account] = await db
+    .select({ storageQuotaBytes: tables.mailAccounts.storageQuotaBytes })
+    .from(tables.mailAccounts)
+    .where(eq(tables.mailAccounts.id, accountId))
+    .limit(1)
+
+  return account?.storageQuotaBytes
+    ? { quotaBytes: Number(account.storageQuotaBytes), isDefault: false }
+    : { quotaBytes: getDefaultQuotaBytes(), isDefault: true }
+}
+
+// ============================================================================
+// Snapshots
+// ============================================================================
+
+function getSnapshotDate(date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function parseJson<T>(value: string, fallback: T): T {
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+function toSnapshotInfo(snapshot: MailboxSnapshot): SnapshotInfo {
+  return {
+    date: snapshot.date,
+    totalEmails: snapshot.totalEmails,
+    totalSizeBytes: Number(snapshot.totalSizeBytes),
+    unreadCount: snapshot.unreadCount,
+    trashCount: snapshot.trashCount,
+    trashSizeBytes: Number(snapshot.trashSizeBytes),
+    spamCount: snapshot.spamCount,
+    spamSizeBytes: Number(snapshot.spamSizeBytes),
+    categories: parseJson(snapshot.categories, {}),
+    topSenders: parseJson(snapshot.topSenders, []),
+    reclaimedBytes: Number(snapshot.reclaimedBytes),
+  }
+}
+
+/**
+ * Record today's snapshot of the account, replacing an earlier one from today
+ */
+export async function takeSnapshot(accountId: string): Promise<SnapshotInfo> {
+  const { emails } = tables
+  const accountCondition = eq(emails.mailAccountId, accountId)
+  const mailCondition = and(accountCondition, eq(emails.isTrash, 0), eq(emails.isSpam, 0))
+
+  const [totals] = await db
+    .select({
+      total: count(),
+      totalSize: sql<number>`COALESCE(SUM(${emails.sizeBytes}), 0)`,
+      unread: sql<number>`COALESCE(SUM(CASE WHEN ${emails.isUnread} = 1 AND ${emails.isTrash} = 0 AND ${emails.isSpam} = 0 THEN 1 ELSE 0 END), 0)`,
+      trash: sql<number>`COALESCE(SUM(CASE WHEN ${emails.isTrash} = 1 THEN 1 ELSE 0 END), 0)`,
+      trashSize: sql<number>`COALESCE(SUM(CASE WHEN ${emails.isTrash} = 1 THEN ${emails.sizeBytes} ELSE 0 END), 0)`,
+      spam: sql<number>`COALESCE(SUM(CASE WHEN ${emails.isSpam} = 1 AND ${emails.isTrash} = 0 THEN 1 ELSE 0 END), 0)`,
+      spamSize: sql<number>`COALESCE(SUM(CASE WHEN ${emails.isSpam} = 1 AND ${emails.isTrash} = 0 THEN ${emails.sizeBytes} ELSE 0 END), 0)`,
+    })
+    .from(emails)
+    .where(accountCondition)
+
+  const categoryRows = await db
+    .select({
+      category: emails.category,
+      count: count(),
+      sizeBytes: sql<number>`COALESCE(SUM(${emails.sizeBytes}), 0)`,
+    })
+    .from(emails)
+    .where(and(mailCondition, sql`${emails.category} IS NOT NULL`))
+    .groupBy(emails.category)
+
+  const senderSize = sql<number>`COALESCE(SUM(${emails.sizeBytes}), 0)`
+  const senderRows = await db
+    .select({
+      email: emails.fromEmail,
+      name: sql<string | null>`MAX(${emails.fromName})`,
+      count: count(),
+      sizeBytes: senderSize,
+    })
+    .from(emails)
+    .where(and(mailCondition, sql`${emails.fromEmail} IS NOT NULL`))
+    .groupBy(emails.fromEmail)
+    .orderBy(desc(senderSize))
+    .limit(SNAPSHOT_TOP_SENDERS)
+
+  const [reclaimed] = await db
+    .select({ total: sql<number>`COALESCE(SUM(${tables.jobs.reclaimedBytes}), 0)` })
+    .from(tables.jobs)
+    .where(eq(tables.jobs.mailAccountId, accountId))
+
+  const categories: Record<string, CategorySnapshot> = {}
+  for (const row of categoryRows) {
+    if (row.category) {
+      categories[row.category] = { count: Number(row.count), sizeBytes: Number(row.sizeBytes) }
+    }
+  }
+
+  const topSenders: SenderSnapshot[] = senderRows.map((row) => ({
+    email: row.email!,
+    name: row.name,
+    count: Number(row.count),
+    sizeBytes: Number(row.sizeBytes),
+  }))
+
+  const values = {
+    totalEmails: Number(totals?.total ?? 0),
+    totalSizeBytes: Number(totals?.totalSize ?? 0),
+    unreadCount: Number(totals?.unread ?? 0),
+    trashCount: Number(totals?.trash ?? 0),
+    trashSizeBytes: Number(totals?.trashSize ?? 0),
+    spamCount: Number(totals?.spam ?? 0),
+    spamSizeBytes: Number(totals?.spamSize ?? 0),
+    categories: JSON.stringify(categories),
+    topSenders: JSON.stringify(topSenders),
+    reclaimedBytes: Number(reclaimed?.total ?? 0),
+  }
+  const date = getSnapshotDate()
+
+  await db
+    .insert(tables.mailboxSnapshots)
+    .values({ mailAccountId: accountId, date, ...values })
+    .onConflictDoUpdate({
+      target: [tables.mailboxSnapshots.mailAccountId, tables.mailboxSnapshots.date],
+      set: values,
+    })
+
+  logger.debug(`[Snapshots] Recorded ${date} snapshot for account ${hashForLog(accountId)}`)
+
+  return { date, ...values, categories, topSenders }
+}
+
+/**
+ * Record today's snapshot unless there already is one
+ * Returns whether a snapshot was taken.
+ */
+export async function recordDailySnapshot(accountId: string): Promise<boolean> {
+  const [existing] = await db
+    .select({ id: tables.mailboxSnapshots.id })
+    .from(tables.mailboxSnapshots)
+    .where(
+      and(
+        eq(tables.mailboxSnapshots.mailAccountId, accountId),
+        eq(tables.mailboxSnapshots.date, getSnapshotDate())
+      )
+    )
+    .limit(1)
+
+  if (existing) return false
+
+  await takeSnapshot(accountId)
+  return true
+}
+
+/**
+ * Get the account's snapshots of the last given days, oldest first
+ */
+export async function getSnapshots(accountId: string, days: number): Promise<SnapshotInfo[]> {
+  const since = getSnapshotDate(new Date(Date.now() - (days - 1) * DAY_MS))
+
+  const rows = await db
+    .select()
+    .from(tables.mailboxSnapshots)
+    .where(
+      and(
+        eq(tables.mailboxSnapshots.mailAccountId, accountId),
+        gte(tables.mailboxSnapshots.date, since)
+      )
+    )
+    .orderBy(asc(tables.mailboxSnapshots.date))
+
+  return rows.map(toSnapshotInfo)
+}
+
+// ============================================================================
+// Forecast
+// ============================================================================
+
+/**
+ * Least-squares slope of mailbox size per day
+ */
+function getGrowthPerDay(snapshots: SnapshotInfo[]): number {
+  const points = snapshots.map((snapshot) => ({
+    x: Date.parse(`${snapshot.date}T00:00:00Z`) / DAY_MS,
+    y: snapshot.totalSizeBytes,
+  }))
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length
+
+  let numerator = 0
+  let denominator = 0
+  for (const point of points) {
+    numerator += (point.x - meanX) * (point.y - meanY)
+    denominator += (point.x - meanX) ** 2
+  }
+
+  return denominator > 0 ? numerator / denominator : 0
+}
+
+/**
+ * Average size of mail received per day over the forecast window
+ */
+async function getRecentMailPerDay(accountId: string): Promise<number> {
+  const since = Date.now() - FORECAST_WINDOW_DAYS * DAY_MS
+
+  const [row] = await db
+    .select({ total: sql<number>`COALESCE(SUM(${tables.emails.sizeBytes}), 0)` })
+    .from(tables.emails)
+    .where(and(eq(tables.emails.mailAccountId, accountId), gte(tables.emails.internalDate, since)))
+
+  return Number(row?.total ?? 0) / FORECAST_WINDOW_DAYS
+}
+
+/**
+ * Project when the account's mail reaches its storage quota
+ *
+ * Uses the net growth over recent snapshots once there are enough of them, so
+ * cleanup slows the projection down; before that, the rate mail comes in.
+ */
+export async function getStorageForecast(
+  accountId: string,
+  snapshots: SnapshotInfo[]
+): Promise<StorageForecast> {
+  const { quotaBytes, isDefault } = await getStorageQuota(accountId)
+
+  const recent = snapshots.slice(-FORECAST_WINDOW_DAYS)
+  const latest = recent[recent.length - 1]
+  const useSnapshots = recent.length >= MIN_FORECAST_SNAPSHOTS
+
+  const growthBytesPerDay = useSnapshots
+    ? getGrowthPerDay(recent)
+    : await getRecentMailPerDay(accountId)
+
+  let usedBytes = latest?.totalSizeBytes
+  if (usedBytes === undefined) {
+    const [row] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${tables.emails.sizeBytes}), 0)` })
+      .from(tables.emails)
+      .where(eq(tables.emails.mailAccountId, accountId))
+    usedBytes = Number(row?.total ?? 0)
+  }
+
+  let daysUntilFull: number | null = null
+  if (usedBytes >= quotaBytes) {
+    daysUntilFull = 0
+  } else if (growthBytesPerDay > 0) {
+    const days = Math.ceil((quotaBytes - usedBytes) / growthBytesPerDay)
+    daysUntilFull = days <= MAX_FORECAST_DAYS ? days : null
+  }
+
+  return {
+    quotaBytes,
+    quotaIsDefault: isDefault,
+    defaultQuotaBytes: getDefaultQuotaBytes(),
+    usedBytes,
+    basis: useSnapshots ? 'snapshots' : 'recent_mail',
+    growthBytesPerDay: Math.round(growthBytesPerDay),
+    daysUntilFull,
+    fullAt:
+      daysUntilFull !== null ? new Date(Date.now() + daysUntilFull * DAY_MS).toISOString() : null,
+  }
+}
@@ -3,14 +3,14 @@
  *
  * Triggers sync operations. Status updates are handled by worker.ts.
  * This service only:
- * 1. Fetches message count from Gmail
+ * 1. Fetches message count from the mailbox
  * 2. Calls startMetadataSync which creates job and sets "syncing" status
  * 3. Handles errors by setting "error" status
  */
 
 import { eq } from 'drizzle-orm'
 import { db, tables, dbType } from '../../db'
-import { getQuickStats } from '../gmail'
+import { getMailProvider } from '../providers'
 import { startMetadataSync } from './worker'
 import { logger } from '../../lib/logger'
 
@@ -32,7 +32,7 @@ async function markSyncError(accountId: string, error: string): Promise<void> {
 /**
  * Trigger post-OAuth sync flow
  *
- * 1. Fetch total message count from Gmail
+ * 1. Fetch total message count from the mailbox
  * 2. Start full metadata sync (which sets "syncing" status)
  *
  * This runs in the background after OAuth callback returns.
@@ -44,7 +44,8 @@ export async function triggerPostOAuthSync(accountId: string): Promise<void> {
   try {
     // Step 1: Fetch total message count
     logger.debug(`[AutoTrigger] Fetching message count...`)
-    const stats = await getQuickStats(accountId)
+    const provider = await getMailProvider(accountId)
+    const stats = await provider.getQuickStats(accountId)
     logger.debug(`[AutoTrigger] Found ${stats.total} emails.`)
 
     // Step 2: Start full metadata sync (sets "syncing" status internally)
@@ -61,7 +62,7 @@ export async function triggerPostOAuthSync(accountId: string): Promise<void> {
 }
 
 /**
- * Trigger full sync - fetches message count from Gmail API
+ * Trigger full sync - fetches message count from the mail provider
  *
  * Used for manual sync triggers (not post-OAuth).
  * Has proper error handling - updates status on failure.
@@ -81,9 +82,10 @@ export async function triggerFullSyncOnly(accountId: string): Promise<void> {
       throw new Error('Account not found')
     }
 
-    // Fetch message count from Gmail
+    // Fetch message count from the mailbox
     logger.debug(`[AutoTrigger] Fetching message count...`)
-    const stats = await getQuickStats(accountId)
+    const provider = await getMailProvider(accountId)
+    const stats = await provider.getQuickStats(accountId)
 
     // Start sync (sets "syncing" status internally)
     const job = await startMetadataSync(accountId, stats.total)
@@ -8,6 +8,7 @@ export {
   processMetadataSync,
   startMetadataSync,
   resumeMetadataSync,
+  pauseMetadataSync,
   cancelMetadataSync,
   registerSyncWorker,
   resumeInterruptedJobs,
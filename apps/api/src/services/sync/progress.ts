@@ -1,7 +1,7 @@
 /**
  * Sync Progress Calculator
  *
- * Calculates progress, ETA, and phase messages for sync jobs.
+ * Calculates progress, ETA, and phase messages for sync and cleanup jobs.
  */
 
 import type { Job } from '../../db'
@@ -49,26 +49,40 @@ function formatDuration(ms: number): string {
   return `${seconds}s`
 }
 
+// Verb and noun used in status messages, per job type
+const JOB_TYPE_LABELS: Record<Job['type'], { done: string; name: string }> = {
+  sync: { done: 'synced', name: 'Sync' },
+  trash: { done: 'trashed', name: 'Trash' },
+  delete: { done: 'deleted', name: 'Delete' },
+  archive: { done: 'archived', name: 'Archive' },
+  label: { done: 'labeled', name: 'Label' },
+  import: { done: 'imported', name: 'Import' },
+  strip: { done: 'stripped', name: 'Strip' },
+}
+
 /**
  * Get detailed status message
  */
 function getStatusMessage(
+  type: Job['type'],
   status: Job['status'],
   processed: number,
   total: number,
   error?: string | null
 ): string {
+  const label = JOB_TYPE_LABELS[type] ?? JOB_TYPE_LABELS.sync
+
   switch (status) {
     case 'pending':
       return 'Waiting to start...'
     case 'running':
       return `Processing ${processed.toLocaleString()} of ${total.toLocaleString()} emails`
     case 'completed':
-      return `Successfully synced ${total.toLocaleString()} emails`
+      return `Successfully ${label.done} ${total.toLocaleString()} emails`
     case 'failed':
-      return error || 'Sync failed'
+      return error || `${label.name} failed`
     case 'cancelled':
-      return 'Sync was cancelled'
+      return `${label.name} was cancelled`
     case 'paused':
       return `Paused at ${processed.toLocaleString()} of ${total.toLocaleString()} emails`
     default:
@@ -135,7 +149,7 @@ export function calculateProgress(job: Job): SyncProgress {
     total,
     percentage,
     eta,
-    message: getStatusMessage(job.status, processed, total, job.lastError),
+    message: getStatusMessage(job.type, job.status, processed, total, job.lastError),
     rate,
   }
 }
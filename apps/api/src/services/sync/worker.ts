@@ -1,20 +1,18 @@
 /**
  * Metadata Sync Worker
  *
- * Processes sync jobs to fetch email metadata from Gmail and store in SQLite.
- * Implements Step 2 of the two-step sync algorithm.
+ * Processes sync jobs to fetch email metadata from the mail provider (Gmail,
+ * Outlook or IMAP) and store in SQLite. Implements Step 2 of the two-step sync algorithm.
+ *
+ * Delta sync cursors are provider-specific: the Gmail historyId, or the per-folder
+ * deltaLinks of Outlook and IMAP (see services/outlook/messages.ts and
+ * services/imap/messages.ts).
  */
 
-import { eq, and, sql } from 'drizzle-orm'
+import { eq, and, sql, inArray } from 'drizzle-orm'
 import { db, tables, dbType } from '../../db'
 import type { Job, MailAccount } from '../../db'
-import {
-  listAllMessageIds,
-  fetchMessageDetails,
-  fetchHistoryChanges,
-  getCurrentHistoryId,
-  getQuickStats,
-} from '../gmail'
+import { getMailProvider, PROVIDER_NAMES } from '../providers'
 import {
   clearEmails,
   insertEmails,
@@ -22,7 +20,8 @@ import {
   archiveAndDeleteEmails,
   updateEmailLabels,
 } from '../emails'
-import { createGmailThrottle } from '../../lib/throttle'
+import { detectUnsubscribeViolations } from '../unsubscribe'
+import { applyMailRulesToNewMail } from '../mail-rules'
 import { isRetryableError } from '../../lib/retry'
 import { registerHandler } from '../queue'
 import type { SyncJobData } from '../queue/types'
@@ -56,6 +55,37 @@ async function getAccount(accountId: string): Promise<MailAccount | null> {
   return account || null
 }
 
+/**
+ * Delta sync cursor stored for an account, null when a full sync is needed
+ */
+function getStoredSyncCursor(account: MailAccount): string | null {
+  if (account.provider !== 'gmail') {
+    return account.deltaLinks || null
+  }
+
+  const historyId = account.historyId?.toString()
+  return historyId && historyId !== '0' ? historyId : null
+}
+
+/**
+ * Store the delta sync cursor for an account (null clears it)
+ */
+async function saveSyncCursor(
+  account: MailAccount,
+  cursor: string | null,
+  extra?: Partial<{ syncCompletedAt: Date | string }>
+): Promise<void> {
+  await db
+    .update(tables.mailAccounts)
+    .set({
+      ...(account.provider === 'gmail'
+        ? { historyId: cursor ? parseInt(cursor, 10) || null : null }
+        : { deltaLinks: cursor }),
+      ...(extra as Record<string, unknown>),
+    })
+    .where(eq(tables.mailAccounts.id, account.id))
+}
+
 /**
  * Update job progress in the database
  */
@@ -128,11 +158,11 @@ async function updateAccountSyncStatus(
 }
 
 /**
- * Check if job has been cancelled
+ * Check if job has been cancelled or paused
  */
-async function isJobCancelled(jobId: string): Promise<boolean> {
+async function getStopStatus(jobId: string): Promise<'cancelled' | 'paused' | null> {
   const job = await getJob(jobId)
-  return job?.status === 'cancelled'
+  return job?.status === 'cancelled' || job?.status === 'paused' ? job.status : null
 }
 
 /**
@@ -229,73 +259,67 @@ export async function processMetadataSync(data: SyncJobData): Promise<void> {
       })
       .where(eq(tables.mailAccounts.id, accountId))
 
+    const provider = await getMailProvider(accountId)
+
     // Clear existing data if starting fresh (no page token)
     if (!job.nextPageToken) {
       logger.debug(`[SyncWorker] Clearing existing emails for fresh sync`)
       await clearEmails(accountId)
 
-      // Capture historyId at start of fresh sync (for catching during-sync changes)
+      // Capture the delta cursor at start of fresh sync (for catching during-sync changes)
       // This will be used after full sync completes to run a delta sync
       if (!isResume) {
-        logger.debug(`[SyncWorker] Capturing historyId at sync start...`)
-        const startHistoryId = await getCurrentHistoryId(accountId)
-        logger.debug(`[SyncWorker] Start historyId: ${startHistoryId}`)
-        await db
-          .update(tables.mailAccounts)
-          .set({ historyId: parseInt(startHistoryId, 10) || null })
-          .where(eq(tables.mailAccounts.id, accountId))
+        logger.debug(`[SyncWorker] Capturing sync cursor at sync start...`)
+        const startCursor = await provider.getSyncCursor(accountId)
+        logger.debug(`[SyncWorker] Start cursor: ${startCursor ?? '(from listing)'}`)
+        await saveSyncCursor(account, startCursor)
       }
     }
 
-    const throttle = createGmailThrottle()
-
     let processedCount = job.processedMessages || 0
+    // Token of the page being processed - a paused job resumes from here
+    let currentPageToken = job.nextPageToken || null
+    // Cursor produced by the listing itself (Outlook deltaLinks)
+    let listedCursor: string | null = null
 
     // Iterate through all message pages
-    // Note: listAllMessageIds and fetchMessageDetails now handle token refresh internally
-    for await (const page of listAllMessageIds(accountId, {
+    // Note: providers handle token refresh internally
+    for await (const page of provider.listMessages(accountId, {
       pageToken: job.nextPageToken || undefined,
+      totalMessages: job.totalMessages || undefined, // Pass total for ETA calculation
+      processedSoFar: processedCount, // Pass already processed count for accurate ETA
     })) {
-      // Check for cancellation
-      if (await isJobCancelled(jobId)) {
-        logger.debug(`[SyncWorker] Job ${jobId} was cancelled`)
+      // Check for cancellation or pause
+      const stopStatus = await getStopStatus(jobId)
+      if (stopStatus) {
+        logger.debug(`[SyncWorker] Job ${jobId} was ${stopStatus}`)
+        if (stopStatus === 'paused') {
+          await updateJobProgress(jobId, processedCount, currentPageToken)
+        }
         await updateAccountSyncStatus(accountId, 'idle')
         return
       }
 
-      if (page.ids.length === 0) {
-        continue
+      if (page.syncCursor) {
+        listedCursor = page.syncCursor
       }
 
-      // Fetch message details for this page
-      const emails = await fetchMessageDetails(
-        accountId,
-        page.ids,
-        throttle,
-        (processed, failed) => {
-          if (failed > 0) {
-            logger.warn(`[SyncWorker] ${failed} messages failed in batch`)
-          }
-        },
-        job.totalMessages || undefined, // Pass total for ETA calculation
-        processedCount // Pass already processed count for accurate ETA
-      )
-
       // Insert emails in batches
-      for (let i = 0; i < emails.length; i += SQLITE_BATCH_SIZE) {
-        const batch = emails.slice(i, i + SQLITE_BATCH_SIZE)
+      for (let i = 0; i < page.emails.length; i += SQLITE_BATCH_SIZE) {
+        const batch = page.emails.slice(i, i + SQLITE_BATCH_SIZE)
         await insertEmails(accountId, batch)
 
         // Yield between batches
         await new Promise((resolve) => setImmediate(resolve))
       }
 
-      processedCount += page.ids.length
+      processedCount += page.count
 
       // Update progress periodically
-      if (processedCount % PROGRESS_UPDATE_INTERVAL < page.ids.length) {
+      if (processedCount % PROGRESS_UPDATE_INTERVAL < page.count) {
         await updateJobProgress(jobId, processedCount, page.nextPageToken)
       }
+      currentPageToken = page.nextPageToken
     }
 
     // Build sender aggregates
@@ -303,50 +327,37 @@ export async function processMetadataSync(data: SyncJobData): Promise<void> {
     await buildSenderAggregates(accountId)
 
     // Run delta sync to catch any changes that happened during the full sync
-    // The historyId was captured at the start of sync
-    const updatedAccount = await getAccount(accountId)
-    const startHistoryId = updatedAccount?.historyId?.toString()
+    // The cursor was captured at the start of sync (or produced by the listing)
+    const updatedAccount = (await getAccount(accountId)) || account
+    const startCursor = listedCursor ?? getStoredSyncCursor(updatedAccount)
 
-    if (startHistoryId && startHistoryId !== '0') {
-      logger.debug(
-        `[SyncWorker] Running delta sync to catch during-sync changes (from historyId ${startHistoryId})...`
-      )
+    if (startCursor) {
+      logger.debug(`[SyncWorker] Running delta sync to catch during-sync changes...`)
       try {
-        const deltaResult = await runInternalDeltaSync(accountId, startHistoryId)
-        if (deltaResult) {
-          logger.debug(
-            `[SyncWorker] Delta sync caught ${deltaResult.added} additions, ${deltaResult.deleted} deletions, ${deltaResult.labelChanges} label changes`
-          )
-          // Rebuild sender aggregates if there were changes
-          if (deltaResult.added > 0 || deltaResult.deleted > 0) {
-            logger.debug(`[SyncWorker] Rebuilding sender aggregates after delta sync...`)
-            await buildSenderAggregates(accountId)
-          }
-          // Update historyId to the new value from delta sync
-          await db
-            .update(tables.mailAccounts)
-            .set({ historyId: parseInt(deltaResult.newHistoryId, 10) || null })
-            .where(eq(tables.mailAccounts.id, accountId))
+        const deltaResult = await runInternalDeltaSync(accountId, startCursor)
+        logger.debug(
+          `[SyncWorker] Delta sync caught ${deltaResult.added} additions, ${deltaResult.deleted} deletions, ${deltaResult.labelChanges} label changes`
+        )
+        // Rebuild sender aggregates if there were changes
+        if (deltaResult.added > 0 || deltaResult.deleted > 0) {
+          logger.debug(`[SyncWorker] Rebuilding sender aggregates after delta sync...`)
+          await buildSenderAggregates(accountId)
         }
+        // Update the cursor to the new value from delta sync
+        await saveSyncCursor(updatedAccount, deltaResult.newCursor)
       } catch (deltaError) {
         // Delta sync failure is not critical - full sync data is already saved
         logger.warn(`[SyncWorker] Delta sync failed (non-critical):`, deltaError)
-        // Get current historyId as fallback
-        const currentHistoryId = await getCurrentHistoryId(accountId)
-        await db
-          .update(tables.mailAccounts)
-          .set({ historyId: parseInt(currentHistoryId, 10) || null })
-          .where(eq(tables.mailAccounts.id, accountId))
+        // Get current cursor as fallback
+        const currentCursor = await provider.getSyncCursor(accountId)
+        await saveSyncCursor(updatedAccount, currentCursor ?? startCursor)
       }
     } else {
-      // No start historyId - just get the current one
-      logger.debug(`[SyncWorker] Fetching current historyId for delta sync...`)
-      const currentHistoryId = await getCurrentHistoryId(accountId)
-      logger.debug(`[SyncWorker] Storing historyId: ${currentHistoryId}`)
-      await db
-        .update(tables.mailAccounts)
-        .set({ historyId: parseInt(currentHistoryId, 10) || null })
-        .where(eq(tables.mailAccounts.id, accountId))
+      // No start cursor - just get the current one
+      logger.debug(`[SyncWorker] Fetching current sync cursor for delta sync...`)
+      const currentCursor = await provider.getSyncCursor(accountId)
+      logger.debug(`[SyncWorker] Storing sync cursor: ${currentCursor}`)
+      await saveSyncCursor(updatedAccount, currentCursor)
     }
 
     // Mark as completed
@@ -360,6 +371,11 @@ export async function processMetadataSync(data: SyncJobData): Promise<void> {
     })
 
     logger.debug(`[SyncWorker] Sync job ${jobId} completed. Processed ${processedCount} emails.`)
+
+    // Start Gmail push for the account (no-op unless configured)
+    if (account.provider === 'gmail') {
+      void watchSyncedAccount(accountId)
+    }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error)
     logger.error(`[SyncWorker] Sync job ${jobId} failed:`, errorMessage)
@@ -368,6 +384,23 @@ export async function processMetadataSync(data: SyncJobData): Promise<void> {
   }
 }
 
+/**
+ * Register a Gmail push watch once an account has been fully synced
+ * Runs in the background - a failure only means waiting for the scheduler.
+ */
+async function watchSyncedAccount(accountId: string): Promise<void> {
+  try {
+    // Dynamic import - gmail-push imports this module for delta sync
+    const { ensureGmailWatch } = await import('../gmail-push')
+    const account = await getAccount(accountId)
+    if (account) {
+      await ensureGmailWatch(account)
+    }
+  } catch (error) {
+    logger.warn(`[SyncWorker] Failed to start Gmail push for account:`, error)
+  }
+}
+
 /**
  * Handle sync errors with retry logic
  */
@@ -375,6 +408,7 @@ async function handleSyncError(jobId: string, accountId: string, error: unknown)
   const job = await getJob(jobId)
   if (!job) return
 
+  const account = await getAccount(accountId)
   const errorMessage = error instanceof Error ? error.message : String(error)
   const errorObj = error as { code?: number; status?: number }
 
@@ -382,7 +416,7 @@ async function handleSyncError(jobId: string, accountId: string, error: unknown)
   if (errorObj.code === 401 || errorObj.status === 401) {
     logger.debug(`[SyncWorker] Auth expired for job ${jobId}, marking as failed`)
     await updateJobStatus(jobId, 'failed', {
-      lastError: 'Authentication expired. Please reconnect your Gmail account.',
+      lastError: `Authentication expired. Please reconnect your ${PROVIDER_NAMES[account?.provider ?? 'gmail']} account.`,
     })
     await updateAccountSyncStatus(accountId, 'error', {
       syncError: 'Authentication expired',
@@ -394,7 +428,7 @@ async function handleSyncError(jobId: string, accountId: string, error: unknown)
   if (errorObj.code === 403 || errorObj.status === 403) {
     logger.debug(`[SyncWorker] Permission denied for job ${jobId}`)
     await updateJobStatus(jobId, 'failed', {
-      lastError: 'Permission denied. Please check your Gmail permissions.',
+      lastError: `Permission denied. Please check your ${PROVIDER_NAMES[account?.provider ?? 'gmail']} permissions.`,
     })
     await updateAccountSyncStatus(accountId, 'error', {
       syncError: 'Permission denied',
@@ -439,34 +473,23 @@ async function handleSyncError(jobId: string, accountId: string, error: unknown)
 // ============================================================================
 
 /**
- * Internal delta sync that can be called with a specific historyId
+ * Internal delta sync that can be called with a specific cursor
  * Used both for regular delta sync and for catching during-sync changes
  */
 async function runInternalDeltaSync(
   accountId: string,
-  startHistoryId: string
+  startCursor: string
 ): Promise<{
   added: number
+  addedMessageIds: string[]
   deleted: number
   labelChanges: number
-  newHistoryId: string
-} | null> {
-  const throttle = createGmailThrottle()
+  newCursor: string
+}> {
+  const provider = await getMailProvider(accountId)
 
-  // Fetch changes since the given historyId
-  const changes = await fetchHistoryChanges(accountId, startHistoryId)
-
-  const hasMessageChanges = changes.messagesAdded.length > 0 || changes.messagesDeleted.length > 0
-  const hasLabelChanges = changes.labelsChanged.size > 0
-
-  if (!hasMessageChanges && !hasLabelChanges) {
-    return {
-      added: 0,
-      deleted: 0,
-      labelChanges: 0,
-      newHistoryId: changes.newHistoryId,
-    }
-  }
+  // Fetch changes since the given cursor (new messages come back fully fetched)
+  const changes = await provider.fetchChanges(accountId, startCursor)
 
   // Process deletions first (archive to Eternal Memory, then remove from database)
   if (changes.messagesDeleted.length > 0) {
@@ -495,81 +518,84 @@ async function runInternalDeltaSync(
     logger.debug(`[SyncWorker] Applied ${labelChangeCount} label changes`)
   }
 
-  // Process additions (fetch details and insert)
-  let addedCount = 0
-  if (changes.messagesAdded.length > 0) {
-    logger.debug(`[SyncWorker] Fetching ${changes.messagesAdded.length} new messages`)
-
-    const messageIds = changes.messagesAdded.map((id) => ({ id }))
-    const emails = await fetchMessageDetails(
-      accountId,
-      messageIds,
-      throttle,
-      (processed, failed) => {
-        if (processed % 100 === 0) {
-          logger.debug(`[SyncWorker] Delta sync progress: ${processed}/${messageIds.length}`)
-        }
-        if (failed > 0) {
-          logger.warn(`[SyncWorker] ${failed} messages failed in delta sync batch`)
-        }
-      }
-    )
+  // Process additions (insert, or replace messages that changed)
+  // Outlook reports changed messages in full, so ones already stored count as label changes
+  const addedMessageIds: string[] = []
+  if (changes.messages.length > 0) {
+    logger.debug(`[SyncWorker] Storing ${changes.messages.length} new or changed messages`)
 
     // Insert in batches
     const BATCH_SIZE = 100
-    for (let i = 0; i < emails.length; i += BATCH_SIZE) {
-      const batch = emails.slice(i, i + BATCH_SIZE)
+    for (let i = 0; i < changes.messages.length; i += BATCH_SIZE) {
+      const batch = changes.messages.slice(i, i + BATCH_SIZE)
+      const existing = await db
+        .select({ messageId: tables.emails.messageId })
+        .from(tables.emails)
+        .where(
+          and(
+            eq(tables.emails.mailAccountId, accountId),
+            inArray(
+              tables.emails.messageId,
+              batch.map((email) => email.message_id)
+            )
+          )
+        )
+      const existingIds = new Set(existing.map((row) => row.messageId))
+
       await insertEmails(accountId, batch)
-    }
 
-    addedCount = emails.length
+      for (const email of batch) {
+        if (existingIds.has(email.message_id)) {
+          labelChangeCount++
+        } else {
+          addedMessageIds.push(email.message_id)
+        }
+      }
+    }
   }
 
   return {
-    added: addedCount,
+    added: addedMessageIds.length,
+    addedMessageIds,
     deleted: changes.messagesDeleted.length,
     labelChanges: labelChangeCount,
-    newHistoryId: changes.newHistoryId,
+    newCursor: changes.newCursor,
   }
 }
 
 /**
- * Process a delta (incremental) sync using Gmail's History API
+ * Process a delta (incremental) sync using Gmail's History API or Outlook delta queries
  *
  * This syncs only changes since the last sync, making it much faster than full sync.
  * Falls back to full sync if history is expired or no previous sync exists.
  *
- * @param accountId - Gmail account ID
+ * @param accountId - Mail account ID
  * @returns Object with sync results or null if full sync is needed
  */
 export async function processDeltaSync(accountId: string): Promise<{
   added: number
   deleted: number
   labelChanges: number
-  newHistoryId: string
+  newCursor: string
 } | null> {
   logger.debug(`[SyncWorker] Starting delta sync for account ${accountId}`)
 
-  // Get the stored historyId
+  // Get the stored cursor
   const account = await getAccount(accountId)
   if (!account) {
     logger.error(`[SyncWorker] Account ${accountId} not found`)
     return null
   }
 
-  const storedHistoryId = account.historyId?.toString()
-  if (!storedHistoryId || storedHistoryId === '0') {
-    logger.debug(`[SyncWorker] No historyId stored, full sync required`)
+  const storedCursor = getStoredSyncCursor(account)
+  if (!storedCursor) {
+    logger.debug(`[SyncWorker] No sync cursor stored, full sync required`)
     return null
   }
 
   try {
     // Run the internal delta sync
-    const result = await runInternalDeltaSync(accountId, storedHistoryId)
-
-    if (!result) {
-      return null
-    }
+    const result = await runInternalDeltaSync(accountId, storedCursor)
 
     // Rebuild sender aggregates if there were message changes
     if (result.added > 0 || result.deleted > 0) {
@@ -577,15 +603,25 @@ export async function processDeltaSync(accountId: string): Promise<{
       await buildSenderAggregates(accountId)
     }
 
-    // Update historyId and syncCompletedAt
+    // Check whether unsubscribed senders are still sending (never fails the sync)
+    if (result.addedMessageIds.length > 0) {
+      try {
+        await detectUnsubscribeViolations(accountId, result.addedMessageIds)
+      } catch (error) {
+        logger.error(`[SyncWorker] Failed to check unsubscribed senders:`, error)
+      }
+
+      // Apply mail rules to the new messages (never fails the sync)
+      try {
+        await applyMailRulesToNewMail(accountId, result.addedMessageIds)
+      } catch (error) {
+        logger.error(`[SyncWorker] Failed to apply mail rules:`, error)
+      }
+    }
+
+    // Update the cursor and syncCompletedAt
     const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
-    await db
-      .update(tables.mailAccounts)
-      .set({
-        historyId: parseInt(result.newHistoryId, 10) || null,
-        syncCompletedAt: now as Date,
-      })
-      .where(eq(tables.mailAccounts.id, accountId))
+    await saveSyncCursor(account, result.newCursor, { syncCompletedAt: now as Date })
 
     logger.debug(
       `[SyncWorker] Delta sync complete: ${result.added} added, ${result.deleted} deleted, ${result.labelChanges} label changes`
@@ -597,13 +633,8 @@ export async function processDeltaSync(accountId: string): Promise<{
 
     // History expired - need full sync
     if (errorMessage === 'HISTORY_EXPIRED') {
-      logger.debug(`[SyncWorker] History expired, clearing historyId for full sync`)
-      await db
-        .update(tables.mailAccounts)
-        .set({
-          historyId: null,
-        })
-        .where(eq(tables.mailAccounts.id, accountId))
+      logger.debug(`[SyncWorker] History expired, clearing sync cursor for full sync`)
+      await saveSyncCursor(account, null)
       return null
     }
 
@@ -615,10 +646,10 @@ export async function processDeltaSync(accountId: string): Promise<{
  * Start a delta sync (or fall back to full sync if needed)
  *
  * This is the main entry point for incremental sync.
- * It will try delta sync first, and if that fails (no historyId or expired),
+ * It will try delta sync first, and if that fails (no cursor or expired),
  * it will trigger a full sync instead.
  *
- * @param accountId - Gmail account ID
+ * @param accountId - Mail account ID
  * @returns Job object (either existing delta sync result or new full sync job)
  */
 export async function startDeltaSync(
@@ -646,9 +677,10 @@ export async function startDeltaSync(
     }
   }
 
-  // Fall back to full sync - fetch message count from Gmail
+  // Fall back to full sync - fetch message count from the provider
   logger.debug(`[SyncWorker] Falling back to full sync for account ${accountId}`)
-  const stats = await getQuickStats(accountId)
+  const provider = await getMailProvider(accountId)
+  const stats = await provider.getQuickStats(accountId)
   const job = await startMetadataSync(accountId, stats.total)
 
   return {
@@ -727,13 +759,21 @@ export async function startMetadataSync(accountId: string, totalMessages: number
 
 /**
  * Resume a failed or paused sync job
+ *
+ * Without a jobId, the account's first sync job is resumed.
  */
-export async function resumeMetadataSync(accountId: string): Promise<Job | null> {
+export async function resumeMetadataSync(accountId: string, jobId?: string): Promise<Job | null> {
   // Find the most recent failed or paused sync job
   const [job] = await db
     .select()
     .from(tables.jobs)
-    .where(and(eq(tables.jobs.mailAccountId, accountId), eq(tables.jobs.type, 'sync')))
+    .where(
+      and(
+        eq(tables.jobs.mailAccountId, accountId),
+        eq(tables.jobs.type, 'sync'),
+        jobId ? eq(tables.jobs.id, jobId) : undefined
+      )
+    )
     .orderBy(tables.jobs.createdAt)
     .limit(1)
 
@@ -763,17 +803,61 @@ export async function resumeMetadataSync(accountId: string): Promise<Job | null>
   return job
 }
 
+/**
+ * Pause a pending or running sync job
+ *
+ * A running sync stops before its next page and resumes from that page.
+ */
+export async function pauseMetadataSync(accountId: string, jobId: string): Promise<Job | null> {
+  const [job] = await db
+    .select()
+    .from(tables.jobs)
+    .where(
+      and(
+        eq(tables.jobs.id, jobId),
+        eq(tables.jobs.mailAccountId, accountId),
+        eq(tables.jobs.type, 'sync')
+      )
+    )
+    .limit(1)
+
+  if (!job || (job.status !== 'pending' && job.status !== 'running')) {
+    return null
+  }
+
+  logger.debug(`[SyncWorker] Pausing sync job ${jobId} at ${job.processedMessages} messages`)
+  await updateJobStatus(jobId, 'paused')
+
+  // A pending job never reaches the worker loop, so the account is idle right away
+  if (job.status === 'pending') {
+    await updateAccountSyncStatus(accountId, 'idle')
+  }
+
+  return getJob(jobId)
+}
+
 /**
  * Cancel an active sync job
+ *
+ * With a jobId, that job is cancelled even if it is paused.
  */
-export async function cancelMetadataSync(accountId: string): Promise<boolean> {
+export async function cancelMetadataSync(accountId: string, jobId?: string): Promise<boolean> {
   // Find active sync job
   const jobs = await db
     .select()
     .from(tables.jobs)
-    .where(and(eq(tables.jobs.mailAccountId, accountId), eq(tables.jobs.type, 'sync')))
+    .where(
+      and(
+        eq(tables.jobs.mailAccountId, accountId),
+        eq(tables.jobs.type, 'sync'),
+        jobId ? eq(tables.jobs.id, jobId) : undefined
+      )
+    )
 
-  const activeJob = jobs.find((j: Job) => j.status === 'running' || j.status === 'pending')
+  const activeJob = jobs.find(
+    (j: Job) =>
+      j.status === 'running' || j.status === 'pending' || (!!jobId && j.status === 'paused')
+  )
 
   if (!activeJob) {
     logger.debug(`[SyncWorker] No active sync job found for account ${accountId}`)
@@ -805,7 +889,8 @@ export function registerSyncWorker(): void {
  * Finds jobs that were running, pending, or failed (with retries left) when server stopped
  * and re-queues them to continue from where they left off.
  *
- * Only resumes the most recent job per account; cancels duplicates.
+ * Only resumes the most recent job per account; cancels duplicates. Accounts with a
+ * job another replica is still running (live queue lease) are left alone.
  */
 export async function resumeInterruptedJobs(): Promise<number> {
   logger.debug('[SyncWorker] Checking for interrupted sync jobs...')
@@ -813,7 +898,7 @@ export async function resumeInterruptedJobs(): Promise<number> {
   const MAX_RETRIES = 3
 
   // Find jobs that were running, pending, or failed (with retries remaining), ordered by created_at DESC
-  const interruptedJobs = await db
+  const candidates = await db
     .select()
     .from(tables.jobs)
     .where(
@@ -824,6 +909,13 @@ export async function resumeInterruptedJobs(): Promise<number> {
     )
     .orderBy(sql`${tables.jobs.createdAt} DESC`)
 
+  const { addJob, getRunningJobIds } = await import('../queue')
+  const running = await getRunningJobIds(['metadata_sync'])
+  const busyAccounts = new Set(
+    candidates.filter((job) => running.has(job.id)).map((job) => job.mailAccountId)
+  )
+  const interruptedJobs = candidates.filter((job) => !busyAccounts.has(job.mailAccountId))
+
   if (interruptedJobs.length === 0) {
     logger.debug('[SyncWorker] No interrupted jobs found')
     return 0
@@ -852,7 +944,6 @@ export async function resumeInterruptedJobs(): Promise<number> {
     }
   }
 
-  const { addJob } = await import('../queue')
   let resumed = 0
 
   for (const [accountId, job] of jobsByAccount) {
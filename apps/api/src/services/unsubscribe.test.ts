@@ -0,0 +1,120 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test'
+import type { Server } from 'bun'
+import { insertEmails } from './emails'
+import { unsubscribeFromSender } from './unsubscribe'
+import { buildEmail, createTestAccount } from '../test/helpers'
+
+const ONE_CLICK_POST = 'List-Unsubscribe=One-Click'
+
+let accountId: string
+let endpoint: Server<undefined>
+let redirectTarget: Server<undefined>
+const received: Array<{ path: string; body: string; contentType: string | null }> = []
+let redirectHits = 0
+
+/**
+ * Give a sender an email whose List-Unsubscribe points at the given URL
+ */
+async function seedSender(url: string): Promise<string> {
+  const sender = `news-${crypto.randomUUID()}@example.com`
+  await insertEmails(accountId, [
+    buildEmail({
+      from_email: sender,
+      unsubscribe_link: url,
+      list_unsubscribe: `<${url}>`,
+      list_unsubscribe_post: ONE_CLICK_POST,
+    }),
+  ])
+  return sender
+}
+
+beforeAll(async () => {
+  ;({ accountId } = await createTestAccount())
+
+  redirectTarget = Bun.serve({
+    port: 0,
+    fetch() {
+      redirectHits++
+      return new Response('ok')
+    },
+  })
+
+  endpoint = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url)
+      received.push({
+        path: pathname,
+        body: await req.text(),
+        contentType: req.headers.get('content-type'),
+      })
+      if (pathname === '/redirect') {
+        return Response.redirect(`http://127.0.0.1:${redirectTarget.port}/internal`, 302)
+      }
+      return new Response(null, { status: 200 })
+    },
+  })
+})
+
+afterEach(() => {
+  received.length = 0
+  redirectHits = 0
+  delete process.env.INBOXORCIST_ENV
+})
+
+afterAll(() => {
+  endpoint.stop(true)
+  redirectTarget.stop(true)
+})
+
+describe('one-click unsubscribe', () => {
+  test('posts the RFC 8058 body to the endpoint', async () => {
+    process.env.INBOXORCIST_ENV = 'development'
+    const sender = await seedSender(`http://127.0.0.1:${endpoint.port}/unsubscribe`)
+
+    const result = await unsubscribeFromSender(accountId, sender)
+
+    expect(result.method).toBe('one_click')
+    expect(result.status).toBe('success')
+    expect(result.httpStatus).toBe(200)
+    expect(received).toEqual([
+      {
+        path: '/unsubscribe',
+        body: ONE_CLICK_POST,
+        contentType: 'application/x-www-form-urlencoded',
+      },
+    ])
+  })
+
+  test('does not follow redirects', async () => {
+    process.env.INBOXORCIST_ENV = 'development'
+    const sender = await seedSender(`http://127.0.0.1:${endpoint.port}/redirect`)
+
+    const result = await unsubscribeFromSender(accountId, sender)
+
+    expect(result.status).toBe('failed')
+    expect(result.httpStatus).toBe(302)
+    expect(received).toHaveLength(1)
+    expect(redirectHits).toBe(0)
+  })
+
+  test('refuses private addresses outside development', async () => {
+    const sender = await seedSender(`https://127.0.0.1:${endpoint.port}/unsubscribe`)
+
+    const result = await unsubscribeFromSender(accountId, sender)
+
+    expect(result.status).toBe('failed')
+    expect(result.error).toContain('private or reserved')
+    expect(received).toHaveLength(0)
+  })
+
+  test('refuses host names that resolve to private addresses', async () => {
+    const sender = await seedSender(`https://localhost:${endpoint.port}/unsubscribe`)
+
+    const result = await unsubscribeFromSender(accountId, sender)
+
+    expect(result.status).toBe('failed')
+    expect(result.error).toContain('private or reserved')
+    expect(received).toHaveLength(0)
+  })
+})
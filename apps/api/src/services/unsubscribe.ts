@@ -0,0 +1,544 @@
+/**
+ * Unsubscribe Service
+ *
+ * Performs the unsubscribe for a sender instead of only recording it:
+ * - RFC 8058 one-click: POST "List-Unsubscribe=One-Click" to the https URL when the
+ *   sender advertises List-Unsubscribe-Post
+ * - mailto: send the unsubscribe message through Gmail's send API
+ * - Anything else (plain links without one-click support) needs the user to open the link
+ *
+ * The outcome of each attempt is stored on the sender's unsubscribed_senders row.
+ * Senders that keep mailing after the unsubscribe are recorded in unsubscribe_violations
+ * and can be escalated (auto-trash filter or spam report).
+ */
+
+import { eq, and, asc, desc, inArray, sql } from 'drizzle-orm'
+import { db, tables, dbType } from '../db'
+import type {
+  UnsubscribeMethod,
+  UnsubscribeStatus,
+  UnsubscribedSender,
+  UnsubscribeViolation,
+  UnsubscribeEscalation,
+} from '../db'
+import { parseUnsubscribeUrls, sendRawMessage } from './gmail'
+import { parseDbTimestamp, updateEmailLabels } from './emails'
+import { getMailProvider, requireGmailAccount } from './providers'
+import { isDevelopment } from '../lib/startup'
+import { requestPublicUrl } from '../lib/net'
+import { logger } from '../lib/logger'
+
+// One-click endpoints are expected to answer quickly (RFC 8058 forbids interaction)
+const ONE_CLICK_TIMEOUT_MS = 10_000
+
+// Senders are processed a few at a time - each may wait on a remote endpoint
+const UNSUBSCRIBE_CONCURRENCY = 5
+
+/**
+ * Days a sender gets to process an unsubscribe before its emails count as still sending
+ * Gmail's bulk sender guidelines give senders 2 days; the UI shows this to the user.
+ */
+export const UNSUBSCRIBE_GRACE_DAYS = 2
+const UNSUBSCRIBE_GRACE_MS = UNSUBSCRIBE_GRACE_DAYS * 24 * 60 * 60 * 1000
+
+// Message IDs looked up per query when checking new emails
+const DETECTION_BATCH_SIZE = 500
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UnsubscribeResult {
+  senderEmail: string
+  method: UnsubscribeMethod
+  status: UnsubscribeStatus
+  target: string | null
+  httpStatus: number | null
+  error: string | null
+}
+
+interface UnsubscribeHeaders {
+  urls: string[]
+  post: string | null
+}
+
+// ============================================================================
+// Header helpers
+// ============================================================================
+
+/**
+ * Whether the List-Unsubscribe-Post header requests RFC 8058 one-click
+ */
+function isOneClick(post: string | null): boolean {
+  return !!post && /List-Unsubscribe\s*=\s*One-Click/i.test(post)
+}
+
+// Hosts a local one-click stub may run on in development
+const DEV_STUB_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * Whether a URL may receive the one-click POST
+ * RFC 8058 requires https; plain http is only accepted for a local stub in development
+ */
+function isOneClickUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol === 'https:') return true
+    return (
+      parsed.protocol === 'http:' && isDevelopment() && DEV_STUB_HOSTS.includes(parsed.hostname)
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Find the unsubscribe headers on the sender's most recent email
+ * Emails synced before the raw header was stored fall back to the single parsed link
+ */
+async function getUnsubscribeHeaders(
+  accountId: string,
+  senderEmail: string
+): Promise<UnsubscribeHeaders | null> {
+  const { emails } = tables
+
+  const rows = await db
+    .select({
+      unsubscribeLink: emails.unsubscribeLink,
+      listUnsubscribe: emails.listUnsubscribe,
+      listUnsubscribePost: emails.listUnsubscribePost,
+    })
+    .from(emails)
+    .where(
+      and(
+        eq(emails.mailAccountId, accountId),
+        sql`lower(${emails.fromEmail}) = ${senderEmail.toLowerCase()}`,
+        sql`${emails.unsubscribeLink} IS NOT NULL`
+      )
+    )
+    .orderBy(desc(emails.internalDate))
+    .limit(1)
+
+  const row = rows[0]
+  if (!row) return null
+
+  const urls = parseUnsubscribeUrls(row.listUnsubscribe)
+  return {
+    urls: urls.length > 0 ? urls : row.unsubscribeLink ? [row.unsubscribeLink] : [],
+    post: row.listUnsubscribePost ?? null,
+  }
+}
+
+// ============================================================================
+// Unsubscribe methods
+// ============================================================================
+
+/**
+ * Send the RFC 8058 one-click POST
+ *
+ * The URL comes from the sender, so it is only sent to public addresses (the local
+ * stub hosts are allowed in development) and redirects are not followed - a redirect
+ * counts as a failed attempt. No cookies or credentials are sent, as required by the RFC.
+ */
+async function sendOneClick(url: string): Promise<{ ok: boolean; status: number }> {
+  const { hostname } = new URL(url)
+  const { status } = await requestPublicUrl(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: 'List-Unsubscribe=One-Click',
+    timeoutMs: ONE_CLICK_TIMEOUT_MS,
+    allowLoopback: isDevelopment() && DEV_STUB_HOSTS.includes(hostname),
+  })
+
+  return { ok: status >= 200 && status < 300, status }
+}
+
+/**
+ * Build an RFC 822 message from a mailto: URL (RFC 6068)
+ * Supports the to address plus subject and body query parameters
+ */
+function buildMailtoMessage(mailto: string): { to: string; raw: string } {
+  const [addressPart, query = ''] = mailto.slice('mailto:'.length).split('?', 2)
+  const params = new URLSearchParams(query)
+  const to = decodeURIComponent(addressPart ?? '').trim()
+  const subject = params.get('subject') || 'unsubscribe'
+  const body = params.get('body') || 'unsubscribe'
+
+  // Reject header injection through the address or subject
+  if (!to || /[\r\n]/.test(to) || /[\r\n]/.test(subject)) {
+    throw new Error('Invalid mailto unsubscribe address')
+  }
+
+  const raw = [
+    `To: ${to}`,
+    `Subject: ${subject}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset="UTF-8"',
+    '',
+    body,
+  ].join('\r\n')
+
+  return { to, raw }
+}
+
+/**
+ * Attempt to unsubscribe from a sender using its List-Unsubscribe headers
+ *
+ * One-click is preferred; if it fails and a mailto: target exists, the mailto is tried.
+ * Never throws - failures are reported in the result.
+ */
+export async function unsubscribeFromSender(
+  accountId: string,
+  senderEmail: string
+): Promise<UnsubscribeResult> {
+  const result: UnsubscribeResult = {
+    senderEmail: senderEmail.toLowerCase(),
+    method: 'manual',
+    status: 'fallback_needed',
+    target: null,
+    httpStatus: null,
+    error: null,
+  }
+
+  try {
+    const headers = await getUnsubscribeHeaders(accountId, senderEmail)
+    if (!headers || headers.urls.length === 0) {
+      result.error = 'No List-Unsubscribe header found'
+      return result
+    }
+
+    const httpUrl = headers.urls.find((url) => /^https?:\/\//i.test(url)) ?? null
+    const mailtoUrl = headers.urls.find((url) => /^mailto:/i.test(url)) ?? null
+
+    // RFC 8058 one-click
+    if (httpUrl && isOneClick(headers.post) && isOneClickUrl(httpUrl)) {
+      result.method = 'one_click'
+      result.target = httpUrl
+      try {
+        const { ok, status } = await sendOneClick(httpUrl)
+        result.httpStatus = status
+        if (ok) {
+          result.status = 'success'
+          result.error = null
+          return result
+        }
+        result.status = 'failed'
+        result.error = `One-click endpoint returned HTTP ${status}`
+      } catch (error) {
+        result.status = 'failed'
+        result.error = error instanceof Error ? error.message : 'One-click request failed'
+      }
+      logger.debug(`[Unsubscribe] One-click failed for ${senderEmail}: ${result.error}`)
+    }
+
+    // mailto: via Gmail send
+    if (mailtoUrl) {
+      result.method = 'mailto'
+      result.httpStatus = null
+      try {
+        const { to, raw } = buildMailtoMessage(mailtoUrl)
+        result.target = to
+        await requireGmailAccount(accountId, 'Unsubscribing by email')
+        await sendRawMessage(accountId, raw)
+        result.status = 'success'
+        result.error = null
+      } catch (error) {
+        result.status = 'failed'
+        result.error = error instanceof Error ? error.message : 'Failed to send unsubscribe email'
+      }
+      return result
+    }
+
+    // Plain link without one-click support - the user has to open it
+    if (result.status !== 'failed') {
+      result.target = httpUrl
+      result.error = null
+    }
+    return result
+  } catch (error) {
+    logger.error(`[Unsubscribe] Error unsubscribing from ${senderEmail}:`, error)
+    result.status = 'failed'
+    result.error = error instanceof Error ? error.message : 'Unknown error'
+    return result
+  }
+}
+
+/**
+ * Record an unsubscribe outcome on the sender's unsubscribed_senders row
+ * Creates the row if the sender was not marked as unsubscribed yet
+ */
+export async function recordUnsubscribeResult(
+  accountId: string,
+  result: UnsubscribeResult,
+  senderName: string | null = null
+): Promise<void> {
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  const outcome = {
+    unsubscribeMethod: result.method,
+    unsubscribeStatus: result.status,
+    unsubscribeTarget: result.target,
+    httpStatus: result.httpStatus,
+    unsubscribeError: result.error,
+    attemptedAt: now as Date,
+  }
+
+  await db
+    .insert(tables.unsubscribedSenders)
+    .values({
+      mailAccountId: accountId,
+      senderEmail: result.senderEmail,
+      senderName,
+      ...outcome,
+    })
+    .onConflictDoUpdate({
+      target: [tables.unsubscribedSenders.mailAccountId, tables.unsubscribedSenders.senderEmail],
+      // A retry that succeeds marks the moment the sender was actually unsubscribed
+      set: result.status === 'success' ? { ...outcome, unsubscribedAt: now as Date } : outcome,
+    })
+}
+
+/**
+ * Unsubscribe from several senders and record each outcome
+ */
+export async function unsubscribeSenders(
+  accountId: string,
+  senders: Array<{ email: string; name?: string | null }>
+): Promise<UnsubscribeResult[]> {
+  const results: UnsubscribeResult[] = []
+
+  for (let i = 0; i < senders.length; i += UNSUBSCRIBE_CONCURRENCY) {
+    const batch = senders.slice(i, i + UNSUBSCRIBE_CONCURRENCY)
+    const batchResults = await Promise.all(
+      batch.map(async (sender) => {
+        const result = await unsubscribeFromSender(accountId, sender.email)
+        await recordUnsubscribeResult(accountId, result, sender.name ?? null)
+        return result
+      })
+    )
+    results.push(...batchResults)
+  }
+
+  const succeeded = results.filter((r) => r.status === 'success').length
+  logger.debug(
+    `[Unsubscribe] Unsubscribed from ${succeeded}/${results.length} senders for account ${accountId}`
+  )
+
+  return results
+}
+
+// ============================================================================
+// Still-sending detection
+// ============================================================================
+
+/**
+ * Whether an unsubscribed_senders row counts as unsubscribed
+ * Rows without an outcome were marked by hand before unsubscribing was automated
+ */
+function isUnsubscribed(row: UnsubscribedSender): boolean {
+  return !row.unsubscribeStatus || row.unsubscribeStatus === 'success'
+}
+
+/**
+ * Emails sent after this moment are violations of the unsubscribe
+ */
+function getViolationThreshold(row: UnsubscribedSender): number {
+  return parseDbTimestamp(row.unsubscribedAt).getTime() + UNSUBSCRIBE_GRACE_MS
+}
+
+/**
+ * Compare newly synced emails against unsubscribed senders and record violations
+ *
+ * Called after each delta sync with the IDs of the added messages. Aggregates for a
+ * violating sender are recomputed from the emails table, so re-detection is idempotent.
+ *
+ * @returns Number of senders found still sending
+ */
+export async function detectUnsubscribeViolations(
+  accountId: string,
+  messageIds: string[]
+): Promise<number> {
+  if (messageIds.length === 0) return 0
+
+  const { emails, unsubscribedSenders, unsubscribeViolations } = tables
+
+  const unsubscribedRows = await db
+    .select()
+    .from(unsubscribedSenders)
+    .where(eq(unsubscribedSenders.mailAccountId, accountId))
+
+  const unsubscribedByEmail = new Map(
+    unsubscribedRows.filter(isUnsubscribed).map((r) => [r.senderEmail.toLowerCase(), r])
+  )
+  if (unsubscribedByEmail.size === 0) return 0
+
+  // Find senders among the new emails that mailed after their unsubscribe
+  const violatingSenders = new Set<string>()
+  for (let i = 0; i < messageIds.length; i += DETECTION_BATCH_SIZE) {
+    const batch = messageIds.slice(i, i + DETECTION_BATCH_SIZE)
+    const rows = await db
+      .select({ fromEmail: emails.fromEmail, internalDate: emails.internalDate })
+      .from(emails)
+      .where(and(eq(emails.mailAccountId, accountId), inArray(emails.messageId, batch)))
+
+    for (const row of rows) {
+      const sender = row.fromEmail.toLowerCase()
+      const unsubscribed = unsubscribedByEmail.get(sender)
+      if (unsubscribed && Number(row.internalDate ?? 0) > getViolationThreshold(unsubscribed)) {
+        violatingSenders.add(sender)
+      }
+    }
+  }
+
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+
+  for (const sender of violatingSenders) {
+    const unsubscribed = unsubscribedByEmail.get(sender)!
+    const afterUnsubscribe = and(
+      eq(emails.mailAccountId, accountId),
+      sql`lower(${emails.fromEmail}) = ${sender}`,
+      sql`${emails.internalDate} > ${getViolationThreshold(unsubscribed)}`
+    )
+
+    const [stats] = await db
+      .select({
+        count: sql<number>`count(*)`,
+        lastEmailAt: sql<number>`max(${emails.internalDate})`,
+      })
+      .from(emails)
+      .where(afterUnsubscribe)
+
+    const [first] = await db
+      .select({
+        messageId: emails.messageId,
+        fromName: emails.fromName,
+        internalDate: emails.internalDate,
+      })
+      .from(emails)
+      .where(afterUnsubscribe)
+      .orderBy(asc(emails.internalDate))
+      .limit(1)
+
+    if (!stats || !first) continue
+
+    const aggregates = {
+      senderName: first.fromName ?? unsubscribed.senderName,
+      firstMessageId: first.messageId,
+      firstEmailAt: Number(first.internalDate ?? 0),
+      lastEmailAt: Number(stats.lastEmailAt ?? 0),
+      emailCount: Number(stats.count),
+      updatedAt: now as Date,
+    }
+
+    await db
+      .insert(unsubscribeViolations)
+      .values({ mailAccountId: accountId, senderEmail: sender, ...aggregates })
+      .onConflictDoUpdate({
+        target: [unsubscribeViolations.mailAccountId, unsubscribeViolations.senderEmail],
+        set: aggregates,
+      })
+  }
+
+  if (violatingSenders.size > 0) {
+    logger.info(
+      `[Unsubscribe] ${violatingSenders.size} unsubscribed senders still sending for account ${accountId}`
+    )
+  }
+
+  return violatingSenders.size
+}
+
+/**
+ * Get senders that kept mailing after an unsubscribe, most recent first
+ */
+export async function getUnsubscribeViolations(accountId: string): Promise<UnsubscribeViolation[]> {
+  return db
+    .select()
+    .from(tables.unsubscribeViolations)
+    .where(eq(tables.unsubscribeViolations.mailAccountId, accountId))
+    .orderBy(desc(tables.unsubscribeViolations.lastEmailAt))
+}
+
+/**
+ * Escalate a sender that is still sending
+ *
+ * - filter: create a Gmail filter that sends all future mail from the sender to trash
+ * - spam: report the emails received after the unsubscribe as spam
+ *
+ * @returns The updated violation, or null if the sender has no recorded violation
+ */
+export async function escalateUnsubscribeViolation(
+  accountId: string,
+  senderEmail: string,
+  escalation: UnsubscribeEscalation
+): Promise<{ violation: UnsubscribeViolation; reportedCount: number } | null> {
+  const { emails, unsubscribeViolations } = tables
+  const sender = senderEmail.toLowerCase()
+
+  const [violation] = await db
+    .select()
+    .from(unsubscribeViolations)
+    .where(
+      and(
+        eq(unsubscribeViolations.mailAccountId, accountId),
+        eq(unsubscribeViolations.senderEmail, sender)
+      )
+    )
+    .limit(1)
+
+  if (!violation) return null
+
+  let filterId: string | null = violation.escalationFilterId
+  let reportedCount = 0
+  const provider = await getMailProvider(accountId)
+
+  if (escalation === 'filter') {
+    const filter = await provider.createFilter(
+      accountId,
+      { from: sender },
+      { addLabelIds: ['TRASH'], removeLabelIds: ['INBOX'] }
+    )
+    filterId = filter.id
+  } else {
+    const rows = await db
+      .select({ messageId: emails.messageId })
+      .from(emails)
+      .where(
+        and(
+          eq(emails.mailAccountId, accountId),
+          sql`lower(${emails.fromEmail}) = ${sender}`,
+          sql`${emails.internalDate} >= ${violation.firstEmailAt}`,
+          eq(emails.isSpam, 0)
+        )
+      )
+    const messageIds = rows.map((r) => r.messageId)
+
+    const { modified, failed, failedIds } = await provider.modifyLabels(accountId, messageIds, {
+      addLabelIds: ['SPAM'],
+      removeLabelIds: ['INBOX'],
+    })
+    if (failed > 0 && modified === 0) {
+      throw new Error(`Failed to report ${failed} emails as spam`)
+    }
+
+    // Reflect the new labels locally for the reported emails instead of waiting for the
+    // next delta sync - the ones the provider rejected keep their labels
+    const failedSet = new Set(failedIds)
+    for (const messageId of messageIds) {
+      if (failedSet.has(messageId)) continue
+      await updateEmailLabels(accountId, messageId, ['SPAM'], ['INBOX'])
+    }
+    reportedCount = modified
+  }
+
+  const now = dbType === 'postgres' ? new Date() : new Date().toISOString()
+  const [updated] = await db
+    .update(unsubscribeViolations)
+    .set({ escalation, escalationFilterId: filterId, escalatedAt: now as Date })
+    .where(eq(unsubscribeViolations.id, violation.id))
+    .returning()
+
+  logger.debug(`[Unsubscribe] Escalated ${sender} (${escalation}) for account ${accountId}`)
+
+  return { violation: updated ?? violation, reportedCount }
+}
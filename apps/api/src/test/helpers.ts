@@ -0,0 +1,89 @@
+/**
+ * Test helpers for seeding the database
+ */
+
+import { join } from 'path'
+import type { Subprocess } from 'bun'
+import { nanoid } from '../lib/id'
+import { createUser, upsertMailAccount } from '../services/auth'
+import type { EmailRecord } from '../services/emails'
+import { dbType, type MailProvider } from '../db'
+
+/**
+ * Create a user with one mail account
+ * Each call uses fresh addresses, so tests in the same file don't share data.
+ */
+export async function createTestAccount(
+  provider: MailProvider = 'gmail'
+): Promise<{ userId: string; accountId: string; email: string }> {
+  const email = `test-${nanoid()}@example.com`
+  const user = await createUser({ googleId: nanoid(), email })
+  const { accountId } = await upsertMailAccount(user.id, email, provider)
+  return { userId: user.id, accountId, email }
+}
+
+/**
+ * Build an email record with sensible defaults
+ */
+export function buildEmail(overrides: Partial<EmailRecord> = {}): EmailRecord {
+  const now = Date.now()
+  return {
+    message_id: nanoid(),
+    thread_id: nanoid(),
+    subject: 'Test email',
+    snippet: null,
+    from_email: 'sender@example.com',
+    from_name: 'Sender',
+    labels: JSON.stringify(['INBOX']),
+    category: 'CATEGORY_PERSONAL',
+    size_bytes: 1024,
+    has_attachments: 0,
+    attachments: null,
+    is_unread: 0,
+    is_starred: 0,
+    is_trash: 0,
+    is_spam: 0,
+    is_important: 0,
+    internal_date: now,
+    synced_at: now,
+    unsubscribe_link: null,
+    ...overrides,
+  }
+}
+
+/**
+ * Convert a date to the timestamp format of the database in use
+ */
+export function toDbTimestamp(date: Date): Date {
+  return (dbType === 'postgres' ? date : date.toISOString()) as Date
+}
+
+/**
+ * A free local port (the OS picks one, then it is released for the caller)
+ */
+export function getFreePort(): number {
+  const server = Bun.serve({ port: 0, fetch: () => new Response() })
+  const port = server.port!
+  server.stop(true)
+  return port
+}
+
+/**
+ * Run one of the mock servers in scripts/ until the test file is done
+ * Resolves once the server printed its startup line.
+ */
+export async function startMockServer(script: string, args: string[]): Promise<Subprocess> {
+  const server = Bun.spawn(['bun', join(import.meta.dir, '../../scripts', script), ...args], {
+    stdout: 'pipe',
+    stderr: 'inherit',
+  })
+
+  const reader = server.stdout.getReader()
+  const { done } = await reader.read()
+  reader.releaseLock()
+
+  if (done) {
+    throw new Error(`Mock server ${script} exited before starting`)
+  }
+  return server
+}
@@ -0,0 +1,26 @@
+/**
+ * Test setup (preloaded by bunfig.toml)
+ *
+ * Every test file runs against a fresh SQLite database in a temp directory.
+ * The environment has to be set before the db module is imported, as it reads
+ * SQLITE_PATH and DATABASE_URL on load.
+ */
+
+import { afterAll } from 'bun:test'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+const dataDir = mkdtempSync(join(tmpdir(), 'inboxorcist-test-'))
+
+process.env.SQLITE_PATH = join(dataDir, 'test.db')
+process.env.ENCRYPTION_KEY = 'test-encryption-key'
+delete process.env.DATABASE_URL
+
+const { runMigrations, closeDatabase } = await import('../db')
+await runMigrations()
+
+afterAll(() => {
+  closeDatabase()
+  rmSync(dataDir, { recursive: true, force: true })
+})
@@ -0,0 +1,322 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useAuthContext } from '@/routes/__root'
+import { useLanguage } from '@/hooks/useLanguage'
+import {
+  getApiTokens,
+  createApiToken,
+  revokeApiToken,
+  type ApiToken,
+  type ApiTokenScope,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+
+const EXPIRY_OPTIONS = ['30', '90', '365', 'never'] as const
+
+function formatRelative(date: string): string {
+  return formatDistanceToNow(new Date(date), { addSuffix: true })
+}
+
+interface CreateTokenDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Create a token, then show the raw value once
+ */
+function CreateTokenDialog({ open, onOpenChange }: CreateTokenDialogProps) {
+  const { t } = useLanguage()
+  const { user } = useAuthContext()
+  const queryClient = useQueryClient()
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['read'])
+  const [expiry, setExpiry] = useState<(typeof EXPIRY_OPTIONS)[number]>('90')
+  const [createdToken, setCreatedToken] = useState<string | null>(null)
+
+  const availableScopes: ApiTokenScope[] = user?.isAdmin
+    ? ['read', 'cleanup', 'admin']
+    : ['read', 'cleanup']
+
+  const createMutation = useMutation({
+    mutationFn: createApiToken,
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens })
+      setCreatedToken(result.token)
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : t('settings.apiTokens.createError'))
+    },
+  })
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setName('')
+      setScopes(['read'])
+      setExpiry('90')
+      setCreatedToken(null)
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((existing) => existing !== scope)
+    )
+  }
+
+  const copyToken = async () => {
+    if (!createdToken) return
+    await navigator.clipboard.writeText(createdToken)
+    toast.success(t('settings.apiTokens.copied'))
+  }
+
+  const canSubmit = name.trim().length > 0 && scopes.length > 0 && !createMutation.isPending
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        {createdToken ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>{t('settings.apiTokens.created')}</DialogTitle>
+              <DialogDescription>{t('settings.apiTokens.createdDesc')}</DialogDescription>
+            </DialogHeader>
+            <div className="flex items-center gap-2">
+              <Input value={createdToken} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="sm" className="h-9 shrink-0" onClick={copyToken}>
+                <Copy className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>
+                {t('settings.apiTokens.done')}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{t('settings.apiTokens.create')}</DialogTitle>
+              <DialogDescription>{t('settings.apiTokens.desc')}</DialogDescription>
+            </DialogHeader>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (!canSubmit) return
+                createMutation.mutate({
+                  name: name.trim(),
+                  scopes,
+                  expiresInDays: expiry === 'never' ? null : Number(expiry),
+                })
+              }}
+              className="space-y-6 py-2"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="apiTokenName">{t('settings.apiTokens.name')}</Label>
+                <Input
+                  id="apiTokenName"
+                  placeholder={t('settings.apiTokens.namePlaceholder')}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={100}
+                  autoFocus
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('settings.apiTokens.scopes')}</Label>
+                {availableScopes.map((scope) => (
+                  <div key={scope} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`apiTokenScope-${scope}`}
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    <Label htmlFor={`apiTokenScope-${scope}`} className="text-sm font-normal">
+                      {t(`settings.apiTokens.scope.${scope}`)}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t('settings.apiTokens.expiry')}</Label>
+                <Select
+                  value={expiry}
+                  onValueChange={(v) => setExpiry(v as (typeof EXPIRY_OPTIONS)[number])}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option === 'never'
+                          ? t('settings.apiTokens.expiry.never')
+                          : t('settings.apiTokens.expiry.days').replace('{days}', option)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button type="submit" disabled={!canSubmit}>
+                  {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t('settings.apiTokens.submit')}
+                </Button>
+              </DialogFooter>
+            </form>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function TokenRow({ token }: { token: ApiToken }) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+
+  const revokeMutation = useMutation({
+    mutationFn: () => revokeApiToken(token.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens })
+      toast.success(t('settings.apiTokens.revoked'))
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : t('settings.apiTokens.revokeError'))
+    },
+  })
+
+  return (
+    <div className="flex items-center justify-between p-3 rounded-md border bg-muted/30">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          <p className="text-sm font-medium truncate">{token.name}</p>
+          {token.scopes.map((scope) => (
+            <Badge key={scope} variant="secondary" className="text-[10px] px-1.5 py-0">
+              {scope}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground truncate">
+          <span className="font-mono">{token.tokenPrefix}…</span>
+          {' • '}
+          {token.lastUsedAt
+            ? t('settings.apiTokens.lastUsed').replace('{date}', formatRelative(token.lastUsedAt))
+            : t('settings.apiTokens.neverUsed')}
+          {token.lastUsedIp && ` (${token.lastUsedIp})`}
+          {token.expiresAt &&
+            ` • ${t('settings.apiTokens.expires').replace('{date}', formatRelative(token.expiresAt))}`}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0 shrink-0"
+        onClick={() => revokeMutation.mutate()}
+        disabled={revokeMutation.isPending}
+        aria-label={t('settings.apiTokens.revoke')}
+      >
+        {revokeMutation.isPending ? (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        ) : (
+          <Trash2 className="h-3.5 w-3.5" />
+        )}
+      </Button>
+    </div>
+  )
+}
+
+/**
+ * Personal API tokens for scripting against the REST API
+ */
+export function ApiTokensCard() {
+  const { t } = useLanguage()
+  const [createOpen, setCreateOpen] = useState(false)
+
+  const {
+    data: tokens,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: queryKeys.apiTokens,
+    queryFn: getApiTokens,
+  })
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-medium flex items-center gap-2">
+            <KeyRound className="h-4 w-4 text-muted-foreground" />
+            {t('settings.apiTokens')}
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => setCreateOpen(true)}
+          >
+            <Plus className="h-3 w-3 mr-1.5" />
+            {t('settings.apiTokens.create')}
+          </Button>
+        </div>
+        <CardDescription className="text-xs">{t('settings.apiTokens.desc')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            {t('settings.apiTokens.loadError')}
+          </div>
+        ) : tokens?.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            {t('settings.apiTokens.empty')}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {tokens?.map((token) => (
+              <TokenRow key={token.id} token={token} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CreateTokenDialog open={createOpen} onOpenChange={setCreateOpen} />
+    </Card>
+  )
+}
@@ -0,0 +1,565 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertCircle, Download, FolderArchive, Paperclip, Scissors, X } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Search } from '@/components/ui/search'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  getAttachments,
+  getSavedAttachments,
+  stripAttachments,
+  getAttachmentUrl,
+  getAttachmentsZipUrl,
+  getSavedAttachmentUrl,
+  type Attachment,
+  type AttachmentType,
+  type AttachmentSizeBucket,
+  type AttachmentSort,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+import { cn } from '@/lib/utils'
+import { formatBytes } from './email-browser'
+
+const PAGE_SIZE = 50
+
+// Matches the server's MAX_ZIP_ATTACHMENTS
+const MAX_ZIP_ATTACHMENTS = 200
+
+const ATTACHMENT_TYPES: AttachmentType[] = [
+  'image',
+  'pdf',
+  'document',
+  'spreadsheet',
+  'presentation',
+  'archive',
+  'audio',
+  'video',
+  'calendar',
+  'other',
+]
+
+const SIZE_BUCKETS: AttachmentSizeBucket[] = ['small', 'medium', 'large', 'huge']
+
+const SORTS: AttachmentSort[] = ['size', 'date', 'name']
+
+const ALL = 'all'
+
+interface AttachmentsPageProps {
+  accountId: string
+}
+
+/**
+ * Attachment explorer: attachments across the mailbox grouped by type, sender and
+ * size, with zip downloads and "keep email, drop attachment"
+ */
+export function AttachmentsPage({ accountId }: AttachmentsPageProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [type, setType] = useState<AttachmentType | undefined>()
+  const [sender, setSender] = useState<string | undefined>()
+  const [size, setSize] = useState<AttachmentSizeBucket | undefined>()
+  const [sort, setSort] = useState<AttachmentSort>('size')
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const [selected, setSelected] = useState<Map<string, Attachment>>(new Map())
+  const [confirmStrip, setConfirmStrip] = useState(false)
+
+  // Debounce the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setLimit(PAGE_SIZE)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const filters = { search: search || undefined, type, sender, size, sort, limit }
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.attachments(accountId, filters),
+    queryFn: () => getAttachments(accountId, filters),
+    placeholderData: (previous) => previous,
+  })
+
+  const { data: saved } = useQuery({
+    queryKey: queryKeys.savedAttachments(accountId),
+    queryFn: () => getSavedAttachments(accountId),
+  })
+
+  const stripMutation = useMutation({
+    mutationFn: (ids: string[]) => stripAttachments(accountId, ids),
+    onSuccess: () => {
+      setSelected(new Map())
+      setConfirmStrip(false)
+      queryClient.invalidateQueries({ queryKey: queryKeys.jobs() })
+      toast.success(t('attachments.strip.started'))
+    },
+    onError: (err) => {
+      setConfirmStrip(false)
+      toast.error(err instanceof Error ? err.message : t('attachments.strip.error'))
+    },
+  })
+
+  const attachments = data?.attachments ?? []
+  const groups = data?.groups
+  const hasFilters = !!(search || type || sender || size)
+  const selectedIds = [...selected.keys()]
+  const selectedSize = [...selected.values()].reduce((total, item) => total + item.size, 0)
+  const allSelected = attachments.length > 0 && attachments.every((item) => selected.has(item.id))
+  const someSelected = attachments.some((item) => selected.has(item.id))
+
+  const applyFilter = (apply: () => void) => {
+    apply()
+    setLimit(PAGE_SIZE)
+  }
+
+  const clearFilters = () => {
+    setSearchInput('')
+    setSearch('')
+    applyFilter(() => {
+      setType(undefined)
+      setSender(undefined)
+      setSize(undefined)
+    })
+  }
+
+  const toggle = (item: Attachment, checked: boolean) => {
+    setSelected((previous) => {
+      const next = new Map(previous)
+      if (checked) next.set(item.id, item)
+      else next.delete(item.id)
+      return next
+    })
+  }
+
+  const toggleAll = (checked: boolean) => {
+    setSelected((previous) => {
+      const next = new Map(previous)
+      for (const item of attachments) {
+        if (checked) next.set(item.id, item)
+        else next.delete(item.id)
+      }
+      return next
+    })
+  }
+
+  // Keep the chosen sender in the list even when it isn't a top sender
+  const senderOptions = groups?.senders.map((group) => group.email) ?? []
+  if (sender && !senderOptions.includes(sender)) senderOptions.unshift(sender)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{t('attachments.title')}</h1>
+        <p className="text-muted-foreground">{t('attachments.description')}</p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <div className="w-64">
+          <Search
+            placeholder={t('attachments.search')}
+            value={searchInput}
+            onChange={setSearchInput}
+          />
+        </div>
+        <Select
+          value={type ?? ALL}
+          onValueChange={(v) =>
+            applyFilter(() => setType(v === ALL ? undefined : (v as AttachmentType)))
+          }
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('attachments.filter.allTypes')}</SelectItem>
+            {ATTACHMENT_TYPES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {t(`attachments.type.${option}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={sender ?? ALL}
+          onValueChange={(v) => applyFilter(() => setSender(v === ALL ? undefined : v))}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('attachments.filter.allSenders')}</SelectItem>
+            {senderOptions.map((email) => (
+              <SelectItem key={email} value={email}>
+                {email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={size ?? ALL}
+          onValueChange={(v) =>
+            applyFilter(() => setSize(v === ALL ? undefined : (v as AttachmentSizeBucket)))
+          }
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>{t('attachments.filter.allSizes')}</SelectItem>
+            {SIZE_BUCKETS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {t(`attachments.size.${option}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={(v) => setSort(v as AttachmentSort)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORTS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {t(`attachments.sort.${option}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="h-4 w-4 mr-2" />
+            {t('attachments.filter.clear')}
+          </Button>
+        )}
+      </div>
+
+      {/* Groups */}
+      {groups && (
+        <div className="grid gap-4 md:grid-cols-3">
+          <GroupCard title={t('attachments.group.types')}>
+            {groups.types.map((group) => (
+              <GroupRow
+                key={group.type}
+                label={t(`attachments.type.${group.type}`)}
+                count={group.count}
+                totalSize={group.totalSize}
+                active={type === group.type}
+                onClick={() =>
+                  applyFilter(() => setType(type === group.type ? undefined : group.type))
+                }
+              />
+            ))}
+          </GroupCard>
+          <GroupCard title={t('attachments.group.senders')}>
+            {groups.senders.slice(0, 8).map((group) => (
+              <GroupRow
+                key={group.email}
+                label={group.name || group.email}
+                count={group.count}
+                totalSize={group.totalSize}
+                active={sender === group.email}
+                onClick={() =>
+                  applyFilter(() => setSender(sender === group.email ? undefined : group.email))
+                }
+              />
+            ))}
+          </GroupCard>
+          <GroupCard title={t('attachments.group.sizes')}>
+            {groups.sizes.map((group) => (
+              <GroupRow
+                key={group.bucket}
+                label={t(`attachments.size.${group.bucket}`)}
+                count={group.count}
+                totalSize={group.totalSize}
+                active={size === group.bucket}
+                onClick={() =>
+                  applyFilter(() => setSize(size === group.bucket ? undefined : group.bucket))
+                }
+              />
+            ))}
+          </GroupCard>
+        </div>
+      )}
+
+      {/* Summary and selection actions */}
+      <div className="flex items-center justify-between gap-4 flex-wrap min-h-9">
+        <span className="text-sm text-muted-foreground">
+          {selected.size > 0
+            ? t('attachments.selected')
+                .replace('{count}', selected.size.toLocaleString())
+                .replace('{size}', formatBytes(selectedSize))
+            : data &&
+              t('attachments.count')
+                .replace('{count}', data.total.toLocaleString())
+                .replace('{size}', formatBytes(data.totalSize))}
+        </span>
+        {selected.size > 0 && (
+          <div className="flex items-center gap-2">
+            {selected.size > MAX_ZIP_ATTACHMENTS ? (
+              <span className="text-xs text-muted-foreground">
+                {t('attachments.zipLimit').replace('{max}', String(MAX_ZIP_ATTACHMENTS))}
+              </span>
+            ) : (
+              <Button variant="outline" size="sm" asChild>
+                <a href={getAttachmentsZipUrl(accountId, selectedIds)} download>
+                  <FolderArchive className="h-4 w-4 mr-2" />
+                  {t('attachments.downloadZip')}
+                </a>
+              </Button>
+            )}
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => setConfirmStrip(true)}
+              disabled={stripMutation.isPending}
+            >
+              <Scissors className="h-4 w-4 mr-2" />
+              {t('attachments.strip')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Attachments */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      ) : attachments.length === 0 ? (
+        <div className="text-center py-12 text-sm text-muted-foreground">
+          {hasFilters ? t('attachments.emptyFilter') : t('attachments.empty')}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected || (someSelected && 'indeterminate')}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                      aria-label="Select all"
+                    />
+                  </TableHead>
+                  <TableHead>{t('attachments.column.name')}</TableHead>
+                  <TableHead className="w-56">{t('attachments.column.from')}</TableHead>
+                  <TableHead className="w-32">{t('attachments.column.date')}</TableHead>
+                  <TableHead className="w-24 text-right">{t('attachments.column.size')}</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attachments.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="w-10">
+                      <Checkbox
+                        checked={selected.has(item.id)}
+                        onCheckedChange={(checked) => toggle(item, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell className="max-w-0">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Paperclip className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <div className="flex flex-col min-w-0">
+                          <span className="truncate font-medium text-sm">{item.filename}</span>
+                          <span className="truncate text-xs text-muted-foreground">
+                            {item.subject || t('attachments.noSubject')}
+                          </span>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-56 truncate">
+                      {item.fromName || item.fromEmail}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {item.internalDate ? format(new Date(item.internalDate), 'MMM d, yyyy') : '-'}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground tabular-nums">
+                      {formatBytes(item.size)}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                        <a
+                          href={getAttachmentUrl(accountId, item)}
+                          download
+                          title={t('attachments.download')}
+                        >
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {data && attachments.length < data.total && (
+            <div className="flex justify-center pt-2">
+              <Button variant="outline" size="sm" onClick={() => setLimit(limit + PAGE_SIZE)}>
+                {t('attachments.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Saved attachments */}
+      <div className="rounded-lg border bg-card p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div className="space-y-1">
+            <p className="font-medium">{t('attachments.saved.title')}</p>
+            <p className="text-sm text-muted-foreground">{t('attachments.saved.description')}</p>
+          </div>
+          {saved && saved.total > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {t('attachments.saved.count')
+                .replace('{count}', saved.total.toLocaleString())
+                .replace('{size}', formatBytes(saved.totalSize))}
+            </span>
+          )}
+        </div>
+        {!saved || saved.attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('attachments.saved.empty')}</p>
+        ) : (
+          <ul className="divide-y">
+            {saved.attachments.map((item) => (
+              <li key={item.id} className="flex items-center gap-3 py-2 text-sm">
+                <Paperclip className="h-4 w-4 text-muted-foreground shrink-0" />
+                <div className="flex flex-col min-w-0 flex-1">
+                  <span className="truncate font-medium">{item.filename}</span>
+                  <span className="truncate text-xs text-muted-foreground">
+                    {[item.fromEmail, item.subject || t('attachments.noSubject')]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </span>
+                </div>
+                <span className="text-muted-foreground tabular-nums shrink-0">
+                  {formatBytes(item.sizeBytes)}
+                </span>
+                <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                  <a
+                    href={getSavedAttachmentUrl(accountId, item.id)}
+                    download
+                    title={t('attachments.download')}
+                  >
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Strip confirmation */}
+      <AlertDialog open={confirmStrip} onOpenChange={setConfirmStrip}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t('attachments.strip.title').replace('{count}', selected.size.toLocaleString())}
+            </AlertDialogTitle>
+            <AlertDialogDescription>{t('attachments.strip.description')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('attachments.strip.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                stripMutation.mutate(selectedIds)
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={stripMutation.isPending}
+            >
+              {t('attachments.strip.confirm')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+/**
+ * One group of attachments (types, senders or sizes)
+ */
+function GroupCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg border bg-card p-3 space-y-1">
+      <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground px-2 pb-1">
+        {title}
+      </p>
+      {children}
+    </div>
+  )
+}
+
+interface GroupRowProps {
+  label: string
+  count: number
+  totalSize: number
+  active: boolean
+  onClick: () => void
+}
+
+/**
+ * A group value; clicking it filters by that value (or clears the filter)
+ */
+function GroupRow({ label, count, totalSize, active, onClick }: GroupRowProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        'w-full flex items-center justify-between gap-2 rounded-md px-2 py-1 text-sm text-left hover:bg-muted',
+        active && 'bg-muted font-medium'
+      )}
+    >
+      <span className="truncate">{label}</span>
+      <span className="text-xs text-muted-foreground tabular-nums shrink-0">
+        {count.toLocaleString()} · {formatBytes(totalSize)}
+      </span>
+    </button>
+  )
+}
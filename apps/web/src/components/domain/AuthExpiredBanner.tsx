@@ -1,8 +1,10 @@
 import { AlertTriangle, RefreshCw } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { PROVIDER_NAMES, type MailProvider } from '@/lib/api'
 
 interface AuthExpiredBannerProps {
   email: string
+  provider?: MailProvider
   onReconnect: () => void
 }
 
@@ -13,7 +15,9 @@ interface AuthExpiredBannerProps {
  * - The user revoked access in their Google account
  * - The user changed their Google password
  */
-export function AuthExpiredBanner({ email, onReconnect }: AuthExpiredBannerProps) {
+export function AuthExpiredBanner({ email, provider, onReconnect }: AuthExpiredBannerProps) {
+  const providerName = PROVIDER_NAMES[provider || 'gmail']
+
   return (
     <div className="rounded-lg border border-amber-500/50 bg-amber-50 dark:bg-amber-950/20 p-4">
       <div className="flex items-start gap-4">
@@ -23,9 +27,9 @@ export function AuthExpiredBanner({ email, onReconnect }: AuthExpiredBannerProps
         <div className="flex-1 min-w-0">
           <h3 className="font-semibold text-amber-800 dark:text-amber-200">Reconnect Required</h3>
           <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
-            Your Gmail connection for <span className="font-medium">{email}</span> has expired. This
-            can happen if you revoked access or if you're using a test app. Please reconnect to
-            continue.
+            Your {providerName} connection for <span className="font-medium">{email}</span> has
+            expired. This can happen if you revoked access or if you're using a test app. Please
+            reconnect to continue.
           </p>
           <Button
             onClick={onReconnect}
@@ -33,7 +37,7 @@ export function AuthExpiredBanner({ email, onReconnect }: AuthExpiredBannerProps
             size="sm"
           >
             <RefreshCw className="h-4 w-4 mr-2" />
-            Reconnect Gmail
+            Reconnect {providerName}
           </Button>
         </div>
       </div>
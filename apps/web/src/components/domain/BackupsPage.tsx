@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { format, formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertCircle, Download, FileJson, FolderArchive, HardDrive, RotateCcw } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Search } from '@/components/ui/search'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  getBackupSettings,
+  updateBackupFormat,
+  getBackups,
+  getBackupMessageUrl,
+  getBackupExportUrl,
+  getBackupManifestUrl,
+  restoreFromBackup,
+  type BackupFormat,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+import { formatBytes } from './email-browser'
+import { ImportSection } from './ImportSection'
+
+const PAGE_SIZE = 50
+
+const FORMAT_OPTIONS: Array<BackupFormat | 'off'> = ['off', 'mbox', 'maildir']
+
+interface BackupsPageProps {
+  accountId: string
+}
+
+/**
+ * Backup before delete: the setting and the local archive of raw emails,
+ * and imports back into Gmail
+ */
+export function BackupsPage({ accountId }: BackupsPageProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [limit, setLimit] = useState(PAGE_SIZE)
+
+  // Debounce the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchInput.trim())
+      setLimit(PAGE_SIZE)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
+
+  const { data: settings, isLoading: isLoadingSettings } = useQuery({
+    queryKey: queryKeys.backupSettings(accountId),
+    queryFn: () => getBackupSettings(accountId),
+  })
+
+  const filters = { search: search || undefined, limit }
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.backups(accountId, filters),
+    queryFn: () => getBackups(accountId, filters),
+    placeholderData: (previous) => previous,
+  })
+
+  const formatMutation = useMutation({
+    mutationFn: (value: BackupFormat | null) => updateBackupFormat(accountId, value),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.backupSettings(accountId) })
+      toast.success(t('backups.setting.saved'))
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('backups.setting.error'))
+    },
+  })
+
+  const restoreMutation = useMutation({
+    mutationFn: (messageId: string) => restoreFromBackup(accountId, [messageId]),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.imports(accountId) })
+      toast.success(t('backups.import.started'))
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('backups.import.error'))
+    },
+  })
+
+  const backups = data?.backups ?? []
+  const hasBackups = (settings?.count ?? 0) > 0
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{t('backups.title')}</h1>
+        <p className="text-muted-foreground">{t('backups.description')}</p>
+      </div>
+
+      {/* Setting */}
+      <div className="rounded-lg border bg-card p-4 space-y-3">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div className="space-y-1">
+            <p className="font-medium">{t('backups.setting.title')}</p>
+            <p className="text-sm text-muted-foreground">{t('backups.setting.description')}</p>
+          </div>
+          {isLoadingSettings ? (
+            <Skeleton className="h-10 w-64" />
+          ) : (
+            <Select
+              value={settings?.format ?? 'off'}
+              onValueChange={(v) => formatMutation.mutate(v === 'off' ? null : (v as BackupFormat))}
+              disabled={formatMutation.isPending}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMAT_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {t(`backups.format.${option}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        {settings && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+            <HardDrive className="h-3.5 w-3.5 shrink-0" />
+            <span className="font-mono break-all">
+              {t('backups.directory').replace('{path}', settings.directory)}
+            </span>
+          </p>
+        )}
+      </div>
+
+      {/* Summary and export */}
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <span className="text-sm text-muted-foreground">
+          {t('backups.count').replace('{count}', (settings?.count ?? 0).toLocaleString())}
+          {settings && hasBackups && ` · ${formatBytes(settings.totalSizeBytes)}`}
+          {settings?.lastBackedUpAt &&
+            ` · ${t('backups.lastBackup').replace(
+              '{date}',
+              formatDistanceToNow(new Date(settings.lastBackedUpAt), { addSuffix: true })
+            )}`}
+        </span>
+        {hasBackups && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={getBackupManifestUrl(accountId)} download>
+                <FileJson className="h-4 w-4 mr-2" />
+                {t('backups.manifest')}
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={getBackupExportUrl(accountId)} download>
+                <FolderArchive className="h-4 w-4 mr-2" />
+                {t('backups.export')}
+              </a>
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Import */}
+      <ImportSection accountId={accountId} hasBackups={hasBackups} />
+
+      {/* Search */}
+      <div className="max-w-md">
+        <Search placeholder={t('backups.search')} value={searchInput} onChange={setSearchInput} />
+      </div>
+
+      {/* Archive */}
+      {isLoading ? (
+        <div className="space-y-2">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      ) : backups.length === 0 ? (
+        <div className="text-center py-12 text-sm text-muted-foreground">
+          {search ? t('backups.emptySearch') : t('backups.empty')}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-32">{t('backups.column.date')}</TableHead>
+                  <TableHead className="w-64">{t('backups.column.from')}</TableHead>
+                  <TableHead>{t('backups.column.subject')}</TableHead>
+                  <TableHead className="w-24 text-right">{t('backups.column.size')}</TableHead>
+                  <TableHead className="w-20" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backups.map((backup) => (
+                  <TableRow key={backup.messageId}>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {backup.internalDate
+                        ? format(new Date(backup.internalDate), 'MMM d, yyyy')
+                        : '-'}
+                    </TableCell>
+                    <TableCell className="max-w-64 truncate">{backup.fromEmail ?? '-'}</TableCell>
+                    <TableCell className="max-w-0 truncate">
+                      {backup.subject || (
+                        <span className="text-muted-foreground">{t('backups.noSubject')}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground tabular-nums">
+                      {formatBytes(backup.sizeBytes)}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title={t('backups.restore')}
+                        disabled={restoreMutation.isPending}
+                        onClick={() => restoreMutation.mutate(backup.messageId)}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" asChild>
+                        <a
+                          href={getBackupMessageUrl(accountId, backup.messageId)}
+                          download
+                          title={t('backups.download')}
+                        >
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {data && backups.length < data.total && (
+            <div className="flex justify-center pt-2">
+              <Button variant="outline" size="sm" onClick={() => setLimit(limit + PAGE_SIZE)}>
+                {t('backups.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
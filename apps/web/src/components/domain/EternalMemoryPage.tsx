@@ -0,0 +1,164 @@
+import { useMemo, useState, useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { type RowSelectionState, type ColumnSizingState } from '@tanstack/react-table'
+import { toast } from 'sonner'
+import { Loader2, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { untrashDeletedEmails, type EmailRecord } from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useDeletedEmails } from '@/hooks/useDeletedEmails'
+import { useLanguage } from '@/hooks/useLanguage'
+import { hasActiveFilters } from '@/hooks/useEmailActions'
+import { EmailFilters, EmailTable, EmailPagination, formatBytes } from './email-browser'
+
+interface EternalMemoryPageProps {
+  accountId: string
+  syncStatus: string | null
+}
+
+export function EternalMemoryPage({ accountId, syncStatus }: EternalMemoryPageProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  const [columnSizing, setColumnSizing] = useState<ColumnSizingState>({})
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const {
+    emails,
+    pagination,
+    totalSizeBytes,
+    isLoading,
+    error,
+    filters,
+    setFilters,
+    page,
+    setPage,
+    refetch,
+    clearFilters,
+  } = useDeletedEmails(accountId)
+
+  // EmailTable renders EmailRecord rows - archived emails have no sync time of their own
+  const tableEmails = useMemo<EmailRecord[]>(
+    () => emails.map((email) => ({ ...email, synced_at: Date.parse(email.deleted_at) })),
+    [emails]
+  )
+
+  // Only emails that were trashed (not permanently deleted) can be restored
+  const restorableIds = useMemo(() => {
+    return emails
+      .filter((email) => rowSelection[email.message_id] && email.restorable)
+      .map((email) => email.message_id)
+  }, [emails, rowSelection])
+
+  const selectedCount = Object.keys(rowSelection).filter((key) => rowSelection[key]).length
+
+  const handleFiltersChange = useCallback(
+    (newFilters: typeof filters) => {
+      setRowSelection({})
+      setFilters(newFilters)
+    },
+    [setFilters]
+  )
+
+  const handlePageChange = useCallback(
+    (newPage: number) => {
+      setRowSelection({})
+      setPage(newPage)
+    },
+    [setPage]
+  )
+
+  const handleRestore = useCallback(async () => {
+    setIsRestoring(true)
+    try {
+      const result = await untrashDeletedEmails(accountId, restorableIds)
+      if (result.failedCount + result.skippedCount > 0) {
+        toast.warning(result.message)
+      } else {
+        toast.success(result.message)
+      }
+      setRowSelection({})
+      refetch()
+      // Restored emails are back in the explorer and stats
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats(accountId) })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('eternalMemory.restore.error'))
+    } finally {
+      setIsRestoring(false)
+    }
+  }, [accountId, restorableIds, refetch, queryClient, t])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{t('eternalMemory.title')}</h1>
+        <p className="text-muted-foreground">{t('eternalMemory.description')}</p>
+      </div>
+
+      {/* Filters */}
+      <EmailFilters
+        filters={filters}
+        onFiltersChange={handleFiltersChange}
+        accountId={accountId}
+        syncStatus={syncStatus}
+      />
+
+      {/* Restore action and pagination row */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          {selectedCount > 0 && (
+            <>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleRestore}
+                disabled={isRestoring || restorableIds.length === 0}
+              >
+                {isRestoring ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                {t('eternalMemory.restore')} {restorableIds.length.toLocaleString()}
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                {restorableIds.length > 0
+                  ? t('eternalMemory.restorableHint').replace(
+                      '{count}',
+                      restorableIds.length.toLocaleString()
+                    )
+                  : t('eternalMemory.noneRestorable')}
+              </span>
+            </>
+          )}
+          {selectedCount === 0 && pagination && pagination.total > 0 && (
+            <span className="text-sm text-muted-foreground">
+              {pagination.total.toLocaleString()} {t('explorer.emails')} ·{' '}
+              {formatBytes(totalSizeBytes)}
+            </span>
+          )}
+        </div>
+        <EmailPagination
+          pagination={pagination}
+          page={page}
+          onPageChange={handlePageChange}
+          isLoading={isLoading}
+        />
+      </div>
+
+      {/* Table */}
+      <EmailTable
+        emails={tableEmails}
+        isLoading={isLoading}
+        error={error}
+        rowSelection={rowSelection}
+        onRowSelectionChange={setRowSelection}
+        columnSizing={columnSizing}
+        onColumnSizingChange={setColumnSizing}
+        hasActiveFilters={hasActiveFilters(filters)}
+        onClearFilters={clearFilters}
+      />
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { CheckCircle2, HardDrive } from 'lucide-react'
+import { Archive, CheckCircle2, HardDrive, Loader2 } from 'lucide-react'
 
 export type ExorcismCardColor =
   | 'purple'
@@ -22,6 +22,10 @@ interface ExorcismCardProps {
   onClick?: () => void
   disabled?: boolean
   selected?: boolean
+  /** Secondary action: archive the matching emails without leaving the overview */
+  onArchive?: () => void
+  archiveLabel?: string
+  isArchiving?: boolean
 }
 
 function formatNumber(num: number | null | undefined): string {
@@ -120,14 +124,17 @@ export function ExorcismCard({
   onClick,
   disabled,
   selected,
+  onArchive,
+  archiveLabel,
+  isArchiving,
 }: ExorcismCardProps) {
   const styles = colorStyles[color]
 
-  return (
+  const card = (
     <button
       onClick={onClick}
       disabled={disabled}
-      className={`relative text-left p-5 rounded-xl border-2 transition-all duration-200 ${styles.bg} ${
+      className={`relative w-full h-full text-left p-5 rounded-xl border-2 transition-all duration-200 ${styles.bg} ${
         selected ? styles.selected : 'border-transparent'
       } ${disabled ? 'cursor-not-allowed' : `cursor-pointer ${styles.hover} hover:shadow-lg`}`}
     >
@@ -165,4 +172,28 @@ export function ExorcismCard({
       </div>
     </button>
   )
+
+  if (!onArchive || disabled || selected) {
+    return card
+  }
+
+  return (
+    <div className="relative">
+      {card}
+      <button
+        type="button"
+        onClick={onArchive}
+        disabled={isArchiving}
+        title={archiveLabel}
+        aria-label={archiveLabel}
+        className="absolute top-3 right-3 z-10 p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-background/80 transition-colors disabled:cursor-not-allowed"
+      >
+        {isArchiving ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Archive className="h-4 w-4" />
+        )}
+      </button>
+    </div>
+  )
 }
@@ -2,18 +2,31 @@ import { useEffect, useRef, useMemo, useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { useExplorerEmails } from '@/hooks/useExplorerEmails'
 import { useEmailActions, hasActiveFilters } from '@/hooks/useEmailActions'
-import { getLabels, type EmailRecord } from '@/lib/api'
+import { CalendarClock, Mail, MessagesSquare } from 'lucide-react'
+import { getLabels, type EmailRecord, type ExplorerFilters } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { SyncStatusBar } from './SyncStatusBar'
 import { SyncProgress } from './SyncProgress'
 import {
   EmailFilters,
   EmailTable,
+  ThreadTable,
   EmailPagination,
   EmailActionButtons,
   DeleteConfirmDialog,
   SelectAllBanner,
   EmailDrawer,
+  CleanupJobBanner,
 } from './email-browser'
+import { SaveRuleDialog } from './rules/SaveRuleDialog'
 import { useLanguage } from '@/hooks/useLanguage'
 import { useAppContext } from '@/routes/__root'
 
@@ -41,10 +54,13 @@ export function ExplorerPage({
   // Email drawer state
   const [selectedEmail, setSelectedEmail] = useState<EmailRecord | null>(null)
   const [drawerOpen, setDrawerOpen] = useState(false)
+  const [showSaveRuleDialog, setShowSaveRuleDialog] = useState(false)
 
   const {
     emails,
+    threads,
     pagination,
+    totalMessages,
     isLoading,
     error,
     filters,
@@ -64,22 +80,27 @@ export function ExplorerPage({
     columnSizing,
     setColumnSizing,
     isTrashing,
+    isArchiving,
     isDeleting,
     isActionLoading,
     selectAllMode,
     allPageSelected,
     effectiveSelectedCount,
     effectiveNonTrashedCount,
+    effectiveInboxCount,
     handleTrash,
+    handleArchive,
     handleDeleteConfirm,
     selectAllMatching,
     clearSelectAllMode,
+    cleanupJob,
   } = useEmailActions({
     accountId,
     emails,
+    threads,
     page,
     filters,
-    totalMatchingCount: pagination?.total ?? 0,
+    totalMatchingCount: totalMessages,
     refetch,
   })
 
@@ -135,6 +156,16 @@ export function ExplorerPage({
 
   const activeFilters = hasActiveFilters(filters)
   const isSyncPending = syncStatus !== 'completed'
+  const isThreadView = !!filters.threadMatch
+
+  // Thread view is part of the filters so it survives reloads via the URL
+  const setThreadMatch = (threadMatch: ExplorerFilters['threadMatch']) => {
+    const newFilters = { ...filters, threadMatch }
+    if (!threadMatch) {
+      delete newFilters.threadMatch
+    }
+    setFilters(newFilters)
+  }
 
   return (
     <div className="space-y-6">
@@ -181,34 +212,89 @@ export function ExplorerPage({
       {!isSyncPending && (
         <div className="flex items-center justify-between">
           {/* Action buttons on the left */}
-          <div>
+          <div className="flex items-center gap-2">
             <EmailActionButtons
               selectedCount={effectiveSelectedCount}
               nonTrashedCount={effectiveNonTrashedCount}
+              inboxCount={effectiveInboxCount}
               isActionLoading={isActionLoading}
               isTrashing={isTrashing}
+              isArchiving={isArchiving}
               isDeleting={isDeleting}
               onTrash={handleTrash}
+              onArchive={handleArchive}
               onDelete={() => setShowDeleteDialog(true)}
             />
+            {activeFilters && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                onClick={() => setShowSaveRuleDialog(true)}
+              >
+                <CalendarClock className="h-4 w-4" />
+                {t('rules.save.button')}
+              </Button>
+            )}
+          </div>
+          {/* View toggle and pagination on the right */}
+          <div className="flex items-center gap-3">
+            {isThreadView && (
+              <Select
+                value={filters.threadMatch}
+                onValueChange={(v) => setThreadMatch(v as 'any' | 'all')}
+              >
+                <SelectTrigger size="sm" className="w-[190px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">{t('explorer.threadMatch.any')}</SelectItem>
+                  <SelectItem value="all">{t('explorer.threadMatch.all')}</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Tabs
+              value={isThreadView ? 'threads' : 'messages'}
+              onValueChange={(v) => setThreadMatch(v === 'threads' ? 'any' : undefined)}
+            >
+              <TabsList>
+                <TabsTrigger value="messages" className="gap-1.5">
+                  <Mail className="h-4 w-4" />
+                  {t('explorer.view.messages')}
+                </TabsTrigger>
+                <TabsTrigger value="threads" className="gap-1.5">
+                  <MessagesSquare className="h-4 w-4" />
+                  {t('explorer.view.threads')}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <EmailPagination
+              pagination={pagination}
+              page={page}
+              onPageChange={setPage}
+              isLoading={isLoading}
+              isThreadView={isThreadView}
+            />
           </div>
-          {/* Pagination on the right */}
-          <EmailPagination
-            pagination={pagination}
-            page={page}
-            onPageChange={setPage}
-            isLoading={isLoading}
-          />
         </div>
       )}
 
+      {/* Background trash/delete job */}
+      <CleanupJobBanner
+        job={cleanupJob.job}
+        onPause={cleanupJob.pause}
+        onResume={cleanupJob.resume}
+        onCancel={cleanupJob.cancel}
+        onDismiss={cleanupJob.dismiss}
+      />
+
       {/* Select All Banner */}
       {!isSyncPending && (
         <SelectAllBanner
           selectAllMode={selectAllMode}
           allPageSelected={allPageSelected}
           pageSize={pagination?.limit ?? 50}
-          totalMatchingCount={pagination?.total ?? 0}
+          totalMatchingCount={totalMessages}
           totalSizeBytes={totalSizeBytes}
           onSelectAllMatching={selectAllMatching}
           onClearSelectAll={clearSelectAllMode}
@@ -216,20 +302,32 @@ export function ExplorerPage({
       )}
 
       {/* Table */}
-      <EmailTable
-        emails={localEmails}
-        isLoading={isLoading}
-        error={error}
-        rowSelection={rowSelection}
-        onRowSelectionChange={setRowSelection}
-        columnSizing={columnSizing}
-        onColumnSizingChange={setColumnSizing}
-        isSyncPending={isSyncPending}
-        hasActiveFilters={activeFilters}
-        onClearFilters={clearFilters}
-        labelsMap={labelsMap}
-        onRowClick={handleRowClick}
-      />
+      {isThreadView ? (
+        <ThreadTable
+          threads={threads}
+          isLoading={isLoading}
+          error={error}
+          rowSelection={rowSelection}
+          onRowSelectionChange={setRowSelection}
+          hasActiveFilters={activeFilters}
+          onClearFilters={clearFilters}
+        />
+      ) : (
+        <EmailTable
+          emails={localEmails}
+          isLoading={isLoading}
+          error={error}
+          rowSelection={rowSelection}
+          onRowSelectionChange={setRowSelection}
+          columnSizing={columnSizing}
+          onColumnSizingChange={setColumnSizing}
+          isSyncPending={isSyncPending}
+          hasActiveFilters={activeFilters}
+          onClearFilters={clearFilters}
+          labelsMap={labelsMap}
+          onRowClick={handleRowClick}
+        />
+      )}
 
       {/* Permanent Delete Confirmation Dialog */}
       <DeleteConfirmDialog
@@ -240,6 +338,16 @@ export function ExplorerPage({
         isLoading={isDeleting}
       />
 
+      {/* Save filters as a scheduled cleanup rule */}
+      {showSaveRuleDialog && (
+        <SaveRuleDialog
+          accountId={accountId}
+          filters={filters}
+          open={showSaveRuleDialog}
+          onOpenChange={setShowSaveRuleDialog}
+        />
+      )}
+
       {/* Email Content Drawer */}
       <EmailDrawer
         accountId={accountId}
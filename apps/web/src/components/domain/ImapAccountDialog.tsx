@@ -0,0 +1,256 @@
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { ImapAccountSettings, ImapSecurity } from '@/lib/api'
+
+interface ImapAccountDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onConnect: (settings: ImapAccountSettings) => Promise<void>
+}
+
+interface ImapPreset {
+  id: string
+  name: string
+  host: string
+  port: number
+  security: ImapSecurity
+}
+
+// Common providers that need an app password for IMAP
+const PRESETS: ImapPreset[] = [
+  { id: 'fastmail', name: 'Fastmail', host: 'imap.fastmail.com', port: 993, security: 'tls' },
+  { id: 'icloud', name: 'iCloud Mail', host: 'imap.mail.me.com', port: 993, security: 'tls' },
+  { id: 'yahoo', name: 'Yahoo Mail', host: 'imap.mail.yahoo.com', port: 993, security: 'tls' },
+]
+
+const DEFAULT_PORTS: Record<ImapSecurity, number> = {
+  tls: 993,
+  starttls: 143,
+  none: 143,
+}
+
+/**
+ * Dialog for connecting a mailbox over IMAP with an app password
+ */
+export function ImapAccountDialog({ open, onOpenChange, onConnect }: ImapAccountDialogProps) {
+  const [preset, setPreset] = useState('other')
+  const [email, setEmail] = useState('')
+  const [host, setHost] = useState('')
+  const [port, setPort] = useState('993')
+  const [security, setSecurity] = useState<ImapSecurity>('tls')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, setIsPending] = useState(false)
+
+  // Start from an empty form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setPreset('other')
+      setEmail('')
+      setHost('')
+      setPort('993')
+      setSecurity('tls')
+      setUsername('')
+      setPassword('')
+      setError(null)
+    }
+  }, [open])
+
+  const handlePresetChange = (id: string) => {
+    setPreset(id)
+    const selected = PRESETS.find((p) => p.id === id)
+    if (selected) {
+      setHost(selected.host)
+      setPort(String(selected.port))
+      setSecurity(selected.security)
+    }
+  }
+
+  const handleSecurityChange = (value: ImapSecurity) => {
+    // Follow the standard port unless a custom one was entered
+    if (port === String(DEFAULT_PORTS[security])) {
+      setPort(String(DEFAULT_PORTS[value]))
+    }
+    setSecurity(value)
+  }
+
+  const canSubmit =
+    email.trim().length > 0 && host.trim().length > 0 && password.length > 0 && !isPending
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+
+    setIsPending(true)
+    setError(null)
+    try {
+      await onConnect({
+        email: email.trim(),
+        host: host.trim(),
+        port: parseInt(port, 10) || DEFAULT_PORTS[security],
+        security,
+        username: username.trim() || undefined,
+        password,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not connect the account')
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add IMAP Account</DialogTitle>
+          <DialogDescription>
+            Connect any mailbox that supports IMAP. Use an app password from your provider's
+            security settings rather than your regular password.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleSubmit()
+          }}
+          className="space-y-4 py-2"
+        >
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={preset} onValueChange={handlePresetChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRESETS.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value="other">Other IMAP server</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="imapEmail">Email address</Label>
+            <Input
+              id="imapEmail"
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          {preset === 'other' && (
+            <>
+              <div className="flex gap-2">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="imapHost">IMAP server</Label>
+                  <Input
+                    id="imapHost"
+                    placeholder="imap.example.com"
+                    value={host}
+                    onChange={(e) => setHost(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2 w-24">
+                  <Label htmlFor="imapPort">Port</Label>
+                  <Input
+                    id="imapPort"
+                    type="number"
+                    value={port}
+                    onChange={(e) => setPort(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Security</Label>
+                <Select
+                  value={security}
+                  onValueChange={(v) => handleSecurityChange(v as ImapSecurity)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="tls">SSL/TLS</SelectItem>
+                    <SelectItem value="starttls">STARTTLS</SelectItem>
+                    <SelectItem value="none">None (local servers only)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="imapUsername">Username</Label>
+                <Input
+                  id="imapUsername"
+                  placeholder="Same as email address"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="imapPassword">App password</Label>
+            <Input
+              id="imapPassword"
+              type="password"
+              autoComplete="off"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter className="pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit}>
+              {isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Connecting...
+                </>
+              ) : (
+                'Connect'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
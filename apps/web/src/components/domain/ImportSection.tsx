@@ -0,0 +1,218 @@
+import { useRef, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { ChevronDown, FileUp, Loader2, RotateCcw, Upload } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import {
+  getImports,
+  uploadImport,
+  restoreFromBackup,
+  type ImportJob,
+  type JobStatus,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+
+const ACTIVE_POLL_INTERVAL = 2000
+
+// Matches the server's MAX_ERRORS
+const MAX_LISTED_ERRORS = 100
+
+const STATUS_BADGE_CLASSES: Record<JobStatus, string> = {
+  pending: 'bg-muted text-muted-foreground',
+  running: 'bg-violet-500/15 text-violet-500',
+  paused: 'bg-amber-500/15 text-amber-600',
+  completed: 'bg-emerald-500/15 text-emerald-600',
+  failed: 'bg-red-500/15 text-red-500',
+  cancelled: 'bg-muted text-muted-foreground',
+}
+
+function isActive(job: ImportJob): boolean {
+  return job.status === 'pending' || job.status === 'running'
+}
+
+interface ImportSectionProps {
+  accountId: string
+  hasBackups: boolean
+}
+
+/**
+ * Import emails into Gmail from uploaded mbox/.eml files or the backup archive,
+ * with the account's recent imports
+ */
+export function ImportSection({ accountId, hasBackups }: ImportSectionProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [files, setFiles] = useState<File[]>([])
+
+  const { data: imports = [] } = useQuery({
+    queryKey: queryKeys.imports(accountId),
+    queryFn: () => getImports(accountId),
+    refetchInterval: (query) => (query.state.data?.some(isActive) ? ACTIVE_POLL_INTERVAL : false),
+  })
+
+  const onStarted = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.imports(accountId) })
+    toast.success(t('backups.import.started'))
+  }
+
+  const onError = (err: Error) => {
+    toast.error(err.message || t('backups.import.error'))
+  }
+
+  const uploadMutation = useMutation({
+    mutationFn: (selected: File[]) => uploadImport(accountId, selected),
+    onSuccess: () => {
+      setFiles([])
+      if (inputRef.current) inputRef.current.value = ''
+      onStarted()
+    },
+    onError,
+  })
+
+  const restoreMutation = useMutation({
+    mutationFn: () => restoreFromBackup(accountId),
+    onSuccess: onStarted,
+    onError,
+  })
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-4">
+      <div className="space-y-1">
+        <p className="font-medium">{t('backups.import.title')}</p>
+        <p className="text-sm text-muted-foreground">{t('backups.import.description')}</p>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept=".mbox,.eml,application/mbox,message/rfc822"
+          className="hidden"
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+        />
+        <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+          <FileUp className="h-4 w-4 mr-2" />
+          {t('backups.import.choose')}
+        </Button>
+        {files.length > 0 && (
+          <>
+            <span className="text-sm text-muted-foreground">
+              {t('backups.import.selected').replace('{count}', String(files.length))}
+            </span>
+            <Button
+              size="sm"
+              onClick={() => uploadMutation.mutate(files)}
+              disabled={uploadMutation.isPending}
+            >
+              {uploadMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              {t('backups.import.upload')}
+            </Button>
+          </>
+        )}
+        {hasBackups && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={() => restoreMutation.mutate()}
+            disabled={restoreMutation.isPending}
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {t('backups.import.restoreAll')}
+          </Button>
+        )}
+      </div>
+
+      {imports.length > 0 && (
+        <div className="space-y-3">
+          {imports.map((job) => (
+            <ImportRow key={job.id} job={job} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * One import job: status, progress, counters and the emails that failed
+ */
+function ImportRow({ job }: { job: ImportJob }) {
+  const { t } = useLanguage()
+  const percentage =
+    job.totalMessages > 0 ? Math.round((job.processedMessages / job.totalMessages) * 100) : 0
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{t(`backups.import.source.${job.source}`)}</span>
+          <Badge variant="secondary" className={STATUS_BADGE_CLASSES[job.status]}>
+            {job.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            {t(`jobs.status.${job.status}`)}
+          </Badge>
+        </div>
+        {job.createdAt && (
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}
+          </span>
+        )}
+      </div>
+
+      {isActive(job) && <Progress value={percentage} className="h-1.5" />}
+
+      <p className="text-xs text-muted-foreground">
+        {t('backups.import.progress')
+          .replace('{processed}', job.processedMessages.toLocaleString())
+          .replace('{total}', job.totalMessages.toLocaleString())}
+        {' · '}
+        {t('backups.import.counts')
+          .replace('{imported}', job.imported.toLocaleString())
+          .replace('{skipped}', job.skipped.toLocaleString())
+          .replace('{failed}', job.failed.toLocaleString())}
+      </p>
+
+      {job.status === 'failed' && job.lastError && (
+        <p className="text-xs text-red-500 font-mono break-all">{job.lastError}</p>
+      )}
+
+      {job.errors.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+            <ChevronDown className="h-3.5 w-3.5" />
+            {t('backups.import.errors')}
+          </CollapsibleTrigger>
+          <CollapsibleContent>
+            <ul className="mt-2 space-y-1 text-xs">
+              {job.errors.map((error) => (
+                <li key={error.index} className="flex gap-2">
+                  <span className="text-muted-foreground shrink-0">#{error.index + 1}</span>
+                  <span className="truncate">
+                    {error.subject || error.messageId || t('backups.noSubject')}
+                  </span>
+                  <span className="text-red-500 shrink-0 ml-auto">{error.error}</span>
+                </li>
+              ))}
+            </ul>
+            {job.failed > MAX_LISTED_ERRORS && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {t('backups.import.moreErrors').replace('{count}', String(MAX_LISTED_ERRORS))}
+              </p>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  )
+}
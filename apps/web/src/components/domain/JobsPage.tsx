@@ -0,0 +1,438 @@
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  Ban,
+  Loader2,
+  Mail,
+  Pause,
+  Play,
+  Radio,
+  RotateCcw,
+  Timer,
+  Zap,
+} from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  getJobs,
+  runJobAction,
+  subscribeToJobEvents,
+  type JobAction,
+  type JobInfo,
+  type JobListResponse,
+  type JobStatus,
+  type JobType,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+
+const JOB_TYPES: JobType[] = ['sync', 'trash', 'delete', 'archive', 'label', 'import', 'strip']
+
+const JOB_STATUSES: JobStatus[] = [
+  'pending',
+  'running',
+  'paused',
+  'completed',
+  'failed',
+  'cancelled',
+]
+
+const PAGE_SIZE = 50
+
+const STATUS_BADGE_CLASSES: Record<JobStatus, string> = {
+  pending: 'bg-muted text-muted-foreground',
+  running: 'bg-violet-500/15 text-violet-500',
+  paused: 'bg-amber-500/15 text-amber-600',
+  completed: 'bg-emerald-500/15 text-emerald-600',
+  failed: 'bg-red-500/15 text-red-500',
+  cancelled: 'bg-muted text-muted-foreground',
+}
+
+/**
+ * Format a duration in ms as "1h 5m", "3m 20s" or "12s"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  const hours = Math.floor(minutes / 60)
+
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`
+  return `${seconds}s`
+}
+
+/**
+ * Actions that apply to a job in its current status
+ */
+function getAvailableActions(status: JobStatus): JobAction[] {
+  switch (status) {
+    case 'pending':
+    case 'running':
+      return ['pause', 'cancel']
+    case 'paused':
+      return ['resume', 'cancel']
+    case 'failed':
+      return ['retry']
+    default:
+      return []
+  }
+}
+
+const ACTION_ICONS: Record<JobAction, React.ElementType> = {
+  pause: Pause,
+  resume: Play,
+  retry: RotateCcw,
+  cancel: Ban,
+}
+
+/**
+ * Keep cached job lists in sync with live updates
+ *
+ * Progress changes are patched in place; anything that moves a job between
+ * filters or counts (new job, status change) refetches the lists.
+ */
+function useLiveJobs() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    return subscribeToJobEvents((job) => {
+      let needsRefetch = true
+
+      queryClient.setQueriesData<JobListResponse>({ queryKey: ['jobs'] }, (data) => {
+        const existing = data?.jobs.find((j) => j.id === job.id)
+        if (!data || !existing) return data
+        if (existing.status === job.status) needsRefetch = false
+        return { ...data, jobs: data.jobs.map((j) => (j.id === job.id ? job : j)) }
+      })
+
+      if (needsRefetch) {
+        queryClient.invalidateQueries({ queryKey: ['jobs'] })
+      }
+    })
+  }, [queryClient])
+}
+
+interface JobCardProps {
+  job: JobInfo
+  onCancel: (job: JobInfo) => void
+}
+
+function JobCard({ job, onCancel }: JobCardProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+
+  const actionMutation = useMutation({
+    mutationFn: (action: JobAction) => runJobAction(job.id, action),
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] })
+      toast.success(t(`jobs.action.${action}.success`))
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : t('jobs.action.error'))
+    },
+  })
+
+  const isActive = job.status === 'running' || job.status === 'pending' || job.status === 'paused'
+  const actions = getAvailableActions(job.status)
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium">{t(`jobs.type.${job.type}`)}</span>
+            <Badge variant="secondary" className={STATUS_BADGE_CLASSES[job.status]}>
+              {job.status === 'running' && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              {t(`jobs.status.${job.status}`)}
+            </Badge>
+            {job.retryCount > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {t('jobs.retries').replace('{count}', String(job.retryCount))}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground flex items-center gap-1.5 truncate">
+            <Mail className="h-3.5 w-3.5 shrink-0" />
+            {job.accountEmail}
+            {' · '}
+            {t('jobs.created').replace(
+              '{date}',
+              formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })
+            )}
+          </p>
+        </div>
+
+        {actions.length > 0 && (
+          <div className="flex items-center gap-2 shrink-0">
+            {actions.map((action) => {
+              const Icon = ACTION_ICONS[action]
+              return (
+                <Button
+                  key={action}
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  disabled={actionMutation.isPending}
+                  onClick={() =>
+                    action === 'cancel' ? onCancel(job) : actionMutation.mutate(action)
+                  }
+                >
+                  {actionMutation.isPending && actionMutation.variables === action ? (
+                    <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+                  ) : (
+                    <Icon className="h-3 w-3 mr-1.5" />
+                  )}
+                  {t(`jobs.action.${action}`)}
+                </Button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {(isActive || job.status === 'failed') && job.total > 0 && (
+        <Progress value={job.percentage} className="h-1.5" />
+      )}
+
+      <div className="flex items-center gap-4 flex-wrap text-xs text-muted-foreground">
+        <span>
+          {t('jobs.progress')
+            .replace('{processed}', job.processed.toLocaleString())
+            .replace('{total}', job.total.toLocaleString())}
+        </span>
+        {job.durationMs !== null && (
+          <span className="flex items-center gap-1">
+            <Timer className="h-3 w-3" />
+            {t(job.status === 'running' ? 'jobs.elapsed' : 'jobs.duration').replace(
+              '{duration}',
+              formatDuration(job.durationMs)
+            )}
+          </span>
+        )}
+        {(job.rate ?? job.throughput) !== null && (
+          <span className="flex items-center gap-1">
+            <Zap className="h-3 w-3" />
+            {t('jobs.throughput').replace(
+              '{rate}',
+              // Live rate while running, average over the whole run otherwise
+              (job.rate ?? job.throughput)!.toLocaleString()
+            )}
+          </span>
+        )}
+        {job.status === 'running' && job.eta && (
+          <span>{t('jobs.eta').replace('{eta}', job.eta)}</span>
+        )}
+      </div>
+
+      {job.status === 'failed' && job.lastError && (
+        <Alert variant="destructive" className="py-2">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="text-xs">
+            <span className="font-medium">{t('jobs.error')}:</span>{' '}
+            <span className="font-mono break-all">{job.lastError}</span>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Sync and cleanup job history across all accounts, with live progress
+ */
+export function JobsPage() {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [type, setType] = useState<JobType | 'all'>('all')
+  const [status, setStatus] = useState<JobStatus | 'all'>('all')
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const [jobToCancel, setJobToCancel] = useState<JobInfo | null>(null)
+
+  useLiveJobs()
+
+  const filters = {
+    type: type === 'all' ? undefined : type,
+    status: status === 'all' ? undefined : status,
+    limit,
+  }
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.jobs(filters),
+    queryFn: () => getJobs(filters),
+    placeholderData: (previous) => previous,
+  })
+
+  const cancelMutation = useMutation({
+    mutationFn: (jobId: string) => runJobAction(jobId, 'cancel'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] })
+      toast.success(t('jobs.action.cancel.success'))
+      setJobToCancel(null)
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('jobs.action.error'))
+    },
+  })
+
+  const jobs = data?.jobs ?? []
+  const isFiltered = type !== 'all' || status !== 'all'
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">{t('jobs.title')}</h1>
+          <p className="text-muted-foreground">{t('jobs.description')}</p>
+        </div>
+        <Badge variant="outline" className="gap-1.5 shrink-0">
+          <Radio className="h-3 w-3 text-emerald-500" />
+          {t('jobs.live')}
+        </Badge>
+      </div>
+
+      {/* Status summary - click to filter */}
+      <div className="flex flex-wrap gap-2">
+        {JOB_STATUSES.map((s) => (
+          <button
+            key={s}
+            onClick={() => {
+              setStatus(status === s ? 'all' : s)
+              setLimit(PAGE_SIZE)
+            }}
+            className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+              status === s ? 'border-primary bg-primary/5' : 'bg-card hover:bg-muted'
+            }`}
+          >
+            <p className="text-xs text-muted-foreground">{t(`jobs.status.${s}`)}</p>
+            <p className="text-lg font-semibold tabular-nums">
+              {(data?.byStatus[s] ?? 0).toLocaleString()}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-3 flex-wrap">
+        <Select
+          value={type}
+          onValueChange={(v) => {
+            setType(v as JobType | 'all')
+            setLimit(PAGE_SIZE)
+          }}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('jobs.filter.allTypes')}</SelectItem>
+            {JOB_TYPES.map((jobType) => (
+              <SelectItem key={jobType} value={jobType}>
+                {t(`jobs.type.${jobType}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={status}
+          onValueChange={(v) => {
+            setStatus(v as JobStatus | 'all')
+            setLimit(PAGE_SIZE)
+          }}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('jobs.filter.allStatuses')}</SelectItem>
+            {JOB_STATUSES.map((jobStatus) => (
+              <SelectItem key={jobStatus} value={jobStatus}>
+                {t(`jobs.status.${jobStatus}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {data && (
+          <span className="text-sm text-muted-foreground">
+            {t('jobs.count').replace('{count}', data.total.toLocaleString())}
+          </span>
+        )}
+      </div>
+
+      {/* Job list */}
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-28 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      ) : jobs.length === 0 ? (
+        <div className="text-center py-12 text-sm text-muted-foreground">
+          {isFiltered ? t('jobs.emptyFiltered') : t('jobs.empty')}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {jobs.map((job) => (
+            <JobCard key={job.id} job={job} onCancel={setJobToCancel} />
+          ))}
+          {data && jobs.length < data.total && (
+            <div className="flex justify-center pt-2">
+              <Button variant="outline" size="sm" onClick={() => setLimit(limit + PAGE_SIZE)}>
+                {t('jobs.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Cancel Confirmation Dialog */}
+      <AlertDialog open={!!jobToCancel} onOpenChange={() => setJobToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('jobs.cancel.title')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('jobs.cancel.description')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('jobs.cancel.keep')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => jobToCancel && cancelMutation.mutate(jobToCancel.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={cancelMutation.isPending}
+            >
+              {cancelMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('jobs.action.cancel')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -17,6 +17,7 @@ import type { QuickStats, SyncProgress as SyncProgressType } from '@/lib/api'
 import { useLanguage } from '@/hooks/useLanguage'
 import { useCountUp } from '@/hooks/useCountUp'
 import { QuickExorcismSection } from './QuickExorcismSection'
+import { TrendsSection } from './TrendsSection'
 import { SyncStatusBar } from './SyncStatusBar'
 import { SyncProgress } from './SyncProgress'
 import { useRouter } from '@tanstack/react-router'
@@ -449,8 +450,16 @@ export function OverviewPage({
         />
       </div>
 
+      {/* Trends Section - snapshots start once the first sync is done */}
+      {syncComplete && <TrendsSection accountId={accountId} />}
+
       {/* Quick Exorcism Section */}
-      <QuickExorcismSection stats={stats} syncProgress={syncProgress} isSyncing={isSyncing} />
+      <QuickExorcismSection
+        accountId={accountId}
+        stats={stats}
+        syncProgress={syncProgress}
+        isSyncing={isSyncing}
+      />
     </div>
   )
 }
@@ -1,5 +1,7 @@
 import { useState } from 'react'
 import { useRouter } from '@tanstack/react-router'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -16,7 +18,8 @@ import {
   AlertTriangle,
   MailOpen,
 } from 'lucide-react'
-import type { QuickStats, SyncProgress } from '@/lib/api'
+import { archiveEmails, type QuickStats, type SyncProgress } from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
 import type { TranslationKey } from '@/lib/i18n'
 import { useLanguage } from '@/hooks/useLanguage'
 import { ExorcismCard, type ExorcismCardColor } from './ExorcismCard'
@@ -46,7 +49,12 @@ interface CleanupOption {
   requiresSync?: boolean
 }
 
+// Spam and trash are already out of the inbox - nothing to archive there
+const NON_ARCHIVABLE: CleanupCategory[] = ['spam', 'trash']
+
 interface QuickExorcismSectionProps {
+  /** Enables the per-card archive action */
+  accountId?: string
   stats: QuickStats
   syncProgress: SyncProgress | null
   isSyncing?: boolean
@@ -61,6 +69,7 @@ function formatNumber(num: number | null | undefined): string {
 }
 
 export function QuickExorcismSection({
+  accountId,
   stats,
   syncProgress,
   isSyncing = false,
@@ -70,7 +79,9 @@ export function QuickExorcismSection({
 }: QuickExorcismSectionProps) {
   const { t } = useLanguage()
   const router = useRouter()
+  const queryClient = useQueryClient()
   const [internalSelected, setInternalSelected] = useState<Set<CleanupCategory>>(new Set())
+  const [archivingCategory, setArchivingCategory] = useState<CleanupCategory | null>(null)
 
   // Use external state if provided, otherwise use internal
   const selectedCategories = externalSelected ?? internalSelected
@@ -216,6 +227,23 @@ export function QuickExorcismSection({
     router.history.push(url)
   }
 
+  // Archive everything a card matches as a background job
+  const handleArchive = async (categoryId: CleanupCategory) => {
+    if (!accountId) return
+    setArchivingCategory(categoryId)
+    try {
+      const result = await archiveEmails(accountId, getCleanupPresetFilters(categoryId))
+      toast.info(result.message)
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats(accountId) })
+    } catch (err) {
+      toast.error(t('toast.archive.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setArchivingCategory(null)
+    }
+  }
+
   const handleCardClick = (option: CleanupOption, isDisabled: boolean) => {
     if (isDisabled) return
 
@@ -272,6 +300,8 @@ export function QuickExorcismSection({
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
           {cleanupOptions.map((option) => {
             const isDisabled = actionsDisabled || !!(option.requiresSync && !syncComplete)
+            const canArchive =
+              !!accountId && !selectable && option.count > 0 && !NON_ARCHIVABLE.includes(option.id)
             return (
               <ExorcismCard
                 key={option.id}
@@ -284,6 +314,9 @@ export function QuickExorcismSection({
                 disabled={isDisabled}
                 selected={selectable && selectedCategories.has(option.id)}
                 onClick={() => handleCardClick(option, isDisabled)}
+                onArchive={canArchive ? () => handleArchive(option.id) : undefined}
+                archiveLabel={t('cleanup.archive')}
+                isArchiving={archivingCategory !== null}
               />
             )
           })}
@@ -35,6 +35,7 @@ import {
 import { useTheme } from '@/hooks/useTheme'
 import { useLanguage } from '@/hooks/useLanguage'
 import { useAuthContext } from '@/routes/__root'
+import { ApiTokensCard } from './ApiTokensCard'
 import {
   getSessions,
   revokeSession,
@@ -43,7 +44,9 @@ import {
   getChatConfig,
   saveChatConfig,
   deleteChatConfig,
+  PROVIDER_NAMES,
   type GmailAccount,
+  type MailProvider,
   type Session,
   type AIConfig,
   type AIProviderType,
@@ -58,7 +61,7 @@ const GITHUB_REPO = 'inboxorcist/inboxorcist'
 interface SettingsPageProps {
   accounts: GmailAccount[]
   onDisconnect: (accountId: string) => void
-  onAddAccount: () => void
+  onAddAccount: (provider?: MailProvider) => void
 }
 
 interface GitHubRelease {
@@ -271,7 +274,7 @@ export function SettingsPage({ accounts, onDisconnect, onAddAccount }: SettingsP
           </CardContent>
         </Card>
 
-        {/* Connected Gmail Accounts Card */}
+        {/* Connected Accounts Card */}
         <Card>
           <CardHeader className="pb-4">
             <div className="flex items-center justify-between">
@@ -279,12 +282,39 @@ export function SettingsPage({ accounts, onDisconnect, onAddAccount }: SettingsP
                 <Mail className="h-4 w-4 text-muted-foreground" />
                 Connected Accounts
               </CardTitle>
-              <Button variant="outline" size="sm" onClick={onAddAccount} className="h-8 text-xs">
-                <Mail className="h-3 w-3 mr-1.5" />
-                Add
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onAddAccount()}
+                  className="h-8 text-xs"
+                >
+                  <Plus className="h-3 w-3 mr-1.5" />
+                  Gmail
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onAddAccount('outlook')}
+                  className="h-8 text-xs"
+                >
+                  <Plus className="h-3 w-3 mr-1.5" />
+                  Outlook
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onAddAccount('imap')}
+                  className="h-8 text-xs"
+                >
+                  <Plus className="h-3 w-3 mr-1.5" />
+                  IMAP
+                </Button>
+              </div>
             </div>
-            <CardDescription className="text-xs">Gmail accounts linked for cleanup</CardDescription>
+            <CardDescription className="text-xs">
+              Gmail, Outlook and IMAP accounts linked for cleanup
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-2">
@@ -303,6 +333,11 @@ export function SettingsPage({ accounts, onDisconnect, onAddAccount }: SettingsP
                             Primary
                           </span>
                         )}
+                        {account.provider && account.provider !== 'gmail' && (
+                          <span className="text-[10px] bg-muted text-muted-foreground px-1.5 py-0.5 rounded font-medium shrink-0">
+                            {PROVIDER_NAMES[account.provider]}
+                          </span>
+                        )}
                       </div>
                       <p className="text-xs text-muted-foreground">
                         Connected {new Date(account.connectedAt).toLocaleDateString()}
@@ -317,7 +352,9 @@ export function SettingsPage({ accounts, onDisconnect, onAddAccount }: SettingsP
                         </AlertDialogTrigger>
                         <AlertDialogContent>
                           <AlertDialogHeader>
-                            <AlertDialogTitle>Disconnect Gmail Account?</AlertDialogTitle>
+                            <AlertDialogTitle>
+                              Disconnect {PROVIDER_NAMES[account.provider || 'gmail']} Account?
+                            </AlertDialogTitle>
                             <AlertDialogDescription>
                               This will remove{' '}
                               <span className="font-medium text-foreground">{account.email}</span>{' '}
@@ -624,6 +661,9 @@ export function SettingsPage({ accounts, onDisconnect, onAddAccount }: SettingsP
           </CardContent>
         </Card>
 
+        {/* API Tokens Card */}
+        <ApiTokensCard />
+
         {/* Appearance Card */}
         <Card>
           <CardHeader className="pb-4">
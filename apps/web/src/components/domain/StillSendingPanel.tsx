@@ -0,0 +1,218 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { ExternalLink, Filter, Loader2, ShieldAlert, CheckCircle, MailCheck } from 'lucide-react'
+import {
+  getStillSendingSenders,
+  escalateStillSendingSender,
+  type StillSendingSender,
+  type UnsubscribeEscalation,
+} from '@/lib/api'
+import { buildFilteredUrl } from '@/lib/filter-url'
+import { queryKeys } from '@/lib/query-client'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useLanguage } from '@/hooks/useLanguage'
+
+interface StillSendingPanelProps {
+  accountId: string
+}
+
+function formatTimestamp(value: number | string | null): string {
+  if (value === null) return '-'
+  return format(new Date(value), 'MMM d, yyyy')
+}
+
+/**
+ * Senders that kept emailing after being unsubscribed, with one-click escalation
+ */
+export function StillSendingPanel({ accountId }: StillSendingPanelProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [pending, setPending] = useState<{
+    email: string
+    action: UnsubscribeEscalation
+  } | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.stillSending(accountId),
+    queryFn: () => getStillSendingSenders(accountId),
+    enabled: !!accountId,
+  })
+
+  const senders = data?.senders ?? []
+  const graceNote = t('subscriptions.stillSending.graceNote').replace(
+    '{days}',
+    data?.graceDays.toString() ?? ''
+  )
+
+  const handleEscalate = async (sender: StillSendingSender, action: UnsubscribeEscalation) => {
+    setPending({ email: sender.email, action })
+    try {
+      const result = await escalateStillSendingSender(accountId, sender.email, action)
+      toast.success(result.message)
+      queryClient.invalidateQueries({ queryKey: queryKeys.stillSending(accountId) })
+      if (action === 'spam') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.stats(accountId) })
+      }
+    } catch (err) {
+      toast.error(t('subscriptions.stillSending.escalateError'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg border bg-card p-8 text-center text-red-500">
+        <ShieldAlert className="h-8 w-8 mx-auto mb-2" />
+        <p>{(error as Error).message}</p>
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border bg-card p-4 space-y-3">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (senders.length === 0) {
+    return (
+      <div className="rounded-lg border bg-card p-12 text-center">
+        <MailCheck className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+        <p className="text-muted-foreground">{t('subscriptions.stillSending.empty')}</p>
+        <p className="text-sm text-muted-foreground/70">
+          {t('subscriptions.stillSending.emptyDescription')}
+        </p>
+        <p className="text-xs text-muted-foreground/70 mt-2">{graceNote}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-lg border bg-card">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[28%]">{t('subscriptions.table.from')}</TableHead>
+            <TableHead className="w-[12%] text-center">
+              {t('subscriptions.stillSending.emailsSince')}
+            </TableHead>
+            <TableHead className="w-[12%] text-center">
+              {t('subscriptions.stillSending.unsubscribedOn')}
+            </TableHead>
+            <TableHead className="w-[12%] text-center">
+              {t('subscriptions.stillSending.firstAfter')}
+            </TableHead>
+            <TableHead className="w-[12%] text-center">
+              {t('subscriptions.table.lastEmail')}
+            </TableHead>
+            <TableHead className="text-right">{t('subscriptions.table.action')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {senders.map((sender) => {
+            const isBusy = pending?.email === sender.email
+            return (
+              <TableRow key={sender.email}>
+                <TableCell className="py-2">
+                  <div className="flex flex-col min-w-0">
+                    <span className="font-medium text-sm truncate">
+                      {sender.name || sender.email}
+                    </span>
+                    {sender.name && (
+                      <span className="text-xs text-muted-foreground truncate">{sender.email}</span>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="py-2 text-center">
+                  <span className="text-sm font-medium text-amber-600 dark:text-amber-400 tabular-nums">
+                    {sender.emailCount.toLocaleString()}
+                  </span>
+                </TableCell>
+                <TableCell className="py-2 text-center text-sm text-muted-foreground whitespace-nowrap">
+                  {formatTimestamp(sender.unsubscribedAt)}
+                </TableCell>
+                <TableCell className="py-2 text-center text-sm text-muted-foreground whitespace-nowrap">
+                  {formatTimestamp(sender.firstEmailAt)}
+                </TableCell>
+                <TableCell className="py-2 text-center text-sm text-muted-foreground whitespace-nowrap">
+                  {formatTimestamp(sender.lastEmailAt)}
+                </TableCell>
+                <TableCell className="py-2 text-right">
+                  <div className="flex items-center justify-end gap-2">
+                    {sender.escalation && (
+                      <span className="inline-flex items-center gap-1 text-xs text-emerald-600">
+                        <CheckCircle className="h-3.5 w-3.5" />
+                        {sender.escalation === 'filter'
+                          ? t('subscriptions.stillSending.filtered')
+                          : t('subscriptions.stillSending.reported')}
+                      </span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-1.5 text-muted-foreground hover:text-foreground"
+                      onClick={() => {
+                        const url = buildFilteredUrl('/explorer', { sender: sender.email }, true)
+                        window.open(url, '_blank', 'noopener,noreferrer')
+                      }}
+                    >
+                      <ExternalLink className="h-3.5 w-3.5" />
+                      {t('subscriptions.view')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1.5"
+                      disabled={isBusy || sender.escalation === 'filter'}
+                      onClick={() => handleEscalate(sender, 'filter')}
+                    >
+                      {isBusy && pending?.action === 'filter' ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Filter className="h-3.5 w-3.5" />
+                      )}
+                      {t('subscriptions.stillSending.autoTrash')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1.5 text-red-500 border-red-500/50 hover:bg-red-500/10 hover:text-red-500"
+                      disabled={isBusy}
+                      onClick={() => handleEscalate(sender, 'spam')}
+                    >
+                      {isBusy && pending?.action === 'spam' ? (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <ShieldAlert className="h-3.5 w-3.5" />
+                      )}
+                      {t('subscriptions.stillSending.reportSpam')}
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+      <p className="border-t px-4 py-2 text-xs text-muted-foreground">{graceNote}</p>
+    </div>
+  )
+}
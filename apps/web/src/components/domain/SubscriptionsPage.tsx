@@ -21,9 +21,11 @@ import {
   Loader2,
   ExternalLink,
   Mail,
+  AlertCircle,
 } from 'lucide-react'
 import {
   getSubscriptions,
+  getStillSendingSenders,
   bulkMarkAsUnsubscribed,
   type Subscription,
   type SubscriptionFilters,
@@ -65,7 +67,9 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { UnsubscribeConfirmDialog } from './UnsubscribeConfirmDialog'
+import { StillSendingPanel } from './StillSendingPanel'
 import { SyncStatusBar } from './SyncStatusBar'
 import { SyncProgress } from './SyncProgress'
 import { useAppContext } from '@/routes/__root'
@@ -170,6 +174,29 @@ function detectDatePreset(dateFrom?: number, dateTo?: number): DatePreset {
   return 'custom'
 }
 
+/**
+ * Describe the last unsubscribe attempt for a sender (shown as a tooltip / badge)
+ */
+function getOutcomeLabel(
+  subscription: Subscription,
+  t: ReturnType<typeof useLanguage>['t']
+): string | null {
+  const attempt = subscription.unsubscribeAttempt
+  if (!attempt) return null
+
+  if (attempt.status === 'success') {
+    if (attempt.method === 'one_click') return t('subscriptions.outcome.oneClick')
+    if (attempt.method === 'mailto') {
+      return t('subscriptions.outcome.mailto').replace('{target}', attempt.target ?? '')
+    }
+    return t('subscriptions.outcome.manual')
+  }
+  if (attempt.status === 'fallback_needed') return t('subscriptions.outcome.fallback')
+  return attempt.httpStatus
+    ? t('subscriptions.outcome.failedHttp').replace('{status}', String(attempt.httpStatus))
+    : t('subscriptions.outcome.failed')
+}
+
 interface SubscriptionRowProps {
   subscription: Subscription
   isSelected: boolean
@@ -184,6 +211,12 @@ function SubscriptionRow({
   onUnsubscribeClick,
 }: SubscriptionRowProps) {
   const { t } = useLanguage()
+  const attempt = subscription.unsubscribeAttempt
+  const outcomeLabel = getOutcomeLabel(subscription, t)
+  const needsAttention =
+    !subscription.isUnsubscribed &&
+    (attempt?.status === 'failed' || attempt?.status === 'fallback_needed')
+
   return (
     <TableRow className={subscription.isUnsubscribed ? 'opacity-60' : ''}>
       <TableCell className="py-2 w-10">
@@ -237,8 +270,24 @@ function SubscriptionRow({
             <ExternalLink className="h-3.5 w-3.5" />
             {t('subscriptions.view')}
           </Button>
+          {needsAttention && (
+            <span
+              className="inline-flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400"
+              title={
+                attempt?.status === 'fallback_needed'
+                  ? t('subscriptions.outcome.fallbackHint')
+                  : (attempt?.error ?? undefined)
+              }
+            >
+              <AlertCircle className="h-3.5 w-3.5" />
+              {outcomeLabel}
+            </span>
+          )}
           {subscription.isUnsubscribed ? (
-            <span className="inline-flex items-center gap-1 text-sm text-emerald-600">
+            <span
+              className="inline-flex items-center gap-1 text-sm text-emerald-600"
+              title={outcomeLabel ?? undefined}
+            >
               <CheckCircle className="h-3.5 w-3.5" />
               {t('subscriptions.unsubscribed')}
             </span>
@@ -600,6 +649,7 @@ export function SubscriptionsPage({
   const [selectedEmails, setSelectedEmails] = useState<Set<string>>(new Set())
   const [isBulkUnsubscribing, setIsBulkUnsubscribing] = useState(false)
   const [bulkConfirmOpen, setBulkConfirmOpen] = useState(false)
+  const [view, setView] = useState<'all' | 'stillSending'>('all')
   const limit = 50
 
   // Update URL when filters change
@@ -625,6 +675,14 @@ export function SubscriptionsPage({
   const subscriptions = useMemo(() => data?.subscriptions ?? [], [data?.subscriptions])
   const pagination = data?.pagination
 
+  // Senders still mailing after an unsubscribe (shared with the Still sending view)
+  const { data: stillSendingData } = useQuery({
+    queryKey: queryKeys.stillSending(accountId),
+    queryFn: () => getStillSendingSenders(accountId),
+    enabled: !!accountId && syncStatus === 'completed',
+  })
+  const stillSendingCount = stillSendingData?.senders.length ?? 0
+
   // Get selectable subscriptions (not already unsubscribed)
   const selectableSubscriptions = useMemo(
     () => subscriptions.filter((s) => !s.isUnsubscribed),
@@ -702,7 +760,12 @@ export function SubscriptionsPage({
     setIsBulkUnsubscribing(true)
     try {
       const result = await bulkMarkAsUnsubscribed(accountId, selectedSenders)
-      toast.success(result.message)
+      // Senders needing a manual step or that failed stay selectable in the list
+      if ((result.fallbackCount ?? 0) + (result.failedCount ?? 0) > 0) {
+        toast.warning(result.message)
+      } else {
+        toast.success(result.message)
+      }
       setSelectedEmails(new Set())
       setBulkConfirmOpen(false)
       // Invalidate subscriptions query to refresh the list
@@ -746,145 +809,170 @@ export function SubscriptionsPage({
         />
       )}
 
-      {/* Filters */}
-      <SubscriptionFiltersUI
-        filters={filters}
-        onFiltersChange={handleFiltersChange}
-        disabled={isLoading || isSyncPending}
-      />
+      {/* Views */}
+      <Tabs value={view} onValueChange={(v) => setView(v as 'all' | 'stillSending')}>
+        <TabsList>
+          <TabsTrigger value="all" className="gap-2">
+            <MailMinus className="h-4 w-4" />
+            {t('subscriptions.tab.all')}
+          </TabsTrigger>
+          <TabsTrigger value="stillSending" className="gap-2">
+            <AlertCircle className="h-4 w-4" />
+            {t('subscriptions.tab.stillSending')}
+            {stillSendingCount > 0 && (
+              <span className="rounded-full bg-amber-500/15 px-1.5 text-xs text-amber-600 dark:text-amber-400 tabular-nums">
+                {stillSendingCount}
+              </span>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="all" className="mt-6 space-y-6">
+          {/* Filters */}
+          <SubscriptionFiltersUI
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            disabled={isLoading || isSyncPending}
+          />
 
-      {/* Bulk Actions & Pagination */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          {selectedEmails.size > 0 && (
-            <Button
-              variant="secondary"
-              size="sm"
-              onClick={() => setBulkConfirmOpen(true)}
-              disabled={isBulkUnsubscribing}
-            >
-              {isBulkUnsubscribing ? (
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              ) : (
-                <CheckSquare className="h-4 w-4 mr-2" />
+          {/* Bulk Actions & Pagination */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              {selectedEmails.size > 0 && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => setBulkConfirmOpen(true)}
+                  disabled={isBulkUnsubscribing}
+                >
+                  {isBulkUnsubscribing ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <CheckSquare className="h-4 w-4 mr-2" />
+                  )}
+                  {t('subscriptions.markUnsubscribed')} {selectedEmails.size.toLocaleString()}
+                </Button>
               )}
-              {t('subscriptions.markUnsubscribed')} {selectedEmails.size.toLocaleString()}
-            </Button>
-          )}
-        </div>
-
-        {pagination && (
-          <div className="flex items-center gap-4">
-            <p className="text-sm text-muted-foreground whitespace-nowrap">
-              Showing {(page - 1) * limit + 1} - {Math.min(page * limit, pagination.total)} of{' '}
-              {pagination.total.toLocaleString()} subscriptions
-            </p>
-            <div className="flex items-center gap-1">
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-8 w-8 p-0"
-                onClick={() => setPage(1)}
-                disabled={page === 1 || isLoading}
-              >
-                <ChevronsLeft className="h-3.5 w-3.5" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-8 w-8 p-0"
-                onClick={() => setPage((p) => Math.max(1, p - 1))}
-                disabled={page === 1 || isLoading}
-              >
-                <ChevronLeft className="h-3.5 w-3.5" />
-              </Button>
-              <span className="px-3 text-sm">
-                Page {page} of {pagination.totalPages || 1}
-              </span>
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-8 w-8 p-0"
-                onClick={() => setPage((p) => p + 1)}
-                disabled={page >= pagination.totalPages || isLoading}
-              >
-                <ChevronRight className="h-3.5 w-3.5" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-8 w-8 p-0"
-                onClick={() => setPage(pagination.totalPages)}
-                disabled={page >= pagination.totalPages || isLoading}
-              >
-                <ChevronsRight className="h-3.5 w-3.5" />
-              </Button>
             </div>
-          </div>
-        )}
-      </div>
 
-      {/* Table */}
-      <div className="rounded-lg border bg-card">
-        {isSyncPending ? (
-          <div className="p-12 text-center">
-            <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-4">
-              <Mail className="h-8 w-8 text-primary" />
-            </div>
-            <h3 className="text-lg font-medium mb-2">{t('subscriptions.syncPending.title')}</h3>
-            <p className="text-muted-foreground text-center max-w-sm mx-auto">
-              {t('subscriptions.syncPending.description')}
-            </p>
-          </div>
-        ) : error ? (
-          <div className="p-8 text-center text-red-500">
-            <MailMinus className="h-8 w-8 mx-auto mb-2" />
-            <p>Failed to load subscriptions: {error.message}</p>
+            {pagination && (
+              <div className="flex items-center gap-4">
+                <p className="text-sm text-muted-foreground whitespace-nowrap">
+                  Showing {(page - 1) * limit + 1} - {Math.min(page * limit, pagination.total)} of{' '}
+                  {pagination.total.toLocaleString()} subscriptions
+                </p>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPage(1)}
+                    disabled={page === 1 || isLoading}
+                  >
+                    <ChevronsLeft className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                    disabled={page === 1 || isLoading}
+                  >
+                    <ChevronLeft className="h-3.5 w-3.5" />
+                  </Button>
+                  <span className="px-3 text-sm">
+                    Page {page} of {pagination.totalPages || 1}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPage((p) => p + 1)}
+                    disabled={page >= pagination.totalPages || isLoading}
+                  >
+                    <ChevronRight className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setPage(pagination.totalPages)}
+                    disabled={page >= pagination.totalPages || isLoading}
+                  >
+                    <ChevronsRight className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
-        ) : isLoading ? (
-          <LoadingSkeleton />
-        ) : subscriptions.length === 0 ? (
-          <div className="p-12 text-center">
-            <MailMinus className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-            <p className="text-muted-foreground">{t('subscriptions.noResults')}</p>
-            <p className="text-sm text-muted-foreground/70">
-              {t('subscriptions.noResults.description')}
-            </p>
+
+          {/* Table */}
+          <div className="rounded-lg border bg-card">
+            {isSyncPending ? (
+              <div className="p-12 text-center">
+                <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-4">
+                  <Mail className="h-8 w-8 text-primary" />
+                </div>
+                <h3 className="text-lg font-medium mb-2">{t('subscriptions.syncPending.title')}</h3>
+                <p className="text-muted-foreground text-center max-w-sm mx-auto">
+                  {t('subscriptions.syncPending.description')}
+                </p>
+              </div>
+            ) : error ? (
+              <div className="p-8 text-center text-red-500">
+                <MailMinus className="h-8 w-8 mx-auto mb-2" />
+                <p>Failed to load subscriptions: {error.message}</p>
+              </div>
+            ) : isLoading ? (
+              <LoadingSkeleton />
+            ) : subscriptions.length === 0 ? (
+              <div className="p-12 text-center">
+                <MailMinus className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+                <p className="text-muted-foreground">{t('subscriptions.noResults')}</p>
+                <p className="text-sm text-muted-foreground/70">
+                  {t('subscriptions.noResults.description')}
+                </p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected || (someSelected && 'indeterminate')}
+                        onCheckedChange={handleSelectAll}
+                        disabled={selectableSubscriptions.length === 0}
+                        aria-label="Select all"
+                      />
+                    </TableHead>
+                    <TableHead className="w-[28%]">From</TableHead>
+                    <TableHead className="w-[10%] text-center">Emails</TableHead>
+                    <TableHead className="w-[10%] text-center">Size</TableHead>
+                    <TableHead className="w-[13%] text-center">First Email</TableHead>
+                    <TableHead className="w-[13%] text-center">Last Email</TableHead>
+                    <TableHead className="w-[18%] text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map((subscription) => (
+                    <SubscriptionRow
+                      key={subscription.email}
+                      subscription={subscription}
+                      isSelected={selectedEmails.has(subscription.email)}
+                      onSelectChange={(checked) => handleSelectOne(subscription.email, checked)}
+                      onUnsubscribeClick={handleUnsubscribeClick}
+                    />
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </div>
-        ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-10">
-                  <Checkbox
-                    checked={allSelected || (someSelected && 'indeterminate')}
-                    onCheckedChange={handleSelectAll}
-                    disabled={selectableSubscriptions.length === 0}
-                    aria-label="Select all"
-                  />
-                </TableHead>
-                <TableHead className="w-[28%]">From</TableHead>
-                <TableHead className="w-[10%] text-center">Emails</TableHead>
-                <TableHead className="w-[10%] text-center">Size</TableHead>
-                <TableHead className="w-[13%] text-center">First Email</TableHead>
-                <TableHead className="w-[13%] text-center">Last Email</TableHead>
-                <TableHead className="w-[18%] text-right">Action</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {subscriptions.map((subscription) => (
-                <SubscriptionRow
-                  key={subscription.email}
-                  subscription={subscription}
-                  isSelected={selectedEmails.has(subscription.email)}
-                  onSelectChange={(checked) => handleSelectOne(subscription.email, checked)}
-                  onUnsubscribeClick={handleUnsubscribeClick}
-                />
-              ))}
-            </TableBody>
-          </Table>
-        )}
-      </div>
+        </TabsContent>
+
+        <TabsContent value="stillSending" className="mt-6">
+          <StillSendingPanel accountId={accountId} />
+        </TabsContent>
+      </Tabs>
 
       {/* Unsubscribe Confirmation Dialog */}
       <UnsubscribeConfirmDialog
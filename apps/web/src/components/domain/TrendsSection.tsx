@@ -0,0 +1,412 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { HardDrive, TrendingDown, TrendingUp } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  getTrends,
+  updateStorageQuota,
+  type MailboxSnapshot,
+  type StorageForecast,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+
+const GB = 1024 * 1024 * 1024
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Free plan and the usual Google One plans
+const QUOTA_OPTIONS = [15 * GB, 100 * GB, 200 * GB, 2048 * GB, 5120 * GB]
+const DEFAULT_QUOTA = 'default'
+
+// Chart drawing area (viewBox units)
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 160
+
+function formatStorageSize(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const k = 1024
+  const i = Math.min(units.length - 1, Math.floor(Math.log(Math.abs(bytes)) / Math.log(k)))
+  const value = bytes / Math.pow(k, i)
+  return `${parseFloat(value.toFixed(1))} ${units[i]}`
+}
+
+function parseSnapshotDate(date: string): Date {
+  return new Date(`${date}T00:00:00`)
+}
+
+interface TrendsSectionProps {
+  accountId: string
+}
+
+/**
+ * Mailbox growth, space reclaimed by jobs and the storage quota forecast,
+ * from the daily snapshots the scheduler records
+ */
+export function TrendsSection({ accountId }: TrendsSectionProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.trends(accountId),
+    queryFn: () => getTrends(accountId),
+  })
+
+  const quotaMutation = useMutation({
+    mutationFn: (quotaBytes: number | null) => updateStorageQuota(accountId, quotaBytes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.trends(accountId) })
+      toast.success(t('trends.quota.saved'))
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('trends.quota.error'))
+    },
+  })
+
+  if (isLoading || !data) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <Skeleton className="h-64 lg:col-span-2" />
+        <Skeleton className="h-64" />
+      </div>
+    )
+  }
+
+  const { snapshots, forecast } = data
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold">{t('trends.title')}</h2>
+        <p className="text-sm text-muted-foreground">{t('trends.description')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 space-y-4">
+          {snapshots.length === 0 ? (
+            <Card>
+              <CardContent className="py-10 text-center text-sm text-muted-foreground">
+                {t('trends.empty')}
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <GrowthChart snapshots={snapshots} forecast={forecast} />
+              <ReclaimedChart snapshots={snapshots} />
+            </>
+          )}
+        </div>
+
+        <ForecastCard
+          forecast={forecast}
+          onQuotaChange={(quotaBytes) => quotaMutation.mutate(quotaBytes)}
+          isSaving={quotaMutation.isPending}
+        />
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// Mailbox size
+// ============================================================================
+
+interface GrowthChartProps {
+  snapshots: MailboxSnapshot[]
+  forecast: StorageForecast
+}
+
+function GrowthChart({ snapshots, forecast }: GrowthChartProps) {
+  const { t } = useLanguage()
+
+  const first = snapshots[0]!
+  const last = snapshots[snapshots.length - 1]!
+  const start = parseSnapshotDate(first.date).getTime()
+  const end = parseSnapshotDate(last.date).getTime()
+  const historyDays = Math.round((end - start) / DAY_MS)
+
+  // Project as far ahead as the history goes back (at least 30 days)
+  const projectionDays = Math.max(30, historyDays)
+  const projectedSize = Math.max(
+    0,
+    last.totalSizeBytes + forecast.growthBytesPerDay * projectionDays
+  )
+  const domainEnd = end + projectionDays * DAY_MS
+
+  const maxSize = Math.max(projectedSize, ...snapshots.map((s) => s.totalSizeBytes), 1)
+  // Show the quota line when it's within reach of the chart
+  const showQuota = forecast.quotaBytes <= maxSize * 1.5
+  const yMax = (showQuota ? Math.max(maxSize, forecast.quotaBytes) : maxSize) * 1.1
+
+  const x = (time: number) => ((time - start) / Math.max(domainEnd - start, DAY_MS)) * CHART_WIDTH
+  const y = (bytes: number) => CHART_HEIGHT - (bytes / yMax) * CHART_HEIGHT
+
+  const points = snapshots.map((s) => ({
+    x: x(parseSnapshotDate(s.date).getTime()),
+    y: y(s.totalSizeBytes),
+    snapshot: s,
+  }))
+  const line = points.map((p) => `${p.x},${p.y}`).join(' ')
+  const area = `0,${CHART_HEIGHT} ${line} ${points[points.length - 1]!.x},${CHART_HEIGHT}`
+
+  const change = last.totalSizeBytes - first.totalSizeBytes
+  const ChangeIcon = change > 0 ? TrendingUp : TrendingDown
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <p className="font-medium">{t('trends.size')}</p>
+            <p className="text-sm text-muted-foreground">
+              {t('trends.size.subtitle').replace('{count}', String(historyDays + 1))}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-xl font-semibold">{formatStorageSize(last.totalSizeBytes)}</p>
+            {snapshots.length > 1 && (
+              <p className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+                <ChangeIcon className="h-3.5 w-3.5" />
+                {t('trends.size.change')
+                  .replace('{change}', `${change > 0 ? '+' : ''}${formatStorageSize(change)}`)
+                  .replace('{date}', format(parseSnapshotDate(first.date), 'MMM d'))}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-40 overflow-visible"
+        >
+          {showQuota && (
+            <line
+              x1={0}
+              x2={CHART_WIDTH}
+              y1={y(forecast.quotaBytes)}
+              y2={y(forecast.quotaBytes)}
+              className="stroke-destructive"
+              strokeDasharray="4 4"
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+          <polygon points={area} className="fill-primary/10" />
+          <polyline
+            points={line}
+            fill="none"
+            className="stroke-primary"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+          <line
+            x1={x(end)}
+            y1={y(last.totalSizeBytes)}
+            x2={x(domainEnd)}
+            y2={y(projectedSize)}
+            className="stroke-primary/60"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+          {points.map((p) => (
+            <rect
+              key={p.snapshot.date}
+              x={p.x - 2}
+              y={0}
+              width={4}
+              height={CHART_HEIGHT}
+              className="fill-transparent"
+            >
+              <title>
+                {`${format(parseSnapshotDate(p.snapshot.date), 'MMM d, yyyy')}: ${formatStorageSize(p.snapshot.totalSizeBytes)} · ${p.snapshot.totalEmails.toLocaleString()}`}
+              </title>
+            </rect>
+          ))}
+        </svg>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{format(start, 'MMM d')}</span>
+          <div className="flex items-center gap-4">
+            <span className="flex items-center gap-1.5">
+              <span className="inline-block w-4 border-t-2 border-dashed border-primary/60" />
+              {t('trends.projection')}
+            </span>
+            {showQuota && (
+              <span className="flex items-center gap-1.5">
+                <span className="inline-block w-4 border-t-2 border-dashed border-destructive" />
+                {t('trends.quota')} ({formatStorageSize(forecast.quotaBytes)})
+              </span>
+            )}
+          </div>
+          <span>{format(domainEnd, 'MMM d')}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============================================================================
+// Reclaimed space
+// ============================================================================
+
+function ReclaimedChart({ snapshots }: { snapshots: MailboxSnapshot[] }) {
+  const { t } = useLanguage()
+
+  // reclaimedBytes is cumulative - a day's bar is what jobs freed since the previous snapshot
+  const bars = snapshots.slice(1).map((snapshot, i) => ({
+    date: snapshot.date,
+    bytes: Math.max(0, snapshot.reclaimedBytes - snapshots[i]!.reclaimedBytes),
+  }))
+  const total = bars.reduce((sum, bar) => sum + bar.bytes, 0)
+  const max = Math.max(...bars.map((bar) => bar.bytes), 1)
+  const slot = CHART_WIDTH / Math.max(bars.length, 1)
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <p className="font-medium">{t('trends.reclaimed')}</p>
+            <p className="text-sm text-muted-foreground">
+              {total > 0
+                ? t('trends.reclaimed.subtitle').replace('{size}', formatStorageSize(total))
+                : t('trends.reclaimed.empty')}
+            </p>
+          </div>
+        </div>
+
+        {total > 0 && (
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT / 2}`}
+            preserveAspectRatio="none"
+            className="w-full h-20"
+          >
+            {bars.map((bar, i) => {
+              const height = (bar.bytes / max) * (CHART_HEIGHT / 2)
+              return (
+                <rect
+                  key={bar.date}
+                  x={i * slot + slot * 0.15}
+                  y={CHART_HEIGHT / 2 - height}
+                  width={slot * 0.7}
+                  height={height}
+                  className="fill-emerald-500"
+                >
+                  <title>
+                    {`${format(parseSnapshotDate(bar.date), 'MMM d, yyyy')}: ${formatStorageSize(bar.bytes)}`}
+                  </title>
+                </rect>
+              )
+            })}
+          </svg>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// ============================================================================
+// Forecast
+// ============================================================================
+
+interface ForecastCardProps {
+  forecast: StorageForecast
+  onQuotaChange: (quotaBytes: number | null) => void
+  isSaving: boolean
+}
+
+function ForecastCard({ forecast, onQuotaChange, isSaving }: ForecastCardProps) {
+  const { t } = useLanguage()
+
+  const usage = Math.min(100, (forecast.usedBytes / forecast.quotaBytes) * 100)
+  const quotaValue = forecast.quotaIsDefault ? DEFAULT_QUOTA : String(forecast.quotaBytes)
+  // Keep a quota set through the API selectable even if it isn't one of the plans
+  const options =
+    forecast.quotaIsDefault || QUOTA_OPTIONS.includes(forecast.quotaBytes)
+      ? QUOTA_OPTIONS
+      : [...QUOTA_OPTIONS, forecast.quotaBytes].sort((a, b) => a - b)
+
+  let outlook: string
+  if (forecast.daysUntilFull === 0) {
+    outlook = t('trends.forecast.alreadyFull')
+  } else if (forecast.daysUntilFull !== null && forecast.fullAt) {
+    outlook = t('trends.forecast.full')
+      .replace('{days}', forecast.daysUntilFull.toLocaleString())
+      .replace('{date}', format(new Date(forecast.fullAt), 'MMM yyyy'))
+  } else {
+    outlook = t('trends.forecast.notGrowing')
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <HardDrive className="h-4 w-4 text-muted-foreground" />
+          <p className="font-medium">{t('trends.forecast.title')}</p>
+        </div>
+
+        <div className="space-y-2">
+          <Progress value={usage} className={usage >= 90 ? '[&>div]:bg-destructive' : undefined} />
+          <p className="text-sm text-muted-foreground">
+            {t('trends.forecast.usage')
+              .replace('{used}', formatStorageSize(forecast.usedBytes))
+              .replace('{quota}', formatStorageSize(forecast.quotaBytes))}
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <p className="font-semibold">{outlook}</p>
+          {forecast.growthBytesPerDay !== 0 && (
+            <p className="text-sm text-muted-foreground">
+              {t('trends.forecast.rate').replace(
+                '{size}',
+                `${forecast.growthBytesPerDay > 0 ? '+' : ''}${formatStorageSize(forecast.growthBytesPerDay)}`
+              )}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {t(`trends.forecast.basis.${forecast.basis}`)}
+          </p>
+        </div>
+
+        <div className="space-y-1.5">
+          <p className="text-sm font-medium">{t('trends.quota.label')}</p>
+          <Select
+            value={quotaValue}
+            onValueChange={(v) => onQuotaChange(v === DEFAULT_QUOTA ? null : Number(v))}
+            disabled={isSaving}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_QUOTA}>
+                {t('trends.quota.default').replace(
+                  '{size}',
+                  formatStorageSize(forecast.defaultQuotaBytes)
+                )}
+              </SelectItem>
+              {options.map((bytes) => (
+                <SelectItem key={bytes} value={String(bytes)}>
+                  {formatStorageSize(bytes)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{t('trends.forecast.sharedQuota')}</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
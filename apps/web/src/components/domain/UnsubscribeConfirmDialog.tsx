@@ -1,6 +1,6 @@
 import { useState } from 'react'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
-import { CheckCircle, XCircle, Loader2, ExternalLink, MailMinus } from 'lucide-react'
+import { CheckCircle, XCircle, Loader2, ExternalLink, MailMinus, Zap } from 'lucide-react'
 import { markAsUnsubscribed, type Subscription } from '@/lib/api'
 import { toast } from 'sonner'
 import {
@@ -29,10 +29,38 @@ export function UnsubscribeConfirmDialog({
 }: UnsubscribeConfirmDialogProps) {
   const queryClient = useQueryClient()
   const [hasClickedLink, setHasClickedLink] = useState(false)
+  const [autoMessage, setAutoMessage] = useState<string | null>(null)
   const { t } = useLanguage()
 
-  const markUnsubscribedMutation = useMutation({
+  // Server performs the unsubscribe (one-click POST or mailto)
+  const autoUnsubscribeMutation = useMutation({
     mutationFn: () => markAsUnsubscribed(accountId, subscription!.email, subscription!.name),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['subscriptions', accountId] })
+      if (!data.alreadyUnsubscribed && data.results?.[0]?.status !== 'success') {
+        // Sender needs the manual steps below (or the attempt failed)
+        setAutoMessage(data.message)
+        return
+      }
+      if (data.alreadyUnsubscribed) {
+        toast.info(t('dialog.unsubscribe.toast.alreadyDone'))
+      } else {
+        toast.success(data.message)
+      }
+      onOpenChange(false)
+      setHasClickedLink(false)
+      setAutoMessage(null)
+    },
+    onError: (error) => {
+      toast.error(t('dialog.unsubscribe.toast.error'), {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    },
+  })
+
+  // User unsubscribed on the sender's page - only record it
+  const markUnsubscribedMutation = useMutation({
+    mutationFn: () => markAsUnsubscribed(accountId, subscription!.email, subscription!.name, true),
     onSuccess: (data) => {
       if (data.alreadyUnsubscribed) {
         toast.info(t('dialog.unsubscribe.toast.alreadyDone'))
@@ -43,6 +71,7 @@ export function UnsubscribeConfirmDialog({
       queryClient.invalidateQueries({ queryKey: ['subscriptions', accountId] })
       onOpenChange(false)
       setHasClickedLink(false)
+      setAutoMessage(null)
     },
     onError: (error) => {
       toast.error(t('dialog.unsubscribe.toast.error'), {
@@ -67,6 +96,7 @@ export function UnsubscribeConfirmDialog({
   const handleClose = () => {
     onOpenChange(false)
     setHasClickedLink(false)
+    setAutoMessage(null)
   }
 
   if (!subscription) return null
@@ -96,6 +126,36 @@ export function UnsubscribeConfirmDialog({
             </p>
           </div>
 
+          {/* Automatic unsubscribe */}
+          <div className="rounded-lg border p-3 space-y-2">
+            <div>
+              <p className="text-sm font-medium">{t('dialog.unsubscribe.auto.title')}</p>
+              <p className="text-xs text-muted-foreground">
+                {t('dialog.unsubscribe.auto.description')}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => autoUnsubscribeMutation.mutate()}
+              disabled={autoUnsubscribeMutation.isPending || markUnsubscribedMutation.isPending}
+              className="gap-1.5"
+            >
+              {autoUnsubscribeMutation.isPending ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Zap className="h-3.5 w-3.5" />
+              )}
+              {t('dialog.unsubscribe.auto.button')}
+            </Button>
+            {autoMessage && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">{autoMessage}</p>
+            )}
+          </div>
+
+          <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+            {t('dialog.unsubscribe.manual')}
+          </p>
+
           {/* Step 1: Open unsubscribe link */}
           <div className="flex items-start gap-3">
             <div
@@ -146,7 +206,11 @@ export function UnsubscribeConfirmDialog({
           </Button>
           <Button
             onClick={handleConfirmUnsubscribed}
-            disabled={!hasClickedLink || markUnsubscribedMutation.isPending}
+            disabled={
+              !hasClickedLink ||
+              markUnsubscribedMutation.isPending ||
+              autoUnsubscribeMutation.isPending
+            }
             className="sm:flex-1 bg-green-600 hover:bg-green-700"
           >
             {markUnsubscribedMutation.isPending ? (
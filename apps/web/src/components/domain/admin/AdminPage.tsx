@@ -0,0 +1,328 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import { AlertCircle, Loader2, Lock, Mail, ShieldCheck, Trash2, Users } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  getAdminUsers,
+  updateAdminUser,
+  deleteAdminUser,
+  getLoginAllowlist,
+  updateLoginAllowlist,
+  type AdminUser,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+
+/**
+ * Split the allowlist textarea into entries (commas, spaces or newlines)
+ */
+function parseEntries(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Login allowlist editor - locked when set via env
+ */
+function AllowlistCard() {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.loginAllowlist,
+    queryFn: getLoginAllowlist,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (entries: string[]) => updateLoginAllowlist(entries),
+    onSuccess: (result) => {
+      queryClient.setQueryData(queryKeys.loginAllowlist, result)
+      setDraft(null)
+      toast.success(t('admin.allowlist.saved'))
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : t('admin.allowlist.error'))
+    },
+  })
+
+  const value = draft ?? data?.entries.join('\n') ?? ''
+  const isLocked = data?.isEditable === false
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Lock className="h-4 w-4 text-violet-500" />
+          <h2 className="font-medium">{t('admin.allowlist.title')}</h2>
+        </div>
+        <p className="text-sm text-muted-foreground">{t('admin.allowlist.description')}</p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-24 w-full" />
+      ) : (
+        <>
+          <Textarea
+            value={value}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('admin.allowlist.placeholder')}
+            disabled={isLocked}
+            rows={4}
+            className="font-mono text-sm"
+          />
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              {isLocked
+                ? t('admin.allowlist.envLocked')
+                : data?.entries.length === 0 && draft === null
+                  ? t('admin.allowlist.open')
+                  : null}
+            </p>
+            {!isLocked && (
+              <Button
+                size="sm"
+                disabled={draft === null || saveMutation.isPending}
+                onClick={() => saveMutation.mutate(parseEntries(value))}
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t('admin.allowlist.save')}
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+interface UserCardProps {
+  user: AdminUser
+  onDelete: (user: AdminUser) => void
+}
+
+function UserCard({ user, onDelete }: UserCardProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+
+  const updateMutation = useMutation({
+    mutationFn: (update: { disabled?: boolean; isAdmin?: boolean }) =>
+      updateAdminUser(user.id, update),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers })
+      toast.success(t('admin.users.updated'))
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : t('admin.users.error'))
+    },
+  })
+
+  const initial = (user.name || user.email)[0]?.toUpperCase() ?? '?'
+
+  return (
+    <div
+      className={`rounded-lg border bg-card p-4 space-y-3 ${user.isDisabled ? 'opacity-60' : ''}`}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <Avatar className="h-10 w-10">
+            <AvatarImage src={user.picture ?? undefined} alt={user.name ?? user.email} />
+            <AvatarFallback className="bg-primary/10 text-primary text-sm">
+              {initial}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium truncate">{user.name || user.email}</span>
+              {user.isCurrentUser && <Badge variant="outline">{t('admin.users.you')}</Badge>}
+              {user.isAdmin && (
+                <Badge variant="secondary" className="gap-1">
+                  <ShieldCheck className="h-3 w-3" />
+                  {t('admin.users.admin')}
+                </Badge>
+              )}
+              {user.isDisabled && <Badge variant="destructive">{t('admin.users.disabled')}</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground truncate">
+              {user.email}
+              {user.createdAt &&
+                ` · ${t('admin.users.joined').replace(
+                  '{date}',
+                  formatDistanceToNow(new Date(user.createdAt), { addSuffix: true })
+                )}`}
+              {` · ${t('admin.users.sessions').replace('{count}', String(user.activeSessions))}`}
+            </p>
+          </div>
+        </div>
+
+        {!user.isCurrentUser && (
+          <div className="flex items-center gap-4 shrink-0">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`admin-${user.id}`}
+                checked={user.isAdmin}
+                disabled={updateMutation.isPending}
+                onCheckedChange={(isAdmin) => updateMutation.mutate({ isAdmin })}
+              />
+              <Label htmlFor={`admin-${user.id}`} className="text-sm font-normal">
+                {t('admin.users.admin')}
+              </Label>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={updateMutation.isPending}
+              onClick={() => updateMutation.mutate({ disabled: !user.isDisabled })}
+            >
+              {user.isDisabled ? t('admin.users.enable') : t('admin.users.disable')}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-red-500 hover:text-red-500 hover:bg-red-500/10"
+              onClick={() => onDelete(user)}
+              aria-label={t('admin.users.delete')}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {user.mailAccounts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('admin.users.noAccounts')}</p>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {user.mailAccounts.map((account) => (
+            <Badge
+              key={account.id}
+              variant="secondary"
+              className="gap-1 font-normal"
+              title={account.syncStatus}
+            >
+              <Mail className="h-3 w-3" />
+              {account.email}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Instance administration - login allowlist and user management
+ */
+export function AdminPage() {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [userToDelete, setUserToDelete] = useState<AdminUser | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.adminUsers,
+    queryFn: getAdminUsers,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (userId: string) => deleteAdminUser(userId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.adminUsers })
+      toast.success(t('admin.users.delete.success'))
+      setUserToDelete(null)
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('admin.users.error'))
+    },
+  })
+
+  const users = data?.users ?? []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{t('admin.title')}</h1>
+        <p className="text-muted-foreground">{t('admin.description')}</p>
+      </div>
+
+      <AllowlistCard />
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Users className="h-4 w-4 text-violet-500" />
+          <h2 className="font-medium">{t('admin.users.title')}</h2>
+          {!isLoading && (
+            <span className="text-sm text-muted-foreground">
+              {t('admin.users.count').replace('{count}', users.length.toLocaleString())}
+            </span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-28 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{(error as Error).message}</AlertDescription>
+          </Alert>
+        ) : (
+          users.map((user) => <UserCard key={user.id} user={user} onDelete={setUserToDelete} />)
+        )}
+      </div>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!userToDelete} onOpenChange={() => setUserToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('admin.users.delete')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('admin.users.delete.description').replace('{email}', userToDelete?.email ?? '')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => userToDelete && deleteMutation.mutate(userToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {t('common.deleting')}
+                </>
+              ) : (
+                t('common.delete')
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -52,6 +52,7 @@ import {
   MessageSquare,
   Plus,
   Trash2,
+  Archive,
   Wand2,
   ChevronDown,
   History,
@@ -261,7 +262,7 @@ interface PendingActionConfirmation {
   id: string
   toolCallId: string // Track which tool call this is for
   toolName: string // The actual tool name from the AI
-  action: 'delete' | 'trash' | 'createFilter'
+  action: 'delete' | 'trash' | 'archive' | 'createFilter'
   count?: number
   totalSize?: number
   totalSizeFormatted?: string
@@ -466,7 +467,7 @@ export function ChatPage({
                 id: `action-restored-${Date.now()}`,
                 toolCallId: ap.toolCallId,
                 toolName: ap.toolName,
-                action: data.action as 'delete' | 'trash' | 'createFilter',
+                action: data.action as 'delete' | 'trash' | 'archive' | 'createFilter',
                 count: data.count as number | undefined,
                 totalSize: data.totalSize as number | undefined,
                 totalSizeFormatted: data.totalSizeFormatted as string | undefined,
@@ -1324,6 +1325,10 @@ export function ChatPage({
                                         icon: Trash,
                                         keyPrefix: 'bishop.cot.trashEmails',
                                       },
+                                      archiveEmails: {
+                                        icon: Archive,
+                                        keyPrefix: 'bishop.cot.archiveEmails',
+                                      },
                                       deleteEmails: {
                                         icon: Trash2,
                                         keyPrefix: 'bishop.cot.deleteEmails',
@@ -1376,6 +1381,9 @@ export function ChatPage({
                                     if (args?.senderEmail) badges.push(`email:${args.senderEmail}`)
                                     if (args?.senderDomain)
                                       badges.push(`domain:${args.senderDomain}`)
+                                    if (args?.toEmail) badges.push(`to:${args.toEmail}`)
+                                    if (args?.toDomain) badges.push(`to:@${args.toDomain}`)
+                                    if (args?.listId) badges.push(`list:${args.listId}`)
                                     if (args?.category)
                                       badges.push(
                                         String(args.category).replace('CATEGORY_', '').toLowerCase()
@@ -1509,6 +1517,7 @@ export function ChatPage({
                         'rounded-xl border p-5 space-y-5 bg-card',
                         pendingActionConfirmation.action === 'delete' && 'border-destructive/30',
                         pendingActionConfirmation.action === 'trash' && 'border-orange-500/30',
+                        pendingActionConfirmation.action === 'archive' && 'border-sky-500/30',
                         pendingActionConfirmation.action === 'createFilter' && 'border-blue-500/30'
                       )}
                     >
@@ -1519,6 +1528,7 @@ export function ChatPage({
                             'flex h-9 w-9 items-center justify-center rounded-lg',
                             pendingActionConfirmation.action === 'delete' && 'bg-destructive/10',
                             pendingActionConfirmation.action === 'trash' && 'bg-orange-500/10',
+                            pendingActionConfirmation.action === 'archive' && 'bg-sky-500/10',
                             pendingActionConfirmation.action === 'createFilter' && 'bg-blue-500/10'
                           )}
                         >
@@ -1528,6 +1538,9 @@ export function ChatPage({
                           {pendingActionConfirmation.action === 'trash' && (
                             <Trash className="h-4 w-4 text-orange-500" />
                           )}
+                          {pendingActionConfirmation.action === 'archive' && (
+                            <Archive className="h-4 w-4 text-sky-500" />
+                          )}
                           {pendingActionConfirmation.action === 'createFilter' && (
                             <Filter className="h-4 w-4 text-blue-500" />
                           )}
@@ -1537,14 +1550,17 @@ export function ChatPage({
                             t('bishop.confirm.delete.title')}
                           {pendingActionConfirmation.action === 'trash' &&
                             t('bishop.confirm.trash.title')}
+                          {pendingActionConfirmation.action === 'archive' &&
+                            t('bishop.confirm.archive.title')}
                           {pendingActionConfirmation.action === 'createFilter' &&
                             t('bishop.confirm.filter.title')}
                         </span>
                       </div>
 
-                      {/* Stats for delete/trash - Compact inline display */}
+                      {/* Stats for delete/trash/archive - Compact inline display */}
                       {(pendingActionConfirmation.action === 'delete' ||
-                        pendingActionConfirmation.action === 'trash') && (
+                        pendingActionConfirmation.action === 'trash' ||
+                        pendingActionConfirmation.action === 'archive') && (
                         <div className="flex items-center gap-6">
                           <div className="flex items-baseline gap-2">
                             <span className="text-3xl font-bold tabular-nums">
@@ -1554,15 +1570,20 @@ export function ChatPage({
                               {t('bishop.confirm.emails')}
                             </span>
                           </div>
-                          <div className="w-px h-8 bg-border" />
-                          <div className="flex items-baseline gap-2">
-                            <span className="text-3xl font-bold tabular-nums">
-                              {pendingActionConfirmation.totalSizeFormatted || '0 B'}
-                            </span>
-                            <span className="text-sm text-muted-foreground">
-                              {t('bishop.confirm.storage')}
-                            </span>
-                          </div>
+                          {/* Archiving frees no storage */}
+                          {pendingActionConfirmation.action !== 'archive' && (
+                            <>
+                              <div className="w-px h-8 bg-border" />
+                              <div className="flex items-baseline gap-2">
+                                <span className="text-3xl font-bold tabular-nums">
+                                  {pendingActionConfirmation.totalSizeFormatted || '0 B'}
+                                </span>
+                                <span className="text-sm text-muted-foreground">
+                                  {t('bishop.confirm.storage')}
+                                </span>
+                              </div>
+                            </>
+                          )}
                         </div>
                       )}
 
@@ -1602,6 +1623,8 @@ export function ChatPage({
                           pendingActionConfirmation.action === 'delete' && 'text-destructive/80',
                           pendingActionConfirmation.action === 'trash' &&
                             'text-orange-600/80 dark:text-orange-400/80',
+                          pendingActionConfirmation.action === 'archive' &&
+                            'text-sky-600/80 dark:text-sky-400/80',
                           pendingActionConfirmation.action === 'createFilter' &&
                             'text-blue-600/80 dark:text-blue-400/80'
                         )}
@@ -1629,6 +1652,8 @@ export function ChatPage({
                             'flex-1',
                             pendingActionConfirmation.action === 'trash' &&
                               'bg-orange-500 hover:bg-orange-600 text-white',
+                            pendingActionConfirmation.action === 'archive' &&
+                              'bg-sky-500 hover:bg-sky-600 text-white',
                             pendingActionConfirmation.action === 'createFilter' &&
                               'bg-blue-500 hover:bg-blue-600 text-white'
                           )}
@@ -1643,6 +1668,8 @@ export function ChatPage({
                                 t('bishop.confirm.delete')}
                               {pendingActionConfirmation.action === 'trash' &&
                                 t('bishop.confirm.trash')}
+                              {pendingActionConfirmation.action === 'archive' &&
+                                t('bishop.confirm.archive')}
                               {pendingActionConfirmation.action === 'createFilter' &&
                                 t('bishop.confirm.createFilter')}
                             </>
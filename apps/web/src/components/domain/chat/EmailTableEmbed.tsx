@@ -15,6 +15,7 @@ import { Badge } from '@/components/ui/badge'
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
 import {
   AlertTriangle,
+  AtSign,
   Calendar,
   ChevronRight,
   HardDrive,
@@ -84,6 +85,22 @@ function FilterBadges({ filters }: { filters: ExplorerFilters }) {
     })
   }
 
+  // Recipient and mailing list filters
+  if (filters.toEmail || filters.toDomain) {
+    const recipients = [
+      ...(filters.toEmail?.split(',') ?? []),
+      ...(filters.toDomain?.split(',').map((d) => `@${d}`) ?? []),
+    ]
+    badges.push({
+      label: 'To',
+      value: recipients.length > 1 ? `${recipients.length} recipients` : recipients[0],
+      icon: <AtSign className="h-3 w-3" />,
+    })
+  }
+  if (filters.listId) {
+    badges.push({ label: 'List', value: filters.listId })
+  }
+
   // Category
   if (filters.category) {
     badges.push({
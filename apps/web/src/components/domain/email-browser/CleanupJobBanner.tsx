@@ -0,0 +1,98 @@
+import { Loader2, Pause, PlayCircle, X, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { CleanupJobProgress } from '@/lib/api'
+import { useLanguage } from '@/hooks/useLanguage'
+
+interface CleanupJobBannerProps {
+  job: CleanupJobProgress | null
+  onPause: () => void
+  onResume: () => void
+  onCancel: () => void
+  onDismiss: () => void
+}
+
+/**
+ * Progress of a background trash/delete/archive job with pause/resume/cancel controls
+ */
+export function CleanupJobBanner({
+  job,
+  onPause,
+  onResume,
+  onCancel,
+  onDismiss,
+}: CleanupJobBannerProps) {
+  const { t } = useLanguage()
+
+  if (!job || job.status === 'completed' || job.status === 'cancelled') {
+    return null
+  }
+
+  const isActive = job.status === 'running' || job.status === 'pending'
+  const isPaused = job.status === 'paused'
+  const isFailed = job.status === 'failed'
+
+  const getTitle = () => {
+    if (isFailed) return t('explorer.job.failed')
+    if (isPaused) return t('explorer.job.paused')
+    if (job.type === 'delete') return t('explorer.job.deleting')
+    if (job.type === 'archive') return t('explorer.job.archiving')
+    return t('explorer.job.trashing')
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card px-4 py-3 space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2 min-w-0">
+          {isActive && <Loader2 className="h-4 w-4 animate-spin text-violet-500 shrink-0" />}
+          {isPaused && <Pause className="h-4 w-4 text-muted-foreground shrink-0" />}
+          {isFailed && <AlertCircle className="h-4 w-4 text-red-500 shrink-0" />}
+          <span className="text-sm font-medium">{getTitle()}</span>
+          <span className="text-sm text-muted-foreground tabular-nums truncate">
+            {t('explorer.job.progress')
+              .replace('{processed}', job.processed.toLocaleString())
+              .replace('{total}', job.total.toLocaleString())}
+            {isActive && job.eta && ` · ${job.eta}`}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          {isActive && (
+            <Button variant="outline" size="sm" className="h-7" onClick={onPause}>
+              <Pause className="h-3.5 w-3.5 mr-1.5" />
+              {t('explorer.job.pause')}
+            </Button>
+          )}
+          {(isPaused || isFailed) && (
+            <Button variant="outline" size="sm" className="h-7" onClick={onResume}>
+              <PlayCircle className="h-3.5 w-3.5 mr-1.5" />
+              {t('explorer.job.resume')}
+            </Button>
+          )}
+          {isFailed ? (
+            <Button variant="ghost" size="sm" className="h-7" onClick={onDismiss}>
+              {t('explorer.job.dismiss')}
+            </Button>
+          ) : (
+            <Button variant="ghost" size="sm" className="h-7" onClick={onCancel}>
+              <X className="h-3.5 w-3.5 mr-1.5" />
+              {t('explorer.job.cancel')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="relative h-1.5 bg-muted rounded-full overflow-hidden">
+        <div
+          className={`absolute inset-y-0 left-0 rounded-full transition-all duration-500 ease-out ${
+            isFailed ? 'bg-red-500' : 'bg-violet-500'
+          }`}
+          style={{ width: `${job.percentage}%` }}
+        />
+      </div>
+
+      {isFailed && job.message && (
+        <p className="text-sm text-red-600 dark:text-red-400">{job.message}</p>
+      )}
+    </div>
+  )
+}
@@ -1,24 +1,30 @@
-import { Trash2, Loader2, AlertTriangle } from 'lucide-react'
+import { Trash2, Loader2, AlertTriangle, Archive } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useLanguage } from '@/hooks/useLanguage'
 
 interface EmailActionButtonsProps {
   selectedCount: number
   nonTrashedCount: number
+  inboxCount: number
   isActionLoading: boolean
   isTrashing: boolean
+  isArchiving: boolean
   isDeleting: boolean
   onTrash: () => void
+  onArchive: () => void
   onDelete: () => void
 }
 
 export function EmailActionButtons({
   selectedCount,
   nonTrashedCount,
+  inboxCount,
   isActionLoading,
   isTrashing,
+  isArchiving,
   isDeleting,
   onTrash,
+  onArchive,
   onDelete,
 }: EmailActionButtonsProps) {
   const { t } = useLanguage()
@@ -29,6 +35,17 @@ export function EmailActionButtons({
 
   return (
     <div className="flex items-center gap-2">
+      {/* Only show Archive button if there are inbox emails selected */}
+      {inboxCount > 0 && (
+        <Button variant="secondary" size="sm" onClick={onArchive} disabled={isActionLoading}>
+          {isArchiving ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Archive className="h-4 w-4 mr-2" />
+          )}
+          {t('emailActions.archive')} {inboxCount.toLocaleString()}
+        </Button>
+      )}
       {/* Only show Trash button if there are non-trashed emails selected */}
       {nonTrashedCount > 0 && (
         <Button variant="secondary" size="sm" onClick={onTrash} disabled={isActionLoading}>
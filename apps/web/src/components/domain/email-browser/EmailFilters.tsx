@@ -19,6 +19,8 @@ import {
   Search,
   X,
   Inbox,
+  AtSign,
+  Newspaper,
   Tag,
   Tags,
   HardDrive,
@@ -34,6 +36,33 @@ import {
 import { cn } from '@/lib/utils'
 import { useLanguage } from '@/hooks/useLanguage'
 
+// Recipient input <-> filters: "@domain" entries are domains, everything else is an address
+function formatRecipients(toEmail?: string, toDomain?: string): string {
+  return [
+    ...(toEmail ? toEmail.split(',').map((e) => e.trim()) : []),
+    ...(toDomain ? toDomain.split(',').map((d) => `@${d.trim()}`) : []),
+  ].join(', ')
+}
+
+function parseRecipients(input: string): { toEmail?: string; toDomain?: string } {
+  const emails: string[] = []
+  const domains: string[] = []
+  for (const entry of input.split(',').map((e) => e.trim().toLowerCase())) {
+    if (!entry) continue
+    if (entry.startsWith('@')) {
+      domains.push(entry.slice(1))
+    } else if (entry.includes('@')) {
+      emails.push(entry)
+    } else {
+      domains.push(entry)
+    }
+  }
+  return {
+    toEmail: emails.length > 0 ? emails.join(',') : undefined,
+    toDomain: domains.length > 0 ? domains.join(',') : undefined,
+  }
+}
+
 // Date preset definitions
 type DatePreset =
   | 'any'
@@ -122,6 +151,10 @@ export function EmailFilters({
 
   // Local state for search input (applied on button click or Enter)
   const [searchInput, setSearchInput] = useState(filters.search || '')
+  const [recipientInput, setRecipientInput] = useState(
+    formatRecipients(filters.toEmail, filters.toDomain)
+  )
+  const [listIdInput, setListIdInput] = useState(filters.listId || '')
 
   // Sender multi-select state
   // Selected values are prefixed: "domain:" for domains, "email:" for emails
@@ -161,6 +194,8 @@ export function EmailFilters({
   // Sync local state when filters change externally
   useEffect(() => {
     setSearchInput(filters.search || '')
+    setRecipientInput(formatRecipients(filters.toEmail, filters.toDomain))
+    setListIdInput(filters.listId || '')
     // Rebuild selected values from filters (supports multiple domains)
     const values: string[] = []
     if (filters.senderDomain) {
@@ -181,7 +216,14 @@ export function EmailFilters({
         })
     }
     setSelectedSenderValues(values)
-  }, [filters.search, filters.senderEmail, filters.senderDomain])
+  }, [
+    filters.search,
+    filters.senderEmail,
+    filters.senderDomain,
+    filters.toEmail,
+    filters.toDomain,
+    filters.listId,
+  ])
 
   // Fetch sender suggestions for the dropdown
   useEffect(() => {
@@ -227,8 +269,18 @@ export function EmailFilters({
       senderDomain: domains.length > 0 ? domains.join(',') : undefined,
       // Use senderEmail for exact email matches from multi-select
       senderEmail: emails.length > 0 ? emails.join(',') : undefined,
+      ...parseRecipients(recipientInput),
+      listId: listIdInput.trim() || undefined,
     })
-  }, [filters, onFiltersChange, searchInput, selectedSenderValues, parseSenderSelections])
+  }, [
+    filters,
+    onFiltersChange,
+    searchInput,
+    selectedSenderValues,
+    parseSenderSelections,
+    recipientInput,
+    listIdInput,
+  ])
 
   // Handle Enter key on search
   const handleSearchKeyDown = useCallback(
@@ -240,12 +292,14 @@ export function EmailFilters({
     [handleSearch]
   )
 
-  // Clear all filters - reset to Inbox (default state)
+  // Clear all filters - reset to Inbox (default state), keeping the thread view
   const clearFilters = useCallback(() => {
-    onFiltersChange({ isTrash: false, isSpam: false })
+    onFiltersChange({ isTrash: false, isSpam: false, threadMatch: filters.threadMatch })
     setSearchInput('')
+    setRecipientInput('')
+    setListIdInput('')
     setSelectedSenderValues([])
-  }, [onFiltersChange])
+  }, [onFiltersChange, filters.threadMatch])
 
   // Update a single filter
   const updateFilter = useCallback(
@@ -268,6 +322,9 @@ export function EmailFilters({
       !!filters.sender ||
       !!filters.senderEmail ||
       !!filters.senderDomain ||
+      !!filters.toEmail ||
+      !!filters.toDomain ||
+      !!filters.listId ||
       !!filters.category ||
       !!filters.search ||
       !!filters.labelIds ||
@@ -398,6 +455,32 @@ export function EmailFilters({
         </Button>
       </div>
 
+      {/* Recipient & Mailing List Row (applied with Search) */}
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <AtSign className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={t('explorer.filterByRecipient')}
+            value={recipientInput}
+            onChange={(e) => setRecipientInput(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            className="pl-9"
+            disabled={disabled}
+          />
+        </div>
+        <div className="relative flex-1">
+          <Newspaper className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder={t('explorer.filterByList')}
+            value={listIdInput}
+            onChange={(e) => setListIdInput(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            className="pl-9"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
       {/* Filter Row - 5 items */}
       <div className="flex items-center gap-3">
         {/* Category */}
@@ -673,8 +756,19 @@ export function EmailFilters({
 
         {/* Sort */}
         <Select
-          value={`${filters.sortBy || 'date'}-${filters.sortOrder || 'desc'}`}
+          value={
+            filters.sortBy
+              ? `${filters.sortBy}-${filters.sortOrder || 'desc'}`
+              : filters.search
+                ? 'relevance'
+                : 'date-desc'
+          }
           onValueChange={(v) => {
+            // Searches without an explicit sort are ranked by relevance
+            if (v === 'relevance') {
+              onFiltersChange({ ...filters, sortBy: undefined, sortOrder: undefined })
+              return
+            }
             const [sortBy, sortOrder] = v.split('-') as ['date' | 'size', 'asc' | 'desc']
             onFiltersChange({ ...filters, sortBy, sortOrder })
           }}
@@ -685,6 +779,7 @@ export function EmailFilters({
             <SelectValue placeholder="Sort" />
           </SelectTrigger>
           <SelectContent>
+            {filters.search && <SelectItem value="relevance">Best Match</SelectItem>}
             <SelectItem value="date-desc">Newest First</SelectItem>
             <SelectItem value="date-asc">Oldest First</SelectItem>
             <SelectItem value="size-desc">Largest First</SelectItem>
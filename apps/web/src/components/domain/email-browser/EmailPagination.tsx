@@ -8,6 +8,8 @@ interface EmailPaginationProps {
   page: number
   onPageChange: (page: number) => void
   isLoading?: boolean
+  /** Counted rows are threads rather than emails */
+  isThreadView?: boolean
 }
 
 export function EmailPagination({
@@ -15,6 +17,7 @@ export function EmailPagination({
   page,
   onPageChange,
   isLoading = false,
+  isThreadView = false,
 }: EmailPaginationProps) {
   const { t } = useLanguage()
 
@@ -27,7 +30,8 @@ export function EmailPagination({
           <>
             {t('explorer.showing')} {(page - 1) * pagination.limit + 1} -{' '}
             {Math.min(page * pagination.limit, pagination.total)} {t('explorer.of')}{' '}
-            {pagination.total.toLocaleString()} {t('explorer.emails')}
+            {pagination.total.toLocaleString()}{' '}
+            {isThreadView ? t('explorer.threads') : t('explorer.emails')}
           </>
         ) : (
           t('explorer.noEmails')
@@ -1,4 +1,4 @@
-/* eslint-disable react-refresh/only-export-components -- formatBytes utility is intentionally exported alongside EmailTable for use by other components */
+/* eslint-disable react-refresh/only-export-components -- formatBytes/formatDate/getCategoryInfo utilities are intentionally exported alongside EmailTable for use by other components */
 import { useMemo } from 'react'
 import {
   useReactTable,
@@ -495,4 +495,4 @@ export function EmailTable({
   )
 }
 
-export { formatBytes }
+export { formatBytes, formatDate, getCategoryInfo }
@@ -0,0 +1,268 @@
+import {
+  useReactTable,
+  getCoreRowModel,
+  flexRender,
+  createColumnHelper,
+  type RowSelectionState,
+  type OnChangeFn,
+} from '@tanstack/react-table'
+import type { ThreadRecord } from '@/lib/api'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { AlertTriangle, MessagesSquare, Paperclip, Star } from 'lucide-react'
+import { useLanguage } from '@/hooks/useLanguage'
+import { formatBytes, formatDate, getCategoryInfo } from './EmailTable'
+
+interface ThreadTableProps {
+  threads: ThreadRecord[]
+  isLoading: boolean
+  error: string | null
+  rowSelection: RowSelectionState
+  onRowSelectionChange: OnChangeFn<RowSelectionState>
+  hasActiveFilters?: boolean
+  onClearFilters?: () => void
+}
+
+// Show at most this many participant names before "+N"
+const MAX_PARTICIPANTS = 3
+
+function formatParticipants(participants: ThreadRecord['participants']): string {
+  const names = participants.map((p) => p.name || p.email)
+  if (names.length <= MAX_PARTICIPANTS) {
+    return names.join(', ')
+  }
+  return `${names.slice(0, MAX_PARTICIPANTS).join(', ')} +${names.length - MAX_PARTICIPANTS}`
+}
+
+const columnHelper = createColumnHelper<ThreadRecord>()
+
+const columns = [
+  {
+    id: 'select',
+    header: ({ table }: { table: ReturnType<typeof useReactTable<ThreadRecord>> }) => (
+      <Checkbox
+        checked={
+          table.getIsAllPageRowsSelected() || (table.getIsSomePageRowsSelected() && 'indeterminate')
+        }
+        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+        aria-label="Select all"
+      />
+    ),
+    cell: ({
+      row,
+    }: {
+      row: { getIsSelected: () => boolean; toggleSelected: (value: boolean) => void }
+    }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        aria-label="Select row"
+      />
+    ),
+    size: 40,
+  },
+  columnHelper.accessor('participants', {
+    header: 'Participants',
+    cell: ({ row }) => {
+      const thread = row.original
+      return (
+        <div className="flex items-center gap-2 min-w-0 overflow-hidden">
+          <p
+            className={`truncate text-sm flex-1 ${thread.is_unread === 1 ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}
+            title={thread.participants.map((p) => p.email).join(', ')}
+          >
+            {formatParticipants(thread.participants)}
+          </p>
+          <div className="flex items-center gap-1 shrink-0">
+            {thread.is_starred === 1 && (
+              <Star className="h-3.5 w-3.5 text-yellow-500 fill-yellow-500" />
+            )}
+            {thread.has_attachments > 0 && (
+              <Paperclip className="h-3.5 w-3.5 text-muted-foreground" />
+            )}
+            {thread.message_count > 1 && (
+              <Badge variant="secondary" className="text-xs px-1.5 py-0 h-5 tabular-nums">
+                {thread.message_count}
+              </Badge>
+            )}
+          </div>
+        </div>
+      )
+    },
+    size: 240,
+  }),
+  columnHelper.accessor('subject', {
+    header: 'Subject',
+    cell: ({ row }) => {
+      const thread = row.original
+      return (
+        <div className="min-w-0 overflow-hidden">
+          <p
+            className={`truncate text-sm ${thread.is_unread === 1 ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}
+          >
+            {thread.subject || '(No subject)'}
+          </p>
+          {thread.snippet && (
+            <p className="text-xs text-muted-foreground truncate">{thread.snippet}</p>
+          )}
+        </div>
+      )
+    },
+  }),
+  columnHelper.accessor('category', {
+    header: 'Category',
+    cell: ({ getValue }) => {
+      const categoryInfo = getCategoryInfo(getValue())
+      return (
+        <Badge variant="secondary" className={`text-xs whitespace-nowrap ${categoryInfo.color}`}>
+          {categoryInfo.label}
+        </Badge>
+      )
+    },
+    size: 110,
+  }),
+  columnHelper.accessor('total_size', {
+    header: 'Size',
+    cell: ({ getValue }) => (
+      <span className="text-sm text-muted-foreground whitespace-nowrap">
+        {formatBytes(getValue())}
+      </span>
+    ),
+    size: 80,
+  }),
+  columnHelper.accessor('latest_date', {
+    header: () => <div className="text-right">Latest</div>,
+    cell: ({ getValue }) => (
+      <div className="text-sm text-muted-foreground text-right whitespace-nowrap">
+        {formatDate(getValue())}
+      </div>
+    ),
+    size: 100,
+  }),
+]
+
+/**
+ * Explorer table in thread view - one row per conversation, selected by thread_id
+ */
+export function ThreadTable({
+  threads,
+  isLoading,
+  error,
+  rowSelection,
+  onRowSelectionChange,
+  hasActiveFilters = false,
+  onClearFilters,
+}: ThreadTableProps) {
+  const { t } = useLanguage()
+
+  // eslint-disable-next-line react-hooks/incompatible-library -- table state lives in the parent (rowSelection)
+  const table = useReactTable({
+    data: threads,
+    columns,
+    state: { rowSelection },
+    enableRowSelection: true,
+    onRowSelectionChange,
+    getCoreRowModel: getCoreRowModel(),
+    getRowId: (row) => row.thread_id,
+  })
+
+  const { rows } = table.getRowModel()
+
+  return (
+    <div className="rounded-lg border bg-card">
+      {error && error !== 'Sync not complete' ? (
+        <div className="p-8 text-center text-red-500">
+          <AlertTriangle className="h-8 w-8 mx-auto mb-2" />
+          <p>{error}</p>
+        </div>
+      ) : isLoading ? (
+        <div className="p-4 space-y-3">
+          {Array.from({ length: 10 }).map((_, i) => (
+            <div key={i} className="flex items-center gap-4">
+              <Skeleton className="h-4 w-4" />
+              <Skeleton className="h-10 w-56" />
+              <Skeleton className="h-10 flex-1" />
+              <Skeleton className="h-6 w-20" />
+              <Skeleton className="h-4 w-16" />
+              <Skeleton className="h-4 w-20" />
+            </div>
+          ))}
+        </div>
+      ) : threads.length === 0 ? (
+        <div className="p-12 text-center">
+          <MessagesSquare className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+          <p className="text-muted-foreground">{t('explorer.noThreads')}</p>
+          <p className="text-sm text-muted-foreground/70">{t('explorer.noEmails.description')}</p>
+          {hasActiveFilters && onClearFilters && (
+            <Button variant="link" onClick={onClearFilters} className="mt-2">
+              {t('explorer.clearAll')}
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Table className="table-fixed w-full">
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => {
+                  const isFlexColumn = header.column.id === 'subject'
+                  return (
+                    <TableHead
+                      key={header.id}
+                      style={isFlexColumn ? undefined : { width: header.getSize() }}
+                      className={isFlexColumn ? 'w-auto' : undefined}
+                    >
+                      {header.isPlaceholder
+                        ? null
+                        : flexRender(header.column.columnDef.header, header.getContext())}
+                    </TableHead>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow
+                key={row.id}
+                data-state={row.getIsSelected() ? 'selected' : undefined}
+                className="cursor-pointer hover:bg-muted/50"
+                onClick={(e) => {
+                  // Clicking a thread toggles its selection (the checkbox handles itself)
+                  const target = e.target as HTMLElement
+                  if (target.closest('button') || target.closest('a')) {
+                    return
+                  }
+                  row.toggleSelected()
+                }}
+              >
+                {row.getVisibleCells().map((cell) => {
+                  const isFlexColumn = cell.column.id === 'subject'
+                  return (
+                    <TableCell
+                      key={cell.id}
+                      style={isFlexColumn ? undefined : { width: cell.column.getSize() }}
+                      className={`overflow-hidden ${isFlexColumn ? 'w-auto' : ''}`}
+                    >
+                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                    </TableCell>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
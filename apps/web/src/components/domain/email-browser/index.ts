@@ -1,8 +1,10 @@
 export { EmailFilters } from './EmailFilters'
 export { EmailTable, formatBytes } from './EmailTable'
+export { ThreadTable } from './ThreadTable'
 export { EmailPagination } from './EmailPagination'
 export { StorageInfo } from './StorageInfo'
 export { EmailActionButtons } from './EmailActionButtons'
 export { DeleteConfirmDialog } from './DeleteConfirmDialog'
 export { SelectAllBanner } from './SelectAllBanner'
 export { EmailDrawer } from './EmailDrawer'
+export { CleanupJobBanner } from './CleanupJobBanner'
@@ -0,0 +1,224 @@
+import { useRef, useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { FileUp, Loader2, Tags } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  previewFilterImport,
+  importFilters,
+  type FilterImportEntry,
+  type FilterImportPreview,
+} from '@/lib/api'
+import { useLanguage } from '@/hooks/useLanguage'
+import { describeCriteria } from './filter-format'
+
+interface FilterImportDialogProps {
+  accountId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const STATUS_VARIANTS: Record<
+  FilterImportEntry['status'],
+  'default' | 'secondary' | 'destructive'
+> = {
+  new: 'default',
+  duplicate: 'secondary',
+  invalid: 'destructive',
+}
+
+export function FilterImportDialog({ accountId, open, onOpenChange }: FilterImportDialogProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const [xml, setXml] = useState<string | null>(null)
+  const [preview, setPreview] = useState<FilterImportPreview | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+
+  const reset = () => {
+    setXml(null)
+    setPreview(null)
+    setSelected(new Set())
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset()
+    onOpenChange(isOpen)
+  }
+
+  const previewMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const text = await file.text()
+      return { text, result: await previewFilterImport(accountId, text) }
+    },
+    onSuccess: ({ text, result }) => {
+      setXml(text)
+      setPreview(result)
+      setSelected(new Set(result.entries.filter((e) => e.status === 'new').map((e) => e.index)))
+    },
+    onError: (err) => {
+      reset()
+      toast.error(t('filterImport.error.read'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    },
+  })
+
+  const importMutation = useMutation({
+    mutationFn: () => importFilters(accountId, xml!, [...selected]),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['filters', accountId] })
+      queryClient.invalidateQueries({ queryKey: ['labels', accountId] })
+      toast.success(t('filterImport.success').replace('{count}', result.created.toString()))
+      if (result.failed > 0) {
+        toast.warning(t('filterImport.partial').replace('{failed}', result.failed.toString()))
+      }
+      handleOpenChange(false)
+    },
+    onError: (err) => {
+      toast.error(t('filterImport.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    },
+  })
+
+  const toggle = (index: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(index)
+      else next.delete(index)
+      return next
+    })
+  }
+
+  const counts = {
+    new: preview?.entries.filter((e) => e.status === 'new').length ?? 0,
+    duplicate: preview?.entries.filter((e) => e.status === 'duplicate').length ?? 0,
+    invalid: preview?.entries.filter((e) => e.status === 'invalid').length ?? 0,
+  }
+
+  // Only labels of the selected filters are created
+  const labelsToCreate = [
+    ...new Set(
+      (preview?.entries ?? []).filter((e) => selected.has(e.index)).flatMap((e) => e.missingLabels)
+    ),
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{t('filterImport.title')}</DialogTitle>
+          <DialogDescription>{t('filterImport.description')}</DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".xml,application/xml,text/xml"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) previewMutation.mutate(file)
+          }}
+        />
+
+        {!preview ? (
+          <div className="flex flex-col items-center justify-center py-10 border border-dashed rounded-lg">
+            <Button
+              variant="outline"
+              onClick={() => inputRef.current?.click()}
+              disabled={previewMutation.isPending}
+            >
+              {previewMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <FileUp className="h-4 w-4 mr-2" />
+              )}
+              {previewMutation.isPending ? t('filterImport.reading') : t('filterImport.choose')}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3 min-h-0 flex flex-col">
+            <p className="text-sm text-muted-foreground">
+              {t('filterImport.summary')
+                .replace('{new}', counts.new.toString())
+                .replace('{duplicate}', counts.duplicate.toString())
+                .replace('{invalid}', counts.invalid.toString())}
+            </p>
+
+            {labelsToCreate.length > 0 && (
+              <Alert>
+                <Tags className="h-4 w-4" />
+                <AlertDescription>
+                  {t('filterImport.missingLabels').replace('{labels}', labelsToCreate.join(', '))}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="overflow-y-auto min-h-0 border rounded-lg divide-y">
+              {preview.entries.map((entry) => (
+                <label
+                  key={entry.index}
+                  className={`flex items-start gap-3 p-3 ${entry.status === 'new' ? 'cursor-pointer' : 'opacity-60'}`}
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selected.has(entry.index)}
+                    disabled={entry.status !== 'new'}
+                    onCheckedChange={(checked) => toggle(entry.index, checked === true)}
+                  />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-sm truncate">{describeCriteria(entry.criteria)}</p>
+                    {entry.labelNames.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('filterImport.labels').replace('{labels}', entry.labelNames.join(', '))}
+                      </p>
+                    )}
+                    {entry.reason && (
+                      <p className="text-xs text-muted-foreground">{entry.reason}</p>
+                    )}
+                  </div>
+                  <Badge variant={STATUS_VARIANTS[entry.status]} className="shrink-0">
+                    {t(`filterImport.status.${entry.status}`)}
+                  </Badge>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {preview && (
+            <Button variant="ghost" className="mr-auto" onClick={reset}>
+              {t('filterImport.chooseAnother')}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={!preview || selected.size === 0 || importMutation.isPending}
+          >
+            {importMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('filterImport.submit').replace('{count}', selected.size.toString())}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
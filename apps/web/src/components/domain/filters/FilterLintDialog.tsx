@@ -0,0 +1,207 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, CheckCircle2, Info, Loader2, Wrench } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  getFilters,
+  lintFilters,
+  applyFilterLintFix,
+  type FilterLintFinding,
+  type FilterLintType,
+} from '@/lib/api'
+import { useLanguage } from '@/hooks/useLanguage'
+import { describeCriteria } from './filter-format'
+
+interface FilterLintDialogProps {
+  accountId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const MONTH_OPTIONS = [3, 6, 12, 24]
+
+const TYPE_VARIANTS: Record<FilterLintType, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  duplicate: 'secondary',
+  mergeable: 'secondary',
+  shadowed: 'secondary',
+  conflict: 'destructive',
+  'missing-label': 'destructive',
+  dead: 'outline',
+}
+
+export function FilterLintDialog({ accountId, open, onOpenChange }: FilterLintDialogProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [months, setMonths] = useState(6)
+  const [fixingId, setFixingId] = useState<string | null>(null)
+
+  const { data: filtersData } = useQuery({
+    queryKey: ['filters', accountId],
+    queryFn: () => getFilters(accountId),
+    enabled: open,
+  })
+
+  const { data, isLoading, isFetching, error } = useQuery({
+    queryKey: ['filterLint', accountId, months],
+    queryFn: () => lintFilters(accountId, months),
+    enabled: open,
+  })
+
+  const filtersById = new Map((filtersData?.filters ?? []).map((f) => [f.id, f]))
+
+  const fixMutation = useMutation({
+    mutationFn: (finding: FilterLintFinding) => applyFilterLintFix(accountId, finding.id, months),
+    onMutate: (finding) => setFixingId(finding.id),
+    onSuccess: (result) => {
+      toast.success(result.message)
+    },
+    onError: (err) => {
+      toast.error(t('filterLint.error.fix'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    },
+    onSettled: () => {
+      setFixingId(null)
+      // A fix can change or resolve other findings too
+      queryClient.invalidateQueries({ queryKey: ['filters', accountId] })
+      queryClient.invalidateQueries({ queryKey: ['filterLint', accountId] })
+    },
+  })
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{t('filterLint.title')}</DialogTitle>
+          <DialogDescription>{t('filterLint.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            {data &&
+              t('filterLint.summary')
+                .replace('{findings}', data.findings.length.toString())
+                .replace('{filters}', data.filterCount.toString())}
+          </p>
+          <div className="flex items-center gap-2 shrink-0">
+            {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            <Select value={months.toString()} onValueChange={(v) => setMonths(Number(v))}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTH_OPTIONS.map((m) => (
+                  <SelectItem key={m} value={m.toString()}>
+                    {t('filterLint.months').replace('{months}', m.toString())}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {data && !data.deadCheck && (
+          <Alert>
+            <Info className="h-4 w-4" />
+            <AlertDescription>{t('filterLint.deadCheck.notSynced')}</AlertDescription>
+          </Alert>
+        )}
+        {data?.deadCheck && data.deadCheck.unsupported > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {t('filterLint.deadCheck.unsupported').replace(
+              '{count}',
+              data.deadCheck.unsupported.toString()
+            )}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-20 w-full" />
+            ))}
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {error instanceof Error ? error.message : t('filterLint.error.load')}
+            </AlertDescription>
+          </Alert>
+        ) : data && data.findings.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-10 text-center">
+            <CheckCircle2 className="h-10 w-10 text-green-500 mb-3" />
+            <p className="text-sm text-muted-foreground">{t('filterLint.empty')}</p>
+          </div>
+        ) : (
+          <div className="overflow-y-auto min-h-0 border rounded-lg divide-y">
+            {data?.findings.map((finding) => (
+              <div key={finding.id} className="flex items-start gap-3 p-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={TYPE_VARIANTS[finding.type]} className="shrink-0">
+                      {t(`filterLint.type.${finding.type}`)}
+                    </Badge>
+                    <p className="text-sm">{finding.message}</p>
+                  </div>
+                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                    {finding.filterIds.map((id) => {
+                      const filter = filtersById.get(id)
+                      return (
+                        <li key={id} className="truncate">
+                          {filter ? describeCriteria(filter.criteria) : id}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                  <p className="text-xs">
+                    {t('filterLint.fix').replace('{fix}', finding.fix.description)}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="shrink-0 gap-2"
+                  onClick={() => fixMutation.mutate(finding)}
+                  disabled={fixMutation.isPending}
+                >
+                  {fixingId === finding.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Wrench className="h-4 w-4" />
+                  )}
+                  {t('filterLint.apply')}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('filterLint.close')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
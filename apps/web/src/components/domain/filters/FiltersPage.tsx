@@ -1,21 +1,35 @@
 import { useState } from 'react'
 import { useNavigate } from '@tanstack/react-router'
-import { Filter, Tags, Plus } from 'lucide-react'
+import { Filter, Tags, Plus, Workflow, Download, Upload, ListChecks } from 'lucide-react'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Button } from '@/components/ui/button'
 import { FilterList } from './FilterList'
 import { LabelList } from './LabelList'
+import { MailRuleList } from './MailRuleList'
+import { FilterImportDialog } from './FilterImportDialog'
+import { FilterLintDialog } from './FilterLintDialog'
+import { getFiltersExportUrl } from '@/lib/api'
+import { useAppContext } from '@/routes/__root'
 import { useLanguage } from '@/hooks/useLanguage'
 
 interface FiltersPageProps {
   accountId: string
 }
 
+type FiltersTab = 'filters' | 'rules' | 'labels'
+
 export function FiltersPage({ accountId }: FiltersPageProps) {
   const { t } = useLanguage()
   const navigate = useNavigate()
-  const [activeTab, setActiveTab] = useState<'filters' | 'labels'>('filters')
+  const [activeTab, setActiveTab] = useState<FiltersTab>('filters')
   const [showCreateLabelDialog, setShowCreateLabelDialog] = useState(false)
+  const [showCreateRuleDialog, setShowCreateRuleDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [showLintDialog, setShowLintDialog] = useState(false)
+  const { selectedAccount } = useAppContext()
+
+  // mailFilters.xml and filter linting are Gmail only
+  const isGmail = selectedAccount?.provider === 'gmail'
 
   return (
     <div className="space-y-6">
@@ -28,13 +42,17 @@ export function FiltersPage({ accountId }: FiltersPageProps) {
       </div>
 
       {/* Tabs */}
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'filters' | 'labels')}>
+      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as FiltersTab)}>
         <div className="flex items-center justify-between">
           <TabsList>
             <TabsTrigger value="filters" className="gap-2">
               <Filter className="h-4 w-4" />
               {t('filters.tab.filters')}
             </TabsTrigger>
+            <TabsTrigger value="rules" className="gap-2">
+              <Workflow className="h-4 w-4" />
+              {t('filters.tab.rules')}
+            </TabsTrigger>
             <TabsTrigger value="labels" className="gap-2">
               <Tags className="h-4 w-4" />
               {t('filters.tab.labels')}
@@ -43,9 +61,42 @@ export function FiltersPage({ accountId }: FiltersPageProps) {
 
           {/* Create Button */}
           {activeTab === 'filters' ? (
-            <Button onClick={() => navigate({ to: '/filters/new' })} className="gap-2">
+            <div className="flex items-center gap-2">
+              {isGmail && (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowLintDialog(true)}
+                    className="gap-2"
+                  >
+                    <ListChecks className="h-4 w-4" />
+                    {t('filters.lint')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowImportDialog(true)}
+                    className="gap-2"
+                  >
+                    <Upload className="h-4 w-4" />
+                    {t('filters.import')}
+                  </Button>
+                  <Button variant="outline" asChild className="gap-2">
+                    <a href={getFiltersExportUrl(accountId)} download>
+                      <Download className="h-4 w-4" />
+                      {t('filters.export')}
+                    </a>
+                  </Button>
+                </>
+              )}
+              <Button onClick={() => navigate({ to: '/filters/new' })} className="gap-2">
+                <Plus className="h-4 w-4" />
+                {t('filters.createFilter')}
+              </Button>
+            </div>
+          ) : activeTab === 'rules' ? (
+            <Button onClick={() => setShowCreateRuleDialog(true)} className="gap-2">
               <Plus className="h-4 w-4" />
-              {t('filters.createFilter')}
+              {t('filters.createRule')}
             </Button>
           ) : (
             <Button onClick={() => setShowCreateLabelDialog(true)} className="gap-2">
@@ -57,6 +108,24 @@ export function FiltersPage({ accountId }: FiltersPageProps) {
 
         <TabsContent value="filters" className="mt-6">
           <FilterList accountId={accountId} />
+          <FilterImportDialog
+            accountId={accountId}
+            open={showImportDialog}
+            onOpenChange={setShowImportDialog}
+          />
+          <FilterLintDialog
+            accountId={accountId}
+            open={showLintDialog}
+            onOpenChange={setShowLintDialog}
+          />
+        </TabsContent>
+
+        <TabsContent value="rules" className="mt-6">
+          <MailRuleList
+            accountId={accountId}
+            showCreateDialog={showCreateRuleDialog}
+            onCreateDialogChange={setShowCreateRuleDialog}
+          />
         </TabsContent>
 
         <TabsContent value="labels" className="mt-6">
@@ -0,0 +1,388 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { MultiSelect } from '@/components/ui/multi-select'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  createMailRule,
+  updateMailRule,
+  getLabels,
+  type MailRule,
+  type MailRuleActions,
+  type MailRuleCriteria,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+import { getMirrorBlockers } from './mail-rule-format'
+
+interface MailRuleFormDialogProps {
+  accountId: string
+  /** Rule to edit, or null to create one */
+  rule: MailRule | null
+  /** Only Gmail accounts can mirror rules to filters */
+  canMirror: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+type TriState = 'any' | 'yes' | 'no'
+
+const MB = 1024 * 1024
+
+// System labels worth adding or removing besides user labels
+const SYSTEM_LABEL_OPTIONS = ['STARRED', 'IMPORTANT']
+
+function toTriState(value: boolean | undefined): TriState {
+  return value === undefined ? 'any' : value ? 'yes' : 'no'
+}
+
+function fromTriState(value: TriState): boolean | undefined {
+  return value === 'any' ? undefined : value === 'yes'
+}
+
+function toMb(bytes: number | undefined): string {
+  return bytes === undefined ? '' : String(Math.round((bytes / MB) * 100) / 100)
+}
+
+function fromMb(value: string): number | undefined {
+  const mb = parseFloat(value)
+  return value.trim() && Number.isFinite(mb) && mb >= 0 ? Math.round(mb * MB) : undefined
+}
+
+/**
+ * Create or edit a mail rule
+ *
+ * Render it only while open so the form starts from the rule every time.
+ */
+export function MailRuleFormDialog({
+  accountId,
+  rule,
+  canMirror,
+  onOpenChange,
+}: MailRuleFormDialogProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+
+  const criteria = rule?.criteria ?? {}
+  const actions = rule?.actions ?? {}
+
+  const [name, setName] = useState(rule?.name ?? '')
+  const [from, setFrom] = useState(criteria.from ?? '')
+  const [to, setTo] = useState(criteria.to ?? '')
+  const [subject, setSubject] = useState(criteria.subject ?? '')
+  const [olderThanDays, setOlderThanDays] = useState(criteria.olderThanDays?.toString() ?? '')
+  const [minSize, setMinSize] = useState(toMb(criteria.minSizeBytes))
+  const [maxSize, setMaxSize] = useState(toMb(criteria.maxSizeBytes))
+  const [unread, setUnread] = useState<TriState>(toTriState(criteria.isUnread))
+  const [attachments, setAttachments] = useState<TriState>(toTriState(criteria.hasAttachment))
+  const [notRepliedTo, setNotRepliedTo] = useState(criteria.notRepliedTo ?? false)
+  const [addLabelIds, setAddLabelIds] = useState<string[]>(actions.addLabelIds ?? [])
+  const [removeLabelIds, setRemoveLabelIds] = useState<string[]>(actions.removeLabelIds ?? [])
+  const [markRead, setMarkRead] = useState(actions.markRead ?? false)
+  const [archive, setArchive] = useState(actions.archive ?? false)
+  const [trash, setTrash] = useState(actions.trash ?? false)
+  const [mirror, setMirror] = useState(rule?.mirrorToProvider ?? false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data: labelsData } = useQuery({
+    queryKey: ['labels', accountId],
+    queryFn: () => getLabels(accountId),
+  })
+
+  const labelOptions = [
+    ...(labelsData?.userLabels ?? []),
+    ...(labelsData?.systemLabels ?? []).filter((label) => SYSTEM_LABEL_OPTIONS.includes(label.id)),
+  ].map((label) => ({ value: label.id, label: label.name }))
+
+  const days = olderThanDays.trim() ? parseInt(olderThanDays, 10) : undefined
+
+  const ruleCriteria: MailRuleCriteria = {
+    ...(from.trim() && { from: from.trim() }),
+    ...(to.trim() && { to: to.trim() }),
+    ...(subject.trim() && { subject: subject.trim() }),
+    ...(days !== undefined && days > 0 && { olderThanDays: days }),
+    ...(fromMb(minSize) !== undefined && { minSizeBytes: fromMb(minSize) }),
+    ...(fromMb(maxSize) !== undefined && { maxSizeBytes: fromMb(maxSize) }),
+    ...(fromTriState(unread) !== undefined && { isUnread: fromTriState(unread) }),
+    ...(fromTriState(attachments) !== undefined && {
+      hasAttachment: fromTriState(attachments),
+    }),
+    ...(notRepliedTo && { notRepliedTo: true }),
+  }
+
+  const ruleActions: MailRuleActions = {
+    ...(addLabelIds.length > 0 && { addLabelIds }),
+    ...(removeLabelIds.length > 0 && { removeLabelIds }),
+    ...(markRead && { markRead: true }),
+    ...(archive && { archive: true }),
+    ...(trash && { trash: true }),
+  }
+
+  const mirrorBlockers = getMirrorBlockers(ruleCriteria)
+  const hasCriteria = Object.keys(ruleCriteria).length > 0
+  const hasActions = Object.keys(ruleActions).length > 0
+  const isValid = name.trim().length > 0 && hasCriteria && hasActions
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const input = {
+        name: name.trim(),
+        criteria: ruleCriteria,
+        actions: ruleActions,
+        mirrorToProvider: canMirror && mirror && mirrorBlockers.length === 0,
+      }
+      if (rule) {
+        await updateMailRule(accountId, rule.id, input)
+        toast.success(t('mailRules.updated'))
+      } else {
+        await createMailRule(accountId, input)
+        toast.success(t('mailRules.created'))
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.mailRules(accountId) })
+      queryClient.invalidateQueries({ queryKey: ['filters', accountId] })
+      onOpenChange(false)
+    } catch (err) {
+      toast.error(t('mailRules.error.save'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {rule ? t('mailRules.form.editTitle') : t('mailRules.form.createTitle')}
+          </DialogTitle>
+          <DialogDescription>{t('mailRules.form.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="mailRuleName">{t('mailRules.form.name')}</Label>
+            <Input
+              id="mailRuleName"
+              placeholder={t('mailRules.form.namePlaceholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          {/* Criteria */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">{t('mailRules.form.criteria')}</h4>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="mailRuleFrom">{t('mailRules.form.from')}</Label>
+                <Input
+                  id="mailRuleFrom"
+                  placeholder="newsletter@example.com"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="mailRuleTo">{t('mailRules.form.to')}</Label>
+                <Input
+                  id="mailRuleTo"
+                  placeholder="example.com"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="mailRuleSubject">{t('mailRules.form.subject')}</Label>
+              <Input
+                id="mailRuleSubject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="mailRuleAge">{t('mailRules.form.olderThan')}</Label>
+                <Input
+                  id="mailRuleAge"
+                  type="number"
+                  min={1}
+                  value={olderThanDays}
+                  onChange={(e) => setOlderThanDays(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="mailRuleMinSize">{t('mailRules.form.minSize')}</Label>
+                <Input
+                  id="mailRuleMinSize"
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={minSize}
+                  onChange={(e) => setMinSize(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="mailRuleMaxSize">{t('mailRules.form.maxSize')}</Label>
+                <Input
+                  id="mailRuleMaxSize"
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={maxSize}
+                  onChange={(e) => setMaxSize(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>{t('mailRules.form.readState')}</Label>
+                <Select value={unread} onValueChange={(v) => setUnread(v as TriState)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t('mailRules.form.any')}</SelectItem>
+                    <SelectItem value="yes">{t('mailRules.form.unread')}</SelectItem>
+                    <SelectItem value="no">{t('mailRules.form.read')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>{t('mailRules.form.attachments')}</Label>
+                <Select value={attachments} onValueChange={(v) => setAttachments(v as TriState)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">{t('mailRules.form.any')}</SelectItem>
+                    <SelectItem value="yes">{t('mailRules.form.withAttachments')}</SelectItem>
+                    <SelectItem value="no">{t('mailRules.form.withoutAttachments')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="mailRuleNotReplied"
+                checked={notRepliedTo}
+                onCheckedChange={(checked) => setNotRepliedTo(checked === true)}
+              />
+              <Label htmlFor="mailRuleNotReplied" className="font-normal">
+                {t('mailRules.form.notRepliedTo')}
+              </Label>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">{t('mailRules.form.actions')}</h4>
+
+            <div className="space-y-1.5">
+              <Label>{t('mailRules.form.addLabel')}</Label>
+              <MultiSelect
+                options={labelOptions}
+                selected={addLabelIds}
+                onChange={setAddLabelIds}
+                placeholder={t('mailRules.form.selectLabel')}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label>{t('mailRules.form.removeLabel')}</Label>
+              <MultiSelect
+                options={labelOptions}
+                selected={removeLabelIds}
+                onChange={setRemoveLabelIds}
+                placeholder={t('mailRules.form.selectLabel')}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-x-5 gap-y-2">
+              {(
+                [
+                  ['mailRuleMarkRead', 'mailRules.form.markRead', markRead, setMarkRead],
+                  ['mailRuleArchive', 'mailRules.form.archive', archive, setArchive],
+                  ['mailRuleTrash', 'mailRules.form.trash', trash, setTrash],
+                ] as const
+              ).map(([id, labelKey, checked, setChecked]) => (
+                <div key={id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={id}
+                    checked={checked}
+                    onCheckedChange={(value) => setChecked(value === true)}
+                  />
+                  <Label htmlFor={id} className="font-normal">
+                    {t(labelKey)}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {canMirror && (
+            <div className="flex items-start gap-3 rounded-md border p-3">
+              <Switch
+                id="mailRuleMirror"
+                checked={mirror && mirrorBlockers.length === 0}
+                disabled={mirrorBlockers.length > 0}
+                onCheckedChange={setMirror}
+              />
+              <div>
+                <Label htmlFor="mailRuleMirror">{t('mailRules.form.mirror')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {mirrorBlockers.length > 0
+                    ? t('mailRules.form.mirrorBlocked').replace(
+                        '{blockers}',
+                        mirrorBlockers.join(', ')
+                      )
+                    : t('mailRules.form.mirrorHint')}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {(!hasCriteria || !hasActions) && (
+            <p className="text-xs text-muted-foreground">{t('mailRules.form.needsCriteria')}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {rule ? t('mailRules.form.save') : t('mailRules.form.create')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
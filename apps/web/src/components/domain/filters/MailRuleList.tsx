@@ -0,0 +1,464 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { formatDistanceToNow } from 'date-fns'
+import {
+  AlertCircle,
+  AlertTriangle,
+  Eye,
+  Loader2,
+  Pencil,
+  Play,
+  RefreshCw,
+  Trash2,
+  Workflow,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  getMailRules,
+  updateMailRule,
+  deleteMailRule,
+  runMailRule,
+  checkMailRuleDrift,
+  resolveMailRuleDrift,
+  getLabels,
+  type MailRule,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+import { useAppContext } from '@/routes/__root'
+import { formatBytes } from '../email-browser'
+import { MailRuleFormDialog } from './MailRuleFormDialog'
+
+interface MailRuleListProps {
+  accountId: string
+  showCreateDialog: boolean
+  onCreateDialogChange: (open: boolean) => void
+}
+
+export function MailRuleList({
+  accountId,
+  showCreateDialog,
+  onCreateDialogChange,
+}: MailRuleListProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const { selectedAccount } = useAppContext()
+  const canMirror = selectedAccount?.provider === 'gmail'
+
+  const [ruleToEdit, setRuleToEdit] = useState<MailRule | null>(null)
+  const [ruleToDelete, setRuleToDelete] = useState<MailRule | null>(null)
+  const [busyRuleId, setBusyRuleId] = useState<string | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.mailRules(accountId),
+    queryFn: () => getMailRules(accountId),
+  })
+
+  const { data: labelsData } = useQuery({
+    queryKey: ['labels', accountId],
+    queryFn: () => getLabels(accountId),
+  })
+
+  const labelNames = new Map(
+    [...(labelsData?.systemLabels ?? []), ...(labelsData?.userLabels ?? [])].map((label) => [
+      label.id,
+      label.name,
+    ])
+  )
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.mailRules(accountId) })
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: ({
+      rule,
+      ...input
+    }: {
+      rule: MailRule
+      isEnabled?: boolean
+      mirrorToProvider?: boolean
+    }) => updateMailRule(accountId, rule.id, input),
+    onSuccess: invalidate,
+    onError: (err) => {
+      toast.error(t('mailRules.update.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: string) => deleteMailRule(accountId, ruleId),
+    onSuccess: () => {
+      invalidate()
+      toast.success(t('mailRules.delete.success'))
+      setRuleToDelete(null)
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('common.error'))
+    },
+  })
+
+  const driftMutation = useMutation({
+    mutationFn: () => checkMailRuleDrift(accountId),
+    onSuccess: ({ drifted }) => {
+      invalidate()
+      if (drifted > 0) {
+        toast.warning(t('mailRules.drift.found').replace('{count}', drifted.toString()))
+      } else {
+        toast.success(t('mailRules.drift.inSync'))
+      }
+    },
+    onError: (err) => {
+      toast.error(t('mailRules.drift.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    },
+  })
+
+  const handleRun = async (rule: MailRule, dryRun: boolean) => {
+    setBusyRuleId(rule.id)
+    try {
+      const result = await runMailRule(accountId, rule.id, dryRun)
+      const key = dryRun ? 'mailRules.run.wouldChange' : 'mailRules.run.changed'
+      toast.success(t(key).replace('{count}', result.changed.toLocaleString()))
+      if (!dryRun) {
+        invalidate()
+        queryClient.invalidateQueries({ queryKey: queryKeys.stats(accountId) })
+      }
+    } catch (err) {
+      toast.error(t('mailRules.run.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setBusyRuleId(null)
+    }
+  }
+
+  const handleResolveDrift = async (rule: MailRule, strategy: 'push' | 'pull') => {
+    setBusyRuleId(rule.id)
+    try {
+      await resolveMailRuleDrift(accountId, rule.id, strategy)
+      toast.success(t('mailRules.drift.resolved'))
+      invalidate()
+    } catch (err) {
+      toast.error(t('mailRules.update.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setBusyRuleId(null)
+    }
+  }
+
+  const handleDialogChange = (open: boolean) => {
+    if (!open) setRuleToEdit(null)
+    onCreateDialogChange(open)
+  }
+
+  const describeCriteria = (rule: MailRule): string[] => {
+    const { criteria } = rule
+    const chips: string[] = []
+    if (criteria.from) chips.push(t('mailRules.criteria.from').replace('{value}', criteria.from))
+    if (criteria.to) chips.push(t('mailRules.criteria.to').replace('{value}', criteria.to))
+    if (criteria.subject) {
+      chips.push(t('mailRules.criteria.subject').replace('{value}', criteria.subject))
+    }
+    if (criteria.hasAttachment !== undefined) {
+      chips.push(
+        t(
+          criteria.hasAttachment
+            ? 'mailRules.criteria.hasAttachment'
+            : 'mailRules.criteria.noAttachment'
+        )
+      )
+    }
+    if (criteria.minSizeBytes !== undefined) {
+      chips.push(
+        t('mailRules.criteria.minSize').replace('{size}', formatBytes(criteria.minSizeBytes))
+      )
+    }
+    if (criteria.maxSizeBytes !== undefined) {
+      chips.push(
+        t('mailRules.criteria.maxSize').replace('{size}', formatBytes(criteria.maxSizeBytes))
+      )
+    }
+    if (criteria.olderThanDays !== undefined) {
+      chips.push(
+        t('mailRules.criteria.olderThan').replace('{days}', criteria.olderThanDays.toString())
+      )
+    }
+    if (criteria.isUnread !== undefined) {
+      chips.push(t(criteria.isUnread ? 'mailRules.criteria.unread' : 'mailRules.criteria.read'))
+    }
+    if (criteria.notRepliedTo) chips.push(t('mailRules.criteria.notRepliedTo'))
+    return chips
+  }
+
+  const describeActions = (rule: MailRule): string => {
+    const { actions } = rule
+    const labelName = (id: string) => labelNames.get(id) ?? id
+    const parts = [
+      ...(actions.addLabelIds ?? []).map((id) =>
+        t('mailRules.action.addLabel').replace('{label}', labelName(id))
+      ),
+      ...(actions.removeLabelIds ?? []).map((id) =>
+        t('mailRules.action.removeLabel').replace('{label}', labelName(id))
+      ),
+    ]
+    if (actions.markRead) parts.push(t('mailRules.action.markRead'))
+    if (actions.archive) parts.push(t('mailRules.action.archive'))
+    if (actions.trash) parts.push(t('mailRules.action.trash'))
+    return parts.join(', ')
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-28 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>{t('mailRules.error.load')}</AlertDescription>
+      </Alert>
+    )
+  }
+
+  const rules = data?.rules ?? []
+  const hasMirroredRules = rules.some((rule) => rule.providerRuleId)
+
+  return (
+    <>
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <p className="text-sm text-muted-foreground">{t('mailRules.intro')}</p>
+          {canMirror && hasMirroredRules && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => driftMutation.mutate()}
+              disabled={driftMutation.isPending}
+              className="shrink-0"
+            >
+              {driftMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              {t('mailRules.checkDrift')}
+            </Button>
+          )}
+        </div>
+
+        {rules.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 text-center border border-dashed rounded-lg">
+            <div className="rounded-full bg-primary/10 p-3 mb-3">
+              <Workflow className="h-6 w-6 text-primary" />
+            </div>
+            <h3 className="font-medium mb-1">{t('mailRules.empty.title')}</h3>
+            <p className="text-sm text-muted-foreground max-w-sm">
+              {t('mailRules.empty.description')}
+            </p>
+          </div>
+        ) : (
+          rules.map((rule) => {
+            const isBusy = busyRuleId === rule.id
+            return (
+              <div key={rule.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 space-y-2">
+                    <h4 className="font-medium truncate">{rule.name}</h4>
+                    <div className="flex flex-wrap gap-1.5">
+                      {describeCriteria(rule).map((chip) => (
+                        <Badge key={chip} variant="secondary" className="font-normal">
+                          {chip}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{describeActions(rule)}</p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setRuleToEdit(rule)
+                        onCreateDialogChange(true)
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => setRuleToDelete(rule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {rule.driftDetectedAt && (
+                  <Alert className="border-amber-500/50">
+                    <AlertTriangle className="h-4 w-4 text-amber-500" />
+                    <AlertTitle>{t('mailRules.drift.title')}</AlertTitle>
+                    <AlertDescription className="space-y-2">
+                      <p>
+                        {t('mailRules.drift.description').replace(
+                          '{time}',
+                          formatDistanceToNow(new Date(rule.driftDetectedAt), { addSuffix: true })
+                        )}
+                      </p>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isBusy}
+                          onClick={() => handleResolveDrift(rule, 'push')}
+                        >
+                          {t('mailRules.drift.push')}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isBusy}
+                          onClick={() => handleResolveDrift(rule, 'pull')}
+                        >
+                          {t('mailRules.drift.pull')}
+                        </Button>
+                      </div>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex flex-wrap items-center justify-between gap-3 pt-1">
+                  <div className="flex flex-wrap items-center gap-4 text-sm">
+                    <label className="flex items-center gap-2">
+                      <Switch
+                        checked={rule.isEnabled}
+                        disabled={updateMutation.isPending}
+                        onCheckedChange={(isEnabled) => updateMutation.mutate({ rule, isEnabled })}
+                      />
+                      {t('mailRules.enabled')}
+                    </label>
+                    {canMirror && (
+                      <label
+                        className="flex items-center gap-2"
+                        title={
+                          rule.mirrorBlockers.length > 0
+                            ? t('mailRules.form.mirrorBlocked').replace(
+                                '{blockers}',
+                                rule.mirrorBlockers.join(', ')
+                              )
+                            : undefined
+                        }
+                      >
+                        <Switch
+                          checked={rule.mirrorToProvider}
+                          disabled={updateMutation.isPending || rule.mirrorBlockers.length > 0}
+                          onCheckedChange={(mirrorToProvider) =>
+                            updateMutation.mutate({ rule, mirrorToProvider })
+                          }
+                        />
+                        {t('mailRules.mirrored')}
+                      </label>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      {rule.lastAppliedAt
+                        ? `${t('mailRules.applied').replace('{count}', rule.appliedCount.toLocaleString())}, ${t('mailRules.lastApplied').replace('{time}', formatDistanceToNow(new Date(rule.lastAppliedAt), { addSuffix: true }))}`
+                        : t('mailRules.neverApplied')}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => handleRun(rule, true)}
+                    >
+                      <Eye className="h-4 w-4 mr-2" />
+                      {t('mailRules.preview')}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={isBusy}
+                      onClick={() => handleRun(rule, false)}
+                    >
+                      {isBusy ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <Play className="h-4 w-4 mr-2" />
+                      )}
+                      {t('mailRules.runNow')}
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!ruleToDelete} onOpenChange={() => setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('mailRules.delete.title')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('mailRules.delete.description')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => ruleToDelete && deleteMutation.mutate(ruleToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {t('common.deleting')}
+                </>
+              ) : (
+                t('common.delete')
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Create/Edit Rule Dialog */}
+      {showCreateDialog && (
+        <MailRuleFormDialog
+          accountId={accountId}
+          rule={ruleToEdit}
+          canMirror={canMirror}
+          onOpenChange={handleDialogChange}
+        />
+      )}
+    </>
+  )
+}
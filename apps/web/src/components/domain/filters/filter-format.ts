@@ -0,0 +1,25 @@
+/**
+ * Helpers for showing Gmail filters
+ */
+
+import type { FilterCriteria } from '@/lib/api'
+
+/**
+ * Short description of what a filter matches
+ */
+export function describeCriteria(criteria: FilterCriteria): string {
+  const parts: string[] = []
+
+  if (criteria.from) parts.push(`from ${criteria.from}`)
+  if (criteria.to) parts.push(`to ${criteria.to}`)
+  if (criteria.subject) parts.push(`subject contains "${criteria.subject}"`)
+  if (criteria.query) parts.push(`contains "${criteria.query}"`)
+  if (criteria.negatedQuery) parts.push(`doesn't contain "${criteria.negatedQuery}"`)
+  if (criteria.hasAttachment) parts.push('has attachment')
+  if (criteria.size && criteria.sizeComparison) {
+    const sizeInMB = (criteria.size / (1024 * 1024)).toFixed(1)
+    parts.push(`size ${criteria.sizeComparison} than ${sizeInMB}MB`)
+  }
+
+  return parts.join(', ') || 'All emails'
+}
@@ -0,0 +1,23 @@
+/**
+ * Helpers for showing mail rules
+ */
+
+import type { MailRuleCriteria } from '@/lib/api'
+
+/**
+ * Criteria a Gmail filter can't express, matching the API's checks
+ * Mirroring is only offered while this is empty.
+ */
+export function getMirrorBlockers(criteria: MailRuleCriteria): string[] {
+  const blockers: string[] = []
+
+  if (criteria.olderThanDays !== undefined) blockers.push('age')
+  if (criteria.minSizeBytes !== undefined && criteria.maxSizeBytes !== undefined) {
+    blockers.push('size ranges')
+  }
+  if (criteria.isUnread !== undefined) blockers.push('read state')
+  if (criteria.notRepliedTo) blockers.push('senders not replied to')
+  if (criteria.hasAttachment === false) blockers.push('messages without attachments')
+
+  return blockers
+}
@@ -0,0 +1,417 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useNavigate } from '@tanstack/react-router'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  AlertCircle,
+  CalendarClock,
+  ChevronDown,
+  FlaskConical,
+  Loader2,
+  Play,
+  Trash2,
+} from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Switch } from '@/components/ui/switch'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  getCleanupRules,
+  getCleanupRuleRuns,
+  updateCleanupRule,
+  deleteCleanupRule,
+  runCleanupRule,
+  type CleanupRule,
+  type CleanupRuleRun,
+  type CleanupRuleInput,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+import { formatBytes } from '../email-browser'
+import { describeFilters, getSchedulePresetKey } from './rule-format'
+
+interface CleanupRulesPageProps {
+  accountId: string
+}
+
+function formatRelative(value: string | null, fallback: string): string {
+  return value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : fallback
+}
+
+const RUN_STATUS_CLASSES: Record<CleanupRuleRun['status'], string> = {
+  running: 'text-violet-500',
+  completed: 'text-emerald-600',
+  failed: 'text-red-500',
+  cancelled: 'text-muted-foreground',
+}
+
+/**
+ * One-line summary of a run's outcome
+ */
+function RunSummary({ run }: { run: CleanupRuleRun }) {
+  const { t } = useLanguage()
+
+  let summary: string
+  if (run.dryRun) {
+    summary = t('rules.run.wouldAffect')
+      .replace('{count}', run.matchedCount.toLocaleString())
+      .replace('{size}', formatBytes(run.matchedSizeBytes))
+  } else if (run.matchedCount === 0) {
+    summary = t('rules.run.nothing')
+  } else {
+    summary = `${t('rules.run.matched').replace('{count}', run.matchedCount.toLocaleString())} · ${t(
+      'rules.run.processed'
+    ).replace('{count}', run.processedCount.toLocaleString())}`
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm min-w-0">
+      <span className={`font-medium shrink-0 ${RUN_STATUS_CLASSES[run.status]}`}>
+        {t(`rules.run.status.${run.status}`)}
+      </span>
+      {run.dryRun && (
+        <Badge variant="outline" className="shrink-0">
+          {t('rules.dryRun')}
+        </Badge>
+      )}
+      <span className="text-muted-foreground truncate">{run.error ?? summary}</span>
+    </div>
+  )
+}
+
+/**
+ * Run history of a rule, loaded when expanded
+ */
+function RuleRunHistory({ accountId, ruleId }: { accountId: string; ruleId: string }) {
+  const { t } = useLanguage()
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.cleanupRuleRuns(accountId, ruleId),
+    queryFn: () => getCleanupRuleRuns(accountId, ruleId),
+  })
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />
+  }
+
+  const runs = data?.runs ?? []
+  if (runs.length === 0) {
+    return <p className="text-sm text-muted-foreground">{t('rules.history.empty')}</p>
+  }
+
+  return (
+    <div className="divide-y">
+      {runs.map((run) => (
+        <div key={run.id} className="py-2 space-y-1">
+          <div className="flex items-center justify-between gap-4">
+            <RunSummary run={run} />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {formatRelative(run.startedAt, '-')}
+            </span>
+          </div>
+          {run.preview && run.preview.length > 0 && (
+            <ul className="pl-4 text-xs text-muted-foreground space-y-0.5">
+              {run.preview.map((email) => (
+                <li key={email.messageId} className="truncate">
+                  <span className="text-foreground">{email.fromName || email.fromEmail}</span> ·{' '}
+                  {email.subject || '(no subject)'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface RuleCardProps {
+  accountId: string
+  rule: CleanupRule
+  onDelete: (rule: CleanupRule) => void
+}
+
+function RuleCard({ accountId, rule, onDelete }: RuleCardProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+  const [runningMode, setRunningMode] = useState<'run' | 'dryRun' | null>(null)
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.cleanupRules(accountId) })
+    queryClient.invalidateQueries({ queryKey: queryKeys.cleanupRuleRuns(accountId, rule.id) })
+  }
+
+  const updateMutation = useMutation({
+    mutationFn: (input: Partial<CleanupRuleInput>) => updateCleanupRule(accountId, rule.id, input),
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : t('rules.update.error'))
+    },
+  })
+
+  const handleRun = async (dryRun: boolean) => {
+    setRunningMode(dryRun ? 'dryRun' : 'run')
+    try {
+      const { run } = await runCleanupRule(accountId, rule.id, dryRun)
+      if (run.status === 'failed') {
+        toast.error(t('rules.run.error'), { description: run.error ?? undefined })
+      } else if (run.dryRun) {
+        toast.success(
+          t('rules.run.wouldAffect')
+            .replace('{count}', run.matchedCount.toLocaleString())
+            .replace('{size}', formatBytes(run.matchedSizeBytes))
+        )
+      } else if (run.matchedCount === 0) {
+        toast.info(t('rules.run.nothing'))
+      } else {
+        toast.success(t('rules.run.queued').replace('{count}', run.matchedCount.toLocaleString()))
+        queryClient.invalidateQueries({ queryKey: queryKeys.stats(accountId) })
+      }
+      invalidate()
+    } catch (err) {
+      toast.error(t('rules.run.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setRunningMode(null)
+    }
+  }
+
+  const scheduleKey = getSchedulePresetKey(rule.schedule)
+  const filterChips = describeFilters(rule.filters)
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4 text-violet-500 shrink-0" />
+            <span className="font-medium truncate">{rule.name}</span>
+            {rule.dryRun && <Badge variant="outline">{t('rules.dryRun')}</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {t(`rules.action.${rule.action}`)} ·{' '}
+            {rule.olderThanDays !== null
+              ? t('rules.olderThan').replace('{days}', rule.olderThanDays.toLocaleString())
+              : t('rules.anyAge')}{' '}
+            · {scheduleKey ? t(scheduleKey) : <code className="text-xs">{rule.schedule}</code>}
+          </p>
+          {filterChips.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 pt-1">
+              {filterChips.map((chip) => (
+                <Badge key={chip} variant="secondary" className="font-mono text-xs">
+                  {chip}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4 shrink-0">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`dry-run-${rule.id}`}
+              checked={rule.dryRun}
+              disabled={updateMutation.isPending}
+              onCheckedChange={(dryRun) => updateMutation.mutate({ dryRun })}
+            />
+            <Label htmlFor={`dry-run-${rule.id}`} className="text-sm font-normal">
+              {t('rules.dryRun')}
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`enabled-${rule.id}`}
+              checked={rule.isEnabled}
+              disabled={updateMutation.isPending}
+              onCheckedChange={(isEnabled) => updateMutation.mutate({ isEnabled })}
+            />
+            <Label htmlFor={`enabled-${rule.id}`} className="text-sm font-normal">
+              {t('rules.enabled')}
+            </Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <div className="flex items-center gap-4 text-muted-foreground">
+          <span>
+            {t('rules.nextRun')}:{' '}
+            {rule.isEnabled ? formatRelative(rule.nextRunAt, t('rules.never')) : '-'}
+          </span>
+          <span>
+            {t('rules.lastRun')}: {formatRelative(rule.lastRunAt, t('rules.never'))}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            disabled={runningMode !== null}
+            onClick={() => handleRun(true)}
+          >
+            {runningMode === 'dryRun' ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <FlaskConical className="h-3.5 w-3.5" />
+            )}
+            {t('rules.dryRunNow')}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            disabled={runningMode !== null}
+            onClick={() => handleRun(false)}
+          >
+            {runningMode === 'run' ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <Play className="h-3.5 w-3.5" />
+            )}
+            {t('rules.runNow')}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-500 hover:text-red-500 hover:bg-red-500/10"
+            onClick={() => onDelete(rule)}
+            aria-label={t('rules.delete')}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      {rule.lastRun && (
+        <div className="rounded-md bg-muted/50 px-3 py-2">
+          <RunSummary run={rule.lastRun} />
+        </div>
+      )}
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-1.5 text-muted-foreground px-2">
+            <ChevronDown className="h-3.5 w-3.5" />
+            {t('rules.history')}
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <RuleRunHistory accountId={accountId} ruleId={rule.id} />
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  )
+}
+
+/**
+ * Scheduled cleanup rules ("recurring exorcisms") with their run history
+ */
+export function CleanupRulesPage({ accountId }: CleanupRulesPageProps) {
+  const { t } = useLanguage()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [ruleToDelete, setRuleToDelete] = useState<CleanupRule | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.cleanupRules(accountId),
+    queryFn: () => getCleanupRules(accountId),
+    enabled: !!accountId,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: string) => deleteCleanupRule(accountId, ruleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.cleanupRules(accountId) })
+      toast.success(t('rules.delete.success'))
+      setRuleToDelete(null)
+    },
+    onError: (err) => {
+      toast.error(err instanceof Error ? err.message : t('rules.update.error'))
+    },
+  })
+
+  const rules = data?.rules ?? []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">{t('rules.title')}</h1>
+        <p className="text-muted-foreground">{t('rules.description')}</p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{(error as Error).message}</AlertDescription>
+        </Alert>
+      ) : rules.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <div className="rounded-full bg-muted p-4 mb-4">
+            <CalendarClock className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">{t('rules.empty')}</h3>
+          <p className="text-muted-foreground max-w-sm mb-4">{t('rules.emptyDescription')}</p>
+          <Button variant="outline" onClick={() => navigate({ to: '/explorer' })}>
+            {t('rules.openExplorer')}
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {rules.map((rule) => (
+            <RuleCard key={rule.id} accountId={accountId} rule={rule} onDelete={setRuleToDelete} />
+          ))}
+        </div>
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!ruleToDelete} onOpenChange={() => setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('rules.delete')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('rules.delete.description')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => ruleToDelete && deleteMutation.mutate(ruleToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {t('common.deleting')}
+                </>
+              ) : (
+                t('common.delete')
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  createCleanupRule,
+  getLabels,
+  type CleanupRuleAction,
+  type ExplorerFilters,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+import { useLanguage } from '@/hooks/useLanguage'
+import { RULE_ACTIONS, SCHEDULE_PRESETS } from './rule-format'
+
+interface SaveRuleDialogProps {
+  accountId: string
+  filters: ExplorerFilters
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const CUSTOM_SCHEDULE = 'custom'
+
+/**
+ * Save the current Explorer filters as a scheduled cleanup rule
+ *
+ * Render it only while open so the form starts fresh every time.
+ */
+export function SaveRuleDialog({ accountId, filters, open, onOpenChange }: SaveRuleDialogProps) {
+  const { t } = useLanguage()
+  const queryClient = useQueryClient()
+
+  const [name, setName] = useState('')
+  const [action, setAction] = useState<CleanupRuleAction>('trash')
+  const [labelId, setLabelId] = useState('')
+  const [olderThanDays, setOlderThanDays] = useState('')
+  const [schedulePreset, setSchedulePreset] = useState<string>(SCHEDULE_PRESETS[1].cron)
+  const [customSchedule, setCustomSchedule] = useState('')
+  const [dryRun, setDryRun] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const { data: labelsData } = useQuery({
+    queryKey: ['labels', accountId],
+    queryFn: () => getLabels(accountId),
+    enabled: open && action === 'label',
+  })
+
+  const userLabels = labelsData?.userLabels || []
+  const schedule = schedulePreset === CUSTOM_SCHEDULE ? customSchedule.trim() : schedulePreset
+  const days = olderThanDays.trim() ? parseInt(olderThanDays, 10) : null
+  const isValid =
+    name.trim().length > 0 &&
+    schedule.length > 0 &&
+    (days === null || (Number.isInteger(days) && days > 0)) &&
+    (action !== 'label' || !!labelId)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await createCleanupRule(accountId, {
+        name: name.trim(),
+        filters,
+        olderThanDays: days,
+        action,
+        labelId: action === 'label' ? labelId : null,
+        schedule,
+        dryRun,
+      })
+      toast.success(t('rules.save.success'))
+      queryClient.invalidateQueries({ queryKey: queryKeys.cleanupRules(accountId) })
+      onOpenChange(false)
+    } catch (err) {
+      toast.error(t('rules.save.error'), {
+        description: err instanceof Error ? err.message : undefined,
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('rules.save.title')}</DialogTitle>
+          <DialogDescription>{t('rules.save.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="ruleName">{t('rules.save.name')}</Label>
+            <Input
+              id="ruleName"
+              placeholder={t('rules.save.namePlaceholder')}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('rules.save.action')}</Label>
+              <Select value={action} onValueChange={(v) => setAction(v as CleanupRuleAction)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_ACTIONS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {t(`rules.action.${value}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="olderThanDays">{t('rules.save.olderThan')}</Label>
+              <Input
+                id="olderThanDays"
+                type="number"
+                min={1}
+                placeholder="30"
+                value={olderThanDays}
+                onChange={(e) => setOlderThanDays(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">{t('rules.save.olderThanHint')}</p>
+            </div>
+          </div>
+
+          {action === 'label' && (
+            <div className="space-y-2">
+              <Label>{t('rules.save.label')}</Label>
+              <Select value={labelId} onValueChange={setLabelId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder={t('rules.save.labelPlaceholder')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {userLabels.map((label) => (
+                    <SelectItem key={label.id} value={label.id}>
+                      {label.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{t('rules.schedule')}</Label>
+            <Select value={schedulePreset} onValueChange={setSchedulePreset}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCHEDULE_PRESETS.map((preset) => (
+                  <SelectItem key={preset.cron} value={preset.cron}>
+                    {t(preset.labelKey)}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_SCHEDULE}>{t('rules.schedule.custom')}</SelectItem>
+              </SelectContent>
+            </Select>
+            {schedulePreset === CUSTOM_SCHEDULE && (
+              <Input
+                className="font-mono"
+                placeholder={t('rules.schedule.customHint')}
+                value={customSchedule}
+                onChange={(e) => setCustomSchedule(e.target.value)}
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch id="ruleDryRun" checked={dryRun} onCheckedChange={setDryRun} />
+            <div>
+              <Label htmlFor="ruleDryRun">{t('rules.dryRun')}</Label>
+              <p className="text-xs text-muted-foreground">{t('rules.save.dryRunHint')}</p>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('rules.save.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,32 @@
+import type { CleanupRuleAction, ExplorerFilters } from '@/lib/api'
+import type { TranslationKey } from '@/lib/i18n'
+
+export const RULE_ACTIONS: CleanupRuleAction[] = ['trash', 'archive', 'label', 'delete']
+
+export const SCHEDULE_PRESETS: Array<{ cron: string; labelKey: TranslationKey }> = [
+  { cron: '0 * * * *', labelKey: 'rules.schedule.hourly' },
+  { cron: '0 3 * * *', labelKey: 'rules.schedule.daily' },
+  { cron: '0 3 * * 1', labelKey: 'rules.schedule.weekly' },
+  { cron: '0 3 1 * *', labelKey: 'rules.schedule.monthly' },
+]
+
+/**
+ * Translation key of a preset schedule, or null for custom cron expressions
+ */
+export function getSchedulePresetKey(schedule: string): TranslationKey | null {
+  return SCHEDULE_PRESETS.find((preset) => preset.cron === schedule)?.labelKey ?? null
+}
+
+/**
+ * Short "key: value" descriptions of a rule's filters
+ */
+export function describeFilters(filters: ExplorerFilters): string[] {
+  return Object.entries(filters)
+    .filter(([key, value]) => key !== 'sortBy' && key !== 'sortOrder' && value !== undefined)
+    .map(([key, value]) => {
+      if (key === 'dateFrom' || key === 'dateTo') {
+        return `${key}: ${new Date(value as number).toLocaleDateString()}`
+      }
+      return `${key}: ${String(value)}`
+    })
+}
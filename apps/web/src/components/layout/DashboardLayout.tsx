@@ -2,7 +2,7 @@ import { Sidebar } from './Sidebar'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { AuthExpiredBanner } from '@/components/domain/AuthExpiredBanner'
 import { AlertCircle } from 'lucide-react'
-import type { GmailAccount } from '@/lib/api'
+import type { GmailAccount, MailProvider } from '@/lib/api'
 
 interface DashboardLayoutProps {
   accounts: GmailAccount[]
@@ -11,7 +11,7 @@ interface DashboardLayoutProps {
   syncStatus: string | null
   statsError: string | null
   syncError: string | null
-  onAddAccount: () => void
+  onAddAccount: (provider?: MailProvider) => void
   children: React.ReactNode
 }
 
@@ -48,7 +48,11 @@ export function DashboardLayout({
           {/* Auth Expired Banner */}
           {isAuthExpired && selectedAccount && (
             <div className="mb-6">
-              <AuthExpiredBanner email={selectedAccount.email} onReconnect={onAddAccount} />
+              <AuthExpiredBanner
+                email={selectedAccount.email}
+                provider={selectedAccount.provider}
+                onReconnect={() => onAddAccount(selectedAccount.provider)}
+              />
             </div>
           )}
 
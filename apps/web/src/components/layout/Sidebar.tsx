@@ -22,17 +22,23 @@ import {
   MailMinus,
   Filter,
   Wand2,
+  FolderArchive,
+  History,
+  CalendarClock,
+  ShieldCheck,
+  Activity,
+  Paperclip,
 } from 'lucide-react'
 import { useLanguage } from '@/hooks/useLanguage'
 import { useTheme } from '@/hooks/useTheme'
 import { useAuthContext } from '@/routes/__root'
-import type { GmailAccount } from '@/lib/api'
+import type { GmailAccount, MailProvider } from '@/lib/api'
 
 interface SidebarProps {
   accounts: GmailAccount[]
   selectedAccountId: string
   onSelectAccount: (accountId: string) => void
-  onAddAccount: () => void
+  onAddAccount: (provider?: MailProvider) => void
 }
 
 interface NavItemProps {
@@ -96,9 +102,15 @@ export function Sidebar({
     if (path === '/' || path === '/overview') return 'overview'
     if (path === '/explorer') return 'explorer'
     if (path === '/subscriptions') return 'subscriptions'
+    if (path === '/attachments') return 'attachments'
+    if (path === '/eternal-memory') return 'eternal-memory'
+    if (path === '/backups') return 'backups'
     if (path === '/filters' || path.startsWith('/filters/')) return 'filters'
+    if (path === '/rules') return 'rules'
+    if (path === '/jobs') return 'jobs'
     if (path === '/chat') return 'chat'
     if (path === '/settings') return 'settings'
+    if (path === '/admin') return 'admin'
     return 'overview'
   }
 
@@ -138,12 +150,42 @@ export function Sidebar({
           active={activePage === 'subscriptions'}
           onClick={() => navigateTo('subscriptions')}
         />
+        <NavItem
+          icon={Paperclip}
+          label="Attachments"
+          active={activePage === 'attachments'}
+          onClick={() => navigateTo('attachments')}
+        />
         <NavItem
           icon={Filter}
           label="Filters"
           active={activePage === 'filters'}
           onClick={() => navigateTo('filters')}
         />
+        <NavItem
+          icon={CalendarClock}
+          label="Cleanup Rules"
+          active={activePage === 'rules'}
+          onClick={() => navigateTo('rules')}
+        />
+        <NavItem
+          icon={Activity}
+          label="Jobs"
+          active={activePage === 'jobs'}
+          onClick={() => navigateTo('jobs')}
+        />
+        <NavItem
+          icon={History}
+          label="Eternal Memory"
+          active={activePage === 'eternal-memory'}
+          onClick={() => navigateTo('eternal-memory')}
+        />
+        <NavItem
+          icon={FolderArchive}
+          label="Backups"
+          active={activePage === 'backups'}
+          onClick={() => navigateTo('backups')}
+        />
         <NavItem
           icon={Wand2}
           label="Bishop AI"
@@ -156,6 +198,14 @@ export function Sidebar({
           active={activePage === 'settings'}
           onClick={() => navigateTo('settings')}
         />
+        {user?.isAdmin && (
+          <NavItem
+            icon={ShieldCheck}
+            label="Admin"
+            active={activePage === 'admin'}
+            onClick={() => navigateTo('admin')}
+          />
+        )}
       </nav>
 
       {/* User Section */}
@@ -199,10 +249,18 @@ export function Sidebar({
             ))}
 
             {/* Add Account */}
-            <DropdownMenuItem onClick={onAddAccount} className="cursor-pointer">
+            <DropdownMenuItem onClick={() => onAddAccount()} className="cursor-pointer">
               <Plus className="h-4 w-4 mr-2" />
               <span>Add Gmail Account</span>
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onAddAccount('outlook')} className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-2" />
+              <span>Add Outlook Account</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onAddAccount('imap')} className="cursor-pointer">
+              <Plus className="h-4 w-4 mr-2" />
+              <span>Add IMAP Account</span>
+            </DropdownMenuItem>
 
             <DropdownMenuSeparator />
 
@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  getCleanupJobProgress,
+  pauseCleanupJob,
+  resumeCleanupJob,
+  cancelCleanupJob,
+  type CleanupJobProgress,
+} from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+
+// Poll frequently while the job is working through its chunks
+const ACTIVE_POLL_INTERVAL = 2000
+
+interface UseCleanupJobOptions {
+  accountId: string
+  /** Called whenever the job finishes, fails or is cancelled */
+  onSettled?: () => void
+}
+
+/**
+ * Hook to follow a background trash/delete job
+ *
+ * Polls progress while the job is pending or running and exposes pause/resume/cancel.
+ */
+export function useCleanupJob({ accountId, onSettled }: UseCleanupJobOptions) {
+  const queryClient = useQueryClient()
+  const [jobId, setJobId] = useState<string | null>(null)
+  const prevStatusRef = useRef<string | undefined>(undefined)
+
+  const { data: progress, refetch } = useQuery({
+    queryKey: queryKeys.cleanupJob(accountId, jobId ?? ''),
+    queryFn: () => getCleanupJobProgress(accountId, jobId!),
+    enabled: !!jobId,
+    staleTime: 0,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status
+      return !status || status === 'running' || status === 'pending' ? ACTIVE_POLL_INTERVAL : false
+    },
+  })
+
+  // React to the job reaching a terminal state
+  useEffect(() => {
+    const currentStatus = progress?.status
+    const prevStatus = prevStatusRef.current
+    prevStatusRef.current = currentStatus
+
+    if (!progress || currentStatus === prevStatus) return
+
+    if (currentStatus === 'completed') {
+      toast.success(progress.message)
+    } else if (currentStatus === 'failed') {
+      toast.error(progress.message)
+    } else if (currentStatus !== 'cancelled') {
+      return
+    }
+
+    // Email counts changed (also for partially processed jobs)
+    queryClient.invalidateQueries({ queryKey: queryKeys.stats(accountId) })
+    onSettled?.()
+  }, [progress, accountId, queryClient, onSettled])
+
+  const track = useCallback((id: string) => {
+    prevStatusRef.current = undefined
+    setJobId(id)
+  }, [])
+
+  const pause = useCallback(async () => {
+    if (!jobId) return
+    await pauseCleanupJob(accountId, jobId)
+    await refetch()
+  }, [accountId, jobId, refetch])
+
+  const resume = useCallback(async () => {
+    if (!jobId) return
+    await resumeCleanupJob(accountId, jobId)
+    await refetch()
+  }, [accountId, jobId, refetch])
+
+  const cancel = useCallback(async () => {
+    if (!jobId) return
+    await cancelCleanupJob(accountId, jobId)
+    await refetch()
+  }, [accountId, jobId, refetch])
+
+  // Stop following a failed job without resuming it
+  const dismiss = useCallback(() => {
+    setJobId(null)
+  }, [])
+
+  const job: CleanupJobProgress | null = jobId ? (progress ?? null) : null
+  const isActive = !!jobId && (!job || job.status === 'pending' || job.status === 'running')
+
+  return {
+    job,
+    isActive,
+    track,
+    pause,
+    resume,
+    cancel,
+    dismiss,
+  }
+}
@@ -0,0 +1,40 @@
+import { useState, useCallback } from 'react'
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { getDeletedEmails, type ExplorerFilters } from '@/lib/api'
+import { queryKeys } from '@/lib/query-client'
+
+const PAGE_SIZE = 50
+
+/**
+ * Hook to browse the Eternal Memory archive (metadata of deleted emails)
+ */
+export function useDeletedEmails(accountId: string) {
+  const [filters, setFiltersState] = useState<ExplorerFilters>({})
+  const [page, setPage] = useState(1)
+
+  // Reset page when filters change
+  const setFilters = useCallback((newFilters: ExplorerFilters) => {
+    setFiltersState(newFilters)
+    setPage(1)
+  }, [])
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: queryKeys.deletedEmails(accountId, page, filters),
+    queryFn: () => getDeletedEmails(accountId, filters, page, PAGE_SIZE),
+    placeholderData: keepPreviousData,
+  })
+
+  return {
+    emails: data?.emails ?? [],
+    pagination: data?.pagination ?? null,
+    totalSizeBytes: data?.totalSizeBytes ?? 0,
+    isLoading,
+    error: error ? (error instanceof Error ? error.message : String(error)) : null,
+    filters,
+    setFilters,
+    page,
+    setPage,
+    refetch,
+    clearFilters: () => setFilters({}),
+  }
+}
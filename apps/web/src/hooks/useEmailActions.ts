@@ -1,13 +1,17 @@
 import { useState, useCallback, useMemo, useEffect } from 'react'
-import { useQueryClient } from '@tanstack/react-query'
 import { type RowSelectionState, type ColumnSizingState } from '@tanstack/react-table'
-import type { EmailRecord, ExplorerFilters } from '@/lib/api'
+import type { EmailRecord, ExplorerFilters, ThreadRecord } from '@/lib/api'
 import { toast } from 'sonner'
 import { useLanguage } from '@/hooks/useLanguage'
+import { useCleanupJob } from '@/hooks/useCleanupJob'
+
+const NO_THREADS: ThreadRecord[] = []
 
 interface UseEmailActionsOptions {
   accountId: string
   emails: EmailRecord[]
+  /** Threads shown in thread view - rows are then selected by thread_id */
+  threads?: ThreadRecord[]
   page: number
   filters?: ExplorerFilters
   totalMatchingCount?: number
@@ -17,63 +21,100 @@ interface UseEmailActionsOptions {
 export function useEmailActions({
   accountId,
   emails,
+  threads = NO_THREADS,
   page,
   filters,
   totalMatchingCount = 0,
   refetch,
 }: UseEmailActionsOptions) {
-  const queryClient = useQueryClient()
   const { t } = useLanguage()
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
   const [columnSizing, setColumnSizing] = useState<ColumnSizingState>({})
   const [isDeleting, setIsDeleting] = useState(false)
   const [isTrashing, setIsTrashing] = useState(false)
+  const [isArchiving, setIsArchiving] = useState(false)
   const [selectAllMode, setSelectAllMode] = useState<'page' | 'all'>('page')
 
+  // Trash/delete/archive run as background jobs - follow the latest one
+  const cleanupJob = useCleanupJob({ accountId, onSettled: refetch })
+  const trackCleanupJob = cleanupJob.track
+
   // Clear selection when page or filters change
   useEffect(() => {
     setRowSelection({})
     setSelectAllMode('page')
   }, [page, filters])
 
+  const isThreadView = !!filters?.threadMatch
+
+  // Row IDs on the current page - message_ids, or thread_ids in thread view
+  const pageRowIds = useMemo(() => {
+    return isThreadView
+      ? threads.map((thread) => thread.thread_id)
+      : emails.map((email) => email.message_id)
+  }, [isThreadView, threads, emails])
+
   // Get selected email IDs from row selection
-  // Note: rowSelection keys ARE the message_ids (set via getRowId in EmailTable)
+  // Note: rowSelection keys ARE the row IDs (set via getRowId in EmailTable/ThreadTable)
   const selectedEmailIds = useMemo(() => {
+    if (isThreadView) {
+      // Actions in thread view apply to every message of the selected threads
+      return threads
+        .filter((thread) => rowSelection[thread.thread_id])
+        .flatMap((thread) => thread.message_ids)
+    }
     return Object.keys(rowSelection).filter((key) => rowSelection[key])
-  }, [rowSelection])
+  }, [rowSelection, isThreadView, threads])
 
-  // Check if all emails on current page are selected
+  // Check if all rows on current page are selected
   const allPageSelected = useMemo(() => {
-    return emails.length > 0 && emails.every((email) => rowSelection[email.message_id])
-  }, [emails, rowSelection])
+    return pageRowIds.length > 0 && pageRowIds.every((id) => rowSelection[id])
+  }, [pageRowIds, rowSelection])
 
   // Get selected emails that are NOT already in trash (for trash button)
+  // Thread view has no per-message state - the server skips what doesn't apply
   const nonTrashedSelectedIds = useMemo(() => {
+    if (isThreadView) return selectedEmailIds
     return selectedEmailIds.filter((id) => {
       const email = emails.find((e) => e.message_id === id)
       return email && email.is_trash !== 1
     })
-  }, [selectedEmailIds, emails])
+  }, [isThreadView, selectedEmailIds, emails])
+
+  // Get selected emails that are still in the inbox (for archive button)
+  const inboxSelectedIds = useMemo(() => {
+    if (isThreadView) return selectedEmailIds
+    return selectedEmailIds.filter((id) => {
+      const email = emails.find((e) => e.message_id === id)
+      return email && (JSON.parse(email.labels || '[]') as string[]).includes('INBOX')
+    })
+  }, [isThreadView, selectedEmailIds, emails])
 
   // Effective count for display (page selection or all matching)
   const effectiveSelectedCount =
     selectAllMode === 'all' ? totalMatchingCount : selectedEmailIds.length
   const effectiveNonTrashedCount =
     selectAllMode === 'all' ? totalMatchingCount : nonTrashedSelectedIds.length
+  const effectiveInboxCount = selectAllMode === 'all' ? totalMatchingCount : inboxSelectedIds.length
 
-  const isActionLoading = isTrashing || isDeleting
+  // Buttons stay busy while the background job is still working
+  const activeJobType = cleanupJob.isActive ? cleanupJob.job?.type : undefined
+  const isTrashBusy = isTrashing || activeJobType === 'trash'
+  const isDeleteBusy = isDeleting || activeJobType === 'delete'
+  const isArchiveBusy = isArchiving || activeJobType === 'archive'
+  const isActionLoading = isTrashing || isDeleting || isArchiving || cleanupJob.isActive
 
   // Select all matching emails (not just current page)
   const selectAllMatching = useCallback(() => {
     // Also select all visible rows for visual feedback
     const allVisibleSelected: RowSelectionState = {}
-    emails.forEach((email) => {
-      allVisibleSelected[email.message_id] = true
+    pageRowIds.forEach((id) => {
+      allVisibleSelected[id] = true
     })
     setRowSelection(allVisibleSelected)
     setSelectAllMode('all')
-  }, [emails])
+  }, [pageRowIds])
 
   // Clear select all mode
   const clearSelectAllMode = useCallback(() => {
@@ -92,21 +133,45 @@ export function useEmailActions({
           : await trashEmails(accountId, nonTrashedSelectedIds)
 
       if (result.success) {
-        toast.success(result.message)
-        // Invalidate stats since email counts changed
-        queryClient.invalidateQueries({ queryKey: ['stats', accountId] })
+        toast.info(result.message)
+        trackCleanupJob(result.jobId)
       } else {
         toast.error(result.message)
       }
       setRowSelection({})
       setSelectAllMode('page')
-      refetch()
     } catch (err) {
       toast.error(err instanceof Error ? err.message : t('toast.trash.error'))
     } finally {
       setIsTrashing(false)
     }
-  }, [accountId, nonTrashedSelectedIds, filters, selectAllMode, refetch, queryClient, t])
+  }, [accountId, nonTrashedSelectedIds, filters, selectAllMode, trackCleanupJob, t])
+
+  // Handle archive (no confirmation needed - archived emails stay in All Mail)
+  const handleArchive = useCallback(async () => {
+    const { archiveEmails } = await import('@/lib/api')
+    setIsArchiving(true)
+    try {
+      // Use filters when in 'all' mode, otherwise use selected IDs
+      const result =
+        selectAllMode === 'all' && filters
+          ? await archiveEmails(accountId, filters)
+          : await archiveEmails(accountId, inboxSelectedIds)
+
+      if (result.success) {
+        toast.info(result.message)
+        trackCleanupJob(result.jobId)
+      } else {
+        toast.error(result.message)
+      }
+      setRowSelection({})
+      setSelectAllMode('page')
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('toast.archive.error'))
+    } finally {
+      setIsArchiving(false)
+    }
+  }, [accountId, inboxSelectedIds, filters, selectAllMode, trackCleanupJob, t])
 
   // Handle permanent delete confirmation
   const handleDeleteConfirm = useCallback(async () => {
@@ -120,22 +185,20 @@ export function useEmailActions({
           : await permanentlyDeleteEmails(accountId, selectedEmailIds)
 
       if (result.success) {
-        toast.success(result.message)
-        // Invalidate stats since email counts changed
-        queryClient.invalidateQueries({ queryKey: ['stats', accountId] })
+        toast.info(result.message)
+        trackCleanupJob(result.jobId)
       } else {
         toast.error(result.message)
       }
       setRowSelection({})
       setSelectAllMode('page')
-      refetch()
     } catch (err) {
       toast.error(err instanceof Error ? err.message : t('toast.delete.error'))
     } finally {
       setIsDeleting(false)
     }
     setShowDeleteDialog(false)
-  }, [accountId, selectedEmailIds, filters, selectAllMode, refetch, queryClient, t])
+  }, [accountId, selectedEmailIds, filters, selectAllMode, trackCleanupJob, t])
 
   // Clear selection
   const clearSelection = useCallback(() => {
@@ -151,21 +214,26 @@ export function useEmailActions({
     setRowSelection,
     columnSizing,
     setColumnSizing,
-    isDeleting,
-    isTrashing,
+    isDeleting: isDeleteBusy,
+    isTrashing: isTrashBusy,
+    isArchiving: isArchiveBusy,
     isActionLoading,
     selectAllMode,
+    cleanupJob,
 
     // Computed
     selectedEmailIds,
     nonTrashedSelectedIds,
+    inboxSelectedIds,
     allPageSelected,
     effectiveSelectedCount,
     effectiveNonTrashedCount,
+    effectiveInboxCount,
     totalMatchingCount,
 
     // Actions
     handleTrash,
+    handleArchive,
     handleDeleteConfirm,
     clearSelection,
     selectAllMatching,
@@ -184,6 +252,9 @@ export function hasActiveFilters(filters: ExplorerFilters): boolean {
   return (
     !!filters.sender ||
     !!filters.senderDomain ||
+    !!filters.toEmail ||
+    !!filters.toDomain ||
+    !!filters.listId ||
     !!filters.category ||
     !!filters.search ||
     filters.dateFrom !== undefined ||
@@ -2,8 +2,10 @@ import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useNavigate, useLocation } from '@tanstack/react-router'
 import {
   getExplorerEmails,
+  getExplorerThreads,
   trashEmails,
   type EmailRecord,
+  type ThreadRecord,
   type ExplorerFilters,
   type ExplorerPagination,
 } from '@/lib/api'
@@ -19,7 +21,11 @@ interface UseExplorerEmailsOptions {
 
 interface UseExplorerEmailsResult {
   emails: EmailRecord[]
+  /** Threads of the current page (thread view, when filters.threadMatch is set) */
+  threads: ThreadRecord[]
   pagination: ExplorerPagination | null
+  /** Messages matching the filters (across all threads in thread view) */
+  totalMessages: number
   isLoading: boolean
   error: string | null
   filters: ExplorerFilters
@@ -69,7 +75,9 @@ export function useExplorerEmails(
   }, [])
 
   const [emails, setEmails] = useState<EmailRecord[]>([])
+  const [threads, setThreads] = useState<ThreadRecord[]>([])
   const [pagination, setPagination] = useState<ExplorerPagination | null>(null)
+  const [totalMessages, setTotalMessages] = useState<number>(0)
   const [totalSizeBytes, setTotalSizeBytes] = useState<number>(0)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -110,7 +118,9 @@ export function useExplorerEmails(
   const fetchEmails = useCallback(async () => {
     if (!accountId) {
       setEmails([])
+      setThreads([])
       setPagination(null)
+      setTotalMessages(0)
       setTotalSizeBytes(0)
       return
     }
@@ -119,15 +129,28 @@ export function useExplorerEmails(
     setError(null)
 
     try {
-      const response = await getExplorerEmails(accountId, filters, page, pageSize, mode)
-      setEmails(response.emails)
-      setPagination(response.pagination)
-      setTotalSizeBytes(response.totalSizeBytes ?? 0)
+      if (filters.threadMatch) {
+        const response = await getExplorerThreads(accountId, filters, page, pageSize)
+        setEmails([])
+        setThreads(response.threads)
+        setPagination(response.pagination)
+        setTotalMessages(response.totalMessages)
+        setTotalSizeBytes(response.totalSizeBytes ?? 0)
+      } else {
+        const response = await getExplorerEmails(accountId, filters, page, pageSize, mode)
+        setEmails(response.emails)
+        setThreads([])
+        setPagination(response.pagination)
+        setTotalMessages(response.pagination.total)
+        setTotalSizeBytes(response.totalSizeBytes ?? 0)
+      }
     } catch (err) {
       console.error('[useExplorerEmails] Error fetching emails:', err)
       setError(err instanceof Error ? err.message : 'Failed to fetch emails')
       setEmails([])
+      setThreads([])
       setPagination(null)
+      setTotalMessages(0)
       setTotalSizeBytes(0)
     } finally {
       setIsLoading(false)
@@ -172,10 +195,10 @@ export function useExplorerEmails(
     [setFilters]
   )
 
-  // Clear all filters
+  // Clear all filters (stays in thread view if active)
   const clearFilters = useCallback(() => {
-    setFilters({ isTrash: false, isSpam: false })
-  }, [setFilters])
+    setFilters({ isTrash: false, isSpam: false, threadMatch: filters.threadMatch })
+  }, [setFilters, filters.threadMatch])
 
   // Trash selected emails
   const trashSelected = useCallback(async (): Promise<{ success: boolean; message: string }> => {
@@ -211,7 +234,9 @@ export function useExplorerEmails(
 
   return {
     emails,
+    threads,
     pagination,
+    totalMessages,
     isLoading,
     error,
     filters,
@@ -1,7 +1,17 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useLocation, useNavigate } from '@tanstack/react-router'
-import { getAccounts, getOAuthUrl, disconnectAccount, type GmailAccount } from '@/lib/api'
+import { toast } from 'sonner'
+import {
+  getAccounts,
+  getOAuthUrl,
+  getMicrosoftOAuthUrl,
+  disconnectAccount,
+  connectImapAccount,
+  type GmailAccount,
+  type ImapAccountSettings,
+  type MailProvider,
+} from '@/lib/api'
 import { queryKeys } from '@/lib/query-client'
 
 interface OAuthCallbackResult {
@@ -16,7 +26,11 @@ interface UseGmailAccountsReturn {
   error: string | null
   oauthCallback: OAuthCallbackResult | null
   clearOAuthCallback: () => void
-  connectAccount: () => Promise<void>
+  connectAccount: (provider?: MailProvider) => Promise<void>
+  /** IMAP accounts connect through a settings dialog instead of an OAuth redirect */
+  imapDialogOpen: boolean
+  setImapDialogOpen: (open: boolean) => void
+  connectImap: (settings: ImapAccountSettings) => Promise<void>
   removeAccount: (accountId: string) => Promise<void>
   refresh: () => Promise<void>
 }
@@ -27,6 +41,7 @@ export function useGmailAccounts(): UseGmailAccountsReturn {
   const navigate = useNavigate()
   const [oauthCallback, setOAuthCallback] = useState<OAuthCallbackResult | null>(null)
   const [isConnecting, setIsConnecting] = useState(false)
+  const [imapDialogOpen, setImapDialogOpen] = useState(false)
 
   // Query for fetching accounts
   const {
@@ -75,17 +90,42 @@ export function useGmailAccounts(): UseGmailAccountsReturn {
     setOAuthCallback(null)
   }, [])
 
-  const connectAccount = useCallback(async () => {
+  const connectAccount = useCallback(async (provider: MailProvider = 'gmail') => {
+    if (provider === 'imap') {
+      setImapDialogOpen(true)
+      return
+    }
+
     setIsConnecting(true)
     try {
-      const { url } = await getOAuthUrl('/', true) // addAccount = true
+      const { url } =
+        provider === 'outlook' ? await getMicrosoftOAuthUrl('/') : await getOAuthUrl('/', true) // addAccount = true
       window.location.href = url
     } catch (err) {
       console.error('[OAuth] Failed to get URL:', err)
+      if (provider === 'outlook') {
+        toast.error(
+          err instanceof Error && err.message === 'setup_required'
+            ? 'Outlook accounts are not set up on this instance'
+            : 'Could not start the Outlook sign-in'
+        )
+      }
       setIsConnecting(false)
     }
   }, [])
 
+  // Errors are left to the dialog, which shows them next to the settings
+  const connectImap = useCallback(
+    async (settings: ImapAccountSettings) => {
+      const { accountId, isNew } = await connectImapAccount(settings)
+      await refetch()
+      setOAuthCallback({ accountId, isNew })
+      setImapDialogOpen(false)
+      toast.success(isNew ? `Connected ${settings.email}` : `Updated ${settings.email}`)
+    },
+    [refetch]
+  )
+
   const removeAccount = useCallback(
     async (accountId: string) => {
       await disconnectMutation.mutateAsync(accountId)
@@ -105,6 +145,9 @@ export function useGmailAccounts(): UseGmailAccountsReturn {
     oauthCallback,
     clearOAuthCallback,
     connectAccount,
+    imapDialogOpen,
+    setImapDialogOpen,
+    connectImap,
     removeAccount,
     refresh,
   }
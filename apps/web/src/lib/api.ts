@@ -9,6 +9,7 @@ export interface User {
   email: string
   name: string | null
   picture: string | null
+  isAdmin: boolean
   createdAt: string
 }
 
@@ -21,6 +22,19 @@ export interface Session {
   lastUsedAt: string
 }
 
+export type ApiTokenScope = 'read' | 'cleanup' | 'admin'
+
+export interface ApiToken {
+  id: string
+  name: string
+  tokenPrefix: string
+  scopes: ApiTokenScope[]
+  expiresAt: string | null
+  createdAt: string
+  lastUsedAt: string | null
+  lastUsedIp: string | null
+}
+
 // ============================================================================
 // Auth API
 // ============================================================================
@@ -45,6 +59,15 @@ export async function getOAuthUrl(
   return data
 }
 
+/**
+ * Get the Microsoft OAuth URL and state (for adding an Outlook account)
+ */
+export async function getMicrosoftOAuthUrl(redirect?: string): Promise<OAuthUrlResponse> {
+  const query = redirect ? `?redirect=${encodeURIComponent(redirect)}` : ''
+  const { data } = await api.get<OAuthUrlResponse>(`/api/auth/microsoft${query}`)
+  return data
+}
+
 /**
  * Get the currently authenticated user
  * Returns null if not authenticated
@@ -83,6 +106,34 @@ export async function revokeAllOtherSessions(): Promise<number> {
   return data.revokedCount
 }
 
+/**
+ * Get the current user's personal API tokens
+ */
+export async function getApiTokens(): Promise<ApiToken[]> {
+  const { data } = await api.get<{ tokens: ApiToken[] }>('/api/auth/tokens')
+  return data.tokens
+}
+
+/**
+ * Create a personal API token
+ * The raw token is only returned here - it can't be retrieved again
+ */
+export async function createApiToken(input: {
+  name: string
+  scopes: ApiTokenScope[]
+  expiresInDays: number | null
+}): Promise<{ token: string; info: ApiToken }> {
+  const { data } = await api.post<{ token: string; info: ApiToken }>('/api/auth/tokens', input)
+  return data
+}
+
+/**
+ * Revoke a personal API token
+ */
+export async function revokeApiToken(tokenId: string): Promise<void> {
+  await api.delete(`/api/auth/tokens/${tokenId}`)
+}
+
 /**
  * Delete the user's account and all data
  * Requires confirmation string "DELETE"
@@ -95,9 +146,18 @@ export async function deleteAccount(): Promise<void> {
 // Types
 // ============================================================================
 
+export type MailProvider = 'gmail' | 'outlook' | 'imap'
+
+export const PROVIDER_NAMES: Record<MailProvider, string> = {
+  gmail: 'Gmail',
+  outlook: 'Outlook',
+  imap: 'IMAP',
+}
+
 export interface GmailAccount {
   id: string
   email: string
+  provider?: MailProvider
   connectedAt: string
   syncStatus?: string
   syncError?: string | null
@@ -205,6 +265,31 @@ export async function disconnectAccount(accountId: string): Promise<void> {
   await api.delete(`/api/oauth/gmail/accounts/${accountId}`)
 }
 
+export type ImapSecurity = 'tls' | 'starttls' | 'none'
+
+export interface ImapAccountSettings {
+  email: string
+  host: string
+  port?: number
+  security: ImapSecurity
+  username?: string
+  password: string
+}
+
+/**
+ * Connect an IMAP account with an app password (or update its settings)
+ * The server checks the settings with a test login first.
+ */
+export async function connectImapAccount(
+  settings: ImapAccountSettings
+): Promise<{ accountId: string; isNew: boolean }> {
+  const { data } = await api.post<{ success: boolean; accountId: string; isNew: boolean }>(
+    '/api/oauth/imap/accounts',
+    settings
+  )
+  return data
+}
+
 // ============================================================================
 // Health API
 // ============================================================================
@@ -227,6 +312,55 @@ export async function getAccountStats(accountId: string): Promise<StatsResponse>
   return data
 }
 
+// ============================================================================
+// Trends API (daily mailbox snapshots and storage forecast)
+// ============================================================================
+
+export interface MailboxSnapshot {
+  date: string // YYYY-MM-DD (UTC)
+  totalEmails: number
+  totalSizeBytes: number
+  unreadCount: number
+  trashCount: number
+  trashSizeBytes: number
+  spamCount: number
+  spamSizeBytes: number
+  categories: Record<string, { count: number; sizeBytes: number }>
+  topSenders: Array<{ email: string; name: string | null; count: number; sizeBytes: number }>
+  reclaimedBytes: number // Cumulative
+}
+
+export interface StorageForecast {
+  quotaBytes: number
+  quotaIsDefault: boolean
+  defaultQuotaBytes: number
+  usedBytes: number
+  basis: 'snapshots' | 'recent_mail'
+  growthBytesPerDay: number
+  daysUntilFull: number | null
+  fullAt: string | null
+}
+
+export interface TrendsResponse {
+  snapshots: MailboxSnapshot[]
+  forecast: StorageForecast
+  days: number
+}
+
+export async function getTrends(accountId: string, days = 90): Promise<TrendsResponse> {
+  const { data } = await api.get<TrendsResponse>(`/api/gmail/accounts/${accountId}/trends`, {
+    params: { days },
+  })
+  return data
+}
+
+export async function updateStorageQuota(
+  accountId: string,
+  quotaBytes: number | null
+): Promise<void> {
+  await api.put(`/api/gmail/accounts/${accountId}/storage-quota`, { quotaBytes })
+}
+
 // ============================================================================
 // Sync API
 // ============================================================================
@@ -331,6 +465,9 @@ export interface ExplorerFilters {
   sender?: string // Partial match on sender name OR email (single value, e.g., "Coursera", "amazon")
   senderEmail?: string // Exact email addresses, comma-separated (e.g., "a@x.com,b@y.com")
   senderDomain?: string // Exact domains, comma-separated (e.g., "github.com,spotify.com")
+  toEmail?: string // Exact recipient addresses in To/Cc/Delivered-To, comma-separated
+  toDomain?: string // Exact recipient domains in To/Cc/Delivered-To, comma-separated
+  listId?: string // Partial match on the List-Id identifier (e.g., "github.com")
   category?: string
   dateFrom?: number
   dateTo?: number
@@ -348,6 +485,23 @@ export interface ExplorerFilters {
   search?: string
   sortBy?: 'date' | 'size' | 'sender'
   sortOrder?: 'asc' | 'desc'
+  // Thread view: 'any' = threads with any matching message, 'all' = every message matches
+  threadMatch?: 'any' | 'all'
+}
+
+export interface ThreadRecord {
+  thread_id: string
+  subject: string | null // Subject of the first message
+  snippet: string | null // Snippet of the latest message
+  message_count: number
+  message_ids: string[]
+  participants: Array<{ email: string; name: string | null }>
+  total_size: number
+  latest_date: number // Unix timestamp in ms
+  is_unread: number // 1 if any message is unread
+  is_starred: number // 1 if any message is starred
+  has_attachments: number // total attachment count
+  category: string | null // Category of the latest message
 }
 
 export interface ExplorerPagination {
@@ -365,11 +519,37 @@ export interface ExplorerResponse {
   totalSizeBytes: number
 }
 
-export interface TrashResponse {
+export interface ExplorerThreadsResponse {
+  threads: ThreadRecord[]
+  pagination: ExplorerPagination
+  filters: ExplorerFilters
+  totalMessages: number // Messages across all matching threads
+  totalSizeBytes: number
+}
+
+/**
+ * Response of trash/delete requests - the work runs as a background job
+ */
+export interface CleanupJobResponse {
   success: boolean
-  trashedCount: number
-  failedCount: number
+  jobId: string
+  status: string
+  totalMessages: number
+  message: string
+}
+
+export type TrashResponse = CleanupJobResponse
+
+export interface CleanupJobProgress {
+  jobId: string
+  type: 'trash' | 'delete' | 'archive' | 'label'
+  status: string
+  processed: number
+  total: number
+  percentage: number
+  eta: string | null
   message: string
+  rate: number | null
 }
 
 export interface EmailContent {
@@ -401,23 +581,18 @@ export interface EmailContent {
   }>
 }
 
-export async function getExplorerEmails(
-  accountId: string,
-  filters: ExplorerFilters = {},
-  page = 1,
-  limit = 50,
-  mode: 'browse' | 'cleanup' = 'browse'
-): Promise<ExplorerResponse> {
-  const params: Record<string, string> = {
-    page: String(page),
-    limit: String(limit),
-    mode,
-  }
+/**
+ * Convert explorer filters to API query params
+ */
+function explorerFiltersToParams(filters: ExplorerFilters): Record<string, string> {
+  const params: Record<string, string> = {}
 
-  // Add filter params
   if (filters.sender) params.sender = filters.sender
   if (filters.senderEmail) params.senderEmail = filters.senderEmail
   if (filters.senderDomain) params.senderDomain = filters.senderDomain
+  if (filters.toEmail) params.toEmail = filters.toEmail
+  if (filters.toDomain) params.toDomain = filters.toDomain
+  if (filters.listId) params.listId = filters.listId
   if (filters.category) params.category = filters.category
   if (filters.dateFrom !== undefined) params.dateFrom = String(filters.dateFrom)
   if (filters.dateTo !== undefined) params.dateTo = String(filters.dateTo)
@@ -435,6 +610,24 @@ export async function getExplorerEmails(
   if (filters.search) params.search = filters.search
   if (filters.sortBy) params.sortBy = filters.sortBy
   if (filters.sortOrder) params.sortOrder = filters.sortOrder
+  if (filters.threadMatch) params.threadMatch = filters.threadMatch
+
+  return params
+}
+
+export async function getExplorerEmails(
+  accountId: string,
+  filters: ExplorerFilters = {},
+  page = 1,
+  limit = 50,
+  mode: 'browse' | 'cleanup' = 'browse'
+): Promise<ExplorerResponse> {
+  const params: Record<string, string> = {
+    page: String(page),
+    limit: String(limit),
+    mode,
+    ...explorerFiltersToParams(filters),
+  }
 
   const { data } = await api.get<ExplorerResponse>(`/api/explorer/accounts/${accountId}/emails`, {
     params,
@@ -442,6 +635,28 @@ export async function getExplorerEmails(
   return data
 }
 
+/**
+ * Get conversation threads matching filters (each thread carries all its message IDs)
+ */
+export async function getExplorerThreads(
+  accountId: string,
+  filters: ExplorerFilters = {},
+  page = 1,
+  limit = 50
+): Promise<ExplorerThreadsResponse> {
+  const params: Record<string, string> = {
+    page: String(page),
+    limit: String(limit),
+    ...explorerFiltersToParams(filters),
+  }
+
+  const { data } = await api.get<ExplorerThreadsResponse>(
+    `/api/explorer/accounts/${accountId}/threads`,
+    { params }
+  )
+  return data
+}
+
 /**
  * Get emails by AI query ID (uses cached filters from ai_query_cache)
  */
@@ -470,6 +685,9 @@ export async function getExplorerEmailCount(
   if (filters.sender) params.sender = filters.sender
   if (filters.senderEmail) params.senderEmail = filters.senderEmail
   if (filters.senderDomain) params.senderDomain = filters.senderDomain
+  if (filters.toEmail) params.toEmail = filters.toEmail
+  if (filters.toDomain) params.toDomain = filters.toDomain
+  if (filters.listId) params.listId = filters.listId
   if (filters.category) params.category = filters.category
   if (filters.dateFrom !== undefined) params.dateFrom = String(filters.dateFrom)
   if (filters.dateTo !== undefined) params.dateTo = String(filters.dateTo)
@@ -528,12 +746,28 @@ export async function trashEmails(
   return data
 }
 
-export interface DeleteResponse {
-  success: boolean
-  deletedCount: number
-  message: string
+export type ArchiveResponse = CleanupJobResponse
+
+/**
+ * Archive emails (remove the INBOX label). Emails already out of the inbox are skipped.
+ */
+export async function archiveEmails(
+  accountId: string,
+  emailIdsOrFilters: string[] | ExplorerFilters
+): Promise<ArchiveResponse> {
+  const body = Array.isArray(emailIdsOrFilters)
+    ? { emailIds: emailIdsOrFilters }
+    : { filters: emailIdsOrFilters }
+
+  const { data } = await api.post<ArchiveResponse>(
+    `/api/explorer/accounts/${accountId}/emails/archive`,
+    body
+  )
+  return data
 }
 
+export type DeleteResponse = CleanupJobResponse
+
 export async function permanentlyDeleteEmails(
   accountId: string,
   emailIdsOrFilters: string[] | ExplorerFilters
@@ -549,6 +783,111 @@ export async function permanentlyDeleteEmails(
   return data
 }
 
+export async function getCleanupJobProgress(
+  accountId: string,
+  jobId: string
+): Promise<CleanupJobProgress> {
+  const { data } = await api.get<CleanupJobProgress>(
+    `/api/explorer/accounts/${accountId}/jobs/${jobId}`
+  )
+  return data
+}
+
+export async function pauseCleanupJob(accountId: string, jobId: string): Promise<void> {
+  await api.post(`/api/explorer/accounts/${accountId}/jobs/${jobId}/pause`)
+}
+
+export async function resumeCleanupJob(accountId: string, jobId: string): Promise<void> {
+  await api.post(`/api/explorer/accounts/${accountId}/jobs/${jobId}/resume`)
+}
+
+export async function cancelCleanupJob(
+  accountId: string,
+  jobId: string
+): Promise<{ success: boolean; message: string }> {
+  const { data } = await api.delete(`/api/explorer/accounts/${accountId}/jobs/${jobId}`)
+  return data
+}
+
+// ============================================================================
+// Eternal Memory API (archived metadata of deleted emails)
+// ============================================================================
+
+export interface DeletedEmailRecord extends Omit<EmailRecord, 'synced_at'> {
+  attachments: string | null // JSON array
+  deleted_at: string // ISO timestamp
+  restorable: boolean // Was only trashed and may still be within Gmail's 30-day window
+}
+
+export interface DeletedEmailsResponse {
+  emails: DeletedEmailRecord[]
+  pagination: ExplorerPagination
+  filters: ExplorerFilters
+  totalSizeBytes: number
+}
+
+export interface UntrashResponse {
+  success: boolean
+  restoredCount: number
+  failedCount: number
+  skippedCount: number
+  message: string
+}
+
+export async function getDeletedEmails(
+  accountId: string,
+  filters: ExplorerFilters = {},
+  page = 1,
+  limit = 50
+): Promise<DeletedEmailsResponse> {
+  const params: Record<string, string> = {
+    page: String(page),
+    limit: String(limit),
+  }
+
+  // Add filter params
+  if (filters.sender) params.sender = filters.sender
+  if (filters.senderEmail) params.senderEmail = filters.senderEmail
+  if (filters.senderDomain) params.senderDomain = filters.senderDomain
+  if (filters.toEmail) params.toEmail = filters.toEmail
+  if (filters.toDomain) params.toDomain = filters.toDomain
+  if (filters.listId) params.listId = filters.listId
+  if (filters.category) params.category = filters.category
+  if (filters.dateFrom !== undefined) params.dateFrom = String(filters.dateFrom)
+  if (filters.dateTo !== undefined) params.dateTo = String(filters.dateTo)
+  if (filters.sizeMin !== undefined) params.sizeMin = String(filters.sizeMin)
+  if (filters.sizeMax !== undefined) params.sizeMax = String(filters.sizeMax)
+  if (filters.isUnread !== undefined) params.isUnread = String(filters.isUnread)
+  if (filters.isStarred !== undefined) params.isStarred = String(filters.isStarred)
+  if (filters.hasAttachments !== undefined) params.hasAttachments = String(filters.hasAttachments)
+  if (filters.isTrash !== undefined) params.isTrash = String(filters.isTrash)
+  if (filters.isSpam !== undefined) params.isSpam = String(filters.isSpam)
+  if (filters.isImportant !== undefined) params.isImportant = String(filters.isImportant)
+  if (filters.isSent !== undefined) params.isSent = String(filters.isSent)
+  if (filters.isArchived !== undefined) params.isArchived = String(filters.isArchived)
+  if (filters.labelIds) params.labelIds = filters.labelIds
+  if (filters.search) params.search = filters.search
+  if (filters.sortBy) params.sortBy = filters.sortBy
+  if (filters.sortOrder) params.sortOrder = filters.sortOrder
+
+  const { data } = await api.get<DeletedEmailsResponse>(
+    `/api/explorer/accounts/${accountId}/deleted`,
+    { params }
+  )
+  return data
+}
+
+export async function untrashDeletedEmails(
+  accountId: string,
+  emailIds: string[]
+): Promise<UntrashResponse> {
+  const { data } = await api.post<UntrashResponse>(
+    `/api/explorer/accounts/${accountId}/deleted/untrash`,
+    { emailIds }
+  )
+  return data
+}
+
 export interface SenderSuggestion {
   type: 'domain' | 'email'
   value: string
@@ -577,6 +916,21 @@ export async function getExplorerCategories(accountId: string): Promise<{ catego
 // Subscriptions API
 // ============================================================================
 
+export type UnsubscribeMethod = 'one_click' | 'mailto' | 'manual'
+export type UnsubscribeStatus = 'success' | 'failed' | 'fallback_needed'
+
+/**
+ * Outcome of the last unsubscribe attempt for a sender
+ */
+export interface UnsubscribeAttempt {
+  method: UnsubscribeMethod
+  status: UnsubscribeStatus
+  target: string | null
+  httpStatus: number | null
+  error: string | null
+  attemptedAt: string | null
+}
+
 export interface Subscription {
   email: string
   name: string | null
@@ -586,6 +940,7 @@ export interface Subscription {
   first_date: number
   latest_date: number
   isUnsubscribed: boolean
+  unsubscribeAttempt: UnsubscribeAttempt | null
 }
 
 export interface SubscriptionFilters {
@@ -638,22 +993,39 @@ export async function getSubscriptions(
   return data
 }
 
+export interface UnsubscribeResult {
+  senderEmail: string
+  method: UnsubscribeMethod
+  status: UnsubscribeStatus
+  target: string | null
+  httpStatus: number | null
+  error: string | null
+}
+
 export interface MarkUnsubscribedResponse {
   success: boolean
   message: string
   alreadyUnsubscribed?: boolean
   markedCount?: number
   alreadyUnsubscribedCount?: number
+  fallbackCount?: number
+  failedCount?: number
+  results?: UnsubscribeResult[]
 }
 
+/**
+ * Unsubscribe from a sender (one-click or mailto, performed by the server)
+ * With markOnly the sender is only recorded as unsubscribed - for manual unsubscribes
+ */
 export async function markAsUnsubscribed(
   accountId: string,
   senderEmail: string,
-  senderName?: string | null
+  senderName?: string | null,
+  markOnly = false
 ): Promise<MarkUnsubscribedResponse> {
   const { data } = await api.post<MarkUnsubscribedResponse>(
     `/api/explorer/accounts/${accountId}/subscriptions/unsubscribe`,
-    { senderEmail, senderName }
+    { senderEmail, senderName, markOnly }
   )
   return data
 }
@@ -669,41 +1041,651 @@ export async function bulkMarkAsUnsubscribed(
   return data
 }
 
-// ============================================================================
-// Setup API
-// ============================================================================
+export type UnsubscribeEscalation = 'filter' | 'spam'
 
-export interface ConfigItem {
-  hasValue: boolean
-  value: string | null
-  source: 'env' | 'database' | 'default'
-  isEditable: boolean
+/**
+ * Sender that kept emailing after being unsubscribed
+ */
+export interface StillSendingSender {
+  email: string
+  name: string | null
+  firstMessageId: string
+  firstEmailAt: number
+  lastEmailAt: number
+  emailCount: number
+  escalation: UnsubscribeEscalation | null
+  escalatedAt: string | null
+  detectedAt: string
+  unsubscribedAt: string | null
+}
+
+export async function getStillSendingSenders(
+  accountId: string
+): Promise<{ senders: StillSendingSender[]; graceDays: number }> {
+  const { data } = await api.get(`/api/explorer/accounts/${accountId}/subscriptions/still-sending`)
+  return data
 }
 
-export interface SetupStatus {
-  setupRequired: boolean
-  setupCompleted: boolean
-  config: {
-    google_client_id: ConfigItem
-    google_client_secret: ConfigItem
-    app_url: ConfigItem
-  }
+export interface EscalateSenderResponse {
+  success: boolean
+  message: string
+  reportedCount: number
+  sender: Omit<StillSendingSender, 'unsubscribedAt'>
 }
 
-export interface SetupConfig {
-  google_client_id?: string
-  google_client_secret?: string
-  app_url?: string
+export async function escalateStillSendingSender(
+  accountId: string,
+  senderEmail: string,
+  action: UnsubscribeEscalation
+): Promise<EscalateSenderResponse> {
+  const { data } = await api.post<EscalateSenderResponse>(
+    `/api/explorer/accounts/${accountId}/subscriptions/still-sending/escalate`,
+    { senderEmail, action }
+  )
+  return data
 }
 
-export interface SetupResponse {
-  success: boolean
-  saved?: string[]
-  errors?: string[]
-  setupCompleted?: boolean
-}
+// ============================================================================
+// Cleanup Rules API (scheduled "recurring exorcisms")
+// ============================================================================
 
-export interface ValidateResponse {
+export type CleanupRuleAction = 'trash' | 'archive' | 'label' | 'delete'
+export type CleanupRuleRunStatus = 'running' | 'completed' | 'failed' | 'cancelled'
+
+export interface CleanupRulePreviewEmail {
+  messageId: string
+  subject: string | null
+  fromEmail: string
+  fromName: string | null
+  internalDate: number | null
+}
+
+export interface CleanupRuleRun {
+  id: string
+  jobId: string | null
+  dryRun: boolean
+  status: CleanupRuleRunStatus
+  matchedCount: number
+  matchedSizeBytes: number
+  processedCount: number
+  preview: CleanupRulePreviewEmail[] | null
+  error: string | null
+  startedAt: string
+  completedAt: string | null
+}
+
+export interface CleanupRule {
+  id: string
+  name: string
+  filters: ExplorerFilters
+  olderThanDays: number | null
+  action: CleanupRuleAction
+  labelId: string | null
+  schedule: string
+  isEnabled: boolean
+  dryRun: boolean
+  lastRunAt: string | null
+  nextRunAt: string | null
+  createdAt: string
+  lastRun?: CleanupRuleRun | null
+}
+
+export interface CleanupRuleInput {
+  name: string
+  filters: ExplorerFilters
+  olderThanDays: number | null
+  action: CleanupRuleAction
+  labelId: string | null
+  schedule: string
+  isEnabled?: boolean
+  dryRun?: boolean
+}
+
+export async function getCleanupRules(accountId: string): Promise<{ rules: CleanupRule[] }> {
+  const { data } = await api.get<{ rules: CleanupRule[] }>(`/api/rules/accounts/${accountId}/rules`)
+  return data
+}
+
+export async function createCleanupRule(
+  accountId: string,
+  input: CleanupRuleInput
+): Promise<{ rule: CleanupRule }> {
+  const { data } = await api.post<{ rule: CleanupRule }>(
+    `/api/rules/accounts/${accountId}/rules`,
+    input
+  )
+  return data
+}
+
+export async function updateCleanupRule(
+  accountId: string,
+  ruleId: string,
+  input: Partial<CleanupRuleInput>
+): Promise<{ rule: CleanupRule }> {
+  const { data } = await api.patch<{ rule: CleanupRule }>(
+    `/api/rules/accounts/${accountId}/rules/${ruleId}`,
+    input
+  )
+  return data
+}
+
+export async function deleteCleanupRule(accountId: string, ruleId: string): Promise<void> {
+  await api.delete(`/api/rules/accounts/${accountId}/rules/${ruleId}`)
+}
+
+export async function runCleanupRule(
+  accountId: string,
+  ruleId: string,
+  dryRun?: boolean
+): Promise<{ run: CleanupRuleRun }> {
+  const { data } = await api.post<{ run: CleanupRuleRun }>(
+    `/api/rules/accounts/${accountId}/rules/${ruleId}/run`,
+    { dryRun }
+  )
+  return data
+}
+
+export async function getCleanupRuleRuns(
+  accountId: string,
+  ruleId: string
+): Promise<{ runs: CleanupRuleRun[] }> {
+  const { data } = await api.get<{ runs: CleanupRuleRun[] }>(
+    `/api/rules/accounts/${accountId}/rules/${ruleId}/runs`
+  )
+  return data
+}
+
+// ============================================================================
+// Mail Rules API (local rules applied to new mail, optionally mirrored to Gmail)
+// ============================================================================
+
+export interface MailRuleCriteria {
+  from?: string
+  to?: string
+  subject?: string
+  hasAttachment?: boolean
+  minSizeBytes?: number
+  maxSizeBytes?: number
+  olderThanDays?: number
+  isUnread?: boolean
+  notRepliedTo?: boolean
+}
+
+export interface MailRuleActions {
+  addLabelIds?: string[]
+  removeLabelIds?: string[]
+  markRead?: boolean
+  archive?: boolean
+  trash?: boolean
+}
+
+export interface MailRule {
+  id: string
+  name: string
+  sequence: number | null
+  criteria: MailRuleCriteria
+  actions: MailRuleActions
+  isEnabled: boolean
+  mirrorToProvider: boolean
+  mirrorBlockers: string[] // Criteria Gmail filters can't express (empty = mirrorable)
+  providerRuleId: string | null
+  syncedAt: string | null
+  driftDetectedAt: string | null
+  appliedCount: number
+  lastAppliedAt: string | null
+  createdAt: string
+}
+
+export interface MailRuleInput {
+  name: string
+  criteria: MailRuleCriteria
+  actions: MailRuleActions
+  sequence?: number
+  isEnabled?: boolean
+  mirrorToProvider?: boolean
+}
+
+export async function getMailRules(accountId: string): Promise<{ rules: MailRule[] }> {
+  const { data } = await api.get<{ rules: MailRule[] }>(
+    `/api/mail-rules/accounts/${accountId}/rules`
+  )
+  return data
+}
+
+export async function createMailRule(
+  accountId: string,
+  input: MailRuleInput
+): Promise<{ rule: MailRule }> {
+  const { data } = await api.post<{ rule: MailRule }>(
+    `/api/mail-rules/accounts/${accountId}/rules`,
+    input
+  )
+  return data
+}
+
+export async function updateMailRule(
+  accountId: string,
+  ruleId: string,
+  input: Partial<MailRuleInput>
+): Promise<{ rule: MailRule }> {
+  const { data } = await api.patch<{ rule: MailRule }>(
+    `/api/mail-rules/accounts/${accountId}/rules/${ruleId}`,
+    input
+  )
+  return data
+}
+
+export async function deleteMailRule(accountId: string, ruleId: string): Promise<void> {
+  await api.delete(`/api/mail-rules/accounts/${accountId}/rules/${ruleId}`)
+}
+
+/**
+ * Apply a rule to the whole mailbox (dry run only counts the emails that would change)
+ */
+export async function runMailRule(
+  accountId: string,
+  ruleId: string,
+  dryRun?: boolean
+): Promise<{ changed: number; dryRun: boolean }> {
+  const { data } = await api.post<{ changed: number; dryRun: boolean }>(
+    `/api/mail-rules/accounts/${accountId}/rules/${ruleId}/run`,
+    { dryRun }
+  )
+  return data
+}
+
+export async function checkMailRuleDrift(
+  accountId: string
+): Promise<{ drifted: number; rules: MailRule[] }> {
+  const { data } = await api.post<{ drifted: number; rules: MailRule[] }>(
+    `/api/mail-rules/accounts/${accountId}/drift/check`
+  )
+  return data
+}
+
+/**
+ * Resolve a drifted rule: 'push' overwrites the Gmail filter, 'pull' takes Gmail's version
+ */
+export async function resolveMailRuleDrift(
+  accountId: string,
+  ruleId: string,
+  strategy: 'push' | 'pull'
+): Promise<{ rule: MailRule }> {
+  const { data } = await api.post<{ rule: MailRule }>(
+    `/api/mail-rules/accounts/${accountId}/rules/${ruleId}/drift/resolve`,
+    { strategy }
+  )
+  return data
+}
+
+// ============================================================================
+// Jobs API (sync and cleanup job history across accounts)
+// ============================================================================
+
+export type JobType = 'sync' | 'trash' | 'delete' | 'archive' | 'label' | 'import' | 'strip'
+
+export type JobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+
+export interface JobInfo {
+  id: string
+  accountId: string
+  accountEmail: string
+  type: JobType
+  status: JobStatus
+  processed: number
+  total: number
+  percentage: number
+  message: string
+  eta: string | null
+  rate: number | null
+  throughput: number | null
+  durationMs: number | null
+  reclaimedBytes: number
+  lastError: string | null
+  retryCount: number
+  createdAt: string
+  startedAt: string | null
+  completedAt: string | null
+  updatedAt: string
+}
+
+export interface JobListFilters {
+  type?: JobType
+  status?: JobStatus
+  accountId?: string
+  limit?: number
+  offset?: number
+}
+
+export interface JobListResponse {
+  jobs: JobInfo[]
+  total: number
+  byStatus: Record<JobStatus, number>
+}
+
+export type JobAction = 'pause' | 'resume' | 'retry' | 'cancel'
+
+export async function getJobs(filters: JobListFilters = {}): Promise<JobListResponse> {
+  const { data } = await api.get<JobListResponse>('/api/jobs', { params: filters })
+  return data
+}
+
+export async function runJobAction(jobId: string, action: JobAction): Promise<JobInfo> {
+  const { data } =
+    action === 'cancel'
+      ? await api.delete<{ job: JobInfo }>(`/api/jobs/${jobId}`)
+      : await api.post<{ job: JobInfo }>(`/api/jobs/${jobId}/${action}`)
+  return data.job
+}
+
+/**
+ * Subscribe to live job updates (SSE)
+ * Returns a function that closes the stream.
+ */
+export function subscribeToJobEvents(onJob: (job: JobInfo) => void): () => void {
+  const source = new EventSource('/api/jobs/events', { withCredentials: true })
+
+  source.addEventListener('job', (event) => {
+    try {
+      onJob(JSON.parse((event as MessageEvent<string>).data) as JobInfo)
+    } catch {
+      // Ignore malformed events
+    }
+  })
+
+  return () => source.close()
+}
+
+// ============================================================================
+// Backups API (raw copies of emails taken before permanent delete)
+// ============================================================================
+
+export type BackupFormat = 'mbox' | 'maildir'
+
+export interface BackupSettings {
+  format: BackupFormat | null
+  directory: string
+  count: number
+  totalSizeBytes: number
+  lastBackedUpAt: string | null
+}
+
+export interface EmailBackup {
+  messageId: string
+  threadId: string | null
+  format: BackupFormat
+  fromEmail: string | null
+  subject: string | null
+  internalDate: number | null
+  sizeBytes: number
+  sha256: string
+  backedUpAt: string | null
+}
+
+export interface BackupListResponse {
+  backups: EmailBackup[]
+  total: number
+}
+
+export async function getBackupSettings(accountId: string): Promise<BackupSettings> {
+  const { data } = await api.get<BackupSettings>(`/api/backups/accounts/${accountId}`)
+  return data
+}
+
+export async function updateBackupFormat(
+  accountId: string,
+  format: BackupFormat | null
+): Promise<void> {
+  await api.put(`/api/backups/accounts/${accountId}`, { format })
+}
+
+export async function getBackups(
+  accountId: string,
+  params: { search?: string; limit?: number; offset?: number } = {}
+): Promise<BackupListResponse> {
+  const { data } = await api.get<BackupListResponse>(
+    `/api/backups/accounts/${accountId}/messages`,
+    { params }
+  )
+  return data
+}
+
+/**
+ * Download URLs - plain links, the session cookie authenticates them
+ */
+export function getBackupMessageUrl(accountId: string, messageId: string): string {
+  return `/api/backups/accounts/${accountId}/messages/${encodeURIComponent(messageId)}/raw`
+}
+
+export function getBackupExportUrl(accountId: string): string {
+  return `/api/backups/accounts/${accountId}/export`
+}
+
+export function getBackupManifestUrl(accountId: string): string {
+  return `/api/backups/accounts/${accountId}/manifest`
+}
+
+// ============================================================================
+// Imports API (put messages back into Gmail from mbox/.eml files or the backup)
+// ============================================================================
+
+export type ImportSource = 'upload' | 'backup'
+
+export interface ImportMessageError {
+  index: number
+  messageId: string | null
+  subject: string | null
+  error: string
+}
+
+export interface ImportJob {
+  id: string
+  status: JobStatus
+  source: ImportSource
+  totalMessages: number
+  processedMessages: number
+  imported: number
+  skipped: number
+  failed: number
+  errors: ImportMessageError[]
+  lastError: string | null
+  createdAt: string | null
+  completedAt: string | null
+}
+
+export async function getImports(accountId: string): Promise<ImportJob[]> {
+  const { data } = await api.get<{ imports: ImportJob[] }>(`/api/imports/accounts/${accountId}`)
+  return data.imports
+}
+
+export async function uploadImport(accountId: string, files: File[]): Promise<ImportJob> {
+  const formData = new FormData()
+  for (const file of files) {
+    formData.append('files', file)
+  }
+  // Large archives take a while to upload - no request timeout
+  const { data } = await api.post<ImportJob>(
+    `/api/imports/accounts/${accountId}/upload`,
+    formData,
+    {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      timeout: 0,
+    }
+  )
+  return data
+}
+
+export async function restoreFromBackup(
+  accountId: string,
+  messageIds?: string[]
+): Promise<ImportJob> {
+  const { data } = await api.post<ImportJob>(`/api/imports/accounts/${accountId}/backup`, {
+    messageIds,
+  })
+  return data
+}
+
+// ============================================================================
+// Attachments API (attachment explorer, zip downloads and stripping)
+// ============================================================================
+
+export type AttachmentType =
+  | 'image'
+  | 'pdf'
+  | 'document'
+  | 'spreadsheet'
+  | 'presentation'
+  | 'archive'
+  | 'audio'
+  | 'video'
+  | 'calendar'
+  | 'other'
+
+export type AttachmentSizeBucket = 'small' | 'medium' | 'large' | 'huge'
+
+export type AttachmentSort = 'size' | 'date' | 'name'
+
+export interface Attachment {
+  id: string // "<messageId>:<index>"
+  messageId: string
+  index: number
+  filename: string
+  mimeType: string
+  type: AttachmentType
+  size: number
+  fromEmail: string
+  fromName: string | null
+  subject: string | null
+  internalDate: number | null
+}
+
+export interface AttachmentGroups {
+  types: Array<{ type: AttachmentType; count: number; totalSize: number }>
+  senders: Array<{ email: string; name: string | null; count: number; totalSize: number }>
+  sizes: Array<{ bucket: AttachmentSizeBucket; count: number; totalSize: number }>
+}
+
+export interface AttachmentListResponse {
+  attachments: Attachment[]
+  total: number
+  totalSize: number
+  groups: AttachmentGroups
+}
+
+export interface AttachmentFilters {
+  search?: string
+  type?: AttachmentType
+  sender?: string
+  size?: AttachmentSizeBucket
+  sort?: AttachmentSort
+  limit?: number
+  offset?: number
+}
+
+export interface SavedAttachment {
+  id: string
+  originalMessageId: string
+  messageId: string
+  filename: string
+  mimeType: string
+  sizeBytes: number
+  sha256: string
+  fromEmail: string | null
+  subject: string | null
+  internalDate: number | null
+  savedAt: string | null
+}
+
+export interface SavedAttachmentListResponse {
+  attachments: SavedAttachment[]
+  total: number
+  totalSize: number
+}
+
+export async function getAttachments(
+  accountId: string,
+  params: AttachmentFilters = {}
+): Promise<AttachmentListResponse> {
+  const { data } = await api.get<AttachmentListResponse>(`/api/attachments/accounts/${accountId}`, {
+    params,
+  })
+  return data
+}
+
+export async function stripAttachments(
+  accountId: string,
+  ids: string[]
+): Promise<{ id: string; totalMessages: number }> {
+  const { data } = await api.post<{ id: string; totalMessages: number }>(
+    `/api/attachments/accounts/${accountId}/strip`,
+    { ids }
+  )
+  return data
+}
+
+export async function getSavedAttachments(
+  accountId: string,
+  params: { search?: string; limit?: number; offset?: number } = {}
+): Promise<SavedAttachmentListResponse> {
+  const { data } = await api.get<SavedAttachmentListResponse>(
+    `/api/attachments/accounts/${accountId}/saved`,
+    { params }
+  )
+  return data
+}
+
+/**
+ * Download URLs - plain links, the session cookie authenticates them
+ */
+export function getAttachmentUrl(accountId: string, attachment: Attachment): string {
+  return `/api/attachments/accounts/${accountId}/messages/${encodeURIComponent(attachment.messageId)}/${attachment.index}`
+}
+
+export function getAttachmentsZipUrl(accountId: string, ids: string[]): string {
+  return `/api/attachments/accounts/${accountId}/download?ids=${encodeURIComponent(ids.join(','))}`
+}
+
+export function getSavedAttachmentUrl(accountId: string, savedId: string): string {
+  return `/api/attachments/accounts/${accountId}/saved/${savedId}`
+}
+
+// ============================================================================
+// Setup API
+// ============================================================================
+
+export interface ConfigItem {
+  hasValue: boolean
+  value: string | null
+  source: 'env' | 'database' | 'default' | 'unset'
+  isEditable: boolean
+}
+
+export interface SetupStatus {
+  setupRequired: boolean
+  setupCompleted: boolean
+  config: {
+    google_client_id: ConfigItem
+    google_client_secret: ConfigItem
+    app_url: ConfigItem
+    login_allowlist: ConfigItem
+  }
+}
+
+export interface SetupConfig {
+  google_client_id?: string
+  google_client_secret?: string
+  app_url?: string
+  login_allowlist?: string // comma-separated emails or domains
+}
+
+export interface SetupResponse {
+  success: boolean
+  saved?: string[]
+  errors?: string[]
+  setupCompleted?: boolean
+}
+
+export interface ValidateResponse {
   valid: boolean
   error?: string
   message?: string
@@ -735,6 +1717,66 @@ export async function validateSetupCredentials(): Promise<ValidateResponse> {
   return data
 }
 
+// ============================================================================
+// Admin API (instance users and login allowlist)
+// ============================================================================
+
+export interface AdminMailAccount {
+  id: string
+  email: string
+  provider: string
+  syncStatus: string
+  syncCompletedAt: string | null
+  createdAt: string | null
+}
+
+export interface AdminUser {
+  id: string
+  email: string
+  name: string | null
+  picture: string | null
+  isAdmin: boolean
+  isDisabled: boolean
+  disabledAt: string | null
+  isCurrentUser: boolean
+  activeSessions: number
+  createdAt: string | null
+  mailAccounts: AdminMailAccount[]
+}
+
+export interface LoginAllowlist {
+  entries: string[]
+  source: ConfigItem['source']
+  isEditable: boolean
+}
+
+export async function getAdminUsers(): Promise<{ users: AdminUser[] }> {
+  const { data } = await api.get<{ users: AdminUser[] }>('/api/admin/users')
+  return data
+}
+
+export async function updateAdminUser(
+  userId: string,
+  update: { disabled?: boolean; isAdmin?: boolean }
+): Promise<{ user: AdminUser | null }> {
+  const { data } = await api.patch<{ user: AdminUser | null }>(`/api/admin/users/${userId}`, update)
+  return data
+}
+
+export async function deleteAdminUser(userId: string): Promise<void> {
+  await api.delete(`/api/admin/users/${userId}`)
+}
+
+export async function getLoginAllowlist(): Promise<LoginAllowlist> {
+  const { data } = await api.get<LoginAllowlist>('/api/admin/allowlist')
+  return data
+}
+
+export async function updateLoginAllowlist(entries: string[]): Promise<LoginAllowlist> {
+  const { data } = await api.put<LoginAllowlist>('/api/admin/allowlist', { entries })
+  return data
+}
+
 // ============================================================================
 // Filters & Labels API
 // ============================================================================
@@ -896,6 +1938,126 @@ export async function testFilterCriteria(
   return data
 }
 
+export interface FilterImportEntry {
+  index: number
+  criteria: FilterCriteria
+  action: FilterAction
+  labelNames: string[]
+  missingLabels: string[] // Labels the import creates
+  status: 'new' | 'duplicate' | 'invalid'
+  duplicateOf: string | null
+  reason: string | null
+}
+
+export interface FilterImportPreview {
+  entries: FilterImportEntry[]
+  missingLabels: string[]
+}
+
+export interface FilterImportResult {
+  success: boolean
+  created: number
+  skipped: number
+  failed: number
+  labelsCreated: string[]
+  message: string
+}
+
+/**
+ * URL to download all filters as mailFilters.xml
+ */
+export function getFiltersExportUrl(accountId: string): string {
+  return `/api/filters/accounts/${accountId}/filters/export`
+}
+
+/**
+ * Check a mailFilters.xml file against the account's filters and labels (writes nothing)
+ */
+export async function previewFilterImport(
+  accountId: string,
+  xml: string
+): Promise<FilterImportPreview> {
+  const { data } = await api.post<FilterImportPreview>(
+    `/api/filters/accounts/${accountId}/filters/import/preview`,
+    { xml }
+  )
+  return data
+}
+
+/**
+ * Import the new filters of a mailFilters.xml file (optionally only some entries)
+ */
+export async function importFilters(
+  accountId: string,
+  xml: string,
+  indexes?: number[]
+): Promise<FilterImportResult> {
+  const { data } = await api.post<FilterImportResult>(
+    `/api/filters/accounts/${accountId}/filters/import`,
+    { xml, indexes }
+  )
+  return data
+}
+
+export type FilterLintType =
+  | 'duplicate'
+  | 'mergeable'
+  | 'shadowed'
+  | 'conflict'
+  | 'missing-label'
+  | 'dead'
+
+export interface FilterLintFinding {
+  id: string
+  type: FilterLintType
+  filterIds: string[]
+  message: string
+  fix: {
+    description: string
+    deleteFilterIds: string[]
+    create: { criteria: FilterCriteria; action: FilterAction } | null
+  }
+}
+
+export interface FilterLintReport {
+  filterCount: number
+  findings: FilterLintFinding[]
+  deadCheck: { months: number; checked: number; unsupported: number } | null // null until synced
+}
+
+export interface FilterLintFixResult {
+  success: boolean
+  finding: FilterLintFinding
+  message: string
+}
+
+/**
+ * Find duplicate, shadowed, conflicting and dead filters
+ * @param months - Filters with no matching mail in this many months count as dead
+ */
+export async function lintFilters(accountId: string, months: number): Promise<FilterLintReport> {
+  const { data } = await api.get<FilterLintReport>(
+    `/api/filters/accounts/${accountId}/filters/lint`,
+    { params: { months } }
+  )
+  return data
+}
+
+/**
+ * Apply the suggested fix of a lint finding
+ */
+export async function applyFilterLintFix(
+  accountId: string,
+  findingId: string,
+  months: number
+): Promise<FilterLintFixResult> {
+  const { data } = await api.post<FilterLintFixResult>(
+    `/api/filters/accounts/${accountId}/filters/lint/fix`,
+    { findingId, months }
+  )
+  return data
+}
+
 /**
  * Get all labels for an account
  */
@@ -1138,7 +2300,7 @@ interface StreamCallbacks {
   onConfirmationNeeded?: (confirmation: {
     toolCallId: string
     toolName: string
-    action: 'delete' | 'trash' | 'createFilter'
+    action: 'delete' | 'trash' | 'archive' | 'createFilter'
     count?: number
     totalSize?: number
     totalSizeFormatted?: string
@@ -1307,7 +2469,7 @@ export async function sendChatMessage(
  * Execute a confirmed action from the AI chat and stream AI continuation
  */
 export interface ExecuteActionRequest {
-  action: 'delete' | 'trash' | 'createFilter'
+  action: 'delete' | 'trash' | 'archive' | 'createFilter'
   filters: Record<string, unknown>
   conversationId: string
   toolCallId: string
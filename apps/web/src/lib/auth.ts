@@ -30,9 +30,13 @@ interface LogoutResult {
  * Exchange OAuth code for tokens
  * Backend sets cookies automatically
  */
-export async function exchangeOAuthCode(code: string, state: string): Promise<ExchangeResult> {
+export async function exchangeOAuthCode(
+  code: string,
+  state: string,
+  provider: 'google' | 'microsoft' = 'google'
+): Promise<ExchangeResult> {
   try {
-    const response = await fetch('/api/auth/google/exchange', {
+    const response = await fetch(`/api/auth/${provider}/exchange`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       credentials: 'include',
@@ -1,5 +1,5 @@
 import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios'
-import { refreshAuthToken } from './auth'
+import { logoutAuth, refreshAuthToken } from './auth'
 
 /**
  * Axios instance with default configuration.
@@ -68,6 +68,13 @@ api.interceptors.response.use(
       return Promise.reject(error)
     }
 
+    // Disabled by an admin - drop the session cookies and send back to login
+    if (error.response?.status === 403 && error.response.data?.error === 'account_disabled') {
+      await logoutAuth()
+      redirectToLogin()
+      return Promise.reject(error)
+    }
+
     const message =
       error.response?.data?.error ||
       error.response?.data?.message ||
@@ -12,6 +12,9 @@ export function filtersToSearchParams(filters: ExplorerFilters, allMail = false)
   if (filters.sender) params.set('sender', filters.sender)
   if (filters.senderEmail) params.set('senderEmail', filters.senderEmail)
   if (filters.senderDomain) params.set('senderDomain', filters.senderDomain)
+  if (filters.toEmail) params.set('toEmail', filters.toEmail)
+  if (filters.toDomain) params.set('toDomain', filters.toDomain)
+  if (filters.listId) params.set('listId', filters.listId)
   if (filters.category) params.set('category', filters.category)
   if (filters.search) params.set('search', filters.search)
   if (filters.dateFrom !== undefined) params.set('dateFrom', String(filters.dateFrom))
@@ -33,6 +36,7 @@ export function filtersToSearchParams(filters: ExplorerFilters, allMail = false)
   if (filters.labelIds) params.set('labelIds', filters.labelIds)
   if (filters.sortBy) params.set('sortBy', filters.sortBy)
   if (filters.sortOrder) params.set('sortOrder', filters.sortOrder)
+  if (filters.threadMatch) params.set('threadMatch', filters.threadMatch)
 
   return params
 }
@@ -53,6 +57,15 @@ export function searchParamsToFilters(params: URLSearchParams): ExplorerFilters
   const senderDomain = params.get('senderDomain')
   if (senderDomain) filters.senderDomain = senderDomain
 
+  const toEmail = params.get('toEmail')
+  if (toEmail) filters.toEmail = toEmail
+
+  const toDomain = params.get('toDomain')
+  if (toDomain) filters.toDomain = toDomain
+
+  const listId = params.get('listId')
+  if (listId) filters.listId = listId
+
   const category = params.get('category')
   if (category) filters.category = category
 
@@ -108,6 +121,11 @@ export function searchParamsToFilters(params: URLSearchParams): ExplorerFilters
     filters.sortOrder = sortOrder
   }
 
+  const threadMatch = params.get('threadMatch')
+  if (threadMatch === 'any' || threadMatch === 'all') {
+    filters.threadMatch = threadMatch
+  }
+
   // Handle location: loc=all means All Mail, otherwise default to Inbox
   const loc = params.get('loc')
   if (loc === 'all') {
@@ -0,0 +1,76 @@
+/**
+ * Admin page translations
+ *
+ * Instance users and login allowlist - "the coven" in exorcist mode.
+ */
+export const admin = {
+  en: {
+    // Page header
+    'admin.title': 'Admin',
+    'admin.description': 'Manage who can sign in to this instance and the users who already have.',
+
+    // Allowlist
+    'admin.allowlist.title': 'Login allowlist',
+    'admin.allowlist.description':
+      'Only these emails or domains can sign in. Leave empty to allow any Google account. Admins can always sign in.',
+    'admin.allowlist.placeholder': 'alice@gmail.com, example.com',
+    'admin.allowlist.envLocked': 'Set via the LOGIN_ALLOWLIST environment variable',
+    'admin.allowlist.open': 'Anyone with a Google account can sign in',
+    'admin.allowlist.save': 'Save allowlist',
+    'admin.allowlist.saved': 'Allowlist saved',
+    'admin.allowlist.error': 'Failed to save allowlist',
+
+    // Users
+    'admin.users.title': 'Users',
+    'admin.users.count': '{count} users',
+    'admin.users.you': 'You',
+    'admin.users.admin': 'Admin',
+    'admin.users.disabled': 'Disabled',
+    'admin.users.joined': 'Joined {date}',
+    'admin.users.sessions': '{count} active sessions',
+    'admin.users.noAccounts': 'No connected mail accounts',
+    'admin.users.disable': 'Disable',
+    'admin.users.enable': 'Enable',
+    'admin.users.updated': 'User updated',
+    'admin.users.error': 'Failed to update user',
+    'admin.users.delete': 'Delete user',
+    'admin.users.delete.description':
+      '{email} will be signed out and their mail accounts and synced data removed from this instance. Nothing is deleted from Gmail.',
+    'admin.users.delete.success': 'User deleted',
+  },
+  exorcist: {
+    // Page header
+    'admin.title': 'The Coven',
+    'admin.description':
+      'Decide who may cross the threshold, and watch over those who already have.',
+
+    // Allowlist
+    'admin.allowlist.title': 'The guest list',
+    'admin.allowlist.description':
+      'Only these souls or domains may enter. Leave empty to let any Google spirit in. The coven elders always may.',
+    'admin.allowlist.placeholder': 'alice@gmail.com, example.com',
+    'admin.allowlist.envLocked': 'Bound by the LOGIN_ALLOWLIST environment variable',
+    'admin.allowlist.open': 'The doors are open to every Google spirit',
+    'admin.allowlist.save': 'Seal the list',
+    'admin.allowlist.saved': 'Guest list sealed',
+    'admin.allowlist.error': 'The seal did not hold',
+
+    // Users
+    'admin.users.title': 'Members',
+    'admin.users.count': '{count} members',
+    'admin.users.you': 'You',
+    'admin.users.admin': 'Elder',
+    'admin.users.disabled': 'Banished',
+    'admin.users.joined': 'Joined {date}',
+    'admin.users.sessions': '{count} active séances',
+    'admin.users.noAccounts': 'No haunted inboxes',
+    'admin.users.disable': 'Banish',
+    'admin.users.enable': 'Welcome back',
+    'admin.users.updated': 'Member updated',
+    'admin.users.error': 'The ritual failed',
+    'admin.users.delete': 'Cast out member',
+    'admin.users.delete.description':
+      '{email} will be cast out and their inboxes and memories removed from this sanctuary. Gmail itself is untouched.',
+    'admin.users.delete.success': 'Member cast out',
+  },
+} as const
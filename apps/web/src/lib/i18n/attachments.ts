@@ -0,0 +1,143 @@
+/**
+ * Attachments page translations
+ *
+ * Attachment explorer and stripping - "cursed artifacts" in exorcist mode.
+ */
+export const attachments = {
+  en: {
+    // Page header
+    'attachments.title': 'Attachments',
+    'attachments.description':
+      'Every attachment in your mailbox, by type, sender and size. Download them, or keep the emails and drop the heavy files.',
+
+    // Filters
+    'attachments.search': 'Search file names',
+    'attachments.filter.allTypes': 'All types',
+    'attachments.filter.allSenders': 'All senders',
+    'attachments.filter.allSizes': 'All sizes',
+    'attachments.filter.clear': 'Clear filters',
+    'attachments.sort.size': 'Largest first',
+    'attachments.sort.date': 'Newest first',
+    'attachments.sort.name': 'By name',
+
+    // Groups
+    'attachments.group.types': 'Types',
+    'attachments.group.senders': 'Top senders',
+    'attachments.group.sizes': 'Sizes',
+    'attachments.type.image': 'Images',
+    'attachments.type.pdf': 'PDFs',
+    'attachments.type.document': 'Documents',
+    'attachments.type.spreadsheet': 'Spreadsheets',
+    'attachments.type.presentation': 'Presentations',
+    'attachments.type.archive': 'Archives',
+    'attachments.type.audio': 'Audio',
+    'attachments.type.video': 'Video',
+    'attachments.type.calendar': 'Invites',
+    'attachments.type.other': 'Other',
+    'attachments.size.small': 'Under 100 KB',
+    'attachments.size.medium': '100 KB – 1 MB',
+    'attachments.size.large': '1 – 10 MB',
+    'attachments.size.huge': 'Over 10 MB',
+
+    // List
+    'attachments.count': '{count} attachments · {size}',
+    'attachments.column.name': 'File',
+    'attachments.column.from': 'From',
+    'attachments.column.date': 'Date',
+    'attachments.column.size': 'Size',
+    'attachments.noSubject': '(no subject)',
+    'attachments.download': 'Download',
+    'attachments.empty': 'No attachments in this mailbox',
+    'attachments.emptyFilter': 'No attachments match these filters',
+    'attachments.loadMore': 'Load more',
+
+    // Selection
+    'attachments.selected': '{count} selected · {size}',
+    'attachments.downloadZip': 'Download zip',
+    'attachments.zipLimit': 'Zip downloads hold up to {max} attachments',
+    'attachments.strip': 'Keep emails, drop attachments',
+
+    // Strip confirmation
+    'attachments.strip.title': 'Drop {count} attachments?',
+    'attachments.strip.description':
+      'The attachments are saved on this server first. Each email is then replaced by a copy without them, with the same labels and thread, and the original is permanently deleted from Gmail.',
+    'attachments.strip.confirm': 'Drop attachments',
+    'attachments.strip.cancel': 'Cancel',
+    'attachments.strip.started': 'Stripping attachments - follow it on the Jobs page',
+    'attachments.strip.error': 'Failed to strip attachments',
+
+    // Saved attachments
+    'attachments.saved.title': 'Saved on this server',
+    'attachments.saved.description': 'Attachments dropped from emails, kept here for download.',
+    'attachments.saved.count': '{count} files · {size}',
+    'attachments.saved.empty': 'No attachments have been dropped yet',
+  },
+  exorcist: {
+    // Page header
+    'attachments.title': 'Cursed Artifacts',
+    'attachments.description':
+      'Every artifact bound to your souls, by kind, summoner and weight. Claim them, or spare the souls and cast off their burdens.',
+
+    // Filters
+    'attachments.search': 'Seek by name',
+    'attachments.filter.allTypes': 'All kinds',
+    'attachments.filter.allSenders': 'All summoners',
+    'attachments.filter.allSizes': 'Any weight',
+    'attachments.filter.clear': 'Break the wards',
+    'attachments.sort.size': 'Heaviest first',
+    'attachments.sort.date': 'Most recent first',
+    'attachments.sort.name': 'By name',
+
+    // Groups
+    'attachments.group.types': 'Kinds',
+    'attachments.group.senders': 'Chief summoners',
+    'attachments.group.sizes': 'Weights',
+    'attachments.type.image': 'Visions',
+    'attachments.type.pdf': 'PDFs',
+    'attachments.type.document': 'Scrolls',
+    'attachments.type.spreadsheet': 'Ledgers',
+    'attachments.type.presentation': 'Sermons',
+    'attachments.type.archive': 'Sealed caskets',
+    'attachments.type.audio': 'Whispers',
+    'attachments.type.video': 'Apparitions',
+    'attachments.type.calendar': 'Summonses',
+    'attachments.type.other': 'Unknown relics',
+    'attachments.size.small': 'Under 100 KB',
+    'attachments.size.medium': '100 KB – 1 MB',
+    'attachments.size.large': '1 – 10 MB',
+    'attachments.size.huge': 'Over 10 MB',
+
+    // List
+    'attachments.count': '{count} artifacts · {size}',
+    'attachments.column.name': 'Artifact',
+    'attachments.column.from': 'From',
+    'attachments.column.date': 'Date',
+    'attachments.column.size': 'Weight',
+    'attachments.noSubject': '(nameless)',
+    'attachments.download': 'Claim',
+    'attachments.empty': 'No artifacts haunt this mailbox',
+    'attachments.emptyFilter': 'No artifacts answer these wards',
+    'attachments.loadMore': 'Dig deeper',
+
+    // Selection
+    'attachments.selected': '{count} chosen · {size}',
+    'attachments.downloadZip': 'Claim as zip',
+    'attachments.zipLimit': 'A zip holds at most {max} artifacts',
+    'attachments.strip': 'Spare the souls, cast off the artifacts',
+
+    // Strip confirmation
+    'attachments.strip.title': 'Cast off {count} artifacts?',
+    'attachments.strip.description':
+      'The artifacts are first sealed away on this server. Each soul is then reborn without them, keeping its brands and thread, and the burdened original is obliterated from Gmail.',
+    'attachments.strip.confirm': 'Cast them off',
+    'attachments.strip.cancel': 'Hold',
+    'attachments.strip.started': 'The exhumation has begun - watch it on the Jobs page',
+    'attachments.strip.error': 'The artifacts resisted',
+
+    // Saved attachments
+    'attachments.saved.title': 'Sealed on this server',
+    'attachments.saved.description': 'Artifacts cast off from souls, kept here to be claimed.',
+    'attachments.saved.count': '{count} artifacts · {size}',
+    'attachments.saved.empty': 'No artifacts have been cast off yet',
+  },
+} as const
@@ -0,0 +1,113 @@
+/**
+ * Backups page translations
+ *
+ * Local copies of emails taken before permanent delete - "the reliquary" in exorcist mode.
+ */
+export const backups = {
+  en: {
+    // Page header
+    'backups.title': 'Backups',
+    'backups.description':
+      'Keep a full copy of every email on this server before it is permanently deleted. Copies are stored as mbox or Maildir, with a manifest.',
+
+    // Settings
+    'backups.setting.title': 'Back up before deleting',
+    'backups.setting.description':
+      'Delete jobs download each email first. Emails whose backup fails are not deleted.',
+    'backups.format.off': 'Off',
+    'backups.format.mbox': 'mbox (single file)',
+    'backups.format.maildir': 'Maildir (one file per email)',
+    'backups.setting.saved': 'Backup setting saved',
+    'backups.setting.error': 'Failed to save backup setting',
+    'backups.directory': 'Stored in {path}',
+
+    // Summary
+    'backups.count': '{count} emails backed up',
+    'backups.lastBackup': 'last one {date}',
+    'backups.export': 'Export mbox',
+    'backups.manifest': 'Manifest',
+
+    // List
+    'backups.search': 'Search sender or subject',
+    'backups.column.date': 'Date',
+    'backups.column.from': 'From',
+    'backups.column.subject': 'Subject',
+    'backups.column.size': 'Size',
+    'backups.download': 'Download .eml',
+    'backups.noSubject': '(no subject)',
+    'backups.empty': 'Nothing backed up yet',
+    'backups.emptySearch': 'No backups match this search',
+    'backups.loadMore': 'Load more',
+    'backups.restore': 'Restore to Gmail',
+
+    // Import
+    'backups.import.title': 'Import into Gmail',
+    'backups.import.description':
+      'Put emails back into this account from mbox or .eml files (Google Takeout labels are restored), or from the backup above. Emails already in Gmail are skipped.',
+    'backups.import.choose': 'Choose files',
+    'backups.import.selected': '{count} files selected',
+    'backups.import.upload': 'Import files',
+    'backups.import.restoreAll': 'Restore all backups',
+    'backups.import.started': 'Import started',
+    'backups.import.error': 'Failed to start import',
+    'backups.import.source.upload': 'Uploaded files',
+    'backups.import.source.backup': 'Backup',
+    'backups.import.progress': '{processed} of {total} emails',
+    'backups.import.counts': '{imported} imported · {skipped} already in Gmail · {failed} failed',
+    'backups.import.errors': 'Show failed emails',
+    'backups.import.moreErrors': 'Only the first {count} failures are listed',
+  },
+  exorcist: {
+    // Page header
+    'backups.title': 'Reliquary',
+    'backups.description':
+      'Preserve a relic of every soul before it is obliterated. Relics rest on this server as mbox or Maildir, catalogued in a manifest.',
+
+    // Settings
+    'backups.setting.title': 'Take a relic before obliterating',
+    'backups.setting.description':
+      'Every obliteration first claims a relic of each soul. Souls whose relic cannot be taken are spared.',
+    'backups.format.off': 'No relics',
+    'backups.format.mbox': 'mbox (one great tome)',
+    'backups.format.maildir': 'Maildir (a scroll per soul)',
+    'backups.setting.saved': 'The reliquary is set',
+    'backups.setting.error': 'The reliquary resisted',
+    'backups.directory': 'Kept in {path}',
+
+    // Summary
+    'backups.count': '{count} relics preserved',
+    'backups.lastBackup': 'the latest {date}',
+    'backups.export': 'Export the tome',
+    'backups.manifest': 'Catalogue',
+
+    // List
+    'backups.search': 'Seek by sender or subject',
+    'backups.column.date': 'Date',
+    'backups.column.from': 'From',
+    'backups.column.subject': 'Subject',
+    'backups.column.size': 'Weight',
+    'backups.download': 'Take the relic (.eml)',
+    'backups.noSubject': '(nameless)',
+    'backups.empty': 'The reliquary is empty',
+    'backups.emptySearch': 'No relics answer this search',
+    'backups.loadMore': 'Dig deeper',
+    'backups.restore': 'Resurrect into Gmail',
+
+    // Import
+    'backups.import.title': 'Resurrection',
+    'backups.import.description':
+      'Raise souls back into this account from mbox or .eml scrolls (Google Takeout brands are restored), or from the reliquary above. Souls that already walk in Gmail are left be.',
+    'backups.import.choose': 'Choose scrolls',
+    'backups.import.selected': '{count} scrolls chosen',
+    'backups.import.upload': 'Raise the scrolls',
+    'backups.import.restoreAll': 'Resurrect every relic',
+    'backups.import.started': 'The resurrection has begun',
+    'backups.import.error': 'The resurrection failed to begin',
+    'backups.import.source.upload': 'Offered scrolls',
+    'backups.import.source.backup': 'Reliquary',
+    'backups.import.progress': '{processed} of {total} souls',
+    'backups.import.counts': '{imported} raised · {skipped} already walking · {failed} lost',
+    'backups.import.errors': 'Show the lost souls',
+    'backups.import.moreErrors': 'Only the first {count} lost souls are named',
+  },
+} as const
@@ -75,6 +75,10 @@ export const bishop = {
     'bishop.cot.trashEmails.complete': 'Moved emails to trash',
     'bishop.cot.trashEmails.error': 'Failed to move to trash',
     'bishop.cot.trashEmails.cancelled': 'Move to trash cancelled',
+    'bishop.cot.archiveEmails.active': 'Awaiting approval to archive...',
+    'bishop.cot.archiveEmails.complete': 'Archived emails',
+    'bishop.cot.archiveEmails.error': 'Failed to archive',
+    'bishop.cot.archiveEmails.cancelled': 'Archive cancelled',
     'bishop.cot.deleteEmails.active': 'Awaiting approval to delete...',
     'bishop.cot.deleteEmails.complete': 'Deleted emails permanently',
     'bishop.cot.deleteEmails.error': 'Failed to delete',
@@ -91,6 +95,7 @@ export const bishop = {
     // Confirmation dialogs
     'bishop.confirm.delete.title': 'Confirm Delete',
     'bishop.confirm.trash.title': 'Confirm Move to Trash',
+    'bishop.confirm.archive.title': 'Confirm Archive',
     'bishop.confirm.filter.title': 'Confirm Create Filter',
     'bishop.confirm.emails': 'emails',
     'bishop.confirm.storage': 'storage',
@@ -99,6 +104,7 @@ export const bishop = {
     'bishop.confirm.cancel': 'Cancel',
     'bishop.confirm.delete': 'Delete',
     'bishop.confirm.trash': 'Move to Trash',
+    'bishop.confirm.archive': 'Archive',
     'bishop.confirm.createFilter': 'Create Filter',
     'bishop.confirm.cancelledByUser': 'Cancelled by user',
 
@@ -188,6 +194,10 @@ export const bishop = {
     'bishop.cot.trashEmails.complete': 'Souls banished to purgatory',
     'bishop.cot.trashEmails.error': 'Banishment failed',
     'bishop.cot.trashEmails.cancelled': 'Banishment cancelled',
+    'bishop.cot.archiveEmails.active': 'Awaiting blessing to entomb...',
+    'bishop.cot.archiveEmails.complete': 'Souls laid to rest in the crypt',
+    'bishop.cot.archiveEmails.error': 'Entombment failed',
+    'bishop.cot.archiveEmails.cancelled': 'Entombment cancelled',
     'bishop.cot.deleteEmails.active': 'Awaiting blessing to obliterate...',
     'bishop.cot.deleteEmails.complete': 'Souls obliterated',
     'bishop.cot.deleteEmails.error': 'Obliteration failed',
@@ -204,6 +214,7 @@ export const bishop = {
     // Confirmation dialogs
     'bishop.confirm.delete.title': 'Confirm Obliteration',
     'bishop.confirm.trash.title': 'Confirm Banishment',
+    'bishop.confirm.archive.title': 'Confirm Entombment',
     'bishop.confirm.filter.title': 'Confirm Ward Inscription',
     'bishop.confirm.emails': 'souls',
     'bishop.confirm.storage': 'essence',
@@ -212,6 +223,7 @@ export const bishop = {
     'bishop.confirm.cancel': 'Abort',
     'bishop.confirm.delete': 'Obliterate',
     'bishop.confirm.trash': 'Banish to Purgatory',
+    'bishop.confirm.archive': 'Entomb',
     'bishop.confirm.createFilter': 'Inscribe Ward',
     'bishop.confirm.cancelledByUser': 'Ritual aborted',
 
@@ -6,9 +6,14 @@ export const dialogs = {
     // Unsubscribe Dialog
     'dialog.unsubscribe.title': 'Unsubscribe from {sender}',
     'dialog.unsubscribe.description':
-      "You'll be redirected to the sender's unsubscribe page. After unsubscribing, come back here to confirm.",
+      "We'll unsubscribe you automatically when the sender supports it. Otherwise, open their unsubscribe page and come back here to confirm.",
     'dialog.unsubscribe.unknownSender': 'Unknown sender',
     'dialog.unsubscribe.emailCount': '{count} emails',
+    'dialog.unsubscribe.auto.title': 'Unsubscribe automatically',
+    'dialog.unsubscribe.auto.description':
+      'Sends the one-click unsubscribe request or unsubscribe email on your behalf',
+    'dialog.unsubscribe.auto.button': 'Unsubscribe Now',
+    'dialog.unsubscribe.manual': 'Or unsubscribe manually',
     'dialog.unsubscribe.step1.title': 'Open unsubscribe page',
     'dialog.unsubscribe.step1.description': 'Click below to open the unsubscribe page in a new tab',
     'dialog.unsubscribe.step1.button': 'Open Unsubscribe Page',
@@ -35,20 +40,27 @@ export const dialogs = {
 
     // Email Actions
     'emailActions.trash': 'Trash',
+    'emailActions.archive': 'Archive',
     'emailActions.delete': 'Delete',
 
     // Toast messages
     'toast.trash.error': 'Failed to trash emails',
+    'toast.archive.error': 'Failed to archive emails',
     'toast.delete.error': 'Failed to delete emails',
-    'toast.bulkUnsubscribe.error': 'Failed to mark subscriptions as unsubscribed',
+    'toast.bulkUnsubscribe.error': 'Failed to unsubscribe from subscriptions',
   },
   exorcist: {
     // Unsubscribe Dialog
     'dialog.unsubscribe.title': 'Banish {sender}',
     'dialog.unsubscribe.description':
-      "You'll be sent to the haunter's banishment portal. After the ritual, return here to seal the banishment.",
+      "We'll banish the haunter for you when it allows. Otherwise, visit its banishment portal and return here to seal the banishment.",
     'dialog.unsubscribe.unknownSender': 'Unknown spirit',
     'dialog.unsubscribe.emailCount': '{count} hauntings',
+    'dialog.unsubscribe.auto.title': 'Banish instantly',
+    'dialog.unsubscribe.auto.description':
+      'Chants the one-click banishment or sends the banishment scroll on your behalf',
+    'dialog.unsubscribe.auto.button': 'Banish Now',
+    'dialog.unsubscribe.manual': 'Or perform the ritual by hand',
     'dialog.unsubscribe.step1.title': 'Open banishment portal',
     'dialog.unsubscribe.step1.description':
       'Click below to open the banishment ritual in a new realm',
@@ -76,11 +88,13 @@ export const dialogs = {
 
     // Email Actions
     'emailActions.trash': 'Cast Out',
+    'emailActions.archive': 'Entomb',
     'emailActions.delete': 'Banish',
 
     // Toast messages
     'toast.trash.error': 'Failed to cast out spirits',
+    'toast.archive.error': 'Failed to entomb spirits',
     'toast.delete.error': 'Failed to banish spirits',
-    'toast.bulkUnsubscribe.error': 'Failed to mark haunters as banished',
+    'toast.bulkUnsubscribe.error': 'Failed to banish haunters',
   },
 } as const
@@ -0,0 +1,26 @@
+/**
+ * Eternal Memory page translations
+ *
+ * Eternal Memory keeps the metadata of every deleted email - in exorcist mode
+ * it's where the banished spirits are remembered.
+ */
+export const eternalMemory = {
+  en: {
+    'eternalMemory.title': 'Eternal Memory',
+    'eternalMemory.description':
+      'Metadata of trashed and deleted emails. Emails still in the trash can be restored within 30 days.',
+    'eternalMemory.restore': 'Restore',
+    'eternalMemory.restorableHint': '{count} of the selected emails can still be restored',
+    'eternalMemory.noneRestorable': 'None of the selected emails can be restored',
+    'eternalMemory.restore.error': 'Failed to restore emails',
+  },
+  exorcist: {
+    'eternalMemory.title': 'Eternal Memory',
+    'eternalMemory.description':
+      'Every banished spirit is remembered here. Those only cast into the void can be summoned back within 30 days.',
+    'eternalMemory.restore': 'Summon Back',
+    'eternalMemory.restorableHint': '{count} of the marked spirits can still be summoned back',
+    'eternalMemory.noneRestorable': 'None of the marked spirits can be summoned back',
+    'eternalMemory.restore.error': 'The summoning failed',
+  },
+} as const
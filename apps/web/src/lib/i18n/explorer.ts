@@ -18,18 +18,28 @@ export const explorer = {
     // Empty states
     'explorer.noEmails': 'No emails found',
     'explorer.noEmails.description': 'Try adjusting your filters',
+    'explorer.noThreads': 'No threads found',
+
+    // Messages / threads view
+    'explorer.view.messages': 'Messages',
+    'explorer.view.threads': 'Threads',
+    'explorer.threadMatch.any': 'Any message matches',
+    'explorer.threadMatch.all': 'Whole thread matches',
 
     // Pagination
     'explorer.showing': 'Showing',
     'explorer.of': 'of',
     'explorer.emails': 'emails',
+    'explorer.threads': 'threads',
     'explorer.page': 'Page',
 
     // Filters
     'explorer.search': 'Search',
     'explorer.clearAll': 'Clear All',
-    'explorer.searchSubject': 'Search subject...',
+    'explorer.searchSubject': 'Search emails (from:, subject:, filename:)...',
     'explorer.filterBySender': 'Filter by sender...',
+    'explorer.filterByRecipient': 'Sent to (address or @domain)...',
+    'explorer.filterByList': 'Mailing list (List-Id)...',
     'explorer.searchSenders': 'Search senders...',
     'explorer.noSendersFound': 'No senders found',
     'explorer.filterByLabel': 'Filter by label...',
@@ -66,6 +76,18 @@ export const explorer = {
       'This action cannot be undone. These emails will be permanently deleted from your Gmail account.',
     'explorer.delete.confirmText': 'permanently delete',
     'explorer.delete.confirm': 'Delete Forever',
+
+    // Background trash/delete job
+    'explorer.job.trashing': 'Moving emails to trash',
+    'explorer.job.deleting': 'Deleting emails permanently',
+    'explorer.job.archiving': 'Archiving emails',
+    'explorer.job.paused': 'Paused',
+    'explorer.job.failed': 'Cleanup stopped',
+    'explorer.job.progress': '{processed} of {total} emails',
+    'explorer.job.pause': 'Pause',
+    'explorer.job.resume': 'Resume',
+    'explorer.job.cancel': 'Cancel',
+    'explorer.job.dismiss': 'Dismiss',
   },
   exorcist: {
     // Page header - Browse all the spirits haunting your inbox
@@ -80,11 +102,19 @@ export const explorer = {
     // Empty states
     'explorer.noEmails': 'No spirits found',
     'explorer.noEmails.description': 'Try adjusting your ritual parameters',
+    'explorer.noThreads': 'No haunted threads found',
+
+    // Messages / threads view
+    'explorer.view.messages': 'Spirits',
+    'explorer.view.threads': 'Hauntings',
+    'explorer.threadMatch.any': 'Any spirit matches',
+    'explorer.threadMatch.all': 'Whole haunting matches',
 
     // Pagination
     'explorer.showing': 'Revealing',
     'explorer.of': 'of',
     'explorer.emails': 'spirits',
+    'explorer.threads': 'hauntings',
     'explorer.page': 'Page',
 
     // Filters
@@ -92,6 +122,8 @@ export const explorer = {
     'explorer.clearAll': 'Clear All',
     'explorer.searchSubject': 'Search the whispers...',
     'explorer.filterBySender': 'Filter by haunter...',
+    'explorer.filterByRecipient': 'Haunting whom (address or @domain)...',
+    'explorer.filterByList': 'Coven (List-Id)...',
     'explorer.searchSenders': 'Search haunters...',
     'explorer.noSendersFound': 'No haunters found',
     'explorer.filterByLabel': 'Filter by sigil...',
@@ -128,5 +160,17 @@ export const explorer = {
       'This ritual cannot be undone. These spirits will be permanently banished from your realm.',
     'explorer.delete.confirmText': 'banish forever',
     'explorer.delete.confirm': 'Perform Banishment',
+
+    // Background trash/delete job
+    'explorer.job.trashing': 'Casting spirits into the void',
+    'explorer.job.deleting': 'Banishing spirits forever',
+    'explorer.job.archiving': 'Sending spirits to the crypt',
+    'explorer.job.paused': 'Ritual paused',
+    'explorer.job.failed': 'Ritual interrupted',
+    'explorer.job.progress': '{processed} of {total} spirits',
+    'explorer.job.pause': 'Pause',
+    'explorer.job.resume': 'Resume',
+    'explorer.job.cancel': 'Abandon',
+    'explorer.job.dismiss': 'Dismiss',
   },
 } as const
@@ -18,6 +18,51 @@ export const filters: Record<Language, Record<string, string>> = {
     // Create buttons
     'filters.createFilter': 'Create Filter',
     'filters.createLabel': 'Create Label',
+    'filters.import': 'Import',
+    'filters.export': 'Export',
+
+    // Filters - Import from mailFilters.xml
+    'filterImport.title': 'Import Filters',
+    'filterImport.description':
+      'Import a mailFilters.xml file exported from Gmail settings. Nothing is created until you confirm.',
+    'filterImport.choose': 'Choose mailFilters.xml',
+    'filterImport.chooseAnother': 'Choose another file',
+    'filterImport.reading': 'Checking filters...',
+    'filterImport.summary': '{new} new, {duplicate} duplicates, {invalid} invalid',
+    'filterImport.missingLabels': 'These labels will be created: {labels}',
+    'filterImport.labels': 'Labels: {labels}',
+    'filterImport.status.new': 'New',
+    'filterImport.status.duplicate': 'Duplicate',
+    'filterImport.status.invalid': 'Invalid',
+    'filterImport.submit': 'Import {count} filters',
+    'filterImport.success': 'Imported {count} filters',
+    'filterImport.partial': '{failed} filters could not be created',
+    'filterImport.error': 'Failed to import filters',
+    'filterImport.error.read': 'Failed to read filters from the file',
+
+    // Filters - Lint
+    'filters.lint': 'Check Filters',
+    'filterLint.title': 'Check Filters',
+    'filterLint.description':
+      'Finds duplicate, overlapping, conflicting and unused filters. Each finding suggests a fix you can apply with one click.',
+    'filterLint.summary': '{findings} findings in {filters} filters',
+    'filterLint.months': 'Unused for {months} months',
+    'filterLint.deadCheck.notSynced':
+      'Unused filters are found once your mailbox has finished syncing.',
+    'filterLint.deadCheck.unsupported':
+      '{count} filters use search syntax that can only be checked in Gmail, so they are never reported as unused.',
+    'filterLint.type.duplicate': 'Duplicate',
+    'filterLint.type.mergeable': 'Mergeable',
+    'filterLint.type.shadowed': 'Redundant',
+    'filterLint.type.conflict': 'Conflict',
+    'filterLint.type.missing-label': 'Deleted label',
+    'filterLint.type.dead': 'Unused',
+    'filterLint.fix': 'Fix: {fix}',
+    'filterLint.apply': 'Fix',
+    'filterLint.empty': 'No problems found',
+    'filterLint.close': 'Close',
+    'filterLint.error.load': 'Failed to check filters',
+    'filterLint.error.fix': 'Failed to apply the fix',
 
     // Filters - Empty state
     'filters.empty.title': 'No filters yet',
@@ -282,6 +327,51 @@ export const filters: Record<Language, Record<string, string>> = {
     // Create buttons
     'filters.createFilter': 'Cast Ward',
     'filters.createLabel': 'Create Sigil',
+    'filters.import': 'Summon',
+    'filters.export': 'Inscribe',
+
+    // Filters - Import from mailFilters.xml
+    'filterImport.title': 'Summon Wards',
+    'filterImport.description':
+      'Summon wards from a mailFilters.xml scroll exported from Gmail settings. Nothing is cast until you confirm.',
+    'filterImport.choose': 'Choose mailFilters.xml',
+    'filterImport.chooseAnother': 'Choose another scroll',
+    'filterImport.reading': 'Reading the scroll...',
+    'filterImport.summary': '{new} new, {duplicate} already cast, {invalid} broken',
+    'filterImport.missingLabels': 'These sigils will be created: {labels}',
+    'filterImport.labels': 'Sigils: {labels}',
+    'filterImport.status.new': 'New',
+    'filterImport.status.duplicate': 'Already cast',
+    'filterImport.status.invalid': 'Broken',
+    'filterImport.submit': 'Cast {count} wards',
+    'filterImport.success': 'Cast {count} wards',
+    'filterImport.partial': '{failed} wards could not be cast',
+    'filterImport.error': 'Failed to summon the wards',
+    'filterImport.error.read': 'Failed to read wards from the scroll',
+
+    // Filters - Lint
+    'filters.lint': 'Inspect Wards',
+    'filterLint.title': 'Inspect Wards',
+    'filterLint.description':
+      'Seeks out wards cast twice, wards that overlap or fight each other, and wards that have gone still. Each comes with a remedy you can cast in one click.',
+    'filterLint.summary': '{findings} flaws among {filters} wards',
+    'filterLint.months': 'Still for {months} months',
+    'filterLint.deadCheck.notSynced':
+      'Still wards are revealed once the possession scan has finished.',
+    'filterLint.deadCheck.unsupported':
+      '{count} wards speak a tongue only Gmail understands, so they are never reported as still.',
+    'filterLint.type.duplicate': 'Cast twice',
+    'filterLint.type.mergeable': 'Mergeable',
+    'filterLint.type.shadowed': 'Overshadowed',
+    'filterLint.type.conflict': 'Conflict',
+    'filterLint.type.missing-label': 'Lost sigil',
+    'filterLint.type.dead': 'Still',
+    'filterLint.fix': 'Remedy: {fix}',
+    'filterLint.apply': 'Mend',
+    'filterLint.empty': 'Your wards are sound',
+    'filterLint.close': 'Close',
+    'filterLint.error.load': 'Failed to inspect the wards',
+    'filterLint.error.fix': 'Failed to mend the ward',
 
     // Filters - Empty state
     'filters.empty.title': 'No wards cast yet',
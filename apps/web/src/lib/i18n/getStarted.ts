@@ -26,6 +26,9 @@ export const getStarted = {
     'setup.clientId': 'Google Client ID',
     'setup.clientSecret': 'Google Client Secret',
     'setup.appUrl': 'App URL',
+    'setup.loginAllowlist': 'Login allowlist',
+    'setup.loginAllowlistHint':
+      'Emails or domains allowed to sign in. Leave empty to allow any Google account.',
     'setup.optional': 'optional',
     'setup.envBadge': 'env',
     'setup.submit': 'Save & Continue',
@@ -59,6 +62,9 @@ export const getStarted = {
     'setup.clientId': 'Google Client ID',
     'setup.clientSecret': 'Google Client Secret',
     'setup.appUrl': 'App URL',
+    'setup.loginAllowlist': 'Guest list',
+    'setup.loginAllowlistHint':
+      'Souls or domains allowed past the threshold. Leave empty to let any Google spirit in.',
     'setup.optional': 'optional',
     'setup.envBadge': 'env',
     'setup.submit': 'Begin the Ritual',
@@ -10,12 +10,19 @@ import { common } from './common'
 import { sync } from './sync'
 import { overview } from './overview'
 import { explorer } from './explorer'
+import { eternalMemory } from './eternalMemory'
 import { subscriptions } from './subscriptions'
 import { settings } from './settings'
 import { getStarted } from './getStarted'
 import { dialogs } from './dialogs'
 import { filters } from './filters'
 import { bishop } from './bishop'
+import { rules } from './rules'
+import { mailRules } from './mailRules'
+import { admin } from './admin'
+import { jobs } from './jobs'
+import { backups } from './backups'
+import { attachments } from './attachments'
 
 export type Language = 'en' | 'exorcist'
 
@@ -42,12 +49,19 @@ export const translations = mergeTranslations(
   sync,
   overview,
   explorer,
+  eternalMemory,
   subscriptions,
   settings,
   getStarted,
   dialogs,
   filters,
-  bishop
+  bishop,
+  rules,
+  mailRules,
+  admin,
+  jobs,
+  backups,
+  attachments
 )
 
 export type TranslationKey = keyof typeof translations.en
@@ -106,10 +120,17 @@ export {
   sync,
   overview,
   explorer,
+  eternalMemory,
   subscriptions,
   settings,
   getStarted,
   dialogs,
   filters,
   bishop,
+  rules,
+  mailRules,
+  admin,
+  jobs,
+  backups,
+  attachments,
 }
@@ -0,0 +1,125 @@
+/**
+ * Jobs page translations
+ *
+ * Sync and cleanup job history - "the ritual log" in exorcist mode.
+ */
+export const jobs = {
+  en: {
+    // Page header
+    'jobs.title': 'Jobs',
+    'jobs.description':
+      'Every sync and cleanup across your accounts. Running jobs update live; failed ones can be retried from where they stopped.',
+    'jobs.live': 'Live',
+
+    // Filters
+    'jobs.filter.allTypes': 'All types',
+    'jobs.filter.allStatuses': 'All statuses',
+    'jobs.count': '{count} jobs',
+
+    // Types
+    'jobs.type.sync': 'Sync',
+    'jobs.type.trash': 'Trash',
+    'jobs.type.delete': 'Delete',
+    'jobs.type.archive': 'Archive',
+    'jobs.type.label': 'Label',
+    'jobs.type.import': 'Import',
+    'jobs.type.strip': 'Strip attachments',
+
+    // Statuses
+    'jobs.status.pending': 'Queued',
+    'jobs.status.running': 'Running',
+    'jobs.status.paused': 'Paused',
+    'jobs.status.completed': 'Completed',
+    'jobs.status.failed': 'Failed',
+    'jobs.status.cancelled': 'Cancelled',
+
+    // Job card
+    'jobs.progress': '{processed} of {total} emails',
+    'jobs.created': 'Queued {date}',
+    'jobs.duration': 'Took {duration}',
+    'jobs.elapsed': 'Running for {duration}',
+    'jobs.throughput': '{rate} emails/s',
+    'jobs.eta': '{eta} left',
+    'jobs.retries': '{count} retries',
+    'jobs.error': 'Error',
+
+    // Actions
+    'jobs.action.pause': 'Pause',
+    'jobs.action.resume': 'Resume',
+    'jobs.action.retry': 'Retry',
+    'jobs.action.cancel': 'Cancel',
+    'jobs.action.pause.success': 'Job paused',
+    'jobs.action.resume.success': 'Job resumed',
+    'jobs.action.retry.success': 'Job queued for retry',
+    'jobs.action.cancel.success': 'Job cancelled',
+    'jobs.action.error': 'Failed to update job',
+    'jobs.cancel.title': 'Cancel this job?',
+    'jobs.cancel.description':
+      'The job stops after its current batch. Emails it already processed stay that way.',
+    'jobs.cancel.keep': 'Keep running',
+
+    // States
+    'jobs.empty': 'No jobs yet',
+    'jobs.emptyFiltered': 'No jobs match these filters',
+    'jobs.loadMore': 'Load more',
+  },
+  exorcist: {
+    // Page header
+    'jobs.title': 'Ritual Log',
+    'jobs.description':
+      'Every summoning and banishment across your realms. Rites in progress update as they happen; broken ones can be recast from where they faltered.',
+    'jobs.live': 'Watching',
+
+    // Filters
+    'jobs.filter.allTypes': 'All rites',
+    'jobs.filter.allStatuses': 'Every fate',
+    'jobs.count': '{count} rituals',
+
+    // Types
+    'jobs.type.sync': 'Summoning',
+    'jobs.type.trash': 'Banishment',
+    'jobs.type.delete': 'Obliteration',
+    'jobs.type.archive': 'Entombment',
+    'jobs.type.label': 'Branding',
+    'jobs.type.import': 'Resurrection',
+    'jobs.type.strip': 'Exhumation',
+
+    // Statuses
+    'jobs.status.pending': 'Awaiting',
+    'jobs.status.running': 'Chanting',
+    'jobs.status.paused': 'Held',
+    'jobs.status.completed': 'Sealed',
+    'jobs.status.failed': 'Broken',
+    'jobs.status.cancelled': 'Abandoned',
+
+    // Job card
+    'jobs.progress': '{processed} of {total} souls',
+    'jobs.created': 'Invoked {date}',
+    'jobs.duration': 'Lasted {duration}',
+    'jobs.elapsed': 'Chanting for {duration}',
+    'jobs.throughput': '{rate} souls/s',
+    'jobs.eta': '{eta} until sealed',
+    'jobs.retries': 'Recast {count} times',
+    'jobs.error': 'What went wrong',
+
+    // Actions
+    'jobs.action.pause': 'Hold',
+    'jobs.action.resume': 'Continue',
+    'jobs.action.retry': 'Recast',
+    'jobs.action.cancel': 'Abandon',
+    'jobs.action.pause.success': 'The ritual is held',
+    'jobs.action.resume.success': 'The chanting resumes',
+    'jobs.action.retry.success': 'The ritual will be recast',
+    'jobs.action.cancel.success': 'The ritual is abandoned',
+    'jobs.action.error': 'The ritual resisted',
+    'jobs.cancel.title': 'Abandon this ritual?',
+    'jobs.cancel.description':
+      'The chanting stops after the current verse. Souls already dealt with stay that way.',
+    'jobs.cancel.keep': 'Keep chanting',
+
+    // States
+    'jobs.empty': 'No rituals performed yet',
+    'jobs.emptyFiltered': 'No rituals match these omens',
+    'jobs.loadMore': 'Read further',
+  },
+} as const
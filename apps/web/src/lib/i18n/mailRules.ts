@@ -0,0 +1,204 @@
+/**
+ * Translations for mail rules (local rules applied to new mail, mirrored to Gmail filters)
+ */
+
+import type { Language } from './index'
+
+export const mailRules: Record<Language, Record<string, string>> = {
+  en: {
+    'filters.tab.rules': 'Rules',
+    'filters.createRule': 'Create Rule',
+
+    // List
+    'mailRules.intro':
+      "Rules run in Inboxorcist on newly synced mail, so they can use conditions Gmail filters can't: age, size ranges, read state and senders you never replied to.",
+    'mailRules.checkDrift': 'Check Gmail filters',
+    'mailRules.drift.inSync': 'Mirrored Gmail filters are in sync',
+    'mailRules.drift.found': '{count} mirrored filter(s) were changed in Gmail',
+    'mailRules.drift.error': 'Failed to check Gmail filters',
+    'mailRules.empty.title': 'No rules yet',
+    'mailRules.empty.description':
+      'Rules clean up new mail as it arrives: label, archive, mark read or trash it.',
+    'mailRules.error.load': 'Failed to load rules. Please try again.',
+    'mailRules.enabled': 'Enabled',
+    'mailRules.mirrored': 'Mirrored to Gmail',
+    'mailRules.applied': 'Changed {count} emails',
+    'mailRules.lastApplied': 'last {time}',
+    'mailRules.neverApplied': 'Not applied yet',
+    'mailRules.preview': 'Preview',
+    'mailRules.runNow': 'Apply to existing',
+    'mailRules.run.wouldChange': '{count} existing emails would change',
+    'mailRules.run.changed': 'Changed {count} emails',
+    'mailRules.run.error': 'Failed to apply rule',
+    'mailRules.update.error': 'Failed to update rule',
+
+    // Drift
+    'mailRules.drift.title': 'Changed in Gmail',
+    'mailRules.drift.description':
+      'The mirrored Gmail filter was edited or deleted in Gmail {time}.',
+    'mailRules.drift.push': 'Overwrite Gmail',
+    'mailRules.drift.pull': "Use Gmail's version",
+    'mailRules.drift.resolved': 'Rule and Gmail filter are in sync again',
+
+    // Criteria and actions
+    'mailRules.criteria.from': 'from: {value}',
+    'mailRules.criteria.to': 'to: {value}',
+    'mailRules.criteria.subject': 'subject: {value}',
+    'mailRules.criteria.hasAttachment': 'has attachment',
+    'mailRules.criteria.noAttachment': 'no attachment',
+    'mailRules.criteria.minSize': 'larger than {size}',
+    'mailRules.criteria.maxSize': 'smaller than {size}',
+    'mailRules.criteria.olderThan': 'older than {days} days',
+    'mailRules.criteria.unread': 'unread',
+    'mailRules.criteria.read': 'read',
+    'mailRules.criteria.notRepliedTo': 'never replied to',
+    'mailRules.action.addLabel': 'Label {label}',
+    'mailRules.action.removeLabel': 'Remove {label}',
+    'mailRules.action.markRead': 'Mark read',
+    'mailRules.action.archive': 'Archive',
+    'mailRules.action.trash': 'Move to trash',
+
+    // Delete
+    'mailRules.delete.title': 'Delete Rule',
+    'mailRules.delete.description':
+      'The rule stops applying to new mail. A mirrored Gmail filter is deleted too.',
+    'mailRules.delete.success': 'Rule deleted',
+
+    // Form
+    'mailRules.form.createTitle': 'Create Rule',
+    'mailRules.form.editTitle': 'Edit Rule',
+    'mailRules.form.description':
+      'Rules are checked against each batch of newly synced mail, in order.',
+    'mailRules.form.name': 'Name',
+    'mailRules.form.namePlaceholder': 'e.g. Archive old newsletters',
+    'mailRules.form.criteria': 'When new mail matches...',
+    'mailRules.form.from': 'From',
+    'mailRules.form.to': 'To (address or domain)',
+    'mailRules.form.subject': 'Subject contains',
+    'mailRules.form.olderThan': 'Older than (days)',
+    'mailRules.form.minSize': 'Larger than (MB)',
+    'mailRules.form.maxSize': 'Smaller than (MB)',
+    'mailRules.form.readState': 'Read state',
+    'mailRules.form.attachments': 'Attachments',
+    'mailRules.form.any': 'Any',
+    'mailRules.form.unread': 'Unread',
+    'mailRules.form.read': 'Read',
+    'mailRules.form.withAttachments': 'With attachments',
+    'mailRules.form.withoutAttachments': 'Without attachments',
+    'mailRules.form.notRepliedTo': "Only senders I've never replied to",
+    'mailRules.form.actions': 'Then...',
+    'mailRules.form.addLabel': 'Add label',
+    'mailRules.form.removeLabel': 'Remove label',
+    'mailRules.form.selectLabel': 'Select a label',
+    'mailRules.form.markRead': 'Mark as read',
+    'mailRules.form.archive': 'Archive',
+    'mailRules.form.trash': 'Move to trash',
+    'mailRules.form.mirror': 'Mirror to a Gmail filter',
+    'mailRules.form.mirrorHint':
+      'Gmail applies the rule on delivery too. Edits made in Gmail are flagged here.',
+    'mailRules.form.mirrorBlocked': "Gmail filters can't match on {blockers}.",
+    'mailRules.form.needsCriteria': 'Add at least one condition and one action.',
+    'mailRules.form.create': 'Create Rule',
+    'mailRules.form.save': 'Save Changes',
+    'mailRules.created': 'Rule created',
+    'mailRules.updated': 'Rule updated',
+    'mailRules.error.save': 'Failed to save rule',
+  },
+  exorcist: {
+    'filters.tab.rules': 'Rites',
+    'filters.createRule': 'Bind Rite',
+
+    // List
+    'mailRules.intro':
+      "Rites are performed by Inboxorcist on freshly summoned mail, so they can sense what Gmail wards can't: age, bulk, wakefulness and spirits you never answered.",
+    'mailRules.checkDrift': 'Inspect Gmail wards',
+    'mailRules.drift.inSync': 'All mirrored wards hold',
+    'mailRules.drift.found': '{count} mirrored ward(s) were tampered with in Gmail',
+    'mailRules.drift.error': 'Failed to inspect the wards',
+    'mailRules.empty.title': 'No rites bound yet',
+    'mailRules.empty.description':
+      'Rites deal with new spirits as they arrive: mark, banish, silence or cast them into the pit.',
+    'mailRules.error.load': 'Failed to recall the rites. Try the ritual again.',
+    'mailRules.enabled': 'Active',
+    'mailRules.mirrored': 'Mirrored to Gmail',
+    'mailRules.applied': 'Dealt with {count} spirits',
+    'mailRules.lastApplied': 'last {time}',
+    'mailRules.neverApplied': 'Not yet performed',
+    'mailRules.preview': 'Divine',
+    'mailRules.runNow': 'Perform on the possessed',
+    'mailRules.run.wouldChange': '{count} possessed emails would be dealt with',
+    'mailRules.run.changed': 'Dealt with {count} spirits',
+    'mailRules.run.error': 'The rite failed',
+    'mailRules.update.error': 'Failed to alter the rite',
+
+    // Drift
+    'mailRules.drift.title': 'Tampered with in Gmail',
+    'mailRules.drift.description': 'The mirrored Gmail ward was altered or broken in Gmail {time}.',
+    'mailRules.drift.push': 'Recast the ward',
+    'mailRules.drift.pull': "Accept Gmail's version",
+    'mailRules.drift.resolved': 'Rite and ward are bound again',
+
+    // Criteria and actions
+    'mailRules.criteria.from': 'from: {value}',
+    'mailRules.criteria.to': 'to: {value}',
+    'mailRules.criteria.subject': 'subject: {value}',
+    'mailRules.criteria.hasAttachment': 'carries relics',
+    'mailRules.criteria.noAttachment': 'no relics',
+    'mailRules.criteria.minSize': 'heavier than {size}',
+    'mailRules.criteria.maxSize': 'lighter than {size}',
+    'mailRules.criteria.olderThan': 'older than {days} days',
+    'mailRules.criteria.unread': 'unread',
+    'mailRules.criteria.read': 'read',
+    'mailRules.criteria.notRepliedTo': 'never answered',
+    'mailRules.action.addLabel': 'Mark with {label}',
+    'mailRules.action.removeLabel': 'Erase {label}',
+    'mailRules.action.markRead': 'Silence',
+    'mailRules.action.archive': 'Banish',
+    'mailRules.action.trash': 'Cast into the pit',
+
+    // Delete
+    'mailRules.delete.title': 'Break Rite',
+    'mailRules.delete.description':
+      'The rite stops guarding new mail. A mirrored Gmail ward is broken too.',
+    'mailRules.delete.success': 'Rite broken',
+
+    // Form
+    'mailRules.form.createTitle': 'Bind New Rite',
+    'mailRules.form.editTitle': 'Alter Rite',
+    'mailRules.form.description': 'Rites are performed on each batch of fresh spirits, in order.',
+    'mailRules.form.name': 'Name',
+    'mailRules.form.namePlaceholder': 'e.g. Banish stale newsletters',
+    'mailRules.form.criteria': 'When a fresh spirit shows these signs...',
+    'mailRules.form.from': 'From the depths of',
+    'mailRules.form.to': 'Addressed to (address or domain)',
+    'mailRules.form.subject': 'Subject contains',
+    'mailRules.form.olderThan': 'Older than (days)',
+    'mailRules.form.minSize': 'Heavier than (MB)',
+    'mailRules.form.maxSize': 'Lighter than (MB)',
+    'mailRules.form.readState': 'Wakefulness',
+    'mailRules.form.attachments': 'Relics',
+    'mailRules.form.any': 'Any',
+    'mailRules.form.unread': 'Unread',
+    'mailRules.form.read': 'Read',
+    'mailRules.form.withAttachments': 'Carrying relics',
+    'mailRules.form.withoutAttachments': 'Without relics',
+    'mailRules.form.notRepliedTo': "Only spirits I've never answered",
+    'mailRules.form.actions': 'Then perform...',
+    'mailRules.form.addLabel': 'Inscribe sigil',
+    'mailRules.form.removeLabel': 'Erase sigil',
+    'mailRules.form.selectLabel': 'Choose a sigil',
+    'mailRules.form.markRead': 'Silence',
+    'mailRules.form.archive': 'Banish',
+    'mailRules.form.trash': 'Cast into the pit',
+    'mailRules.form.mirror': 'Mirror as a Gmail ward',
+    'mailRules.form.mirrorHint':
+      'Gmail performs the rite on arrival too. Tampering in Gmail is reported here.',
+    'mailRules.form.mirrorBlocked': "Gmail wards can't sense {blockers}.",
+    'mailRules.form.needsCriteria': 'A rite needs at least one sign and one action.',
+    'mailRules.form.create': 'Bind Rite',
+    'mailRules.form.save': 'Seal Changes',
+    'mailRules.created': 'Rite bound',
+    'mailRules.updated': 'Rite altered',
+    'mailRules.error.save': 'Failed to bind the rite',
+  },
+}
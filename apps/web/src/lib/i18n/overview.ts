@@ -51,6 +51,7 @@ export const overview = {
     // Quick cleanup section
     'cleanup.title': 'Quick Cleanup',
     'cleanup.badge': 'Syncing...',
+    'cleanup.archive': 'Archive all (remove from inbox)',
     'cleanup.description': 'Select a category to clean (excludes starred & important)',
     'cleanup.promotions': 'Marketing',
     'cleanup.promotions.desc': 'Newsletters & promos',
@@ -74,6 +75,34 @@ export const overview = {
     'cleanup.spam.desc': 'Empty spam folder',
     'cleanup.trash': 'Trash',
     'cleanup.trash.desc': 'Permanent delete',
+
+    // Trends section
+    'trends.title': 'Trends',
+    'trends.description': 'Recorded once a day after the background sync',
+    'trends.empty': 'The first snapshot is recorded after the next background sync',
+    'trends.size': 'Mailbox size',
+    'trends.size.subtitle': '{count} days of snapshots',
+    'trends.size.change': '{change} since {date}',
+    'trends.projection': 'Projection',
+    'trends.quota': 'Quota',
+    'trends.reclaimed': 'Reclaimed by Inboxorcist',
+    'trends.reclaimed.subtitle': '{size} freed in this period',
+    'trends.reclaimed.empty': 'Nothing deleted yet in this period',
+    'trends.forecast.title': 'Storage forecast',
+    'trends.forecast.usage': '{used} of {quota} used by mail',
+    'trends.forecast.full': 'Full in about {days} days ({date})',
+    'trends.forecast.alreadyFull': 'Mail already fills the quota',
+    'trends.forecast.notGrowing': 'Not growing - the quota is not in sight',
+    'trends.forecast.rate': '{size} per day',
+    'trends.forecast.basis.snapshots': 'Net growth over your snapshots, cleanup included',
+    'trends.forecast.basis.recent_mail':
+      'Based on mail received in the last 90 days until there is a week of snapshots',
+    'trends.forecast.sharedQuota':
+      'Gmail shares the quota with Drive and Photos, which are not counted here.',
+    'trends.quota.label': 'Storage plan',
+    'trends.quota.default': 'Default ({size})',
+    'trends.quota.saved': 'Storage plan updated',
+    'trends.quota.error': 'Failed to update storage plan',
   },
   exorcist: {
     // Page header - The overview shows the full picture of your haunting
@@ -118,6 +147,7 @@ export const overview = {
     // Quick cleanup section - exorcism themed
     'cleanup.title': 'Quick Exorcism',
     'cleanup.badge': 'Sensing...',
+    'cleanup.archive': 'Entomb all (remove from inbox)',
     'cleanup.description': 'Banish by category (blessed items are protected)',
     'cleanup.promotions': 'Tempters',
     'cleanup.promotions.desc': 'Sales & "deals"',
@@ -141,5 +171,33 @@ export const overview = {
     'cleanup.spam.desc': 'Banish the spam',
     'cleanup.trash': 'Empty the Void',
     'cleanup.trash.desc': 'Final deletion',
+
+    // Trends section
+    'trends.title': 'Omens',
+    'trends.description': 'Divined once a day after the background sync',
+    'trends.empty': 'The first omen appears after the next background sync',
+    'trends.size': 'Soul burden',
+    'trends.size.subtitle': '{count} days of omens',
+    'trends.size.change': '{change} since {date}',
+    'trends.projection': 'Prophecy',
+    'trends.quota': 'Breaking point',
+    'trends.reclaimed': 'Banished by Inboxorcist',
+    'trends.reclaimed.subtitle': '{size} freed from the haunting',
+    'trends.reclaimed.empty': 'No banishments yet in this period',
+    'trends.forecast.title': 'The prophecy',
+    'trends.forecast.usage': '{used} of {quota} claimed by spirits',
+    'trends.forecast.full': 'Overrun in about {days} days ({date})',
+    'trends.forecast.alreadyFull': 'The spirits already fill every corner',
+    'trends.forecast.notGrowing': 'The haunting is receding - no doom in sight',
+    'trends.forecast.rate': '{size} per day',
+    'trends.forecast.basis.snapshots': 'Read from your omens, banishments included',
+    'trends.forecast.basis.recent_mail':
+      'Read from the last 90 days of arrivals until a week of omens is gathered',
+    'trends.forecast.sharedQuota':
+      'Drive and Photos share this space, and their spirits are not counted here.',
+    'trends.quota.label': 'Storage plan',
+    'trends.quota.default': 'Default ({size})',
+    'trends.quota.saved': 'Storage plan updated',
+    'trends.quota.error': 'The storage plan resisted',
   },
 } as const
@@ -0,0 +1,151 @@
+/**
+ * Cleanup rules page translations
+ *
+ * Scheduled cleanup rules - "recurring exorcisms" in exorcist mode.
+ */
+export const rules = {
+  en: {
+    // Page header
+    'rules.title': 'Cleanup Rules',
+    'rules.description':
+      'Saved Explorer filters that run on a schedule after each sync. Use dry run to check what a rule would do first.',
+
+    // Empty state
+    'rules.empty': 'No cleanup rules yet',
+    'rules.emptyDescription':
+      'Filter emails in the Explorer, then use "Save as rule" to run the cleanup on a schedule.',
+    'rules.openExplorer': 'Open Explorer',
+
+    // Rule card
+    'rules.action.trash': 'Move to trash',
+    'rules.action.archive': 'Archive',
+    'rules.action.label': 'Apply label',
+    'rules.action.delete': 'Delete permanently',
+    'rules.olderThan': 'older than {days} days',
+    'rules.anyAge': 'any age',
+    'rules.nextRun': 'Next run',
+    'rules.lastRun': 'Last run',
+    'rules.never': 'Never',
+    'rules.enabled': 'Enabled',
+    'rules.dryRun': 'Dry run',
+    'rules.runNow': 'Run now',
+    'rules.dryRunNow': 'Dry run now',
+    'rules.history': 'History',
+    'rules.history.empty': 'This rule has not run yet',
+    'rules.delete': 'Delete rule',
+    'rules.delete.description':
+      'The rule and its run history will be removed. Cleanups it already started keep running.',
+    'rules.delete.success': 'Rule deleted',
+    'rules.update.error': 'Failed to update rule',
+
+    // Runs
+    'rules.run.status.running': 'Running',
+    'rules.run.status.completed': 'Completed',
+    'rules.run.status.failed': 'Failed',
+    'rules.run.status.cancelled': 'Cancelled',
+    'rules.run.matched': '{count} matched',
+    'rules.run.processed': '{count} processed',
+    'rules.run.wouldAffect': 'Would affect {count} emails ({size})',
+    'rules.run.queued': 'Queued {count} emails',
+    'rules.run.nothing': 'No emails matched',
+    'rules.run.error': 'Failed to run rule',
+
+    // Schedules
+    'rules.schedule': 'Schedule',
+    'rules.schedule.hourly': 'Every hour',
+    'rules.schedule.daily': 'Every day',
+    'rules.schedule.weekly': 'Every week',
+    'rules.schedule.monthly': 'Every month',
+    'rules.schedule.custom': 'Custom (cron)',
+    'rules.schedule.customHint': 'minute hour day month weekday, e.g. 0 3 * * 1',
+
+    // Save dialog
+    'rules.save.button': 'Save as rule',
+    'rules.save.title': 'Save as cleanup rule',
+    'rules.save.description':
+      'The current Explorer filters are saved with the rule and re-applied on every run.',
+    'rules.save.name': 'Name',
+    'rules.save.namePlaceholder': 'e.g. Old promotions',
+    'rules.save.action': 'Action',
+    'rules.save.label': 'Label',
+    'rules.save.labelPlaceholder': 'Choose a label...',
+    'rules.save.olderThan': 'Only emails older than (days)',
+    'rules.save.olderThanHint': 'Leave empty to match any age',
+    'rules.save.dryRunHint': 'Only record what would be affected',
+    'rules.save.submit': 'Save rule',
+    'rules.save.success': 'Cleanup rule saved',
+    'rules.save.error': 'Failed to save rule',
+  },
+  exorcist: {
+    // Page header
+    'rules.title': 'Recurring Exorcisms',
+    'rules.description':
+      'Rituals that repeat on their own after every séance. Rehearse them first to see which spirits they would banish.',
+
+    // Empty state
+    'rules.empty': 'No recurring rituals yet',
+    'rules.emptyDescription':
+      'Hunt spirits in the Explorer, then "Save as ritual" to banish them on a schedule.',
+    'rules.openExplorer': 'Open Explorer',
+
+    // Rule card
+    'rules.action.trash': 'Cast into the void',
+    'rules.action.archive': 'Send to the crypt',
+    'rules.action.label': 'Brand with a sigil',
+    'rules.action.delete': 'Banish forever',
+    'rules.olderThan': 'older than {days} days',
+    'rules.anyAge': 'any age',
+    'rules.nextRun': 'Next ritual',
+    'rules.lastRun': 'Last ritual',
+    'rules.never': 'Never',
+    'rules.enabled': 'Active',
+    'rules.dryRun': 'Rehearsal',
+    'rules.runNow': 'Perform now',
+    'rules.dryRunNow': 'Rehearse now',
+    'rules.history': 'Chronicle',
+    'rules.history.empty': 'This ritual has never been performed',
+    'rules.delete': 'Abandon ritual',
+    'rules.delete.description':
+      'The ritual and its chronicle will be forgotten. Banishments already underway continue.',
+    'rules.delete.success': 'Ritual abandoned',
+    'rules.update.error': 'The ritual resisted change',
+
+    // Runs
+    'rules.run.status.running': 'In progress',
+    'rules.run.status.completed': 'Complete',
+    'rules.run.status.failed': 'Failed',
+    'rules.run.status.cancelled': 'Interrupted',
+    'rules.run.matched': '{count} spirits found',
+    'rules.run.processed': '{count} banished',
+    'rules.run.wouldAffect': 'Would banish {count} spirits ({size})',
+    'rules.run.queued': 'Banishing {count} spirits',
+    'rules.run.nothing': 'No spirits found',
+    'rules.run.error': 'The ritual failed',
+
+    // Schedules
+    'rules.schedule': 'Ritual schedule',
+    'rules.schedule.hourly': 'Every hour',
+    'rules.schedule.daily': 'Every night',
+    'rules.schedule.weekly': 'Every week',
+    'rules.schedule.monthly': 'Every full moon',
+    'rules.schedule.custom': 'Custom (cron)',
+    'rules.schedule.customHint': 'minute hour day month weekday, e.g. 0 3 * * 1',
+
+    // Save dialog
+    'rules.save.button': 'Save as ritual',
+    'rules.save.title': 'Save as recurring exorcism',
+    'rules.save.description':
+      'The current Explorer filters are bound to the ritual and invoked on every performance.',
+    'rules.save.name': 'Name',
+    'rules.save.namePlaceholder': 'e.g. Ancient promotions',
+    'rules.save.action': 'Ritual',
+    'rules.save.label': 'Sigil',
+    'rules.save.labelPlaceholder': 'Choose a sigil...',
+    'rules.save.olderThan': 'Only spirits older than (days)',
+    'rules.save.olderThanHint': 'Leave empty to match spirits of any age',
+    'rules.save.dryRunHint': 'Only record which spirits would be banished',
+    'rules.save.submit': 'Bind ritual',
+    'rules.save.success': 'Ritual bound',
+    'rules.save.error': 'Failed to bind ritual',
+  },
+} as const
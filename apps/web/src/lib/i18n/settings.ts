@@ -8,6 +8,35 @@ export const settings = {
     'settings.exorcistMode.desc': 'Enable spooky themed language',
     'settings.exorcistMode.on': 'The spirits speak through you',
     'settings.exorcistMode.off': 'Standard mode',
+
+    // API tokens
+    'settings.apiTokens': 'API Tokens',
+    'settings.apiTokens.desc': 'Personal tokens for scripts and automation',
+    'settings.apiTokens.create': 'New token',
+    'settings.apiTokens.empty': 'No API tokens yet',
+    'settings.apiTokens.loadError': 'Failed to load API tokens',
+    'settings.apiTokens.name': 'Name',
+    'settings.apiTokens.namePlaceholder': 'Nightly cleanup script',
+    'settings.apiTokens.scopes': 'Scopes',
+    'settings.apiTokens.scope.read': 'Read - stats, explorer and filters',
+    'settings.apiTokens.scope.cleanup': 'Cleanup - delete, trash, archive and manage filters',
+    'settings.apiTokens.scope.admin': 'Admin - manage users and the login allowlist',
+    'settings.apiTokens.expiry': 'Expiration',
+    'settings.apiTokens.expiry.never': 'Never',
+    'settings.apiTokens.expiry.days': '{days} days',
+    'settings.apiTokens.expires': 'Expires {date}',
+    'settings.apiTokens.neverUsed': 'Never used',
+    'settings.apiTokens.lastUsed': 'Last used {date}',
+    'settings.apiTokens.createError': 'Failed to create token',
+    'settings.apiTokens.created': 'Token created',
+    'settings.apiTokens.createdDesc':
+      "Copy this token now - it won't be shown again. Send it as Authorization: Bearer <token>.",
+    'settings.apiTokens.copied': 'Token copied to clipboard',
+    'settings.apiTokens.revoke': 'Revoke',
+    'settings.apiTokens.revoked': 'Token revoked',
+    'settings.apiTokens.revokeError': 'Failed to revoke token',
+    'settings.apiTokens.submit': 'Create token',
+    'settings.apiTokens.done': 'Done',
   },
   exorcist: {
     // Exorcist mode
@@ -15,5 +44,34 @@ export const settings = {
     'settings.exorcistMode.desc': 'The spirits speak through the interface',
     'settings.exorcistMode.on': 'The power compels you',
     'settings.exorcistMode.off': 'Return to the mundane',
+
+    // API tokens
+    'settings.apiTokens': 'Summoning Sigils',
+    'settings.apiTokens.desc': 'Personal sigils that let your scripts do the exorcising',
+    'settings.apiTokens.create': 'Draw a sigil',
+    'settings.apiTokens.empty': 'No sigils drawn yet',
+    'settings.apiTokens.loadError': 'The sigils are obscured',
+    'settings.apiTokens.name': 'Name',
+    'settings.apiTokens.namePlaceholder': 'Midnight cleansing script',
+    'settings.apiTokens.scopes': 'Powers',
+    'settings.apiTokens.scope.read': 'Read - peer into stats, explorer and filters',
+    'settings.apiTokens.scope.cleanup': 'Cleanup - banish, archive and bind filters',
+    'settings.apiTokens.scope.admin': 'Admin - rule over the coven and its guest list',
+    'settings.apiTokens.expiry': 'Fades after',
+    'settings.apiTokens.expiry.never': 'Never',
+    'settings.apiTokens.expiry.days': '{days} days',
+    'settings.apiTokens.expires': 'Fades {date}',
+    'settings.apiTokens.neverUsed': 'Never invoked',
+    'settings.apiTokens.lastUsed': 'Last invoked {date}',
+    'settings.apiTokens.createError': 'The sigil would not take shape',
+    'settings.apiTokens.created': 'Sigil drawn',
+    'settings.apiTokens.createdDesc':
+      'Copy this sigil now - it vanishes once you look away. Send it as Authorization: Bearer <token>.',
+    'settings.apiTokens.copied': 'Sigil copied to clipboard',
+    'settings.apiTokens.revoke': 'Break',
+    'settings.apiTokens.revoked': 'Sigil broken',
+    'settings.apiTokens.revokeError': 'The sigil resists breaking',
+    'settings.apiTokens.submit': 'Draw sigil',
+    'settings.apiTokens.done': 'It is done',
   },
 } as const
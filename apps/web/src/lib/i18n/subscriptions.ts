@@ -57,14 +57,43 @@ export const subscriptions = {
     'subscriptions.view': 'View',
     'subscriptions.unsubscribe': 'Unsub',
     'subscriptions.unsubscribed': 'Unsubscribed',
-    'subscriptions.markUnsubscribed': 'Mark Unsubscribed',
+    'subscriptions.markUnsubscribed': 'Unsubscribe',
+
+    // Unsubscribe outcomes
+    'subscriptions.outcome.oneClick': 'Unsubscribed with one-click request',
+    'subscriptions.outcome.mailto': 'Unsubscribe email sent to {target}',
+    'subscriptions.outcome.manual': 'Marked as unsubscribed',
+    'subscriptions.outcome.fallback': 'Manual step needed',
+    'subscriptions.outcome.fallbackHint':
+      "This sender doesn't support one-click unsubscribe. Open the unsubscribe page to finish.",
+    'subscriptions.outcome.failed': 'Failed',
+    'subscriptions.outcome.failedHttp': 'Failed (HTTP {status})',
 
     // Bulk actions
-    'subscriptions.bulk.markUnsubscribed': 'Mark Unsubscribed',
-    'subscriptions.bulk.confirmTitle': 'Mark {count} senders as unsubscribed?',
+    'subscriptions.bulk.markUnsubscribed': 'Unsubscribe',
+    'subscriptions.bulk.confirmTitle': 'Unsubscribe from {count} senders?',
     'subscriptions.bulk.confirmDescription':
-      "This will mark the selected senders as unsubscribed in your list. This action helps you track which senders you've already unsubscribed from, but does not actually unsubscribe you from their emails.",
-    'subscriptions.bulk.markAsUnsubscribed': 'Mark as Unsubscribed',
+      "We'll send a one-click unsubscribe request or unsubscribe email to each selected sender. Senders that only offer an unsubscribe page will be flagged so you can finish manually.",
+    'subscriptions.bulk.markAsUnsubscribed': 'Unsubscribe',
+
+    // Views
+    'subscriptions.tab.all': 'All Subscriptions',
+    'subscriptions.tab.stillSending': 'Still Sending',
+
+    // Still sending (mail received after unsubscribing)
+    'subscriptions.stillSending.empty': 'Nobody is ignoring your unsubscribes',
+    'subscriptions.stillSending.emptyDescription':
+      'Senders that keep emailing you after you unsubscribed will show up here after the next sync',
+    'subscriptions.stillSending.graceNote':
+      'Senders get {days} days to process an unsubscribe, so emails sent in that time are not counted',
+    'subscriptions.stillSending.emailsSince': 'Since Unsub',
+    'subscriptions.stillSending.unsubscribedOn': 'Unsubscribed',
+    'subscriptions.stillSending.firstAfter': 'First After',
+    'subscriptions.stillSending.autoTrash': 'Auto-trash',
+    'subscriptions.stillSending.reportSpam': 'Report Spam',
+    'subscriptions.stillSending.filtered': 'Filter created',
+    'subscriptions.stillSending.reported': 'Reported',
+    'subscriptions.stillSending.escalateError': 'Failed to escalate sender',
 
     // Pagination
     'subscriptions.showing': 'Showing {start} - {end} of {total} subscriptions',
@@ -123,14 +152,43 @@ export const subscriptions = {
     'subscriptions.view': 'Observe',
     'subscriptions.unsubscribe': 'Banish',
     'subscriptions.unsubscribed': 'Banished',
-    'subscriptions.markUnsubscribed': 'Mark Banished',
+    'subscriptions.markUnsubscribed': 'Banish',
+
+    // Unsubscribe outcomes
+    'subscriptions.outcome.oneClick': 'Banished with a single incantation',
+    'subscriptions.outcome.mailto': 'Banishment scroll sent to {target}',
+    'subscriptions.outcome.manual': 'Marked as banished',
+    'subscriptions.outcome.fallback': 'Ritual needed',
+    'subscriptions.outcome.fallbackHint':
+      'This haunter resists instant banishment. Open its portal to finish the ritual.',
+    'subscriptions.outcome.failed': 'Resisted',
+    'subscriptions.outcome.failedHttp': 'Resisted (HTTP {status})',
 
     // Bulk actions
-    'subscriptions.bulk.markUnsubscribed': 'Mark Banished',
-    'subscriptions.bulk.confirmTitle': 'Mark {count} haunters as banished?',
+    'subscriptions.bulk.markUnsubscribed': 'Banish',
+    'subscriptions.bulk.confirmTitle': 'Banish {count} haunters?',
     'subscriptions.bulk.confirmDescription':
-      "This will mark the selected haunters as banished in your registry. This helps track which spirits you've already dealt with, but does not perform the actual banishment ritual.",
-    'subscriptions.bulk.markAsUnsubscribed': 'Mark as Banished',
+      "We'll chant the one-click banishment or send a banishment scroll to each selected haunter. Those that only offer a portal will be flagged so you can finish the ritual by hand.",
+    'subscriptions.bulk.markAsUnsubscribed': 'Banish',
+
+    // Views
+    'subscriptions.tab.all': 'All Haunters',
+    'subscriptions.tab.stillSending': 'Still Haunting',
+
+    // Still sending (mail received after unsubscribing)
+    'subscriptions.stillSending.empty': 'Every banished spirit stayed banished',
+    'subscriptions.stillSending.emptyDescription':
+      'Haunters that return after their banishment will be revealed here after the next scan',
+    'subscriptions.stillSending.graceNote':
+      'Banished spirits get {days} days to fade away, so anything they send in that time is forgiven',
+    'subscriptions.stillSending.emailsSince': 'Since Banishment',
+    'subscriptions.stillSending.unsubscribedOn': 'Banished',
+    'subscriptions.stillSending.firstAfter': 'First Return',
+    'subscriptions.stillSending.autoTrash': 'Ward Off',
+    'subscriptions.stillSending.reportSpam': 'Report Demon',
+    'subscriptions.stillSending.filtered': 'Ward placed',
+    'subscriptions.stillSending.reported': 'Reported',
+    'subscriptions.stillSending.escalateError': 'The haunter resisted',
 
     // Pagination
     'subscriptions.showing': 'Revealing {start} - {end} of {total} haunters',
@@ -22,9 +22,29 @@ export const queryClient = new QueryClient({
 export const queryKeys = {
   accounts: ['accounts'] as const,
   stats: (accountId: string) => ['stats', accountId] as const,
+  trends: (accountId: string) => ['trends', accountId] as const,
   syncProgress: (accountId: string) => ['syncProgress', accountId] as const,
+  cleanupJob: (accountId: string, jobId: string) => ['cleanupJob', accountId, jobId] as const,
   topSenders: (accountId: string) => ['topSenders', accountId] as const,
   summary: (accountId: string) => ['summary', accountId] as const,
   subscriptions: (accountId: string, page: number, filters?: object) =>
     ['subscriptions', accountId, page, filters] as const,
+  stillSending: (accountId: string) => ['stillSending', accountId] as const,
+  deletedEmails: (accountId: string, page: number, filters?: object) =>
+    ['deletedEmails', accountId, page, filters] as const,
+  cleanupRules: (accountId: string) => ['cleanupRules', accountId] as const,
+  cleanupRuleRuns: (accountId: string, ruleId: string) =>
+    ['cleanupRuleRuns', accountId, ruleId] as const,
+  mailRules: (accountId: string) => ['mailRules', accountId] as const,
+  jobs: (filters?: object) => ['jobs', filters] as const,
+  backupSettings: (accountId: string) => ['backupSettings', accountId] as const,
+  backups: (accountId: string, filters?: object) => ['backups', accountId, filters] as const,
+  imports: (accountId: string) => ['imports', accountId] as const,
+  attachments: (accountId: string, filters?: object) =>
+    ['attachments', accountId, filters] as const,
+  savedAttachments: (accountId: string, filters?: object) =>
+    ['savedAttachments', accountId, filters] as const,
+  apiTokens: ['apiTokens'] as const,
+  adminUsers: ['adminUsers'] as const,
+  loginAllowlist: ['loginAllowlist'] as const,
 }
@@ -15,9 +15,15 @@ import { Route as DashboardRouteImport } from './routes/_dashboard'
 import { Route as DashboardIndexRouteImport } from './routes/_dashboard/index'
 import { Route as DashboardSubscriptionsRouteImport } from './routes/_dashboard/subscriptions'
 import { Route as DashboardSettingsRouteImport } from './routes/_dashboard/settings'
+import { Route as DashboardRulesRouteImport } from './routes/_dashboard/rules'
+import { Route as DashboardJobsRouteImport } from './routes/_dashboard/jobs'
 import { Route as DashboardFiltersRouteImport } from './routes/_dashboard/filters'
 import { Route as DashboardExplorerRouteImport } from './routes/_dashboard/explorer'
+import { Route as DashboardEternalMemoryRouteImport } from './routes/_dashboard/eternal-memory'
 import { Route as DashboardChatRouteImport } from './routes/_dashboard/chat'
+import { Route as DashboardBackupsRouteImport } from './routes/_dashboard/backups'
+import { Route as DashboardAttachmentsRouteImport } from './routes/_dashboard/attachments'
+import { Route as DashboardAdminRouteImport } from './routes/_dashboard/admin'
 import { Route as DashboardFiltersIndexRouteImport } from './routes/_dashboard/filters/index'
 import { Route as AuthProviderCallbackRouteImport } from './routes/auth/$provider/callback'
 import { Route as DashboardFiltersNewRouteImport } from './routes/_dashboard/filters/new'
@@ -52,6 +58,16 @@ const DashboardSettingsRoute = DashboardSettingsRouteImport.update({
   path: '/settings',
   getParentRoute: () => DashboardRoute,
 } as any)
+const DashboardRulesRoute = DashboardRulesRouteImport.update({
+  id: '/rules',
+  path: '/rules',
+  getParentRoute: () => DashboardRoute,
+} as any)
+const DashboardJobsRoute = DashboardJobsRouteImport.update({
+  id: '/jobs',
+  path: '/jobs',
+  getParentRoute: () => DashboardRoute,
+} as any)
 const DashboardFiltersRoute = DashboardFiltersRouteImport.update({
   id: '/filters',
   path: '/filters',
@@ -62,11 +78,31 @@ const DashboardExplorerRoute = DashboardExplorerRouteImport.update({
   path: '/explorer',
   getParentRoute: () => DashboardRoute,
 } as any)
+const DashboardEternalMemoryRoute = DashboardEternalMemoryRouteImport.update({
+  id: '/eternal-memory',
+  path: '/eternal-memory',
+  getParentRoute: () => DashboardRoute,
+} as any)
 const DashboardChatRoute = DashboardChatRouteImport.update({
   id: '/chat',
   path: '/chat',
   getParentRoute: () => DashboardRoute,
 } as any)
+const DashboardBackupsRoute = DashboardBackupsRouteImport.update({
+  id: '/backups',
+  path: '/backups',
+  getParentRoute: () => DashboardRoute,
+} as any)
+const DashboardAttachmentsRoute = DashboardAttachmentsRouteImport.update({
+  id: '/attachments',
+  path: '/attachments',
+  getParentRoute: () => DashboardRoute,
+} as any)
+const DashboardAdminRoute = DashboardAdminRouteImport.update({
+  id: '/admin',
+  path: '/admin',
+  getParentRoute: () => DashboardRoute,
+} as any)
 const DashboardFiltersIndexRoute = DashboardFiltersIndexRouteImport.update({
   id: '/',
   path: '/',
@@ -82,19 +118,24 @@ const DashboardFiltersNewRoute = DashboardFiltersNewRouteImport.update({
   path: '/new',
   getParentRoute: () => DashboardFiltersRoute,
 } as any)
-const DashboardFiltersFilterIdRoute =
-  DashboardFiltersFilterIdRouteImport.update({
-    id: '/$filterId',
-    path: '/$filterId',
-    getParentRoute: () => DashboardFiltersRoute,
-  } as any)
+const DashboardFiltersFilterIdRoute = DashboardFiltersFilterIdRouteImport.update({
+  id: '/$filterId',
+  path: '/$filterId',
+  getParentRoute: () => DashboardFiltersRoute,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/login': typeof LoginRoute
   '/setup': typeof SetupRoute
+  '/admin': typeof DashboardAdminRoute
+  '/attachments': typeof DashboardAttachmentsRoute
+  '/backups': typeof DashboardBackupsRoute
   '/chat': typeof DashboardChatRoute
+  '/eternal-memory': typeof DashboardEternalMemoryRoute
   '/explorer': typeof DashboardExplorerRoute
   '/filters': typeof DashboardFiltersRouteWithChildren
+  '/jobs': typeof DashboardJobsRoute
+  '/rules': typeof DashboardRulesRoute
   '/settings': typeof DashboardSettingsRoute
   '/subscriptions': typeof DashboardSubscriptionsRoute
   '/': typeof DashboardIndexRoute
@@ -106,8 +147,14 @@ export interface FileRoutesByFullPath {
 export interface FileRoutesByTo {
   '/login': typeof LoginRoute
   '/setup': typeof SetupRoute
+  '/admin': typeof DashboardAdminRoute
+  '/attachments': typeof DashboardAttachmentsRoute
+  '/backups': typeof DashboardBackupsRoute
   '/chat': typeof DashboardChatRoute
+  '/eternal-memory': typeof DashboardEternalMemoryRoute
   '/explorer': typeof DashboardExplorerRoute
+  '/jobs': typeof DashboardJobsRoute
+  '/rules': typeof DashboardRulesRoute
   '/settings': typeof DashboardSettingsRoute
   '/subscriptions': typeof DashboardSubscriptionsRoute
   '/': typeof DashboardIndexRoute
@@ -121,9 +168,15 @@ export interface FileRoutesById {
   '/_dashboard': typeof DashboardRouteWithChildren
   '/login': typeof LoginRoute
   '/setup': typeof SetupRoute
+  '/_dashboard/admin': typeof DashboardAdminRoute
+  '/_dashboard/attachments': typeof DashboardAttachmentsRoute
+  '/_dashboard/backups': typeof DashboardBackupsRoute
   '/_dashboard/chat': typeof DashboardChatRoute
+  '/_dashboard/eternal-memory': typeof DashboardEternalMemoryRoute
   '/_dashboard/explorer': typeof DashboardExplorerRoute
   '/_dashboard/filters': typeof DashboardFiltersRouteWithChildren
+  '/_dashboard/jobs': typeof DashboardJobsRoute
+  '/_dashboard/rules': typeof DashboardRulesRoute
   '/_dashboard/settings': typeof DashboardSettingsRoute
   '/_dashboard/subscriptions': typeof DashboardSubscriptionsRoute
   '/_dashboard/': typeof DashboardIndexRoute
@@ -137,9 +190,15 @@ export interface FileRouteTypes {
   fullPaths:
     | '/login'
     | '/setup'
+    | '/admin'
+    | '/attachments'
+    | '/backups'
     | '/chat'
+    | '/eternal-memory'
     | '/explorer'
     | '/filters'
+    | '/jobs'
+    | '/rules'
     | '/settings'
     | '/subscriptions'
     | '/'
@@ -151,8 +210,14 @@ export interface FileRouteTypes {
   to:
     | '/login'
     | '/setup'
+    | '/admin'
+    | '/attachments'
+    | '/backups'
     | '/chat'
+    | '/eternal-memory'
     | '/explorer'
+    | '/jobs'
+    | '/rules'
     | '/settings'
     | '/subscriptions'
     | '/'
@@ -165,9 +230,15 @@ export interface FileRouteTypes {
     | '/_dashboard'
     | '/login'
     | '/setup'
+    | '/_dashboard/admin'
+    | '/_dashboard/attachments'
+    | '/_dashboard/backups'
     | '/_dashboard/chat'
+    | '/_dashboard/eternal-memory'
     | '/_dashboard/explorer'
     | '/_dashboard/filters'
+    | '/_dashboard/jobs'
+    | '/_dashboard/rules'
     | '/_dashboard/settings'
     | '/_dashboard/subscriptions'
     | '/_dashboard/'
@@ -228,6 +299,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardSettingsRouteImport
       parentRoute: typeof DashboardRoute
     }
+    '/_dashboard/rules': {
+      id: '/_dashboard/rules'
+      path: '/rules'
+      fullPath: '/rules'
+      preLoaderRoute: typeof DashboardRulesRouteImport
+      parentRoute: typeof DashboardRoute
+    }
+    '/_dashboard/jobs': {
+      id: '/_dashboard/jobs'
+      path: '/jobs'
+      fullPath: '/jobs'
+      preLoaderRoute: typeof DashboardJobsRouteImport
+      parentRoute: typeof DashboardRoute
+    }
     '/_dashboard/filters': {
       id: '/_dashboard/filters'
       path: '/filters'
@@ -242,6 +327,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardExplorerRouteImport
       parentRoute: typeof DashboardRoute
     }
+    '/_dashboard/eternal-memory': {
+      id: '/_dashboard/eternal-memory'
+      path: '/eternal-memory'
+      fullPath: '/eternal-memory'
+      preLoaderRoute: typeof DashboardEternalMemoryRouteImport
+      parentRoute: typeof DashboardRoute
+    }
     '/_dashboard/chat': {
       id: '/_dashboard/chat'
       path: '/chat'
@@ -249,6 +341,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DashboardChatRouteImport
       parentRoute: typeof DashboardRoute
     }
+    '/_dashboard/backups': {
+      id: '/_dashboard/backups'
+      path: '/backups'
+      fullPath: '/backups'
+      preLoaderRoute: typeof DashboardBackupsRouteImport
+      parentRoute: typeof DashboardRoute
+    }
+    '/_dashboard/attachments': {
+      id: '/_dashboard/attachments'
+      path: '/attachments'
+      fullPath: '/attachments'
+      preLoaderRoute: typeof DashboardAttachmentsRouteImport
+      parentRoute: typeof DashboardRoute
+    }
+    '/_dashboard/admin': {
+      id: '/_dashboard/admin'
+      path: '/admin'
+      fullPath: '/admin'
+      preLoaderRoute: typeof DashboardAdminRouteImport
+      parentRoute: typeof DashboardRoute
+    }
     '/_dashboard/filters/': {
       id: '/_dashboard/filters/'
       path: '/'
@@ -292,30 +405,41 @@ const DashboardFiltersRouteChildren: DashboardFiltersRouteChildren = {
   DashboardFiltersIndexRoute: DashboardFiltersIndexRoute,
 }
 
-const DashboardFiltersRouteWithChildren =
-  DashboardFiltersRoute._addFileChildren(DashboardFiltersRouteChildren)
+const DashboardFiltersRouteWithChildren = DashboardFiltersRoute._addFileChildren(
+  DashboardFiltersRouteChildren
+)
 
 interface DashboardRouteChildren {
+  DashboardAdminRoute: typeof DashboardAdminRoute
+  DashboardAttachmentsRoute: typeof DashboardAttachmentsRoute
+  DashboardBackupsRoute: typeof DashboardBackupsRoute
   DashboardChatRoute: typeof DashboardChatRoute
+  DashboardEternalMemoryRoute: typeof DashboardEternalMemoryRoute
   DashboardExplorerRoute: typeof DashboardExplorerRoute
   DashboardFiltersRoute: typeof DashboardFiltersRouteWithChildren
+  DashboardJobsRoute: typeof DashboardJobsRoute
+  DashboardRulesRoute: typeof DashboardRulesRoute
   DashboardSettingsRoute: typeof DashboardSettingsRoute
   DashboardSubscriptionsRoute: typeof DashboardSubscriptionsRoute
   DashboardIndexRoute: typeof DashboardIndexRoute
 }
 
 const DashboardRouteChildren: DashboardRouteChildren = {
+  DashboardAdminRoute: DashboardAdminRoute,
+  DashboardAttachmentsRoute: DashboardAttachmentsRoute,
+  DashboardBackupsRoute: DashboardBackupsRoute,
   DashboardChatRoute: DashboardChatRoute,
+  DashboardEternalMemoryRoute: DashboardEternalMemoryRoute,
   DashboardExplorerRoute: DashboardExplorerRoute,
   DashboardFiltersRoute: DashboardFiltersRouteWithChildren,
+  DashboardJobsRoute: DashboardJobsRoute,
+  DashboardRulesRoute: DashboardRulesRoute,
   DashboardSettingsRoute: DashboardSettingsRoute,
   DashboardSubscriptionsRoute: DashboardSubscriptionsRoute,
   DashboardIndexRoute: DashboardIndexRoute,
 }
 
-const DashboardRouteWithChildren = DashboardRoute._addFileChildren(
-  DashboardRouteChildren,
-)
+const DashboardRouteWithChildren = DashboardRoute._addFileChildren(DashboardRouteChildren)
 
 const rootRouteChildren: RootRouteChildren = {
   DashboardRoute: DashboardRouteWithChildren,
@@ -8,8 +8,9 @@ import { useStats } from '@/hooks/useStats'
 import { useSyncProgress } from '@/hooks/useSyncProgress'
 import { Loader2 } from 'lucide-react'
 import { getSetupStatus } from '@/lib/api'
-import type { GmailAccount, QuickStats, SyncProgress, User } from '@/lib/api'
+import type { GmailAccount, MailProvider, QuickStats, SyncProgress, User } from '@/lib/api'
 import { Toaster } from '@/components/ui/sonner'
+import { ImapAccountDialog } from '@/components/domain/ImapAccountDialog'
 
 const SELECTED_ACCOUNT_KEY = 'inboxorcist:selectedAccountId'
 
@@ -47,7 +48,7 @@ interface AppContextType {
   syncError: string | null
   refetchStats: () => void
   resumeSync: () => void
-  connectAccount: () => void
+  connectAccount: (provider?: MailProvider) => void
   removeAccount: (id: string) => void
   handleDisconnect: () => void
 }
@@ -194,6 +195,9 @@ function AuthenticatedApp() {
     oauthCallback,
     clearOAuthCallback,
     connectAccount,
+    imapDialogOpen,
+    setImapDialogOpen,
+    connectImap,
     removeAccount,
   } = useGmailAccounts()
 
@@ -317,6 +321,11 @@ function AuthenticatedApp() {
   return (
     <AppContext.Provider value={contextValue}>
       <Outlet />
+      <ImapAccountDialog
+        open={imapDialogOpen}
+        onOpenChange={setImapDialogOpen}
+        onConnect={connectImap}
+      />
       <Toaster position="top-center" richColors closeButton />
     </AppContext.Provider>
   )
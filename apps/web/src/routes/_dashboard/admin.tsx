@@ -0,0 +1,17 @@
+import { createFileRoute, Navigate } from '@tanstack/react-router'
+import { AdminPage } from '@/components/domain/admin/AdminPage'
+import { useAuthContext } from '../__root'
+
+export const Route = createFileRoute('/_dashboard/admin')({
+  component: AdminRoute,
+})
+
+function AdminRoute() {
+  const { user } = useAuthContext()
+
+  if (!user?.isAdmin) {
+    return <Navigate to="/" replace />
+  }
+
+  return <AdminPage />
+}
@@ -0,0 +1,17 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { AttachmentsPage } from '@/components/domain/AttachmentsPage'
+import { useAppContext } from '../__root'
+
+export const Route = createFileRoute('/_dashboard/attachments')({
+  component: AttachmentsRoute,
+})
+
+function AttachmentsRoute() {
+  const { selectedAccountId } = useAppContext()
+
+  if (!selectedAccountId) {
+    return null
+  }
+
+  return <AttachmentsPage accountId={selectedAccountId} />
+}
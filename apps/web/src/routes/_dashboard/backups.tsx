@@ -0,0 +1,17 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { BackupsPage } from '@/components/domain/BackupsPage'
+import { useAppContext } from '../__root'
+
+export const Route = createFileRoute('/_dashboard/backups')({
+  component: BackupsRoute,
+})
+
+function BackupsRoute() {
+  const { selectedAccountId } = useAppContext()
+
+  if (!selectedAccountId) {
+    return null
+  }
+
+  return <BackupsPage accountId={selectedAccountId} />
+}
@@ -0,0 +1,17 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { EternalMemoryPage } from '@/components/domain/EternalMemoryPage'
+import { useAppContext } from '../__root'
+
+export const Route = createFileRoute('/_dashboard/eternal-memory')({
+  component: EternalMemoryRoute,
+})
+
+function EternalMemoryRoute() {
+  const { selectedAccountId, syncStatus } = useAppContext()
+
+  if (!selectedAccountId) {
+    return null
+  }
+
+  return <EternalMemoryPage accountId={selectedAccountId} syncStatus={syncStatus} />
+}
@@ -0,0 +1,6 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { JobsPage } from '@/components/domain/JobsPage'
+
+export const Route = createFileRoute('/_dashboard/jobs')({
+  component: JobsPage,
+})
@@ -0,0 +1,17 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { CleanupRulesPage } from '@/components/domain/rules/CleanupRulesPage'
+import { useAppContext } from '../__root'
+
+export const Route = createFileRoute('/_dashboard/rules')({
+  component: RulesRoute,
+})
+
+function RulesRoute() {
+  const { selectedAccountId } = useAppContext()
+
+  if (!selectedAccountId) {
+    return null
+  }
+
+  return <CleanupRulesPage accountId={selectedAccountId} />
+}
@@ -22,8 +22,8 @@ function AuthCallbackPage() {
       if (status === 'success') return
       exchangeStarted.current = true
 
-      // Only google is supported for now
-      if (provider !== 'google') {
+      // Google signs in or adds Gmail accounts, Microsoft adds Outlook accounts
+      if (provider !== 'google' && provider !== 'microsoft') {
         setErrorMessage(`Unsupported provider: ${provider}`)
         setStatus('error')
         setTimeout(() => navigate({ to: '/login', replace: true }), 2000)
@@ -50,7 +50,7 @@ function AuthCallbackPage() {
       }
 
       try {
-        const result = await exchangeOAuthCode(code, state)
+        const result = await exchangeOAuthCode(code, state, provider)
 
         if (result.success !== true) {
           setErrorMessage(result.message || 'Authentication failed')
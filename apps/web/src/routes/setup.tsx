@@ -45,6 +45,7 @@ function SetupPage() {
   const [clientId, setClientId] = useState('')
   const [clientSecret, setClientSecret] = useState('')
   const [appUrl, setAppUrl] = useState('')
+  const [loginAllowlist, setLoginAllowlist] = useState('')
   const [errors, setErrors] = useState<string[]>([])
   const [copied, setCopied] = useState(false)
 
@@ -88,6 +89,9 @@ function SetupPage() {
       if (status.config.app_url.value) {
         setAppUrl(status.config.app_url.value)
       }
+      if (status.config.login_allowlist.value) {
+        setLoginAllowlist(status.config.login_allowlist.value)
+      }
     }
   }, [status])
   /* eslint-enable react-hooks/set-state-in-effect */
@@ -115,6 +119,9 @@ function SetupPage() {
     if (status?.config.app_url.isEditable && appUrl) {
       config.app_url = appUrl
     }
+    if (status?.config.login_allowlist.isEditable && loginAllowlist) {
+      config.login_allowlist = loginAllowlist
+    }
 
     saveMutation.mutate(config)
   }
@@ -143,6 +150,7 @@ function SetupPage() {
   const isClientIdFromEnv = status?.config.google_client_id.source === 'env'
   const isClientSecretFromEnv = status?.config.google_client_secret.source === 'env'
   const isAppUrlFromEnv = status?.config.app_url.source === 'env'
+  const isAllowlistFromEnv = status?.config.login_allowlist.source === 'env'
 
   return (
     <div className="min-h-screen bg-[#09090b] text-white flex relative">
@@ -322,6 +330,28 @@ function SetupPage() {
                   />
                 </div>
 
+                {/* Login allowlist (optional) */}
+                <div className="space-y-1.5">
+                  <label className="text-xs font-medium text-zinc-400 flex items-center gap-2">
+                    {t('setup.loginAllowlist')}
+                    <span className="text-[10px] text-zinc-600">({t('setup.optional')})</span>
+                    {isAllowlistFromEnv && (
+                      <span className="text-[10px] bg-zinc-800 text-zinc-500 px-1.5 py-0.5 rounded flex items-center gap-1">
+                        <Lock className="h-2.5 w-2.5" />
+                        {t('setup.envBadge')}
+                      </span>
+                    )}
+                  </label>
+                  <Input
+                    value={loginAllowlist}
+                    onChange={(e) => setLoginAllowlist(e.target.value)}
+                    placeholder="alice@gmail.com, example.com"
+                    disabled={isAllowlistFromEnv}
+                    className="h-9 bg-zinc-900 border-zinc-800 text-white text-sm placeholder:text-zinc-600 disabled:opacity-50 focus:border-violet-500 focus:ring-0"
+                  />
+                  <p className="text-[11px] text-zinc-600">{t('setup.loginAllowlistHint')}</p>
+                </div>
+
                 {/* OAuth redirect URI */}
                 <div className="space-y-1.5">
                   <label className="text-xs font-medium text-zinc-400">